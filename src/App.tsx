@@ -8,7 +8,17 @@ import AppRoutes from "@/routes/AppRoutes";
 import { I18nProvider } from "@/i18n";
 import ErrorBoundary from "@/components/common/ErrorBoundary";
 
-const queryClient = new QueryClient();
+// Cached data stays fresh for a minute, so moving between the dashboard,
+// register and detail pages reuses it; stale queries refresh in the
+// background when a page mounts or the window regains focus.
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      staleTime: 60 * 1000,
+      retry: 1,
+    },
+  },
+});
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
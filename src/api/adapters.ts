@@ -14,7 +14,19 @@ import type {
   BCPTest,
   DRSite,
   KRI,
+  KRIMeasurement,
   Incident,
+  Control,
+  RiskControl,
+  ControlTest,
+  RelationshipNode,
+  RiskRelationship,
+  ServiceRisk,
+  BowTie,
+  BowTieBarrier,
+  BowTiePath,
+  LossRange,
+  RiskQuantification,
 } from "@/types";
 import type {
   BackendUser,
@@ -31,7 +43,19 @@ import type {
   BackendBCPTest,
   BackendDRSite,
   BackendKRI,
+  BackendKRIValue,
   BackendIncident,
+  BackendControl,
+  BackendRiskControl,
+  BackendControlTest,
+  BackendRelationshipNode,
+  BackendRiskRelationEdge,
+  BackendServiceRisk,
+  BackendBowTie,
+  BackendBowTieBarrier,
+  BackendBowTiePath,
+  BackendLossRange,
+  BackendRiskQuantification,
   BackendServiceCriticality,
   BackendBCPTestStatus,
   BackendKRIStatus,
@@ -44,6 +68,7 @@ import type {
   TreatmentApproach,
   ActionStatus,
 } from "@/utils/constants";
+import { parseImpactRationale } from "@/utils/impactScoring";
 
 // ===========================================
 // Role Mapping
@@ -273,6 +298,7 @@ export const adaptBackendRisk = (risk: BackendRisk): Risk => {
     category,
     owner: risk.owner?.full_name || legacy.owner_name || "-",
     status: mapBackendStatusToFrontend(risk.status),
+    lifecycleStatus: risk.status,
     likelihood,
     impact,
     score,
@@ -283,7 +309,6 @@ export const adaptBackendRisk = (risk: BackendRisk): Risk => {
     _backendId: risk.id,
     _categoryId: risk.category_id,
     _ownerId: risk.owner_id,
-    _backendStatus: risk.status,
   };
 };
 
@@ -309,18 +334,31 @@ export const adaptFrontendRiskForUpdate = (
 export const adaptBackendAssessment = (
   assessment: BackendAssessment
 ): Assessment => {
+  const rationale = parseImpactRationale(assessment.rationale);
   return {
     id: `ASS-${String(assessment.id).padStart(3, "0")}`,
     riskId:
       assessment.risk?.code ||
       `RISK-${String(assessment.risk_id).padStart(3, "0")}`,
+    riskTitle: assessment.risk?.title,
     likelihood: assessment.likelihood,
     impact: assessment.impact,
     score: assessment.score,
     level: mapBackendLevelToFrontend(assessment.risk_level),
     assessor: assessment.assessor?.full_name || "-",
     date: assessment.created_at.split("T")[0],
-    notes: assessment.notes || assessment.rationale || "",
+    createdAt: assessment.created_at,
+    notes: assessment.notes || rationale.text,
+    impactBreakdown: rationale.breakdown,
+    _backendId: assessment.id,
+    _backendRiskId: assessment.risk_id,
+    _type: assessment.assessment_type,
+    approvalStatus: assessment.status,
+    approvedBy: assessment.approver?.full_name,
+    approvedAt: assessment.approved_at,
+    rejectionReason: assessment.rejection_reason || undefined,
+    _assessorId: assessment.assessed_by,
+    _controlIds: assessment.control_ids,
   };
 };
 
@@ -397,6 +435,8 @@ export const adaptBackendAuditLog = (log: BackendAuditLog): AuditLog => {
     entityType: log.entity_type,
     entityId: String(log.entity_id || ""),
     details: log.description || "",
+    oldValues: log.old_values,
+    newValues: log.new_values,
   };
 };
 
@@ -525,8 +565,14 @@ export const adaptBackendTreatment = (
     _backendId: plan.id,
     _backendRiskId: plan.risk_id,
     _title: plan.title,
+    _description: plan.description,
     _status: plan.status,
     _progress: plan.progress,
+    _createdBy: plan.creator?.full_name,
+    _targetDate: plan.target_date?.slice(0, 10),
+    _completionDate: plan.completion_date?.slice(0, 10),
+    _estimatedBudget: plan.estimated_budget,
+    _actualCost: plan.actual_cost,
   };
 };
 
@@ -551,6 +597,33 @@ export const adaptBackendKRI = (data: BackendKRI): KRI => {
     status: KRI_STATUS_MAP[data.status] || "green",
     updatedAt:
       data.last_updated?.split("T")[0] || data.updated_at.split("T")[0],
+    code: data.code,
+    description: data.description,
+    thresholdYellow: data.threshold_yellow,
+    thresholdRed: data.threshold_red,
+    isHigherBetter: data.is_higher_better,
+    measurementFrequency: data.measurement_frequency,
+    nextMeasurementDate: data.next_measurement_date?.split("T")[0],
+    unit: data.unit,
+    formatType: data.format_type || "number",
+    owner: data.owner?.full_name,
+    notes: data.notes,
+    isActive: data.is_active !== false,
+    _backendId: data.id,
+    _backendRiskId: data.risk_id,
+    _ownerId: data.owner_id,
+  };
+};
+
+export const adaptBackendKRIValue = (data: BackendKRIValue): KRIMeasurement => {
+  return {
+    id: String(data.id),
+    kriId: formatBackendId(data.kri_id, "KRI"),
+    value: data.value,
+    status: KRI_STATUS_MAP[data.status] || "green",
+    notes: data.notes,
+    recordedAt: data.recorded_at,
+    recordedBy: data.recorder?.full_name,
   };
 };
 
@@ -571,9 +644,9 @@ const INCIDENT_SEVERITY_MAP: Record<
 const INCIDENT_STATUS_MAP: Record<BackendIncidentStatus, Incident["status"]> = {
   open: "Open",
   investigating: "Investigating",
-  contained: "Investigating",
+  contained: "Contained",
   resolved: "Resolved",
-  closed: "Resolved",
+  closed: "Closed",
 };
 
 export const adaptBackendIncident = (data: BackendIncident): Incident => {
@@ -584,6 +657,219 @@ export const adaptBackendIncident = (data: BackendIncident): Incident => {
     date: data.occurred_at.split("T")[0],
     severity: INCIDENT_SEVERITY_MAP[data.severity] || "Medium",
     status: INCIDENT_STATUS_MAP[data.status] || "Open",
+    code: data.code,
+    description: data.description,
+    category: data.category,
+    reportedAt: data.reported_at || data.created_at,
+    investigatingAt: data.investigating_at,
+    containedAt: data.contained_at,
+    resolvedAt: data.resolved_at,
+    closedAt: data.closed_at,
+    impactDescription: data.impact_description,
+    financialImpact: data.financial_impact,
+    affectedSystems: data.affected_systems || [],
+    rootCause: data.root_cause,
+    correctiveActions: data.corrective_actions || [],
+    lessonsLearned: data.lessons_learned,
+    reporter: data.reporter?.full_name,
+    assignee: data.assignee?.full_name,
+    _backendId: data.id,
+    _backendRiskId: data.risk_id,
+    _assigneeId: data.assigned_to,
+  };
+};
+
+// ===========================================
+// Control Adapters
+// ===========================================
+
+export const adaptBackendControl = (data: BackendControl): Control => {
+  return {
+    id: formatBackendId(data.id, "CTL"),
+    code: data.code,
+    name: data.name,
+    description: data.description,
+    type: data.control_type,
+    automation: data.automation,
+    frequency: data.frequency,
+    owner: data.owner?.full_name,
+    isActive: data.is_active !== false,
+    riskCount: data.risk_count,
+    testFrequency: data.test_frequency,
+    tester: data.tester?.full_name,
+    nextTestDue: data.next_test_due,
+    lastTestedAt: data.last_tested_at,
+    lastTestResult: data.last_test_result,
+    _backendId: data.id,
+    _ownerId: data.owner_id,
+    _testerId: data.tester_id,
+  };
+};
+
+export const adaptBackendRiskControl = (
+  data: BackendRiskControl
+): RiskControl => {
+  return {
+    id: String(data.id),
+    riskId: formatBackendId(data.risk_id, "RISK"),
+    riskTitle: data.risk?.title,
+    control: data.control
+      ? adaptBackendControl(data.control)
+      : {
+          id: formatBackendId(data.control_id, "CTL"),
+          code: formatBackendId(data.control_id, "CTL"),
+          name: formatBackendId(data.control_id, "CTL"),
+          type: "preventive",
+          automation: "manual",
+          frequency: "ad_hoc",
+          _backendId: data.control_id,
+        },
+    designEffectiveness: data.design_effectiveness,
+    operatingEffectiveness: data.operating_effectiveness,
+    notes: data.notes,
+    updatedAt: data.updated_at,
+    _backendId: data.id,
+    _backendRiskId: data.risk_id,
+  };
+};
+
+export const adaptBackendControlTest = (
+  data: BackendControlTest
+): ControlTest => {
+  return {
+    id: formatBackendId(data.id, "CTT"),
+    controlId: formatBackendId(data.control_id, "CTL"),
+    controlCode: data.control?.code,
+    controlName: data.control?.name,
+    tester: data.tester?.full_name,
+    testedAt: data.tested_at,
+    result: data.result,
+    sampleSize: data.sample_size,
+    exceptions: data.exceptions,
+    evidence: data.evidence,
+    notes: data.notes,
+    _backendId: data.id,
+    _backendControlId: data.control_id,
+  };
+};
+
+// ===========================================
+// Relationship Adapters
+// ===========================================
+
+const RELATIONSHIP_ID_PREFIX: Record<BackendRelationshipNode["type"], string> = {
+  risk: "RISK",
+  service: "SVC",
+  kri: "KRI",
+  policy: "POL",
+};
+
+export const adaptBackendRelationshipNode = (
+  data: BackendRelationshipNode
+): RelationshipNode => {
+  // Risk levels and service criticality use the capitalised frontend labels
+  const status =
+    data.type === "risk"
+      ? mapBackendLevelToFrontend(data.status as BackendRiskLevel)
+      : data.type === "service" && data.status
+        ? data.status.charAt(0).toUpperCase() + data.status.slice(1)
+        : data.status;
+  return {
+    type: data.type,
+    id:
+      data.type === "policy"
+        ? String(data.id)
+        : formatBackendId(data.id, RELATIONSHIP_ID_PREFIX[data.type]),
+    code: data.code,
+    name: data.name,
+    status,
+    _backendId: data.id,
+  };
+};
+
+export const adaptBackendRiskRelationEdge = (
+  data: BackendRiskRelationEdge
+): RiskRelationship => {
+  return {
+    id: data.id
+      ? String(data.id)
+      : `${data.relation_type}-${data.node.type}-${data.node.id}`,
+    type: data.relation_type,
+    direction: data.direction,
+    node: adaptBackendRelationshipNode(data.node),
+    notes: data.notes,
+    derived: !data.id,
+    _backendId: data.id,
+  };
+};
+
+export const adaptBackendServiceRisk = (
+  data: BackendServiceRisk
+): ServiceRisk => {
+  return {
+    risk: adaptBackendRisk(data.risk),
+    direct: data.direct,
+    via: data.via ?? [],
+  };
+};
+
+const adaptBackendLossRange = (data: BackendLossRange): LossRange => {
+  return {
+    distribution: data.distribution,
+    min: Number(data.min),
+    mostLikely:
+      data.most_likely === undefined || data.most_likely === null
+        ? undefined
+        : Number(data.most_likely),
+    max: Number(data.max),
+  };
+};
+
+export const adaptBackendRiskQuantification = (
+  data: BackendRiskQuantification
+): RiskQuantification => {
+  return {
+    riskId: formatBackendId(data.risk_id, "RISK"),
+    riskTitle: data.risk?.title,
+    frequency: adaptBackendLossRange(data.frequency),
+    magnitude: adaptBackendLossRange(data.magnitude),
+    currency: data.currency || "USD",
+    notes: data.notes,
+    updatedAt: data.updated_at,
+    updatedBy: data.updated_by?.full_name,
+    _backendRiskId: data.risk_id,
+  };
+};
+
+const adaptBackendBowTieBarrier = (
+  data: BackendBowTieBarrier
+): BowTieBarrier => {
+  return {
+    id: String(data.id),
+    description: data.description,
+    action: data.action ? adaptBackendAction(data.action) : undefined,
+    _backendId: data.id,
+    _actionId: data.action_id ?? undefined,
+  };
+};
+
+const adaptBackendBowTiePath = (data: BackendBowTiePath): BowTiePath => {
+  return {
+    id: String(data.id),
+    description: data.description,
+    barriers: (data.barriers || []).map(adaptBackendBowTieBarrier),
+    _backendId: data.id,
+  };
+};
+
+export const adaptBackendBowTie = (data: BackendBowTie): BowTie => {
+  return {
+    riskId: formatBackendId(data.risk_id, "RISK"),
+    topEvent: data.top_event || "",
+    causes: (data.causes || []).map(adaptBackendBowTiePath),
+    consequences: (data.consequences || []).map(adaptBackendBowTiePath),
+    updatedAt: data.updated_at,
+    updatedBy: data.updated_by?.full_name,
   };
 };
 
@@ -617,7 +903,9 @@ const FRONTEND_TO_BACKEND_INCIDENT_STATUS: Record<
 > = {
   Open: "open",
   Investigating: "investigating",
+  Contained: "contained",
   Resolved: "resolved",
+  Closed: "closed",
 };
 
 export const mapFrontendCriticalityToBackend = (
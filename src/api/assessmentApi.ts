@@ -8,10 +8,15 @@
 import axiosInstance, { extractData } from "./axiosInstance";
 import { adaptBackendAssessment } from "./adapters";
 import type { Assessment } from "@/types";
+import {
+  formatImpactRationale,
+  type ImpactBreakdown,
+} from "@/utils/impactScoring";
 import type {
   ApiResponse,
   BackendAssessment,
   BackendAssessmentCreateRequest,
+  BackendAssessmentStatus,
   BackendRiskMatrixData,
 } from "@/types/backend";
 
@@ -25,6 +30,14 @@ export interface AssessmentInput {
   impact: number;
   notes?: string;
   type?: "inherent" | "residual";
+  /** Stored in the rationale; null clears a breakdown the impact no longer matches */
+  impactBreakdown?: ImpactBreakdown | null;
+  /** Backend IDs of the controls a residual score relies on */
+  controlIds?: number[];
+}
+
+export interface AssessmentFilters {
+  status?: BackendAssessmentStatus;
 }
 
 // ===========================================
@@ -33,13 +46,15 @@ export interface AssessmentInput {
 
 export const assessmentApi = {
   /**
-   * Get all assessments
+   * Get all assessments, optionally only those in one approval state
    */
-  async getAll(): Promise<Assessment[]> {
+  async getAll(filters: AssessmentFilters = {}): Promise<Assessment[]> {
     try {
       const response = await axiosInstance.get<
         ApiResponse<BackendAssessment[]>
-      >("/assessments");
+      >("/assessments", {
+        params: filters.status ? { status: filters.status } : undefined,
+      });
       const data = extractData(response);
       return data.map(adaptBackendAssessment);
     } catch (error) {
@@ -94,6 +109,10 @@ export const assessmentApi = {
         likelihood: data.likelihood,
         impact: data.impact,
         notes: data.notes,
+        ...(data.impactBreakdown
+          ? { rationale: formatImpactRationale(data.impactBreakdown) }
+          : {}),
+        ...(data.controlIds?.length ? { control_ids: data.controlIds } : {}),
       };
 
       const response = await axiosInstance.post<ApiResponse<BackendAssessment>>(
@@ -127,6 +146,13 @@ export const assessmentApi = {
         requestData.likelihood = data.likelihood;
       if (data.impact !== undefined) requestData.impact = data.impact;
       if (data.notes !== undefined) requestData.notes = data.notes;
+      if (data.controlIds !== undefined)
+        requestData.control_ids = data.controlIds;
+      if (data.impactBreakdown !== undefined) {
+        requestData.rationale = data.impactBreakdown
+          ? formatImpactRationale(data.impactBreakdown)
+          : "";
+      }
 
       const response = await axiosInstance.put<ApiResponse<BackendAssessment>>(
         `/assessments/${numericId}`,
@@ -6,6 +6,7 @@
  */
 
 import axiosInstance, {
+  DEMO_MODE,
   clearAuthData,
   saveAuthTokens,
   extractData,
@@ -87,6 +88,17 @@ export const authApi = {
    * In production deployments you should prefer email/password.
    */
   async loginWithRole(role: QuickRole): Promise<LoginResponse> {
+    // Demo mode seeds one account per quick role.
+    if (DEMO_MODE) {
+      const { DEMO_DEFAULT_PASSWORD, demoAccountForRole } = await import(
+        "./demoSeed"
+      );
+      return authApi.login({
+        email: demoAccountForRole(role),
+        password: DEMO_DEFAULT_PASSWORD,
+      });
+    }
+
     // Map roles to known dev accounts.
     // Backend seed creates: admin@rms.local / Admin@123
     if (role === "Admin") {
@@ -4,7 +4,8 @@
  * Central configuration for all API calls.
  * Handles authentication, error handling, and response transformation.
  *
- * ⚠️ PRODUCTION MODE - All data comes from Backend only
+ * ⚠️ PRODUCTION MODE - All data comes from Backend only, unless
+ * VITE_DEMO_MODE=true routes requests to the in-browser demo backend.
  */
 
 import axios, {
@@ -21,6 +22,7 @@ import type { ApiResponse } from "@/types/backend";
 const baseURL =
   import.meta.env.VITE_API_BASE_URL || "http://localhost:5000/api/v1";
 const DEBUG = import.meta.env.VITE_DEBUG === "true";
+export const DEMO_MODE = import.meta.env.VITE_DEMO_MODE === "true";
 
 // Token storage keys
 const TOKEN_KEY = "auth_token";
@@ -40,6 +42,15 @@ export const axiosInstance = axios.create({
   },
 });
 
+// Demo mode: answer requests from localStorage instead of the network.
+// Loaded lazily so production bundles don't carry the demo dataset.
+if (DEMO_MODE) {
+  axiosInstance.defaults.adapter = async (config) => {
+    const { demoAdapter } = await import("./demoBackend");
+    return demoAdapter(config);
+  };
+}
+
 // ===========================================
 // Request Interceptor
 // ===========================================
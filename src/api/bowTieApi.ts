@@ -0,0 +1,78 @@
+/**
+ * Bow-Tie API
+ *
+ * One bow-tie analysis per risk: the causes that can lead to the top event
+ * with their preventive barriers, and the consequences that can follow it
+ * with their mitigating barriers. Barriers can point at the treatment
+ * action that puts them in place. The whole diagram is saved at once.
+ */
+
+import axiosInstance, { extractData } from "./axiosInstance";
+import {
+  BackendBowTie,
+  BackendBowTiePath,
+  ApiResponse,
+  BowTie,
+  BowTiePath,
+} from "../types";
+import { adaptBackendBowTie } from "./adapters";
+
+const toPathRequestData = (path: BowTiePath): BackendBowTiePath => ({
+  id: path._backendId,
+  description: path.description.trim(),
+  barriers: path.barriers.map((barrier) => ({
+    id: barrier._backendId,
+    description: barrier.description.trim(),
+    action_id: barrier._actionId ?? null,
+  })),
+});
+
+const toRequestData = (
+  bowTie: BowTie
+): Pick<BackendBowTie, "top_event" | "causes" | "consequences"> => ({
+  top_event: bowTie.topEvent.trim(),
+  causes: bowTie.causes.map(toPathRequestData),
+  consequences: bowTie.consequences.map(toPathRequestData),
+});
+
+const toRequestError = (error: unknown): Error => {
+  const err = error as {
+    response?: { data?: { error?: { message?: string } } };
+  };
+  return new Error(err.response?.data?.error?.message || "Request failed");
+};
+
+const bowTieApi = {
+  /**
+   * Bow-tie for a risk; a risk without one gets an empty diagram
+   */
+  async getByRiskId(riskId: number | string): Promise<BowTie | null> {
+    try {
+      const response = await axiosInstance.get<ApiResponse<BackendBowTie>>(
+        `/risks/${riskId}/bowtie`
+      );
+      return adaptBackendBowTie(extractData(response));
+    } catch (error) {
+      console.error(`Error fetching bow-tie for risk ${riskId}:`, error);
+      return null;
+    }
+  },
+
+  /**
+   * Replace the bow-tie. Paths and barriers missing from the request are
+   * removed; new ones are given ids.
+   */
+  async save(riskId: number | string, bowTie: BowTie): Promise<BowTie> {
+    try {
+      const response = await axiosInstance.put<ApiResponse<BackendBowTie>>(
+        `/risks/${riskId}/bowtie`,
+        toRequestData(bowTie)
+      );
+      return adaptBackendBowTie(extractData(response));
+    } catch (error: unknown) {
+      throw toRequestError(error);
+    }
+  },
+};
+
+export default bowTieApi;
@@ -0,0 +1,305 @@
+/**
+ * Control API
+ *
+ * Control library and the many-to-many links between controls and risks.
+ * Each link carries the control's design and operating effectiveness for
+ * that particular risk. Controls with a test plan are tested periodically;
+ * each recorded test rolls the next due date forward.
+ */
+
+import axiosInstance, { extractData, buildQueryParams } from "./axiosInstance";
+import {
+  BackendControl,
+  BackendControlAutomation,
+  BackendControlEffectiveness,
+  BackendControlFrequency,
+  BackendControlType,
+  BackendRiskControl,
+  BackendControlTest,
+  BackendControlTestFrequency,
+  BackendControlTestResult,
+  ApiResponse,
+  PaginatedResponse,
+  Control,
+  RiskControl,
+  ControlTest,
+} from "../types";
+import {
+  adaptBackendControl,
+  adaptBackendControlTest,
+  adaptBackendRiskControl,
+} from "./adapters";
+
+export interface ControlInput {
+  name: string;
+  description?: string;
+  type?: BackendControlType;
+  automation?: BackendControlAutomation;
+  frequency?: BackendControlFrequency;
+  ownerId?: number;
+  /** Test plan; a null frequency takes the control off the schedule */
+  testFrequency?: BackendControlTestFrequency | null;
+  testerId?: number;
+  nextTestDue?: string | null;
+}
+
+export interface RiskControlInput {
+  designEffectiveness?: BackendControlEffectiveness;
+  operatingEffectiveness?: BackendControlEffectiveness;
+  notes?: string;
+}
+
+export interface ControlTestInput {
+  testedAt: string;
+  result: BackendControlTestResult;
+  sampleSize: number;
+  exceptions: number;
+  evidence?: string;
+  notes?: string;
+  testerId?: number;
+}
+
+const toRequestData = (
+  data: Partial<ControlInput>
+): Record<string, unknown> => {
+  const requestData: Record<string, unknown> = {};
+  if (data.name !== undefined) requestData.name = data.name;
+  if (data.description !== undefined)
+    requestData.description = data.description;
+  if (data.type !== undefined) requestData.control_type = data.type;
+  if (data.automation !== undefined) requestData.automation = data.automation;
+  if (data.frequency !== undefined) requestData.frequency = data.frequency;
+  if (data.ownerId !== undefined) requestData.owner_id = data.ownerId || null;
+  if (data.testFrequency !== undefined)
+    requestData.test_frequency = data.testFrequency;
+  if (data.testerId !== undefined)
+    requestData.tester_id = data.testerId || null;
+  if (data.nextTestDue !== undefined)
+    requestData.next_test_due = data.nextTestDue || null;
+  return requestData;
+};
+
+const toLinkRequestData = (
+  data: RiskControlInput
+): Record<string, unknown> => {
+  const requestData: Record<string, unknown> = {};
+  if (data.designEffectiveness !== undefined)
+    requestData.design_effectiveness = data.designEffectiveness;
+  if (data.operatingEffectiveness !== undefined)
+    requestData.operating_effectiveness = data.operatingEffectiveness;
+  if (data.notes !== undefined) requestData.notes = data.notes;
+  return requestData;
+};
+
+const toRequestError = (error: unknown): Error => {
+  const err = error as {
+    response?: { data?: { error?: { message?: string } } };
+  };
+  return new Error(err.response?.data?.error?.message || "Request failed");
+};
+
+const controlApi = {
+  /**
+   * Control library
+   */
+  async getAll(filters?: Record<string, unknown>): Promise<Control[]> {
+    try {
+      const queryParams = buildQueryParams(filters || {});
+      const response = await axiosInstance.get<
+        PaginatedResponse<BackendControl>
+      >(`/controls${queryParams}`);
+
+      const data = extractData(response);
+      return (data || []).map(adaptBackendControl);
+    } catch (error) {
+      console.error("Error fetching controls:", error);
+      return [];
+    }
+  },
+
+  /**
+   * Create a control in the library
+   */
+  async create(data: ControlInput): Promise<Control> {
+    try {
+      const response = await axiosInstance.post<ApiResponse<BackendControl>>(
+        "/controls",
+        toRequestData(data)
+      );
+      return adaptBackendControl(extractData(response));
+    } catch (error: unknown) {
+      throw toRequestError(error);
+    }
+  },
+
+  /**
+   * Update control definition (type, automation, owner...)
+   */
+  async update(
+    id: number | string,
+    data: Partial<ControlInput>
+  ): Promise<Control> {
+    try {
+      const response = await axiosInstance.put<ApiResponse<BackendControl>>(
+        `/controls/${id}`,
+        toRequestData(data)
+      );
+      return adaptBackendControl(extractData(response));
+    } catch (error: unknown) {
+      throw toRequestError(error);
+    }
+  },
+
+  /**
+   * Retire or reactivate a control. Retired controls keep their links
+   * but can no longer be linked to new risks.
+   */
+  async setActive(id: number | string, isActive: boolean): Promise<Control> {
+    try {
+      const response = await axiosInstance.put<ApiResponse<BackendControl>>(
+        `/controls/${id}`,
+        { is_active: isActive }
+      );
+      return adaptBackendControl(extractData(response));
+    } catch (error: unknown) {
+      throw toRequestError(error);
+    }
+  },
+
+  /**
+   * Risks a control is linked to
+   */
+  async getRisks(id: number | string): Promise<RiskControl[]> {
+    try {
+      const response = await axiosInstance.get<
+        ApiResponse<BackendRiskControl[]>
+      >(`/controls/${id}/risks`);
+
+      const data = extractData(response);
+      return (data || []).map(adaptBackendRiskControl);
+    } catch (error) {
+      console.error(`Error fetching risks for control ${id}:`, error);
+      return [];
+    }
+  },
+
+  /**
+   * Controls linked to a risk, with their effectiveness ratings
+   */
+  async getByRiskId(riskId: number | string): Promise<RiskControl[]> {
+    try {
+      const response = await axiosInstance.get<
+        ApiResponse<BackendRiskControl[]>
+      >(`/risks/${riskId}/controls`);
+
+      const data = extractData(response);
+      return (data || []).map(adaptBackendRiskControl);
+    } catch (error) {
+      console.error(`Error fetching controls for risk ${riskId}:`, error);
+      return [];
+    }
+  },
+
+  /**
+   * Link a control to a risk
+   */
+  async link(
+    riskId: number | string,
+    controlId: number,
+    data: RiskControlInput = {}
+  ): Promise<RiskControl> {
+    try {
+      const response = await axiosInstance.post<
+        ApiResponse<BackendRiskControl>
+      >(`/risks/${riskId}/controls`, {
+        control_id: controlId,
+        ...toLinkRequestData(data),
+      });
+      return adaptBackendRiskControl(extractData(response));
+    } catch (error: unknown) {
+      throw toRequestError(error);
+    }
+  },
+
+  /**
+   * Re-rate a linked control's design and operating effectiveness
+   */
+  async updateLink(
+    riskId: number | string,
+    controlId: number,
+    data: RiskControlInput
+  ): Promise<RiskControl> {
+    try {
+      const response = await axiosInstance.put<
+        ApiResponse<BackendRiskControl>
+      >(`/risks/${riskId}/controls/${controlId}`, toLinkRequestData(data));
+      return adaptBackendRiskControl(extractData(response));
+    } catch (error: unknown) {
+      throw toRequestError(error);
+    }
+  },
+
+  /**
+   * Recorded control tests, newest first
+   */
+  async getTests(filters?: {
+    controlId?: number;
+    result?: BackendControlTestResult;
+  }): Promise<ControlTest[]> {
+    try {
+      const queryParams = buildQueryParams({
+        control_id: filters?.controlId,
+        result: filters?.result,
+      });
+      const response = await axiosInstance.get<
+        PaginatedResponse<BackendControlTest>
+      >(`/control-tests${queryParams}`);
+
+      const data = extractData(response);
+      return (data || []).map(adaptBackendControlTest);
+    } catch (error) {
+      console.error("Error fetching control tests:", error);
+      return [];
+    }
+  },
+
+  /**
+   * Record a test result. The backend moves the control's next due date
+   * on by its test frequency and carries the result into the operating
+   * effectiveness of every risk the control is linked to.
+   */
+  async recordTest(
+    controlId: number | string,
+    data: ControlTestInput
+  ): Promise<ControlTest> {
+    try {
+      const response = await axiosInstance.post<
+        ApiResponse<BackendControlTest>
+      >(`/controls/${controlId}/tests`, {
+        tested_at: data.testedAt,
+        result: data.result,
+        sample_size: data.sampleSize,
+        exceptions: data.exceptions,
+        evidence: data.evidence,
+        notes: data.notes,
+        tester_id: data.testerId || undefined,
+      });
+      return adaptBackendControlTest(extractData(response));
+    } catch (error: unknown) {
+      throw toRequestError(error);
+    }
+  },
+
+  /**
+   * Remove a control from a risk; the control stays in the library
+   */
+  async unlink(riskId: number | string, controlId: number): Promise<void> {
+    try {
+      await axiosInstance.delete(`/risks/${riskId}/controls/${controlId}`);
+    } catch (error: unknown) {
+      throw toRequestError(error);
+    }
+  },
+};
+
+export default controlApi;
@@ -0,0 +1,4090 @@
+/**
+ * Demo Backend - In-browser fake of the Flask API
+ *
+ * Installed as the axios adapter when VITE_DEMO_MODE=true, so every API
+ * module keeps calling the same endpoints while requests are answered from
+ * a dataset persisted in localStorage (seeded from demoSeed.ts). Clearing
+ * the riskms_ storage keys from System Settings restores the seed.
+ */
+
+import {
+  AxiosError,
+  AxiosHeaders,
+  type AxiosAdapter,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from "axios";
+import {
+  getRiskLevel,
+  BACKEND_INCIDENT_STATUSES,
+  PERMISSIONS,
+  type PermissionKey,
+} from "@/utils/constants";
+import { getNextScheduledRun } from "@/utils/reportSchedule";
+import {
+  getRiskTransitions,
+  type RiskTransitionBlocker,
+} from "@/utils/riskLifecycle";
+import {
+  getTreatmentTransitions,
+  type TreatmentTransitionBlocker,
+} from "@/utils/treatmentWorkflow";
+import {
+  MAX_MATRIX_SIZE,
+  MIN_MATRIX_SIZE,
+  smallestMatrixFor,
+  normalizeRiskMatrix,
+  type RiskMatrixScaleLevel,
+} from "@/utils/riskMatrix";
+import {
+  IMPACT_AGGREGATION_RULES,
+  normalizeImpactScoring,
+  type ImpactAggregationRule,
+} from "@/utils/impactScoring";
+import {
+  adaptBackendAssessment,
+  adaptBackendTreatment,
+  mapBackendRoleToFrontend,
+} from "./adapters";
+import {
+  buildDemoSeed,
+  appetiteLevel,
+  evaluateKRIValue,
+  freezeRegister,
+  type DemoDatabase,
+} from "./demoSeed";
+import type {
+  BackendRisk,
+  BackendRiskLevel,
+  BackendRiskStatus,
+  BackendUser,
+  BackendAssessment,
+  BackendTreatmentPlan,
+  BackendTreatmentAction,
+  BackendKRI,
+  BackendKRIStatus,
+  BackendKRIFrequency,
+  BackendIncident,
+  BackendControl,
+  BackendControlEffectiveness,
+  BackendRiskControl,
+  BackendControlTest,
+  BackendControlTestFrequency,
+  BackendControlTestResult,
+  BackendRelationshipNode,
+  BackendRiskRelationEdge,
+  BackendRiskRelationship,
+  BackendServiceRisk,
+  BackendBowTie,
+  BackendBowTiePath,
+  BackendLossRange,
+  BackendRiskQuantification,
+} from "@/types/backend";
+import type { Notification } from "./notificationApi";
+import type { PolicyDocument } from "./policyDocumentApi";
+import type {
+  AppetiteCheckDetail,
+  AppetiteLevel,
+  AppetiteThresholds,
+  RiskEvaluation,
+} from "./riskAppetiteApi";
+
+// ===========================================
+// Configuration
+// ===========================================
+
+export const DEMO_STORAGE_KEY = "riskms_demo_db_v1";
+
+const LATENCY_MS = 150;
+
+type Body = Record<string, unknown>;
+
+interface RouteContext {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: Body;
+  formData?: FormData;
+  db: DemoDatabase;
+  userId: number | null;
+}
+
+interface DemoResult {
+  status: number;
+  data: unknown;
+  headers?: Record<string, string>;
+}
+
+type Handler = (ctx: RouteContext) => unknown | Promise<unknown>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: Handler;
+}
+
+class DemoHttpError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+// ===========================================
+// Persistence
+// ===========================================
+
+let database: DemoDatabase | null = null;
+
+/**
+ * Load the demo database, filling any table missing from an older stored
+ * copy with its seed value.
+ */
+const loadDatabase = (): DemoDatabase => {
+  if (database) return database;
+  const seed = buildDemoSeed();
+  try {
+    const raw = localStorage.getItem(DEMO_STORAGE_KEY);
+    if (raw) {
+      database = { ...seed, ...(JSON.parse(raw) as Partial<DemoDatabase>) };
+      return database;
+    }
+  } catch {
+    // ignore and reseed
+  }
+  database = seed;
+  saveDatabase();
+  return database;
+};
+
+const saveDatabase = () => {
+  if (!database) return;
+  try {
+    localStorage.setItem(DEMO_STORAGE_KEY, JSON.stringify(database));
+  } catch (error) {
+    console.error("Failed to persist demo data:", error);
+  }
+};
+
+/**
+ * Drop in-memory changes from a write that failed part-way, so the next
+ * request reloads the last saved copy instead of persisting half an update.
+ */
+const discardUnsavedChanges = () => {
+  database = null;
+};
+
+// ===========================================
+// Helpers
+// ===========================================
+
+const now = () => new Date().toISOString();
+
+const today = () => now().split("T")[0];
+
+const nextId = (rows: Array<{ id: number }>) =>
+  rows.reduce((max, row) => Math.max(max, row.id), 0) + 1;
+
+const padCode = (prefix: string, id: number) =>
+  `${prefix}-${String(id).padStart(3, "0")}`;
+
+const pick = (body: Body, keys: string[]): Body =>
+  Object.fromEntries(
+    keys.filter((k) => body[k] !== undefined).map((k) => [k, body[k]])
+  );
+
+const notFound = (entity: string): never => {
+  throw new DemoHttpError(404, "NOT_FOUND", `${entity} not found`);
+};
+
+const findOr404 = <T extends { id: number }>(
+  rows: T[],
+  id: string | number,
+  entity: string
+): T => rows.find((row) => row.id === Number(id)) ?? notFound(entity);
+
+const removeById = <T extends { id: number }>(
+  rows: T[],
+  id: string | number,
+  entity: string
+) => {
+  const index = rows.findIndex((row) => row.id === Number(id));
+  if (index === -1) notFound(entity);
+  rows.splice(index, 1);
+};
+
+const toLevel = (
+  score: number,
+  cell?: { likelihood: number; impact: number }
+): BackendRiskLevel =>
+  getRiskLevel(score, cell).label.toLowerCase() as BackendRiskLevel;
+
+const queryNumber = (query: URLSearchParams, key: string) => {
+  const value = query.get(key);
+  return value ? Number(value) : undefined;
+};
+
+/**
+ * Wrap a list in the backend pagination envelope.
+ */
+const paginate = <T>(items: T[], query: URLSearchParams): DemoResult => {
+  const page = queryNumber(query, "page") || 1;
+  const perPage = queryNumber(query, "per_page") || items.length || 1;
+  const slice = items.slice((page - 1) * perPage, page * perPage);
+  return {
+    status: 200,
+    data: {
+      success: true,
+      data: slice,
+      meta: {
+        total: items.length,
+        page,
+        per_page: perPage,
+        total_pages: Math.max(1, Math.ceil(items.length / perPage)),
+        count: slice.length,
+      },
+    },
+  };
+};
+
+const fileResult = (
+  content: string,
+  type: string,
+  filename: string
+): DemoResult => ({
+  status: 200,
+  data: new Blob([content], { type }),
+  headers: {
+    "content-type": type,
+    "content-disposition": `attachment; filename=${filename}`,
+  },
+});
+
+const toCsv = (rows: unknown[]): string => {
+  const records = rows.filter(
+    (row): row is Record<string, unknown> => !!row && typeof row === "object"
+  );
+  if (records.length === 0) return "";
+  const columns = Object.keys(records[0]).filter((key) => {
+    const value = records[0][key];
+    return value === null || typeof value !== "object";
+  });
+  const escape = (value: unknown) => {
+    const text = value === undefined || value === null ? "" : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [
+    columns.join(","),
+    ...records.map((row) => columns.map((c) => escape(row[c])).join(",")),
+  ].join("\n");
+};
+
+// ===========================================
+// Auth Token
+// ===========================================
+
+const encodeSegment = (value: unknown) =>
+  btoa(JSON.stringify(value)).replace(/=+$/, "");
+
+/**
+ * Unsigned JWT-shaped token; isAuthenticated() only reads the payload.
+ */
+const issueToken = (userId: number) =>
+  [
+    encodeSegment({ alg: "none", typ: "JWT" }),
+    encodeSegment({
+      sub: userId,
+      exp: Math.floor(Date.now() / 1000) + 60 * 60 * 24 * 30,
+    }),
+    "demo",
+  ].join(".");
+
+const readTokenUserId = (authorization?: string): number | null => {
+  const token = authorization?.replace(/^Bearer\s+/i, "");
+  if (!token) return null;
+  try {
+    const payload = JSON.parse(atob(token.split(".")[1]));
+    return typeof payload.sub === "number" ? payload.sub : null;
+  } catch {
+    return null;
+  }
+};
+
+const requireUser = (ctx: RouteContext): BackendUser => {
+  const user = ctx.db.users.find((u) => u.id === ctx.userId);
+  if (!user) {
+    throw new DemoHttpError(401, "UNAUTHORIZED", "Authentication required");
+  }
+  return user;
+};
+
+/** Whether the signed-in user's role grants a frontend permission. */
+const userCan = (ctx: RouteContext, permission: PermissionKey) => {
+  const user = ctx.db.users.find((u) => u.id === ctx.userId);
+  const role = ctx.db.roles.find((r) => r.id === user?.role_id);
+  return !!role && PERMISSIONS[mapBackendRoleToFrontend(role.code)][permission];
+};
+
+// ===========================================
+// Relations
+// ===========================================
+
+/** User with role attached (without role permissions, like the API). */
+const withRole = (db: DemoDatabase, user?: BackendUser) => {
+  if (!user) return undefined;
+  const role = db.roles.find((r) => r.id === user.role_id);
+  return {
+    ...user,
+    role: role ? { ...role, permissions: undefined } : undefined,
+  };
+};
+
+const userById = (db: DemoDatabase, id?: number) =>
+  id ? withRole(db, db.users.find((u) => u.id === id)) : undefined;
+
+const expandRisk = (db: DemoDatabase, risk: BackendRisk): BackendRisk => {
+  const category = db.categories.find((c) => c.id === risk.category_id);
+  const owner = userById(db, risk.owner_id);
+  return {
+    ...risk,
+    category,
+    category_name: category?.name,
+    owner,
+    owner_name: owner?.full_name ?? risk.owner_name,
+  };
+};
+
+const expandAssessment = (
+  db: DemoDatabase,
+  assessment: BackendAssessment
+): BackendAssessment => {
+  const risk = db.risks.find((r) => r.id === assessment.risk_id);
+  return {
+    ...assessment,
+    risk: risk ? { ...risk } : undefined,
+    assessor: userById(db, assessment.assessed_by),
+    approver: userById(db, assessment.approved_by),
+  };
+};
+
+/** Only assessments awaiting review can be approved or rejected. */
+const assertPendingReview = (
+  assessment: BackendAssessment,
+  reviewerId: number | null
+) => {
+  if (assessment.status !== "pending") {
+    throw new DemoHttpError(
+      400,
+      "INVALID_STATUS",
+      `Assessment is ${assessment.status} and cannot be reviewed`
+    );
+  }
+  if (reviewerId !== null && reviewerId === assessment.assessed_by) {
+    throw new DemoHttpError(
+      403,
+      "SELF_REVIEW",
+      "Assessments must be reviewed by someone other than the assessor"
+    );
+  }
+};
+
+const expandAction = (
+  db: DemoDatabase,
+  action: BackendTreatmentAction
+): BackendTreatmentAction => ({
+  ...action,
+  assignee: userById(db, action.assignee_id),
+});
+
+const expandPlan = (
+  db: DemoDatabase,
+  plan: BackendTreatmentPlan
+): BackendTreatmentPlan => {
+  const risk = db.risks.find((r) => r.id === plan.risk_id);
+  return {
+    ...plan,
+    risk: risk ? { ...risk } : undefined,
+    assignee: userById(db, plan.assignee_id),
+    creator: userById(db, plan.created_by),
+    actions: db.actions
+      .filter((a) => a.plan_id === plan.id)
+      .map((a) => expandAction(db, a)),
+  };
+};
+
+const expandKRI = (db: DemoDatabase, kri: BackendKRI): BackendKRI => {
+  const risk = db.risks.find((r) => r.id === kri.risk_id);
+  return {
+    ...kri,
+    risk: risk ? { ...risk } : undefined,
+    owner: userById(db, kri.owner_id),
+  };
+};
+
+/** Most recent recorded test of a control. */
+const latestControlTest = (db: DemoDatabase, controlId: number) =>
+  db.controlTests
+    .filter((t) => t.control_id === controlId)
+    .reduce<BackendControlTest | undefined>(
+      (latest, t) => (!latest || t.tested_at > latest.tested_at ? t : latest),
+      undefined
+    );
+
+const expandControl = (
+  db: DemoDatabase,
+  control: BackendControl
+): BackendControl => {
+  const latest = latestControlTest(db, control.id);
+  return {
+    ...control,
+    owner: userById(db, control.owner_id),
+    tester: userById(db, control.tester_id),
+    risk_count: db.riskControls.filter((l) => l.control_id === control.id)
+      .length,
+    last_tested_at: latest?.tested_at,
+    last_test_result: latest?.result,
+  };
+};
+
+const expandControlTest = (
+  db: DemoDatabase,
+  test: BackendControlTest
+): BackendControlTest => {
+  const control = db.controls.find((c) => c.id === test.control_id);
+  return {
+    ...test,
+    control: control ? { ...control } : undefined,
+    tester: userById(db, test.tester_id),
+  };
+};
+
+const expandRiskControl = (
+  db: DemoDatabase,
+  link: BackendRiskControl
+): BackendRiskControl => {
+  const risk = db.risks.find((r) => r.id === link.risk_id);
+  const control = db.controls.find((c) => c.id === link.control_id);
+  return {
+    ...link,
+    risk: risk ? { ...risk } : undefined,
+    control: control ? expandControl(db, control) : undefined,
+  };
+};
+
+/** Keep only controls actually linked to the risk being assessed. */
+const linkedControlIds = (
+  db: DemoDatabase,
+  riskId: number,
+  ids: unknown
+): number[] | undefined => {
+  if (!Array.isArray(ids)) return undefined;
+  const linked = new Set(
+    db.riskControls.filter((l) => l.risk_id === riskId).map((l) => l.control_id)
+  );
+  return [...new Set(ids.map(Number))].filter((id) => linked.has(id));
+};
+
+const expandIncident = (
+  db: DemoDatabase,
+  incident: BackendIncident
+): BackendIncident => {
+  const risk = db.risks.find((r) => r.id === incident.risk_id);
+  return {
+    ...incident,
+    risk: risk ? { ...risk } : undefined,
+    reporter: userById(db, incident.reported_by),
+    assignee: userById(db, incident.assigned_to),
+  };
+};
+
+// ===========================================
+// Side Effects
+// ===========================================
+
+const audit = (
+  ctx: RouteContext,
+  action: string,
+  entityType: string,
+  entityId: number | undefined,
+  description: string,
+  oldValues?: Record<string, unknown>,
+  newValues?: Record<string, unknown>
+) => {
+  const user = ctx.db.users.find((u) => u.id === ctx.userId);
+  ctx.db.auditLogs.unshift({
+    id: nextId(ctx.db.auditLogs),
+    user_id: user?.id,
+    user_name: user?.full_name ?? "System",
+    user_email: user?.email,
+    action,
+    entity_type: entityType,
+    entity_id: entityId,
+    old_values: oldValues,
+    new_values: newValues,
+    description,
+    created_at: now(),
+  });
+};
+
+/** Fields whose values differ between two versions of a record. */
+const diffFields = (
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  keys: string[]
+) => {
+  const oldValues: Record<string, unknown> = {};
+  const newValues: Record<string, unknown> = {};
+  for (const key of keys) {
+    if (before[key] !== after[key]) {
+      oldValues[key] = before[key];
+      newValues[key] = after[key];
+    }
+  }
+  return { oldValues, newValues };
+};
+
+const notify = (
+  db: DemoDatabase,
+  input: Pick<Notification, "title" | "message" | "type" | "priority"> &
+    Partial<Notification>
+) => {
+  const notification: Notification = {
+    id: nextId(db.notifications),
+    user_id: 1,
+    is_read: false,
+    source: "demo",
+    is_expired: false,
+    created_at: now(),
+    updated_at: now(),
+    ...input,
+  };
+  db.notifications.unshift(notification);
+  return notification;
+};
+
+/**
+ * Apply an approved assessment's score to the residual or inherent risk
+ * fields. Only approval calls this, so unreviewed ratings never move the
+ * live score.
+ */
+const applyAssessmentToRisk = (
+  db: DemoDatabase,
+  assessment: BackendAssessment
+) => {
+  const risk = db.risks.find((r) => r.id === assessment.risk_id);
+  if (!risk) return;
+  const prefix =
+    assessment.assessment_type === "residual" ? "residual" : "inherent";
+  risk[`${prefix}_likelihood`] = assessment.likelihood;
+  risk[`${prefix}_impact`] = assessment.impact;
+  risk[`${prefix}_score`] = assessment.score;
+  risk.risk_level = toLevel(risk.residual_score ?? risk.inherent_score ?? 0, {
+    likelihood: risk.residual_likelihood ?? risk.inherent_likelihood,
+    impact: risk.residual_impact ?? risk.inherent_impact,
+  });
+  risk.updated_at = now();
+};
+
+const refreshPlanProgress = (db: DemoDatabase, planId: number) => {
+  const plan = db.treatments.find((p) => p.id === planId);
+  if (!plan) return;
+  const actions = db.actions.filter((a) => a.plan_id === planId);
+  const done = actions.filter((a) => a.is_completed).length;
+  plan.progress = actions.length
+    ? Math.round((done / actions.length) * 100)
+    : 0;
+  plan.updated_at = now();
+};
+
+const evaluateKRIStatus = (kri: BackendKRI): BackendKRIStatus => {
+  const value = kri.current_value;
+  if (value === undefined || value === null) return kri.status;
+  return evaluateKRIValue(kri, value);
+};
+
+const FREQUENCY_DAYS: Record<BackendKRIFrequency, number> = {
+  daily: 1,
+  weekly: 7,
+  monthly: 30,
+  quarterly: 91,
+  annually: 365,
+};
+
+const nextMeasurementDate = (frequency: BackendKRIFrequency): string => {
+  const date = new Date();
+  date.setDate(date.getDate() + (FREQUENCY_DAYS[frequency] ?? 30));
+  return date.toISOString().split("T")[0];
+};
+
+// ===========================================
+// Risk Appetite
+// ===========================================
+
+const riskScore = (risk: BackendRisk) =>
+  risk.residual_score ?? risk.inherent_score ?? 0;
+
+/** The category's own limits when the board set any, else the global ones. */
+const appetiteThresholdsFor = (db: DemoDatabase, categoryId?: number) =>
+  db.categoryAppetites.find((a) => a.category_id === categoryId)?.thresholds;
+
+const evaluateAppetite = (
+  db: DemoDatabase,
+  risk: BackendRisk
+): RiskEvaluation => {
+  const categoryThresholds = appetiteThresholdsFor(db, risk.category_id);
+  const thresholds = categoryThresholds ?? db.appetiteThresholds;
+  const score = riskScore(risk);
+  const limit = thresholds.high;
+  const level = appetiteLevel(score, thresholds);
+
+  const actionType: Record<AppetiteLevel, string | null> = {
+    within_appetite: null,
+    approaching_limit: "monitor",
+    exceeded: "notify",
+    critical: "escalate",
+  };
+
+  return {
+    risk_id: risk.id,
+    risk_code: risk.code,
+    level,
+    score,
+    threshold: limit,
+    exceeded_by: Math.max(0, score - limit),
+    requires_action: level === "exceeded" || level === "critical",
+    action_type: actionType[level],
+    thresholds: { ...thresholds },
+    category_id: risk.category_id ?? null,
+    category_name: db.categories.find((c) => c.id === risk.category_id)?.name,
+    uses_category_thresholds: !!categoryThresholds,
+  };
+};
+
+const activeRisks = (db: DemoDatabase) =>
+  db.risks.filter((r) => r.status !== "closed");
+
+/**
+ * Notify and/or escalate a risk that is outside the appetite.
+ */
+const actOnEvaluation = (
+  db: DemoDatabase,
+  risk: BackendRisk,
+  evaluation: RiskEvaluation,
+  options: { notify?: boolean; auto_escalate?: boolean }
+) => {
+  const actions: Array<{ action: string; [key: string]: unknown }> = [];
+  if (!evaluation.requires_action) return actions;
+
+  if (options.notify) {
+    const notification = notify(db, {
+      title: "Risk appetite exceeded",
+      message: `${risk.code} ${risk.title} scores ${evaluation.score} against a limit of ${evaluation.threshold}.`,
+      type: "appetite_exceeded",
+      priority: evaluation.level === "critical" ? "critical" : "high",
+      user_id: risk.owner_id ?? 1,
+      risk_id: risk.id,
+      action_url: `/risks/${risk.code}`,
+    });
+    actions.push({ action: "notification_sent", notification_id: notification.id });
+  }
+
+  if (options.auto_escalate && evaluation.level === "critical") {
+    const open = db.escalations.some(
+      (e) => e.risk_id === risk.id && e.status !== "closed"
+    );
+    if (!open) {
+      const escalation = {
+        id: nextId(db.escalations),
+        risk_id: risk.id,
+        status: "pending",
+        action: "appetite_exceeded",
+        created_at: now(),
+      };
+      db.escalations.push(escalation);
+      actions.push({ action: "escalated", escalation_id: escalation.id });
+    }
+  }
+
+  return actions;
+};
+
+const complianceRate = (total: number, exceeded: number) =>
+  total ? Math.round(((total - exceeded) / total) * 1000) / 10 : 100;
+
+const checkAllRisks = (db: DemoDatabase) => {
+  const result = {
+    total_checked: 0,
+    within_appetite: 0,
+    approaching_limit: 0,
+    exceeded: 0,
+    critical: 0,
+    notifications_sent: 0,
+    escalations_created: 0,
+    details: [] as AppetiteCheckDetail[],
+  };
+
+  for (const risk of activeRisks(db)) {
+    const evaluation = evaluateAppetite(db, risk);
+    const actions = actOnEvaluation(db, risk, evaluation, {
+      notify: true,
+      auto_escalate: true,
+    });
+    result.total_checked += 1;
+    result[evaluation.level] += 1;
+    result.notifications_sent += actions.filter(
+      (a) => a.action === "notification_sent"
+    ).length;
+    result.escalations_created += actions.filter(
+      (a) => a.action === "escalated"
+    ).length;
+    result.details.push({
+      risk_id: risk.id,
+      risk_code: risk.code,
+      title: risk.title,
+      level: evaluation.level,
+      score: evaluation.score,
+    });
+  }
+
+  const checkedAt = now();
+  const breached = result.exceeded + result.critical;
+  const run = {
+    id: nextId(db.appetiteChecks),
+    checked_at: checkedAt,
+    total_checked: result.total_checked,
+    within_appetite: result.within_appetite,
+    approaching_limit: result.approaching_limit,
+    exceeded: result.exceeded,
+    critical: result.critical,
+    compliance_rate: complianceRate(result.total_checked, breached),
+    details: result.details,
+  };
+  db.appetiteChecks.push(run);
+  db.settings.appetite_last_checked = checkedAt;
+  return { ...result, run_id: run.id };
+};
+
+// ===========================================
+// Reports
+// ===========================================
+
+const REPORT_TYPES = [
+  { code: "risk", name: "Risk register", description: "All risks with scores and owners" },
+  { code: "assessment", name: "Assessments", description: "Inherent and residual assessments" },
+  { code: "treatment", name: "Treatment plans", description: "Plans, strategies and progress" },
+  { code: "audit", name: "Audit trail", description: "Recorded user activity" },
+  { code: "bcp", name: "Business continuity", description: "Business services and recovery objectives" },
+  { code: "kri", name: "Key risk indicators", description: "KRI values against thresholds" },
+  { code: "incident", name: "Incidents", description: "Incident register" },
+];
+
+const inDateRange = (date: string | undefined, body: Body) => {
+  if (!date) return true;
+  const day = date.split("T")[0];
+  if (body.start_date && day < String(body.start_date)) return false;
+  if (body.end_date && day > String(body.end_date)) return false;
+  return true;
+};
+
+const buildReportRows = (db: DemoDatabase, body: Body): unknown[] => {
+  switch (body.type) {
+    case "assessment":
+      return db.assessments.filter((a) => inDateRange(a.created_at, body));
+    case "treatment":
+      return db.treatments.filter((p) => inDateRange(p.created_at, body));
+    case "audit":
+      return db.auditLogs.filter((l) => inDateRange(l.created_at, body));
+    case "bcp":
+      return db.services;
+    case "kri":
+      return db.kris;
+    case "incident":
+      return db.incidents.filter((i) => inDateRange(i.occurred_at, body));
+    default:
+      return db.risks
+        .filter((r) => inDateRange(r.created_at, body))
+        .filter((r) => !body.status || r.status === body.status)
+        .filter((r) => {
+          if (!body.category) return true;
+          const category = db.categories.find((c) => c.id === r.category_id);
+          const wanted = String(body.category).toLowerCase();
+          return (
+            category?.code === wanted || category?.name.toLowerCase() === wanted
+          );
+        })
+        .map((r) => expandRisk(db, r))
+        .map(({ category: _category, owner: _owner, ...flat }) => flat);
+  }
+};
+
+const countBy = <T>(rows: T[], key: (row: T) => string | undefined) =>
+  rows.reduce<Record<string, number>>((acc, row) => {
+    const value = key(row) ?? "unknown";
+    acc[value] = (acc[value] || 0) + 1;
+    return acc;
+  }, {});
+
+const recordReportRun = (
+  ctx: RouteContext,
+  body: Body,
+  format: string,
+  content: string
+) => {
+  const user = ctx.db.users.find((u) => u.id === ctx.userId);
+  const id = nextId(ctx.db.reportRuns);
+  ctx.db.reportRuns.unshift({
+    id,
+    type: String(body.type || "risk"),
+    generatedAt: now(),
+    generatedBy: user?.full_name ?? "System",
+    format,
+    downloadUrl: `/reports/${id}/download`,
+    filters: pick(body, ["start_date", "end_date", "category", "status"]),
+    content,
+  });
+  return id;
+};
+
+/**
+ * Stand-in for the backend scheduler: produce every run that fell due since
+ * the last request, then move each schedule on to its next slot.
+ */
+const runDueSchedules = (db: DemoDatabase) => {
+  const current = new Date();
+  db.scheduledReports.forEach((schedule) => {
+    let due = new Date(schedule.nextRun);
+    // Cap the catch-up so a long-idle demo does not flood the history.
+    for (let i = 0; i < 12 && due <= current; i++) {
+      const body: Body = {
+        type: schedule.type,
+        category: schedule.filters?.category,
+        status: schedule.filters?.status,
+      };
+      const id = nextId(db.reportRuns);
+      db.reportRuns.unshift({
+        id,
+        type: schedule.type,
+        generatedAt: due.toISOString(),
+        generatedBy: "Scheduler",
+        format: "csv",
+        downloadUrl: `/reports/${id}/download`,
+        filters: pick(body, ["category", "status"]),
+        scheduleId: schedule.id,
+        recipients: [...schedule.recipients],
+        content: toCsv(buildReportRows(db, body)),
+      });
+      schedule.lastRun = due.toISOString();
+      due =
+        getNextScheduledRun(schedule.schedule, due) ??
+        new Date(due.getTime() + 7 * 24 * 60 * 60 * 1000);
+    }
+    if (due <= current) {
+      due = getNextScheduledRun(schedule.schedule, current) ?? current;
+    }
+    schedule.nextRun = due.toISOString();
+  });
+};
+
+// ===========================================
+// Routes
+// ===========================================
+
+const routes: Route[] = [];
+
+const route = (method: string, path: string, handler: Handler) => {
+  const keys: string[] = [];
+  const source = path.replace(/:(\w+)/g, (_, key: string) => {
+    keys.push(key);
+    return key === "id" || key.endsWith("Id") ? "(\\d+)" : "([^/]+)";
+  });
+  routes.push({
+    method,
+    pattern: new RegExp(`^${source}/?$`),
+    keys,
+    handler,
+  });
+};
+
+// ---------- Auth ----------
+
+route("post", "/auth/login", ({ db, body }) => {
+  const email = String(body.email || "").toLowerCase();
+  const user = db.users.find((u) => u.email.toLowerCase() === email);
+  if (!user || db.passwords[user.email] !== body.password) {
+    throw new DemoHttpError(401, "INVALID_CREDENTIALS", "Invalid email or password");
+  }
+  if (!user.is_active) {
+    throw new DemoHttpError(403, "ACCOUNT_DISABLED", "Account is disabled");
+  }
+  user.last_login = now();
+  return {
+    access_token: issueToken(user.id),
+    refresh_token: "",
+    user: withRole(db, user),
+  };
+});
+
+route("post", "/auth/register", ({ db, body }) => {
+  const email = String(body.email || "").toLowerCase();
+  if (db.users.some((u) => u.email.toLowerCase() === email)) {
+    throw new DemoHttpError(409, "EMAIL_EXISTS", "Email already registered");
+  }
+  const user: BackendUser = {
+    id: nextId(db.users),
+    email,
+    full_name: String(body.full_name || email),
+    phone: body.phone as string,
+    department: body.department as string,
+    job_title: body.job_title as string,
+    role_id: db.roles.find((r) => r.is_default)?.id,
+    is_active: true,
+    created_at: now(),
+    updated_at: now(),
+  };
+  db.users.push(user);
+  db.passwords[user.email] = String(body.password || "");
+  return {
+    access_token: issueToken(user.id),
+    refresh_token: "",
+    user: withRole(db, user),
+  };
+});
+
+route("post", "/auth/logout", () => ({}));
+
+route("get", "/auth/me", (ctx) => withRole(ctx.db, requireUser(ctx)));
+
+route("put", "/auth/me", (ctx) => {
+  const user = requireUser(ctx);
+  Object.assign(
+    user,
+    pick(ctx.body, ["full_name", "phone", "department", "job_title", "bio"]),
+    { updated_at: now() }
+  );
+  return withRole(ctx.db, user);
+});
+
+route("post", "/auth/refresh", (ctx) => ({
+  access_token: issueToken(requireUser(ctx).id),
+}));
+
+route("post", "/auth/forgot-password", ({ db, body }) => {
+  const user = db.users.find((u) => u.email === body.email);
+  return { token: user ? `reset-${user.id}` : undefined };
+});
+
+route("post", "/auth/reset-password", ({ db, body }) => {
+  const id = Number(String(body.token || "").replace("reset-", ""));
+  const user = db.users.find((u) => u.id === id);
+  if (!user) {
+    throw new DemoHttpError(400, "INVALID_TOKEN", "Invalid or expired token");
+  }
+  db.passwords[user.email] = String(body.password || "");
+  return {};
+});
+
+route("post", "/auth/change-password", (ctx) => {
+  const user = requireUser(ctx);
+  if (ctx.db.passwords[user.email] !== ctx.body.old_password) {
+    throw new DemoHttpError(400, "INVALID_PASSWORD", "Current password is incorrect");
+  }
+  ctx.db.passwords[user.email] = String(ctx.body.new_password || "");
+  return {};
+});
+
+route("get", "/auth/stats", ({ db }) => ({
+  has_admin: db.users.some((u) => u.role_id === 1),
+}));
+
+// ---------- Users & Roles ----------
+
+route("get", "/users/roles", ({ db }) => db.roles);
+
+route("get", "/users/permissions", ({ db }) => db.permissions);
+
+route("put", "/users/roles/:id/permissions", ({ db, params, body }) => {
+  const role = findOr404(db.roles, params.id, "Role");
+  const ids = (body.permission_ids as number[]) || [];
+  role.permissions = db.permissions.filter((p) => ids.includes(p.id));
+  return role;
+});
+
+route("get", "/users/audit-logs", ({ db, query }) => listAuditLogs(db, query));
+
+route("get", "/users", ({ db, query }) => {
+  const search = query.get("search")?.toLowerCase();
+  const roleId = queryNumber(query, "role_id");
+  const active = query.get("is_active");
+  const users = db.users
+    .filter(
+      (u) =>
+        !search ||
+        u.full_name.toLowerCase().includes(search) ||
+        u.email.toLowerCase().includes(search)
+    )
+    .filter((u) => !roleId || u.role_id === roleId)
+    .filter((u) => active === null || String(u.is_active) === active)
+    .map((u) => withRole(db, u));
+  return paginate(users, query);
+});
+
+route("get", "/users/:id", ({ db, params }) =>
+  withRole(db, findOr404(db.users, params.id, "User"))
+);
+
+route("post", "/users", (ctx) => {
+  const { db, body } = ctx;
+  const email = String(body.email || "").toLowerCase();
+  if (db.users.some((u) => u.email.toLowerCase() === email)) {
+    throw new DemoHttpError(409, "EMAIL_EXISTS", "Email already registered");
+  }
+  const user: BackendUser = {
+    id: nextId(db.users),
+    email,
+    full_name: String(body.full_name || email),
+    role_id: (body.role_id as number) ?? db.roles.find((r) => r.is_default)?.id,
+    is_active: body.is_active !== false,
+    created_at: now(),
+    updated_at: now(),
+    ...pick(body, ["phone", "department", "job_title"]),
+  };
+  db.users.push(user);
+  db.passwords[user.email] = String(body.password || "");
+  audit(ctx, "create", "User", user.id, `Created user ${user.email}`);
+  return withRole(db, user);
+});
+
+route("put", "/users/:id", (ctx) => {
+  const user = findOr404(ctx.db.users, ctx.params.id, "User");
+  const previousEmail = user.email;
+  Object.assign(
+    user,
+    pick(ctx.body, [
+      "email",
+      "full_name",
+      "phone",
+      "department",
+      "job_title",
+      "role_id",
+      "is_active",
+    ]),
+    { updated_at: now() }
+  );
+  if (user.email !== previousEmail) {
+    ctx.db.passwords[user.email] = ctx.db.passwords[previousEmail];
+    delete ctx.db.passwords[previousEmail];
+  }
+  audit(ctx, "update", "User", user.id, `Updated user ${user.email}`);
+  return withRole(ctx.db, user);
+});
+
+route("delete", "/users/:id", (ctx) => {
+  const user = findOr404(ctx.db.users, ctx.params.id, "User");
+  if (user.id === ctx.userId) {
+    throw new DemoHttpError(400, "INVALID_OPERATION", "You cannot delete your own account");
+  }
+  removeById(ctx.db.users, user.id, "User");
+  delete ctx.db.passwords[user.email];
+  audit(ctx, "delete", "User", user.id, `Deleted user ${user.email}`);
+  return {};
+});
+
+// ---------- Audit Logs & Settings ----------
+
+function listAuditLogs(db: DemoDatabase, query: URLSearchParams) {
+  const entityType = query.get("entity_type")?.toLowerCase();
+  const entityId = queryNumber(query, "entity_id");
+  const userId = queryNumber(query, "user_id");
+  const action = query.get("action")?.toLowerCase();
+  const start = query.get("start_date");
+  const end = query.get("end_date");
+  const logs = db.auditLogs
+    .filter((l) => !entityType || l.entity_type.toLowerCase() === entityType)
+    .filter((l) => !entityId || l.entity_id === entityId)
+    .filter((l) => !userId || l.user_id === userId)
+    .filter((l) => !action || l.action.toLowerCase() === action)
+    .filter((l) => !start || l.created_at.split("T")[0] >= start)
+    .filter((l) => !end || l.created_at.split("T")[0] <= end)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    .map((l) => ({ ...l, user: userById(db, l.user_id) }));
+  return paginate(logs, query);
+}
+
+route("get", "/audit-logs", ({ db, query }) => listAuditLogs(db, query));
+
+route("get", "/settings", ({ db }) => db.settings);
+
+const ratingsInUse = (db: DemoDatabase) => [
+  ...db.risks.flatMap((r) => [
+    r.inherent_likelihood,
+    r.inherent_impact,
+    r.residual_likelihood,
+    r.residual_impact,
+  ]),
+  ...db.assessments.flatMap((a) => [a.likelihood, a.impact]),
+  ...db.treatments.flatMap((p) => [
+    p.expected_residual_likelihood,
+    p.expected_residual_impact,
+  ]),
+];
+
+const validateRiskMatrix = (db: DemoDatabase, raw: unknown) => {
+  const config = normalizeRiskMatrix(raw);
+  const size = Number((raw as { size?: unknown })?.size);
+  if (size !== config.size) {
+    throw new DemoHttpError(
+      422,
+      "INVALID_RISK_MATRIX",
+      `Matrix size must be between ${MIN_MATRIX_SIZE} and ${MAX_MATRIX_SIZE}`
+    );
+  }
+  const smallest = smallestMatrixFor(ratingsInUse(db));
+  if (config.size < smallest) {
+    throw new DemoHttpError(
+      422,
+      "INVALID_RISK_MATRIX",
+      `Ratings up to ${smallest} are already in use; the matrix cannot be smaller than ${smallest} x ${smallest}`
+    );
+  }
+  return config;
+};
+
+const validateImpactScoring = (raw: unknown, size: number) => {
+  const rule = (raw as { rule?: unknown })?.rule;
+  if (!IMPACT_AGGREGATION_RULES.includes(rule as ImpactAggregationRule)) {
+    throw new DemoHttpError(
+      422,
+      "INVALID_IMPACT_SCORING",
+      `Rule must be one of ${IMPACT_AGGREGATION_RULES.join(", ")}`
+    );
+  }
+  const config = normalizeImpactScoring(raw, size);
+  if (
+    rule === "weighted_average" &&
+    config.dimensions.every((d) => d.weight === 0)
+  ) {
+    throw new DemoHttpError(
+      422,
+      "INVALID_IMPACT_SCORING",
+      "At least one dimension needs a weight above zero"
+    );
+  }
+  return config;
+};
+
+route("put", "/settings", ({ db, body }) => {
+  if (body.riskMatrix !== undefined) {
+    db.settings.risk_matrix = validateRiskMatrix(db, body.riskMatrix);
+  }
+  if (body.impactScoring !== undefined) {
+    db.settings.impact_scoring = validateImpactScoring(
+      body.impactScoring,
+      normalizeRiskMatrix(db.settings.risk_matrix).size
+    );
+  }
+  const nested = body.riskMatrixThresholds as
+    | { low?: number; medium?: number; high?: number }
+    | undefined;
+  if (nested) {
+    db.settings.risk_threshold_low = nested.low;
+    db.settings.risk_threshold_medium = nested.medium;
+    db.settings.risk_threshold_high = nested.high;
+  }
+  if (body.autoAssessmentReminder !== undefined) {
+    db.settings.autoAssessmentReminderDays = body.autoAssessmentReminder;
+  }
+  const {
+    riskMatrixThresholds: _nested,
+    autoAssessmentReminder: _days,
+    riskMatrix: _matrix,
+    impactScoring: _scoring,
+    ...flat
+  } = body;
+  Object.assign(db.settings, flat);
+  return db.settings;
+});
+
+// ---------- Risk Categories ----------
+
+route("get", "/risks/categories", ({ db }) =>
+  [...db.categories]
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .map((c) => ({
+      ...c,
+      risks_count: db.risks.filter((r) => r.category_id === c.id).length,
+    }))
+);
+
+route("post", "/risks/categories", ({ db, body }) => {
+  const category = {
+    id: nextId(db.categories),
+    name: String(body.name || ""),
+    code: String(body.code || body.name || "").toLowerCase(),
+    sort_order: (body.sort_order as number) ?? db.categories.length + 1,
+    ...pick(body, ["description", "color", "icon"]),
+  };
+  db.categories.push(category);
+  return category;
+});
+
+route("put", "/risks/categories/:id", ({ db, params, body }) => {
+  const category = findOr404(db.categories, params.id, "Category");
+  Object.assign(
+    category,
+    pick(body, ["name", "code", "description", "color", "icon", "sort_order"])
+  );
+  return category;
+});
+
+route("delete", "/risks/categories/:id", ({ db, params }) => {
+  if (db.risks.some((r) => r.category_id === Number(params.id))) {
+    throw new DemoHttpError(400, "CATEGORY_IN_USE", "Category has linked risks");
+  }
+  removeById(db.categories, params.id, "Category");
+  return {};
+});
+
+// ---------- Risks ----------
+
+const RISK_FIELDS = [
+  "title",
+  "description",
+  "category_id",
+  "owner_id",
+  "source",
+  "potential_impact",
+  "affected_areas",
+  "notes",
+  "status",
+];
+
+// Status is only settable on create; afterwards it moves through the guarded
+// PATCH /risks/:id/status endpoint.
+const RISK_UPDATE_FIELDS = RISK_FIELDS.filter((field) => field !== "status");
+
+route("get", "/risks/statistics", ({ db }) => {
+  const byStatus = countBy(db.risks, (r) => r.status);
+  const byLevel = countBy(db.risks, (r) => r.risk_level ?? "low");
+  return {
+    total: db.risks.length,
+    by_status: byStatus,
+    by_level: byLevel,
+    by_category: db.categories.map((c) => ({
+      category_id: c.id,
+      category_name: c.name,
+      count: db.risks.filter((r) => r.category_id === c.id).length,
+    })),
+  };
+});
+
+route("get", "/risks/overdue-review", ({ db, query }) => {
+  const days = Number(db.settings.autoAssessmentReminderDays) || 30;
+  const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
+  const risks = activeRisks(db)
+    .filter((r) => new Date(r.updated_at).getTime() < cutoff)
+    .map((r) => expandRisk(db, r));
+  return paginate(risks, query);
+});
+
+const RISK_SORT_KEYS: Record<
+  string,
+  (a: BackendRisk, b: BackendRisk) => number
+> = {
+  title: (a, b) => a.title.localeCompare(b.title),
+  score: (a, b) => riskScore(a) - riskScore(b),
+  category: (a, b) =>
+    (a.category?.name ?? "").localeCompare(b.category?.name ?? ""),
+  created_at: (a, b) => a.created_at.localeCompare(b.created_at),
+  updated_at: (a, b) => a.updated_at.localeCompare(b.updated_at),
+};
+
+/** Compare by `-score,title` style keys; unknown keys are ignored. */
+const compareRisks = (sort: string) => {
+  const keys = sort
+    .split(",")
+    .map((key) => key.trim())
+    .filter((key) => RISK_SORT_KEYS[key.replace(/^-/, "")]);
+  if (keys.length === 0) keys.push("-created_at");
+  return (a: BackendRisk, b: BackendRisk) => {
+    for (const key of keys) {
+      const descending = key.startsWith("-");
+      const result = RISK_SORT_KEYS[key.replace(/^-/, "")](a, b);
+      if (result !== 0) return descending ? -result : result;
+    }
+    return 0;
+  };
+};
+
+route("get", "/risks", ({ db, query }) => {
+  const status = query.get("status");
+  const categoryId = queryNumber(query, "category_id");
+  const ownerId = queryNumber(query, "owner_id");
+  const level = query.get("risk_level");
+  const minScore = queryNumber(query, "min_score");
+  const maxScore = queryNumber(query, "max_score");
+  const startDate = query.get("start_date");
+  const endDate = query.get("end_date");
+  const search = query.get("search")?.toLowerCase();
+  const risks = db.risks
+    .filter((r) => !status || r.status === status)
+    .filter((r) => !categoryId || r.category_id === categoryId)
+    .filter((r) => !ownerId || r.owner_id === ownerId)
+    .filter((r) => !level || r.risk_level === level)
+    .filter((r) => minScore === undefined || riskScore(r) >= minScore)
+    .filter((r) => maxScore === undefined || riskScore(r) <= maxScore)
+    .filter((r) => !startDate || r.created_at.slice(0, 10) >= startDate)
+    .filter((r) => !endDate || r.created_at.slice(0, 10) <= endDate)
+    .filter(
+      (r) =>
+        !search ||
+        r.title.toLowerCase().includes(search) ||
+        r.code.toLowerCase().includes(search) ||
+        r.description.toLowerCase().includes(search)
+    )
+    .map((r) => expandRisk(db, r))
+    .sort(compareRisks(query.get("sort") ?? ""));
+  return paginate(risks, query);
+});
+
+route("get", "/risks/:id", ({ db, params }) =>
+  expandRisk(db, findOr404(db.risks, params.id, "Risk"))
+);
+
+route("post", "/risks", (ctx) => {
+  const { db, body } = ctx;
+  if (!body.title) {
+    throw new DemoHttpError(400, "VALIDATION_ERROR", "Title is required");
+  }
+  const id = nextId(db.risks);
+  const risk: BackendRisk = {
+    id,
+    code: padCode("RISK", id),
+    title: "",
+    description: "",
+    status: "identified",
+    created_by: ctx.userId ?? undefined,
+    created_at: now(),
+    updated_at: now(),
+    ...pick(body, RISK_FIELDS),
+  };
+  db.risks.push(risk);
+  audit(ctx, "create", "Risk", id, `Created risk ${risk.code}`, undefined, {
+    status: risk.status,
+  });
+  return expandRisk(db, risk);
+});
+
+route("put", "/risks/:id", (ctx) => {
+  const risk = findOr404(ctx.db.risks, ctx.params.id, "Risk");
+  const before = { ...risk };
+  Object.assign(risk, pick(ctx.body, RISK_UPDATE_FIELDS), {
+    updated_at: now(),
+  });
+  const { oldValues, newValues } = diffFields(
+    before,
+    { ...risk },
+    RISK_UPDATE_FIELDS
+  );
+  audit(
+    ctx,
+    "update",
+    "Risk",
+    risk.id,
+    `Updated risk ${risk.code}`,
+    oldValues,
+    newValues
+  );
+  return expandRisk(ctx.db, risk);
+});
+
+const TRANSITION_BLOCKER_MESSAGES: Record<RiskTransitionBlocker, string> = {
+  noAssessment: "no assessment recorded yet",
+  noApprovedResidual: "no approved residual assessment yet",
+  noTreatmentPlan: "no treatment plan yet",
+  treatmentIncomplete: "not all treatment actions are done",
+  openTreatmentActions: "treatment actions are still open",
+};
+
+route("patch", "/risks/:id/status", (ctx) => {
+  const { db } = ctx;
+  const risk = findOr404(db.risks, ctx.params.id, "Risk");
+  const previous = risk.status;
+  const next = ctx.body.status as BackendRiskStatus;
+  // Same readiness checks the lifecycle menu applies, so bulk and direct
+  // API calls cannot skip them.
+  const plan = db.treatments.find((p) => p.risk_id === risk.id);
+  const option = getRiskTransitions(previous, {
+    assessments: db.assessments
+      .filter((a) => a.risk_id === risk.id)
+      .map(adaptBackendAssessment),
+    treatment: plan ? adaptBackendTreatment(expandPlan(db, plan)) : null,
+  }).find((transition) => transition.status === next);
+  if (!option) {
+    throw new DemoHttpError(
+      422,
+      "INVALID_TRANSITION",
+      `Risk ${risk.code} cannot move from ${previous} to ${next}`
+    );
+  }
+  if (option.blocker) {
+    throw new DemoHttpError(
+      422,
+      "TRANSITION_BLOCKED",
+      `Risk ${risk.code} cannot move to ${next}: ${TRANSITION_BLOCKER_MESSAGES[option.blocker]}`
+    );
+  }
+  risk.status = next;
+  risk.updated_at = now();
+  audit(
+    ctx,
+    "status_change",
+    "Risk",
+    risk.id,
+    `Changed status of ${risk.code} from ${previous} to ${risk.status}`,
+    { status: previous },
+    { status: risk.status }
+  );
+  return expandRisk(ctx.db, risk);
+});
+
+route("delete", "/risks/:id", (ctx) => {
+  const risk = findOr404(ctx.db.risks, ctx.params.id, "Risk");
+  const { db } = ctx;
+  removeById(db.risks, risk.id, "Risk");
+  db.assessments = db.assessments.filter((a) => a.risk_id !== risk.id);
+  const planIds = db.treatments
+    .filter((p) => p.risk_id === risk.id)
+    .map((p) => p.id);
+  db.treatments = db.treatments.filter((p) => p.risk_id !== risk.id);
+  db.actions = db.actions.filter((a) => !planIds.includes(a.plan_id));
+  db.riskControls = db.riskControls.filter((l) => l.risk_id !== risk.id);
+  db.riskRelationships = db.riskRelationships.filter(
+    (r) =>
+      r.risk_id !== risk.id &&
+      !(r.relation_type === "causes" && r.target_id === risk.id)
+  );
+  db.bowTies = db.bowTies.filter((b) => b.risk_id !== risk.id);
+  db.quantifications = db.quantifications.filter((q) => q.risk_id !== risk.id);
+  audit(ctx, "delete", "Risk", risk.id, `Deleted risk ${risk.code}`);
+  return {};
+});
+
+route("get", "/risks/:id/assessments", ({ db, params }) =>
+  db.assessments
+    .filter((a) => a.risk_id === Number(params.id))
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    .map((a) => expandAssessment(db, a))
+);
+
+route("get", "/risks/:id/kris", ({ db, params }) =>
+  db.kris
+    .filter((k) => k.risk_id === Number(params.id))
+    .map((k) => expandKRI(db, k))
+);
+
+route("get", "/risks/:id/incidents", ({ db, params }) =>
+  db.incidents
+    .filter((i) => i.risk_id === Number(params.id))
+    .map((i) => expandIncident(db, i))
+);
+
+// ---------- Assessments ----------
+
+/** A likelihood or impact rating: a whole number on the configured matrix. */
+const readMatrixRating = (db: DemoDatabase, raw: unknown, label: string) => {
+  const { size } = normalizeRiskMatrix(db.settings.risk_matrix);
+  const value = typeof raw === "string" && raw.trim() ? Number(raw) : raw;
+  if (
+    typeof value !== "number" ||
+    !Number.isInteger(value) ||
+    value < 1 ||
+    value > size
+  ) {
+    throw new DemoHttpError(
+      422,
+      "VALIDATION_ERROR",
+      `${label} must be a whole number from 1 to ${size}`
+    );
+  }
+  return value;
+};
+
+route("get", "/assessments/matrix", ({ db }) => {
+  const colors: Record<BackendRiskLevel, string> = {
+    low: "#22c55e",
+    medium: "#eab308",
+    high: "#f97316",
+    critical: "#ef4444",
+  };
+  const config = normalizeRiskMatrix(db.settings.risk_matrix);
+  const scale = (levels: RiskMatrixScaleLevel[]) =>
+    Object.fromEntries(
+      levels.map((level, i) => [
+        i + 1,
+        { name: level.label, description: level.criteria || level.label },
+      ])
+    );
+  const values = Array.from({ length: config.size }, (_, i) => i + 1);
+  const matrix = values.map((likelihood) =>
+    values.map((impact) => {
+      const score = likelihood * impact;
+      const level = toLevel(score, { likelihood, impact });
+      return { likelihood, impact, score, level, color: colors[level] };
+    })
+  );
+  const level = (key: BackendRiskLevel, name: string, action: string) => ({
+    name,
+    color: colors[key],
+    action,
+  });
+  return {
+    matrix,
+    likelihood_labels: scale(config.likelihood),
+    impact_labels: scale(config.impact),
+    level_labels: {
+      low: level("low", "Low", "Accept and monitor"),
+      medium: level("medium", "Medium", "Manage with routine controls"),
+      high: level("high", "High", "Treat with management attention"),
+      critical: level("critical", "Critical", "Immediate action required"),
+    },
+  };
+});
+
+route("get", "/assessments", ({ db, query }) => {
+  const status = query.get("status");
+  return db.assessments
+    .filter((a) => !status || a.status === status)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    .map((a) => expandAssessment(db, a));
+});
+
+route("get", "/assessments/:id", ({ db, params }) =>
+  expandAssessment(db, findOr404(db.assessments, params.id, "Assessment"))
+);
+
+route("post", "/assessments", (ctx) => {
+  const { db, body } = ctx;
+  const risk = findOr404(db.risks, body.risk_id as number, "Risk");
+  const likelihood = readMatrixRating(db, body.likelihood, "Likelihood");
+  const impact = readMatrixRating(db, body.impact, "Impact");
+  const score = likelihood * impact;
+  const assessment: BackendAssessment = {
+    id: nextId(db.assessments),
+    risk_id: risk.id,
+    assessment_type:
+      body.assessment_type === "residual" ? "residual" : "inherent",
+    likelihood,
+    impact,
+    score,
+    risk_level: toLevel(score, { likelihood, impact }),
+    assessed_by: ctx.userId ?? undefined,
+    status: "pending",
+    created_at: now(),
+    updated_at: now(),
+    ...pick(body, ["rationale", "notes"]),
+  };
+  const controlIds = linkedControlIds(db, risk.id, body.control_ids);
+  if (assessment.assessment_type === "residual" && controlIds?.length) {
+    assessment.control_ids = controlIds;
+  }
+  db.assessments.push(assessment);
+  // A risk's first inherent rating is shown provisionally until reviewed,
+  // so new risks do not sit at the lowest score while approval is pending.
+  if (assessment.assessment_type === "inherent" && risk.inherent_score == null) {
+    applyAssessmentToRisk(db, assessment);
+  }
+  audit(
+    ctx,
+    "create",
+    "Assessment",
+    assessment.id,
+    `Created ${assessment.assessment_type} assessment for ${risk.code}`,
+    undefined,
+    { risk_id: risk.id, score }
+  );
+  return expandAssessment(db, assessment);
+});
+
+route("put", "/assessments/:id", (ctx) => {
+  const assessment = findOr404(ctx.db.assessments, ctx.params.id, "Assessment");
+  const likelihood =
+    ctx.body.likelihood === undefined
+      ? assessment.likelihood
+      : readMatrixRating(ctx.db, ctx.body.likelihood, "Likelihood");
+  const impact =
+    ctx.body.impact === undefined
+      ? assessment.impact
+      : readMatrixRating(ctx.db, ctx.body.impact, "Impact");
+  const rerated =
+    likelihood !== assessment.likelihood || impact !== assessment.impact;
+  Object.assign(assessment, pick(ctx.body, ["notes", "rationale"]), {
+    likelihood,
+    impact,
+  });
+  const controlIds = linkedControlIds(
+    ctx.db,
+    assessment.risk_id,
+    ctx.body.control_ids
+  );
+  if (controlIds && assessment.assessment_type === "residual") {
+    assessment.control_ids = controlIds;
+  }
+  assessment.score = assessment.likelihood * assessment.impact;
+  assessment.risk_level = toLevel(assessment.score, assessment);
+  assessment.updated_at = now();
+  // A new rating, or a revised rejection, goes back to the review queue;
+  // an earlier approval does not carry over to figures nobody reviewed.
+  if (rerated || assessment.status === "rejected") {
+    assessment.status = "pending";
+    assessment.approved_by = undefined;
+    assessment.approved_at = undefined;
+  }
+  audit(ctx, "update", "Assessment", assessment.id, "Updated assessment");
+  return expandAssessment(ctx.db, assessment);
+});
+
+route("delete", "/assessments/:id", (ctx) => {
+  removeById(ctx.db.assessments, ctx.params.id, "Assessment");
+  audit(ctx, "delete", "Assessment", Number(ctx.params.id), "Deleted assessment");
+  return {};
+});
+
+route("patch", "/assessments/:id/approve", (ctx) => {
+  const assessment = findOr404(ctx.db.assessments, ctx.params.id, "Assessment");
+  assertPendingReview(assessment, ctx.userId);
+  assessment.status = "approved";
+  assessment.approved_by = ctx.userId ?? undefined;
+  assessment.approved_at = now();
+  assessment.rejection_reason = undefined;
+  assessment.updated_at = now();
+  applyAssessmentToRisk(ctx.db, assessment);
+  audit(ctx, "approve", "Assessment", assessment.id, "Approved assessment");
+  return expandAssessment(ctx.db, assessment);
+});
+
+route("patch", "/assessments/:id/reject", (ctx) => {
+  const assessment = findOr404(ctx.db.assessments, ctx.params.id, "Assessment");
+  assertPendingReview(assessment, ctx.userId);
+  if (!String(ctx.body.rejection_reason ?? "").trim()) {
+    throw new DemoHttpError(400, "VALIDATION_ERROR", "Rejection reason is required");
+  }
+  assessment.status = "rejected";
+  assessment.rejection_reason = String(ctx.body.rejection_reason).trim();
+  assessment.updated_at = now();
+  const risk = ctx.db.risks.find((r) => r.id === assessment.risk_id);
+  notify(ctx.db, {
+    title: "Assessment returned for revision",
+    message: `Your ${assessment.assessment_type} assessment of ${risk?.code ?? `risk #${assessment.risk_id}`} was rejected: ${assessment.rejection_reason}`,
+    type: "assessment_required",
+    priority: "medium",
+    user_id: assessment.assessed_by ?? 1,
+    risk_id: assessment.risk_id,
+    action_url: risk ? `/risks/${risk.code}` : undefined,
+  });
+  audit(ctx, "reject", "Assessment", assessment.id, "Rejected assessment");
+  return expandAssessment(ctx.db, assessment);
+});
+
+// ---------- Treatments ----------
+
+const PLAN_FIELDS = [
+  "title",
+  "description",
+  "strategy",
+  "start_date",
+  "target_date",
+  "completion_date",
+  "estimated_budget",
+  "actual_cost",
+  "assignee_id",
+  "expected_residual_likelihood",
+  "expected_residual_impact",
+  "notes",
+  "status",
+];
+
+const ACTION_FIELDS = [
+  "title",
+  "description",
+  "priority",
+  "due_date",
+  "assignee_id",
+  "notes",
+  "is_completed",
+  "evidence_url",
+];
+
+route("get", "/treatments", ({ db }) =>
+  db.treatments.map((p) => expandPlan(db, p))
+);
+
+route("get", "/treatments/risk/:id/plans", ({ db, params }) =>
+  db.treatments
+    .filter((p) => p.risk_id === Number(params.id))
+    .map((p) => expandPlan(db, p))
+);
+
+route("get", "/treatments/actions/:id", ({ db, params }) =>
+  expandAction(db, findOr404(db.actions, params.id, "Action"))
+);
+
+route("put", "/treatments/actions/:id", (ctx) => {
+  const action = findOr404(ctx.db.actions, ctx.params.id, "Action");
+  Object.assign(action, pick(ctx.body, ACTION_FIELDS), { updated_at: now() });
+  refreshPlanProgress(ctx.db, action.plan_id);
+  return expandAction(ctx.db, action);
+});
+
+route("delete", "/treatments/actions/:id", (ctx) => {
+  const action = findOr404(ctx.db.actions, ctx.params.id, "Action");
+  removeById(ctx.db.actions, action.id, "Action");
+  refreshPlanProgress(ctx.db, action.plan_id);
+  return {};
+});
+
+route("post", "/treatments/actions/:id/complete", (ctx) => {
+  const action = findOr404(ctx.db.actions, ctx.params.id, "Action");
+  action.is_completed = true;
+  action.completion_date = today();
+  action.completion_notes = ctx.body.notes as string;
+  action.evidence_url = (ctx.body.evidence_url as string) ?? action.evidence_url;
+  action.updated_at = now();
+  refreshPlanProgress(ctx.db, action.plan_id);
+  const plan = ctx.db.treatments.find((p) => p.id === action.plan_id);
+  audit(
+    ctx,
+    "complete",
+    "Treatment",
+    action.plan_id,
+    `Completed action "${action.title}"`,
+    undefined,
+    { risk_id: plan?.risk_id, action_id: action.id }
+  );
+  return expandAction(ctx.db, action);
+});
+
+route("get", "/treatments/:id", ({ db, params }) =>
+  expandPlan(db, findOr404(db.treatments, params.id, "Treatment plan"))
+);
+
+route("post", "/treatments", (ctx) => {
+  const { db, body } = ctx;
+  const risk = findOr404(db.risks, body.risk_id as number, "Risk");
+  const plan: BackendTreatmentPlan = {
+    id: nextId(db.treatments),
+    risk_id: risk.id,
+    title: "",
+    strategy: "mitigate",
+    status: "draft",
+    progress: 0,
+    created_by: ctx.userId ?? undefined,
+    created_at: now(),
+    updated_at: now(),
+    ...pick(body, PLAN_FIELDS),
+  };
+  db.treatments.push(plan);
+  audit(
+    ctx,
+    "create",
+    "Treatment",
+    plan.id,
+    `Created treatment plan for ${risk.code}`,
+    undefined,
+    { risk_id: risk.id, strategy: plan.strategy }
+  );
+  return expandPlan(db, plan);
+});
+
+const PLAN_BLOCKER_MESSAGES: Record<TreatmentTransitionBlocker, string> = {
+  missingDetails: "a title and target date are required",
+  noActions: "the plan has no actions",
+  openActions: "actions are still open",
+};
+
+/**
+ * Apply the approval-flow rules the treatment screen uses: the move must be
+ * listed, the user must hold its permission and the plan must be ready.
+ */
+const assertPlanTransition = (
+  ctx: RouteContext,
+  plan: BackendTreatmentPlan,
+  next: BackendTreatmentPlan["status"]
+) => {
+  const option = getTreatmentTransitions(
+    adaptBackendTreatment(expandPlan(ctx.db, plan)),
+    (permission) => userCan(ctx, permission)
+  ).find((transition) => transition.status === next);
+  if (!option) {
+    throw new DemoHttpError(
+      422,
+      "INVALID_TRANSITION",
+      `Treatment plan cannot move from ${plan.status} to ${next}`
+    );
+  }
+  if (!userCan(ctx, option.permission)) {
+    throw new DemoHttpError(
+      403,
+      "FORBIDDEN",
+      `You are not allowed to move a treatment plan from ${plan.status} to ${next}`
+    );
+  }
+  if (option.blocker) {
+    throw new DemoHttpError(
+      422,
+      "TRANSITION_BLOCKED",
+      `Treatment plan cannot move to ${next}: ${PLAN_BLOCKER_MESSAGES[option.blocker]}`
+    );
+  }
+};
+
+route("put", "/treatments/:id", (ctx) => {
+  const plan = findOr404(ctx.db.treatments, ctx.params.id, "Treatment plan");
+  const next = ctx.body.status as BackendTreatmentPlan["status"] | undefined;
+  if (next && next !== plan.status) {
+    // Judge readiness on the plan as it will be saved.
+    assertPlanTransition(
+      ctx,
+      { ...plan, ...pick(ctx.body, PLAN_FIELDS), status: plan.status },
+      next
+    );
+    if (next === "approved") {
+      throw new DemoHttpError(
+        422,
+        "INVALID_TRANSITION",
+        "Use the approve endpoint to approve a treatment plan"
+      );
+    }
+    if (next === "in_progress" && !plan.start_date) plan.start_date = today();
+    if (next === "completed") plan.completion_date = today();
+  }
+  Object.assign(plan, pick(ctx.body, PLAN_FIELDS), { updated_at: now() });
+  audit(ctx, "update", "Treatment", plan.id, "Updated treatment plan", undefined, {
+    risk_id: plan.risk_id,
+  });
+  return expandPlan(ctx.db, plan);
+});
+
+route("delete", "/treatments/:id", (ctx) => {
+  const plan = findOr404(ctx.db.treatments, ctx.params.id, "Treatment plan");
+  removeById(ctx.db.treatments, plan.id, "Treatment plan");
+  ctx.db.actions = ctx.db.actions.filter((a) => a.plan_id !== plan.id);
+  audit(ctx, "delete", "Treatment", plan.id, "Deleted treatment plan", undefined, {
+    risk_id: plan.risk_id,
+  });
+  return {};
+});
+
+route("get", "/treatments/:id/actions", ({ db, params }) =>
+  db.actions
+    .filter((a) => a.plan_id === Number(params.id))
+    .map((a) => expandAction(db, a))
+);
+
+route("post", "/treatments/:id/actions", (ctx) => {
+  const plan = findOr404(ctx.db.treatments, ctx.params.id, "Treatment plan");
+  const action: BackendTreatmentAction = {
+    id: nextId(ctx.db.actions),
+    plan_id: plan.id,
+    title: "",
+    priority: "medium",
+    is_completed: false,
+    created_at: now(),
+    updated_at: now(),
+    ...pick(ctx.body, ACTION_FIELDS),
+  };
+  ctx.db.actions.push(action);
+  refreshPlanProgress(ctx.db, plan.id);
+  return expandAction(ctx.db, action);
+});
+
+route("patch", "/treatments/:id/approve", (ctx) => {
+  const plan = findOr404(ctx.db.treatments, ctx.params.id, "Treatment plan");
+  assertPlanTransition(ctx, plan, "approved");
+  plan.status = "approved";
+  plan.approved_by = ctx.userId ?? undefined;
+  plan.updated_at = now();
+  audit(ctx, "approve", "Treatment", plan.id, "Approved treatment plan", undefined, {
+    risk_id: plan.risk_id,
+  });
+  return expandPlan(ctx.db, plan);
+});
+
+route("get", "/treatments/:id/progress", ({ db, params }) => ({
+  progress: findOr404(db.treatments, params.id, "Treatment plan").progress,
+}));
+
+// ---------- KRIs ----------
+
+const KRI_FIELDS = [
+  "name",
+  "code",
+  "description",
+  "risk_id",
+  "target_value",
+  "min_value",
+  "max_value",
+  "threshold_yellow",
+  "threshold_red",
+  "is_higher_better",
+  "measurement_frequency",
+  "next_measurement_date",
+  "unit",
+  "format_type",
+  "owner_id",
+  "notes",
+  "is_active",
+];
+
+route("get", "/kris", ({ db, query }) => {
+  const riskId = queryNumber(query, "risk_id");
+  const status = query.get("status");
+  const isActive = query.get("is_active");
+  const kris = db.kris
+    .filter((k) => !riskId || k.risk_id === riskId)
+    .filter((k) => !status || k.status === status)
+    .filter((k) => !isActive || String(k.is_active !== false) === isActive)
+    .map((k) => expandKRI(db, k));
+  return paginate(kris, query);
+});
+
+route("get", "/kris/:id", ({ db, params }) =>
+  expandKRI(db, findOr404(db.kris, params.id, "KRI"))
+);
+
+route("post", "/kris", (ctx) => {
+  const id = nextId(ctx.db.kris);
+  const kri: BackendKRI = {
+    id,
+    code: padCode("KRI", id),
+    name: "",
+    is_higher_better: false,
+    status: "green",
+    measurement_frequency: "monthly",
+    format_type: "number",
+    created_at: now(),
+    updated_at: now(),
+    ...pick(ctx.body, KRI_FIELDS),
+  };
+  ctx.db.kris.push(kri);
+  audit(ctx, "create", "KRI", id, `Created KRI ${kri.code}`);
+  return expandKRI(ctx.db, kri);
+});
+
+route("put", "/kris/:id", (ctx) => {
+  const kri = findOr404(ctx.db.kris, ctx.params.id, "KRI");
+  const wasActive = kri.is_active !== false;
+  Object.assign(kri, pick(ctx.body, KRI_FIELDS), { updated_at: now() });
+  kri.status = evaluateKRIStatus(kri);
+  const retired = wasActive && kri.is_active === false;
+  audit(
+    ctx,
+    "update",
+    "KRI",
+    kri.id,
+    retired ? `Retired KRI ${kri.code}` : `Updated KRI ${kri.code}`
+  );
+  return expandKRI(ctx.db, kri);
+});
+
+route("delete", "/kris/:id", (ctx) => {
+  removeById(ctx.db.kris, ctx.params.id, "KRI");
+  ctx.db.kriValues = ctx.db.kriValues.filter(
+    (v) => v.kri_id !== Number(ctx.params.id)
+  );
+  audit(ctx, "delete", "KRI", Number(ctx.params.id), "Deleted KRI");
+  return {};
+});
+
+route("get", "/kris/:id/values", ({ db, params }) => {
+  const kri = findOr404(db.kris, params.id, "KRI");
+  return db.kriValues
+    .filter((v) => v.kri_id === kri.id)
+    .map((v) => ({ ...v, recorder: userById(db, v.recorded_by) }));
+});
+
+route("post", "/kris/:id/values", (ctx) => {
+  const kri = findOr404(ctx.db.kris, ctx.params.id, "KRI");
+  if (kri.is_active === false) {
+    throw new DemoHttpError(
+      400,
+      "KRI_RETIRED",
+      "Retired KRIs no longer accept measurements"
+    );
+  }
+  // Number("") and Number(null) are 0, which would record a false reading
+  const raw = ctx.body.value;
+  const value =
+    raw === undefined || raw === null || String(raw).trim() === ""
+      ? NaN
+      : Number(raw);
+  if (!Number.isFinite(value)) {
+    throw new DemoHttpError(400, "VALIDATION_ERROR", "Value must be a number");
+  }
+  kri.current_value = value;
+  kri.last_updated = now();
+  kri.updated_at = now();
+  kri.status = evaluateKRIStatus(kri);
+  kri.next_measurement_date = nextMeasurementDate(kri.measurement_frequency);
+  ctx.db.kriValues.push({
+    id: nextId(ctx.db.kriValues),
+    kri_id: kri.id,
+    value,
+    status: kri.status,
+    notes: typeof ctx.body.notes === "string" ? ctx.body.notes : undefined,
+    recorded_at: now(),
+    recorded_by: ctx.userId ?? undefined,
+  });
+  if (kri.status === "red") {
+    notify(ctx.db, {
+      title: "KRI threshold breached",
+      message: `${kri.code ?? kri.name} recorded ${kri.current_value}, beyond the red threshold.`,
+      type: "system_alert",
+      priority: "high",
+      user_id: kri.owner_id ?? 1,
+      risk_id: kri.risk_id,
+    });
+  }
+  audit(ctx, "update", "KRI", kri.id, `Recorded value ${kri.current_value}`);
+  return expandKRI(ctx.db, kri);
+});
+
+// ---------- Controls ----------
+
+const CONTROL_FIELDS = [
+  "name",
+  "description",
+  "control_type",
+  "automation",
+  "frequency",
+  "owner_id",
+  "is_active",
+  "test_frequency",
+  "tester_id",
+  "next_test_due",
+];
+
+const TEST_FREQUENCY_MONTHS: Record<BackendControlTestFrequency, number> = {
+  monthly: 1,
+  quarterly: 3,
+  semi_annually: 6,
+  annually: 12,
+};
+
+const TEST_RESULTS: BackendControlTestResult[] = [
+  "effective",
+  "partially_effective",
+  "ineffective",
+];
+
+/** Date (YYYY-MM-DD) one test period after `from`. */
+const nextTestDate = (from: string, frequency: BackendControlTestFrequency) => {
+  const date = new Date(`${from}T00:00:00Z`);
+  date.setUTCMonth(date.getUTCMonth() + TEST_FREQUENCY_MONTHS[frequency]);
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * Control fields from a request body. A scheduled control left without a
+ * due date gets its next test one period from today; taking a control off
+ * the schedule clears the due date.
+ */
+const pickControl = (body: Body, current?: BackendControl) => {
+  const fields = pick(body, CONTROL_FIELDS);
+  if (
+    fields.test_frequency != null &&
+    !(String(fields.test_frequency) in TEST_FREQUENCY_MONTHS)
+  ) {
+    throw new DemoHttpError(
+      422,
+      "VALIDATION_ERROR",
+      `Test frequency must be one of ${Object.keys(TEST_FREQUENCY_MONTHS).join(", ")}`
+    );
+  }
+  const frequency =
+    "test_frequency" in fields
+      ? (fields.test_frequency as BackendControlTestFrequency | null)
+      : current?.test_frequency;
+  if (!frequency) {
+    fields.next_test_due = null;
+  } else if (
+    !fields.next_test_due &&
+    ("next_test_due" in fields || !current?.next_test_due)
+  ) {
+    fields.next_test_due = nextTestDate(today(), frequency);
+  }
+  return fields;
+};
+
+const EFFECTIVENESS: BackendControlEffectiveness[] = [
+  "effective",
+  "partially_effective",
+  "ineffective",
+  "not_assessed",
+];
+
+const pickEffectiveness = (body: Body) => {
+  const ratings = pick(body, [
+    "design_effectiveness",
+    "operating_effectiveness",
+  ]);
+  Object.values(ratings).forEach((rating) => {
+    if (!EFFECTIVENESS.includes(rating as BackendControlEffectiveness)) {
+      throw new DemoHttpError(
+        422,
+        "VALIDATION_ERROR",
+        `Effectiveness must be one of ${EFFECTIVENESS.join(", ")}`
+      );
+    }
+  });
+  return ratings;
+};
+
+route("get", "/controls", ({ db, query }) => {
+  const type = query.get("control_type");
+  const isActive = query.get("is_active");
+  const controls = db.controls
+    .filter((c) => !type || c.control_type === type)
+    .filter((c) => !isActive || String(c.is_active !== false) === isActive)
+    .map((c) => expandControl(db, c));
+  return paginate(controls, query);
+});
+
+route("get", "/controls/:id", ({ db, params }) =>
+  expandControl(db, findOr404(db.controls, params.id, "Control"))
+);
+
+route("post", "/controls", (ctx) => {
+  if (!String(ctx.body.name ?? "").trim()) {
+    throw new DemoHttpError(422, "VALIDATION_ERROR", "Name is required");
+  }
+  const id = nextId(ctx.db.controls);
+  const control: BackendControl = {
+    id,
+    code: padCode("CTL", id),
+    name: "",
+    control_type: "preventive",
+    automation: "manual",
+    frequency: "monthly",
+    is_active: true,
+    created_at: now(),
+    updated_at: now(),
+    ...pickControl(ctx.body),
+  };
+  ctx.db.controls.push(control);
+  audit(ctx, "create", "Control", id, `Created control ${control.code}`);
+  return expandControl(ctx.db, control);
+});
+
+route("put", "/controls/:id", (ctx) => {
+  const control = findOr404(ctx.db.controls, ctx.params.id, "Control");
+  const wasActive = control.is_active !== false;
+  Object.assign(control, pickControl(ctx.body, control), {
+    updated_at: now(),
+  });
+  const retired = wasActive && control.is_active === false;
+  audit(
+    ctx,
+    "update",
+    "Control",
+    control.id,
+    retired
+      ? `Retired control ${control.code}`
+      : `Updated control ${control.code}`
+  );
+  return expandControl(ctx.db, control);
+});
+
+route("get", "/controls/:id/risks", ({ db, params }) => {
+  const control = findOr404(db.controls, params.id, "Control");
+  return db.riskControls
+    .filter((l) => l.control_id === control.id)
+    .map((l) => expandRiskControl(db, l));
+});
+
+route("get", "/risks/:id/controls", ({ db, params }) => {
+  const risk = findOr404(db.risks, params.id, "Risk");
+  return db.riskControls
+    .filter((l) => l.risk_id === risk.id)
+    .map((l) => expandRiskControl(db, l));
+});
+
+route("post", "/risks/:id/controls", (ctx) => {
+  const risk = findOr404(ctx.db.risks, ctx.params.id, "Risk");
+  const control = findOr404(
+    ctx.db.controls,
+    ctx.body.control_id as number,
+    "Control"
+  );
+  if (control.is_active === false) {
+    throw new DemoHttpError(
+      400,
+      "CONTROL_RETIRED",
+      "Retired controls cannot be linked to risks"
+    );
+  }
+  if (
+    ctx.db.riskControls.some(
+      (l) => l.risk_id === risk.id && l.control_id === control.id
+    )
+  ) {
+    throw new DemoHttpError(
+      409,
+      "ALREADY_LINKED",
+      `${control.code} is already linked to ${risk.code}`
+    );
+  }
+  const link: BackendRiskControl = {
+    id: nextId(ctx.db.riskControls),
+    risk_id: risk.id,
+    control_id: control.id,
+    design_effectiveness: "not_assessed",
+    operating_effectiveness: "not_assessed",
+    created_at: now(),
+    updated_at: now(),
+    ...pickEffectiveness(ctx.body),
+    ...pick(ctx.body, ["notes"]),
+  };
+  ctx.db.riskControls.push(link);
+  audit(
+    ctx,
+    "update",
+    "Risk",
+    risk.id,
+    `Linked control ${control.code} to ${risk.code}`
+  );
+  return expandRiskControl(ctx.db, link);
+});
+
+route("get", "/control-tests", ({ db, query }) => {
+  const controlId = queryNumber(query, "control_id");
+  const result = query.get("result");
+  const tests = db.controlTests
+    .filter((t) => !controlId || t.control_id === controlId)
+    .filter((t) => !result || t.result === result)
+    .sort(
+      (a, b) =>
+        b.tested_at.localeCompare(a.tested_at) ||
+        b.created_at.localeCompare(a.created_at)
+    )
+    .map((t) => expandControlTest(db, t));
+  return paginate(tests, query);
+});
+
+route("post", "/controls/:id/tests", (ctx) => {
+  const control = findOr404(ctx.db.controls, ctx.params.id, "Control");
+  const body = ctx.body;
+  const result = body.result as BackendControlTestResult;
+  const testedAt = String(body.tested_at ?? "").slice(0, 10);
+  const sampleSize = Number(body.sample_size);
+  const exceptions = Number(body.exceptions ?? 0);
+  if (!TEST_RESULTS.includes(result)) {
+    throw new DemoHttpError(
+      422,
+      "VALIDATION_ERROR",
+      `Result must be one of ${TEST_RESULTS.join(", ")}`
+    );
+  }
+  if (!testedAt || testedAt > today()) {
+    throw new DemoHttpError(
+      422,
+      "VALIDATION_ERROR",
+      "Test date is required and cannot be in the future"
+    );
+  }
+  if (
+    !Number.isInteger(sampleSize) ||
+    sampleSize < 1 ||
+    !Number.isInteger(exceptions) ||
+    exceptions < 0 ||
+    exceptions > sampleSize
+  ) {
+    throw new DemoHttpError(
+      422,
+      "VALIDATION_ERROR",
+      "Sample size must be at least 1 and exceptions between 0 and the sample size"
+    );
+  }
+
+  const previous = latestControlTest(ctx.db, control.id);
+  const test: BackendControlTest = {
+    id: nextId(ctx.db.controlTests),
+    control_id: control.id,
+    tester_id: (body.tester_id as number) ?? ctx.userId ?? 1,
+    tested_at: testedAt,
+    result,
+    sample_size: sampleSize,
+    exceptions,
+    evidence: body.evidence as string,
+    notes: body.notes as string,
+    created_at: now(),
+    updated_at: now(),
+  };
+  ctx.db.controlTests.push(test);
+  audit(
+    ctx,
+    "create",
+    "Control",
+    control.id,
+    `Recorded test of ${control.code}: ${result} (${exceptions} exceptions in ${sampleSize})`
+  );
+
+  // Back-dated tests go into the history without moving the schedule or
+  // overriding a newer result
+  if (!previous || testedAt >= previous.tested_at) {
+    if (control.test_frequency) {
+      control.next_test_due = nextTestDate(testedAt, control.test_frequency);
+      control.updated_at = now();
+    }
+    ctx.db.riskControls
+      .filter(
+        (l) =>
+          l.control_id === control.id && l.operating_effectiveness !== result
+      )
+      .forEach((link) => {
+        link.operating_effectiveness = result;
+        link.updated_at = now();
+        audit(
+          ctx,
+          "update",
+          "Risk",
+          link.risk_id,
+          `Operating effectiveness of ${control.code} set to ${result} by control test`
+        );
+      });
+  }
+  return expandControlTest(ctx.db, test);
+});
+
+const findRiskControl = (db: DemoDatabase, params: Record<string, string>) => {
+  const link = db.riskControls.find(
+    (l) =>
+      l.risk_id === Number(params.id) &&
+      l.control_id === Number(params.controlId)
+  );
+  if (!link) {
+    throw new DemoHttpError(
+      404,
+      "NOT_FOUND",
+      "Control is not linked to this risk"
+    );
+  }
+  return link;
+};
+
+route("put", "/risks/:id/controls/:controlId", (ctx) => {
+  const link = findRiskControl(ctx.db, ctx.params);
+  Object.assign(link, pickEffectiveness(ctx.body), pick(ctx.body, ["notes"]), {
+    updated_at: now(),
+  });
+  audit(
+    ctx,
+    "update",
+    "Risk",
+    link.risk_id,
+    `Rated control effectiveness: design ${link.design_effectiveness}, operating ${link.operating_effectiveness}`
+  );
+  return expandRiskControl(ctx.db, link);
+});
+
+route("delete", "/risks/:id/controls/:controlId", (ctx) => {
+  const link = findRiskControl(ctx.db, ctx.params);
+  ctx.db.riskControls = ctx.db.riskControls.filter((l) => l !== link);
+  // Residual assessments no longer rely on a control that was removed
+  ctx.db.assessments
+    .filter((a) => a.risk_id === link.risk_id && a.control_ids)
+    .forEach((a) => {
+      a.control_ids = a.control_ids.filter((id) => id !== link.control_id);
+    });
+  const control = ctx.db.controls.find((c) => c.id === link.control_id);
+  audit(
+    ctx,
+    "update",
+    "Risk",
+    link.risk_id,
+    `Unlinked control ${control?.code ?? link.control_id}`
+  );
+  return {};
+});
+
+// ---------- Relationships ----------
+
+const RELATION_TARGETS: Record<
+  BackendRiskRelationship["relation_type"],
+  BackendRelationshipNode["type"]
+> = {
+  causes: "risk",
+  affects: "service",
+  governed_by: "policy",
+};
+
+const RELATION_TARGET_ENTITIES: Record<BackendRelationshipNode["type"], string> =
+  {
+    risk: "Risk",
+    service: "Service",
+    policy: "Document",
+    kri: "KRI",
+  };
+
+const relationshipNode = (
+  db: DemoDatabase,
+  type: BackendRelationshipNode["type"],
+  id: number
+): BackendRelationshipNode | undefined => {
+  switch (type) {
+    case "risk": {
+      const risk = db.risks.find((r) => r.id === id);
+      return (
+        risk && {
+          type,
+          id,
+          code: risk.code,
+          name: risk.title,
+          status: risk.risk_level,
+        }
+      );
+    }
+    case "service": {
+      const service = db.services.find((s) => s.id === id);
+      return (
+        service && {
+          type,
+          id,
+          code: service.code,
+          name: service.name,
+          status: service.criticality,
+        }
+      );
+    }
+    case "policy": {
+      const policy = db.policies.find((p) => p.id === id);
+      return (
+        policy && {
+          type,
+          id,
+          code: policy.document_code ?? undefined,
+          name: policy.title,
+          status: policy.status,
+        }
+      );
+    }
+    case "kri": {
+      const kri = db.kris.find((k) => k.id === id);
+      return (
+        kri && {
+          type,
+          id,
+          code: kri.code,
+          name: kri.name,
+          status: kri.status,
+        }
+      );
+    }
+  }
+};
+
+const toRelationEdge = (
+  db: DemoDatabase,
+  relationship: BackendRiskRelationship,
+  direction: BackendRiskRelationEdge["direction"]
+): BackendRiskRelationEdge | undefined => {
+  const node =
+    direction === "incoming"
+      ? relationshipNode(db, "risk", relationship.risk_id)
+      : relationshipNode(
+          db,
+          RELATION_TARGETS[relationship.relation_type],
+          relationship.target_id
+        );
+  return (
+    node && {
+      id: relationship.id,
+      relation_type: relationship.relation_type,
+      direction,
+      node,
+      notes: relationship.notes,
+    }
+  );
+};
+
+route("get", "/risks/:id/relationships", ({ db, params }) => {
+  const risk = findOr404(db.risks, params.id, "Risk");
+  const outgoing = db.riskRelationships
+    .filter((r) => r.risk_id === risk.id)
+    .map((r) => toRelationEdge(db, r, "outgoing"));
+  const incoming = db.riskRelationships
+    .filter((r) => r.relation_type === "causes" && r.target_id === risk.id)
+    .map((r) => toRelationEdge(db, r, "incoming"));
+  // KRIs point at their risk themselves, so monitoring is derived
+  const monitoring: BackendRiskRelationEdge[] = db.kris
+    .filter((k) => k.risk_id === risk.id)
+    .map((k) => ({
+      relation_type: "monitors",
+      direction: "incoming",
+      node: relationshipNode(db, "kri", k.id),
+    }));
+  return [...outgoing, ...incoming, ...monitoring].filter(Boolean);
+});
+
+route("post", "/risks/:id/relationships", (ctx) => {
+  const risk = findOr404(ctx.db.risks, ctx.params.id, "Risk");
+  const type = ctx.body.relation_type as BackendRiskRelationship["relation_type"];
+  if (!(String(type) in RELATION_TARGETS)) {
+    throw new DemoHttpError(
+      422,
+      "VALIDATION_ERROR",
+      "Relationship type must be causes, affects or governed_by"
+    );
+  }
+  const targetId = Number(ctx.body.target_id);
+  const target = relationshipNode(ctx.db, RELATION_TARGETS[type], targetId);
+  if (!target) notFound(RELATION_TARGET_ENTITIES[RELATION_TARGETS[type]]);
+  if (type === "causes" && targetId === risk.id) {
+    throw new DemoHttpError(
+      422,
+      "VALIDATION_ERROR",
+      "A risk cannot cause itself"
+    );
+  }
+  if (
+    ctx.db.riskRelationships.some(
+      (r) =>
+        r.risk_id === risk.id &&
+        r.relation_type === type &&
+        r.target_id === targetId
+    )
+  ) {
+    throw new DemoHttpError(
+      409,
+      "ALREADY_LINKED",
+      `${risk.code} is already linked to ${target.code ?? target.name}`
+    );
+  }
+  const relationship: BackendRiskRelationship = {
+    id: nextId(ctx.db.riskRelationships),
+    risk_id: risk.id,
+    relation_type: type,
+    target_id: targetId,
+    created_at: now(),
+    updated_at: now(),
+    ...pick(ctx.body, ["notes"]),
+  };
+  ctx.db.riskRelationships.push(relationship);
+  audit(
+    ctx,
+    "update",
+    "Risk",
+    risk.id,
+    `Added relationship: ${risk.code} ${type} ${target.code ?? target.name}`
+  );
+  return toRelationEdge(ctx.db, relationship, "outgoing");
+});
+
+route("delete", "/risks/:id/relationships/:relationshipId", (ctx) => {
+  const riskId = Number(ctx.params.id);
+  const relationship = ctx.db.riskRelationships.find(
+    (r) =>
+      r.id === Number(ctx.params.relationshipId) &&
+      (r.risk_id === riskId ||
+        (r.relation_type === "causes" && r.target_id === riskId))
+  );
+  if (!relationship) {
+    throw new DemoHttpError(
+      404,
+      "NOT_FOUND",
+      "Relationship does not belong to this risk"
+    );
+  }
+  ctx.db.riskRelationships = ctx.db.riskRelationships.filter(
+    (r) => r !== relationship
+  );
+  const target = relationshipNode(
+    ctx.db,
+    RELATION_TARGETS[relationship.relation_type],
+    relationship.target_id
+  );
+  audit(
+    ctx,
+    "update",
+    "Risk",
+    relationship.risk_id,
+    `Removed relationship: ${relationship.relation_type} ${target?.code ?? target?.name ?? relationship.target_id}`
+  );
+  return {};
+});
+
+// ---------- Bow-tie ----------
+
+/** Barriers whose action has since been deleted show as unlinked. */
+const expandBowTie = (db: DemoDatabase, bowTie: BackendBowTie): BackendBowTie => {
+  const expandPath = (path: BackendBowTiePath): BackendBowTiePath => ({
+    ...path,
+    barriers: path.barriers.map((barrier) => {
+      const action = db.actions.find((a) => a.id === barrier.action_id);
+      return {
+        ...barrier,
+        action_id: action ? action.id : null,
+        action: action && expandAction(db, action),
+      };
+    }),
+  });
+  return {
+    ...bowTie,
+    causes: bowTie.causes.map(expandPath),
+    consequences: bowTie.consequences.map(expandPath),
+    updated_by: userById(db, bowTie.updated_by_id),
+  };
+};
+
+route("get", "/risks/:id/bowtie", ({ db, params }) => {
+  const risk = findOr404(db.risks, params.id, "Risk");
+  const bowTie = db.bowTies.find((b) => b.risk_id === risk.id) ?? {
+    risk_id: risk.id,
+    top_event: risk.title,
+    causes: [],
+    consequences: [],
+  };
+  return expandBowTie(db, bowTie);
+});
+
+route("put", "/risks/:id/bowtie", (ctx) => {
+  const risk = findOr404(ctx.db.risks, ctx.params.id, "Risk");
+  const existing = ctx.db.bowTies.find((b) => b.risk_id === risk.id);
+  const topEvent = String(ctx.body.top_event ?? "").trim();
+  if (!topEvent) {
+    throw new DemoHttpError(422, "VALIDATION_ERROR", "Top event is required");
+  }
+  const riskActionIds = new Set(
+    ctx.db.actions
+      .filter((a) =>
+        ctx.db.treatments.some(
+          (p) => p.id === a.plan_id && p.risk_id === risk.id
+        )
+      )
+      .map((a) => a.id)
+  );
+  // Paths and barriers share one id sequence within the bow-tie
+  let lastId = existing
+    ? Math.max(
+        0,
+        ...[...existing.causes, ...existing.consequences].flatMap((path) => [
+          path.id,
+          ...path.barriers.map((barrier) => barrier.id),
+        ])
+      )
+    : 0;
+  const readPaths = (value: unknown, side: string): BackendBowTiePath[] => {
+    if (!Array.isArray(value)) {
+      throw new DemoHttpError(422, "VALIDATION_ERROR", `${side} must be a list`);
+    }
+    return value.map((raw: BackendBowTiePath) => {
+      const description = String(raw?.description ?? "").trim();
+      if (!description) {
+        throw new DemoHttpError(
+          422,
+          "VALIDATION_ERROR",
+          `Every ${side.toLowerCase().replace(/s$/, "")} needs a description`
+        );
+      }
+      const barriers = Array.isArray(raw.barriers) ? raw.barriers : [];
+      return {
+        id: Number(raw.id) || ++lastId,
+        description,
+        barriers: barriers.map((barrier) => {
+          const text = String(barrier?.description ?? "").trim();
+          if (!text) {
+            throw new DemoHttpError(
+              422,
+              "VALIDATION_ERROR",
+              "Every barrier needs a description"
+            );
+          }
+          const actionId = barrier.action_id ? Number(barrier.action_id) : null;
+          if (actionId && !riskActionIds.has(actionId)) {
+            throw new DemoHttpError(
+              422,
+              "VALIDATION_ERROR",
+              "Barriers can only be linked to treatment actions of this risk"
+            );
+          }
+          return { id: Number(barrier.id) || ++lastId, description: text, action_id: actionId };
+        }),
+      };
+    });
+  };
+  const bowTie: BackendBowTie = {
+    risk_id: risk.id,
+    top_event: topEvent,
+    causes: readPaths(ctx.body.causes, "Causes"),
+    consequences: readPaths(ctx.body.consequences, "Consequences"),
+    updated_at: now(),
+    updated_by_id: ctx.userId ?? undefined,
+  };
+  ctx.db.bowTies = [
+    ...ctx.db.bowTies.filter((b) => b.risk_id !== risk.id),
+    bowTie,
+  ];
+  const barrierCount = [...bowTie.causes, ...bowTie.consequences].reduce(
+    (sum, path) => sum + path.barriers.length,
+    0
+  );
+  audit(
+    ctx,
+    "update",
+    "Risk",
+    risk.id,
+    `Updated bow-tie: ${bowTie.causes.length} causes, ${bowTie.consequences.length} consequences, ${barrierCount} barriers`
+  );
+  return expandBowTie(ctx.db, bowTie);
+});
+
+// ---------- Quantification ----------
+
+const readLossRange = (raw: unknown, label: string): BackendLossRange => {
+  const range = (raw ?? {}) as Partial<BackendLossRange>;
+  const invalid = (message: string): never => {
+    throw new DemoHttpError(422, "VALIDATION_ERROR", `${label}: ${message}`);
+  };
+  if (range.distribution !== "pert" && range.distribution !== "lognormal") {
+    invalid("distribution must be pert or lognormal");
+  }
+  const min = Number(range.min);
+  const max = Number(range.max);
+  if (!Number.isFinite(min) || !Number.isFinite(max) || min < 0) {
+    invalid("min and max must be non-negative numbers");
+  }
+  if (max <= min) invalid("max must be greater than min");
+  if (range.distribution === "lognormal") {
+    // A lognormal range is a 90% interval and cannot start at zero
+    if (min <= 0) invalid("lognormal ranges need a min above zero");
+    return { distribution: "lognormal", min, max };
+  }
+  const mostLikely = Number(range.most_likely);
+  if (!Number.isFinite(mostLikely) || mostLikely < min || mostLikely > max) {
+    invalid("most likely must lie between min and max");
+  }
+  return { distribution: "pert", min, most_likely: mostLikely, max };
+};
+
+const expandQuantification = (
+  db: DemoDatabase,
+  quantification: BackendRiskQuantification
+): BackendRiskQuantification => {
+  const risk = db.risks.find((r) => r.id === quantification.risk_id);
+  return {
+    ...quantification,
+    risk: risk ? { ...risk } : undefined,
+    updated_by: userById(db, quantification.updated_by_id),
+  };
+};
+
+route("get", "/quantifications", ({ db }) =>
+  db.quantifications
+    .filter((q) => db.risks.some((r) => r.id === q.risk_id))
+    .map((q) => expandQuantification(db, q))
+);
+
+route("get", "/risks/:id/quantification", ({ db, params }) => {
+  const risk = findOr404(db.risks, params.id, "Risk");
+  const quantification = db.quantifications.find((q) => q.risk_id === risk.id);
+  return quantification ? expandQuantification(db, quantification) : null;
+});
+
+route("put", "/risks/:id/quantification", (ctx) => {
+  const risk = findOr404(ctx.db.risks, ctx.params.id, "Risk");
+  const currency = String(ctx.body.currency ?? "USD").trim().toUpperCase();
+  if (!/^[A-Z]{3}$/.test(currency)) {
+    throw new DemoHttpError(
+      422,
+      "VALIDATION_ERROR",
+      "Currency must be a three-letter ISO code"
+    );
+  }
+  const quantification: BackendRiskQuantification = {
+    risk_id: risk.id,
+    frequency: readLossRange(ctx.body.frequency, "Loss event frequency"),
+    magnitude: readLossRange(ctx.body.magnitude, "Loss magnitude"),
+    currency,
+    ...pick(ctx.body, ["notes"]),
+    updated_at: now(),
+    updated_by_id: ctx.userId ?? undefined,
+  };
+  const existed = ctx.db.quantifications.some((q) => q.risk_id === risk.id);
+  ctx.db.quantifications = [
+    ...ctx.db.quantifications.filter((q) => q.risk_id !== risk.id),
+    quantification,
+  ];
+  audit(
+    ctx,
+    "update",
+    "Risk",
+    risk.id,
+    `${existed ? "Updated" : "Added"} quantitative analysis inputs`
+  );
+  return expandQuantification(ctx.db, quantification);
+});
+
+route("delete", "/risks/:id/quantification", (ctx) => {
+  const risk = findOr404(ctx.db.risks, ctx.params.id, "Risk");
+  if (!ctx.db.quantifications.some((q) => q.risk_id === risk.id)) {
+    notFound("Quantification");
+  }
+  ctx.db.quantifications = ctx.db.quantifications.filter(
+    (q) => q.risk_id !== risk.id
+  );
+  audit(ctx, "update", "Risk", risk.id, "Removed quantitative analysis");
+  return {};
+});
+
+// ---------- Incidents ----------
+
+const INCIDENT_FIELDS = [
+  "title",
+  "description",
+  "category",
+  "severity",
+  "risk_id",
+  "occurred_at",
+  "detected_at",
+  "impact_description",
+  "financial_impact",
+  "affected_users",
+  "affected_systems",
+  "root_cause",
+  "immediate_actions",
+  "corrective_actions",
+  "lessons_learned",
+  "assigned_to",
+  "notes",
+];
+
+route("get", "/incidents", ({ db, query }) => {
+  const riskId = queryNumber(query, "risk_id");
+  const status = query.get("status");
+  const incidents = db.incidents
+    .filter((i) => !riskId || i.risk_id === riskId)
+    .filter((i) => !status || i.status === status)
+    .sort((a, b) => b.occurred_at.localeCompare(a.occurred_at))
+    .map((i) => expandIncident(db, i));
+  return paginate(incidents, query);
+});
+
+route("get", "/incidents/:id", ({ db, params }) =>
+  expandIncident(db, findOr404(db.incidents, params.id, "Incident"))
+);
+
+route("post", "/incidents", (ctx) => {
+  const id = nextId(ctx.db.incidents);
+  const incident: BackendIncident = {
+    id,
+    code: padCode("INC", id),
+    title: "",
+    category: "other",
+    severity: "medium",
+    status: "open",
+    occurred_at: now(),
+    reported_at: now(),
+    reported_by: ctx.userId ?? undefined,
+    created_at: now(),
+    updated_at: now(),
+    ...pick(ctx.body, INCIDENT_FIELDS),
+  };
+  ctx.db.incidents.push(incident);
+  audit(ctx, "create", "Incident", id, `Reported incident ${incident.code}`);
+  return expandIncident(ctx.db, incident);
+});
+
+route("put", "/incidents/:id", (ctx) => {
+  const incident = findOr404(ctx.db.incidents, ctx.params.id, "Incident");
+  Object.assign(incident, pick(ctx.body, INCIDENT_FIELDS), {
+    updated_at: now(),
+  });
+  audit(ctx, "update", "Incident", incident.id, `Updated incident ${incident.code}`);
+  return expandIncident(ctx.db, incident);
+});
+
+const INCIDENT_STATUS_TIMESTAMPS: Partial<
+  Record<BackendIncident["status"], keyof BackendIncident>
+> = {
+  investigating: "investigating_at",
+  contained: "contained_at",
+  resolved: "resolved_at",
+  closed: "closed_at",
+};
+
+route("patch", "/incidents/:id/status", (ctx) => {
+  const incident = findOr404(ctx.db.incidents, ctx.params.id, "Incident");
+  const next = ctx.body.status as BackendIncident["status"];
+  const previous = incident.status;
+  const expected =
+    BACKEND_INCIDENT_STATUSES[BACKEND_INCIDENT_STATUSES.indexOf(previous) + 1];
+  if (next !== expected) {
+    throw new DemoHttpError(
+      422,
+      "INVALID_TRANSITION",
+      expected
+        ? `Incident ${incident.code} can only move from ${previous} to ${expected}`
+        : `Incident ${incident.code} is already closed`
+    );
+  }
+  if (next === "resolved" && !incident.root_cause?.trim()) {
+    throw new DemoHttpError(
+      422,
+      "ROOT_CAUSE_REQUIRED",
+      "Record the root cause before resolving the incident"
+    );
+  }
+  if (next === "closed" && !incident.lessons_learned?.trim()) {
+    throw new DemoHttpError(
+      422,
+      "LESSONS_LEARNED_REQUIRED",
+      "Record the lessons learned before closing the incident"
+    );
+  }
+  Object.assign(incident, {
+    status: next,
+    [INCIDENT_STATUS_TIMESTAMPS[next]]: now(),
+    updated_at: now(),
+  });
+  audit(
+    ctx,
+    "status_change",
+    "Incident",
+    incident.id,
+    `Changed status of ${incident.code} from ${previous} to ${next}`,
+    { status: previous },
+    { status: next }
+  );
+  return expandIncident(ctx.db, incident);
+});
+
+route("delete", "/incidents/:id", (ctx) => {
+  removeById(ctx.db.incidents, ctx.params.id, "Incident");
+  audit(ctx, "delete", "Incident", Number(ctx.params.id), "Deleted incident");
+  return {};
+});
+
+// ---------- BCP / DR ----------
+
+const SERVICE_FIELDS = [
+  "name",
+  "code",
+  "description",
+  "criticality",
+  "rto",
+  "rto_hours",
+  "rpo",
+  "rpo_hours",
+  "dependencies",
+  "resources",
+  "owner_id",
+  "department",
+  "impact_analysis",
+  "recovery_procedure",
+  "notes",
+];
+
+const SITE_FIELDS = [
+  "name",
+  "code",
+  "description",
+  "site_type",
+  "location",
+  "contact_info",
+  "capacity",
+  "available_resources",
+  "rto",
+  "rto_hours",
+  "rpo",
+  "rpo_hours",
+  "is_primary",
+  "is_active",
+  "last_tested_at",
+  "notes",
+];
+
+const TEST_FIELDS = [
+  "name",
+  "code",
+  "description",
+  "test_type",
+  "status",
+  "scheduled_date",
+  "actual_date",
+  "duration_minutes",
+  "service_ids",
+  "dr_site_id",
+  "bcp_plan_id",
+  "objectives",
+  "results",
+  "findings",
+  "recommendations",
+  "success_rate",
+  "evidence_url",
+  "attachments",
+  "notes",
+  "participants",
+  "coordinator_id",
+];
+
+route("get", "/bcp/services", ({ db }) => db.services);
+
+route("get", "/bcp/services/:id", ({ db, params }) =>
+  findOr404(db.services, params.id, "Service")
+);
+
+route("post", "/bcp/services", ({ db, body }) => {
+  const id = nextId(db.services);
+  const service = {
+    id,
+    code: padCode("SVC", id),
+    name: "",
+    criticality: "medium" as const,
+    created_at: now(),
+    updated_at: now(),
+    ...pick(body, SERVICE_FIELDS),
+  };
+  db.services.push(service);
+  return service;
+});
+
+route("put", "/bcp/services/:id", ({ db, params, body }) => {
+  const service = findOr404(db.services, params.id, "Service");
+  Object.assign(service, pick(body, SERVICE_FIELDS), { updated_at: now() });
+  return service;
+});
+
+route("delete", "/bcp/services/:id", ({ db, params }) => {
+  removeById(db.services, params.id, "Service");
+  db.riskRelationships = db.riskRelationships.filter(
+    (r) => !(r.relation_type === "affects" && r.target_id === Number(params.id))
+  );
+  return {};
+});
+
+/**
+ * Risks that affect a service directly, then every risk that leads to one
+ * of them through "causes" links, nearest first.
+ */
+route("get", "/bcp/services/:serviceId/risks", ({ db, params }) => {
+  const service = findOr404(db.services, params.serviceId, "Service");
+  const results: BackendServiceRisk[] = [];
+  const seen = new Set<number>();
+  let frontier: Array<{ riskId: number; via: string[] }> = db.riskRelationships
+    .filter((r) => r.relation_type === "affects" && r.target_id === service.id)
+    .map((r) => ({ riskId: r.risk_id, via: [] }));
+  while (frontier.length > 0) {
+    const next: typeof frontier = [];
+    frontier.forEach(({ riskId, via }) => {
+      const risk = db.risks.find((r) => r.id === riskId);
+      if (!risk || seen.has(riskId)) return;
+      seen.add(riskId);
+      results.push({
+        risk: expandRisk(db, risk),
+        direct: via.length === 0,
+        via,
+      });
+      db.riskRelationships
+        .filter((r) => r.relation_type === "causes" && r.target_id === riskId)
+        .forEach((r) => next.push({ riskId: r.risk_id, via: [risk.code, ...via] }));
+    });
+    frontier = next;
+  }
+  return results;
+});
+
+route("get", "/bcp/plan", ({ db }) => ({
+  ...db.bcpPlan,
+  owner_name: userById(db, db.bcpPlan.owner_id)?.full_name,
+}));
+
+route("patch", "/bcp/plan", ({ db, body }) => {
+  Object.assign(db.bcpPlan, body, { updated_at: now() });
+  return db.bcpPlan;
+});
+
+route("get", "/bcp/dr-plan", ({ db }) => ({
+  ...db.drPlan,
+  sites: db.drSites,
+}));
+
+route("patch", "/bcp/dr-plan", ({ db, body }) => {
+  Object.assign(db.drPlan, pick(body, ["rto", "rpo", "title", "version", "status"]), {
+    last_updated: now(),
+    updated_at: now(),
+  });
+  return { ...db.drPlan, sites: db.drSites };
+});
+
+route("get", "/bcp/dr-sites", ({ db }) => db.drSites);
+
+route("get", "/bcp/dr-sites/:id", ({ db, params }) =>
+  findOr404(db.drSites, params.id, "DR site")
+);
+
+route("post", "/bcp/dr-sites", ({ db, body }) => {
+  const site = {
+    id: nextId(db.drSites),
+    name: "",
+    site_type: "warm_site" as const,
+    is_primary: false,
+    is_active: true,
+    created_at: now(),
+    updated_at: now(),
+    ...pick(body, SITE_FIELDS),
+  };
+  db.drSites.push(site);
+  return site;
+});
+
+route("put", "/bcp/dr-sites/:id", ({ db, params, body }) => {
+  const site = findOr404(db.drSites, params.id, "DR site");
+  Object.assign(site, pick(body, SITE_FIELDS), { updated_at: now() });
+  return site;
+});
+
+route("delete", "/bcp/dr-sites/:id", ({ db, params }) => {
+  removeById(db.drSites, params.id, "DR site");
+  return {};
+});
+
+route("get", "/bcp/tests", ({ db }) =>
+  db.tests.map((t) => ({
+    ...t,
+    dr_site: db.drSites.find((s) => s.id === t.dr_site_id),
+  }))
+);
+
+route("get", "/bcp/tests/:id", ({ db, params }) =>
+  findOr404(db.tests, params.id, "Test")
+);
+
+route("post", "/bcp/tests", ({ db, body }) => {
+  const id = nextId(db.tests);
+  const test = {
+    id,
+    code: padCode("TEST", id),
+    name: "",
+    test_type: "tabletop" as const,
+    status: "planned" as const,
+    created_at: now(),
+    updated_at: now(),
+    ...pick(body, TEST_FIELDS),
+  };
+  db.tests.push(test);
+  return test;
+});
+
+route("put", "/bcp/tests/:id", ({ db, params, body }) => {
+  const test = findOr404(db.tests, params.id, "Test");
+  Object.assign(test, pick(body, TEST_FIELDS), { updated_at: now() });
+  return test;
+});
+
+route("delete", "/bcp/tests/:id", ({ db, params }) => {
+  removeById(db.tests, params.id, "Test");
+  return {};
+});
+
+route("get", "/bcp/statistics", ({ db }) => ({
+  total_services: db.services.length,
+  critical_services: db.services.filter((s) => s.criticality === "critical")
+    .length,
+  total_tests: db.tests.length,
+  passed_tests: db.tests.filter((t) => t.status === "passed").length,
+  failed_tests: db.tests.filter((t) => t.status === "failed").length,
+  upcoming_tests: db.tests.filter(
+    (t) => t.status === "planned" && (t.scheduled_date ?? "") >= today()
+  ).length,
+}));
+
+// ---------- Committee ----------
+
+route("get", "/committee/meetings", ({ db }) =>
+  [...db.meetings].sort((a, b) => b.date.localeCompare(a.date))
+);
+
+route("post", "/committee/meetings", (ctx) => {
+  const meeting = {
+    id: nextId(ctx.db.meetings),
+    date: today(),
+    topic: "",
+    created_by_id: ctx.userId ?? undefined,
+    ...pick(ctx.body, ["date", "topic", "notes", "decision"]),
+  };
+  ctx.db.meetings.push(meeting);
+  return meeting;
+});
+
+route("put", "/committee/meetings/:id", ({ db, params, body }) => {
+  const meeting = findOr404(db.meetings, params.id, "Meeting");
+  Object.assign(meeting, pick(body, ["date", "topic", "notes", "decision"]));
+  return meeting;
+});
+
+route("delete", "/committee/meetings/:id", ({ db, params }) => {
+  removeById(db.meetings, params.id, "Meeting");
+  return {};
+});
+
+route("get", "/committee/escalations", ({ db }) => db.escalations);
+
+route("post", "/committee/escalations", (ctx) => {
+  findOr404(ctx.db.risks, ctx.body.risk_id as number, "Risk");
+  const escalation = {
+    id: nextId(ctx.db.escalations),
+    risk_id: Number(ctx.body.risk_id),
+    status: "pending",
+    created_at: now(),
+    created_by_id: ctx.userId ?? undefined,
+    ...pick(ctx.body, ["meeting_id", "status", "action", "decision"]),
+  };
+  ctx.db.escalations.push(escalation);
+  notify(ctx.db, {
+    title: "Risk escalated to committee",
+    message: `Risk #${escalation.risk_id} was escalated for committee review.`,
+    type: "risk_escalation",
+    priority: "high",
+    risk_id: escalation.risk_id,
+  });
+  return escalation;
+});
+
+route("delete", "/committee/escalations/:id", ({ db, params }) => {
+  removeById(db.escalations, params.id, "Escalation");
+  return {};
+});
+
+// ---------- Notifications ----------
+
+const SCHEDULER_JOBS = [
+  { id: "appetite_check", name: "Risk appetite check", trigger: "cron[hour='6']" },
+  { id: "review_reminders", name: "Risk review reminders", trigger: "cron[hour='7']" },
+  { id: "treatment_due", name: "Treatment due reminders", trigger: "cron[hour='8']" },
+  { id: "control_tests_due", name: "Overdue control tests", trigger: "cron[hour='8']" },
+];
+
+const userNotifications = (ctx: RouteContext) =>
+  ctx.db.notifications.filter((n) => n.user_id === (ctx.userId ?? 1));
+
+route("get", "/notifications/unread-count", (ctx) => ({
+  count: userNotifications(ctx).filter((n) => !n.is_read).length,
+}));
+
+route("post", "/notifications/read-all", (ctx) => {
+  const unread = userNotifications(ctx).filter((n) => !n.is_read);
+  unread.forEach((n) => {
+    n.is_read = true;
+    n.read_at = now();
+  });
+  return { count: unread.length };
+});
+
+route("delete", "/notifications/delete-read", (ctx) => {
+  const read = userNotifications(ctx).filter((n) => n.is_read);
+  ctx.db.notifications = ctx.db.notifications.filter((n) => !read.includes(n));
+  return { count: read.length };
+});
+
+route("get", "/notifications/scheduler/jobs", () => {
+  const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+  return {
+    jobs: SCHEDULER_JOBS.map((job) => ({
+      ...job,
+      next_run: tomorrow.toISOString(),
+    })),
+  };
+});
+
+route("post", "/notifications/scheduler/jobs/:job/run", (ctx) => {
+  const { db } = ctx;
+  switch (ctx.params.job) {
+    case "appetite_check":
+      return checkAllRisks(db);
+    case "review_reminders": {
+      const days = Number(db.settings.autoAssessmentReminderDays) || 30;
+      const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
+      const overdue = activeRisks(db).filter(
+        (r) => new Date(r.updated_at).getTime() < cutoff
+      );
+      overdue.forEach((risk) =>
+        notify(db, {
+          title: "Risk review due",
+          message: `${risk.code} ${risk.title} has not been reviewed in ${days} days.`,
+          type: "review_reminder",
+          priority: "medium",
+          user_id: risk.owner_id ?? 1,
+          risk_id: risk.id,
+          action_url: `/risks/${risk.code}`,
+        })
+      );
+      return { notifications_sent: overdue.length };
+    }
+    case "treatment_due": {
+      const due = db.actions.filter(
+        (a) => !a.is_completed && a.due_date && a.due_date <= today()
+      );
+      due.forEach((action) => {
+        const plan = db.treatments.find((p) => p.id === action.plan_id);
+        notify(db, {
+          title: "Treatment action overdue",
+          message: `"${action.title}" was due on ${action.due_date}.`,
+          type: "treatment_due",
+          priority: "medium",
+          user_id: action.assignee_id ?? 1,
+          risk_id: plan?.risk_id,
+        });
+      });
+      return { notifications_sent: due.length };
+    }
+    case "control_tests_due": {
+      const overdue = db.controls.filter(
+        (c) =>
+          c.is_active !== false &&
+          c.test_frequency &&
+          c.next_test_due &&
+          c.next_test_due < today()
+      );
+      overdue.forEach((control) => {
+        const daysLate = Math.round(
+          (Date.parse(today()) - Date.parse(control.next_test_due)) /
+            (24 * 60 * 60 * 1000)
+        );
+        notify(db, {
+          title: "Control test overdue",
+          message: `${control.code} ${control.name} was due for testing on ${control.next_test_due} (${daysLate} days ago).`,
+          type: "control_test_overdue",
+          priority: daysLate > 30 ? "high" : "medium",
+          user_id: control.tester_id ?? control.owner_id ?? 1,
+          action_url: "/controls/tests",
+        });
+      });
+      return { notifications_sent: overdue.length };
+    }
+    default:
+      return notFound("Job");
+  }
+});
+
+route("post", "/notifications/test", (ctx) =>
+  notify(ctx.db, {
+    title: "Test notification",
+    message: "Notifications are working.",
+    type: "general",
+    priority: "low",
+    user_id: ctx.userId ?? 1,
+  })
+);
+
+route("get", "/notifications", (ctx) => {
+  const { query } = ctx;
+  const type = query.get("type");
+  const all = userNotifications(ctx)
+    .filter((n) => query.get("unread_only") !== "true" || !n.is_read)
+    .filter((n) => !type || n.type === type)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  const offset = queryNumber(query, "offset") || 0;
+  const limit = queryNumber(query, "limit") || all.length;
+  return {
+    notifications: all.slice(offset, offset + limit),
+    unread_count: userNotifications(ctx).filter((n) => !n.is_read).length,
+    total: all.length,
+  };
+});
+
+route("get", "/notifications/:id", ({ db, params }) =>
+  findOr404(db.notifications, params.id, "Notification")
+);
+
+route("post", "/notifications/:id/read", ({ db, params }) => {
+  const notification = findOr404(db.notifications, params.id, "Notification");
+  notification.is_read = true;
+  notification.read_at = now();
+  return notification;
+});
+
+route("delete", "/notifications/:id", ({ db, params }) => {
+  removeById(db.notifications, params.id, "Notification");
+  return {};
+});
+
+// ---------- Policies ----------
+
+const POLICY_FIELDS = [
+  "title",
+  "title_en",
+  "description",
+  "type",
+  "category",
+  "status",
+  "version",
+  "issue_date",
+  "effective_date",
+  "expiry_date",
+  "review_date",
+  "owner_id",
+  "approver_id",
+  "department",
+  "file_url",
+  "file_name",
+  "keywords",
+  "scope",
+  "references",
+  "notes",
+];
+
+const POLICY_TYPES = [
+  ["policy", "سياسة", "Policy"],
+  ["procedure", "إجراء", "Procedure"],
+  ["standard", "معيار", "Standard"],
+  ["guideline", "دليل إرشادي", "Guideline"],
+];
+
+const POLICY_STATUSES = [
+  ["draft", "مسودة", "Draft"],
+  ["pending_approval", "بانتظار الاعتماد", "Pending approval"],
+  ["approved", "معتمد", "Approved"],
+  ["active", "ساري", "Active"],
+  ["archived", "مؤرشف", "Archived"],
+];
+
+const withPolicyFlags = (db: DemoDatabase, policy: PolicyDocument) => ({
+  ...policy,
+  owner_name: userById(db, policy.owner_id)?.full_name ?? policy.owner_name,
+  approver_name:
+    userById(db, policy.approver_id)?.full_name ?? policy.approver_name,
+  is_expired: !!policy.expiry_date && policy.expiry_date < today(),
+  needs_review: !!policy.review_date && policy.review_date <= today(),
+});
+
+route("get", "/policies/statistics", ({ db }) => {
+  const policies = db.policies.map((p) => withPolicyFlags(db, p));
+  return {
+    total: policies.length,
+    by_status: countBy(policies, (p) => p.status),
+    by_type: countBy(policies, (p) => p.type),
+    needs_review: policies.filter((p) => p.needs_review).length,
+    expired: policies.filter((p) => p.is_expired).length,
+    active: policies.filter((p) => p.status === "active").length,
+    draft: policies.filter((p) => p.status === "draft").length,
+  };
+});
+
+route("get", "/policies/types", () =>
+  POLICY_TYPES.map(([value, label, label_en]) => ({ value, label, label_en }))
+);
+
+route("get", "/policies/statuses", () =>
+  POLICY_STATUSES.map(([value, label, label_en]) => ({
+    value,
+    label,
+    label_en,
+  }))
+);
+
+route("get", "/policies", ({ db, query }) => {
+  const search = query.get("search")?.toLowerCase();
+  const items = db.policies
+    .map((p) => withPolicyFlags(db, p))
+    .filter((p) => !query.get("type") || p.type === query.get("type"))
+    .filter((p) => !query.get("status") || p.status === query.get("status"))
+    .filter(
+      (p) =>
+        !query.get("department") || p.department === query.get("department")
+    )
+    .filter((p) => query.get("needs_review") !== "true" || p.needs_review)
+    .filter((p) => query.get("expired") !== "true" || p.is_expired)
+    .filter(
+      (p) =>
+        !search ||
+        p.title.toLowerCase().includes(search) ||
+        (p.document_code ?? "").toLowerCase().includes(search)
+    );
+  const page = queryNumber(query, "page") || 1;
+  const perPage = queryNumber(query, "per_page") || 20;
+  return {
+    items: items.slice((page - 1) * perPage, page * perPage),
+    total: items.length,
+    pages: Math.max(1, Math.ceil(items.length / perPage)),
+    current_page: page,
+  };
+});
+
+route("get", "/policies/:id", ({ db, params }) =>
+  withPolicyFlags(db, findOr404(db.policies, params.id, "Document"))
+);
+
+route("post", "/policies", (ctx) => {
+  const id = nextId(ctx.db.policies);
+  const policy = {
+    id,
+    document_code: padCode("DOC", id),
+    title: "",
+    type: "policy",
+    status: "draft",
+    version: "1.0",
+    is_expired: false,
+    needs_review: false,
+    created_at: now(),
+    updated_at: now(),
+    ...pick(ctx.body, POLICY_FIELDS),
+  } as PolicyDocument;
+  ctx.db.policies.push(policy);
+  audit(ctx, "create", "PolicyDocument", id, `Created document ${policy.title}`);
+  return withPolicyFlags(ctx.db, policy);
+});
+
+route("put", "/policies/:id", (ctx) => {
+  const policy = findOr404(ctx.db.policies, ctx.params.id, "Document");
+  Object.assign(policy, pick(ctx.body, POLICY_FIELDS), { updated_at: now() });
+  return withPolicyFlags(ctx.db, policy);
+});
+
+route("delete", "/policies/:id", ({ db, params }) => {
+  removeById(db.policies, params.id, "Document");
+  db.riskRelationships = db.riskRelationships.filter(
+    (r) => !(r.relation_type === "governed_by" && r.target_id === Number(params.id))
+  );
+  return {};
+});
+
+const policyTransition =
+  (status: PolicyDocument["status"]): Handler =>
+  (ctx) => {
+    const policy = findOr404(ctx.db.policies, ctx.params.id, "Document");
+    policy.status = status;
+    if (status === "approved") policy.approver_id = ctx.userId ?? undefined;
+    policy.updated_at = now();
+    return withPolicyFlags(ctx.db, policy);
+  };
+
+route("post", "/policies/:id/approve", policyTransition("approved"));
+route("post", "/policies/:id/activate", policyTransition("active"));
+route("post", "/policies/:id/archive", policyTransition("archived"));
+
+route("post", "/policies/:id/review", ({ db, params, body }) => {
+  const policy = findOr404(db.policies, params.id, "Document");
+  const days = Number(body.next_review_days) || 365;
+  policy.last_reviewed_date = today();
+  policy.review_date = new Date(Date.now() + days * 24 * 60 * 60 * 1000)
+    .toISOString()
+    .split("T")[0];
+  policy.updated_at = now();
+  return withPolicyFlags(db, policy);
+});
+
+// ---------- Reports ----------
+
+route("get", "/reports/types", () => REPORT_TYPES);
+
+route("post", "/reports/generate", (ctx) => {
+  const rows = buildReportRows(ctx.db, ctx.body);
+  const type = String(ctx.body.type || "risk");
+  recordReportRun(ctx, ctx.body, "json", JSON.stringify(rows, null, 2));
+  const statusKey = (row: unknown) =>
+    (row as { status?: string }).status ?? undefined;
+  return {
+    title: REPORT_TYPES.find((t) => t.code === type)?.name ?? type,
+    generatedAt: now(),
+    filters: ctx.body,
+    summary: { total: rows.length, by_status: countBy(rows, statusKey) },
+    data: rows,
+  };
+});
+
+route("post", "/reports/export", (ctx) => {
+  const rows = buildReportRows(ctx.db, ctx.body);
+  const format = String(ctx.body.format || "csv");
+  const content = toCsv(rows);
+  recordReportRun(ctx, ctx.body, format, content);
+  return fileResult(content, "text/csv", `${ctx.body.type || "report"}.csv`);
+});
+
+route("get", "/reports/scheduled", ({ db }) => {
+  runDueSchedules(db);
+  return db.scheduledReports.map(({ created_at: _created, ...r }) => r);
+});
+
+route("post", "/reports/scheduled", ({ db, body }) => {
+  const name = String(body.name || "").trim();
+  const recipients = ((body.recipients as string[]) || [])
+    .map((r) => r.trim())
+    .filter(Boolean);
+  if (!name) {
+    throw new DemoHttpError(422, "VALIDATION_ERROR", "Name is required");
+  }
+  if (recipients.length === 0) {
+    throw new DemoHttpError(
+      422,
+      "VALIDATION_ERROR",
+      "At least one recipient is required"
+    );
+  }
+  const format = String(body.format || "csv");
+  if (format !== "csv") {
+    throw new DemoHttpError(
+      422,
+      "VALIDATION_ERROR",
+      "Scheduled reports are delivered as CSV"
+    );
+  }
+  const schedule = String(body.schedule || "0 8 * * 1");
+  const nextRun = getNextScheduledRun(schedule);
+  if (!nextRun) {
+    throw new DemoHttpError(422, "VALIDATION_ERROR", "Unsupported schedule");
+  }
+  const report = {
+    id: nextId(db.scheduledReports),
+    name,
+    type: String(body.type || "risk"),
+    schedule,
+    nextRun: nextRun.toISOString(),
+    recipients,
+    format,
+    filters: (body.filters as Record<string, unknown>) ?? {},
+    created_at: now(),
+  };
+  db.scheduledReports.push(report);
+  return { id: report.id, name: report.name };
+});
+
+route("delete", "/reports/scheduled/:id", ({ db, params }) => {
+  removeById(db.scheduledReports, params.id, "Scheduled report");
+  return {};
+});
+
+route("get", "/reports/history", ({ db, query }) => {
+  runDueSchedules(db);
+  const type = query.get("type");
+  const start = query.get("start_date");
+  const end = query.get("end_date");
+  const scheduleId = queryNumber(query, "schedule_id");
+  const runs = db.reportRuns
+    .filter((r) => !type || r.type === type)
+    .filter((r) => !scheduleId || r.scheduleId === scheduleId)
+    .filter((r) => !start || r.generatedAt.split("T")[0] >= start)
+    .filter((r) => !end || r.generatedAt.split("T")[0] <= end)
+    .map(({ content: _content, ...run }) => run);
+  return paginate(runs, query);
+});
+
+route("get", "/reports/snapshots", ({ db }) =>
+  db.snapshots
+    .map(({ risks, ...snapshot }) => ({ ...snapshot, riskCount: risks.length }))
+    .sort((a, b) => b.takenAt.localeCompare(a.takenAt))
+);
+
+route("get", "/reports/snapshots/:id", ({ db, params }) => {
+  const snapshot = findOr404(db.snapshots, params.id, "Snapshot");
+  return { ...snapshot, riskCount: snapshot.risks.length };
+});
+
+route("post", "/reports/snapshots", (ctx) => {
+  const { db, body } = ctx;
+  const name = String(body.name || "").trim();
+  if (!name) {
+    throw new DemoHttpError(422, "VALIDATION_ERROR", "Name is required");
+  }
+  if (db.snapshots.some((s) => s.name.toLowerCase() === name.toLowerCase())) {
+    throw new DemoHttpError(
+      409,
+      "SNAPSHOT_EXISTS",
+      "A snapshot with this name already exists"
+    );
+  }
+  const snapshot = {
+    id: nextId(db.snapshots),
+    name,
+    description: String(body.description || "").trim() || undefined,
+    takenAt: now(),
+    takenBy: userById(db, ctx.userId)?.full_name ?? "",
+    risks: freezeRegister(db),
+  };
+  db.snapshots.push(snapshot);
+  audit(
+    ctx,
+    "create",
+    "RegisterSnapshot",
+    snapshot.id,
+    `Took register snapshot "${name}" (${snapshot.risks.length} risks)`
+  );
+  return { ...snapshot, riskCount: snapshot.risks.length };
+});
+
+route("delete", "/reports/snapshots/:id", (ctx) => {
+  const snapshot = findOr404(ctx.db.snapshots, ctx.params.id, "Snapshot");
+  removeById(ctx.db.snapshots, snapshot.id, "Snapshot");
+  audit(
+    ctx,
+    "delete",
+    "RegisterSnapshot",
+    snapshot.id,
+    `Deleted register snapshot "${snapshot.name}"`
+  );
+  return {};
+});
+
+route("delete", "/reports/:id", (ctx) => {
+  const run = findOr404(ctx.db.reportRuns, ctx.params.id, "Report");
+  removeById(ctx.db.reportRuns, run.id, "Report");
+  audit(
+    ctx,
+    "delete",
+    "Report",
+    run.id,
+    `Deleted ${run.type} report from ${run.generatedAt.split("T")[0]}`
+  );
+  return {};
+});
+
+route("get", "/reports/:id/download", ({ db, params }) => {
+  const run = findOr404(db.reportRuns, params.id, "Report");
+  return run.format === "json"
+    ? fileResult(run.content, "application/json", `report-${run.id}.json`)
+    : fileResult(run.content, "text/csv", `report-${run.id}.csv`);
+});
+
+route("get", "/reports/dashboard", ({ db }) => {
+  const soon = new Date(Date.now() + 14 * 24 * 60 * 60 * 1000)
+    .toISOString()
+    .split("T")[0];
+  const monthAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
+  return {
+    totalRisks: db.risks.length,
+    openRisks: activeRisks(db).length,
+    criticalRisks: db.risks.filter((r) => r.risk_level === "critical").length,
+    treatmentsInProgress: db.treatments.filter((p) => p.status === "in_progress")
+      .length,
+    upcomingDeadlines: db.actions.filter(
+      (a) => !a.is_completed && a.due_date && a.due_date <= soon
+    ).length,
+    recentIncidents: db.incidents.filter((i) => i.occurred_at >= monthAgo)
+      .length,
+    kriAlerts: db.kris.filter((k) => k.status === "red").length,
+  };
+});
+
+// ---------- Risk Appetite ----------
+
+route("get", "/risk-appetite/thresholds", ({ db }) => db.appetiteThresholds);
+
+route("put", "/risk-appetite/thresholds", ({ db, body }) => {
+  Object.assign(
+    db.appetiteThresholds,
+    pick(body, ["low", "medium", "high", "critical", "approaching_percentage"])
+  );
+  return db.appetiteThresholds;
+});
+
+route("get", "/risk-appetite/evaluate/:id", ({ db, params }) =>
+  evaluateAppetite(db, findOr404(db.risks, params.id, "Risk"))
+);
+
+route("post", "/risk-appetite/check/:id", ({ db, params, body }) => {
+  const risk = findOr404(db.risks, params.id, "Risk");
+  const evaluation = evaluateAppetite(db, risk);
+  return {
+    ...evaluation,
+    actions_taken: actOnEvaluation(db, risk, evaluation, {
+      notify: body.notify !== false,
+      auto_escalate: body.auto_escalate === true,
+    }),
+  };
+});
+
+route("post", "/risk-appetite/check-all", ({ db }) => checkAllRisks(db));
+
+route("get", "/risk-appetite/history", ({ db, query }) => {
+  const limit = queryNumber(query, "limit") ?? 24;
+  return [...db.appetiteChecks]
+    .sort((a, b) => a.checked_at.localeCompare(b.checked_at))
+    .slice(-limit);
+});
+
+route("get", "/risk-appetite/exceeded", ({ db }) => {
+  const risks = activeRisks(db)
+    .map((risk) => ({ risk, evaluation: evaluateAppetite(db, risk) }))
+    .filter(({ evaluation }) => evaluation.requires_action)
+    .map(({ risk, evaluation }) => ({
+      id: risk.id,
+      risk_code: risk.code,
+      title: risk.title,
+      score: evaluation.score,
+      threshold: evaluation.threshold,
+      exceeded_by: evaluation.exceeded_by,
+      level: evaluation.level,
+      action_type: evaluation.action_type,
+      owner_id: risk.owner_id ?? null,
+      status: risk.status,
+      category_name: evaluation.category_name,
+    }));
+  return { risks, count: risks.length };
+});
+
+route("get", "/risk-appetite/summary", ({ db }) => {
+  const evaluations = activeRisks(db).map((r) => evaluateAppetite(db, r));
+  const exceeded = evaluations.filter((e) => e.requires_action).length;
+  const total = evaluations.length;
+  const by_category = db.categories
+    .map((category) => {
+      const inCategory = evaluations.filter(
+        (e) => e.category_id === category.id
+      );
+      const over = inCategory.filter((e) => e.requires_action).length;
+      return {
+        category_id: category.id,
+        category_name: category.name,
+        total: inCategory.length,
+        within_appetite: inCategory.length - over,
+        exceeded_appetite: over,
+        compliance_rate: complianceRate(inCategory.length, over),
+      };
+    })
+    .filter((c) => c.total > 0);
+  return {
+    total_active_risks: total,
+    within_appetite: total - exceeded,
+    exceeded_appetite: exceeded,
+    compliance_rate: complianceRate(total, exceeded),
+    thresholds: db.appetiteThresholds,
+    last_checked: String(db.settings.appetite_last_checked ?? now()),
+    by_category,
+  };
+});
+
+const THRESHOLD_KEYS = [
+  "low",
+  "medium",
+  "high",
+  "critical",
+  "approaching_percentage",
+] as const;
+
+const validateThresholds = (value: unknown): AppetiteThresholds => {
+  const input = (value ?? {}) as Record<string, unknown>;
+  const thresholds = Object.fromEntries(
+    THRESHOLD_KEYS.map((key) => [key, Number(input[key])])
+  ) as unknown as AppetiteThresholds;
+  const { low, medium, high, critical, approaching_percentage } = thresholds;
+  if (
+    THRESHOLD_KEYS.some((key) => !Number.isFinite(thresholds[key])) ||
+    !(low > 0 && low <= medium && medium <= high && high < critical) ||
+    approaching_percentage < 1 ||
+    approaching_percentage > 100
+  ) {
+    throw new DemoHttpError(
+      422,
+      "VALIDATION_ERROR",
+      "Thresholds must increase from low to critical and the warning percentage must be 1-100"
+    );
+  }
+  return thresholds;
+};
+
+const categoryAppetite = (db: DemoDatabase, categoryId: number) => {
+  const category = findOr404(db.categories, categoryId, "Category");
+  const stored = db.categoryAppetites.find((a) => a.category_id === category.id);
+  return {
+    category_id: category.id,
+    category_code: category.code,
+    category_name: category.name,
+    statement: stored?.statement ?? "",
+    thresholds: { ...(stored?.thresholds ?? db.appetiteThresholds) },
+    uses_default: !stored?.thresholds,
+    updated_at: stored?.updated_at,
+  };
+};
+
+route("get", "/risk-appetite/categories", ({ db }) =>
+  db.categories.map((category) => categoryAppetite(db, category.id))
+);
+
+route("put", "/risk-appetite/categories/:id", (ctx) => {
+  const { db, body } = ctx;
+  const category = findOr404(db.categories, ctx.params.id, "Category");
+  const before = categoryAppetite(db, category.id);
+  const entry = {
+    category_id: category.id,
+    statement: String(body.statement ?? "").trim(),
+    thresholds:
+      body.thresholds === null || body.thresholds === undefined
+        ? undefined
+        : validateThresholds(body.thresholds),
+    updated_at: now(),
+  };
+  db.categoryAppetites = [
+    ...db.categoryAppetites.filter((a) => a.category_id !== category.id),
+    entry,
+  ];
+  const after = categoryAppetite(db, category.id);
+  audit(
+    ctx,
+    "update",
+    "RiskAppetite",
+    category.id,
+    `Updated the ${category.name} appetite statement`,
+    { statement: before.statement, thresholds: before.thresholds },
+    { statement: after.statement, thresholds: after.thresholds }
+  );
+  return after;
+});
+
+// ---------- Backup ----------
+
+route("get", "/backup/export", ({ db }) =>
+  fileResult(
+    JSON.stringify(db, null, 2),
+    "application/json",
+    `risk_backup_${today()}.json`
+  )
+);
+
+route("post", "/backup/import", async ({ formData }) => {
+  const file = formData?.get("file");
+  if (!(file instanceof Blob)) {
+    throw new DemoHttpError(400, "VALIDATION_ERROR", "Backup file is required");
+  }
+  let imported: Partial<DemoDatabase>;
+  try {
+    imported = JSON.parse(await file.text());
+  } catch {
+    throw new DemoHttpError(400, "INVALID_BACKUP", "Backup file is not valid JSON");
+  }
+  if (!Array.isArray(imported.risks) || !Array.isArray(imported.users)) {
+    throw new DemoHttpError(400, "INVALID_BACKUP", "Backup file is not a demo export");
+  }
+  database = { ...buildDemoSeed(), ...imported };
+  return { message: "Backup imported" };
+});
+
+// ===========================================
+// Adapter
+// ===========================================
+
+const parseRequest = (config: InternalAxiosRequestConfig) => {
+  const baseURL = config.baseURL ?? "";
+  let url = config.url ?? "";
+  if (baseURL && url.startsWith(baseURL)) url = url.slice(baseURL.length);
+  const [path, search = ""] = url.split("?");
+  const query = new URLSearchParams(search);
+  Object.entries((config.params as Record<string, unknown>) ?? {}).forEach(
+    ([key, value]) => {
+      if (value !== undefined && value !== null) query.set(key, String(value));
+    }
+  );
+
+  let body: Body = {};
+  let formData: FormData | undefined;
+  if (config.data instanceof FormData) {
+    formData = config.data;
+  } else if (typeof config.data === "string" && config.data) {
+    try {
+      body = JSON.parse(config.data);
+    } catch {
+      body = {};
+    }
+  } else if (config.data && typeof config.data === "object") {
+    body = config.data as Body;
+  }
+
+  return { path: `/${path.replace(/^\/+/, "")}`, query, body, formData };
+};
+
+const buildResponse = (
+  config: InternalAxiosRequestConfig,
+  result: DemoResult
+): AxiosResponse => ({
+  data: result.data,
+  status: result.status,
+  statusText: result.status < 400 ? "OK" : "Error",
+  headers: new AxiosHeaders(result.headers ?? { "content-type": "application/json" }),
+  config,
+  request: null,
+});
+
+const isDemoResult = (value: unknown): value is DemoResult =>
+  !!value &&
+  typeof value === "object" &&
+  "status" in value &&
+  "data" in value &&
+  Object.keys(value).every((k) => ["status", "data", "headers"].includes(k));
+
+/**
+ * Axios adapter answering requests from the in-browser demo database.
+ */
+export const demoAdapter: AxiosAdapter = async (config) => {
+  await new Promise((resolve) => setTimeout(resolve, LATENCY_MS));
+
+  const method = (config.method ?? "get").toLowerCase();
+  const { path, query, body, formData } = parseRequest(config);
+  const authorization = config.headers?.Authorization as string | undefined;
+
+  let result: DemoResult;
+  try {
+    let matched: Route | undefined;
+    let values: string[] = [];
+    for (const candidate of routes) {
+      const match =
+        candidate.method === method ? path.match(candidate.pattern) : null;
+      if (match) {
+        matched = candidate;
+        values = match.slice(1);
+        break;
+      }
+    }
+    if (!matched) {
+      throw new DemoHttpError(
+        404,
+        "NOT_FOUND",
+        `Endpoint ${method.toUpperCase()} ${path} is not available in demo mode`
+      );
+    }
+
+    const ctx: RouteContext = {
+      params: Object.fromEntries(matched.keys.map((k, i) => [k, values[i]])),
+      query,
+      body,
+      formData,
+      db: loadDatabase(),
+      userId: readTokenUserId(authorization),
+    };
+
+    const output = await matched.handler(ctx);
+    result = isDemoResult(output)
+      ? output
+      : { status: 200, data: { success: true, data: output } };
+
+    if (method !== "get") saveDatabase();
+  } catch (error) {
+    if (method !== "get") discardUnsavedChanges();
+    const httpError =
+      error instanceof DemoHttpError
+        ? error
+        : new DemoHttpError(
+            500,
+            "INTERNAL_ERROR",
+            error instanceof Error ? error.message : "Request failed"
+          );
+    result = {
+      status: httpError.status,
+      data: {
+        success: false,
+        error: { code: httpError.code, message: httpError.message },
+      },
+    };
+  }
+
+  const response = buildResponse(config, result);
+  if (result.status >= 400) {
+    throw new AxiosError(
+      `Request failed with status code ${result.status}`,
+      result.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      null,
+      response
+    );
+  }
+  return response;
+};
@@ -0,0 +1,1505 @@
+/**
+ * Demo Seed - Initial dataset for the in-browser demo backend
+ *
+ * Converts the frontend mock dataset (mockData.ts) into the backend record
+ * shapes served by demoBackend.ts, so the regular API modules and adapters
+ * work unchanged in demo mode.
+ */
+
+import {
+  mockUsers,
+  mockRisks,
+  mockAssessments,
+  mockTreatments,
+  mockKRIs,
+  mockAuditLogs,
+  mockBCPServices,
+  mockBCPTests,
+  mockIncidents,
+} from "./mockData";
+import { extractNumericId } from "./adapters";
+import {
+  getRiskLevel,
+  BACKEND_INCIDENT_STATUSES,
+  BACKEND_RISK_STATUSES,
+} from "@/utils/constants";
+import type { RiskStage } from "@/utils/constants";
+import { getNextScheduledRun } from "@/utils/reportSchedule";
+import { DEFAULT_RISK_MATRIX, type RiskMatrixConfig } from "@/utils/riskMatrix";
+import {
+  DEFAULT_IMPACT_SCORING,
+  buildImpactBreakdown,
+  formatImpactRationale,
+  type ImpactDimensionKey,
+} from "@/utils/impactScoring";
+import type { CommitteeMeeting, CommitteeEscalation } from "@/types";
+import type {
+  BackendUser,
+  BackendRole,
+  BackendPermission,
+  BackendRisk,
+  BackendRiskCategory,
+  BackendRiskLevel,
+  BackendRiskStatus,
+  BackendAssessment,
+  BackendTreatmentPlan,
+  BackendTreatmentAction,
+  BackendKRI,
+  BackendKRIStatus,
+  BackendKRIValue,
+  BackendControl,
+  BackendControlEffectiveness,
+  BackendRiskControl,
+  BackendRiskRelationship,
+  BackendBowTie,
+  BackendRiskQuantification,
+  BackendControlTest,
+  BackendControlTestFrequency,
+  BackendControlTestResult,
+  BackendIncident,
+  BackendBusinessService,
+  BackendBCPTest,
+  BackendBCPPlan,
+  BackendDRPlan,
+  BackendDRSite,
+  BackendAuditLog,
+} from "@/types/backend";
+import type { Notification } from "./notificationApi";
+import type { PolicyDocument } from "./policyDocumentApi";
+import type {
+  AppetiteCheckRun,
+  AppetiteLevel,
+  AppetiteThresholds,
+} from "./riskAppetiteApi";
+import type { SnapshotRisk } from "./reportApi";
+
+// ===========================================
+// Types
+// ===========================================
+
+export interface DemoScheduledReport {
+  id: number;
+  name: string;
+  type: string;
+  schedule: string;
+  nextRun: string;
+  recipients: string[];
+  format?: string;
+  filters?: Record<string, unknown>;
+  lastRun?: string;
+  created_at: string;
+}
+
+export interface DemoReportRun {
+  id: number;
+  type: string;
+  generatedAt: string;
+  generatedBy: string;
+  format: string;
+  downloadUrl: string;
+  filters?: Record<string, unknown>;
+  scheduleId?: number;
+  recipients?: string[];
+  content: string;
+}
+
+export interface DemoCategoryAppetite {
+  category_id: number;
+  statement: string;
+  /** Omitted when the category uses the global thresholds */
+  thresholds?: AppetiteThresholds;
+  updated_at: string;
+}
+
+export interface DemoRegisterSnapshot {
+  id: number;
+  name: string;
+  description?: string;
+  takenAt: string;
+  takenBy: string;
+  risks: SnapshotRisk[];
+}
+
+export interface DemoDatabase {
+  version: number;
+  users: BackendUser[];
+  passwords: Record<string, string>;
+  roles: BackendRole[];
+  permissions: BackendPermission[];
+  categories: BackendRiskCategory[];
+  risks: BackendRisk[];
+  assessments: BackendAssessment[];
+  treatments: BackendTreatmentPlan[];
+  actions: BackendTreatmentAction[];
+  kris: BackendKRI[];
+  kriValues: BackendKRIValue[];
+  controls: BackendControl[];
+  riskControls: BackendRiskControl[];
+  controlTests: BackendControlTest[];
+  riskRelationships: BackendRiskRelationship[];
+  bowTies: BackendBowTie[];
+  quantifications: BackendRiskQuantification[];
+  incidents: BackendIncident[];
+  services: BackendBusinessService[];
+  tests: BackendBCPTest[];
+  drSites: BackendDRSite[];
+  bcpPlan: BackendBCPPlan;
+  drPlan: BackendDRPlan;
+  meetings: CommitteeMeeting[];
+  escalations: CommitteeEscalation[];
+  notifications: Notification[];
+  policies: PolicyDocument[];
+  scheduledReports: DemoScheduledReport[];
+  reportRuns: DemoReportRun[];
+  snapshots: DemoRegisterSnapshot[];
+  auditLogs: BackendAuditLog[];
+  settings: Record<string, unknown>;
+  appetiteThresholds: AppetiteThresholds;
+  categoryAppetites: DemoCategoryAppetite[];
+  appetiteChecks: AppetiteCheckRun[];
+}
+
+export const DEMO_DB_VERSION = 1;
+
+// ===========================================
+// Helpers
+// ===========================================
+
+const toLevel = (score: number): BackendRiskLevel =>
+  getRiskLevel(score).label.toLowerCase() as BackendRiskLevel;
+
+const toIso = (date: string): string =>
+  date.includes("T") ? date : `${date}T09:00:00Z`;
+
+const SEED_TIMESTAMP = "2025-01-01T08:00:00Z";
+
+// ===========================================
+// Users & Roles
+// ===========================================
+
+const PERMISSION_CODES: Array<[string, string]> = [
+  ["risks.view", "risks"],
+  ["risks.create", "risks"],
+  ["risks.update", "risks"],
+  ["risks.delete", "risks"],
+  ["assessments.create", "assessments"],
+  ["assessments.update", "assessments"],
+  ["assessments.approve", "assessments"],
+  ["treatments.view", "treatments"],
+  ["treatments.create", "treatments"],
+  ["treatments.update", "treatments"],
+  ["treatments.delete", "treatments"],
+  ["treatments.approve", "treatments"],
+  ["bcp.view", "bcp"],
+  ["bcp.create", "bcp"],
+  ["bcp.update", "bcp"],
+  ["bcp.delete", "bcp"],
+  ["kri.create", "kri"],
+  ["kri.update", "kri"],
+  ["kri.delete", "kri"],
+  ["incidents.create", "incidents"],
+  ["incidents.update", "incidents"],
+  ["incidents.delete", "incidents"],
+  ["reports.view", "reports"],
+  ["reports.export", "reports"],
+  ["settings.view", "settings"],
+  ["audit.view", "audit"],
+  ["users.view", "users"],
+  ["users.create", "users"],
+  ["users.update", "users"],
+];
+
+const buildPermissions = (): BackendPermission[] =>
+  PERMISSION_CODES.map(([code, module], index) => ({
+    id: index + 1,
+    name: code,
+    code,
+    module,
+  }));
+
+const buildRoles = (): BackendRole[] => [
+  {
+    id: 1,
+    name: "Administrator",
+    code: "super_admin",
+    description: "Full access to every module",
+    is_system: true,
+    is_default: false,
+  },
+  {
+    id: 2,
+    name: "Risk Manager",
+    code: "risk_manager",
+    description: "Maintains the risk register",
+    is_system: true,
+    is_default: false,
+  },
+  {
+    id: 3,
+    name: "Risk Owner",
+    code: "risk_owner",
+    description: "Owns and treats assigned risks",
+    is_system: true,
+    is_default: false,
+  },
+  {
+    id: 4,
+    name: "Viewer",
+    code: "viewer",
+    description: "Read-only access",
+    is_system: true,
+    is_default: true,
+  },
+];
+
+const ROLE_ID_BY_FRONTEND_ROLE: Record<string, number> = {
+  Admin: 1,
+  "Data Entry": 2,
+  Viewer: 4,
+};
+
+const buildUsers = (roles: BackendRole[]): BackendUser[] =>
+  mockUsers.map((user) => {
+    const roleId = ROLE_ID_BY_FRONTEND_ROLE[user.role] ?? 4;
+    return {
+      id: Number(user.id),
+      email: user.email,
+      full_name: user.name,
+      department: "Risk Management",
+      role_id: roleId,
+      role: roles.find((r) => r.id === roleId),
+      is_active: true,
+      created_at: SEED_TIMESTAMP,
+      updated_at: SEED_TIMESTAMP,
+    };
+  });
+
+/** Default password accepted for every seeded demo account. */
+export const DEMO_DEFAULT_PASSWORD = "demo";
+
+/** Seeded account used by the quick-login tab for a frontend role. */
+export const demoAccountForRole = (role: string): string =>
+  mockUsers.find((u) => u.role === role)?.email ?? "";
+
+// ===========================================
+// Risks
+// ===========================================
+
+const CATEGORY_SEED: Array<[string, string, string]> = [
+  ["Operational", "operational", "#3b82f6"],
+  ["Financial", "financial", "#10b981"],
+  ["Strategic", "strategic", "#8b5cf6"],
+  ["Compliance", "compliance", "#f59e0b"],
+  ["Technology", "technology", "#06b6d4"],
+  ["Reputational", "reputational", "#ec4899"],
+  ["Environmental", "environmental", "#22c55e"],
+  ["Security", "security", "#ef4444"],
+];
+
+const buildCategories = (): BackendRiskCategory[] =>
+  CATEGORY_SEED.map(([name, code, color], index) => ({
+    id: index + 1,
+    name,
+    code,
+    color,
+    sort_order: index + 1,
+  }));
+
+const buildRisks = (
+  categories: BackendRiskCategory[],
+  users: BackendUser[]
+): BackendRisk[] =>
+  mockRisks.map((risk, index) => {
+    const category = categories.find((c) => c.name === risk.category);
+    // Alternate seeded ownership between the admin and analyst accounts so
+    // owner filters and reassignment have real user records to work with.
+    const owner = users[index % 2];
+    return {
+      id: extractNumericId(risk.id),
+      code: risk.id,
+      title: risk.title,
+      description: risk.description,
+      category_id: category?.id,
+      owner_id: owner?.id,
+      owner_name: risk.owner,
+      status: risk.lifecycleStatus,
+      inherent_likelihood: risk.likelihood,
+      inherent_impact: risk.impact,
+      inherent_score: risk.score,
+      risk_level: toLevel(risk.score),
+      created_by: 1,
+      created_at: risk.createdAt,
+      updated_at: risk.updatedAt,
+    };
+  });
+
+/** Controls the seeded residual assessments relied on. */
+const SEED_ASSESSMENT_CONTROLS: Record<string, number[]> = {
+  "ASS-002": [1, 2],
+};
+
+/** Seeded assessments that were scored impact-by-dimension. */
+const SEED_IMPACT_SCORES: Record<
+  string,
+  Partial<Record<ImpactDimensionKey, number>>
+> = {
+  "ASS-002": {
+    financial: 5,
+    reputational: 4,
+    regulatory: 4,
+    operational: 3,
+    health_safety: 1,
+  },
+  "ASS-004": {
+    financial: 4,
+    reputational: 3,
+    regulatory: 3,
+    operational: 2,
+    health_safety: 1,
+  },
+};
+
+const buildAssessments = (): BackendAssessment[] => {
+  const seenRisks = new Set<number>();
+  return mockAssessments.map((assessment) => {
+    const riskId = extractNumericId(assessment.riskId);
+    const type = seenRisks.has(riskId) ? "residual" : "inherent";
+    seenRisks.add(riskId);
+    const assessor = mockUsers.find((u) => u.name === assessment.assessor);
+    const impactScores = SEED_IMPACT_SCORES[assessment.id];
+    return {
+      id: extractNumericId(assessment.id),
+      risk_id: riskId,
+      assessment_type: type,
+      likelihood: assessment.likelihood,
+      impact: assessment.impact,
+      score: assessment.score,
+      risk_level: toLevel(assessment.score),
+      notes: assessment.notes,
+      ...(impactScores
+        ? {
+            rationale: formatImpactRationale(
+              buildImpactBreakdown(DEFAULT_IMPACT_SCORING, impactScores)
+            ),
+          }
+        : {}),
+      ...(type === "residual" && SEED_ASSESSMENT_CONTROLS[assessment.id]
+        ? { control_ids: SEED_ASSESSMENT_CONTROLS[assessment.id] }
+        : {}),
+      assessed_by: assessor ? Number(assessor.id) : undefined,
+      status: "approved",
+      approved_by: 1,
+      approved_at: toIso(assessment.date),
+      created_at: toIso(assessment.date),
+      updated_at: toIso(assessment.date),
+    };
+  });
+};
+
+/** Apply seeded residual assessments to their risks' residual fields. */
+const applyResidualScores = (
+  risks: BackendRisk[],
+  assessments: BackendAssessment[]
+) => {
+  for (const assessment of assessments) {
+    if (assessment.assessment_type !== "residual") continue;
+    const risk = risks.find((r) => r.id === assessment.risk_id);
+    if (!risk) continue;
+    risk.residual_likelihood = assessment.likelihood;
+    risk.residual_impact = assessment.impact;
+    risk.residual_score = assessment.score;
+    risk.risk_level = assessment.risk_level;
+  }
+};
+
+// ===========================================
+// Treatments
+// ===========================================
+
+/** Seeded budgets per plan, so the treatment portfolio has figures. */
+const PLAN_BUDGETS: Record<number, number> = { 1: 185000, 2: 60000 };
+
+const buildTreatments = (): {
+  plans: BackendTreatmentPlan[];
+  actions: BackendTreatmentAction[];
+} => {
+  const plans: BackendTreatmentPlan[] = [];
+  const actions: BackendTreatmentAction[] = [];
+
+  for (const treatment of mockTreatments) {
+    const planId = extractNumericId(treatment.id);
+    const planActions = treatment.actions.map((action) => ({
+      id: extractNumericId(action.id),
+      plan_id: planId,
+      title: action.title,
+      priority: "medium" as const,
+      due_date: action.dueDate,
+      is_completed: action.status === "Done",
+      completion_date: action.status === "Done" ? action.dueDate : undefined,
+      evidence_url: action.evidenceLink,
+      notes: `Owner: ${action.owner}`,
+      created_at: toIso(treatment.createdAt),
+      updated_at: toIso(treatment.updatedAt),
+    }));
+    const done = planActions.filter((a) => a.is_completed).length;
+
+    actions.push(...planActions);
+    plans.push({
+      id: planId,
+      risk_id: extractNumericId(treatment.riskId),
+      title: `${treatment.approach} plan`,
+      strategy: treatment.approach.toLowerCase() as BackendTreatmentPlan["strategy"],
+      status: "in_progress",
+      start_date: treatment.createdAt,
+      target_date: planActions.map((a) => a.due_date).sort().pop(),
+      estimated_budget: PLAN_BUDGETS[planId],
+      progress: planActions.length
+        ? Math.round((done / planActions.length) * 100)
+        : 0,
+      created_by: 1,
+      approved_by: 1,
+      created_at: toIso(treatment.createdAt),
+      updated_at: toIso(treatment.updatedAt),
+    });
+  }
+
+  return { plans, actions };
+};
+
+// ===========================================
+// Controls
+// ===========================================
+
+const SEED_CONTROLS: Array<
+  Pick<
+    BackendControl,
+    "name" | "description" | "control_type" | "automation" | "frequency"
+  > & { owner_id: number }
+> = [
+  { name: "Multi-factor authentication", description: "MFA enforced on all remote and privileged access.", control_type: "preventive", automation: "automated", frequency: "continuous", owner_id: 1 },
+  { name: "Intrusion detection monitoring", description: "IDS alerts triaged by the security operations team.", control_type: "detective", automation: "automated", frequency: "continuous", owner_id: 1 },
+  { name: "Quarterly access review", description: "Owners recertify user access to critical systems.", control_type: "detective", automation: "manual", frequency: "quarterly", owner_id: 2 },
+  { name: "Incident response plan", description: "Documented playbooks with a tested escalation path.", control_type: "corrective", automation: "manual", frequency: "annually", owner_id: 1 },
+  { name: "Supplier due diligence", description: "Financial and resilience checks before onboarding critical suppliers.", control_type: "preventive", automation: "manual", frequency: "annually", owner_id: 2 },
+  { name: "Regulatory change monitoring", description: "Compliance reviews new and amended regulations each month.", control_type: "detective", automation: "manual", frequency: "monthly", owner_id: 2 },
+  { name: "Succession planning", description: "Named successors and handover notes for key roles.", control_type: "preventive", automation: "manual", frequency: "annually", owner_id: 1 },
+  { name: "Social media monitoring", description: "Brand mentions tracked with alerts on negative spikes.", control_type: "detective", automation: "automated", frequency: "daily", owner_id: 2 },
+  { name: "Backup and restore testing", description: "Nightly backups with a weekly restore test.", control_type: "corrective", automation: "automated", frequency: "weekly", owner_id: 1 },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const seedDate = (offsetDays: number) =>
+  new Date(Date.now() + offsetDays * DAY_MS).toISOString().slice(0, 10);
+
+/**
+ * Control ID -> [test frequency, tester ID, days until the next test].
+ * Due dates are relative to today so the schedule always opens with a
+ * couple of overdue and due-soon tests.
+ */
+const SEED_CONTROL_TEST_PLANS: Record<
+  number,
+  [BackendControlTestFrequency, number, number]
+> = {
+  1: ["quarterly", 2, 40],
+  2: ["quarterly", 2, -12],
+  3: ["quarterly", 1, 6],
+  4: ["annually", 2, -30],
+  5: ["annually", 1, 120],
+  6: ["semi_annually", 1, 75],
+  9: ["monthly", 2, 10],
+};
+
+const buildControls = (): BackendControl[] =>
+  SEED_CONTROLS.map((control, index) => {
+    const plan = SEED_CONTROL_TEST_PLANS[index + 1];
+    return {
+      id: index + 1,
+      code: `CTL-${String(index + 1).padStart(3, "0")}`,
+      is_active: true,
+      created_at: SEED_TIMESTAMP,
+      updated_at: SEED_TIMESTAMP,
+      ...control,
+      ...(plan && {
+        test_frequency: plan[0],
+        tester_id: plan[1],
+        next_test_due: seedDate(plan[2]),
+      }),
+    };
+  });
+
+/** [control ID, days ago, result, sample size, exceptions, evidence] */
+const SEED_CONTROL_TESTS: Array<
+  [number, number, BackendControlTestResult, number, number, string]
+> = [
+  [3, 175, "partially_effective", 30, 2, "Access review sign-off sheet Q1"],
+  [5, 245, "effective", 10, 0, "Supplier onboarding files"],
+  [4, 395, "partially_effective", 1, 0, "Tabletop exercise minutes"],
+  [2, 102, "partially_effective", 40, 3, "IDS alert triage log sample"],
+  [6, 107, "effective", 12, 0, "Regulatory change register"],
+  [3, 84, "ineffective", 30, 7, "Access review sign-off sheet Q2"],
+  [1, 50, "effective", 25, 0, "MFA enrolment report"],
+  [9, 20, "effective", 4, 0, "Restore test tickets"],
+];
+
+const buildControlTests = (): BackendControlTest[] =>
+  SEED_CONTROL_TESTS.map(
+    ([controlId, daysAgo, result, sampleSize, exceptions, evidence], index) => ({
+      id: index + 1,
+      control_id: controlId,
+      tester_id: SEED_CONTROL_TEST_PLANS[controlId]?.[1] ?? 1,
+      tested_at: seedDate(-daysAgo),
+      result,
+      sample_size: sampleSize,
+      exceptions,
+      evidence,
+      created_at: SEED_TIMESTAMP,
+      updated_at: SEED_TIMESTAMP,
+    })
+  );
+
+/** [risk ID, control ID, design, operating] */
+const SEED_RISK_CONTROLS: Array<
+  [number, number, BackendControlEffectiveness, BackendControlEffectiveness]
+> = [
+  [1, 1, "effective", "effective"],
+  [1, 2, "effective", "partially_effective"],
+  [1, 3, "partially_effective", "ineffective"],
+  [1, 4, "effective", "not_assessed"],
+  [2, 5, "partially_effective", "partially_effective"],
+  [3, 6, "effective", "effective"],
+  [5, 7, "partially_effective", "not_assessed"],
+  [6, 9, "effective", "effective"],
+  [6, 4, "effective", "partially_effective"],
+  [7, 8, "effective", "partially_effective"],
+  [7, 4, "partially_effective", "partially_effective"],
+];
+
+const buildRiskControls = (): BackendRiskControl[] =>
+  SEED_RISK_CONTROLS.map(([riskId, controlId, design, operating], index) => ({
+    id: index + 1,
+    risk_id: riskId,
+    control_id: controlId,
+    design_effectiveness: design,
+    operating_effectiveness: operating,
+    created_at: SEED_TIMESTAMP,
+    updated_at: SEED_TIMESTAMP,
+  }));
+
+/** [risk ID, relation type, target ID] */
+const SEED_RISK_RELATIONSHIPS: Array<
+  [number, BackendRiskRelationship["relation_type"], number]
+> = [
+  [6, "causes", 1],
+  [1, "causes", 7],
+  [1, "causes", 3],
+  [8, "causes", 2],
+  [1, "affects", 1],
+  [1, "affects", 2],
+  [6, "affects", 3],
+  [6, "affects", 1],
+  [2, "affects", 2],
+  [5, "affects", 4],
+  [1, "governed_by", 1],
+  [1, "governed_by", 2],
+  [3, "governed_by", 1],
+];
+
+const buildRiskRelationships = (): BackendRiskRelationship[] =>
+  SEED_RISK_RELATIONSHIPS.map(([riskId, type, targetId], index) => ({
+    id: index + 1,
+    risk_id: riskId,
+    relation_type: type,
+    target_id: targetId,
+    created_at: SEED_TIMESTAMP,
+    updated_at: SEED_TIMESTAMP,
+  }));
+
+/**
+ * Cause/consequence paths as [description, barriers], each barrier as
+ * [description, treatment action ID or null].
+ */
+type SeedBowTiePath = [string, Array<[string, number | null]>];
+
+const SEED_BOW_TIES: Array<{
+  riskId: number;
+  topEvent: string;
+  causes: SeedBowTiePath[];
+  consequences: SeedBowTiePath[];
+}> = [
+  {
+    riskId: 1,
+    topEvent: "Unauthorised access to customer data",
+    causes: [
+      [
+        "Phishing and credential theft",
+        [
+          ["Security awareness training", 4],
+          ["Multi-factor authentication", 1],
+        ],
+      ],
+      [
+        "Unpatched internet-facing systems",
+        [
+          ["Monthly patch cycle", null],
+          ["Penetration testing", 3],
+        ],
+      ],
+      ["Misuse of privileged access", [["Quarterly access reviews", null]]],
+    ],
+    consequences: [
+      [
+        "Regulatory fines",
+        [["Breach notification procedure", null]],
+      ],
+      [
+        "Service outage",
+        [
+          ["Intrusion detection and response", 2],
+          ["Tested backups", null],
+        ],
+      ],
+      ["Loss of customer trust", [["Crisis communications plan", null]]],
+    ],
+  },
+];
+
+const buildBowTies = (): BackendBowTie[] =>
+  SEED_BOW_TIES.map(({ riskId, topEvent, causes, consequences }) => {
+    let lastId = 0;
+    const toPaths = (paths: SeedBowTiePath[]) =>
+      paths.map(([description, barriers]) => ({
+        id: ++lastId,
+        description,
+        barriers: barriers.map(([text, actionId]) => ({
+          id: ++lastId,
+          description: text,
+          action_id: actionId,
+        })),
+      }));
+    return {
+      risk_id: riskId,
+      top_event: topEvent,
+      causes: toPaths(causes),
+      consequences: toPaths(consequences),
+      updated_at: SEED_TIMESTAMP,
+      updated_by_id: 1,
+    };
+  });
+
+/** FAIR inputs for the financial and technology risks. */
+const SEED_QUANTIFICATIONS: Array<
+  Pick<BackendRiskQuantification, "risk_id" | "frequency" | "magnitude" | "notes">
+> = [
+  {
+    risk_id: 1,
+    frequency: { distribution: "pert", min: 0.1, most_likely: 0.5, max: 2 },
+    magnitude: { distribution: "lognormal", min: 50000, max: 2500000 },
+    notes: "Frequency from industry breach data; magnitude includes response, fines and notification costs.",
+  },
+  {
+    risk_id: 4,
+    frequency: { distribution: "pert", min: 0.5, most_likely: 1, max: 3 },
+    magnitude: { distribution: "pert", min: 20000, most_likely: 150000, max: 900000 },
+    notes: "Adverse market movements beyond hedged positions.",
+  },
+  {
+    risk_id: 6,
+    frequency: { distribution: "pert", min: 0.2, most_likely: 0.4, max: 1 },
+    magnitude: { distribution: "lognormal", min: 30000, max: 600000 },
+  },
+];
+
+const buildQuantifications = (): BackendRiskQuantification[] =>
+  SEED_QUANTIFICATIONS.map((quantification) => ({
+    currency: "USD",
+    updated_at: SEED_TIMESTAMP,
+    updated_by_id: 1,
+    ...quantification,
+  }));
+
+// ===========================================
+// KRIs & Incidents
+// ===========================================
+
+/** Threshold details the frontend mock KRIs do not carry. */
+const KRI_DETAILS: Record<
+  string,
+  Pick<
+    BackendKRI,
+    "threshold_yellow" | "threshold_red" | "is_higher_better" | "unit"
+  > & { format_type: BackendKRI["format_type"] }
+> = {
+  "KRI-001": { threshold_yellow: 5, threshold_red: 8, is_higher_better: false, format_type: "number" },
+  "KRI-002": { threshold_yellow: 10, threshold_red: 20, is_higher_better: false, format_type: "number" },
+  "KRI-003": { threshold_yellow: 85, threshold_red: 70, is_higher_better: true, format_type: "percentage", unit: "%" },
+  "KRI-004": { threshold_yellow: 95, threshold_red: 90, is_higher_better: true, format_type: "percentage", unit: "%" },
+  "KRI-005": { threshold_yellow: 99.9, threshold_red: 99.5, is_higher_better: true, format_type: "percentage", unit: "%" },
+  "KRI-006": { threshold_yellow: 5, threshold_red: 8, is_higher_better: false, format_type: "number" },
+  "KRI-007": { threshold_yellow: -5, threshold_red: -10, is_higher_better: true, format_type: "percentage", unit: "%" },
+  "KRI-008": { threshold_yellow: 10, threshold_red: 15, is_higher_better: false, format_type: "percentage", unit: "%" },
+};
+
+const buildKRIs = (): BackendKRI[] =>
+  mockKRIs.map((kri) => {
+    const details = KRI_DETAILS[kri.id] ?? {
+      is_higher_better: false,
+      format_type: "number" as const,
+    };
+    return {
+      id: extractNumericId(kri.id),
+      code: kri.id,
+      name: kri.metricName,
+      risk_id: kri.riskId ? extractNumericId(kri.riskId) : undefined,
+      current_value: kri.value,
+      target_value: kri.targetValue,
+      status: kri.status,
+      last_updated: toIso(kri.updatedAt),
+      measurement_frequency: "monthly",
+      next_measurement_date: "2026-01-27",
+      owner_id: 2,
+      created_at: SEED_TIMESTAMP,
+      updated_at: toIso(kri.updatedAt),
+      ...details,
+    };
+  });
+
+/** Where a score sits against a set of appetite thresholds. */
+export const appetiteLevel = (
+  score: number,
+  thresholds: AppetiteThresholds
+): AppetiteLevel => {
+  if (score >= thresholds.critical) return "critical";
+  if (score > thresholds.high) return "exceeded";
+  if (score >= (thresholds.high * thresholds.approaching_percentage) / 100)
+    return "approaching_limit";
+  return "within_appetite";
+};
+
+/** Status of a KRI reading against the KRI's yellow/red thresholds. */
+export const evaluateKRIValue = (
+  kri: BackendKRI,
+  value: number
+): BackendKRIStatus => {
+  const { threshold_yellow: yellow, threshold_red: red } = kri;
+  if (kri.is_higher_better) {
+    if (red !== undefined && red !== null && value <= red) return "red";
+    if (yellow !== undefined && yellow !== null && value <= yellow)
+      return "yellow";
+    return "green";
+  }
+  if (red !== undefined && red !== null && value >= red) return "red";
+  if (yellow !== undefined && yellow !== null && value >= yellow)
+    return "yellow";
+  return "green";
+};
+
+/**
+ * Six monthly readings per KRI ending at its current value, drifting in
+ * from alternating directions so the charts show both improving and
+ * deteriorating indicators.
+ */
+const buildKRIValues = (kris: BackendKRI[]): BackendKRIValue[] => {
+  const values: BackendKRIValue[] = [];
+  kris.forEach((kri) => {
+    const current = kri.current_value ?? 0;
+    const spread =
+      kri.threshold_yellow !== undefined && kri.threshold_red !== undefined
+        ? Math.abs(kri.threshold_red - kri.threshold_yellow)
+        : Math.abs(current) * 0.1 || 1;
+    const direction = kri.id % 2 === 0 ? 1 : -1;
+    const last = new Date(kri.last_updated ?? SEED_TIMESTAMP);
+
+    for (let monthsAgo = 5; monthsAgo >= 0; monthsAgo--) {
+      const wobble = monthsAgo % 2 === 0 ? 0 : spread * 0.15;
+      const value =
+        Math.round(
+          (current + direction * (monthsAgo * spread * 0.25 + wobble)) * 10
+        ) / 10;
+      const recordedAt = new Date(last);
+      recordedAt.setUTCMonth(recordedAt.getUTCMonth() - monthsAgo);
+      values.push({
+        id: values.length + 1,
+        kri_id: kri.id,
+        value: monthsAgo === 0 ? current : value,
+        status: evaluateKRIValue(kri, monthsAgo === 0 ? current : value),
+        recorded_at: recordedAt.toISOString(),
+        recorded_by: kri.owner_id,
+      });
+    }
+  });
+  return values;
+};
+
+/** Post-incident review details the frontend mock incidents do not carry. */
+const INCIDENT_DETAILS: Record<
+  string,
+  Pick<BackendIncident, "root_cause" | "corrective_actions" | "lessons_learned">
+> = {
+  "INC-001": {
+    root_cause: "Staff member clicked a link in a spoofed supplier email.",
+    corrective_actions: ["Blocked sender domain", "Targeted phishing refresher"],
+    lessons_learned: "Supplier-themed lures need to be covered in awareness training.",
+  },
+  "INC-002": {
+    root_cause: "Credential stuffing against an account without MFA.",
+    corrective_actions: ["Enforced MFA for remote access"],
+  },
+  "INC-003": {
+    root_cause: "Single-source supplier lost capacity during peak season.",
+    corrective_actions: ["Qualified a secondary supplier"],
+  },
+};
+
+const buildIncidents = (risks: BackendRisk[]): BackendIncident[] =>
+  mockIncidents.map((incident) => {
+    const riskId = extractNumericId(incident.riskId);
+    const risk = risks.find((r) => r.id === riskId);
+    const status = incident.status.toLowerCase() as BackendIncident["status"];
+    const reached = (stage: BackendIncident["status"]) =>
+      BACKEND_INCIDENT_STATUSES.indexOf(status) >=
+      BACKEND_INCIDENT_STATUSES.indexOf(stage)
+        ? toIso(incident.date)
+        : undefined;
+    return {
+      id: extractNumericId(incident.id),
+      code: incident.id,
+      title: incident.title,
+      category: risk?.category_id === 8 ? "security" : "operational",
+      severity: incident.severity.toLowerCase() as BackendIncident["severity"],
+      status,
+      risk_id: riskId || undefined,
+      occurred_at: toIso(incident.date),
+      detected_at: toIso(incident.date),
+      reported_at: toIso(incident.date),
+      investigating_at: reached("investigating"),
+      contained_at: reached("contained"),
+      resolved_at: reached("resolved"),
+      closed_at: reached("closed"),
+      ...INCIDENT_DETAILS[incident.id],
+      reported_by: 2,
+      created_at: toIso(incident.date),
+      updated_at: toIso(incident.date),
+    };
+  });
+
+// ===========================================
+// BCP / DR
+// ===========================================
+
+const buildServices = (): BackendBusinessService[] =>
+  mockBCPServices.map((service) => ({
+    id: extractNumericId(service.id),
+    code: service.id,
+    name: service.name,
+    criticality:
+      service.criticality.toLowerCase() as BackendBusinessService["criticality"],
+    rto: service.rto,
+    rpo: service.rpo,
+    dependencies: service.dependencies,
+    department: service.owner,
+    created_at: SEED_TIMESTAMP,
+    updated_at: SEED_TIMESTAMP,
+  }));
+
+const buildTests = (): BackendBCPTest[] =>
+  mockBCPTests.map((test) => ({
+    id: extractNumericId(test.id),
+    code: test.id,
+    name: test.name,
+    test_type: test.type === "DR" ? "dr" : "tabletop",
+    status: test.status.toLowerCase() as BackendBCPTest["status"],
+    scheduled_date: test.date,
+    duration_minutes: test.durationMinutes,
+    notes: test.notes,
+    created_at: SEED_TIMESTAMP,
+    updated_at: SEED_TIMESTAMP,
+  }));
+
+const buildDRSites = (): BackendDRSite[] => [
+  {
+    id: 1,
+    name: "Primary Data Center",
+    code: "DC-01",
+    site_type: "hot_site",
+    location: "Head office",
+    capacity: 100,
+    rto: "1 hour",
+    rpo: "15 minutes",
+    is_primary: true,
+    is_active: true,
+    created_at: SEED_TIMESTAMP,
+    updated_at: SEED_TIMESTAMP,
+  },
+  {
+    id: 2,
+    name: "Secondary Recovery Site",
+    code: "DR-01",
+    site_type: "warm_site",
+    location: "Regional office",
+    capacity: 60,
+    rto: "4 hours",
+    rpo: "1 hour",
+    is_primary: false,
+    is_active: true,
+    last_tested_at: "2025-12-10T09:00:00Z",
+    created_at: SEED_TIMESTAMP,
+    updated_at: SEED_TIMESTAMP,
+  },
+];
+
+const buildBCPPlan = (): BackendBCPPlan => ({
+  id: 1,
+  title: "Business continuity plan",
+  version: "1.0",
+  status: "active",
+  sections: ["Scope", "Roles", "Activation", "Recovery", "Communication"],
+  objectives: "Keep critical services available during disruptions.",
+  scope: "All critical business services.",
+  activation_triggers: ["Loss of primary site", "Critical system outage"],
+  emergency_contacts: [
+    { name: "John Admin", phone: "+1 555 0100", role: "Crisis lead" },
+  ],
+  owner_id: 1,
+  created_at: SEED_TIMESTAMP,
+  updated_at: "2025-12-01T09:00:00Z",
+});
+
+const buildDRPlan = (): BackendDRPlan => ({
+  id: 1,
+  title: "Disaster recovery plan",
+  version: "1.0",
+  status: "active",
+  rto: "4 hours",
+  rpo: "1 hour",
+  last_updated: "2025-12-01T09:00:00Z",
+  created_at: SEED_TIMESTAMP,
+  updated_at: "2025-12-01T09:00:00Z",
+});
+
+// ===========================================
+// Governance & Misc
+// ===========================================
+
+const STAGE_TO_RISK_STATUS: Partial<Record<RiskStage, BackendRiskStatus>> = {
+  Identification: "identified",
+  Analysis: "analyzing",
+  Evaluation: "analyzed",
+  Treatment: "treating",
+  Monitoring: "monitoring",
+};
+
+/**
+ * Replays each mock risk's stage history as create / status_change audit
+ * entries, stopping at the risk's seeded lifecycle status, so the stage
+ * timeline has real data to rebuild from.
+ */
+const buildRiskStageLogs = (firstId: number): BackendAuditLog[] => {
+  const logs: Omit<BackendAuditLog, "id">[] = [];
+  const userIdByName = (name: string) => {
+    const user = mockUsers.find((u) => u.name === name);
+    return user ? Number(user.id) : undefined;
+  };
+
+  mockRisks.forEach((risk) => {
+    const riskId = extractNumericId(risk.id);
+    const currentIndex = BACKEND_RISK_STATUSES.indexOf(risk.lifecycleStatus);
+    const hasCreateLog = mockAuditLogs.some(
+      (l) => l.action === "CREATE" && l.entityId === risk.id
+    );
+    let previous: BackendRiskStatus = "identified";
+
+    risk.stagesHistory.forEach((entry) => {
+      const base = {
+        user_id: userIdByName(entry.updatedBy),
+        user_name: entry.updatedBy,
+        entity_type: "Risk",
+        entity_id: riskId,
+        description: entry.notes,
+        created_at: `${entry.date}T09:00:00Z`,
+      };
+      if (entry.stage === "Context") {
+        if (!hasCreateLog) {
+          logs.push({
+            ...base,
+            action: "create",
+            new_values: { status: "identified" },
+          });
+        }
+        return;
+      }
+      const status = STAGE_TO_RISK_STATUS[entry.stage];
+      if (!status || status === previous) return;
+      if (BACKEND_RISK_STATUSES.indexOf(status) > currentIndex) return;
+      logs.push({
+        ...base,
+        action: "status_change",
+        old_values: { status: previous },
+        new_values: { status },
+      });
+      previous = status;
+    });
+
+    if (previous !== risk.lifecycleStatus) {
+      logs.push({
+        user_id: 1,
+        user_name: mockUsers[0].name,
+        action: "status_change",
+        entity_type: "Risk",
+        entity_id: riskId,
+        old_values: { status: previous },
+        new_values: { status: risk.lifecycleStatus },
+        description: `Changed status of ${risk.id} from ${previous} to ${risk.lifecycleStatus}`,
+        created_at: risk.updatedAt,
+      });
+    }
+  });
+
+  return logs.map((log, index) => ({ ...log, id: firstId + index }));
+};
+
+const buildAuditLogs = (): BackendAuditLog[] => {
+  const seeded = mockAuditLogs.map((log) => {
+    const user = mockUsers.find((u) => u.name === log.actor);
+    return {
+      id: extractNumericId(log.id),
+      user_id: user ? Number(user.id) : undefined,
+      user_name: log.actor,
+      action: log.action.toLowerCase(),
+      entity_type: log.entityType,
+      entity_id: extractNumericId(log.entityId) || undefined,
+      description: log.details,
+      created_at: log.timestamp,
+    };
+  });
+  return [...seeded, ...buildRiskStageLogs(seeded.length + 1)];
+};
+
+const buildNotifications = (): Notification[] => [
+  {
+    id: 1,
+    title: "Risk appetite exceeded",
+    message: "RISK-001 Cybersecurity Breach Risk is above the appetite limit.",
+    type: "appetite_exceeded",
+    priority: "high",
+    user_id: 1,
+    risk_id: 1,
+    is_read: false,
+    action_url: "/risks/RISK-001",
+    source: "demo",
+    is_expired: false,
+    created_at: "2025-12-27T08:00:00Z",
+    updated_at: "2025-12-27T08:00:00Z",
+  },
+  {
+    id: 2,
+    title: "Treatment action due",
+    message: "Security Awareness Training is due on 2025-12-31.",
+    type: "treatment_due",
+    priority: "medium",
+    user_id: 1,
+    risk_id: 1,
+    is_read: false,
+    action_url: "/treatments/RISK-001",
+    source: "demo",
+    is_expired: false,
+    created_at: "2025-12-26T08:00:00Z",
+    updated_at: "2025-12-26T08:00:00Z",
+  },
+];
+
+/** The default 5x5 scale with the criteria assessors are trained on. */
+const buildRiskMatrix = (): RiskMatrixConfig => {
+  const likelihoodCriteria = [
+    "Less than once in 10 years",
+    "Once in 5 to 10 years",
+    "Once in 1 to 5 years",
+    "Several times a year",
+    "Monthly or more often",
+  ];
+  const impactCriteria = [
+    "< $10K loss, no customer impact",
+    "$10K - $100K loss or minor service disruption",
+    "$100K - $1M loss or regulator notification",
+    "> $1M loss or outage of a critical service over a day",
+    "> $10M loss or licence to operate at risk",
+  ];
+  return {
+    ...DEFAULT_RISK_MATRIX,
+    likelihood: DEFAULT_RISK_MATRIX.likelihood.map((level, i) => ({
+      ...level,
+      criteria: likelihoodCriteria[i],
+    })),
+    impact: DEFAULT_RISK_MATRIX.impact.map((level, i) => ({
+      ...level,
+      criteria: impactCriteria[i],
+    })),
+  };
+};
+
+const buildPolicies = (): PolicyDocument[] => [
+  {
+    id: 1,
+    document_code: "POL-001",
+    title: "Enterprise Risk Management Policy",
+    description: "Defines the ERM framework, roles and risk appetite.",
+    type: "policy",
+    status: "active",
+    version: "2.0",
+    effective_date: "2025-01-01",
+    review_date: "2026-01-01",
+    owner_id: 1,
+    owner_name: "John Admin",
+    department: "Risk Management",
+    is_expired: false,
+    needs_review: false,
+    created_at: SEED_TIMESTAMP,
+    updated_at: SEED_TIMESTAMP,
+  },
+  {
+    id: 2,
+    document_code: "PRC-001",
+    title: "Incident Response Procedure",
+    description: "Steps for detecting, containing and recovering from incidents.",
+    type: "procedure",
+    status: "draft",
+    version: "0.3",
+    owner_id: 2,
+    owner_name: "Sarah Analyst",
+    department: "IT Security",
+    is_expired: false,
+    needs_review: true,
+    created_at: SEED_TIMESTAMP,
+    updated_at: SEED_TIMESTAMP,
+  },
+];
+
+/**
+ * The committee's Monday register pack. Its first run is back-dated so the
+ * scheduler catches up and the schedule opens with a few past runs.
+ */
+const buildScheduledReports = (): DemoScheduledReport[] => {
+  const schedule = "0 8 * * 1";
+  const threeWeeksAgo = new Date(Date.now() - 21 * 24 * 60 * 60 * 1000);
+  return [
+    {
+      id: 1,
+      name: "Risk committee register pack",
+      type: "risk",
+      schedule,
+      nextRun: (
+        getNextScheduledRun(schedule, threeWeeksAgo) ?? threeWeeksAgo
+      ).toISOString(),
+      recipients: ["risk.committee@company.com", "cro@company.com"],
+      format: "csv",
+      filters: {},
+      created_at: threeWeeksAgo.toISOString(),
+    },
+  ];
+};
+
+/**
+ * A stored register report from the end of last quarter, taken before the
+ * newest risk was logged and while the top risk still scored higher, so
+ * comparing it with a fresh run shows real differences.
+ */
+const buildReportRuns = (
+  risks: BackendRisk[],
+  categories: BackendRiskCategory[],
+  users: BackendUser[]
+): DemoReportRun[] => {
+  const now = new Date();
+  const quarterEnd = new Date(
+    now.getFullYear(),
+    Math.floor(now.getMonth() / 3) * 3,
+    0,
+    17
+  ).toISOString();
+  const rows = risks.slice(0, -1).map((risk, index) => {
+    const row: Record<string, unknown> = {
+      ...risk,
+      category_name: categories.find((c) => c.id === risk.category_id)?.name,
+      owner_name:
+        users.find((u) => u.id === risk.owner_id)?.full_name ?? risk.owner_name,
+      updated_at: quarterEnd,
+    };
+    if (index === 0 && risk.inherent_score) {
+      row.inherent_likelihood = Math.min((risk.inherent_likelihood ?? 1) + 1, 5);
+      row.inherent_score =
+        (row.inherent_likelihood as number) * (risk.inherent_impact ?? 1);
+      row.risk_level = toLevel(row.inherent_score as number);
+    }
+    return row;
+  });
+  return [
+    {
+      id: 1,
+      type: "risk",
+      generatedAt: quarterEnd,
+      generatedBy: "John Admin",
+      format: "json",
+      downloadUrl: "/reports/1/download",
+      filters: {},
+      content: JSON.stringify(rows, null, 2),
+    },
+  ];
+};
+
+/**
+ * The board's category statements: no tolerance for compliance breaches,
+ * more room on strategic bets, and the global limits everywhere else.
+ */
+const buildCategoryAppetites = (
+  categories: BackendRiskCategory[]
+): DemoCategoryAppetite[] => {
+  const statements: Record<
+    string,
+    { statement: string; thresholds?: AppetiteThresholds }
+  > = {
+    compliance: {
+      statement:
+        "The bank has zero tolerance for regulatory breaches. Any compliance risk above a low rating must be treated immediately.",
+      thresholds: {
+        low: 2,
+        medium: 3,
+        high: 4,
+        critical: 10,
+        approaching_percentage: 75,
+      },
+    },
+    strategic: {
+      statement:
+        "We accept elevated risk in pursuit of growth, provided exposures are reviewed quarterly by the board.",
+      thresholds: {
+        low: 6,
+        medium: 12,
+        high: 16,
+        critical: 20,
+        approaching_percentage: 85,
+      },
+    },
+    security: {
+      statement:
+        "Low appetite for security incidents affecting customer data; risks are managed within the global limits.",
+    },
+  };
+  return categories
+    .filter((category) => statements[category.code])
+    .map((category) => ({
+      category_id: category.id,
+      ...statements[category.code],
+      updated_at: SEED_TIMESTAMP,
+    }));
+};
+
+/**
+ * Monthly check-all runs for the past half year. Most risks scored higher
+ * in earlier months and every third one lower, so the trend improves
+ * overall while a few risks cross the limit in each direction.
+ */
+const buildAppetiteChecks = (
+  risks: BackendRisk[],
+  categoryAppetites: DemoCategoryAppetite[],
+  globalThresholds: AppetiteThresholds
+): AppetiteCheckRun[] => {
+  const now = new Date();
+  const active = risks.filter((r) => r.status !== "closed");
+  return [6, 5, 4, 3, 2, 1].map((monthsAgo, index) => {
+    const details = active.map((risk, riskIndex) => {
+      const drift = riskIndex % 3 === 2 ? -1 : 1;
+      const current = risk.residual_score ?? risk.inherent_score ?? 0;
+      const score = Math.min(25, Math.max(1, current + drift * monthsAgo));
+      const thresholds =
+        categoryAppetites.find((a) => a.category_id === risk.category_id)
+          ?.thresholds ?? globalThresholds;
+      return {
+        risk_id: risk.id,
+        risk_code: risk.code,
+        title: risk.title,
+        level: appetiteLevel(score, thresholds),
+        score,
+      };
+    });
+    const count = (level: AppetiteLevel) =>
+      details.filter((d) => d.level === level).length;
+    const breached = count("exceeded") + count("critical");
+    return {
+      id: index + 1,
+      checked_at: new Date(
+        now.getFullYear(),
+        now.getMonth() - monthsAgo,
+        1,
+        7
+      ).toISOString(),
+      total_checked: details.length,
+      within_appetite: count("within_appetite"),
+      approaching_limit: count("approaching_limit"),
+      exceeded: count("exceeded"),
+      critical: count("critical"),
+      compliance_rate: details.length
+        ? Math.round(((details.length - breached) / details.length) * 1000) / 10
+        : 100,
+      details,
+    };
+  });
+};
+
+/**
+ * Freeze every risk with its scores, owner, latest treatment plan and
+ * active KRIs. Shared with the snapshot endpoint in demoBackend.ts.
+ */
+export const freezeRegister = (
+  db: Pick<DemoDatabase, "risks" | "categories" | "users" | "treatments" | "kris">
+): SnapshotRisk[] =>
+  db.risks.map((risk) => {
+    const plan = db.treatments
+      .filter((p) => p.risk_id === risk.id)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))[0];
+    return {
+      riskId: risk.id,
+      code: risk.code,
+      title: risk.title,
+      category: db.categories.find((c) => c.id === risk.category_id)?.name,
+      owner:
+        db.users.find((u) => u.id === risk.owner_id)?.full_name ??
+        risk.owner_name,
+      status: risk.status,
+      likelihood: risk.inherent_likelihood,
+      impact: risk.inherent_impact,
+      inherentScore: risk.inherent_score,
+      residualScore: risk.residual_score,
+      level: risk.risk_level,
+      treatmentStatus: plan?.status,
+      treatmentProgress: plan?.progress,
+      kris: db.kris
+        .filter((k) => k.risk_id === risk.id && k.is_active !== false)
+        .map((k) => ({
+          code: k.code,
+          name: k.name,
+          value: k.current_value,
+          unit: k.unit,
+          status: k.status,
+        })),
+    };
+  });
+
+/**
+ * Last quarter's board snapshot, taken before the newest risk was logged,
+ * while the top risk scored higher, the second had another owner and the
+ * third was still being analysed, so diffing it against a fresh snapshot
+ * shows movement.
+ */
+const buildSnapshots = (
+  db: Pick<DemoDatabase, "risks" | "categories" | "users" | "treatments" | "kris">
+): DemoRegisterSnapshot[] => {
+  const now = new Date();
+  const quarterEnd = new Date(
+    now.getFullYear(),
+    Math.floor(now.getMonth() / 3) * 3,
+    0,
+    18
+  );
+  const quarter = Math.floor(quarterEnd.getMonth() / 3) + 1;
+  const risks = freezeRegister(db).slice(0, -1);
+  const [top, second, third] = risks;
+  if (top?.likelihood && top.impact) {
+    top.likelihood = Math.min(top.likelihood + 1, 5);
+    top.inherentScore = top.likelihood * top.impact;
+    top.level = toLevel(top.inherentScore);
+  }
+  if (second) {
+    second.owner =
+      db.users.find((u) => u.full_name !== second.owner)?.full_name ??
+      second.owner;
+  }
+  if (third && third.status !== "analyzed") {
+    third.status = "analyzed";
+  }
+  return [
+    {
+      id: 1,
+      name: `Q${quarter} ${quarterEnd.getFullYear()} board`,
+      description: "Register as presented to the board risk committee",
+      takenAt: quarterEnd.toISOString(),
+      takenBy: "John Admin",
+      risks,
+    },
+  ];
+};
+
+// ===========================================
+// Seed Builder
+// ===========================================
+
+export const buildDemoSeed = (): DemoDatabase => {
+  const roles = buildRoles();
+  const users = buildUsers(roles);
+  const categories = buildCategories();
+  const risks = buildRisks(categories, users);
+  const assessments = buildAssessments();
+  applyResidualScores(risks, assessments);
+  const { plans, actions } = buildTreatments();
+  const kris = buildKRIs();
+  const snapshotSource = { risks, categories, users, treatments: plans, kris };
+  const appetiteThresholds: AppetiteThresholds = {
+    low: 4,
+    medium: 9,
+    high: 14,
+    critical: 15,
+    approaching_percentage: 80,
+  };
+  const categoryAppetites = buildCategoryAppetites(categories);
+
+  return {
+    version: DEMO_DB_VERSION,
+    users,
+    passwords: Object.fromEntries(
+      users.map((u) => [u.email, DEMO_DEFAULT_PASSWORD])
+    ),
+    roles,
+    permissions: buildPermissions(),
+    categories,
+    risks,
+    assessments,
+    treatments: plans,
+    actions,
+    kris,
+    kriValues: buildKRIValues(kris),
+    controls: buildControls(),
+    riskControls: buildRiskControls(),
+    controlTests: buildControlTests(),
+    riskRelationships: buildRiskRelationships(),
+    bowTies: buildBowTies(),
+    quantifications: buildQuantifications(),
+    incidents: buildIncidents(risks),
+    services: buildServices(),
+    tests: buildTests(),
+    drSites: buildDRSites(),
+    bcpPlan: buildBCPPlan(),
+    drPlan: buildDRPlan(),
+    meetings: [],
+    escalations: [],
+    notifications: buildNotifications(),
+    policies: buildPolicies(),
+    scheduledReports: buildScheduledReports(),
+    reportRuns: buildReportRuns(risks, categories, users),
+    snapshots: buildSnapshots(snapshotSource),
+    auditLogs: buildAuditLogs(),
+    settings: {
+      risk_threshold_low: 4,
+      risk_threshold_medium: 9,
+      risk_threshold_high: 14,
+      notifications: true,
+      autoAssessmentReminderDays: 30,
+      risk_matrix: buildRiskMatrix(),
+      impact_scoring: DEFAULT_IMPACT_SCORING,
+    },
+    appetiteThresholds,
+    categoryAppetites,
+    appetiteChecks: buildAppetiteChecks(
+      risks,
+      categoryAppetites,
+      appetiteThresholds
+    ),
+  };
+};
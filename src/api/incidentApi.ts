@@ -1,11 +1,67 @@
 import axiosInstance, { extractData, buildQueryParams } from "./axiosInstance";
 import {
   BackendIncident,
+  BackendIncidentCategory,
   ApiResponse,
   PaginatedResponse,
   Incident,
 } from "../types";
-import { adaptBackendIncident } from "./adapters";
+import {
+  adaptBackendIncident,
+  mapFrontendIncidentSeverityToBackend,
+  mapFrontendIncidentStatusToBackend,
+} from "./adapters";
+
+export interface IncidentInput {
+  title: string;
+  description?: string;
+  category?: BackendIncidentCategory;
+  severity?: Incident["severity"];
+  riskId?: number;
+  occurredAt?: string;
+  impactDescription?: string;
+  financialImpact?: number;
+  affectedSystems?: string[];
+  rootCause?: string;
+  correctiveActions?: string[];
+  lessonsLearned?: string;
+  assigneeId?: number;
+}
+
+const toRequestData = (
+  data: Partial<IncidentInput>
+): Record<string, unknown> => {
+  const requestData: Record<string, unknown> = {};
+  if (data.title !== undefined) requestData.title = data.title;
+  if (data.description !== undefined)
+    requestData.description = data.description;
+  if (data.category !== undefined) requestData.category = data.category;
+  if (data.severity !== undefined)
+    requestData.severity = mapFrontendIncidentSeverityToBackend(data.severity);
+  if (data.riskId !== undefined) requestData.risk_id = data.riskId || null;
+  if (data.occurredAt !== undefined) requestData.occurred_at = data.occurredAt;
+  if (data.impactDescription !== undefined)
+    requestData.impact_description = data.impactDescription;
+  if (data.financialImpact !== undefined)
+    requestData.financial_impact = data.financialImpact;
+  if (data.affectedSystems !== undefined)
+    requestData.affected_systems = data.affectedSystems;
+  if (data.rootCause !== undefined) requestData.root_cause = data.rootCause;
+  if (data.correctiveActions !== undefined)
+    requestData.corrective_actions = data.correctiveActions;
+  if (data.lessonsLearned !== undefined)
+    requestData.lessons_learned = data.lessonsLearned;
+  if (data.assigneeId !== undefined)
+    requestData.assigned_to = data.assigneeId || null;
+  return requestData;
+};
+
+const toRequestError = (error: unknown): Error => {
+  const err = error as {
+    response?: { data?: { error?: { message?: string } } };
+  };
+  return new Error(err.response?.data?.error?.message || "Request failed");
+};
 
 const incidentApi = {
     async getAll(filters?: Record<string, any>): Promise<Incident[]> {
@@ -50,6 +106,69 @@ const incidentApi = {
       return null;
     }
   },
+
+  /**
+   * Log a new incident (always starts in "open")
+   */
+  async create(data: IncidentInput): Promise<Incident> {
+    try {
+      const response = await axiosInstance.post<ApiResponse<BackendIncident>>(
+        "/incidents",
+        toRequestData(data)
+      );
+      return adaptBackendIncident(extractData(response));
+    } catch (error: unknown) {
+      throw toRequestError(error);
+    }
+  },
+
+  /**
+   * Update incident details, root cause and lessons learned
+   */
+  async update(
+    id: number | string,
+    data: Partial<IncidentInput>
+  ): Promise<Incident> {
+    try {
+      const response = await axiosInstance.put<ApiResponse<BackendIncident>>(
+        `/incidents/${id}`,
+        toRequestData(data)
+      );
+      return adaptBackendIncident(extractData(response));
+    } catch (error: unknown) {
+      throw toRequestError(error);
+    }
+  },
+
+  /**
+   * Move an incident to the next lifecycle status.
+   * The backend stamps the matching *_at timestamp.
+   */
+  async changeStatus(
+    id: number | string,
+    status: Incident["status"]
+  ): Promise<Incident> {
+    try {
+      const response = await axiosInstance.patch<ApiResponse<BackendIncident>>(
+        `/incidents/${id}/status`,
+        { status: mapFrontendIncidentStatusToBackend(status) }
+      );
+      return adaptBackendIncident(extractData(response));
+    } catch (error: unknown) {
+      throw toRequestError(error);
+    }
+  },
+
+  /**
+   * Delete incident
+   */
+  async delete(id: number | string): Promise<void> {
+    try {
+      await axiosInstance.delete(`/incidents/${id}`);
+    } catch (error: unknown) {
+      throw toRequestError(error);
+    }
+  },
 };
 
 export default incidentApi;
\ No newline at end of file
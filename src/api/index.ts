@@ -3,12 +3,14 @@ export { default as committeeApi } from "./committeeApi";
  * API Module Exports
  *
  * ⚠️ PRODUCTION MODE - All data comes from Backend only
- * No mock data or demo mode
+ * Demo mode (VITE_DEMO_MODE=true) swaps the axios adapter for an in-browser
+ * fake backend seeded from mockData.ts; the modules below are unchanged.
  */
 
 // Axios instance and helpers
 export { default as axiosInstance } from "./axiosInstance";
 export {
+  DEMO_MODE,
   clearAuthData,
   saveAuthTokens,
   getAccessToken,
@@ -30,6 +32,10 @@ export { default as reportApi } from "./reportApi";
 export { default as userApi } from "./userApi";
 export { default as kriApi } from "./kriApi";
 export { default as incidentApi } from "./incidentApi";
+export { default as controlApi } from "./controlApi";
+export { default as relationshipApi } from "./relationshipApi";
+export { default as bowTieApi } from "./bowTieApi";
+export { default as quantificationApi } from "./quantificationApi";
 export { default as notificationApi } from "./notificationApi";
 export { default as riskAppetiteApi } from "./riskAppetiteApi";
 export { default as policyDocumentApi } from "./policyDocumentApi";
\ No newline at end of file
@@ -1,6 +1,62 @@
 import axiosInstance, { extractData, buildQueryParams } from "./axiosInstance";
-import { BackendKRI, ApiResponse, PaginatedResponse, KRI } from "../types";
-import { adaptBackendKRI } from "./adapters";
+import {
+  BackendKRI,
+  BackendKRIFrequency,
+  BackendKRIValue,
+  ApiResponse,
+  PaginatedResponse,
+  KRI,
+  KRIMeasurement,
+} from "../types";
+import { adaptBackendKRI, adaptBackendKRIValue } from "./adapters";
+
+export interface KRIInput {
+  metricName: string;
+  description?: string;
+  riskId?: number;
+  targetValue?: number;
+  thresholdYellow?: number;
+  thresholdRed?: number;
+  isHigherBetter?: boolean;
+  measurementFrequency?: BackendKRIFrequency;
+  nextMeasurementDate?: string;
+  unit?: string;
+  formatType?: KRI["formatType"];
+  ownerId?: number;
+  notes?: string;
+}
+
+const toRequestData = (data: Partial<KRIInput>): Record<string, unknown> => {
+  const requestData: Record<string, unknown> = {};
+  if (data.metricName !== undefined) requestData.name = data.metricName;
+  if (data.description !== undefined)
+    requestData.description = data.description;
+  if (data.riskId !== undefined) requestData.risk_id = data.riskId || null;
+  if (data.targetValue !== undefined)
+    requestData.target_value = data.targetValue;
+  if (data.thresholdYellow !== undefined)
+    requestData.threshold_yellow = data.thresholdYellow;
+  if (data.thresholdRed !== undefined)
+    requestData.threshold_red = data.thresholdRed;
+  if (data.isHigherBetter !== undefined)
+    requestData.is_higher_better = data.isHigherBetter;
+  if (data.measurementFrequency !== undefined)
+    requestData.measurement_frequency = data.measurementFrequency;
+  if (data.nextMeasurementDate !== undefined)
+    requestData.next_measurement_date = data.nextMeasurementDate || null;
+  if (data.unit !== undefined) requestData.unit = data.unit;
+  if (data.formatType !== undefined) requestData.format_type = data.formatType;
+  if (data.ownerId !== undefined) requestData.owner_id = data.ownerId || null;
+  if (data.notes !== undefined) requestData.notes = data.notes;
+  return requestData;
+};
+
+const toRequestError = (error: unknown): Error => {
+  const err = error as {
+    response?: { data?: { error?: { message?: string } } };
+  };
+  return new Error(err.response?.data?.error?.message || "Request failed");
+};
 
 const kriApi = {
     async getAll(filters?: Record<string, any>): Promise<KRI[]> {
@@ -64,6 +120,85 @@ const kriApi = {
       return null;
     }
   },
+
+  /**
+   * Measurement history, oldest first
+   */
+  async getValues(id: number | string): Promise<KRIMeasurement[]> {
+    try {
+      const response = await axiosInstance.get<
+        ApiResponse<BackendKRIValue[]>
+      >(`/kris/${id}/values`);
+
+      const data = extractData(response);
+      return (data || [])
+        .map(adaptBackendKRIValue)
+        .sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+    } catch (error) {
+      console.error(`Error fetching KRI ${id} values:`, error);
+      return [];
+    }
+  },
+
+  /**
+   * Create a new KRI
+   */
+  async create(data: KRIInput): Promise<KRI> {
+    try {
+      const response = await axiosInstance.post<ApiResponse<BackendKRI>>(
+        "/kris",
+        toRequestData(data)
+      );
+      return adaptBackendKRI(extractData(response));
+    } catch (error: unknown) {
+      throw toRequestError(error);
+    }
+  },
+
+  /**
+   * Update KRI definition (thresholds, frequency, owner...)
+   */
+  async update(id: number | string, data: Partial<KRIInput>): Promise<KRI> {
+    try {
+      const response = await axiosInstance.put<ApiResponse<BackendKRI>>(
+        `/kris/${id}`,
+        toRequestData(data)
+      );
+      return adaptBackendKRI(extractData(response));
+    } catch (error: unknown) {
+      throw toRequestError(error);
+    }
+  },
+
+  /**
+   * Retire a KRI - it keeps its history but is no longer measured
+   */
+  async retire(id: number | string): Promise<KRI> {
+    try {
+      const response = await axiosInstance.put<ApiResponse<BackendKRI>>(
+        `/kris/${id}`,
+        { is_active: false }
+      );
+      return adaptBackendKRI(extractData(response));
+    } catch (error: unknown) {
+      throw toRequestError(error);
+    }
+  },
+
+  /**
+   * Bring a retired KRI back into measurement
+   */
+  async reactivate(id: number | string): Promise<KRI> {
+    try {
+      const response = await axiosInstance.put<ApiResponse<BackendKRI>>(
+        `/kris/${id}`,
+        { is_active: true }
+      );
+      return adaptBackendKRI(extractData(response));
+    } catch (error: unknown) {
+      throw toRequestError(error);
+    }
+  },
 };
 
 export default kriApi;
\ No newline at end of file
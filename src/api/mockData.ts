@@ -15,6 +15,7 @@ export const mockRisks: Risk[] = [
     category: 'Security',
     owner: 'IT Security Team',
     status: 'Open',
+    lifecycleStatus: 'treating',
     likelihood: 4,
     impact: 5,
     score: 20,
@@ -37,6 +38,7 @@ export const mockRisks: Risk[] = [
     category: 'Operational',
     owner: 'Supply Chain Manager',
     status: 'Monitoring',
+    lifecycleStatus: 'monitoring',
     likelihood: 3,
     impact: 4,
     score: 12,
@@ -56,6 +58,7 @@ export const mockRisks: Risk[] = [
     category: 'Compliance',
     owner: 'Legal & Compliance',
     status: 'Open',
+    lifecycleStatus: 'analyzing',
     likelihood: 2,
     impact: 5,
     score: 10,
@@ -74,6 +77,7 @@ export const mockRisks: Risk[] = [
     category: 'Financial',
     owner: 'CFO Office',
     status: 'Monitoring',
+    lifecycleStatus: 'monitoring',
     likelihood: 4,
     impact: 4,
     score: 16,
@@ -94,6 +98,7 @@ export const mockRisks: Risk[] = [
     category: 'Operational',
     owner: 'HR Department',
     status: 'Open',
+    lifecycleStatus: 'analyzing',
     likelihood: 3,
     impact: 3,
     score: 9,
@@ -112,6 +117,7 @@ export const mockRisks: Risk[] = [
     category: 'Technology',
     owner: 'IT Operations',
     status: 'Open',
+    lifecycleStatus: 'analyzed',
     likelihood: 4,
     impact: 3,
     score: 12,
@@ -131,6 +137,7 @@ export const mockRisks: Risk[] = [
     category: 'Reputational',
     owner: 'Communications Team',
     status: 'Monitoring',
+    lifecycleStatus: 'monitoring',
     likelihood: 3,
     impact: 4,
     score: 12,
@@ -153,6 +160,7 @@ export const mockRisks: Risk[] = [
     category: 'Environmental',
     owner: 'Facilities Management',
     status: 'Open',
+    lifecycleStatus: 'identified',
     likelihood: 2,
     impact: 4,
     score: 8,
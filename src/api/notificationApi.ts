@@ -12,6 +12,7 @@ export type NotificationType =
   | "risk_escalation"
   | "appetite_exceeded"
   | "treatment_due"
+  | "control_test_overdue"
   | "assessment_required"
   | "system_alert"
   | "committee_decision"
@@ -0,0 +1,112 @@
+/**
+ * Quantification API
+ *
+ * FAIR-style inputs for a risk: how often a loss event happens per year
+ * and how much each event costs, each as a PERT or lognormal range. The
+ * backend only stores the inputs; the Monte Carlo simulation runs in the
+ * browser (see utils/monteCarlo.ts).
+ */
+
+import axiosInstance, { extractData } from "./axiosInstance";
+import {
+  BackendLossRange,
+  BackendRiskQuantification,
+  ApiResponse,
+  LossRange,
+  RiskQuantification,
+} from "../types";
+import { adaptBackendRiskQuantification } from "./adapters";
+
+export interface QuantificationInput {
+  frequency: LossRange;
+  magnitude: LossRange;
+  currency: string;
+  notes?: string;
+}
+
+const toRangeRequestData = (range: LossRange): BackendLossRange => ({
+  distribution: range.distribution,
+  min: range.min,
+  most_likely: range.distribution === "pert" ? range.mostLikely : undefined,
+  max: range.max,
+});
+
+const toRequestError = (error: unknown): Error => {
+  const err = error as {
+    response?: { data?: { error?: { message?: string } } };
+  };
+  return new Error(err.response?.data?.error?.message || "Request failed");
+};
+
+const quantificationApi = {
+  /**
+   * Every quantified risk, for the portfolio roll-up
+   */
+  async getAll(): Promise<RiskQuantification[]> {
+    try {
+      const response = await axiosInstance.get<
+        ApiResponse<BackendRiskQuantification[]>
+      >("/quantifications");
+
+      const data = extractData(response);
+      return (data || []).map(adaptBackendRiskQuantification);
+    } catch (error) {
+      console.error("Error fetching quantifications:", error);
+      return [];
+    }
+  },
+
+  /**
+   * Inputs for one risk, or null when it has not been quantified
+   */
+  async getByRiskId(
+    riskId: number | string
+  ): Promise<RiskQuantification | null> {
+    try {
+      const response = await axiosInstance.get<
+        ApiResponse<BackendRiskQuantification | null>
+      >(`/risks/${riskId}/quantification`);
+
+      const data = extractData(response);
+      return data ? adaptBackendRiskQuantification(data) : null;
+    } catch (error) {
+      console.error(`Error fetching quantification for risk ${riskId}:`, error);
+      return null;
+    }
+  },
+
+  /**
+   * Create or replace a risk's quantification inputs
+   */
+  async save(
+    riskId: number | string,
+    data: QuantificationInput
+  ): Promise<RiskQuantification> {
+    try {
+      const response = await axiosInstance.put<
+        ApiResponse<BackendRiskQuantification>
+      >(`/risks/${riskId}/quantification`, {
+        frequency: toRangeRequestData(data.frequency),
+        magnitude: toRangeRequestData(data.magnitude),
+        currency: data.currency,
+        notes: data.notes,
+      });
+      return adaptBackendRiskQuantification(extractData(response));
+    } catch (error: unknown) {
+      throw toRequestError(error);
+    }
+  },
+
+  /**
+   * Drop a risk back to qualitative scoring only
+   */
+  async remove(riskId: number | string): Promise<void> {
+    try {
+      await axiosInstance.delete(`/risks/${riskId}/quantification`);
+    } catch (error: unknown) {
+      throw toRequestError(error);
+    }
+  },
+};
+
+export default quantificationApi;
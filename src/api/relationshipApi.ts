@@ -0,0 +1,110 @@
+/**
+ * Relationship API
+ *
+ * Typed links from a risk to other risks (causes), business services
+ * (affects) and policy documents (governed by). KRIs monitoring a risk are
+ * included in a risk's relationships but are managed from the KRI itself.
+ */
+
+import axiosInstance, { extractData } from "./axiosInstance";
+import {
+  BackendRiskRelationEdge,
+  BackendRiskRelationship,
+  BackendServiceRisk,
+  ApiResponse,
+  RiskRelationship,
+  ServiceRisk,
+} from "../types";
+import {
+  adaptBackendRiskRelationEdge,
+  adaptBackendServiceRisk,
+} from "./adapters";
+
+export interface RelationshipInput {
+  type: BackendRiskRelationship["relation_type"];
+  targetId: number;
+  notes?: string;
+}
+
+const toRequestError = (error: unknown): Error => {
+  const err = error as {
+    response?: { data?: { error?: { message?: string } } };
+  };
+  return new Error(err.response?.data?.error?.message || "Request failed");
+};
+
+const relationshipApi = {
+  /**
+   * Everything a risk is related to, in both directions
+   */
+  async getByRiskId(riskId: number | string): Promise<RiskRelationship[]> {
+    try {
+      const response = await axiosInstance.get<
+        ApiResponse<BackendRiskRelationEdge[]>
+      >(`/risks/${riskId}/relationships`);
+
+      const data = extractData(response);
+      return (data || []).map(adaptBackendRiskRelationEdge);
+    } catch (error) {
+      console.error(`Error fetching relationships for risk ${riskId}:`, error);
+      return [];
+    }
+  },
+
+  /**
+   * Add a relationship from a risk
+   */
+  async create(
+    riskId: number | string,
+    data: RelationshipInput
+  ): Promise<RiskRelationship> {
+    try {
+      const response = await axiosInstance.post<
+        ApiResponse<BackendRiskRelationEdge>
+      >(`/risks/${riskId}/relationships`, {
+        relation_type: data.type,
+        target_id: data.targetId,
+        notes: data.notes,
+      });
+      return adaptBackendRiskRelationEdge(extractData(response));
+    } catch (error: unknown) {
+      throw toRequestError(error);
+    }
+  },
+
+  /**
+   * Remove a relationship. Either risk of a causal link can remove it.
+   */
+  async remove(
+    riskId: number | string,
+    relationshipId: number
+  ): Promise<void> {
+    try {
+      await axiosInstance.delete(
+        `/risks/${riskId}/relationships/${relationshipId}`
+      );
+    } catch (error: unknown) {
+      throw toRequestError(error);
+    }
+  },
+
+  /**
+   * Risks that affect a business service, including risks that lead to
+   * them through a chain of causes
+   */
+  async getServiceRisks(serviceId: number | string): Promise<ServiceRisk[]> {
+    try {
+      const response = await axiosInstance.get<
+        ApiResponse<BackendServiceRisk[]>
+      >(`/bcp/services/${serviceId}/risks`);
+
+      const data = extractData(response);
+      return (data || []).map(adaptBackendServiceRisk);
+    } catch (error) {
+      console.error(`Error fetching risks for service ${serviceId}:`, error);
+      return [];
+    }
+  },
+};
+
+export default relationshipApi;
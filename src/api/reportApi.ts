@@ -28,6 +28,97 @@ export interface ReportFilters {
   format?: "json" | "csv" | "pdf" | "excel";
 }
 
+export type ReportFileFormat = "csv" | "pdf" | "excel";
+
+export interface ReportType {
+  code: string;
+  name: string;
+  description: string;
+}
+
+export interface ScheduledReport {
+  id: number;
+  name: string;
+  type: string;
+  /** Cron expression, see utils/reportSchedule */
+  schedule: string;
+  nextRun: string;
+  recipients: string[];
+  format?: ReportFileFormat;
+  filters?: Partial<ReportFilters>;
+  lastRun?: string;
+}
+
+export interface ScheduledReportInput {
+  name: string;
+  type: string;
+  schedule: string;
+  format?: ReportFileFormat;
+  filters?: Partial<ReportFilters>;
+  recipients: string[];
+}
+
+export interface ReportRun {
+  id: number;
+  type: string;
+  generatedAt: string;
+  generatedBy: string;
+  format: string;
+  downloadUrl: string;
+  /** Filters the report was generated with, as sent to the backend */
+  filters?: Record<string, unknown>;
+  /** Set when the run was produced by a schedule */
+  scheduleId?: number;
+  recipients?: string[];
+}
+
+export interface ReportHistoryFilters {
+  type?: string;
+  startDate?: string;
+  endDate?: string;
+  scheduleId?: number;
+  page?: number;
+  perPage?: number;
+}
+
+export interface SnapshotKRI {
+  code?: string;
+  name: string;
+  value?: number;
+  unit?: string;
+  status: string;
+}
+
+/** A risk as it stood when the snapshot was taken */
+export interface SnapshotRisk {
+  riskId: number;
+  code: string;
+  title: string;
+  category?: string;
+  owner?: string;
+  status: string;
+  likelihood?: number;
+  impact?: number;
+  inherentScore?: number;
+  residualScore?: number;
+  level?: string;
+  /** Status and progress of the risk's latest treatment plan */
+  treatmentStatus?: string;
+  treatmentProgress?: number;
+  kris: SnapshotKRI[];
+}
+
+export interface RegisterSnapshot {
+  id: number;
+  name: string;
+  description?: string;
+  takenAt: string;
+  takenBy: string;
+  riskCount: number;
+  /** Only included when a single snapshot is fetched */
+  risks?: SnapshotRisk[];
+}
+
 export interface ReportData {
   title: string;
   generatedAt: string;
@@ -109,13 +200,11 @@ export const reportApi = {
   /**
    * Get available report types
    */
-  async getReportTypes(): Promise<
-    Array<{ code: string; name: string; description: string }>
-  > {
+  async getReportTypes(): Promise<ReportType[]> {
     try {
-      const response = await axiosInstance.get<
-        ApiResponse<Array<{ code: string; name: string; description: string }>>
-      >("/reports/types");
+      const response = await axiosInstance.get<ApiResponse<ReportType[]>>(
+        "/reports/types"
+      );
       return extractData(response);
     } catch (error) {
       console.error("Failed to fetch report types:", error);
@@ -126,29 +215,11 @@ export const reportApi = {
   /**
    * Get scheduled reports
    */
-  async getScheduledReports(): Promise<
-    Array<{
-      id: number;
-      name: string;
-      type: string;
-      schedule: string;
-      nextRun: string;
-      recipients: string[];
-    }>
-  > {
+  async getScheduledReports(): Promise<ScheduledReport[]> {
     try {
-      const response = await axiosInstance.get<
-        ApiResponse<
-          Array<{
-            id: number;
-            name: string;
-            type: string;
-            schedule: string;
-            nextRun: string;
-            recipients: string[];
-          }>
-        >
-      >("/reports/scheduled");
+      const response = await axiosInstance.get<ApiResponse<ScheduledReport[]>>(
+        "/reports/scheduled"
+      );
       return extractData(response);
     } catch (error) {
       console.error("Failed to fetch scheduled reports:", error);
@@ -159,13 +230,9 @@ export const reportApi = {
   /**
    * Create scheduled report
    */
-  async createScheduledReport(data: {
-    name: string;
-    type: string;
-    schedule: string;
-    filters?: ReportFilters;
-    recipients: string[];
-  }): Promise<{ id: number; name: string }> {
+  async createScheduledReport(
+    data: ScheduledReportInput
+  ): Promise<{ id: number; name: string }> {
     try {
       const response = await axiosInstance.post<
         ApiResponse<{ id: number; name: string }>
@@ -200,42 +267,19 @@ export const reportApi = {
   /**
    * Get report history
    */
-  async getHistory(filters?: {
-    type?: string;
-    startDate?: string;
-    endDate?: string;
-    page?: number;
-    perPage?: number;
-  }): Promise<
-    Array<{
-      id: number;
-      type: string;
-      generatedAt: string;
-      generatedBy: string;
-      format: string;
-      downloadUrl: string;
-    }>
-  > {
+  async getHistory(filters?: ReportHistoryFilters): Promise<ReportRun[]> {
     try {
       const params: Record<string, unknown> = {};
       if (filters?.type) params.type = filters.type;
       if (filters?.startDate) params.start_date = filters.startDate;
       if (filters?.endDate) params.end_date = filters.endDate;
+      if (filters?.scheduleId) params.schedule_id = filters.scheduleId;
       if (filters?.page) params.page = filters.page;
       if (filters?.perPage) params.per_page = filters.perPage;
 
-      const response = await axiosInstance.get<
-        ApiResponse<
-          Array<{
-            id: number;
-            type: string;
-            generatedAt: string;
-            generatedBy: string;
-            format: string;
-            downloadUrl: string;
-          }>
-        >
-      >(`/reports/history${buildQueryParams(params)}`);
+      const response = await axiosInstance.get<ApiResponse<ReportRun[]>>(
+        `/reports/history${buildQueryParams(params)}`
+      );
       return extractData(response);
     } catch (error) {
       console.error("Failed to fetch report history:", error);
@@ -265,6 +309,91 @@ export const reportApi = {
     }
   },
 
+  /**
+   * Delete a generated report and its stored file
+   */
+  async deleteReport(reportId: number): Promise<void> {
+    try {
+      await axiosInstance.delete(`/reports/${reportId}`);
+    } catch (error: unknown) {
+      const err = error as {
+        response?: { data?: { error?: { message?: string } } };
+      };
+      throw new Error(
+        err.response?.data?.error?.message || "Request failed"
+      );
+    }
+  },
+
+  /**
+   * Get register snapshots (without their risks)
+   */
+  async getSnapshots(): Promise<RegisterSnapshot[]> {
+    try {
+      const response = await axiosInstance.get<ApiResponse<RegisterSnapshot[]>>(
+        "/reports/snapshots"
+      );
+      return extractData(response);
+    } catch (error) {
+      console.error("Failed to fetch register snapshots:", error);
+      throw new Error("Request failed");
+    }
+  },
+
+  /**
+   * Get a register snapshot with the frozen risks
+   */
+  async getSnapshot(id: number): Promise<RegisterSnapshot> {
+    try {
+      const response = await axiosInstance.get<ApiResponse<RegisterSnapshot>>(
+        `/reports/snapshots/${id}`
+      );
+      return extractData(response);
+    } catch (error) {
+      console.error("Failed to fetch register snapshot:", error);
+      throw new Error("Request failed");
+    }
+  },
+
+  /**
+   * Freeze the current risk register as a named snapshot
+   */
+  async createSnapshot(data: {
+    name: string;
+    description?: string;
+  }): Promise<RegisterSnapshot> {
+    try {
+      const response = await axiosInstance.post<ApiResponse<RegisterSnapshot>>(
+        "/reports/snapshots",
+        data
+      );
+      return extractData(response);
+    } catch (error: unknown) {
+      const err = error as {
+        response?: { data?: { error?: { message?: string } } };
+      };
+      throw new Error(
+        err.response?.data?.error?.message || "Request failed"
+      );
+    }
+  },
+
+  /**
+   * Delete a register snapshot
+   */
+  async deleteSnapshot(id: number): Promise<void> {
+    try {
+      await axiosInstance.delete(`/reports/snapshots/${id}`);
+    } catch (error: unknown) {
+      const err = error as {
+        response?: { data?: { error?: { message?: string } } };
+      };
+      throw new Error(
+        err.response?.data?.error?.message || "Request failed"
+      );
+    }
+  },
+
   /**
    * Get dashboard summary
    */
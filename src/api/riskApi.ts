@@ -11,8 +11,13 @@ import {
   mapFrontendStatusToBackend,
   mapBackendCategoryToFrontend,
 } from "./adapters";
-import type { Risk } from "@/types";
-import type { RiskCategory, RiskStatus } from "@/utils/constants";
+import type { ApiListResponse, Risk } from "@/types";
+import { BACKEND_RISK_STATUSES } from "@/utils/constants";
+import type {
+  RiskCategory,
+  RiskStatus,
+  BackendRiskStatusType,
+} from "@/utils/constants";
 import type {
   ApiResponse,
   PaginatedResponse,
@@ -26,15 +31,42 @@ import type {
 // Types
 // ===========================================
 
+export type RiskSortField =
+  | "title"
+  | "score"
+  | "category"
+  | "createdAt"
+  | "updatedAt";
+
+export interface RiskSort {
+  field: RiskSortField;
+  order: "asc" | "desc";
+}
+
 export interface RiskFilters {
   status?: RiskStatus;
+  /** Exact lifecycle stage; takes precedence over the summary status */
+  lifecycleStatus?: BackendRiskStatusType;
   category?: RiskCategory;
   owner?: string;
+  /** Backend owner (user) ID */
+  ownerId?: number;
+  level?: "Low" | "Medium" | "High" | "Critical";
+  /** Inclusive bounds on the current (residual, else inherent) score */
+  minScore?: number;
+  maxScore?: number;
+  /** Creation date range, YYYY-MM-DD, both inclusive */
+  createdFrom?: string;
+  createdTo?: string;
+  /** Sort keys in priority order; the backend defaults to newest first */
+  sort?: RiskSort[];
   search?: string;
   page?: number;
   perPage?: number;
 }
 
+export type RiskPage = ApiListResponse<Risk>;
+
 export interface RiskInput {
   title: string;
   description: string;
@@ -58,6 +90,11 @@ const CATEGORY_CODE_TO_ID: Record<string, number> = {
   Security: 8,
 };
 
+const isLifecycleStatus = (
+  status: RiskStatus | BackendRiskStatusType
+): status is BackendRiskStatusType =>
+  (BACKEND_RISK_STATUSES as readonly string[]).includes(status);
+
 let categoryCache: BackendRiskCategory[] | null = null;
 
 const getCachedCategories = async (): Promise<BackendRiskCategory[]> => {
@@ -88,6 +125,76 @@ const resolveCategoryId = async (category: string): Promise<number> => {
   return CATEGORY_CODE_TO_ID[category] || 1;
 };
 
+const SORT_FIELD_TO_BACKEND: Record<RiskSortField, string> = {
+  title: "title",
+  score: "score",
+  category: "category",
+  createdAt: "created_at",
+  updatedAt: "updated_at",
+};
+
+/** Serialize sort keys as `-score,title` (leading dash = descending). */
+const serializeSort = (sort: RiskSort[]): string =>
+  sort
+    .map(
+      ({ field, order }) =>
+        `${order === "desc" ? "-" : ""}${SORT_FIELD_TO_BACKEND[field]}`
+    )
+    .join(",");
+
+const buildRiskParams = async (
+  filters?: RiskFilters
+): Promise<Record<string, unknown>> => {
+  const params: Record<string, unknown> = {};
+
+  if (filters?.lifecycleStatus) {
+    params.status = filters.lifecycleStatus;
+  } else if (filters?.status) {
+    params.status = mapFrontendStatusToBackend(filters.status);
+  }
+  if (filters?.category) {
+    params.category_id = await resolveCategoryId(filters.category);
+  }
+  if (filters?.ownerId) {
+    params.owner_id = filters.ownerId;
+  }
+  if (filters?.level) {
+    params.risk_level = filters.level.toLowerCase();
+  }
+  if (filters?.minScore !== undefined) {
+    params.min_score = filters.minScore;
+  }
+  if (filters?.maxScore !== undefined) {
+    params.max_score = filters.maxScore;
+  }
+  if (filters?.createdFrom) {
+    params.start_date = filters.createdFrom;
+  }
+  if (filters?.createdTo) {
+    params.end_date = filters.createdTo;
+  }
+  if (filters?.sort?.length) {
+    params.sort = serializeSort(filters.sort);
+  }
+  if (filters?.search) {
+    params.search = filters.search;
+  }
+  if (filters?.page) {
+    params.page = filters.page;
+  }
+  if (filters?.perPage) {
+    params.per_page = filters.perPage;
+  }
+  return params;
+};
+
+const toRequestError = (error: unknown): Error => {
+  const err = error as {
+    response?: { data?: { error?: { message?: string } } };
+  };
+  return new Error(err.response?.data?.error?.message || "Request failed");
+};
+
 // ===========================================
 // Risk API
 // ===========================================
@@ -148,24 +255,7 @@ export const riskApi = {
    */
   async getAll(filters?: RiskFilters): Promise<Risk[]> {
     try {
-      const params: Record<string, unknown> = {};
-
-      if (filters?.status) {
-        params.status = mapFrontendStatusToBackend(filters.status);
-      }
-      if (filters?.category) {
-        params.category_id = await resolveCategoryId(filters.category);
-      }
-      if (filters?.search) {
-        params.search = filters.search;
-      }
-      if (filters?.page) {
-        params.page = filters.page;
-      }
-      if (filters?.perPage) {
-        params.per_page = filters.perPage;
-      }
-
+      const params = await buildRiskParams(filters);
       const response = await axiosInstance.get<PaginatedResponse<BackendRisk>>(
         `/risks${buildQueryParams(params)}`
       );
@@ -176,7 +266,32 @@ export const riskApi = {
       return [];
     } catch (error) {
       console.error("Failed to fetch risks:", error);
-      throw new Error("Request failed");
+      throw toRequestError(error);
+    }
+  },
+
+  /**
+   * Get one page of the register, keeping the pagination meta so the
+   * caller can render totals and page controls.
+   */
+  async getPage(filters?: RiskFilters): Promise<RiskPage> {
+    try {
+      const params = await buildRiskParams(filters);
+      const response = await axiosInstance.get<PaginatedResponse<BackendRisk>>(
+        `/risks${buildQueryParams(params)}`
+      );
+      const items = (response.data.data ?? []).map(adaptBackendRisk);
+      const meta = response.data.meta;
+      return {
+        items,
+        total: meta?.total ?? items.length,
+        page: meta?.page ?? filters?.page ?? 1,
+        perPage: meta?.per_page ?? filters?.perPage ?? items.length,
+        totalPages: meta?.total_pages ?? 1,
+      };
+    } catch (error) {
+      console.error("Failed to fetch risks:", error);
+      throw toRequestError(error);
     }
   },
 
@@ -230,7 +345,8 @@ export const riskApi = {
   },
 
   /**
-   * Update existing risk
+   * Update existing risk.
+   * Status is not sent here; lifecycle moves go through changeStatus.
    */
   async update(id: string, data: Partial<RiskInput>): Promise<Risk> {
     try {
@@ -240,9 +356,8 @@ export const riskApi = {
       if (data.title) requestData.title = data.title;
       if (data.description) requestData.description = data.description;
       if (data.category)
-        requestData.category_id = CATEGORY_CODE_TO_ID[data.category];
-      if (data.status)
-        requestData.status = mapFrontendStatusToBackend(data.status);
+        requestData.category_id = await resolveCategoryId(data.category);
+      if (data.ownerId !== undefined) requestData.owner_id = data.ownerId;
 
       const response = await axiosInstance.put<ApiResponse<BackendRisk>>(
         `/risks/${numericId}`,
@@ -291,14 +406,23 @@ export const riskApi = {
   },
 
   /**
-   * Change risk status
+   * Change risk status.
+   * Lifecycle stages are sent as-is; summary statuses are mapped first.
+   * The backend rejects transitions not listed in RISK_LIFECYCLE_TRANSITIONS.
    */
-  async changeStatus(id: string, status: RiskStatus): Promise<Risk> {
+  async changeStatus(
+    id: string,
+    status: RiskStatus | BackendRiskStatusType
+  ): Promise<Risk> {
     try {
       const numericId = parseInt(id.replace(/\D/g, ""), 10);
       const response = await axiosInstance.patch<ApiResponse<BackendRisk>>(
         `/risks/${numericId}/status`,
-        { status: mapFrontendStatusToBackend(status) }
+        {
+          status: isLifecycleStatus(status)
+            ? status
+            : mapFrontendStatusToBackend(status),
+        }
       );
       const result = extractData(response);
       return adaptBackendRisk(result);
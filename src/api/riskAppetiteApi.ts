@@ -31,9 +31,40 @@ export interface RiskEvaluation {
   requires_action: boolean;
   action_type: string | null;
   thresholds: AppetiteThresholds;
+  category_id?: number | null;
+  category_name?: string;
+  /** False when the category has no limits of its own */
+  uses_category_thresholds?: boolean;
   actions_taken?: Array<{ action: string; [key: string]: unknown }>;
 }
 
+/** The board's appetite statement for one risk category */
+export interface CategoryAppetite {
+  category_id: number;
+  category_code: string;
+  category_name: string;
+  statement: string;
+  /** The category's own limits; the global thresholds when uses_default */
+  thresholds: AppetiteThresholds;
+  uses_default: boolean;
+  updated_at?: string;
+}
+
+export interface CategoryAppetiteInput {
+  statement: string;
+  /** null falls back to the global thresholds */
+  thresholds: AppetiteThresholds | null;
+}
+
+export interface CategoryCompliance {
+  category_id: number | null;
+  category_name: string;
+  total: number;
+  within_appetite: number;
+  exceeded_appetite: number;
+  compliance_rate: number;
+}
+
 export interface ExceededRisk {
   id: number;
   risk_code: string;
@@ -45,6 +76,7 @@ export interface ExceededRisk {
   action_type: string | null;
   owner_id: number | null;
   status: string;
+  category_name?: string;
 }
 
 export interface AppetiteSummary {
@@ -54,6 +86,15 @@ export interface AppetiteSummary {
   compliance_rate: number;
   thresholds: AppetiteThresholds;
   last_checked: string;
+  by_category?: CategoryCompliance[];
+}
+
+export interface AppetiteCheckDetail {
+  risk_id: number;
+  risk_code: string;
+  title?: string;
+  level: AppetiteLevel;
+  score: number;
 }
 
 export interface CheckAllResult {
@@ -64,12 +105,22 @@ export interface CheckAllResult {
   critical: number;
   notifications_sent: number;
   escalations_created: number;
-  details: Array<{
-    risk_id: number;
-    risk_code: string;
-    level: AppetiteLevel;
-    score: number;
-  }>;
+  details: AppetiteCheckDetail[];
+  /** ID of the recorded run in the compliance history */
+  run_id?: number;
+}
+
+/** One recorded check-all run, kept as a point on the compliance trend */
+export interface AppetiteCheckRun {
+  id: number;
+  checked_at: string;
+  total_checked: number;
+  within_appetite: number;
+  approaching_limit: number;
+  exceeded: number;
+  critical: number;
+  compliance_rate: number;
+  details: AppetiteCheckDetail[];
 }
 
 // ===========================================
@@ -122,6 +173,29 @@ export const riskAppetiteApi = {
     const res = await axiosInstance.get("/risk-appetite/summary");
     return extractData(res);
   },
+
+  async getHistory(limit?: number): Promise<AppetiteCheckRun[]> {
+    const res = await axiosInstance.get("/risk-appetite/history", {
+      params: limit ? { limit } : undefined,
+    });
+    return extractData(res);
+  },
+
+  async getCategoryAppetites(): Promise<CategoryAppetite[]> {
+    const res = await axiosInstance.get("/risk-appetite/categories");
+    return extractData(res);
+  },
+
+  async updateCategoryAppetite(
+    categoryId: number,
+    data: CategoryAppetiteInput
+  ): Promise<CategoryAppetite> {
+    const res = await axiosInstance.put(
+      `/risk-appetite/categories/${categoryId}`,
+      data
+    );
+    return extractData(res);
+  },
 };
 
 export default riskAppetiteApi;
\ No newline at end of file
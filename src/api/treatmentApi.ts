@@ -20,6 +20,7 @@ import type {
   BackendTreatmentAction,
   BackendTreatmentPlanCreateRequest,
   BackendTreatmentActionCreateRequest,
+  BackendTreatmentStatus,
 } from "@/types/backend";
 
 // ===========================================
@@ -33,6 +34,7 @@ export interface TreatmentInput {
   description?: string;
   targetDate?: string;
   estimatedBudget?: number;
+  actualCost?: number;
 }
 
 export interface ActionInput {
@@ -175,8 +177,13 @@ export const treatmentApi = {
       if (data.approach)
         requestData.strategy = mapFrontendApproachToBackend(data.approach);
       if (data.title) requestData.title = data.title;
-      if (data.description) requestData.description = data.description;
+      if (data.description !== undefined)
+        requestData.description = data.description;
       if (data.targetDate) requestData.target_date = data.targetDate;
+      if (data.estimatedBudget !== undefined)
+        requestData.estimated_budget = data.estimatedBudget;
+      if (data.actualCost !== undefined)
+        requestData.actual_cost = data.actualCost;
 
       const response = await axiosInstance.put<
         ApiResponse<BackendTreatmentPlan>
@@ -362,6 +369,32 @@ export const treatmentApi = {
     }
   },
 
+  /**
+   * Move a plan through its approval flow. Approval has its own endpoint;
+   * every other step is a status update.
+   */
+  async changeStatus(
+    id: string,
+    status: BackendTreatmentStatus
+  ): Promise<Treatment> {
+    if (status === "approved") return this.approve(id);
+    try {
+      const numericId = parseInt(id.replace(/\D/g, ""), 10);
+      const response = await axiosInstance.put<
+        ApiResponse<BackendTreatmentPlan>
+      >(`/treatments/${numericId}`, { status });
+      const result = extractData(response);
+      return adaptBackendTreatment(result);
+    } catch (error: unknown) {
+      const err = error as {
+        response?: { data?: { error?: { message?: string } } };
+      };
+      throw new Error(
+        err.response?.data?.error?.message || "Request failed"
+      );
+    }
+  },
+
   /**
    * Get treatment progress
    */
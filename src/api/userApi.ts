@@ -9,6 +9,9 @@ import axiosInstance, { extractData, buildQueryParams } from "./axiosInstance";
 import { adaptBackendUser, adaptBackendAuditLog } from "./adapters";
 import type { User, AuditLog } from "@/types";
 import type { UserRole } from "@/utils/constants";
+import { getStoredRiskMatrix, storeSystemSettings } from "@/utils/constants";
+import { normalizeRiskMatrix } from "@/utils/riskMatrix";
+import { normalizeImpactScoring } from "@/utils/impactScoring";
 import type {
   ApiResponse,
   PaginatedResponse,
@@ -41,6 +44,9 @@ export interface UserFilters {
   perPage?: number;
 }
 
+/** Page size for entity-scoped audit trails, which are read in full */
+const ENTITY_AUDIT_PAGE_SIZE = 100;
+
 // ===========================================
 // User API
 // ===========================================
@@ -320,7 +326,8 @@ export const userApi = {
   },
 
   /**
-   * Get audit logs by entity
+   * Get audit logs by entity.
+   * Reads every page: the lifecycle history is rebuilt from the full trail.
    */
   async getAuditLogsByEntity(
     entityType: string,
@@ -328,14 +335,21 @@ export const userApi = {
   ): Promise<AuditLog[]> {
     try {
       const numericId = parseInt(entityId.replace(/\D/g, ""), 10);
-      const response = await axiosInstance.get<
-        PaginatedResponse<BackendAuditLog>
-      >(`/users/audit-logs?entity_type=${entityType}&entity_id=${numericId}`);
-
-      if (response.data.success && response.data.data) {
-        return response.data.data.map(adaptBackendAuditLog);
-      }
-      return [];
+      const logs: AuditLog[] = [];
+      let page = 1;
+      let totalPages = 1;
+      do {
+        const response = await axiosInstance.get<
+          PaginatedResponse<BackendAuditLog>
+        >(
+          `/users/audit-logs?entity_type=${entityType}&entity_id=${numericId}&page=${page}&per_page=${ENTITY_AUDIT_PAGE_SIZE}`
+        );
+        if (!response.data.success || !response.data.data) break;
+        logs.push(...response.data.data.map(adaptBackendAuditLog));
+        totalPages = response.data.meta?.total_pages ?? 1;
+        page += 1;
+      } while (page <= totalPages);
+      return logs;
     } catch (error) {
       console.error("Failed to fetch audit logs:", error);
       return [];
@@ -352,8 +366,10 @@ export const userApi = {
       >("/settings");
       const data = extractData(response) || {};
 
+      const riskMatrix = normalizeRiskMatrix(data.risk_matrix ?? data.riskMatrix);
+
       // Transform backend format to frontend expected format
-      return {
+      const settings = {
         riskMatrixThresholds: {
           low: (data.risk_threshold_low as number) || 5,
           medium: (data.risk_threshold_medium as number) || 12,
@@ -368,7 +384,14 @@ export const userApi = {
           (data.autoAssessmentReminder as number) ??
           (data.reviewCycleDays as number) ??
           30,
+        riskMatrix,
+        impactScoring: normalizeImpactScoring(
+          data.impact_scoring ?? data.impactScoring,
+          riskMatrix.size
+        ),
       };
+      storeSystemSettings(settings);
+      return settings;
     } catch (error) {
       console.error("Failed to fetch system settings:", error);
       // Return default settings if API fails
@@ -376,6 +399,11 @@ export const userApi = {
         riskMatrixThresholds: { low: 5, medium: 12, high: 20 },
         notifications: true,
         autoAssessmentReminder: 30,
+        riskMatrix: getStoredRiskMatrix(),
+        impactScoring: normalizeImpactScoring(
+          null,
+          getStoredRiskMatrix().size
+        ),
       };
     }
   },
@@ -387,9 +415,14 @@ export const userApi = {
     try {
       // Backend accepts the nested shape directly
       await axiosInstance.put("/settings", settings);
-    } catch (error) {
+    } catch (error: unknown) {
       console.error("Failed to update system settings:", error);
-      throw new Error("Request failed");
+      const err = error as {
+        response?: { data?: { error?: { message?: string } } };
+      };
+      throw new Error(
+        err.response?.data?.error?.message || "Request failed"
+      );
     }
   },
 };
@@ -23,7 +23,7 @@ import { useToast } from "@/hooks/use-toast";
 import { Shield, User, Loader2, Lock, Mail } from "lucide-react";
 import type { UserRole } from "@/utils/constants";
 import { getAuthStats } from "@/api/authApi";
-import { userApi } from "@/api";
+import { DEMO_MODE, userApi } from "@/api";
 import type { BackendRole } from "@/types/backend";
 import { useI18n } from "@/i18n";
 
@@ -208,6 +208,11 @@ export const Login: React.FC = () => {
                       strings.actions.signIn
                     )}
                   </Button>
+                  {DEMO_MODE && (
+                    <p className="text-xs text-muted-foreground">
+                      {strings.auth.demoHint}
+                    </p>
+                  )}
                 </form>
               </TabsContent>
 
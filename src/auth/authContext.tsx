@@ -8,6 +8,7 @@ import React, {
 import type { User } from "@/types";
 import type { UserRole } from "@/utils/constants";
 import { getEffectivePermissions, PERMISSIONS } from "@/utils/constants";
+import { useQueryClient } from "@tanstack/react-query";
 import { authApi } from "@/api";
 
 interface AuthContextType {
@@ -40,6 +41,7 @@ export const useAuth = () => {
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
   children,
 }) => {
+  const queryClient = useQueryClient();
   const [user, setUser] = useState<User | null>(null);
   const [token, setToken] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -125,7 +127,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
     setUser(null);
     localStorage.removeItem("auth_token");
     localStorage.removeItem("auth_user");
-  }, []);
+    // Drop cached data so the next user never sees the previous session's data
+    queryClient.clear();
+  }, [queryClient]);
 
   const can = useCallback(
     (permission: keyof (typeof PERMISSIONS)["Admin"]) => {
@@ -165,6 +169,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
         canViewSettings: ["settings.view"],
         canViewAudit: ["audit.view"],
         canManageUsers: ["users.view", "users.create", "users.update"],
+        canApprove: ["assessments.approve", "treatments.approve"],
       };
 
       // Use backend permissions when available.
@@ -0,0 +1,128 @@
+/**
+ * ServiceRisksDialog - Every risk that touches a business service.
+ *
+ * Direct risks are linked to the service themselves; indirect ones lead to
+ * a direct risk through one or more "causes" links, shown as a chain.
+ */
+import React from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { StatusBadge } from "@/components/common/StatusBadge";
+import { useServiceRisks } from "@/hooks/queries";
+import type { BCPService, ServiceRisk } from "@/types";
+import { useI18n } from "@/i18n";
+import { ArrowRight, Loader2 } from "lucide-react";
+
+interface ServiceRisksDialogProps {
+  service: BCPService | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ServiceRisksDialog: React.FC<ServiceRisksDialogProps> = ({
+  service,
+  onOpenChange,
+}) => {
+  const { strings } = useI18n();
+  const t = strings.riskRelationships;
+  const { data: serviceRisks = [], isLoading } = useServiceRisks(service?.id);
+
+  const levelLabel = (level: string) =>
+    (strings.risks.levels as Record<string, string> | undefined)?.[level] ??
+    level;
+
+  const direct = serviceRisks.filter((item) => item.direct);
+  const indirect = serviceRisks.filter((item) => !item.direct);
+
+  const renderRisk = (item: ServiceRisk) => (
+    <li
+      key={item.risk.id}
+      className="flex items-start justify-between gap-3 rounded-md border p-3"
+    >
+      <div className="min-w-0">
+        <Link
+          to={`/risks/${item.risk.id}`}
+          className="font-medium hover:underline"
+          onClick={() => onOpenChange(false)}
+        >
+          <span className="font-mono text-xs text-muted-foreground">
+            {item.risk.id}
+          </span>{" "}
+          {item.risk.title}
+        </Link>
+        {item.via.length > 0 && (
+          <div className="mt-1 flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+            {t.via}
+            {item.via.map((code) => (
+              <span key={code} className="flex items-center gap-1">
+                <ArrowRight className="h-3 w-3 rtl:rotate-180" />
+                <span className="font-mono">{code}</span>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+      <StatusBadge status={item.risk.level}>
+        {levelLabel(item.risk.level)}
+      </StatusBadge>
+    </li>
+  );
+
+  return (
+    <Dialog open={!!service} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>
+            {t.impactedTitle.replace("{name}", service?.name ?? "")}
+          </DialogTitle>
+          <DialogDescription>{t.impactedDesc}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground py-4">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            {strings.common.loading}
+          </div>
+        ) : serviceRisks.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">
+            {t.noImpactedRisks}
+          </p>
+        ) : (
+          <div className="max-h-[60vh] space-y-4 overflow-y-auto">
+            {direct.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">
+                  {t.directRisks.replace("{count}", String(direct.length))}
+                </h4>
+                <ul className="space-y-2">{direct.map(renderRisk)}</ul>
+              </div>
+            )}
+            {indirect.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">
+                  {t.indirectRisks.replace("{count}", String(indirect.length))}
+                </h4>
+                <ul className="space-y-2">{indirect.map(renderRisk)}</ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {strings.actions.back}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ServiceRisksDialog;
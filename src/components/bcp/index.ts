@@ -0,0 +1,4 @@
+/**
+ * BCP Components Export
+ */
+export { default as ServiceRisksDialog } from "./ServiceRisksDialog";
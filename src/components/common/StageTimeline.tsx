@@ -7,10 +7,12 @@ import { useI18n } from '@/i18n';
 
 interface StageTimelineProps {
   stagesHistory: StageHistory[];
+  /** Stage the risk is in now; when omitted it is inferred from the history */
+  currentStage?: RiskStage | null;
   className?: string;
 }
 
-export const StageTimeline: React.FC<StageTimelineProps> = ({ stagesHistory, className }) => {
+export const StageTimeline: React.FC<StageTimelineProps> = ({ stagesHistory, currentStage, className }) => {
   const { strings, isRTL } = useI18n();
   const completedStages = stagesHistory.map(s => s.stage);
 
@@ -18,6 +20,10 @@ export const StageTimeline: React.FC<StageTimelineProps> = ({ stagesHistory, cla
     (strings.risks.stages as Record<string, string> | undefined)?.[stage] ?? stage;
 
   const getStageStatus = (stage: RiskStage): 'completed' | 'current' | 'pending' => {
+    if (currentStage !== undefined) {
+      if (stage === currentStage) return 'current';
+      return completedStages.includes(stage) ? 'completed' : 'pending';
+    }
     const stageIndex = RISK_STAGES.indexOf(stage);
     const lastCompletedIndex = RISK_STAGES.findIndex(
       s => !completedStages.includes(s)
@@ -28,15 +34,21 @@ export const StageTimeline: React.FC<StageTimelineProps> = ({ stagesHistory, cla
     return 'pending';
   };
 
-  const getStageData = (stage: RiskStage) => {
-    return stagesHistory.find(s => s.stage === stage);
+  const getStageEntries = (stage: RiskStage) => {
+    return stagesHistory.filter(s => s.stage === stage);
+  };
+
+  const formatDate = (date: string) => {
+    const parsed = new Date(date);
+    return Number.isNaN(parsed.getTime()) ? date : parsed.toLocaleDateString();
   };
 
   return (
     <div className={cn('space-y-4', className)}>
       {RISK_STAGES.map((stage, index) => {
         const status = getStageStatus(stage);
-        const data = getStageData(stage);
+        const entries = getStageEntries(stage);
+        const latest = entries[entries.length - 1];
 
         return (
           <div key={stage} className={cn('flex gap-4', isRTL && 'flex-row-reverse')}>
@@ -79,16 +91,21 @@ export const StageTimeline: React.FC<StageTimelineProps> = ({ stagesHistory, cla
                 >
                   {getStageLabel(stage)}
                 </h4>
-                {data && (
-                  <span className="text-xs text-muted-foreground">{data.date}</span>
+                {latest && (
+                  <span className="text-xs text-muted-foreground">{formatDate(latest.date)}</span>
                 )}
               </div>
-              {data ? (
-                <div className="mt-1">
-                  <p className="text-sm text-muted-foreground">{data.notes}</p>
-                  <p className="text-xs text-muted-foreground mt-1">
-                    {strings.risks.details.byPrefix} {data.updatedBy}
-                  </p>
+              {entries.length > 0 ? (
+                <div className="mt-1 space-y-2">
+                  {entries.map((entry, entryIndex) => (
+                    <div key={`${entry.date}-${entryIndex}`}>
+                      <p className="text-sm text-muted-foreground">{entry.notes}</p>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {entries.length > 1 && `${formatDate(entry.date)} · `}
+                        {strings.risks.details.byPrefix} {entry.updatedBy}
+                      </p>
+                    </div>
+                  ))}
                 </div>
               ) : (
                 <p className="text-sm text-muted-foreground mt-1">{strings.risks.details.pending}</p>
@@ -19,6 +19,29 @@ export const StatusBadge: React.FC<StatusBadgeProps> = ({ status, className, chi
     Open: 'bg-primary/10 text-primary border-primary/30',
     Closed: 'bg-muted text-muted-foreground border-border',
     Monitoring: 'bg-chart-2/10 text-chart-2 border-chart-2/30',
+    // Risk lifecycle stages
+    identified: 'bg-primary/10 text-primary border-primary/30',
+    analyzing: 'bg-chart-4/10 text-chart-4 border-chart-4/30',
+    analyzed: 'bg-chart-4/10 text-chart-4 border-chart-4/30',
+    treating: 'bg-status-warning/10 text-status-warning border-status-warning/30',
+    treated: 'bg-status-success/10 text-status-success border-status-success/30',
+    monitoring: 'bg-chart-2/10 text-chart-2 border-chart-2/30',
+    accepted: 'bg-chart-5/10 text-chart-5 border-chart-5/30',
+    closed: 'bg-muted text-muted-foreground border-border',
+    // Approval states
+    draft: 'bg-muted text-muted-foreground border-border',
+    pending: 'bg-status-warning/10 text-status-warning border-status-warning/30',
+    approved: 'bg-status-success/10 text-status-success border-status-success/30',
+    rejected: 'bg-status-critical/10 text-status-critical border-status-critical/30',
+    // Treatment plan states
+    in_progress: 'bg-primary/10 text-primary border-primary/30',
+    completed: 'bg-status-success/10 text-status-success border-status-success/30',
+    cancelled: 'bg-muted text-muted-foreground border-border',
+    // Control effectiveness
+    effective: 'bg-status-success/10 text-status-success border-status-success/30',
+    partially_effective: 'bg-status-warning/10 text-status-warning border-status-warning/30',
+    ineffective: 'bg-status-critical/10 text-status-critical border-status-critical/30',
+    not_assessed: 'bg-muted text-muted-foreground border-border',
   };
 
   const statusClass = statusClasses[status as keyof typeof statusClasses] || 'bg-muted text-muted-foreground';
@@ -0,0 +1,26 @@
+/**
+ * ControlEffectivenessBadge - Coloured badge for a control effectiveness rating.
+ */
+import React from "react";
+import { StatusBadge } from "@/components/common/StatusBadge";
+import type { BackendControlEffectiveness } from "@/types/backend";
+import { useI18n } from "@/i18n";
+
+interface ControlEffectivenessBadgeProps {
+  rating: BackendControlEffectiveness;
+  className?: string;
+}
+
+const ControlEffectivenessBadge: React.FC<ControlEffectivenessBadgeProps> = ({
+  rating,
+  className,
+}) => {
+  const { strings } = useI18n();
+  return (
+    <StatusBadge status={rating} className={className}>
+      {strings.controlsPage.effectiveness[rating] ?? rating}
+    </StatusBadge>
+  );
+};
+
+export default ControlEffectivenessBadge;
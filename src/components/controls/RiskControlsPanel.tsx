@@ -0,0 +1,440 @@
+/**
+ * RiskControlsPanel - Controls linked to a risk and their effectiveness.
+ *
+ * Each link is rated twice: whether the control is designed to address the
+ * risk, and whether it actually operates as designed. The overall rating is
+ * the weaker of the two.
+ */
+import React, { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import ControlEffectivenessBadge from "./ControlEffectivenessBadge";
+import {
+  useControls,
+  useLinkControl,
+  useRiskControls,
+  useUnlinkControl,
+  useUpdateRiskControl,
+} from "@/hooks/queries";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/auth/authContext";
+import { extractNumericId } from "@/api";
+import type { RiskControl } from "@/types";
+import type { BackendControlEffectiveness } from "@/types/backend";
+import {
+  BACKEND_CONTROL_EFFECTIVENESS,
+  getControlEffectiveness,
+} from "@/utils/constants";
+import { useI18n } from "@/i18n";
+import { Loader2, Pencil, Plus, Unlink } from "lucide-react";
+
+interface RiskControlsPanelProps {
+  riskId: string;
+}
+
+interface LinkDraft {
+  controlId: string;
+  designEffectiveness: BackendControlEffectiveness;
+  operatingEffectiveness: BackendControlEffectiveness;
+  notes: string;
+}
+
+const emptyDraft = (): LinkDraft => ({
+  controlId: "",
+  designEffectiveness: "not_assessed",
+  operatingEffectiveness: "not_assessed",
+  notes: "",
+});
+
+const controlBackendId = (link: RiskControl) =>
+  link.control._backendId ?? extractNumericId(link.control.id);
+
+const RiskControlsPanel: React.FC<RiskControlsPanelProps> = ({ riskId }) => {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const { strings, isRTL } = useI18n();
+  const t = strings.controlsPage;
+
+  const { data: links = [], isLoading } = useRiskControls(riskId);
+  const { data: library = [] } = useControls({ enabled: can("canEdit") });
+  const linkControl = useLinkControl();
+  const updateLink = useUpdateRiskControl();
+  const unlinkControl = useUnlinkControl();
+
+  // null = closed; a link = re-rating that link; "new" = linking a control
+  const [editing, setEditing] = useState<RiskControl | "new" | null>(null);
+  const [draft, setDraft] = useState<LinkDraft>(emptyDraft());
+  const [toUnlink, setToUnlink] = useState<RiskControl | null>(null);
+
+  const available = useMemo(() => {
+    const linked = new Set(links.map((link) => link.control.id));
+    return library.filter((c) => c.isActive !== false && !linked.has(c.id));
+  }, [library, links]);
+
+  const effectiveCount = links.filter(
+    (link) =>
+      getControlEffectiveness(
+        link.designEffectiveness,
+        link.operatingEffectiveness
+      ) === "effective"
+  ).length;
+
+  const openLink = () => {
+    setDraft(emptyDraft());
+    setEditing("new");
+  };
+
+  const openRate = (link: RiskControl) => {
+    setDraft({
+      controlId: String(controlBackendId(link)),
+      designEffectiveness: link.designEffectiveness,
+      operatingEffectiveness: link.operatingEffectiveness,
+      notes: link.notes ?? "",
+    });
+    setEditing(link);
+  };
+
+  const showError = (error: unknown) =>
+    toast({
+      title: t.saveFailed,
+      description:
+        error instanceof Error ? error.message : strings.common.pleaseTryAgain,
+      variant: "destructive",
+    });
+
+  const save = async () => {
+    if (!draft.controlId) return;
+    const data = {
+      designEffectiveness: draft.designEffectiveness,
+      operatingEffectiveness: draft.operatingEffectiveness,
+      notes: draft.notes.trim(),
+    };
+    try {
+      if (editing === "new") {
+        await linkControl.mutateAsync({
+          riskId,
+          controlId: Number(draft.controlId),
+          data,
+        });
+        toast({ title: t.linked });
+      } else {
+        await updateLink.mutateAsync({
+          riskId,
+          controlId: Number(draft.controlId),
+          data,
+        });
+        toast({ title: t.rated });
+      }
+      setEditing(null);
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const confirmUnlink = async () => {
+    if (!toUnlink) return;
+    try {
+      await unlinkControl.mutateAsync({
+        riskId,
+        controlId: controlBackendId(toUnlink),
+      });
+      toast({ title: t.unlinked });
+    } catch (error) {
+      showError(error);
+    } finally {
+      setToUnlink(null);
+    }
+  };
+
+  const isSaving = linkControl.isPending || updateLink.isPending;
+  const iconClass = isRTL ? "ml-2 h-4 w-4" : "mr-2 h-4 w-4";
+
+  const ratingSelect = (
+    label: string,
+    value: BackendControlEffectiveness,
+    onChange: (value: BackendControlEffectiveness) => void
+  ) => (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Select
+        value={value}
+        onValueChange={(v) => onChange(v as BackendControlEffectiveness)}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {BACKEND_CONTROL_EFFECTIVENESS.map((rating) => (
+            <SelectItem key={rating} value={rating}>
+              {t.effectiveness[rating]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h4 className="text-sm font-medium">{t.riskControlsTitle}</h4>
+          <p className="text-xs text-muted-foreground">{t.riskControlsDesc}</p>
+        </div>
+        {can("canEdit") && (
+          <Button size="sm" onClick={openLink}>
+            <Plus className={iconClass} />
+            {t.linkControl}
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground py-4">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          {strings.common.loading}
+        </div>
+      ) : links.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-4">{t.noRiskControls}</p>
+      ) : (
+        <>
+          <p className="text-sm text-muted-foreground">
+            {t.effectiveSummary
+              .replace("{effective}", String(effectiveCount))
+              .replace("{total}", String(links.length))}
+          </p>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t.colName}</TableHead>
+                  <TableHead>{t.colType}</TableHead>
+                  <TableHead>{t.colDesign}</TableHead>
+                  <TableHead>{t.colOperating}</TableHead>
+                  <TableHead>{t.colOverall}</TableHead>
+                  {(can("canEdit") || can("canDelete")) && (
+                    <TableHead className="text-end">{t.colActions}</TableHead>
+                  )}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {links.map((link) => (
+                  <TableRow key={link.id}>
+                    <TableCell>
+                      <div className="font-medium">
+                        <span className="font-mono text-xs text-muted-foreground">
+                          {link.control.code}
+                        </span>{" "}
+                        {link.control.name}
+                      </div>
+                      {link.notes && (
+                        <div className="text-xs text-muted-foreground">
+                          {link.notes}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {t.types[link.control.type] ?? link.control.type}
+                      <div className="text-xs text-muted-foreground">
+                        {t.automations[link.control.automation] ??
+                          link.control.automation}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <ControlEffectivenessBadge
+                        rating={link.designEffectiveness}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <ControlEffectivenessBadge
+                        rating={link.operatingEffectiveness}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <ControlEffectivenessBadge
+                        rating={getControlEffectiveness(
+                          link.designEffectiveness,
+                          link.operatingEffectiveness
+                        )}
+                      />
+                    </TableCell>
+                    {(can("canEdit") || can("canDelete")) && (
+                      <TableCell>
+                        <div className="flex items-center justify-end gap-1">
+                          {can("canEdit") && (
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              title={t.rateTitle}
+                              onClick={() => openRate(link)}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {can("canDelete") && (
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              title={t.unlink}
+                              onClick={() => setToUnlink(link)}
+                            >
+                              <Unlink className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </>
+      )}
+
+      {can("canViewFollowUp") && (
+        <Button variant="link" className="px-0" asChild>
+          <Link to="/controls">{t.openLibrary}</Link>
+        </Button>
+      )}
+
+      {/* Link / rate dialog */}
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {editing === "new" ? t.linkTitle : t.rateTitle}
+            </DialogTitle>
+            <DialogDescription>
+              {editing === "new" || !editing
+                ? t.linkDesc
+                : t.rateDesc.replace("{name}", editing.control.name)}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {editing === "new" && (
+              <div className="space-y-2">
+                <Label>{t.controlLabel}</Label>
+                {available.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    {t.noAvailableControls}
+                  </p>
+                ) : (
+                  <Select
+                    value={draft.controlId}
+                    onValueChange={(v) => setDraft({ ...draft, controlId: v })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder={t.selectControl} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {available.map((control) => (
+                        <SelectItem
+                          key={control.id}
+                          value={String(
+                            control._backendId ?? extractNumericId(control.id)
+                          )}
+                        >
+                          {control.code} - {control.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            )}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {ratingSelect(t.designLabel, draft.designEffectiveness, (v) =>
+                setDraft({ ...draft, designEffectiveness: v })
+              )}
+              {ratingSelect(t.operatingLabel, draft.operatingEffectiveness, (v) =>
+                setDraft({ ...draft, operatingEffectiveness: v })
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>{t.notesLabel}</Label>
+              <Textarea
+                value={draft.notes}
+                onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                rows={2}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setEditing(null)}
+              disabled={isSaving}
+            >
+              {strings.actions.cancel}
+            </Button>
+            <Button onClick={save} disabled={isSaving || !draft.controlId}>
+              {isSaving && <Loader2 className={`${iconClass} animate-spin`} />}
+              {strings.actions.save}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Unlink confirmation */}
+      <AlertDialog
+        open={!!toUnlink}
+        onOpenChange={(open) => !open && setToUnlink(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t.unlinkTitle}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t.unlinkDesc.replace("{name}", toUnlink?.control.name ?? "")}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{strings.actions.cancel}</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmUnlink}>
+              {t.unlink}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default RiskControlsPanel;
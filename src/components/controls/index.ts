@@ -0,0 +1,5 @@
+/**
+ * Control Components Export
+ */
+export { default as ControlEffectivenessBadge } from "./ControlEffectivenessBadge";
+export { default as RiskControlsPanel } from "./RiskControlsPanel";
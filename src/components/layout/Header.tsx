@@ -25,11 +25,13 @@ const routeTitles: Record<
   "/risks/dashboard": (t) => t.page.risksDashboard,
   "/risks": (t) => t.page.riskRegister,
   "/risks/new": (t) => t.page.newRisk,
+  "/risks/import": (t) => t.page.importRisks,
   "/risks/followup": (t) => t.page.followUp,
   "/analysis/dashboard": (t) => t.page.analysisDashboard,
   "/analysis/matrix": (t) => t.page.riskMatrix,
   "/assessments": (t) => t.page.assessments,
   "/assessments/new": (t) => t.page.newAssessment,
+  "/assessments/review": (t) => t.page.assessmentReview,
   "/treatments": (t) => t.page.treatmentPlans,
   "/bcp/dashboard": (t) => t.page.bcpDashboard,
   "/bcp/plans": (t) => t.page.bcpPlans,
@@ -43,6 +45,8 @@ const routeTitles: Record<
   "/reports/executive": (t) => t.page.reportsExecutive,
   "/reports/standard": (t) => t.page.reportsStandard,
   "/reports/custom": (t) => t.page.reportsCustom,
+  "/reports/scheduled": (t) => t.page.reportsScheduled,
+  "/reports/snapshots": (t) => t.page.reportsSnapshots,
   "/settings/roles": (t) => t.page.roleManagement,
   "/settings/permissions": (t) => t.page.permissions,
   "/settings/system": (t) => t.page.systemSettings,
@@ -51,6 +55,11 @@ const routeTitles: Record<
   "/notifications": (t) => t.nav.notifications,
   "/committee": (t) => t.nav.committee,
   "/risk-appetite": (t) => t.nav.riskAppetite,
+  "/kris": (t) => t.nav.kris,
+  "/incidents": (t) => t.nav.incidents,
+  "/controls": (t) => t.nav.controlLibrary,
+  "/controls/tests": (t) => t.nav.controlTests,
+  "/controls/dashboard": (t) => t.nav.controlHealth,
 };
 
 export const Header: React.FC<HeaderProps> = ({ onMenuClick }) => {
@@ -8,6 +8,7 @@ import {
   Grid3X3,
   AlertTriangle,
   ClipboardCheck,
+  ListChecks,
   Shield,
   Server,
   FileText,
@@ -21,6 +22,9 @@ import {
   Users,
   Bell,
   Target,
+  Gauge,
+  Siren,
+  ShieldCheck,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
@@ -64,12 +68,51 @@ const navItems: NavItem[] = [
     icon: Activity,
     permission: "canViewFollowUp",
   },
+  {
+    titleKey: "kris",
+    href: "/kris",
+    icon: Gauge,
+    permission: "canViewFollowUp",
+  },
+  {
+    titleKey: "incidents",
+    href: "/incidents",
+    icon: Siren,
+    permission: "canViewFollowUp",
+  },
+  {
+    titleKey: "controls",
+    icon: ShieldCheck,
+    children: [
+      {
+        titleKey: "controlLibrary",
+        href: "/controls",
+        permission: "canViewFollowUp",
+      },
+      {
+        titleKey: "controlTests",
+        href: "/controls/tests",
+        permission: "canViewFollowUp",
+      },
+      {
+        titleKey: "controlHealth",
+        href: "/controls/dashboard",
+        permission: "canViewFollowUp",
+      },
+    ],
+  },
   {
     titleKey: "assessments",
     href: "/assessments/new",
     icon: ClipboardCheck,
     permission: "canCreate",
   },
+  {
+    titleKey: "assessmentReview",
+    href: "/assessments/review",
+    icon: ListChecks,
+    permission: "canApprove",
+  },
   {
     titleKey: "treatments",
     href: "/treatments",
@@ -153,6 +196,16 @@ const navItems: NavItem[] = [
         href: "/reports/register",
         permission: "canViewReports",
       },
+      {
+        titleKey: "reportsScheduled",
+        href: "/reports/scheduled",
+        permission: "canViewReports",
+      },
+      {
+        titleKey: "reportsSnapshots",
+        href: "/reports/snapshots",
+        permission: "canViewReports",
+      },
     ],
   },
   {
@@ -51,6 +51,8 @@ const getTypeIcon = (type: string) => {
       return "🔴";
     case "treatment_due":
       return "📋";
+    case "control_test_overdue":
+      return "🧪";
     case "system_alert":
       return "🔔";
     case "committee_decision":
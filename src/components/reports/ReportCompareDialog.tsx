@@ -0,0 +1,254 @@
+/**
+ * ReportCompareDialog - Side-by-side diff of two stored report runs.
+ *
+ * Both files are downloaded and read back as tables, then matched row by
+ * row on their identifier column.
+ */
+import React, { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { reportApi } from "@/api";
+import type { ReportRun } from "@/api/reportApi";
+import { readReportTable } from "@/utils/reportFiles";
+import {
+  diffRecords,
+  guessRecordKey,
+  tableToRecords,
+  type FlatRecord,
+  type RecordDiff,
+} from "@/utils/recordDiff";
+import { useI18n } from "@/i18n";
+import { Loader2 } from "lucide-react";
+
+interface ReportCompareDialogProps {
+  /** The two runs to compare, in any order */
+  runs: [ReportRun, ReportRun] | null;
+  onOpenChange: (open: boolean) => void;
+  formatDateTime: (value: string) => string;
+}
+
+interface Comparison {
+  older: ReportRun;
+  newer: ReportRun;
+  olderRows: number;
+  newerRows: number;
+  diff: RecordDiff;
+}
+
+// Timestamps change on every save and would mark every row as changed.
+const IGNORED_FIELDS = ["updated_at", "updatedAt", "last_updated"];
+
+const recordLabel = (record: FlatRecord, key: string) => {
+  const name = record.title ?? record.name ?? record.Title ?? "";
+  return name ? `${record[key]} — ${name}` : record[key];
+};
+
+const loadRecords = async (run: ReportRun) =>
+  tableToRecords(await readReportTable(run, await reportApi.download(run.id)));
+
+export const ReportCompareDialog: React.FC<ReportCompareDialogProps> = ({
+  runs,
+  onOpenChange,
+  formatDateTime,
+}) => {
+  const { strings } = useI18n();
+  const t = strings.reports.history;
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!runs) return;
+    let cancelled = false;
+    const [older, newer] = [...runs].sort((a, b) =>
+      a.generatedAt.localeCompare(b.generatedAt)
+    );
+    setComparison(null);
+    setError(null);
+
+    const run = async () => {
+      try {
+        const [before, after] = await Promise.all([
+          loadRecords(older),
+          loadRecords(newer),
+        ]);
+        const key = guessRecordKey([...before, ...after]) ?? "id";
+        if (cancelled) return;
+        setComparison({
+          older,
+          newer,
+          olderRows: before.length,
+          newerRows: after.length,
+          diff: diffRecords(before, after, { key, ignore: IGNORED_FIELDS }),
+        });
+      } catch (err) {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : t.compareFailed);
+      }
+    };
+    void run();
+    return () => {
+      cancelled = true;
+    };
+  }, [runs, t.compareFailed]);
+
+  const diff = comparison?.diff;
+  const hasDifferences =
+    !!diff &&
+    diff.added.length + diff.removed.length + diff.changed.length > 0;
+
+  return (
+    <Dialog open={!!runs} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t.compareTitle}</DialogTitle>
+          {diff && (
+            <DialogDescription>
+              {t.compareDesc.replace("{key}", diff.key)}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {error ? (
+          <div className="rounded-lg border border-status-critical/30 bg-status-critical/5 p-4 text-sm">
+            <p className="font-medium">{t.compareFailed}</p>
+            <p className="text-muted-foreground">{error}</p>
+          </div>
+        ) : !comparison ? (
+          <div className="flex items-center gap-2 py-8 justify-center text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            {t.compareLoading}
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 gap-4">
+              {[
+                { run: comparison.older, rows: comparison.olderRows },
+                { run: comparison.newer, rows: comparison.newerRows },
+              ].map(({ run, rows }) => (
+                <div
+                  key={run.id}
+                  className="rounded-lg border border-border bg-muted/30 p-3 text-sm"
+                >
+                  <p className="font-medium">
+                    {formatDateTime(run.generatedAt)}
+                  </p>
+                  <p className="text-muted-foreground">
+                    {run.generatedBy} •{" "}
+                    {t.rowCount.replace("{count}", String(rows))}
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Badge className="bg-status-success/10 text-status-success border-status-success/30">
+                {t.added}: {diff.added.length}
+              </Badge>
+              <Badge className="bg-status-critical/10 text-status-critical border-status-critical/30">
+                {t.removed}: {diff.removed.length}
+              </Badge>
+              <Badge className="bg-status-warning/10 text-status-warning border-status-warning/30">
+                {t.changed}: {diff.changed.length}
+              </Badge>
+              <Badge variant="outline">
+                {t.unchanged}: {diff.unchanged}
+              </Badge>
+            </div>
+
+            {!hasDifferences && (
+              <p className="text-sm text-muted-foreground">
+                {t.noDifferences}
+              </p>
+            )}
+
+            {diff.added.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-status-success">
+                  {t.added}
+                </p>
+                <ul className="text-sm space-y-1">
+                  {diff.added.map((record) => (
+                    <li key={record[diff.key]}>
+                      {recordLabel(record, diff.key)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {diff.removed.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-status-critical">
+                  {t.removed}
+                </p>
+                <ul className="text-sm space-y-1">
+                  {diff.removed.map((record) => (
+                    <li key={record[diff.key]} className="line-through">
+                      {recordLabel(record, diff.key)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {diff.changed.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-status-warning">
+                  {t.changed}
+                </p>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{diff.key}</TableHead>
+                      <TableHead>{t.field}</TableHead>
+                      <TableHead>{t.before}</TableHead>
+                      <TableHead>{t.after}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {diff.changed.flatMap((change) =>
+                      change.changes.map((field, index) => (
+                        <TableRow key={`${change.key}-${field.field}`}>
+                          <TableCell className="font-medium align-top">
+                            {index === 0
+                              ? recordLabel(change.after, diff.key)
+                              : ""}
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">
+                            {field.field}
+                          </TableCell>
+                          <TableCell className="text-status-critical break-all">
+                            {field.before || "—"}
+                          </TableCell>
+                          <TableCell className="text-status-success break-all">
+                            {field.after || "—"}
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReportCompareDialog;
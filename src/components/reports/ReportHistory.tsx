@@ -0,0 +1,339 @@
+/**
+ * ReportHistory - Every generated report, with its filters and stored file.
+ *
+ * Runs can be downloaded again, deleted, or picked two at a time for a
+ * row-level comparison.
+ */
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { EmptyState } from "@/components/common/EmptyState";
+import { reportApi } from "@/api";
+import type { ReportRun } from "@/api/reportApi";
+import {
+  useDeleteReport,
+  useReportHistory,
+  useReportTypes,
+} from "@/hooks/queries";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/auth/authContext";
+import { downloadBlob, getReportFileName } from "@/utils/reportFiles";
+import { useI18n } from "@/i18n";
+import { CalendarClock, Download, GitCompare, Loader2, Trash2 } from "lucide-react";
+import { ReportCompareDialog } from "./ReportCompareDialog";
+
+const ALL = "__all__";
+
+export const ReportHistory: React.FC = () => {
+  const { strings, isRTL } = useI18n();
+  const t = strings.reports.history;
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const locale = isRTL ? "ar-SA" : "en-US";
+
+  const [typeFilter, setTypeFilter] = useState(ALL);
+  const [selected, setSelected] = useState<ReportRun[]>([]);
+  const [comparing, setComparing] = useState<[ReportRun, ReportRun] | null>(
+    null
+  );
+  const [toDelete, setToDelete] = useState<ReportRun | null>(null);
+  const [downloadingId, setDownloadingId] = useState<number | null>(null);
+
+  const typesQuery = useReportTypes();
+  const historyQuery = useReportHistory(
+    typeFilter === ALL ? {} : { type: typeFilter }
+  );
+  const deleteReport = useDeleteReport();
+
+  const runs = historyQuery.data ?? [];
+  const reportTypes = typesQuery.data ?? [];
+  const typeName = (code: string) =>
+    reportTypes.find((type) => type.code === code)?.name ?? code;
+  const formatDateTime = (value: string) =>
+    new Date(value).toLocaleString(locale, {
+      dateStyle: "medium",
+      timeStyle: "short",
+    });
+  const filterLabel = (key: string) =>
+    (t.filterLabels as Record<string, string>)[key] ?? key;
+
+  const toggleSelected = (run: ReportRun, checked: boolean) =>
+    setSelected((prev) =>
+      checked
+        ? [...prev.filter((r) => r.id !== run.id), run].slice(-2)
+        : prev.filter((r) => r.id !== run.id)
+    );
+
+  const canCompare =
+    selected.length === 2 && selected[0].type === selected[1].type;
+
+  const download = async (run: ReportRun) => {
+    setDownloadingId(run.id);
+    try {
+      const blob = await reportApi.download(run.id);
+      downloadBlob(blob, getReportFileName(run, blob));
+    } catch (error) {
+      toast({
+        title: t.downloadFailed,
+        description:
+          error instanceof Error ? error.message : strings.common.pleaseTryAgain,
+        variant: "destructive",
+      });
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!toDelete) return;
+    try {
+      await deleteReport.mutateAsync(toDelete.id);
+      setSelected((prev) => prev.filter((r) => r.id !== toDelete.id));
+      toast({ title: t.deleted });
+    } catch (error) {
+      toast({
+        title: t.deleteFailed,
+        description:
+          error instanceof Error ? error.message : strings.common.pleaseTryAgain,
+        variant: "destructive",
+      });
+    } finally {
+      setToDelete(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+        <p className="text-sm text-muted-foreground max-w-2xl">{t.subtitle}</p>
+        <Select
+          value={typeFilter}
+          onValueChange={(value) => {
+            setTypeFilter(value);
+            setSelected([]);
+          }}
+        >
+          <SelectTrigger className="w-full md:w-[220px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>{t.allTypes}</SelectItem>
+            {reportTypes.map((type) => (
+              <SelectItem key={type.code} value={type.code}>
+                {type.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {can("canExport") && (
+        <div className="flex flex-wrap items-center gap-3 rounded-lg border border-border bg-muted/30 px-4 py-2 text-sm">
+          <span className="text-muted-foreground">
+            {selected.length === 2 && !canCompare
+              ? t.differentTypes
+              : selected.length > 0
+              ? t.selectedCount.replace("{count}", String(selected.length))
+              : t.compareHint}
+          </span>
+          <div className="flex gap-2 ms-auto">
+            {selected.length > 0 && (
+              <Button size="sm" variant="ghost" onClick={() => setSelected([])}>
+                {t.clearSelection}
+              </Button>
+            )}
+            <Button
+              size="sm"
+              disabled={!canCompare}
+              onClick={() =>
+                setComparing([selected[0], selected[1]])
+              }
+            >
+              <GitCompare className="h-4 w-4 me-2" />
+              {t.compare}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {historyQuery.isLoading ? (
+        <div className="flex items-center justify-center gap-2 py-8 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          {strings.common.loading}
+        </div>
+      ) : historyQuery.isError ? (
+        <EmptyState
+          title={t.loadFailed}
+          description={strings.common.pleaseTryAgain}
+        />
+      ) : runs.length === 0 ? (
+        <EmptyState title={t.empty} />
+      ) : (
+        <div className="rounded-lg border border-border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {can("canExport") && <TableHead className="w-10" />}
+                <TableHead>{t.colType}</TableHead>
+                <TableHead>{t.colFilters}</TableHead>
+                <TableHead>{t.colGeneratedBy}</TableHead>
+                <TableHead>{t.colGeneratedAt}</TableHead>
+                <TableHead>{t.colFormat}</TableHead>
+                <TableHead className="text-end">
+                  {strings.table.actions}
+                </TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {runs.map((run) => {
+                const filters = Object.entries(run.filters ?? {}).filter(
+                  ([, value]) => value !== undefined && value !== null && value !== ""
+                );
+                return (
+                  <TableRow key={run.id}>
+                    {can("canExport") && (
+                      <TableCell>
+                        <Checkbox
+                          aria-label={t.selectForCompare}
+                          checked={selected.some((r) => r.id === run.id)}
+                          onCheckedChange={(checked) =>
+                            toggleSelected(run, checked === true)
+                          }
+                        />
+                      </TableCell>
+                    )}
+                    <TableCell className="font-medium">
+                      {typeName(run.type)}
+                    </TableCell>
+                    <TableCell>
+                      {filters.length === 0 ? (
+                        <span className="text-xs text-muted-foreground">
+                          {t.noFilters}
+                        </span>
+                      ) : (
+                        <div className="flex flex-wrap gap-1">
+                          {filters.map(([key, value]) => (
+                            <Badge
+                              key={key}
+                              variant="outline"
+                              className="font-normal"
+                            >
+                              {filterLabel(key)}: {String(value)}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        {run.generatedBy}
+                        {run.scheduleId && (
+                          <Badge variant="secondary" className="font-normal">
+                            <CalendarClock className="h-3 w-3 me-1" />
+                            {t.scheduled}
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {formatDateTime(run.generatedAt)}
+                    </TableCell>
+                    <TableCell className="uppercase text-xs">
+                      {run.format}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        {can("canExport") && (
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            aria-label={t.download}
+                            disabled={downloadingId === run.id}
+                            onClick={() => download(run)}
+                          >
+                            {downloadingId === run.id ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <Download className="h-4 w-4" />
+                            )}
+                          </Button>
+                        )}
+                        {can("canDelete") && (
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            aria-label={strings.actions.delete}
+                            onClick={() => setToDelete(run)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <ReportCompareDialog
+        runs={comparing}
+        onOpenChange={(open) => !open && setComparing(null)}
+        formatDateTime={formatDateTime}
+      />
+
+      <AlertDialog
+        open={!!toDelete}
+        onOpenChange={(open) => !open && setToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t.deleteTitle}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {toDelete &&
+                t.deleteDesc
+                  .replace("{type}", typeName(toDelete.type))
+                  .replace("{date}", formatDateTime(toDelete.generatedAt))}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{strings.actions.cancel}</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>
+              {strings.actions.delete}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default ReportHistory;
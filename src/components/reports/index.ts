@@ -0,0 +1,5 @@
+/**
+ * Report Components Export
+ */
+export { default as ReportHistory } from "./ReportHistory";
+export { default as ReportCompareDialog } from "./ReportCompareDialog";
@@ -0,0 +1,321 @@
+/**
+ * AppetiteTrendChart - Appetite levels across recorded check runs.
+ *
+ * Every "check all" run is a point on the chart. Clicking a point compares
+ * that run with the one before it and lists the risks that crossed the
+ * limit in either direction.
+ */
+import React, { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { AppetiteCheckRun, AppetiteLevel } from "@/api/riskAppetiteApi";
+import {
+  diffAppetiteRuns,
+  type AppetiteLevelChange,
+} from "@/utils/appetiteTrend";
+import { cn } from "@/lib/utils";
+import { useI18n } from "@/i18n";
+import {
+  ArrowRight,
+  CheckCircle,
+  LineChart as LineChartIcon,
+  XCircle,
+} from "lucide-react";
+
+interface AppetiteTrendChartProps {
+  runs: AppetiteCheckRun[];
+}
+
+const LEVEL_LINES: Array<{ key: AppetiteLevel; color: string }> = [
+  { key: "within_appetite", color: "hsl(var(--status-success))" },
+  { key: "approaching_limit", color: "hsl(var(--status-warning))" },
+  { key: "exceeded", color: "hsl(var(--status-high))" },
+  { key: "critical", color: "hsl(var(--status-critical))" },
+];
+
+const AppetiteTrendChart: React.FC<AppetiteTrendChartProps> = ({ runs }) => {
+  const { strings, isRTL } = useI18n();
+  const t = strings.riskAppetitePage;
+  const locale = isRTL ? "ar-SA" : "en-US";
+
+  const sorted = useMemo(
+    () => [...runs].sort((a, b) => a.checked_at.localeCompare(b.checked_at)),
+    [runs]
+  );
+  const [fromId, setFromId] = useState<number>();
+  const [toId, setToId] = useState<number>();
+
+  const levelLabels: Record<AppetiteLevel, string> = {
+    within_appetite: t.levelWithin,
+    approaching_limit: t.levelApproaching,
+    exceeded: t.levelExceeded,
+    critical: t.levelCritical,
+  };
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleDateString(locale, { dateStyle: "medium" });
+  const formatDateTime = (value: string) =>
+    new Date(value).toLocaleString(locale, {
+      dateStyle: "medium",
+      timeStyle: "short",
+    });
+
+  // Default to the two most recent runs
+  const toRun =
+    sorted.find((run) => run.id === toId) ?? sorted[sorted.length - 1];
+  const fromRun =
+    sorted.find((run) => run.id === fromId) ?? sorted[sorted.length - 2];
+
+  const diff = useMemo(
+    () => (fromRun && toRun ? diffAppetiteRuns(fromRun, toRun) : null),
+    [fromRun, toRun]
+  );
+
+  // Keyed on the run ID so two runs on the same day stay separate points
+  const runLabel = (id: number) => {
+    const run = sorted.find((r) => r.id === id);
+    return run ? formatDate(run.checked_at) : "";
+  };
+  const chartData = sorted.map((run) => ({
+    id: run.id,
+    within_appetite: run.within_appetite,
+    approaching_limit: run.approaching_limit,
+    exceeded: run.exceeded,
+    critical: run.critical,
+  }));
+
+  const handleChartClick = (state: { activeTooltipIndex?: number } | null) => {
+    const index = state?.activeTooltipIndex;
+    if (index === undefined || index < 1 || !sorted[index]) return;
+    setFromId(sorted[index - 1].id);
+    setToId(sorted[index].id);
+  };
+
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  const rateDelta =
+    first && last && first !== last
+      ? Math.round((last.compliance_rate - first.compliance_rate) * 10) / 10
+      : null;
+
+  const runSelect = (
+    value: AppetiteCheckRun | undefined,
+    onChange: (id: number) => void,
+    label: string
+  ) => (
+    <div className="space-y-2 flex-1">
+      <Label>{label}</Label>
+      <Select
+        value={value ? String(value.id) : undefined}
+        onValueChange={(id) => onChange(Number(id))}
+      >
+        <SelectTrigger>
+          <SelectValue placeholder={t.trendSelectRun} />
+        </SelectTrigger>
+        <SelectContent>
+          {sorted.map((run) => (
+            <SelectItem key={run.id} value={String(run.id)}>
+              {formatDateTime(run.checked_at)} — {run.compliance_rate}%
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  const levelText = (level?: AppetiteLevel) =>
+    level ? levelLabels[level] ?? level : t.trendNotChecked;
+
+  const changeList = (
+    title: string,
+    changes: AppetiteLevelChange[],
+    icon: React.ReactNode,
+    className?: string
+  ) => (
+    <div className="space-y-2">
+      <h4 className={cn("text-sm font-medium flex items-center gap-2", className)}>
+        {icon}
+        {title}
+        <Badge variant="outline">{changes.length}</Badge>
+      </h4>
+      {changes.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{t.trendNoneInGroup}</p>
+      ) : (
+        <ul className="space-y-1">
+          {changes.map((change) => (
+            <li
+              key={change.riskId}
+              className="flex flex-wrap items-center gap-2 text-sm"
+            >
+              <Link
+                to={`/risks/${change.riskId}`}
+                className="font-mono text-primary hover:underline"
+              >
+                {change.code}
+              </Link>
+              <span className="truncate max-w-[240px]">{change.title}</span>
+              <span className="text-muted-foreground flex items-center gap-1">
+                {levelText(change.from)}
+                {change.scoreBefore !== undefined && ` (${change.scoreBefore})`}
+                <ArrowRight className="h-3 w-3 rtl:rotate-180" />
+                {levelText(change.to)}
+                {change.scoreAfter !== undefined && ` (${change.scoreAfter})`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <LineChartIcon className="h-5 w-5" />
+          {t.trendTitle}
+        </CardTitle>
+        <CardDescription>{t.trendDesc}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {sorted.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            {t.trendEmpty}
+          </p>
+        ) : (
+          <>
+            {rateDelta !== null && (
+              <p className="text-sm">
+                {(rateDelta >= 0 ? t.trendImproved : t.trendWorsened)
+                  .replace("{delta}", String(Math.abs(rateDelta)))
+                  .replace("{from}", formatDate(first.checked_at))
+                  .replace("{rate}", String(last.compliance_rate))}
+              </p>
+            )}
+            <div className="h-[300px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart
+                  data={chartData}
+                  onClick={handleChartClick}
+                  className="cursor-pointer"
+                >
+                  <CartesianGrid
+                    strokeDasharray="3 3"
+                    stroke="hsl(var(--border))"
+                    vertical={false}
+                  />
+                  <XAxis
+                    dataKey="id"
+                    tickFormatter={runLabel}
+                    stroke="hsl(var(--muted-foreground))"
+                    fontSize={12}
+                    reversed={isRTL}
+                  />
+                  <YAxis
+                    allowDecimals={false}
+                    stroke="hsl(var(--muted-foreground))"
+                    fontSize={12}
+                    orientation={isRTL ? "right" : "left"}
+                  />
+                  <Tooltip
+                    labelFormatter={(id: number) => {
+                      const run = sorted.find((r) => r.id === id);
+                      return run
+                        ? `${formatDateTime(run.checked_at)} — ${run.compliance_rate}%`
+                        : "";
+                    }}
+                    contentStyle={{
+                      backgroundColor: "hsl(var(--card))",
+                      border: "1px solid hsl(var(--border))",
+                      borderRadius: "8px",
+                    }}
+                  />
+                  <Legend />
+                  {toRun && (
+                    <ReferenceLine
+                      x={toRun.id}
+                      stroke="hsl(var(--primary))"
+                      strokeDasharray="4 4"
+                    />
+                  )}
+                  {LEVEL_LINES.map((line) => (
+                    <Line
+                      key={line.key}
+                      type="monotone"
+                      dataKey={line.key}
+                      name={levelLabels[line.key]}
+                      stroke={line.color}
+                      strokeWidth={2}
+                      dot={{ r: 3 }}
+                      activeDot={{ r: 5 }}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            <p className="text-xs text-muted-foreground">{t.trendClickHint}</p>
+
+            {sorted.length > 1 && (
+              <div className="space-y-4 rounded-lg border border-border p-4">
+                <h4 className="text-sm font-medium">{t.trendDrillTitle}</h4>
+                <div className="flex flex-col gap-4 md:flex-row">
+                  {runSelect(fromRun, setFromId, t.trendFromRun)}
+                  {runSelect(toRun, setToId, t.trendToRun)}
+                </div>
+                {diff && fromRun && toRun && (
+                  <div className="grid gap-6 md:grid-cols-3">
+                    {changeList(
+                      t.trendCrossedOut,
+                      diff.crossedOut,
+                      <XCircle className="h-4 w-4" />,
+                      "text-status-critical"
+                    )}
+                    {changeList(
+                      t.trendCrossedIn,
+                      diff.crossedIn,
+                      <CheckCircle className="h-4 w-4" />,
+                      "text-status-success"
+                    )}
+                    {changeList(
+                      t.trendOtherChanges,
+                      diff.otherChanges,
+                      <ArrowRight className="h-4 w-4 rtl:rotate-180" />
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AppetiteTrendChart;
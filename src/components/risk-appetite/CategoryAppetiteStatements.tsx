@@ -0,0 +1,322 @@
+/**
+ * CategoryAppetiteStatements - The board's appetite statement per category.
+ *
+ * Each category carries a narrative and, optionally, its own limits; the
+ * compliance rate next to it is measured against those limits.
+ */
+import React, { useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { riskAppetiteApi } from "@/api";
+import type {
+  AppetiteThresholds,
+  CategoryAppetite,
+  CategoryCompliance,
+} from "@/api/riskAppetiteApi";
+import { cn } from "@/lib/utils";
+import { useI18n } from "@/i18n";
+import { Edit, Layers, Loader2 } from "lucide-react";
+
+interface CategoryAppetiteStatementsProps {
+  categories: CategoryAppetite[];
+  compliance: CategoryCompliance[];
+  onSaved: () => void;
+}
+
+const THRESHOLD_FIELDS: Array<keyof AppetiteThresholds> = [
+  "low",
+  "medium",
+  "high",
+  "critical",
+  "approaching_percentage",
+];
+
+const thresholdsAreValid = (t: AppetiteThresholds) =>
+  THRESHOLD_FIELDS.every((key) => Number.isFinite(t[key])) &&
+  t.low > 0 &&
+  t.low <= t.medium &&
+  t.medium <= t.high &&
+  t.high < t.critical &&
+  t.approaching_percentage >= 1 &&
+  t.approaching_percentage <= 100;
+
+const complianceColor = (rate: number) =>
+  rate >= 90
+    ? "[&>div]:bg-status-success"
+    : rate >= 70
+    ? "[&>div]:bg-status-warning"
+    : "[&>div]:bg-status-critical";
+
+const CategoryAppetiteStatements: React.FC<CategoryAppetiteStatementsProps> = ({
+  categories,
+  compliance,
+  onSaved,
+}) => {
+  const { strings } = useI18n();
+  const t = strings.riskAppetitePage;
+  const { toast } = useToast();
+
+  const [editing, setEditing] = useState<CategoryAppetite | null>(null);
+  const [statement, setStatement] = useState("");
+  const [useGlobal, setUseGlobal] = useState(true);
+  const [thresholds, setThresholds] = useState<AppetiteThresholds | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const thresholdLabels: Record<keyof AppetiteThresholds, string> = {
+    low: t.lowLabel,
+    medium: t.mediumLabel,
+    high: t.highLabel,
+    critical: t.criticalLabel,
+    approaching_percentage: t.approachingLabel,
+  };
+
+  const openEdit = (category: CategoryAppetite) => {
+    setEditing(category);
+    setStatement(category.statement);
+    setUseGlobal(category.uses_default);
+    setThresholds({ ...category.thresholds });
+  };
+
+  const handleSave = async () => {
+    if (!editing || !thresholds) return;
+    if (!useGlobal && !thresholdsAreValid(thresholds)) {
+      toast({ title: t.categoryInvalidThresholds, variant: "destructive" });
+      return;
+    }
+    setSaving(true);
+    try {
+      await riskAppetiteApi.updateCategoryAppetite(editing.category_id, {
+        statement: statement.trim(),
+        thresholds: useGlobal ? null : thresholds,
+      });
+      toast({
+        title: t.toastUpdateDoneTitle,
+        description: t.categorySaved.replace(
+          "{category}",
+          editing.category_name
+        ),
+      });
+      setEditing(null);
+      onSaved();
+    } catch {
+      toast({
+        title: t.toastErrorTitle,
+        description: t.categorySaveFailed,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Layers className="h-5 w-5" />
+          {t.categoryTitle}
+        </CardTitle>
+        <CardDescription>{t.categoryDesc}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t.tableCategory}</TableHead>
+                <TableHead>{t.categoryStatement}</TableHead>
+                <TableHead>{t.categoryLimits}</TableHead>
+                <TableHead className="w-[200px]">{t.complianceRate}</TableHead>
+                <TableHead className="w-[80px]">{t.tableAction}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {categories.map((category) => {
+                const rates = compliance.find(
+                  (c) => c.category_id === category.category_id
+                );
+                return (
+                  <TableRow key={category.category_id}>
+                    <TableCell className="font-medium">
+                      {category.category_name}
+                    </TableCell>
+                    <TableCell className="max-w-[320px]">
+                      {category.statement ? (
+                        <p className="text-sm line-clamp-2">
+                          {category.statement}
+                        </p>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">
+                          {t.categoryNoStatement}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2 whitespace-nowrap">
+                        <span className="text-sm">
+                          {t.high} ≤ {category.thresholds.high} •{" "}
+                          {t.critical} ≥ {category.thresholds.critical}
+                        </span>
+                        {category.uses_default && (
+                          <Badge variant="outline">{t.categoryGlobal}</Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {rates ? (
+                        <div className="space-y-1">
+                          <div className="flex items-center justify-between text-sm">
+                            <span className="font-medium">
+                              {rates.compliance_rate}%
+                            </span>
+                            <span className="text-xs text-muted-foreground">
+                              {t.categoryWithin
+                                .replace("{within}", String(rates.within_appetite))
+                                .replace("{total}", String(rates.total))}
+                            </span>
+                          </div>
+                          <Progress
+                            value={rates.compliance_rate}
+                            className={cn(
+                              "h-2",
+                              complianceColor(rates.compliance_rate)
+                            )}
+                          />
+                        </div>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">
+                          {t.categoryNoRisks}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        aria-label={t.categoryEdit}
+                        onClick={() => openEdit(category)}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {editing &&
+                t.categoryDialogTitle.replace(
+                  "{category}",
+                  editing.category_name
+                )}
+            </DialogTitle>
+            <DialogDescription>{t.categoryDialogDesc}</DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="category-statement">{t.categoryStatement}</Label>
+              <Textarea
+                id="category-statement"
+                rows={4}
+                value={statement}
+                placeholder={t.categoryStatementPlaceholder}
+                onChange={(e) => setStatement(e.target.value)}
+              />
+            </div>
+            <div className="flex items-center justify-between gap-4 rounded-lg border p-3">
+              <div>
+                <Label htmlFor="category-use-global">
+                  {t.categoryUseGlobal}
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  {t.categoryUseGlobalHint}
+                </p>
+              </div>
+              <Switch
+                id="category-use-global"
+                checked={useGlobal}
+                onCheckedChange={setUseGlobal}
+              />
+            </div>
+            {!useGlobal && thresholds && (
+              <div className="grid grid-cols-2 gap-4">
+                {THRESHOLD_FIELDS.map((key) => (
+                  <div
+                    key={key}
+                    className={cn(
+                      "space-y-1",
+                      key === "approaching_percentage" && "col-span-2"
+                    )}
+                  >
+                    <Label>{thresholdLabels[key]}</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={Number.isFinite(thresholds[key]) ? thresholds[key] : ""}
+                      onChange={(e) =>
+                        setThresholds({
+                          ...thresholds,
+                          [key]:
+                            e.target.value === ""
+                              ? Number.NaN
+                              : Number(e.target.value),
+                        })
+                      }
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              {t.cancel}
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 me-2 animate-spin" />}
+              {t.save}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default CategoryAppetiteStatements;
@@ -0,0 +1,5 @@
+/**
+ * Risk Appetite Components Export
+ */
+export { default as AppetiteTrendChart } from "./AppetiteTrendChart";
+export { default as CategoryAppetiteStatements } from "./CategoryAppetiteStatements";
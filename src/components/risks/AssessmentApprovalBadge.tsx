@@ -0,0 +1,29 @@
+/**
+ * AssessmentApprovalBadge - Review state of an assessment.
+ */
+import React from "react";
+import { StatusBadge } from "@/components/common/StatusBadge";
+import type { Assessment } from "@/types";
+import { useI18n } from "@/i18n";
+
+interface AssessmentApprovalBadgeProps {
+  assessment: Assessment;
+  className?: string;
+}
+
+const AssessmentApprovalBadge: React.FC<AssessmentApprovalBadgeProps> = ({
+  assessment,
+  className,
+}) => {
+  const { strings } = useI18n();
+  const status = assessment.approvalStatus;
+  if (!status) return null;
+
+  return (
+    <StatusBadge status={status} className={className}>
+      {strings.assessments.approvalStatuses[status] ?? status}
+    </StatusBadge>
+  );
+};
+
+export default AssessmentApprovalBadge;
@@ -0,0 +1,301 @@
+/**
+ * BowTieDiagram - Causes on the left, the top event in the middle and
+ * consequences on the right, with barriers drawn on each path.
+ *
+ * Colours and fonts are inline attributes rather than classes so the SVG
+ * can be exported as-is for committee packs.
+ */
+import React, { forwardRef } from "react";
+import type { BowTie, BowTieBarrier, BowTiePath } from "@/types";
+import { useI18n } from "@/i18n";
+
+interface BowTieDiagramProps {
+  bowTie: BowTie;
+  className?: string;
+}
+
+const WIDTH = 1200;
+const HEADER = 64;
+const ROW = 76;
+const FOOTER = 48;
+const BOX_WIDTH = 190;
+const BOX_HEIGHT = 52;
+const BARRIER_HEIGHT = 48;
+const BARRIER_MAX_WIDTH = 104;
+const BARRIER_GAP = 8;
+const CENTER_RADIUS = 74;
+const FONT = "Inter, 'Segoe UI', Arial, sans-serif";
+
+/** Horizontal bands: [start, end] of each column */
+const CAUSE_X = 20;
+const PREVENTIVE = [CAUSE_X + BOX_WIDTH + 20, 470];
+const CENTER_X = WIDTH / 2;
+const MITIGATING = [WIDTH - 470, WIDTH - CAUSE_X - BOX_WIDTH - 20];
+const CONSEQUENCE_X = WIDTH - CAUSE_X - BOX_WIDTH;
+
+const COLORS = {
+  text: "#0f172a",
+  muted: "#64748b",
+  line: "#94a3b8",
+  cause: { fill: "#eff6ff", stroke: "#3b82f6" },
+  consequence: { fill: "#fef2f2", stroke: "#ef4444" },
+  event: { fill: "#fff7ed", stroke: "#f97316" },
+  completed: { fill: "#dcfce7", stroke: "#16a34a" },
+  open: { fill: "#fef9c3", stroke: "#ca8a04" },
+  unlinked: { fill: "#f1f5f9", stroke: "#64748b" },
+};
+
+/** Greedy word wrap by character count, ellipsised on the last line. */
+const wrapText = (text: string, maxChars: number, maxLines: number) => {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const next = line ? `${line} ${word}` : word;
+    if (next.length <= maxChars || !line) {
+      line = next;
+    } else {
+      lines.push(line);
+      line = word;
+    }
+  }
+  if (line) lines.push(line);
+  if (lines.length > maxLines) {
+    lines.length = maxLines;
+    lines[maxLines - 1] = `${lines[maxLines - 1].slice(0, maxChars - 1)}…`;
+  }
+  return lines.map((l) =>
+    l.length > maxChars ? `${l.slice(0, maxChars - 1)}…` : l
+  );
+};
+
+const barrierColors = (barrier: BowTieBarrier) =>
+  !barrier.action
+    ? COLORS.unlinked
+    : barrier.action.status === "Done"
+      ? COLORS.completed
+      : COLORS.open;
+
+const rowTop = (count: number, rows: number) =>
+  HEADER + ((rows - count) * ROW) / 2;
+
+const Label: React.FC<{
+  x: number;
+  y: number;
+  lines: string[];
+  size?: number;
+  weight?: number;
+  color?: string;
+}> = ({ x, y, lines, size = 11, weight = 400, color = COLORS.text }) => (
+  <text
+    x={x}
+    y={y - ((lines.length - 1) * (size + 2)) / 2 + size / 3}
+    textAnchor="middle"
+    fontFamily={FONT}
+    fontSize={size}
+    fontWeight={weight}
+    fill={color}
+  >
+    {lines.map((line, index) => (
+      <tspan key={index} x={x} dy={index === 0 ? 0 : size + 2}>
+        {line}
+      </tspan>
+    ))}
+  </text>
+);
+
+const BowTieDiagram = forwardRef<SVGSVGElement, BowTieDiagramProps>(
+  ({ bowTie, className }, ref) => {
+    const { strings } = useI18n();
+    const t = strings.bowTie;
+
+    const rows = Math.max(bowTie.causes.length, bowTie.consequences.length, 2);
+    const height = HEADER + rows * ROW + FOOTER;
+    const centerY = HEADER + (rows * ROW) / 2;
+
+    const renderPath = (
+      path: BowTiePath,
+      index: number,
+      side: "cause" | "consequence"
+    ) => {
+      const list = side === "cause" ? bowTie.causes : bowTie.consequences;
+      const y = rowTop(list.length, rows) + index * ROW + ROW / 2;
+      const boxX = side === "cause" ? CAUSE_X : CONSEQUENCE_X;
+      const [bandStart, bandEnd] = side === "cause" ? PREVENTIVE : MITIGATING;
+      const colors = side === "cause" ? COLORS.cause : COLORS.consequence;
+
+      // Horizontal run through the barriers, then a diagonal to the knot
+      const edgeX = side === "cause" ? boxX + BOX_WIDTH : boxX;
+      const bendX = side === "cause" ? bandEnd + 10 : bandStart - 10;
+      const knotX =
+        side === "cause" ? CENTER_X - CENTER_RADIUS : CENTER_X + CENTER_RADIUS;
+
+      const count = path.barriers.length;
+      const barrierWidth = count
+        ? Math.min(
+            BARRIER_MAX_WIDTH,
+            (bandEnd - bandStart - (count - 1) * BARRIER_GAP) / count
+          )
+        : 0;
+      const runWidth = count * barrierWidth + (count - 1) * BARRIER_GAP;
+      const firstX = (bandStart + bandEnd) / 2 - runWidth / 2;
+
+      return (
+        <g key={`${side}-${path.id}`}>
+          <polyline
+            points={`${edgeX},${y} ${bendX},${y} ${knotX},${centerY}`}
+            fill="none"
+            stroke={COLORS.line}
+            strokeWidth={1.5}
+          />
+          <rect
+            x={boxX}
+            y={y - BOX_HEIGHT / 2}
+            width={BOX_WIDTH}
+            height={BOX_HEIGHT}
+            rx={6}
+            fill={colors.fill}
+            stroke={colors.stroke}
+            strokeWidth={1.5}
+          />
+          <Label
+            x={boxX + BOX_WIDTH / 2}
+            y={y}
+            lines={wrapText(path.description, 30, 2)}
+          />
+          {/* Barriers are listed in path order, so both sides read left to right */}
+          {path.barriers.map((barrier, i) => {
+            const x = firstX + i * (barrierWidth + BARRIER_GAP);
+            const barrierColor = barrierColors(barrier);
+            return (
+              <g key={barrier.id}>
+                <title>
+                  {barrier.action
+                    ? `${barrier.description} - ${barrier.action.title} (${barrier.action.status})`
+                    : barrier.description}
+                </title>
+                <rect
+                  x={x}
+                  y={y - BARRIER_HEIGHT / 2}
+                  width={barrierWidth}
+                  height={BARRIER_HEIGHT}
+                  rx={4}
+                  fill={barrierColor.fill}
+                  stroke={barrierColor.stroke}
+                  strokeWidth={1.5}
+                  strokeDasharray={barrier.action ? undefined : "4 3"}
+                />
+                <Label
+                  x={x + barrierWidth / 2}
+                  y={y}
+                  size={10}
+                  lines={wrapText(
+                    barrier.description,
+                    Math.max(6, Math.floor(barrierWidth / 6)),
+                    3
+                  )}
+                />
+              </g>
+            );
+          })}
+        </g>
+      );
+    };
+
+    const heading = (x: number, text: string) => (
+      <Label
+        x={x}
+        y={HEADER / 2}
+        lines={[text]}
+        size={12}
+        weight={600}
+        color={COLORS.muted}
+      />
+    );
+
+    const legend: Array<["completed" | "open" | "unlinked", string]> = [
+      ["completed", t.legendCompleted],
+      ["open", t.legendOpen],
+      ["unlinked", t.legendUnlinked],
+    ];
+
+    return (
+      <svg
+        ref={ref}
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        className={className}
+        direction="ltr"
+        role="img"
+        aria-label={t.diagramLabel.replace("{code}", bowTie.riskId)}
+      >
+        <rect x={0} y={0} width={WIDTH} height={height} fill="#ffffff" />
+
+        {heading(CAUSE_X + BOX_WIDTH / 2, t.causes)}
+        {heading((PREVENTIVE[0] + PREVENTIVE[1]) / 2, t.preventiveBarriers)}
+        {heading(CENTER_X, t.topEvent)}
+        {heading((MITIGATING[0] + MITIGATING[1]) / 2, t.mitigatingBarriers)}
+        {heading(CONSEQUENCE_X + BOX_WIDTH / 2, t.consequences)}
+
+        {bowTie.causes.map((path, index) => renderPath(path, index, "cause"))}
+        {bowTie.consequences.map((path, index) =>
+          renderPath(path, index, "consequence")
+        )}
+
+        <circle
+          cx={CENTER_X}
+          cy={centerY}
+          r={CENTER_RADIUS}
+          fill={COLORS.event.fill}
+          stroke={COLORS.event.stroke}
+          strokeWidth={2}
+        />
+        <Label
+          x={CENTER_X}
+          y={centerY - 8}
+          lines={wrapText(bowTie.topEvent, 20, 3)}
+          size={12}
+          weight={600}
+        />
+        <Label
+          x={CENTER_X}
+          y={centerY + CENTER_RADIUS - 16}
+          lines={[bowTie.riskId]}
+          size={10}
+          color={COLORS.muted}
+        />
+
+        {legend.map(([key, text], index) => {
+          const colors = COLORS[key];
+          const x = CAUSE_X + index * 200;
+          const y = height - FOOTER / 2;
+          return (
+            <g key={key}>
+              <rect
+                x={x}
+                y={y - 7}
+                width={22}
+                height={14}
+                rx={3}
+                fill={colors.fill}
+                stroke={colors.stroke}
+                strokeDasharray={key === "unlinked" ? "4 3" : undefined}
+              />
+              <text
+                x={x + 30}
+                y={y + 4}
+                fontFamily={FONT}
+                fontSize={11}
+                fill={COLORS.muted}
+              >
+                {text}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+    );
+  }
+);
+
+BowTieDiagram.displayName = "BowTieDiagram";
+
+export default BowTieDiagram;
@@ -0,0 +1,418 @@
+/**
+ * BowTiePanel - Bow-tie analysis for a risk: view, edit and export.
+ *
+ * The diagram previews the draft while editing. Barriers can be linked to
+ * the risk's treatment actions so the board sees which barriers are in
+ * place and which are still being built.
+ */
+import React, { useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import BowTieDiagram from "./BowTieDiagram";
+import { useBowTie, useRiskTreatments, useSaveBowTie } from "@/hooks/queries";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/auth/authContext";
+import { extractNumericId } from "@/api";
+import type {
+  BowTie,
+  BowTieBarrier,
+  BowTiePath,
+  TreatmentAction,
+} from "@/types";
+import { exportPng, exportSvg } from "@/utils/svgExport";
+import { useI18n } from "@/i18n";
+import {
+  Download,
+  ImageDown,
+  Loader2,
+  Pencil,
+  Plus,
+  Trash2,
+} from "lucide-react";
+
+interface BowTiePanelProps {
+  risk: { id: string; title: string };
+}
+
+type Side = "causes" | "consequences";
+
+const NO_ACTION = "none";
+
+const isComplete = (bowTie: BowTie) =>
+  !!bowTie.topEvent.trim() &&
+  [...bowTie.causes, ...bowTie.consequences].every(
+    (path) =>
+      !!path.description.trim() &&
+      path.barriers.every((barrier) => !!barrier.description.trim())
+  );
+
+const BowTiePanel: React.FC<BowTiePanelProps> = ({ risk }) => {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const { strings, isRTL } = useI18n();
+  const t = strings.bowTie;
+
+  const { data: bowTie, isLoading } = useBowTie(risk.id);
+  const { data: treatments = [] } = useRiskTreatments(risk.id);
+  const saveBowTie = useSaveBowTie();
+
+  const [draft, setDraft] = useState<BowTie | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const nextKey = useRef(0);
+
+  const actions = useMemo(
+    () => treatments.flatMap((plan) => plan.actions),
+    [treatments]
+  );
+
+  const shown = draft ?? bowTie;
+  const isEmpty =
+    !shown || (shown.causes.length === 0 && shown.consequences.length === 0);
+
+  const newKey = () => `new-${++nextKey.current}`;
+
+  const startEdit = () => {
+    if (!bowTie) return;
+    setDraft({
+      ...bowTie,
+      topEvent: bowTie.topEvent || risk.title,
+    });
+  };
+
+  const updatePaths = (
+    side: Side,
+    update: (paths: BowTiePath[]) => BowTiePath[]
+  ) =>
+    setDraft(
+      (current) => current && { ...current, [side]: update(current[side]) }
+    );
+
+  const updatePath = (
+    side: Side,
+    pathId: string,
+    patch: Partial<BowTiePath>
+  ) =>
+    updatePaths(side, (paths) =>
+      paths.map((path) => (path.id === pathId ? { ...path, ...patch } : path))
+    );
+
+  const updateBarriers = (
+    side: Side,
+    path: BowTiePath,
+    update: (barriers: BowTieBarrier[]) => BowTieBarrier[]
+  ) => updatePath(side, path.id, { barriers: update(path.barriers) });
+
+  const setBarrierAction = (
+    side: Side,
+    path: BowTiePath,
+    barrierId: string,
+    value: string
+  ) => {
+    const action: TreatmentAction | undefined = actions.find(
+      (a) => String(extractNumericId(a.id)) === value
+    );
+    updateBarriers(side, path, (barriers) =>
+      barriers.map((barrier) =>
+        barrier.id === barrierId
+          ? {
+              ...barrier,
+              action,
+              _actionId: action ? extractNumericId(action.id) : undefined,
+            }
+          : barrier
+      )
+    );
+  };
+
+  const save = async () => {
+    if (!draft) return;
+    if (!isComplete(draft)) {
+      toast({
+        title: t.saveFailed,
+        description: t.incomplete,
+        variant: "destructive",
+      });
+      return;
+    }
+    try {
+      await saveBowTie.mutateAsync(draft);
+      toast({ title: t.saved });
+      setDraft(null);
+    } catch (error) {
+      toast({
+        title: t.saveFailed,
+        description:
+          error instanceof Error ? error.message : strings.common.pleaseTryAgain,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const runExport = async (format: "svg" | "png") => {
+    if (!svgRef.current) return;
+    const filename = `${risk.id}-bow-tie`;
+    setIsExporting(true);
+    try {
+      if (format === "svg") exportSvg(svgRef.current, filename);
+      else await exportPng(svgRef.current, filename);
+    } catch (error) {
+      toast({
+        title: t.exportFailed,
+        description:
+          error instanceof Error ? error.message : strings.common.pleaseTryAgain,
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const iconClass = isRTL ? "ml-2 h-4 w-4" : "mr-2 h-4 w-4";
+
+  const renderSide = (side: Side) => {
+    const paths = draft[side];
+    const isCause = side === "causes";
+    return (
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-medium">
+            {isCause ? t.causes : t.consequences}
+          </h4>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() =>
+              updatePaths(side, (current) => [
+                ...current,
+                { id: newKey(), description: "", barriers: [] },
+              ])
+            }
+          >
+            <Plus className={iconClass} />
+            {isCause ? t.addCause : t.addConsequence}
+          </Button>
+        </div>
+
+        {paths.map((path) => (
+          <div key={path.id} className="space-y-2 rounded-md border p-3">
+            <div className="flex items-center gap-2">
+              <Input
+                value={path.description}
+                placeholder={
+                  isCause ? t.causePlaceholder : t.consequencePlaceholder
+                }
+                onChange={(e) =>
+                  updatePath(side, path.id, { description: e.target.value })
+                }
+              />
+              <Button
+                size="icon"
+                variant="ghost"
+                title={t.remove}
+                onClick={() =>
+                  updatePaths(side, (current) =>
+                    current.filter((p) => p.id !== path.id)
+                  )
+                }
+              >
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+
+            <div className="space-y-2 ps-4 border-s">
+              <Label className="text-xs text-muted-foreground">
+                {isCause ? t.preventiveBarriers : t.mitigatingBarriers}
+              </Label>
+              {path.barriers.map((barrier) => (
+                <div
+                  key={barrier.id}
+                  className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto] gap-2"
+                >
+                  <Input
+                    value={barrier.description}
+                    placeholder={t.barrierPlaceholder}
+                    onChange={(e) =>
+                      updateBarriers(side, path, (barriers) =>
+                        barriers.map((b) =>
+                          b.id === barrier.id
+                            ? { ...b, description: e.target.value }
+                            : b
+                        )
+                      )
+                    }
+                  />
+                  <Select
+                    value={
+                      barrier._actionId ? String(barrier._actionId) : NO_ACTION
+                    }
+                    onValueChange={(v) =>
+                      setBarrierAction(side, path, barrier.id, v)
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_ACTION}>{t.noAction}</SelectItem>
+                      {actions.map((action) => (
+                        <SelectItem
+                          key={action.id}
+                          value={String(extractNumericId(action.id))}
+                        >
+                          {action.title}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    title={t.remove}
+                    onClick={() =>
+                      updateBarriers(side, path, (barriers) =>
+                        barriers.filter((b) => b.id !== barrier.id)
+                      )
+                    }
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() =>
+                  updateBarriers(side, path, (barriers) => [
+                    ...barriers,
+                    { id: newKey(), description: "" },
+                  ])
+                }
+              >
+                <Plus className={iconClass} />
+                {t.addBarrier}
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground py-4">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        {strings.common.loading}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h4 className="text-sm font-medium">{t.title}</h4>
+          <p className="text-xs text-muted-foreground">{t.description}</p>
+          {bowTie?.updatedAt && (
+            <p className="text-xs text-muted-foreground mt-1">
+              {t.lastUpdated
+                .replace(
+                  "{date}",
+                  new Date(bowTie.updatedAt).toLocaleDateString()
+                )
+                .replace("{name}", bowTie.updatedBy ?? "-")}
+            </p>
+          )}
+        </div>
+        {!draft && (
+          <div className="flex flex-wrap gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={isEmpty || isExporting}
+              onClick={() => runExport("svg")}
+            >
+              <Download className={iconClass} />
+              {t.exportSvg}
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={isEmpty || isExporting}
+              onClick={() => runExport("png")}
+            >
+              <ImageDown className={iconClass} />
+              {t.exportPng}
+            </Button>
+            {can("canEdit") && bowTie && (
+              <Button size="sm" onClick={startEdit}>
+                <Pencil className={iconClass} />
+                {t.edit}
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {shown && !isEmpty ? (
+        <div className="overflow-x-auto rounded-md border">
+          <BowTieDiagram
+            ref={svgRef}
+            bowTie={shown}
+            className="w-full min-w-[800px] h-auto"
+          />
+        </div>
+      ) : (
+        !draft && (
+          <p className="text-sm text-muted-foreground py-4">{t.empty}</p>
+        )
+      )}
+
+      {draft && (
+        <div className="space-y-4 rounded-md border p-4">
+          <div className="space-y-2">
+            <Label>{t.topEvent}</Label>
+            <Input
+              value={draft.topEvent}
+              placeholder={t.topEventPlaceholder}
+              onChange={(e) => setDraft({ ...draft, topEvent: e.target.value })}
+            />
+          </div>
+          {actions.length === 0 && (
+            <p className="text-xs text-muted-foreground">{t.noActionsHint}</p>
+          )}
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+            {renderSide("causes")}
+            {renderSide("consequences")}
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setDraft(null)}
+              disabled={saveBowTie.isPending}
+            >
+              {strings.actions.cancel}
+            </Button>
+            <Button onClick={save} disabled={saveBowTie.isPending}>
+              {saveBowTie.isPending && (
+                <Loader2 className={`${iconClass} animate-spin`} />
+              )}
+              {strings.actions.save}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BowTiePanel;
@@ -0,0 +1,68 @@
+/**
+ * ImpactBreakdownView - Per-dimension impact scores behind an assessment.
+ *
+ * Criteria come from the current impact scoring settings, so a score keeps
+ * its number even if the wording was changed after it was recorded.
+ */
+import React from "react";
+import { useImpactScoring } from "@/hooks/queries";
+import type { ImpactBreakdown } from "@/utils/impactScoring";
+import { cn } from "@/lib/utils";
+import { useI18n } from "@/i18n";
+
+interface ImpactBreakdownViewProps {
+  breakdown: ImpactBreakdown;
+  className?: string;
+}
+
+const ImpactBreakdownView: React.FC<ImpactBreakdownViewProps> = ({
+  breakdown,
+  className,
+}) => {
+  const { strings } = useI18n();
+  const t = strings.assessments;
+  const scoring = useImpactScoring();
+  const weighted = breakdown.rule === "weighted_average";
+
+  return (
+    <div
+      className={cn(
+        "rounded-md border border-border bg-muted/20 p-3 text-sm space-y-2",
+        className
+      )}
+    >
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="font-medium">{t.impactBreakdownTitle}</p>
+        <p className="text-xs text-muted-foreground">
+          {t.impactRules[breakdown.rule] ?? breakdown.rule} →{" "}
+          <span className="font-semibold text-foreground">
+            {t.overallImpact} {breakdown.overall}
+          </span>
+        </p>
+      </div>
+      <ul className="space-y-1">
+        {breakdown.scores.map((s) => {
+          const criteria = scoring.dimensions.find((d) => d.key === s.dimension)
+            ?.criteria[s.score - 1];
+          return (
+            <li
+              key={s.dimension}
+              className="grid grid-cols-[9rem_2rem_1fr] items-baseline gap-2"
+            >
+              <span className="text-muted-foreground">
+                {t.impactDimensions[s.dimension] ?? s.dimension}
+                {weighted && (
+                  <span className="text-xs"> ({s.weight})</span>
+                )}
+              </span>
+              <span className="font-semibold">{s.score}</span>
+              <span className="text-xs text-muted-foreground">{criteria}</span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default ImpactBreakdownView;
@@ -0,0 +1,102 @@
+/**
+ * LossExceedanceChart - Chance that a year's losses exceed each amount,
+ * from a Monte Carlo summary. Used for a single risk and for the
+ * portfolio roll-up.
+ */
+import React from "react";
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import type { SimulationSummary } from "@/utils/monteCarlo";
+import { formatLoss } from "@/utils/monteCarlo";
+import { useI18n } from "@/i18n";
+
+interface LossExceedanceChartProps {
+  summary: SimulationSummary;
+  currency: string;
+  height?: number;
+}
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const LossExceedanceChart: React.FC<LossExceedanceChartProps> = ({
+  summary,
+  currency,
+  height = 260,
+}) => {
+  const { strings, isRTL } = useI18n();
+  const t = strings.quantification;
+  const locale = isRTL ? "ar-SA" : "en-US";
+  const money = (value: number) => formatLoss(value, currency, locale);
+
+  return (
+    <div style={{ height }} aria-label={t.curveTitle} role="img">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={summary.curve}>
+          <CartesianGrid
+            strokeDasharray="3 3"
+            stroke="hsl(var(--border))"
+            vertical={false}
+          />
+          <XAxis
+            dataKey="loss"
+            type="number"
+            domain={[0, "dataMax"]}
+            tickFormatter={money}
+            stroke="hsl(var(--muted-foreground))"
+            fontSize={12}
+            reversed={isRTL}
+          />
+          <YAxis
+            domain={[0, 1]}
+            tickFormatter={formatPercent}
+            stroke="hsl(var(--muted-foreground))"
+            fontSize={12}
+            orientation={isRTL ? "right" : "left"}
+          />
+          <Tooltip
+            labelFormatter={(loss: number) =>
+              t.exceedsLabel.replace("{amount}", money(loss))
+            }
+            formatter={(probability: number) => [
+              formatPercent(probability),
+              t.probabilityLabel,
+            ]}
+            contentStyle={{
+              backgroundColor: "hsl(var(--card))",
+              border: "1px solid hsl(var(--border))",
+              borderRadius: "8px",
+            }}
+          />
+          <ReferenceLine
+            x={summary.p90}
+            stroke="hsl(var(--destructive))"
+            strokeDasharray="4 4"
+            label={{
+              value: "P90",
+              position: "top",
+              fill: "hsl(var(--destructive))",
+              fontSize: 11,
+            }}
+          />
+          <Line
+            type="monotone"
+            dataKey="probability"
+            stroke="hsl(var(--primary))"
+            strokeWidth={2}
+            dot={false}
+          />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export default LossExceedanceChart;
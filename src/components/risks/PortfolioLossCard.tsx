@@ -0,0 +1,128 @@
+/**
+ * PortfolioLossCard - Quantified risks rolled up into one loss
+ * exceedance curve, with each risk's annualised loss exposure and P90.
+ *
+ * Risks are summed year by year as if independent. Figures in another
+ * currency are listed but left out of the roll-up rather than converted.
+ */
+import React, { useMemo } from "react";
+import { Link } from "react-router-dom";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import LossExceedanceChart from "./LossExceedanceChart";
+import { useQuantifications } from "@/hooks/queries";
+import { useMonteCarlo } from "@/hooks/useMonteCarlo";
+import { formatLoss, toSimulationRisk } from "@/utils/monteCarlo";
+import { useI18n } from "@/i18n";
+import { Loader2 } from "lucide-react";
+
+/** The currency most quantified risks are recorded in */
+const mainCurrency = (currencies: string[]) => {
+  const counts = new Map<string, number>();
+  currencies.forEach((c) => counts.set(c, (counts.get(c) ?? 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? "USD";
+};
+
+const PortfolioLossCard: React.FC = () => {
+  const { strings, isRTL } = useI18n();
+  const t = strings.quantification;
+  const locale = isRTL ? "ar-SA" : "en-US";
+
+  const { data: quantifications = [], isLoading } = useQuantifications();
+
+  const currency = mainCurrency(quantifications.map((q) => q.currency));
+  const included = useMemo(
+    () => quantifications.filter((q) => q.currency === currency),
+    [quantifications, currency]
+  );
+  const { result, isRunning, error } = useMonteCarlo(
+    included.map(toSimulationRisk),
+    { portfolio: true }
+  );
+
+  const money = (value: number) => formatLoss(value, currency, locale);
+  const portfolio = result?.portfolio;
+  const rows = quantifications
+    .map((q) => ({ q, summary: result?.risks[q.riskId] }))
+    .sort((a, b) => (b.summary?.ale ?? 0) - (a.summary?.ale ?? 0));
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle className="text-base">{t.portfolioTitle}</CardTitle>
+        <CardDescription>{t.portfolioDesc}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            {strings.common.loading}
+          </div>
+        ) : quantifications.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t.portfolioEmpty}</p>
+        ) : error ? (
+          <p className="text-sm text-destructive">
+            {t.simulationFailed}: {error}
+          </p>
+        ) : !portfolio || isRunning ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            {t.simulating}
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2 space-y-3">
+              <div className="grid grid-cols-3 gap-3">
+                {(
+                  [
+                    [t.ale, portfolio.ale],
+                    [t.p90, portfolio.p90],
+                    [t.p99, portfolio.p99],
+                  ] as Array<[string, number]>
+                ).map(([label, value]) => (
+                  <div key={label} className="rounded-lg border p-3">
+                    <p className="text-xs text-muted-foreground">{label}</p>
+                    <p className="text-lg font-semibold">{money(value)}</p>
+                  </div>
+                ))}
+              </div>
+              <LossExceedanceChart summary={portfolio} currency={currency} />
+            </div>
+            <div className="space-y-2">
+              {rows.map(({ q, summary }) => (
+                <Link
+                  key={q.riskId}
+                  to={`/risks/${q.riskId}`}
+                  className="block rounded-lg border border-border bg-muted/20 p-3 hover:bg-muted/40"
+                >
+                  <p className="text-sm font-medium truncate">
+                    {q.riskId} • {q.riskTitle ?? ""}
+                  </p>
+                  {q.currency !== currency ? (
+                    <p className="text-xs text-muted-foreground">
+                      {t.otherCurrency.replace("{currency}", q.currency)}
+                    </p>
+                  ) : (
+                    summary && (
+                      <p className="text-xs text-muted-foreground">
+                        {t.ale}: {money(summary.ale)} • {t.p90}:{" "}
+                        {money(summary.p90)}
+                      </p>
+                    )
+                  )}
+                </Link>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PortfolioLossCard;
@@ -0,0 +1,281 @@
+/**
+ * RiskAppetitePanel - Where a single risk sits against the appetite limits.
+ *
+ * Shows the appetite level, the limit and how far the score is over it,
+ * and lets editors run the check now so the owner is notified or the risk
+ * escalated without going through the appetite screen.
+ */
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import {
+  useCheckRiskAppetite,
+  useRiskAppetiteEvaluation,
+} from "@/hooks/queries";
+import type { AppetiteLevel, RiskEvaluation } from "@/api/riskAppetiteApi";
+import type { Risk } from "@/types";
+import { cn } from "@/lib/utils";
+import { useI18n } from "@/i18n";
+import {
+  AlertTriangle,
+  Bell,
+  CheckCircle,
+  Gauge,
+  Loader2,
+  Send,
+  TrendingUp,
+  XCircle,
+} from "lucide-react";
+
+interface RiskAppetitePanelProps {
+  risk: Risk;
+}
+
+const LEVEL_STYLES: Record<
+  AppetiteLevel,
+  { className: string; bar: string; icon: React.ElementType }
+> = {
+  within_appetite: {
+    className: "bg-status-success/10 text-status-success border-status-success/30",
+    bar: "[&>div]:bg-status-success",
+    icon: CheckCircle,
+  },
+  approaching_limit: {
+    className: "bg-status-warning/10 text-status-warning border-status-warning/30",
+    bar: "[&>div]:bg-status-warning",
+    icon: TrendingUp,
+  },
+  exceeded: {
+    className: "bg-status-high/10 text-status-high border-status-high/30",
+    bar: "[&>div]:bg-status-high",
+    icon: AlertTriangle,
+  },
+  critical: {
+    className:
+      "bg-status-critical/10 text-status-critical border-status-critical/30",
+    bar: "[&>div]:bg-status-critical",
+    icon: XCircle,
+  },
+};
+
+const RiskAppetitePanel: React.FC<RiskAppetitePanelProps> = ({ risk }) => {
+  const { strings } = useI18n();
+  const t = strings.risks.details.appetite;
+  const { can } = usePermissions();
+  const { toast } = useToast();
+
+  const evaluationQuery = useRiskAppetiteEvaluation(risk._backendId);
+  const checkAppetite = useCheckRiskAppetite();
+
+  const [notify, setNotify] = useState(true);
+  const [autoEscalate, setAutoEscalate] = useState(false);
+  const [lastCheck, setLastCheck] = useState<RiskEvaluation | null>(null);
+
+  const levelLabels: Record<AppetiteLevel, string> = {
+    within_appetite: strings.riskAppetitePage.levelWithin,
+    approaching_limit: strings.riskAppetitePage.levelApproaching,
+    exceeded: strings.riskAppetitePage.levelExceeded,
+    critical: strings.riskAppetitePage.levelCritical,
+  };
+
+  const handleCheck = async () => {
+    if (!risk._backendId) return;
+    try {
+      const result = await checkAppetite.mutateAsync({
+        riskId: risk._backendId,
+        notify,
+        autoEscalate,
+      });
+      setLastCheck(result);
+      toast({
+        title: t.checkedTitle,
+        description: levelLabels[result.level] ?? result.level,
+      });
+    } catch (error) {
+      toast({
+        title: t.checkFailed,
+        description:
+          error instanceof Error ? error.message : strings.common.pleaseTryAgain,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const actionLabel = (action: { action: string; [key: string]: unknown }) => {
+    const template = (t.actionLabels as Record<string, string>)[action.action];
+    if (!template) return action.action;
+    const id = action.notification_id ?? action.escalation_id;
+    return template.replace("{id}", id === undefined ? "" : String(id));
+  };
+
+  if (evaluationQuery.isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        {strings.common.loading}
+      </div>
+    );
+  }
+
+  const evaluation = evaluationQuery.data;
+  if (evaluationQuery.isError || !evaluation) {
+    return <p className="text-sm text-muted-foreground">{t.loadFailed}</p>;
+  }
+
+  const style = LEVEL_STYLES[evaluation.level] ?? LEVEL_STYLES.within_appetite;
+  const LevelIcon = style.icon;
+  const headroom = Math.max(0, evaluation.threshold - evaluation.score);
+  const usage = evaluation.threshold
+    ? Math.round((evaluation.score / evaluation.threshold) * 100)
+    : 0;
+  const actionType = evaluation.action_type
+    ? (t.actionTypes as Record<string, string>)[evaluation.action_type] ??
+      evaluation.action_type
+    : null;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h4 className="text-sm font-medium flex items-center gap-2">
+          <Gauge className="h-4 w-4 text-muted-foreground" />
+          {t.title}
+        </h4>
+        <Badge className={cn("gap-1", style.className)}>
+          <LevelIcon className="h-3 w-3" />
+          {levelLabels[evaluation.level] ?? evaluation.level}
+        </Badge>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div className="p-3 rounded-lg bg-muted/50 text-center">
+          <p className="text-xl font-bold">{evaluation.score}</p>
+          <p className="text-xs text-muted-foreground">{t.score}</p>
+        </div>
+        <div className="p-3 rounded-lg bg-muted/50 text-center">
+          <p className="text-xl font-bold">{evaluation.threshold}</p>
+          <p className="text-xs text-muted-foreground">
+            {evaluation.uses_category_thresholds && evaluation.category_name
+              ? t.categoryThreshold.replace(
+                  "{category}",
+                  evaluation.category_name
+                )
+              : t.threshold}
+          </p>
+        </div>
+        <div className="p-3 rounded-lg bg-muted/50 text-center">
+          {evaluation.exceeded_by > 0 ? (
+            <>
+              <p className="text-xl font-bold text-status-critical">
+                +{evaluation.exceeded_by}
+              </p>
+              <p className="text-xs text-muted-foreground">{t.exceededBy}</p>
+            </>
+          ) : (
+            <>
+              <p className="text-xl font-bold text-status-success">
+                {headroom}
+              </p>
+              <p className="text-xs text-muted-foreground">{t.headroom}</p>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Progress value={Math.min(usage, 100)} className={cn("h-2", style.bar)} />
+        <p className="text-xs text-muted-foreground">
+          {t.usage.replace("{percent}", String(usage))}
+        </p>
+      </div>
+
+      {actionType && (
+        <p className="text-sm">
+          <span className="text-muted-foreground">{t.requiredAction}</span>{" "}
+          <span className="font-medium">{actionType}</span>
+        </p>
+      )}
+
+      {can("canEdit") && (
+        <div className="rounded-lg border border-border p-3 space-y-3">
+          <div className="flex flex-wrap items-center gap-x-6 gap-y-2">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="appetite-notify"
+                checked={notify}
+                onCheckedChange={setNotify}
+              />
+              <Label htmlFor="appetite-notify" className="text-sm font-normal">
+                {t.notify}
+              </Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="appetite-escalate"
+                checked={autoEscalate}
+                onCheckedChange={setAutoEscalate}
+              />
+              <Label
+                htmlFor="appetite-escalate"
+                className="text-sm font-normal"
+              >
+                {t.autoEscalate}
+              </Label>
+            </div>
+            <Button
+              size="sm"
+              className="ms-auto"
+              disabled={checkAppetite.isPending || !risk._backendId}
+              onClick={handleCheck}
+            >
+              {checkAppetite.isPending ? (
+                <Loader2 className="h-4 w-4 me-2 animate-spin" />
+              ) : (
+                <Send className="h-4 w-4 me-2" />
+              )}
+              {t.checkNow}
+            </Button>
+          </div>
+
+          {lastCheck && (
+            <div className="space-y-1">
+              <p className="text-xs font-medium text-muted-foreground">
+                {t.actionsTaken}
+              </p>
+              {(lastCheck.actions_taken ?? []).length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  {lastCheck.requires_action ? t.noActionsTaken : t.noActionNeeded}
+                </p>
+              ) : (
+                <ul className="space-y-1">
+                  {(lastCheck.actions_taken ?? []).map((action, index) => (
+                    <li
+                      key={`${action.action}-${index}`}
+                      className="flex items-center gap-2 text-sm"
+                    >
+                      <Bell className="h-3 w-3 text-primary" />
+                      {actionLabel(action)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {can("canViewSettings") && (
+        <Button variant="link" size="sm" className="px-0 h-auto" asChild>
+          <Link to="/risk-appetite">{t.manageThresholds}</Link>
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default RiskAppetitePanel;
@@ -0,0 +1,473 @@
+/**
+ * RiskBulkActions - Toolbar and job dialog for acting on several risks.
+ *
+ * Each job runs item by item with a progress bar and ends with a per-risk
+ * summary; risks that failed stay selected so the job can be retried.
+ */
+import React, { useState } from "react";
+import { useQueryClient, type QueryKey } from "@tanstack/react-query";
+import {
+  ArrowRightLeft,
+  CheckCircle2,
+  Download,
+  Gavel,
+  Tag,
+  Trash2,
+  UserCog,
+  X,
+  XCircle,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { assessmentApi, committeeApi, riskApi, treatmentApi } from "@/api";
+import { queryKeys } from "@/hooks/queries";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import type { Risk, User } from "@/types";
+import {
+  BACKEND_RISK_STATUSES,
+  type BackendRiskStatusType,
+  type RiskCategory,
+} from "@/utils/constants";
+import { getRiskTransitions } from "@/utils/riskLifecycle";
+import {
+  runBulkOperation,
+  type BulkItemResult,
+  type BulkProgress,
+} from "@/utils/bulkOperations";
+import { useI18n } from "@/i18n";
+import { cn } from "@/lib/utils";
+
+type BulkAction = "status" | "owner" | "category" | "escalate" | "delete";
+
+interface RiskBulkActionsProps {
+  selected: Risk[];
+  owners: User[];
+  categories: string[];
+  onClear: () => void;
+  /** Called once a job ends with the IDs of the risks that failed. */
+  onFinished: (failedIds: string[]) => void;
+}
+
+const csvEscape = (value: unknown) => {
+  const s = String(value ?? "");
+  if (/[\n\r,"]/.test(s)) return `"${s.replace(/"/g, '""')}"`;
+  return s;
+};
+
+const downloadTextFile = (filename: string, content: string, mime: string) => {
+  const blob = new Blob([content], { type: mime });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+};
+
+const RiskBulkActions: React.FC<RiskBulkActionsProps> = ({
+  selected,
+  owners,
+  categories,
+  onClear,
+  onFinished,
+}) => {
+  const { strings, isRTL } = useI18n();
+  const { toast } = useToast();
+  const { canEdit, canDelete, can } = usePermissions();
+  const queryClient = useQueryClient();
+  const t = strings.risks.bulk;
+  const iconClass = isRTL ? "ml-2 h-4 w-4" : "mr-2 h-4 w-4";
+
+  const [action, setAction] = useState<BulkAction | null>(null);
+  const [value, setValue] = useState("");
+  const [note, setNote] = useState("");
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState<BulkProgress>({
+    done: 0,
+    total: 0,
+  });
+  const [results, setResults] = useState<BulkItemResult[] | null>(null);
+
+  const getStatusLabel = (status: string) =>
+    (strings.risks.lifecycleStatuses as Record<string, string>)[status] ??
+    status;
+  const getCategoryLabel = (category: string) =>
+    (strings.risks.categories as Record<string, string> | undefined)?.[
+      category
+    ] ?? category;
+
+  const open = (next: BulkAction) => {
+    setAction(next);
+    setValue("");
+    setNote("");
+    setResults(null);
+    setProgress({ done: 0, total: 0 });
+  };
+
+  const close = () => {
+    if (running) return;
+    setAction(null);
+    setResults(null);
+  };
+
+  /** Same lifecycle guards as the single-risk status menu. */
+  const changeStatus = async (risk: Risk, target: BackendRiskStatusType) => {
+    const [assessments, treatments] = await Promise.all([
+      assessmentApi.getByRiskId(risk.id),
+      treatmentApi.getByRiskId(risk.id),
+    ]);
+    const option = getRiskTransitions(risk.lifecycleStatus, {
+      assessments,
+      treatment: treatments[0] ?? null,
+    }).find((transition) => transition.status === target);
+    if (!option) {
+      throw new Error(
+        t.invalidTransition
+          .replace("{from}", getStatusLabel(risk.lifecycleStatus))
+          .replace("{to}", getStatusLabel(target))
+      );
+    }
+    if (option.blocker) {
+      throw new Error(strings.risks.lifecycle.blockers[option.blocker]);
+    }
+    return riskApi.changeStatus(risk.id, target);
+  };
+
+  const runRiskOperation = (risk: Risk): Promise<unknown> => {
+    switch (action) {
+      case "status":
+        return changeStatus(risk, value as BackendRiskStatusType);
+      case "owner":
+        return riskApi.update(risk.id, { ownerId: Number(value) });
+      case "category":
+        return riskApi.update(risk.id, { category: value as RiskCategory });
+      case "escalate":
+        return committeeApi.createEscalation({
+          risk_id: risk._backendId ?? parseInt(risk.id.replace(/\D/g, ""), 10),
+          status: "pending",
+          action: note.trim() || undefined,
+        });
+      case "delete":
+        return riskApi.delete(risk.id);
+      default:
+        return Promise.resolve();
+    }
+  };
+
+  const handleRun = async () => {
+    if (!action) return;
+    setRunning(true);
+    const items = selected.map((risk) => ({
+      id: risk.id,
+      label: risk.title,
+      risk,
+    }));
+    const outcome = await runBulkOperation(
+      items,
+      (item) => runRiskOperation(item.risk),
+      setProgress
+    );
+    setResults(outcome);
+    setRunning(false);
+
+    // Refresh everything the job may have touched.
+    const touched: QueryKey[] = [queryKeys.risks.all, queryKeys.auditLogs.all];
+    if (action === "escalate") touched.push(queryKeys.committee.all);
+    if (action === "delete") {
+      touched.push(
+        queryKeys.assessments.all,
+        queryKeys.treatments.all,
+        queryKeys.incidents.all
+      );
+    }
+    touched.forEach((queryKey) =>
+      queryClient.invalidateQueries({ queryKey })
+    );
+    onFinished(outcome.filter((r) => !r.ok).map((r) => r.id));
+  };
+
+  const handleExport = () => {
+    if (!can("canExport")) {
+      toast({
+        title: strings.common.notAllowed,
+        variant: "destructive",
+      });
+      return;
+    }
+    const header = [
+      strings.table.id,
+      strings.table.title,
+      strings.table.category,
+      strings.table.owner,
+      strings.risks.form.likelihood,
+      strings.risks.form.impact,
+      strings.table.score,
+      strings.table.level,
+      strings.table.status,
+      strings.table.updated,
+    ];
+    const rows = selected.map((risk) => [
+      risk.id,
+      risk.title,
+      getCategoryLabel(risk.category),
+      risk.owner,
+      risk.likelihood,
+      risk.impact,
+      risk.score,
+      risk.level,
+      getStatusLabel(risk.lifecycleStatus),
+      risk.updatedAt,
+    ]);
+    const csv = [
+      header.map(csvEscape).join(","),
+      ...rows.map((row) => row.map(csvEscape).join(",")),
+    ].join("\n");
+    downloadTextFile(
+      `risk-selection-${new Date().toISOString().slice(0, 10)}.csv`,
+      csv,
+      "text/csv;charset=utf-8"
+    );
+    toast({
+      title: t.exportedTitle,
+      description: t.exportedDesc.replace("{count}", String(selected.length)),
+    });
+  };
+
+  const needsValue =
+    action === "status" || action === "owner" || action === "category";
+  const succeeded = results?.filter((r) => r.ok).length ?? 0;
+  const failed = results?.filter((r) => !r.ok) ?? [];
+  const percent =
+    progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  const renderValuePicker = () => {
+    if (action === "status") {
+      return (
+        <Select value={value} onValueChange={setValue}>
+          <SelectTrigger>
+            <SelectValue placeholder={t.pickStatus} />
+          </SelectTrigger>
+          <SelectContent>
+            {BACKEND_RISK_STATUSES.map((status) => (
+              <SelectItem key={status} value={status}>
+                {getStatusLabel(status)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+    if (action === "owner") {
+      return (
+        <Select value={value} onValueChange={setValue}>
+          <SelectTrigger>
+            <SelectValue placeholder={t.pickOwner} />
+          </SelectTrigger>
+          <SelectContent>
+            {owners
+              .filter((owner) => owner._backendId !== undefined)
+              .map((owner) => (
+                <SelectItem key={owner.id} value={String(owner._backendId)}>
+                  {owner.name}
+                </SelectItem>
+              ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+    if (action === "category") {
+      return (
+        <Select value={value} onValueChange={setValue}>
+          <SelectTrigger>
+            <SelectValue placeholder={t.pickCategory} />
+          </SelectTrigger>
+          <SelectContent>
+            {categories.map((category) => (
+              <SelectItem key={category} value={category}>
+                {getCategoryLabel(category)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+    if (action === "escalate") {
+      return (
+        <Textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder={t.escalateNotePlaceholder}
+          rows={3}
+        />
+      );
+    }
+    return null;
+  };
+
+  return (
+    <>
+      {selected.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 rounded-lg border border-primary/30 bg-primary/5 p-3">
+          <span className="text-sm font-medium">
+            {t.selectedCount.replace("{count}", String(selected.length))}
+          </span>
+          <div
+            className={cn("flex flex-wrap gap-2", isRTL ? "mr-auto" : "ml-auto")}
+          >
+            {canEdit && (
+              <>
+                <Button size="sm" variant="outline" onClick={() => open("status")}>
+                  <ArrowRightLeft className={iconClass} />
+                  {t.changeStatus}
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => open("owner")}>
+                  <UserCog className={iconClass} />
+                  {t.reassignOwner}
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => open("category")}>
+                  <Tag className={iconClass} />
+                  {t.changeCategory}
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => open("escalate")}>
+                  <Gavel className={iconClass} />
+                  {t.escalate}
+                </Button>
+              </>
+            )}
+            {can("canExport") && (
+              <Button size="sm" variant="outline" onClick={handleExport}>
+                <Download className={iconClass} />
+                {t.export}
+              </Button>
+            )}
+            {canDelete && (
+              <Button
+                size="sm"
+                variant="outline"
+                className="text-destructive hover:text-destructive"
+                onClick={() => open("delete")}
+              >
+                <Trash2 className={iconClass} />
+                {t.delete}
+              </Button>
+            )}
+            <Button size="sm" variant="ghost" onClick={onClear}>
+              <X className={iconClass} />
+              {t.clearSelection}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <Dialog open={action !== null} onOpenChange={(next) => !next && close()}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{action ? t.titles[action] : ""}</DialogTitle>
+            <DialogDescription>
+              {(action === "delete" ? t.deleteWarning : t.appliesTo).replace(
+                "{count}",
+                String(results ? results.length : selected.length)
+              )}
+            </DialogDescription>
+          </DialogHeader>
+
+          {!running && !results && renderValuePicker()}
+
+          {(running || results) && (
+            <div className="space-y-2">
+              <Progress value={percent} className="h-2" />
+              <p className="text-sm text-muted-foreground">
+                {t.progress
+                  .replace("{done}", String(progress.done))
+                  .replace("{total}", String(progress.total))}
+              </p>
+            </div>
+          )}
+
+          {results && (
+            <div className="space-y-3">
+              <div className="flex gap-4 text-sm">
+                <span className="flex items-center gap-1 text-status-success">
+                  <CheckCircle2 className="h-4 w-4" />
+                  {t.succeeded.replace("{count}", String(succeeded))}
+                </span>
+                <span
+                  className={cn(
+                    "flex items-center gap-1",
+                    failed.length > 0 ? "text-destructive" : "text-muted-foreground"
+                  )}
+                >
+                  <XCircle className="h-4 w-4" />
+                  {t.failed.replace("{count}", String(failed.length))}
+                </span>
+              </div>
+              <ul className="max-h-60 overflow-y-auto divide-y divide-border rounded-md border border-border text-sm">
+                {results.map((result) => (
+                  <li key={result.id} className="flex items-start gap-2 p-2">
+                    {result.ok ? (
+                      <CheckCircle2 className="h-4 w-4 mt-0.5 shrink-0 text-status-success" />
+                    ) : (
+                      <XCircle className="h-4 w-4 mt-0.5 shrink-0 text-destructive" />
+                    )}
+                    <div className="min-w-0">
+                      <p className="truncate">
+                        <span className="font-mono text-primary">{result.id}</span>{" "}
+                        {result.label}
+                      </p>
+                      {result.error && (
+                        <p className="text-xs text-destructive">{result.error}</p>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+              {failed.length > 0 && (
+                <p className="text-xs text-muted-foreground">{t.failedKept}</p>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            {results ? (
+              <Button onClick={close}>{t.done}</Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={close} disabled={running}>
+                  {strings.actions.cancel}
+                </Button>
+                <Button
+                  onClick={handleRun}
+                  disabled={running || (needsValue && !value)}
+                  variant={action === "delete" ? "destructive" : "default"}
+                >
+                  {running ? t.running : t.run}
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default RiskBulkActions;
@@ -0,0 +1,478 @@
+/**
+ * RiskQuantificationPanel - FAIR-style quantitative analysis for a risk.
+ *
+ * Loss event frequency and loss magnitude are entered as ranges; the page
+ * runs the Monte Carlo simulation (see hooks/useMonteCarlo.ts) and passes
+ * the summary in, so the score card above can show the same figures.
+ */
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import LossExceedanceChart from "./LossExceedanceChart";
+import {
+  useDeleteQuantification,
+  useSaveQuantification,
+} from "@/hooks/queries";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/auth/authContext";
+import type { UseMonteCarloReturn } from "@/hooks/useMonteCarlo";
+import type { LossRange, RiskQuantification } from "@/types";
+import type { BackendLossDistribution } from "@/types/backend";
+import { formatLoss } from "@/utils/monteCarlo";
+import { useI18n } from "@/i18n";
+import { Calculator, Loader2, Pencil, Trash2 } from "lucide-react";
+
+interface RiskQuantificationPanelProps {
+  risk: { id: string; title: string; score: number; level: string };
+  quantification: RiskQuantification | null | undefined;
+  isLoading: boolean;
+  simulation: UseMonteCarloReturn;
+}
+
+type RangeKey = "frequency" | "magnitude";
+
+interface RangeDraft {
+  distribution: BackendLossDistribution;
+  min: string;
+  mostLikely: string;
+  max: string;
+}
+
+interface QuantificationDraft {
+  frequency: RangeDraft;
+  magnitude: RangeDraft;
+  currency: string;
+  notes: string;
+}
+
+const DISTRIBUTIONS: BackendLossDistribution[] = ["pert", "lognormal"];
+
+const toRangeDraft = (range: LossRange): RangeDraft => ({
+  distribution: range.distribution,
+  min: String(range.min),
+  mostLikely: range.mostLikely !== undefined ? String(range.mostLikely) : "",
+  max: String(range.max),
+});
+
+const emptyDraft = (): QuantificationDraft => ({
+  frequency: { distribution: "pert", min: "", mostLikely: "", max: "" },
+  magnitude: { distribution: "lognormal", min: "", mostLikely: "", max: "" },
+  currency: "USD",
+  notes: "",
+});
+
+/** The same checks the backend makes, so the form can say what is wrong. */
+const parseRange = (draft: RangeDraft): LossRange | null => {
+  const min = Number(draft.min);
+  const max = Number(draft.max);
+  if (draft.min === "" || draft.max === "") return null;
+  if (!Number.isFinite(min) || !Number.isFinite(max) || min < 0 || max <= min) {
+    return null;
+  }
+  if (draft.distribution === "lognormal") {
+    return min > 0 ? { distribution: "lognormal", min, max } : null;
+  }
+  const mostLikely = Number(draft.mostLikely);
+  if (draft.mostLikely === "" || mostLikely < min || mostLikely > max) {
+    return null;
+  }
+  return { distribution: "pert", min, mostLikely, max };
+};
+
+const RiskQuantificationPanel: React.FC<RiskQuantificationPanelProps> = ({
+  risk,
+  quantification,
+  isLoading,
+  simulation,
+}) => {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const { strings, isRTL } = useI18n();
+  const t = strings.quantification;
+  const locale = isRTL ? "ar-SA" : "en-US";
+
+  const saveQuantification = useSaveQuantification();
+  const deleteQuantification = useDeleteQuantification();
+
+  const [draft, setDraft] = useState<QuantificationDraft | null>(null);
+  const [confirmRemove, setConfirmRemove] = useState(false);
+
+  const summary = simulation.result?.risks[risk.id];
+  const currency = quantification?.currency ?? "USD";
+  const money = (value: number) => formatLoss(value, currency, locale);
+
+  const showError = (error: unknown) =>
+    toast({
+      title: t.saveFailed,
+      description:
+        error instanceof Error ? error.message : strings.common.pleaseTryAgain,
+      variant: "destructive",
+    });
+
+  const startEdit = () =>
+    setDraft(
+      quantification
+        ? {
+            frequency: toRangeDraft(quantification.frequency),
+            magnitude: toRangeDraft(quantification.magnitude),
+            currency: quantification.currency,
+            notes: quantification.notes ?? "",
+          }
+        : emptyDraft()
+    );
+
+  const updateRange = (key: RangeKey, patch: Partial<RangeDraft>) =>
+    setDraft(
+      (current) =>
+        current && { ...current, [key]: { ...current[key], ...patch } }
+    );
+
+  const save = async () => {
+    if (!draft) return;
+    const frequency = parseRange(draft.frequency);
+    const magnitude = parseRange(draft.magnitude);
+    const currencyCode = draft.currency.trim().toUpperCase();
+    if (!frequency || !magnitude || !/^[A-Z]{3}$/.test(currencyCode)) {
+      toast({
+        title: t.saveFailed,
+        description: t.invalidRanges,
+        variant: "destructive",
+      });
+      return;
+    }
+    try {
+      await saveQuantification.mutateAsync({
+        riskId: risk.id,
+        data: {
+          frequency,
+          magnitude,
+          currency: currencyCode,
+          notes: draft.notes.trim() || undefined,
+        },
+      });
+      toast({ title: t.saved });
+      setDraft(null);
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const remove = async () => {
+    try {
+      await deleteQuantification.mutateAsync(risk.id);
+      toast({ title: t.removed });
+    } catch (error) {
+      showError(error);
+    } finally {
+      setConfirmRemove(false);
+    }
+  };
+
+  const iconClass = isRTL ? "ml-2 h-4 w-4" : "mr-2 h-4 w-4";
+
+  const describeRange = (range: LossRange, format: (v: number) => string) =>
+    range.distribution === "pert"
+      ? t.pertSummary
+          .replace("{min}", format(range.min))
+          .replace("{mostLikely}", format(range.mostLikely ?? range.min))
+          .replace("{max}", format(range.max))
+      : t.lognormalSummary
+          .replace("{min}", format(range.min))
+          .replace("{max}", format(range.max));
+
+  const renderRangeEditor = (key: RangeKey) => {
+    const range = draft[key];
+    return (
+      <div className="space-y-3 rounded-md border p-3">
+        <div>
+          <h4 className="text-sm font-medium">
+            {key === "frequency" ? t.frequencyTitle : t.magnitudeTitle}
+          </h4>
+          <p className="text-xs text-muted-foreground">
+            {key === "frequency" ? t.frequencyHint : t.magnitudeHint}
+          </p>
+        </div>
+        <div className="space-y-2">
+          <Label>{t.distributionLabel}</Label>
+          <Select
+            value={range.distribution}
+            onValueChange={(v) =>
+              updateRange(key, { distribution: v as BackendLossDistribution })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DISTRIBUTIONS.map((distribution) => (
+                <SelectItem key={distribution} value={distribution}>
+                  {t.distributions[distribution]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {t.distributionHints[range.distribution]}
+          </p>
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs">
+              {range.distribution === "lognormal" ? t.low : t.min}
+            </Label>
+            <Input
+              type="number"
+              min={0}
+              step="any"
+              value={range.min}
+              onChange={(e) => updateRange(key, { min: e.target.value })}
+            />
+          </div>
+          {range.distribution === "pert" && (
+            <div className="space-y-1">
+              <Label className="text-xs">{t.mostLikely}</Label>
+              <Input
+                type="number"
+                min={0}
+                step="any"
+                value={range.mostLikely}
+                onChange={(e) =>
+                  updateRange(key, { mostLikely: e.target.value })
+                }
+              />
+            </div>
+          )}
+          <div className="space-y-1">
+            <Label className="text-xs">
+              {range.distribution === "lognormal" ? t.high : t.max}
+            </Label>
+            <Input
+              type="number"
+              min={0}
+              step="any"
+              value={range.max}
+              onChange={(e) => updateRange(key, { max: e.target.value })}
+            />
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground py-4">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        {strings.common.loading}
+      </div>
+    );
+  }
+
+  const stats: Array<[string, string]> = summary
+    ? [
+        [t.ale, money(summary.ale)],
+        [t.p50, money(summary.p50)],
+        [t.p90, money(summary.p90)],
+        [t.p95, money(summary.p95)],
+        [t.p99, money(summary.p99)],
+        [t.lossProbability, `${Math.round(summary.lossProbability * 100)}%`],
+      ]
+    : [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h4 className="text-sm font-medium">{t.title}</h4>
+          <p className="text-xs text-muted-foreground">{t.description}</p>
+          {quantification?.updatedAt && (
+            <p className="text-xs text-muted-foreground mt-1">
+              {t.lastUpdated
+                .replace(
+                  "{date}",
+                  new Date(quantification.updatedAt).toLocaleDateString()
+                )
+                .replace("{name}", quantification.updatedBy ?? "-")}
+            </p>
+          )}
+        </div>
+        {!draft && (
+          <div className="flex flex-wrap gap-2">
+            {can("canDelete") && quantification && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setConfirmRemove(true)}
+              >
+                <Trash2 className={iconClass} />
+                {t.remove}
+              </Button>
+            )}
+            {can("canEdit") && (
+              <Button size="sm" onClick={startEdit}>
+                {quantification ? (
+                  <Pencil className={iconClass} />
+                ) : (
+                  <Calculator className={iconClass} />
+                )}
+                {quantification ? t.edit : t.add}
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {!quantification && !draft && (
+        <p className="text-sm text-muted-foreground py-4">{t.empty}</p>
+      )}
+
+      {quantification && !draft && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div className="rounded-md border p-3">
+              <p className="text-xs text-muted-foreground">
+                {t.qualitativeScore}
+              </p>
+              <div className="flex items-center gap-2 mt-1">
+                <span className="text-lg font-semibold">{risk.score}</span>
+                <Badge variant="outline">
+                  {(strings.risks.levels as Record<string, string>)[
+                    risk.level
+                  ] ?? risk.level}
+                </Badge>
+              </div>
+            </div>
+            {stats.map(([label, value]) => (
+              <div key={label} className="rounded-md border p-3">
+                <p className="text-xs text-muted-foreground">{label}</p>
+                <p className="text-lg font-semibold mt-1">{value}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+            <div>
+              <span className="text-muted-foreground">{t.frequencyTitle}: </span>
+              {describeRange(quantification.frequency, (v) =>
+                v.toLocaleString(locale)
+              )}
+            </div>
+            <div>
+              <span className="text-muted-foreground">{t.magnitudeTitle}: </span>
+              {describeRange(quantification.magnitude, money)}
+            </div>
+            {quantification.notes && (
+              <p className="md:col-span-2 text-muted-foreground">
+                {quantification.notes}
+              </p>
+            )}
+          </div>
+
+          {simulation.error ? (
+            <p className="text-sm text-destructive">
+              {t.simulationFailed}: {simulation.error}
+            </p>
+          ) : summary ? (
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">{t.curveTitle}</h4>
+              <p className="text-xs text-muted-foreground">
+                {t.curveHint.replace(
+                  "{count}",
+                  simulation.result.iterations.toLocaleString(locale)
+                )}
+              </p>
+              <LossExceedanceChart summary={summary} currency={currency} />
+            </div>
+          ) : (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground py-4">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              {t.simulating}
+            </div>
+          )}
+        </>
+      )}
+
+      {draft && (
+        <div className="space-y-4 rounded-md border p-4">
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+            {renderRangeEditor("frequency")}
+            {renderRangeEditor("magnitude")}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-[160px_1fr] gap-4">
+            <div className="space-y-2">
+              <Label>{t.currencyLabel}</Label>
+              <Input
+                value={draft.currency}
+                maxLength={3}
+                onChange={(e) =>
+                  setDraft({ ...draft, currency: e.target.value.toUpperCase() })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>{t.notesLabel}</Label>
+              <Textarea
+                value={draft.notes}
+                placeholder={t.notesPlaceholder}
+                onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                rows={2}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setDraft(null)}
+              disabled={saveQuantification.isPending}
+            >
+              {strings.actions.cancel}
+            </Button>
+            <Button onClick={save} disabled={saveQuantification.isPending}>
+              {saveQuantification.isPending && (
+                <Loader2 className={`${iconClass} animate-spin`} />
+              )}
+              {strings.actions.save}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <AlertDialog open={confirmRemove} onOpenChange={setConfirmRemove}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t.removeTitle}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t.removeDesc.replace("{code}", risk.id)}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{strings.actions.cancel}</AlertDialogCancel>
+            <AlertDialogAction onClick={remove}>{t.remove}</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default RiskQuantificationPanel;
@@ -0,0 +1,317 @@
+/**
+ * RiskRelationshipGraph - The risk at the centre with everything it is
+ * linked to around it: risks it causes or is caused by, services it
+ * affects, policies governing it and KRIs monitoring it.
+ *
+ * Drawn as plain SVG. Nodes are grouped by relationship so each kind sits
+ * together on the ring; clicking a node (or Enter) opens that entity.
+ */
+import React, { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import type {
+  BackendRelationshipNodeType,
+  BackendRiskRelationType,
+} from "@/types/backend";
+import type { RiskRelationship } from "@/types";
+import {
+  relationshipLabelKey,
+  relationshipPath,
+} from "@/utils/relationships";
+import { useI18n } from "@/i18n";
+import { cn } from "@/lib/utils";
+
+interface RiskRelationshipGraphProps {
+  risk: { id: string; title: string };
+  relationships: RiskRelationship[];
+}
+
+const WIDTH = 760;
+const HEIGHT = 440;
+const NODE_WIDTH = 150;
+const NODE_HEIGHT = 44;
+const CENTER = { x: WIDTH / 2, y: HEIGHT / 2 };
+const RADIUS = { x: 270, y: 160 };
+
+const RELATION_TYPES: BackendRiskRelationType[] = [
+  "causes",
+  "affects",
+  "governed_by",
+  "monitors",
+];
+
+const NODE_KINDS: BackendRelationshipNodeType[] = [
+  "risk",
+  "service",
+  "policy",
+  "kri",
+];
+
+const NODE_STYLES: Record<BackendRelationshipNodeType, string> = {
+  risk: "fill-red-50 stroke-red-500 dark:fill-red-950",
+  service: "fill-blue-50 stroke-blue-500 dark:fill-blue-950",
+  policy: "fill-emerald-50 stroke-emerald-500 dark:fill-emerald-950",
+  kri: "fill-amber-50 stroke-amber-500 dark:fill-amber-950",
+};
+
+const LEGEND_STYLES: Record<BackendRelationshipNodeType, string> = {
+  risk: "bg-red-500",
+  service: "bg-blue-500",
+  policy: "bg-emerald-500",
+  kri: "bg-amber-500",
+};
+
+/** Ring order, so causes sit opposite the services they lead to */
+const GROUP_ORDER = (rel: RiskRelationship) =>
+  rel.type === "causes"
+    ? rel.direction === "incoming"
+      ? 0
+      : 1
+    : RELATION_TYPES.indexOf(rel.type) + 1;
+
+const truncate = (text: string, max: number) =>
+  text.length > max ? `${text.slice(0, max - 1)}…` : text;
+
+/** Where the line from one box centre to another leaves the box. */
+const clipToBox = (
+  from: { x: number; y: number },
+  to: { x: number; y: number }
+) => {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const scale = Math.min(
+    dx === 0 ? Infinity : NODE_WIDTH / 2 / Math.abs(dx),
+    dy === 0 ? Infinity : NODE_HEIGHT / 2 / Math.abs(dy)
+  );
+  return { x: from.x + dx * scale, y: from.y + dy * scale };
+};
+
+const RiskRelationshipGraph: React.FC<RiskRelationshipGraphProps> = ({
+  risk,
+  relationships,
+}) => {
+  const navigate = useNavigate();
+  const { strings } = useI18n();
+  const t = strings.riskRelationships;
+
+  const [hidden, setHidden] = useState<Set<BackendRiskRelationType>>(
+    new Set()
+  );
+  const [hovered, setHovered] = useState<string | null>(null);
+
+  const placed = useMemo(() => {
+    const visible = relationships
+      .filter((rel) => !hidden.has(rel.type))
+      .sort((a, b) => GROUP_ORDER(a) - GROUP_ORDER(b));
+    // Start at the left so incoming causes read left-to-right into the risk
+    return visible.map((rel, index) => {
+      const angle = Math.PI + (2 * Math.PI * index) / visible.length;
+      return {
+        rel,
+        x: CENTER.x + RADIUS.x * Math.cos(angle),
+        y: CENTER.y + RADIUS.y * Math.sin(angle),
+      };
+    });
+  }, [relationships, hidden]);
+
+  const toggle = (type: BackendRiskRelationType) =>
+    setHidden((current) => {
+      const next = new Set(current);
+      if (next.has(type)) next.delete(type);
+      else next.add(type);
+      return next;
+    });
+
+  const relationLabel = (rel: RiskRelationship) =>
+    t.relations[relationshipLabelKey(rel)];
+
+  const isDimmed = (id: string) => hovered !== null && hovered !== id;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {RELATION_TYPES.map((type) => (
+          <Button
+            key={type}
+            size="sm"
+            variant={hidden.has(type) ? "outline" : "secondary"}
+            aria-pressed={!hidden.has(type)}
+            onClick={() => toggle(type)}
+          >
+            {t.filters[type]}
+            <span className="ms-1 text-xs text-muted-foreground">
+              {relationships.filter((rel) => rel.type === type).length}
+            </span>
+          </Button>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto rounded-md border bg-muted/20">
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full min-w-[600px] h-auto"
+          role="group"
+          aria-label={t.graphLabel.replace("{code}", risk.id)}
+        >
+          <defs>
+            <marker
+              id="relationship-arrow"
+              viewBox="0 0 10 10"
+              refX="9"
+              refY="5"
+              markerWidth="7"
+              markerHeight="7"
+              orient="auto-start-reverse"
+            >
+              <path d="M 0 0 L 10 5 L 0 10 z" className="fill-muted-foreground" />
+            </marker>
+          </defs>
+
+          {placed.map(({ rel, x, y }) => {
+            const node = { x, y };
+            const start = clipToBox(CENTER, node);
+            const end = clipToBox(node, CENTER);
+            const [from, to] =
+              rel.direction === "outgoing" ? [start, end] : [end, start];
+            return (
+              <g
+                key={`edge-${rel.id}`}
+                className={cn(
+                  "transition-opacity",
+                  isDimmed(rel.id) && "opacity-20"
+                )}
+              >
+                <line
+                  x1={from.x}
+                  y1={from.y}
+                  x2={to.x}
+                  y2={to.y}
+                  className={cn(
+                    "stroke-muted-foreground",
+                    rel.derived && "[stroke-dasharray:4_4]"
+                  )}
+                  strokeWidth={hovered === rel.id ? 2 : 1.25}
+                  markerEnd="url(#relationship-arrow)"
+                />
+                <text
+                  x={(start.x + end.x) / 2}
+                  y={(start.y + end.y) / 2 - 4}
+                  textAnchor="middle"
+                  className="fill-muted-foreground text-[10px]"
+                >
+                  {relationLabel(rel)}
+                </text>
+              </g>
+            );
+          })}
+
+          {/* The risk itself */}
+          <g>
+            <rect
+              x={CENTER.x - NODE_WIDTH / 2}
+              y={CENTER.y - NODE_HEIGHT / 2}
+              width={NODE_WIDTH}
+              height={NODE_HEIGHT}
+              rx={8}
+              className="fill-primary stroke-primary"
+            />
+            <text
+              x={CENTER.x}
+              y={CENTER.y - 4}
+              textAnchor="middle"
+              className="fill-primary-foreground text-[11px] font-semibold"
+            >
+              {risk.id}
+            </text>
+            <text
+              x={CENTER.x}
+              y={CENTER.y + 12}
+              textAnchor="middle"
+              className="fill-primary-foreground text-[10px]"
+            >
+              {truncate(risk.title, 24)}
+            </text>
+          </g>
+
+          {placed.map(({ rel, x, y }) => (
+            <g
+              key={`node-${rel.id}`}
+              role="link"
+              tabIndex={0}
+              aria-label={`${relationLabel(rel)}: ${rel.node.code ?? ""} ${rel.node.name}`}
+              className={cn(
+                "cursor-pointer outline-none transition-opacity focus-visible:[&>rect]:stroke-[3px]",
+                isDimmed(rel.id) && "opacity-30"
+              )}
+              onMouseEnter={() => setHovered(rel.id)}
+              onMouseLeave={() => setHovered(null)}
+              onFocus={() => setHovered(rel.id)}
+              onBlur={() => setHovered(null)}
+              onClick={() => navigate(relationshipPath(rel.node))}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" || e.key === " ") {
+                  e.preventDefault();
+                  navigate(relationshipPath(rel.node));
+                }
+              }}
+            >
+              <title>{`${rel.node.code ?? ""} ${rel.node.name}${rel.node.status ? ` (${rel.node.status})` : ""}`}</title>
+              <rect
+                x={x - NODE_WIDTH / 2}
+                y={y - NODE_HEIGHT / 2}
+                width={NODE_WIDTH}
+                height={NODE_HEIGHT}
+                rx={8}
+                strokeWidth={hovered === rel.id ? 2.5 : 1.5}
+                className={NODE_STYLES[rel.node.type]}
+              />
+              <text
+                x={x}
+                y={y - 4}
+                textAnchor="middle"
+                className="fill-foreground text-[11px] font-semibold"
+              >
+                {rel.node.code ?? t.nodeKinds[rel.node.type]}
+              </text>
+              <text
+                x={x}
+                y={y + 12}
+                textAnchor="middle"
+                className="fill-muted-foreground text-[10px]"
+              >
+                {truncate(rel.node.name, 24)}
+              </text>
+            </g>
+          ))}
+
+          {placed.length === 0 && (
+            <text
+              x={CENTER.x}
+              y={CENTER.y + NODE_HEIGHT + 24}
+              textAnchor="middle"
+              className="fill-muted-foreground text-xs"
+            >
+              {t.noRelationships}
+            </text>
+          )}
+        </svg>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+        {NODE_KINDS.map((kind) => (
+          <span key={kind} className="flex items-center gap-1.5">
+            <span className={cn("h-2.5 w-2.5 rounded-sm", LEGEND_STYLES[kind])} />
+            {t.nodeKinds[kind]}
+          </span>
+        ))}
+        <span className="flex items-center gap-1.5">
+          <span className="w-5 border-t border-dashed border-muted-foreground" />
+          {t.derivedLegend}
+        </span>
+        <span className="ms-auto">{t.clickHint}</span>
+      </div>
+    </div>
+  );
+};
+
+export default RiskRelationshipGraph;
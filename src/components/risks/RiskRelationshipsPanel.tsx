@@ -0,0 +1,389 @@
+/**
+ * RiskRelationshipsPanel - Typed links between a risk and other risks,
+ * business services and policies, shown as a graph and as a list.
+ *
+ * KRIs monitoring the risk appear here too but are derived from the KRI's
+ * own risk, so they are changed from the KRI register rather than here.
+ */
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import RiskRelationshipGraph from "./RiskRelationshipGraph";
+import {
+  useCreateRelationship,
+  useDeleteRelationship,
+  useRelationshipTargets,
+  useRiskRelationships,
+} from "@/hooks/queries";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/auth/authContext";
+import type { RelationshipInput } from "@/api/relationshipApi";
+import type { RiskRelationship } from "@/types";
+import {
+  relationshipLabelKey,
+  relationshipPath,
+} from "@/utils/relationships";
+import { useI18n } from "@/i18n";
+import { Loader2, Plus, Unlink } from "lucide-react";
+
+interface RiskRelationshipsPanelProps {
+  risk: { id: string; title: string };
+}
+
+interface RelationshipDraft {
+  type: RelationshipInput["type"];
+  targetId: string;
+  notes: string;
+}
+
+const CREATABLE_TYPES: RelationshipInput["type"][] = [
+  "causes",
+  "affects",
+  "governed_by",
+];
+
+const emptyDraft = (): RelationshipDraft => ({
+  type: "causes",
+  targetId: "",
+  notes: "",
+});
+
+const RiskRelationshipsPanel: React.FC<RiskRelationshipsPanelProps> = ({
+  risk,
+}) => {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const { strings, isRTL } = useI18n();
+  const t = strings.riskRelationships;
+
+  const { data: relationships = [], isLoading } = useRiskRelationships(
+    risk.id
+  );
+  const createRelationship = useCreateRelationship();
+  const deleteRelationship = useDeleteRelationship();
+
+  const [adding, setAdding] = useState(false);
+  const [draft, setDraft] = useState<RelationshipDraft>(emptyDraft());
+  const [toRemove, setToRemove] = useState<RiskRelationship | null>(null);
+
+  const { data: targets = [], isLoading: targetsLoading } =
+    useRelationshipTargets(adding ? draft.type : undefined);
+
+  // Hide the risk itself and anything already linked the same way
+  const available = targets.filter(
+    (node) =>
+      !(node.type === "risk" && node.id === risk.id) &&
+      !relationships.some(
+        (rel) =>
+          rel.type === draft.type &&
+          rel.direction === "outgoing" &&
+          rel.node.type === node.type &&
+          rel.node._backendId === node._backendId
+      )
+  );
+
+  const showError = (error: unknown) =>
+    toast({
+      title: t.saveFailed,
+      description:
+        error instanceof Error ? error.message : strings.common.pleaseTryAgain,
+      variant: "destructive",
+    });
+
+  const openAdd = () => {
+    setDraft(emptyDraft());
+    setAdding(true);
+  };
+
+  const save = async () => {
+    if (!draft.targetId) return;
+    try {
+      await createRelationship.mutateAsync({
+        riskId: risk.id,
+        data: {
+          type: draft.type,
+          targetId: Number(draft.targetId),
+          notes: draft.notes.trim() || undefined,
+        },
+      });
+      toast({ title: t.created });
+      setAdding(false);
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const confirmRemove = async () => {
+    if (!toRemove?._backendId) return;
+    try {
+      await deleteRelationship.mutateAsync({
+        riskId: risk.id,
+        relationshipId: toRemove._backendId,
+      });
+      toast({ title: t.removed });
+    } catch (error) {
+      showError(error);
+    } finally {
+      setToRemove(null);
+    }
+  };
+
+  const iconClass = isRTL ? "ml-2 h-4 w-4" : "mr-2 h-4 w-4";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h4 className="text-sm font-medium">{t.title}</h4>
+          <p className="text-xs text-muted-foreground">{t.description}</p>
+        </div>
+        {can("canEdit") && (
+          <Button size="sm" onClick={openAdd}>
+            <Plus className={iconClass} />
+            {t.add}
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground py-4">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          {strings.common.loading}
+        </div>
+      ) : (
+        <>
+          <RiskRelationshipGraph risk={risk} relationships={relationships} />
+
+          {relationships.length > 0 && (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t.colRelation}</TableHead>
+                    <TableHead>{t.colEntity}</TableHead>
+                    <TableHead>{t.colStatus}</TableHead>
+                    {can("canDelete") && (
+                      <TableHead className="text-end">{t.colActions}</TableHead>
+                    )}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {relationships.map((rel) => (
+                    <TableRow key={rel.id}>
+                      <TableCell className="text-sm">
+                        {t.relations[relationshipLabelKey(rel)]}
+                        <div className="text-xs text-muted-foreground">
+                          {t.nodeKinds[rel.node.type]}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Link
+                          to={relationshipPath(rel.node)}
+                          className="font-medium hover:underline"
+                        >
+                          {rel.node.code && (
+                            <span className="font-mono text-xs text-muted-foreground">
+                              {rel.node.code}
+                            </span>
+                          )}{" "}
+                          {rel.node.name}
+                        </Link>
+                        {rel.notes && (
+                          <div className="text-xs text-muted-foreground">
+                            {rel.notes}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {rel.node.status ?? "-"}
+                      </TableCell>
+                      {can("canDelete") && (
+                        <TableCell>
+                          <div className="flex items-center justify-end">
+                            {rel.derived ? (
+                              <span className="text-xs text-muted-foreground">
+                                {t.derivedHint}
+                              </span>
+                            ) : (
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                title={t.remove}
+                                onClick={() => setToRemove(rel)}
+                              >
+                                <Unlink className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Add dialog */}
+      <Dialog open={adding} onOpenChange={setAdding}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t.addTitle}</DialogTitle>
+            <DialogDescription>
+              {t.addDesc.replace("{code}", risk.id)}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>{t.typeLabel}</Label>
+              <Select
+                value={draft.type}
+                onValueChange={(v) =>
+                  setDraft({
+                    ...draft,
+                    type: v as RelationshipInput["type"],
+                    targetId: "",
+                  })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CREATABLE_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {t.relations[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{t.targetLabels[draft.type]}</Label>
+              {targetsLoading ? (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  {strings.common.loading}
+                </div>
+              ) : available.length === 0 ? (
+                <p className="text-sm text-muted-foreground">{t.noTargets}</p>
+              ) : (
+                <Select
+                  value={draft.targetId}
+                  onValueChange={(v) => setDraft({ ...draft, targetId: v })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder={t.selectTarget} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {available.map((node) => (
+                      <SelectItem
+                        key={node.id}
+                        value={String(node._backendId)}
+                      >
+                        {node.code ? `${node.code} - ${node.name}` : node.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>{t.notesLabel}</Label>
+              <Textarea
+                value={draft.notes}
+                onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                rows={2}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setAdding(false)}
+              disabled={createRelationship.isPending}
+            >
+              {strings.actions.cancel}
+            </Button>
+            <Button
+              onClick={save}
+              disabled={createRelationship.isPending || !draft.targetId}
+            >
+              {createRelationship.isPending && (
+                <Loader2 className={`${iconClass} animate-spin`} />
+              )}
+              {strings.actions.save}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Remove confirmation */}
+      <AlertDialog
+        open={!!toRemove}
+        onOpenChange={(open) => !open && setToRemove(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t.removeTitle}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t.removeDesc.replace(
+                "{name}",
+                toRemove
+                  ? `${toRemove.node.code ?? ""} ${toRemove.node.name}`.trim()
+                  : ""
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{strings.actions.cancel}</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmRemove}>
+              {t.remove}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default RiskRelationshipsPanel;
@@ -0,0 +1,135 @@
+/**
+ * RiskStatusMenu - Lifecycle transition control for a single risk.
+ *
+ * Offers only the legal next stages; blocked ones stay visible but disabled
+ * with the reason underneath so users know what is missing.
+ */
+import React, { useMemo } from "react";
+import { ArrowRightLeft, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useChangeRiskStatus } from "@/hooks/queries";
+import type { Assessment, Risk, Treatment } from "@/types";
+import type { BackendRiskStatusType } from "@/utils/constants";
+import { getRiskTransitions } from "@/utils/riskLifecycle";
+import { useI18n } from "@/i18n";
+
+interface RiskStatusMenuProps {
+  risk: Risk;
+  assessments: Assessment[];
+  treatment: Treatment | null;
+}
+
+const RiskStatusMenu: React.FC<RiskStatusMenuProps> = ({
+  risk,
+  assessments,
+  treatment,
+}) => {
+  const { strings, isRTL } = useI18n();
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const changeStatus = useChangeRiskStatus();
+  const isChanging = changeStatus.isPending;
+
+  const labels = strings.risks.lifecycle;
+  const getLifecycleLabel = (status: string) =>
+    (strings.risks.lifecycleStatuses as Record<string, string>)[status] ??
+    status;
+
+  const transitions = useMemo(
+    () =>
+      getRiskTransitions(risk.lifecycleStatus, { assessments, treatment }),
+    [risk.lifecycleStatus, assessments, treatment]
+  );
+
+  const handleChange = async (status: BackendRiskStatusType) => {
+    if (!can("canEdit")) {
+      toast({
+        title: strings.common.notAllowed,
+        variant: "destructive",
+      });
+      return;
+    }
+    try {
+      await changeStatus.mutateAsync({ id: risk.id, status });
+      toast({
+        title: labels.toastChangedTitle,
+        description: labels.toastChangedDesc
+          .replace("{code}", risk.id)
+          .replace("{status}", getLifecycleLabel(status)),
+      });
+    } catch (error) {
+      toast({
+        title: labels.toastFailed,
+        description:
+          error instanceof Error
+            ? error.message
+            : strings.common.pleaseTryAgain,
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (!can("canEdit")) return null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={isChanging}>
+          {isChanging ? (
+            <Loader2
+              className={
+                isRTL ? "ml-2 h-4 w-4 animate-spin" : "mr-2 h-4 w-4 animate-spin"
+              }
+            />
+          ) : (
+            <ArrowRightLeft className={isRTL ? "ml-2 h-4 w-4" : "mr-2 h-4 w-4"} />
+          )}
+          {labels.changeStatus}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align={isRTL ? "start" : "end"} className="w-72">
+        <DropdownMenuLabel className="font-normal text-muted-foreground">
+          {labels.currentStage}: {getLifecycleLabel(risk.lifecycleStatus)}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {transitions.length === 0 && (
+          <p className="px-2 py-1.5 text-sm text-muted-foreground">
+            {labels.noTransitions}
+          </p>
+        )}
+        {transitions.map((option) => (
+          <DropdownMenuItem
+            key={option.status}
+            disabled={!option.allowed}
+            onClick={() => handleChange(option.status)}
+            className="flex flex-col items-start gap-0.5"
+          >
+            <span>
+              {labels.moveTo.replace(
+                "{status}",
+                getLifecycleLabel(option.status)
+              )}
+            </span>
+            {option.blocker && (
+              <span className="text-xs text-muted-foreground">
+                {labels.blockers[option.blocker]}
+              </span>
+            )}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default RiskStatusMenu;
@@ -0,0 +1,15 @@
+/**
+ * Risk Components Export
+ */
+export { default as RiskStatusMenu } from "./RiskStatusMenu";
+export { default as RiskBulkActions } from "./RiskBulkActions";
+export { default as AssessmentApprovalBadge } from "./AssessmentApprovalBadge";
+export { default as RiskAppetitePanel } from "./RiskAppetitePanel";
+export { default as ImpactBreakdownView } from "./ImpactBreakdownView";
+export { default as RiskRelationshipGraph } from "./RiskRelationshipGraph";
+export { default as RiskRelationshipsPanel } from "./RiskRelationshipsPanel";
+export { default as BowTieDiagram } from "./BowTieDiagram";
+export { default as BowTiePanel } from "./BowTiePanel";
+export { default as LossExceedanceChart } from "./LossExceedanceChart";
+export { default as RiskQuantificationPanel } from "./RiskQuantificationPanel";
+export { default as PortfolioLossCard } from "./PortfolioLossCard";
@@ -0,0 +1,165 @@
+/**
+ * ImpactScoringSettings - Impact dimensions and how they combine.
+ *
+ * Assessors score each dimension against its own criteria; the rule picked
+ * here turns those scores into the overall impact on the matrix.
+ */
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  IMPACT_AGGREGATION_RULES,
+  type ImpactAggregationRule,
+  type ImpactDimensionConfig,
+  type ImpactDimensionKey,
+  type ImpactScoringConfig,
+} from "@/utils/impactScoring";
+import { formatScaleLevel, type RiskMatrixScaleLevel } from "@/utils/riskMatrix";
+import { useI18n } from "@/i18n";
+
+interface ImpactScoringSettingsProps {
+  value: ImpactScoringConfig;
+  /** Impact levels of the matrix, for the criteria row labels */
+  levels: RiskMatrixScaleLevel[];
+  onChange: (next: ImpactScoringConfig) => void;
+  disabled?: boolean;
+}
+
+const ImpactScoringSettings: React.FC<ImpactScoringSettingsProps> = ({
+  value,
+  levels,
+  onChange,
+  disabled,
+}) => {
+  const { strings } = useI18n();
+  const t = strings.system;
+  const dimensionNames = strings.assessments.impactDimensions;
+  const ruleNames = strings.assessments.impactRules;
+  const ruleHints = strings.assessments.impactRuleHints;
+
+  const updateDimension = (
+    key: ImpactDimensionKey,
+    patch: Partial<ImpactDimensionConfig>
+  ) =>
+    onChange({
+      ...value,
+      dimensions: value.dimensions.map((d) =>
+        d.key === key ? { ...d, ...patch } : d
+      ),
+    });
+
+  const totalWeight = value.dimensions.reduce((sum, d) => sum + d.weight, 0);
+  const weighted = value.rule === "weighted_average";
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle>{t.impactTitle}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-muted-foreground">{t.impactHelp}</p>
+
+        <div className="space-y-2 max-w-sm">
+          <Label>{t.impactRule}</Label>
+          <Select
+            value={value.rule}
+            onValueChange={(rule) =>
+              onChange({ ...value, rule: rule as ImpactAggregationRule })
+            }
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {IMPACT_AGGREGATION_RULES.map((rule) => (
+                <SelectItem key={rule} value={rule}>
+                  {ruleNames[rule]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">{ruleHints[value.rule]}</p>
+        </div>
+
+        <Tabs defaultValue={value.dimensions[0]?.key}>
+          <TabsList className="flex-wrap h-auto">
+            {value.dimensions.map((d) => (
+              <TabsTrigger key={d.key} value={d.key}>
+                {dimensionNames[d.key]}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+          {value.dimensions.map((d) => (
+            <TabsContent key={d.key} value={d.key} className="space-y-4">
+              <div className="space-y-2 max-w-xs">
+                <Label htmlFor={`impact-weight-${d.key}`}>{t.impactWeight}</Label>
+                <Input
+                  id={`impact-weight-${d.key}`}
+                  type="number"
+                  min={0}
+                  value={d.weight}
+                  onChange={(e) =>
+                    updateDimension(d.key, {
+                      weight: Math.max(0, Number(e.target.value) || 0),
+                    })
+                  }
+                  disabled={disabled}
+                />
+                <p className="text-xs text-muted-foreground">
+                  {weighted
+                    ? t.impactWeightShare.replace(
+                        "{share}",
+                        String(
+                          totalWeight
+                            ? Math.round((d.weight / totalWeight) * 100)
+                            : 0
+                        )
+                      )
+                    : t.impactWeightUnused}
+                </p>
+              </div>
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">{t.impactCriteria}</h4>
+                {d.criteria.map((criteria, index) => (
+                  <div
+                    key={index}
+                    className="grid grid-cols-[10rem_1fr] items-center gap-2"
+                  >
+                    <span className="text-sm font-medium truncate">
+                      {formatScaleLevel(levels, index + 1)}
+                    </span>
+                    <Input
+                      value={criteria}
+                      aria-label={`${dimensionNames[d.key]} ${index + 1}`}
+                      placeholder={t.matrixCriteriaPlaceholder}
+                      onChange={(e) =>
+                        updateDimension(d.key, {
+                          criteria: d.criteria.map((c, i) =>
+                            i === index ? e.target.value : c
+                          ),
+                        })
+                      }
+                      disabled={disabled}
+                    />
+                  </div>
+                ))}
+              </div>
+            </TabsContent>
+          ))}
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ImpactScoringSettings;
@@ -0,0 +1,245 @@
+/**
+ * RiskMatrixSettings - Size, scale wording and cell colours of the matrix.
+ *
+ * Each likelihood and impact level gets a label and the criteria assessors
+ * score against. Clicking a cell cycles its colour through the levels and
+ * back to following the score thresholds.
+ */
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  MAX_MATRIX_SIZE,
+  MIN_MATRIX_SIZE,
+  RISK_MATRIX_LEVEL_LABELS,
+  matrixCellKey,
+  resizeRiskMatrix,
+  scoreLevel,
+  type RiskMatrixConfig,
+  type RiskMatrixLevelLabel,
+  type RiskMatrixScaleLevel,
+} from "@/utils/riskMatrix";
+import { cn } from "@/lib/utils";
+import { useI18n } from "@/i18n";
+import { RotateCcw } from "lucide-react";
+
+interface RiskMatrixSettingsProps {
+  value: RiskMatrixConfig;
+  thresholds: { low: number; medium: number; high: number };
+  onChange: (next: RiskMatrixConfig) => void;
+  /** Smallest size that still holds the ratings already in use */
+  minSize?: number;
+  disabled?: boolean;
+}
+
+const LEVEL_CELL_CLASSES: Record<RiskMatrixLevelLabel, string> = {
+  Low: "bg-status-low/20 border-status-low/50",
+  Medium: "bg-status-medium/20 border-status-medium/50",
+  High: "bg-status-high/20 border-status-high/50",
+  Critical: "bg-status-critical/20 border-status-critical/50",
+};
+
+const SIZES = Array.from(
+  { length: MAX_MATRIX_SIZE - MIN_MATRIX_SIZE + 1 },
+  (_, i) => MIN_MATRIX_SIZE + i
+);
+
+const RiskMatrixSettings: React.FC<RiskMatrixSettingsProps> = ({
+  value,
+  thresholds,
+  onChange,
+  minSize = MIN_MATRIX_SIZE,
+  disabled,
+}) => {
+  const { strings } = useI18n();
+  const t = strings.system;
+  const levelNames = strings.risks.levels as Record<string, string>;
+
+  const updateLevel = (
+    axis: "likelihood" | "impact",
+    index: number,
+    patch: Partial<RiskMatrixScaleLevel>
+  ) =>
+    onChange({
+      ...value,
+      [axis]: value[axis].map((level, i) =>
+        i === index ? { ...level, ...patch } : level
+      ),
+    });
+
+  // Auto -> Low -> Medium -> High -> Critical -> Auto
+  const cycleCell = (likelihood: number, impact: number) => {
+    const key = matrixCellKey(likelihood, impact);
+    const current = value.cellColors[key];
+    const next = current
+      ? RISK_MATRIX_LEVEL_LABELS[RISK_MATRIX_LEVEL_LABELS.indexOf(current) + 1]
+      : RISK_MATRIX_LEVEL_LABELS[0];
+    const cellColors = { ...value.cellColors };
+    if (next) cellColors[key] = next;
+    else delete cellColors[key];
+    onChange({ ...value, cellColors });
+  };
+
+  const scaleEditor = (axis: "likelihood" | "impact", title: string) => (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium">{title}</h4>
+      <div className="space-y-2">
+        {value[axis].map((level, index) => (
+          <div key={index} className="grid grid-cols-[2rem_1fr_2fr] items-center gap-2">
+            <span className="text-sm font-semibold text-center">{index + 1}</span>
+            <Input
+              value={level.label}
+              aria-label={`${title} ${index + 1} ${t.matrixLevelLabel}`}
+              placeholder={t.matrixLevelLabel}
+              onChange={(e) => updateLevel(axis, index, { label: e.target.value })}
+              disabled={disabled}
+            />
+            <Input
+              value={level.criteria}
+              aria-label={`${title} ${index + 1} ${t.matrixLevelCriteria}`}
+              placeholder={t.matrixCriteriaPlaceholder}
+              onChange={(e) =>
+                updateLevel(axis, index, { criteria: e.target.value })
+              }
+              disabled={disabled}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  const overrides = Object.keys(value.cellColors).length;
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle>{t.matrixTitle}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-muted-foreground">{t.matrixHelp}</p>
+
+        <div className="space-y-2 max-w-xs">
+          <Label>{t.matrixSize}</Label>
+          <Select
+            value={String(value.size)}
+            onValueChange={(size) => onChange(resizeRiskMatrix(value, Number(size)))}
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SIZES.map((size) => (
+                <SelectItem
+                  key={size}
+                  value={String(size)}
+                  disabled={size < minSize}
+                >
+                  {size} × {size}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">{t.matrixSizeHint}</p>
+          {minSize > MIN_MATRIX_SIZE && (
+            <p className="text-xs text-status-high">
+              {t.matrixSizeInUse.replace(/\{max\}/g, String(minSize))}
+            </p>
+          )}
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          {scaleEditor("likelihood", t.matrixLikelihoodLevels)}
+          {scaleEditor("impact", t.matrixImpactLevels)}
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div>
+              <h4 className="text-sm font-medium">{t.matrixCellColors}</h4>
+              <p className="text-xs text-muted-foreground">
+                {t.matrixCellColorsHelp}
+              </p>
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => onChange({ ...value, cellColors: {} })}
+              disabled={disabled || overrides === 0}
+            >
+              <RotateCcw className="h-4 w-4 me-2" />
+              {t.matrixResetColors}
+            </Button>
+          </div>
+          <div className="overflow-x-auto">
+            <div
+              className="grid gap-1 min-w-fit"
+              style={{
+                gridTemplateColumns: `2rem repeat(${value.size}, minmax(40px, 56px))`,
+              }}
+            >
+              {Array.from({ length: value.size }, (_, i) => value.size - i).map(
+                (likelihood) => (
+                  <div key={likelihood} className="contents">
+                    <span className="flex items-center justify-center text-xs font-semibold">
+                      {likelihood}
+                    </span>
+                    {Array.from({ length: value.size }, (_, j) => j + 1).map(
+                      (impact) => {
+                        const key = matrixCellKey(likelihood, impact);
+                        const override = value.cellColors[key];
+                        const level =
+                          override ?? scoreLevel(likelihood * impact, thresholds);
+                        return (
+                          <button
+                            key={key}
+                            type="button"
+                            className={cn(
+                              "relative aspect-square rounded-md border-2 text-xs font-medium transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+                              LEVEL_CELL_CLASSES[level],
+                              !override && "border-dashed"
+                            )}
+                            title={`${levelNames[level] ?? level}${
+                              override ? "" : ` (${t.matrixCellAuto})`
+                            }`}
+                            aria-label={`${strings.risks.form.likelihood} ${likelihood}, ${strings.risks.form.impact} ${impact}: ${levelNames[level] ?? level}`}
+                            onClick={() => cycleCell(likelihood, impact)}
+                            disabled={disabled}
+                          >
+                            {likelihood * impact}
+                          </button>
+                        );
+                      }
+                    )}
+                  </div>
+                )
+              )}
+              <span />
+              {Array.from({ length: value.size }, (_, j) => (
+                <span key={j} className="text-center text-xs font-semibold">
+                  {j + 1}
+                </span>
+              ))}
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {t.matrixCellLegend.replace("{count}", String(overrides))}
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RiskMatrixSettings;
@@ -0,0 +1,5 @@
+/**
+ * Settings Components Export
+ */
+export { default as RiskMatrixSettings } from "./RiskMatrixSettings";
+export { default as ImpactScoringSettings } from "./ImpactScoringSettings";
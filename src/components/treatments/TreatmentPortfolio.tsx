@@ -0,0 +1,264 @@
+/**
+ * TreatmentPortfolio - Budget and delivery across every treatment plan.
+ *
+ * Committed budget only counts plans that have been approved; the value
+ * delivered is each plan's budget scaled by its progress.
+ */
+import React, { useMemo } from "react";
+import { Link } from "react-router-dom";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { EmptyState } from "@/components/common/EmptyState";
+import { StatusBadge } from "@/components/common/StatusBadge";
+import { getTreatmentStatus } from "@/utils/treatmentWorkflow";
+import type { BackendTreatmentStatusType } from "@/utils/constants";
+import type { Risk, Treatment } from "@/types";
+import { useI18n } from "@/i18n";
+
+interface TreatmentPortfolioProps {
+  plans: Treatment[];
+  risks: Risk[];
+}
+
+const COMMITTED_STATUSES: BackendTreatmentStatusType[] = [
+  "approved",
+  "in_progress",
+  "completed",
+];
+
+const planProgress = (plan: Treatment) => {
+  if (plan._progress !== undefined && plan._progress !== null) {
+    return plan._progress;
+  }
+  const actions = plan.actions ?? [];
+  if (actions.length === 0) return 0;
+  const done = actions.filter((a) => a.status === "Done").length;
+  return Math.round((done / actions.length) * 100);
+};
+
+const formatAmount = (value: number) =>
+  Math.round(value).toLocaleString();
+
+export const TreatmentPortfolio: React.FC<TreatmentPortfolioProps> = ({
+  plans,
+  risks,
+}) => {
+  const { strings } = useI18n();
+  const t = strings.treatments;
+
+  const rows = useMemo(() => {
+    const riskTitles = new Map(risks.map((r) => [r.id, r.title]));
+    return plans
+      .map((plan) => {
+        const status = getTreatmentStatus(plan);
+        const budget = plan._estimatedBudget ?? 0;
+        const progress = planProgress(plan);
+        const actions = plan.actions ?? [];
+        return {
+          plan,
+          status,
+          budget,
+          progress,
+          committed: COMMITTED_STATUSES.includes(status),
+          delivered: (budget * progress) / 100,
+          riskTitle: riskTitles.get(plan.riskId) ?? plan.riskId,
+          actionsDone: actions.filter((a) => a.status === "Done").length,
+          actionsTotal: actions.length,
+        };
+      })
+      .filter((row) => row.status !== "cancelled")
+      .sort((a, b) => b.budget - a.budget);
+  }, [plans, risks]);
+
+  const totals = useMemo(() => {
+    const committed = rows.filter((r) => r.committed);
+    return {
+      committed: committed.reduce((sum, r) => sum + r.budget, 0),
+      delivered: committed.reduce((sum, r) => sum + r.delivered, 0),
+      actionsDone: rows.reduce((sum, r) => sum + r.actionsDone, 0),
+      actionsTotal: rows.reduce((sum, r) => sum + r.actionsTotal, 0),
+      inFlight: rows.filter(
+        (r) => r.status === "approved" || r.status === "in_progress"
+      ).length,
+    };
+  }, [rows]);
+
+  const chartData = rows
+    .filter((r) => r.committed && r.budget > 0)
+    .map((r) => ({
+      name: r.plan._title || r.plan.riskId,
+      budget: r.budget,
+      delivered: Math.round(r.delivered),
+    }));
+
+  if (rows.length === 0) {
+    return <EmptyState title={t.noPlansYet} />;
+  }
+
+  const deliveredPct =
+    totals.committed > 0
+      ? Math.round((totals.delivered / totals.committed) * 100)
+      : 0;
+  const actionsPct =
+    totals.actionsTotal > 0
+      ? Math.round((totals.actionsDone / totals.actionsTotal) * 100)
+      : 0;
+
+  const kpis = [
+    { label: t.budgetCommitted, value: formatAmount(totals.committed) },
+    {
+      label: t.budgetDelivered,
+      value: formatAmount(totals.delivered),
+      progress: deliveredPct,
+    },
+    {
+      label: t.actionsCompleted,
+      value: `${totals.actionsDone}/${totals.actionsTotal}`,
+      progress: actionsPct,
+    },
+    { label: t.plansInFlight, value: String(totals.inFlight) },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        {kpis.map((kpi) => (
+          <Card key={kpi.label} className="glass-card">
+            <CardContent className="p-4 space-y-2">
+              <p className="text-xs text-muted-foreground">{kpi.label}</p>
+              <p className="text-2xl font-bold">{kpi.value}</p>
+              {kpi.progress !== undefined && (
+                <Progress className="h-1.5" value={kpi.progress} />
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">{t.committedNote}</p>
+
+      {chartData.length > 0 && (
+        <Card className="glass-card">
+          <CardHeader>
+            <CardTitle className="text-base">{t.budgetVsDelivered}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="h-[280px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chartData}>
+                  <CartesianGrid
+                    strokeDasharray="3 3"
+                    stroke="hsl(var(--border))"
+                    vertical={false}
+                  />
+                  <XAxis
+                    dataKey="name"
+                    stroke="hsl(var(--muted-foreground))"
+                    fontSize={12}
+                  />
+                  <YAxis stroke="hsl(var(--muted-foreground))" fontSize={12} />
+                  <Tooltip
+                    formatter={(value: number) => formatAmount(value)}
+                    contentStyle={{
+                      backgroundColor: "hsl(var(--card))",
+                      border: "1px solid hsl(var(--border))",
+                      borderRadius: "8px",
+                    }}
+                  />
+                  <Legend />
+                  <Bar
+                    dataKey="budget"
+                    name={t.colBudget}
+                    fill="hsl(var(--chart-1))"
+                    radius={[4, 4, 0, 0]}
+                  />
+                  <Bar
+                    dataKey="delivered"
+                    name={t.colDelivered}
+                    fill="hsl(var(--status-success))"
+                    radius={[4, 4, 0, 0]}
+                  />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="glass-card">
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t.colPlan}</TableHead>
+                <TableHead>{t.colStatus}</TableHead>
+                <TableHead className="text-end">{t.colBudget}</TableHead>
+                <TableHead className="text-end">{t.colDelivered}</TableHead>
+                <TableHead>{t.colActions}</TableHead>
+                <TableHead>{t.colTarget}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.plan.id}>
+                  <TableCell>
+                    <Link
+                      to={`/treatments/${row.plan.riskId}`}
+                      className="font-medium hover:underline"
+                    >
+                      {row.plan._title || row.plan.id}
+                    </Link>
+                    <p className="text-xs text-muted-foreground">
+                      {row.plan.riskId} — {row.riskTitle}
+                    </p>
+                  </TableCell>
+                  <TableCell>
+                    <StatusBadge status={row.status}>
+                      {t.planStatuses[row.status] ?? row.status}
+                    </StatusBadge>
+                  </TableCell>
+                  <TableCell className="text-end">
+                    {formatAmount(row.budget)}
+                  </TableCell>
+                  <TableCell className="text-end">
+                    {row.committed ? formatAmount(row.delivered) : "—"}
+                  </TableCell>
+                  <TableCell className="min-w-[140px]">
+                    <div className="flex items-center gap-2">
+                      <Progress className="h-1.5 flex-1" value={row.progress} />
+                      <span className="text-xs text-muted-foreground">
+                        {row.actionsDone}/{row.actionsTotal}
+                      </span>
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {row.plan._targetDate || "—"}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default TreatmentPortfolio;
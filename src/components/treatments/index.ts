@@ -0,0 +1,4 @@
+/**
+ * Treatment Components Export
+ */
+export { default as TreatmentPortfolio } from "./TreatmentPortfolio";
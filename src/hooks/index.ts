@@ -4,3 +4,5 @@
 export { useIsMobile } from "./use-mobile";
 export { useToast, toast } from "./use-toast";
 export { usePermissions } from "./usePermissions";
+export { useMonteCarlo } from "./useMonteCarlo";
+export * from "./queries";
@@ -0,0 +1,20 @@
+/**
+ * Query Hooks Export
+ */
+export { queryKeys } from "./queryKeys";
+export type { QueryOptions } from "./queryKeys";
+export * from "./useRisks";
+export * from "./useAssessments";
+export * from "./useTreatments";
+export * from "./useKRIs";
+export * from "./useIncidents";
+export * from "./useControls";
+export * from "./useRelationships";
+export * from "./useBowTie";
+export * from "./useQuantification";
+export * from "./useAuditLogs";
+export * from "./useCommittee";
+export * from "./useReports";
+export * from "./useSettings";
+export * from "./useUsers";
+export * from "./useRiskAppetite";
@@ -0,0 +1,114 @@
+/**
+ * Query Keys - shared React Query cache keys.
+ *
+ * Keys are hierarchical so a mutation can invalidate a whole domain
+ * (e.g. `queryKeys.risks.all`) or a single entry (`queryKeys.risks.detail(id)`).
+ */
+import type { UseQueryOptions } from "@tanstack/react-query";
+import type { AssessmentFilters } from "@/api/assessmentApi";
+import type { ReportHistoryFilters } from "@/api/reportApi";
+import type { RiskFilters } from "@/api/riskApi";
+import type { UserFilters } from "@/api/userApi";
+
+/** Per-call overrides a page may pass, e.g. `refetchInterval` or `enabled`. */
+export type QueryOptions<T> = Omit<
+  UseQueryOptions<T, Error>,
+  "queryKey" | "queryFn"
+>;
+
+export const queryKeys = {
+  risks: {
+    all: ["risks"] as const,
+    lists: () => [...queryKeys.risks.all, "list"] as const,
+    list: (filters: RiskFilters = {}) =>
+      [...queryKeys.risks.lists(), filters] as const,
+    page: (filters: RiskFilters = {}) =>
+      [...queryKeys.risks.lists(), "page", filters] as const,
+    detail: (id: string) => [...queryKeys.risks.all, "detail", id] as const,
+    stats: () => [...queryKeys.risks.all, "stats"] as const,
+    categories: () => [...queryKeys.risks.all, "categories"] as const,
+  },
+  assessments: {
+    all: ["assessments"] as const,
+    list: (filters: AssessmentFilters = {}) =>
+      [...queryKeys.assessments.all, "list", filters] as const,
+    byRisk: (riskId: string) =>
+      [...queryKeys.assessments.all, "risk", riskId] as const,
+  },
+  treatments: {
+    all: ["treatments"] as const,
+    list: () => [...queryKeys.treatments.all, "list"] as const,
+    byRisk: (riskId: string) =>
+      [...queryKeys.treatments.all, "risk", riskId] as const,
+  },
+  kris: {
+    all: ["kris"] as const,
+    list: () => [...queryKeys.kris.all, "list"] as const,
+  },
+  controls: {
+    all: ["controls"] as const,
+    list: () => [...queryKeys.controls.all, "list"] as const,
+    byRisk: (riskId: string) =>
+      [...queryKeys.controls.all, "risk", riskId] as const,
+    tests: (controlId?: number) =>
+      [...queryKeys.controls.all, "tests", controlId ?? "all"] as const,
+  },
+  relationships: {
+    all: ["relationships"] as const,
+    byRisk: (riskId: string) =>
+      [...queryKeys.relationships.all, "risk", riskId] as const,
+    byService: (serviceId: string) =>
+      [...queryKeys.relationships.all, "service", serviceId] as const,
+    targets: (type: string) =>
+      [...queryKeys.relationships.all, "targets", type] as const,
+  },
+  bowTies: {
+    all: ["bowTies"] as const,
+    byRisk: (riskId: string) => [...queryKeys.bowTies.all, riskId] as const,
+  },
+  quantifications: {
+    all: ["quantifications"] as const,
+    list: () => [...queryKeys.quantifications.all, "list"] as const,
+    byRisk: (riskId: string) =>
+      [...queryKeys.quantifications.all, "risk", riskId] as const,
+  },
+  incidents: {
+    all: ["incidents"] as const,
+    list: () => [...queryKeys.incidents.all, "list"] as const,
+    byRisk: (riskId: string) =>
+      [...queryKeys.incidents.all, "risk", riskId] as const,
+  },
+  auditLogs: {
+    all: ["auditLogs"] as const,
+    byEntity: (entityType: string, entityId: string) =>
+      [...queryKeys.auditLogs.all, entityType, entityId] as const,
+  },
+  committee: {
+    all: ["committee"] as const,
+    meetings: () => [...queryKeys.committee.all, "meetings"] as const,
+    escalations: () => [...queryKeys.committee.all, "escalations"] as const,
+  },
+  users: {
+    all: ["users"] as const,
+    list: (filters: UserFilters = {}) =>
+      [...queryKeys.users.all, "list", filters] as const,
+  },
+  reports: {
+    all: ["reports"] as const,
+    types: () => [...queryKeys.reports.all, "types"] as const,
+    scheduled: () => [...queryKeys.reports.all, "scheduled"] as const,
+    history: (filters: ReportHistoryFilters = {}) =>
+      [...queryKeys.reports.all, "history", filters] as const,
+    snapshots: () => [...queryKeys.reports.all, "snapshots"] as const,
+    snapshot: (id: number) =>
+      [...queryKeys.reports.all, "snapshots", id] as const,
+  },
+  settings: {
+    system: ["settings", "system"] as const,
+  },
+  riskAppetite: {
+    all: ["riskAppetite"] as const,
+    evaluation: (riskId: number) =>
+      [...queryKeys.riskAppetite.all, "evaluation", riskId] as const,
+  },
+};
@@ -0,0 +1,99 @@
+/**
+ * Assessment queries - per-risk and portfolio assessments.
+ *
+ * Assessment writes change risk scores and levels, so they also invalidate
+ * the risk register and the risk's audit trail.
+ */
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { assessmentApi } from "@/api";
+import type { AssessmentFilters, AssessmentInput } from "@/api/assessmentApi";
+import type { Assessment } from "@/types";
+import { queryKeys, type QueryOptions } from "./queryKeys";
+
+export const useAssessments = (
+  filters: AssessmentFilters = {},
+  options?: QueryOptions<Assessment[]>
+) =>
+  useQuery({
+    queryKey: queryKeys.assessments.list(filters),
+    queryFn: () => assessmentApi.getAll(filters),
+    ...options,
+  });
+
+export const useRiskAssessments = (
+  riskId: string | undefined,
+  options?: QueryOptions<Assessment[]>
+) =>
+  useQuery({
+    queryKey: queryKeys.assessments.byRisk(riskId ?? ""),
+    queryFn: () => assessmentApi.getByRiskId(riskId as string),
+    enabled: !!riskId,
+    ...options,
+  });
+
+const useInvalidateAssessments = () => {
+  const queryClient = useQueryClient();
+  return (riskId?: string) => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.assessments.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.risks.all });
+    if (riskId) {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.auditLogs.byEntity("Risk", riskId),
+      });
+    }
+  };
+};
+
+export const useCreateAssessment = () => {
+  const invalidate = useInvalidateAssessments();
+  return useMutation({
+    mutationFn: (data: AssessmentInput) => assessmentApi.create(data),
+    onSuccess: (assessment) => invalidate(assessment.riskId),
+  });
+};
+
+export const useUpdateAssessment = () => {
+  const invalidate = useInvalidateAssessments();
+  return useMutation({
+    mutationFn: ({
+      id,
+      data,
+    }: {
+      id: string;
+      data: Partial<AssessmentInput>;
+    }) => assessmentApi.update(id, data),
+    onSuccess: (assessment) => invalidate(assessment.riskId),
+  });
+};
+
+export const useApproveAssessment = () => {
+  const invalidate = useInvalidateAssessments();
+  return useMutation({
+    mutationFn: (assessment: Assessment) =>
+      assessmentApi.approve(assessment.id),
+    onSuccess: (assessment) => invalidate(assessment.riskId),
+  });
+};
+
+export const useRejectAssessment = () => {
+  const invalidate = useInvalidateAssessments();
+  return useMutation({
+    mutationFn: ({
+      assessment,
+      reason,
+    }: {
+      assessment: Assessment;
+      reason: string;
+    }) => assessmentApi.reject(assessment.id, reason),
+    onSuccess: (assessment) => invalidate(assessment.riskId),
+  });
+};
+
+export const useDeleteAssessment = () => {
+  const invalidate = useInvalidateAssessments();
+  return useMutation({
+    mutationFn: (assessment: Assessment) =>
+      assessmentApi.delete(assessment.id),
+    onSuccess: (_result, assessment) => invalidate(assessment.riskId),
+  });
+};
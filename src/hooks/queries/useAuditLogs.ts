@@ -0,0 +1,19 @@
+/**
+ * Audit log queries - audit trail for a single entity.
+ */
+import { useQuery } from "@tanstack/react-query";
+import { userApi } from "@/api";
+import type { AuditLog } from "@/types";
+import { queryKeys, type QueryOptions } from "./queryKeys";
+
+export const useEntityAuditLogs = (
+  entityType: string,
+  entityId: string | undefined,
+  options?: QueryOptions<AuditLog[]>
+) =>
+  useQuery({
+    queryKey: queryKeys.auditLogs.byEntity(entityType, entityId ?? ""),
+    queryFn: () => userApi.getAuditLogsByEntity(entityType, entityId as string),
+    enabled: !!entityId,
+    ...options,
+  });
@@ -0,0 +1,35 @@
+/**
+ * Bow-tie queries - the cause/consequence analysis of a single risk.
+ *
+ * Saving is recorded on the risk, so it also invalidates the risk's audit
+ * trail.
+ */
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { bowTieApi, extractNumericId } from "@/api";
+import type { BowTie } from "@/types";
+import { queryKeys, type QueryOptions } from "./queryKeys";
+
+export const useBowTie = (
+  riskId: string | undefined,
+  options?: QueryOptions<BowTie | null>
+) =>
+  useQuery({
+    queryKey: queryKeys.bowTies.byRisk(riskId ?? ""),
+    queryFn: () => bowTieApi.getByRiskId(extractNumericId(riskId as string)),
+    enabled: !!riskId,
+    ...options,
+  });
+
+export const useSaveBowTie = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (bowTie: BowTie) =>
+      bowTieApi.save(extractNumericId(bowTie.riskId), bowTie),
+    onSuccess: (bowTie) => {
+      queryClient.setQueryData(queryKeys.bowTies.byRisk(bowTie.riskId), bowTie);
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.auditLogs.byEntity("Risk", bowTie.riskId),
+      });
+    },
+  });
+};
@@ -0,0 +1,65 @@
+/**
+ * Committee queries - governance meetings and risk escalations.
+ */
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { committeeApi } from "@/api";
+import type { CommitteeEscalation, CommitteeMeeting } from "@/types";
+import { queryKeys, type QueryOptions } from "./queryKeys";
+
+export const useCommitteeMeetings = (
+  options?: QueryOptions<CommitteeMeeting[]>
+) =>
+  useQuery({
+    queryKey: queryKeys.committee.meetings(),
+    queryFn: () => committeeApi.getMeetings(),
+    ...options,
+  });
+
+export const useCommitteeEscalations = (
+  options?: QueryOptions<CommitteeEscalation[]>
+) =>
+  useQuery({
+    queryKey: queryKeys.committee.escalations(),
+    queryFn: () => committeeApi.getEscalations(),
+    ...options,
+  });
+
+const useInvalidateCommittee = () => {
+  const queryClient = useQueryClient();
+  return () =>
+    queryClient.invalidateQueries({ queryKey: queryKeys.committee.all });
+};
+
+export const useCreateMeeting = () => {
+  const invalidate = useInvalidateCommittee();
+  return useMutation({
+    mutationFn: (data: Partial<CommitteeMeeting>) =>
+      committeeApi.createMeeting(data),
+    onSuccess: invalidate,
+  });
+};
+
+export const useDeleteMeeting = () => {
+  const invalidate = useInvalidateCommittee();
+  return useMutation({
+    mutationFn: (id: number) => committeeApi.deleteMeeting(id),
+    onSuccess: invalidate,
+  });
+};
+
+export const useCreateEscalation = () => {
+  const invalidate = useInvalidateCommittee();
+  return useMutation({
+    mutationFn: (data: Partial<CommitteeEscalation>) =>
+      committeeApi.createEscalation(data),
+    onSuccess: invalidate,
+  });
+};
+
+export const useDeleteEscalation = () => {
+  const invalidate = useInvalidateCommittee();
+  return useMutation({
+    mutationFn: (id: number) => committeeApi.deleteEscalation(id),
+    onSuccess: invalidate,
+  });
+};
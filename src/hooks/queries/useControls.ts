@@ -0,0 +1,117 @@
+/**
+ * Control queries - control library, the controls linked to a risk and
+ * control test results.
+ *
+ * Linking, re-rating or unlinking a control is recorded on the risk, so
+ * those writes also invalidate the risk's audit trail.
+ */
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { controlApi, extractNumericId } from "@/api";
+import type { ControlTestInput, RiskControlInput } from "@/api/controlApi";
+import type { Control, ControlTest, RiskControl } from "@/types";
+import { queryKeys, type QueryOptions } from "./queryKeys";
+
+export const useControls = (options?: QueryOptions<Control[]>) =>
+  useQuery({
+    queryKey: queryKeys.controls.list(),
+    queryFn: () => controlApi.getAll(),
+    ...options,
+  });
+
+export const useRiskControls = (
+  riskId: string | undefined,
+  options?: QueryOptions<RiskControl[]>
+) =>
+  useQuery({
+    queryKey: queryKeys.controls.byRisk(riskId ?? ""),
+    queryFn: () => controlApi.getByRiskId(extractNumericId(riskId as string)),
+    enabled: !!riskId,
+    ...options,
+  });
+
+export const useControlTests = (
+  controlId?: number,
+  options?: QueryOptions<ControlTest[]>
+) =>
+  useQuery({
+    queryKey: queryKeys.controls.tests(controlId),
+    queryFn: () => controlApi.getTests({ controlId }),
+    ...options,
+  });
+
+const useInvalidateRiskControls = () => {
+  const queryClient = useQueryClient();
+  return (riskId: string) => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.controls.all });
+    queryClient.invalidateQueries({
+      queryKey: queryKeys.auditLogs.byEntity("Risk", riskId),
+    });
+  };
+};
+
+export const useLinkControl = () => {
+  const invalidate = useInvalidateRiskControls();
+  return useMutation({
+    mutationFn: ({
+      riskId,
+      controlId,
+      data,
+    }: {
+      riskId: string;
+      controlId: number;
+      data?: RiskControlInput;
+    }) => controlApi.link(extractNumericId(riskId), controlId, data),
+    onSuccess: (link) => invalidate(link.riskId),
+  });
+};
+
+export const useUpdateRiskControl = () => {
+  const invalidate = useInvalidateRiskControls();
+  return useMutation({
+    mutationFn: ({
+      riskId,
+      controlId,
+      data,
+    }: {
+      riskId: string;
+      controlId: number;
+      data: RiskControlInput;
+    }) => controlApi.updateLink(extractNumericId(riskId), controlId, data),
+    onSuccess: (link) => invalidate(link.riskId),
+  });
+};
+
+export const useUnlinkControl = () => {
+  const invalidate = useInvalidateRiskControls();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ riskId, controlId }: { riskId: string; controlId: number }) =>
+      controlApi.unlink(extractNumericId(riskId), controlId),
+    onSuccess: (_, { riskId }) => {
+      invalidate(riskId);
+      // Residual assessments drop the unlinked control from their support
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.assessments.byRisk(riskId),
+      });
+    },
+  });
+};
+
+export const useRecordControlTest = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({
+      controlId,
+      data,
+    }: {
+      controlId: number;
+      data: ControlTestInput;
+    }) => controlApi.recordTest(controlId, data),
+    onSuccess: () => {
+      // A test moves the schedule and the operating effectiveness on every
+      // linked risk, so refresh all control data and the audit trails
+      queryClient.invalidateQueries({ queryKey: queryKeys.controls.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.auditLogs.all });
+    },
+  });
+};
@@ -0,0 +1,25 @@
+/**
+ * Incident queries - incident register and incidents linked to a risk.
+ */
+import { useQuery } from "@tanstack/react-query";
+import { incidentApi } from "@/api";
+import type { Incident } from "@/types";
+import { queryKeys, type QueryOptions } from "./queryKeys";
+
+export const useIncidents = (options?: QueryOptions<Incident[]>) =>
+  useQuery({
+    queryKey: queryKeys.incidents.list(),
+    queryFn: () => incidentApi.getAll(),
+    ...options,
+  });
+
+export const useRiskIncidents = (
+  riskId: string | undefined,
+  options?: QueryOptions<Incident[]>
+) =>
+  useQuery({
+    queryKey: queryKeys.incidents.byRisk(riskId ?? ""),
+    queryFn: () => incidentApi.getByRiskId(riskId as string),
+    enabled: !!riskId,
+    ...options,
+  });
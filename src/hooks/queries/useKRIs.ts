@@ -0,0 +1,14 @@
+/**
+ * KRI queries - key risk indicator register.
+ */
+import { useQuery } from "@tanstack/react-query";
+import { kriApi } from "@/api";
+import type { KRI } from "@/types";
+import { queryKeys, type QueryOptions } from "./queryKeys";
+
+export const useKRIs = (options?: QueryOptions<KRI[]>) =>
+  useQuery({
+    queryKey: queryKeys.kris.list(),
+    queryFn: () => kriApi.getAll(),
+    ...options,
+  });
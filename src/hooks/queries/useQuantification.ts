@@ -0,0 +1,70 @@
+/**
+ * Quantification queries - FAIR inputs for single risks and the whole
+ * portfolio.
+ *
+ * Changes are recorded on the risk, so they also invalidate the risk's
+ * audit trail.
+ */
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { extractNumericId, quantificationApi } from "@/api";
+import type { QuantificationInput } from "@/api/quantificationApi";
+import type { RiskQuantification } from "@/types";
+import { queryKeys, type QueryOptions } from "./queryKeys";
+
+export const useQuantifications = (
+  options?: QueryOptions<RiskQuantification[]>
+) =>
+  useQuery({
+    queryKey: queryKeys.quantifications.list(),
+    queryFn: () => quantificationApi.getAll(),
+    ...options,
+  });
+
+export const useRiskQuantification = (
+  riskId: string | undefined,
+  options?: QueryOptions<RiskQuantification | null>
+) =>
+  useQuery({
+    queryKey: queryKeys.quantifications.byRisk(riskId ?? ""),
+    queryFn: () =>
+      quantificationApi.getByRiskId(extractNumericId(riskId as string)),
+    enabled: !!riskId,
+    ...options,
+  });
+
+export const useSaveQuantification = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({
+      riskId,
+      data,
+    }: {
+      riskId: string;
+      data: QuantificationInput;
+    }) => quantificationApi.save(extractNumericId(riskId), data),
+    onSuccess: (_, { riskId }) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.quantifications.all,
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.auditLogs.byEntity("Risk", riskId),
+      });
+    },
+  });
+};
+
+export const useDeleteQuantification = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (riskId: string) =>
+      quantificationApi.remove(extractNumericId(riskId)),
+    onSuccess: (_, riskId) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.quantifications.all,
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.auditLogs.byEntity("Risk", riskId),
+      });
+    },
+  });
+};
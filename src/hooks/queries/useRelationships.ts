@@ -0,0 +1,129 @@
+/**
+ * Relationship queries - the typed links around a risk and the risks that
+ * touch a business service.
+ *
+ * A causal link shows up on both risks and in service impact chains, so
+ * writes invalidate every relationship query along with the audit trails.
+ */
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  bcpApi,
+  policyDocumentApi,
+  relationshipApi,
+  riskApi,
+  extractNumericId,
+} from "@/api";
+import type { RelationshipInput } from "@/api/relationshipApi";
+import type { RelationshipNode, RiskRelationship, ServiceRisk } from "@/types";
+import { queryKeys, type QueryOptions } from "./queryKeys";
+
+export const useRiskRelationships = (
+  riskId: string | undefined,
+  options?: QueryOptions<RiskRelationship[]>
+) =>
+  useQuery({
+    queryKey: queryKeys.relationships.byRisk(riskId ?? ""),
+    queryFn: () =>
+      relationshipApi.getByRiskId(extractNumericId(riskId as string)),
+    enabled: !!riskId,
+    ...options,
+  });
+
+export const useServiceRisks = (
+  serviceId: string | undefined,
+  options?: QueryOptions<ServiceRisk[]>
+) =>
+  useQuery({
+    queryKey: queryKeys.relationships.byService(serviceId ?? ""),
+    queryFn: () =>
+      relationshipApi.getServiceRisks(extractNumericId(serviceId as string)),
+    enabled: !!serviceId,
+    ...options,
+  });
+
+/**
+ * Entities a new relationship of the given type can point at: risks for
+ * "causes", services for "affects" and policies for "governed_by".
+ */
+const fetchRelationshipTargets = async (
+  type: RelationshipInput["type"]
+): Promise<RelationshipNode[]> => {
+  switch (type) {
+    case "causes":
+      return (await riskApi.getAll()).map((risk) => ({
+        type: "risk",
+        id: risk.id,
+        code: risk.id,
+        name: risk.title,
+        status: risk.level,
+        _backendId: risk._backendId ?? extractNumericId(risk.id),
+      }));
+    case "affects":
+      return (await bcpApi.getServices()).map((service) => ({
+        type: "service",
+        id: service.id,
+        code: service.id,
+        name: service.name,
+        status: service.criticality,
+        _backendId: extractNumericId(service.id),
+      }));
+    case "governed_by":
+      return (await policyDocumentApi.getAll({ per_page: 100 })).items.map(
+        (policy) => ({
+          type: "policy",
+          id: String(policy.id),
+          code: policy.document_code ?? undefined,
+          name: policy.title,
+          status: policy.status,
+          _backendId: policy.id,
+        })
+      );
+  }
+};
+
+export const useRelationshipTargets = (
+  type: RelationshipInput["type"] | undefined,
+  options?: QueryOptions<RelationshipNode[]>
+) =>
+  useQuery({
+    queryKey: queryKeys.relationships.targets(type ?? ""),
+    queryFn: () => fetchRelationshipTargets(type),
+    enabled: !!type,
+    ...options,
+  });
+
+const useInvalidateRelationships = () => {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.relationships.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.auditLogs.all });
+  };
+};
+
+export const useCreateRelationship = () => {
+  const invalidate = useInvalidateRelationships();
+  return useMutation({
+    mutationFn: ({
+      riskId,
+      data,
+    }: {
+      riskId: string;
+      data: RelationshipInput;
+    }) => relationshipApi.create(extractNumericId(riskId), data),
+    onSuccess: () => invalidate(),
+  });
+};
+
+export const useDeleteRelationship = () => {
+  const invalidate = useInvalidateRelationships();
+  return useMutation({
+    mutationFn: ({
+      riskId,
+      relationshipId,
+    }: {
+      riskId: string;
+      relationshipId: number;
+    }) => relationshipApi.remove(extractNumericId(riskId), relationshipId),
+    onSuccess: () => invalidate(),
+  });
+};
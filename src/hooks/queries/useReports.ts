@@ -0,0 +1,112 @@
+/**
+ * Report queries - report types, schedules, generated-report history and
+ * register snapshots.
+ */
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { reportApi } from "@/api";
+import type {
+  RegisterSnapshot,
+  ReportHistoryFilters,
+  ReportRun,
+  ReportType,
+  ScheduledReport,
+  ScheduledReportInput,
+} from "@/api/reportApi";
+import { queryKeys, type QueryOptions } from "./queryKeys";
+
+export const useReportTypes = (options?: QueryOptions<ReportType[]>) =>
+  useQuery({
+    queryKey: queryKeys.reports.types(),
+    queryFn: () => reportApi.getReportTypes(),
+    staleTime: Infinity,
+    ...options,
+  });
+
+export const useScheduledReports = (
+  options?: QueryOptions<ScheduledReport[]>
+) =>
+  useQuery({
+    queryKey: queryKeys.reports.scheduled(),
+    queryFn: () => reportApi.getScheduledReports(),
+    ...options,
+  });
+
+export const useReportHistory = (
+  filters: ReportHistoryFilters = {},
+  options?: QueryOptions<ReportRun[]>
+) =>
+  useQuery({
+    queryKey: queryKeys.reports.history(filters),
+    queryFn: () => reportApi.getHistory(filters),
+    ...options,
+  });
+
+export const useRegisterSnapshots = (
+  options?: QueryOptions<RegisterSnapshot[]>
+) =>
+  useQuery({
+    queryKey: queryKeys.reports.snapshots(),
+    queryFn: () => reportApi.getSnapshots(),
+    ...options,
+  });
+
+export const useRegisterSnapshot = (
+  id: number | undefined,
+  options?: QueryOptions<RegisterSnapshot>
+) =>
+  useQuery({
+    queryKey: queryKeys.reports.snapshot(id ?? 0),
+    queryFn: () => reportApi.getSnapshot(id as number),
+    enabled: !!id,
+    // A snapshot never changes once taken
+    staleTime: Infinity,
+    ...options,
+  });
+
+const useInvalidateReports = () => {
+  const queryClient = useQueryClient();
+  return () =>
+    queryClient.invalidateQueries({ queryKey: queryKeys.reports.all });
+};
+
+export const useCreateScheduledReport = () => {
+  const invalidate = useInvalidateReports();
+  return useMutation({
+    mutationFn: (data: ScheduledReportInput) =>
+      reportApi.createScheduledReport(data),
+    onSuccess: invalidate,
+  });
+};
+
+export const useDeleteReport = () => {
+  const invalidate = useInvalidateReports();
+  return useMutation({
+    mutationFn: (id: number) => reportApi.deleteReport(id),
+    onSuccess: invalidate,
+  });
+};
+
+export const useDeleteScheduledReport = () => {
+  const invalidate = useInvalidateReports();
+  return useMutation({
+    mutationFn: (id: number) => reportApi.deleteScheduledReport(id),
+    onSuccess: invalidate,
+  });
+};
+
+export const useCreateRegisterSnapshot = () => {
+  const invalidate = useInvalidateReports();
+  return useMutation({
+    mutationFn: (data: { name: string; description?: string }) =>
+      reportApi.createSnapshot(data),
+    onSuccess: invalidate,
+  });
+};
+
+export const useDeleteRegisterSnapshot = () => {
+  const invalidate = useInvalidateReports();
+  return useMutation({
+    mutationFn: (id: number) => reportApi.deleteSnapshot(id),
+    onSuccess: invalidate,
+  });
+};
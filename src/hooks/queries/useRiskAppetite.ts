@@ -0,0 +1,42 @@
+/**
+ * Risk appetite queries - per-risk evaluation against the appetite limits.
+ */
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { riskAppetiteApi } from "@/api";
+import type { RiskEvaluation } from "@/api/riskAppetiteApi";
+import { queryKeys, type QueryOptions } from "./queryKeys";
+
+export const useRiskAppetiteEvaluation = (
+  riskId: number | undefined,
+  options?: QueryOptions<RiskEvaluation>
+) =>
+  useQuery({
+    queryKey: queryKeys.riskAppetite.evaluation(riskId ?? 0),
+    queryFn: () => riskAppetiteApi.evaluateRisk(riskId as number),
+    enabled: !!riskId,
+    ...options,
+  });
+
+export const useCheckRiskAppetite = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({
+      riskId,
+      notify,
+      autoEscalate,
+    }: {
+      riskId: number;
+      notify: boolean;
+      autoEscalate: boolean;
+    }) =>
+      riskAppetiteApi.checkRisk(riskId, {
+        notify,
+        auto_escalate: autoEscalate,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.riskAppetite.all });
+      // An escalation lands on the committee board
+      queryClient.invalidateQueries({ queryKey: queryKeys.committee.all });
+    },
+  });
+};
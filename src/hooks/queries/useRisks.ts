@@ -0,0 +1,144 @@
+/**
+ * Risk queries - cached risk register, details and statistics.
+ */
+import {
+  keepPreviousData,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { riskApi } from "@/api";
+import type { RiskFilters, RiskInput, RiskPage } from "@/api/riskApi";
+import type { Risk } from "@/types";
+import type { BackendRiskStats } from "@/types/backend";
+import type { BackendRiskStatusType, RiskStatus } from "@/utils/constants";
+import { queryKeys, type QueryOptions } from "./queryKeys";
+
+export const useRisks = (
+  filters: RiskFilters = {},
+  options?: QueryOptions<Risk[]>
+) =>
+  useQuery({
+    queryKey: queryKeys.risks.list(filters),
+    queryFn: () => riskApi.getAll(filters),
+    ...options,
+  });
+
+/**
+ * One server-side page of the register. The previous page stays on screen
+ * while the next one loads so paging and sorting do not flash a loader.
+ */
+export const useRiskPage = (
+  filters: RiskFilters,
+  options?: QueryOptions<RiskPage>
+) =>
+  useQuery({
+    queryKey: queryKeys.risks.page(filters),
+    queryFn: () => riskApi.getPage(filters),
+    placeholderData: keepPreviousData,
+    ...options,
+  });
+
+/**
+ * Single risk. While the detail request is in flight the matching row from
+ * any cached register list is shown, so opening a risk renders immediately.
+ */
+export const useRisk = (
+  id: string | undefined,
+  options?: QueryOptions<Risk | null>
+) => {
+  const queryClient = useQueryClient();
+  return useQuery({
+    queryKey: queryKeys.risks.detail(id ?? ""),
+    queryFn: () => riskApi.getById(id as string),
+    enabled: !!id,
+    placeholderData: () =>
+      queryClient
+        .getQueriesData<Risk[] | RiskPage>({
+          queryKey: queryKeys.risks.lists(),
+        })
+        .flatMap(([, data]) =>
+          Array.isArray(data) ? data : data?.items ?? []
+        )
+        .find((risk) => risk.id === id),
+    ...options,
+  });
+};
+
+export const useRiskStats = (options?: QueryOptions<BackendRiskStats>) =>
+  useQuery({
+    queryKey: queryKeys.risks.stats(),
+    queryFn: () => riskApi.getStats(),
+    ...options,
+  });
+
+export const useRiskCategories = () =>
+  useQuery({
+    queryKey: queryKeys.risks.categories(),
+    queryFn: () => riskApi.getCategories(),
+    staleTime: 10 * 60 * 1000,
+  });
+
+// ===========================================
+// Mutations
+// ===========================================
+
+export const useCreateRisk = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: RiskInput) => riskApi.create(data),
+    onSuccess: () =>
+      queryClient.invalidateQueries({ queryKey: queryKeys.risks.all }),
+  });
+};
+
+export const useUpdateRisk = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<RiskInput> }) =>
+      riskApi.update(id, data),
+    onSuccess: (_risk, { id }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.risks.all });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.auditLogs.byEntity("Risk", id),
+      });
+    },
+  });
+};
+
+export const useChangeRiskStatus = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({
+      id,
+      status,
+    }: {
+      id: string;
+      status: RiskStatus | BackendRiskStatusType;
+    }) => riskApi.changeStatus(id, status),
+    onSuccess: (risk, { id }) => {
+      queryClient.setQueryData(queryKeys.risks.detail(id), risk);
+      queryClient.invalidateQueries({ queryKey: queryKeys.risks.all });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.auditLogs.byEntity("Risk", id),
+      });
+    },
+  });
+};
+
+export const useDeleteRisk = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => riskApi.delete(id),
+    onSuccess: (_result, id) => {
+      queryClient.removeQueries({ queryKey: queryKeys.risks.detail(id) });
+      // Assessments, treatments and incidents hang off the deleted risk.
+      [
+        queryKeys.risks.all,
+        queryKeys.assessments.all,
+        queryKeys.treatments.all,
+        queryKeys.incidents.all,
+      ].forEach((queryKey) => queryClient.invalidateQueries({ queryKey }));
+    },
+  });
+};
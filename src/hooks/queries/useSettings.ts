@@ -0,0 +1,35 @@
+/**
+ * Settings queries - system settings shared by several pages.
+ */
+import { useQuery } from "@tanstack/react-query";
+import { userApi } from "@/api";
+import { getStoredRiskMatrix } from "@/utils/constants";
+import type { RiskMatrixConfig } from "@/utils/riskMatrix";
+import {
+  normalizeImpactScoring,
+  type ImpactScoringConfig,
+} from "@/utils/impactScoring";
+import { queryKeys } from "./queryKeys";
+
+export const useSystemSettings = () =>
+  useQuery({
+    queryKey: queryKeys.settings.system,
+    queryFn: () => userApi.getSystemSettings(),
+    staleTime: 10 * 60 * 1000,
+  });
+
+/** The configured likelihood x impact matrix, from cache until settings load. */
+export const useRiskMatrix = (): RiskMatrixConfig => {
+  const settingsQuery = useSystemSettings();
+  return (
+    (settingsQuery.data?.riskMatrix as RiskMatrixConfig | undefined) ??
+    getStoredRiskMatrix()
+  );
+};
+
+/** Impact dimensions, their criteria and the rule that combines them. */
+export const useImpactScoring = (): ImpactScoringConfig => {
+  const settingsQuery = useSystemSettings();
+  const matrix = useRiskMatrix();
+  return normalizeImpactScoring(settingsQuery.data?.impactScoring, matrix.size);
+};
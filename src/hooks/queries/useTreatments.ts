@@ -0,0 +1,25 @@
+/**
+ * Treatment queries - treatment plans across the portfolio and per risk.
+ */
+import { useQuery } from "@tanstack/react-query";
+import { treatmentApi } from "@/api";
+import type { Treatment } from "@/types";
+import { queryKeys, type QueryOptions } from "./queryKeys";
+
+export const useTreatments = (options?: QueryOptions<Treatment[]>) =>
+  useQuery({
+    queryKey: queryKeys.treatments.list(),
+    queryFn: () => treatmentApi.getAll(),
+    ...options,
+  });
+
+export const useRiskTreatments = (
+  riskId: string | undefined,
+  options?: QueryOptions<Treatment[]>
+) =>
+  useQuery({
+    queryKey: queryKeys.treatments.byRisk(riskId ?? ""),
+    queryFn: () => treatmentApi.getByRiskId(riskId as string),
+    enabled: !!riskId,
+    ...options,
+  });
@@ -0,0 +1,19 @@
+/**
+ * User queries - user directory used for owner pickers and filters.
+ */
+import { useQuery } from "@tanstack/react-query";
+import { userApi } from "@/api";
+import type { UserFilters } from "@/api/userApi";
+import type { User } from "@/types";
+import { queryKeys, type QueryOptions } from "./queryKeys";
+
+export const useUsers = (
+  filters: UserFilters = {},
+  options?: QueryOptions<User[]>
+) =>
+  useQuery({
+    queryKey: queryKeys.users.list(filters),
+    queryFn: () => userApi.getUsers(filters),
+    staleTime: 10 * 60 * 1000,
+    ...options,
+  });
@@ -0,0 +1,91 @@
+/**
+ * useMonteCarlo Hook - runs the loss simulation in a web worker.
+ *
+ * Re-runs whenever the inputs change. The worker is created per hook and
+ * terminated on unmount, so a page that stops needing the figures stops
+ * paying for them.
+ */
+import { useEffect, useRef, useState } from "react";
+import type { SimulationResult, SimulationRisk } from "@/utils/monteCarlo";
+
+export interface UseMonteCarloOptions {
+  /** Also sum the risks into a portfolio loss distribution */
+  portfolio?: boolean;
+  iterations?: number;
+}
+
+export interface UseMonteCarloReturn {
+  result: SimulationResult | null;
+  isRunning: boolean;
+  error: string | null;
+}
+
+interface WorkerReply {
+  requestId: number;
+  result?: SimulationResult;
+  error?: string;
+}
+
+export function useMonteCarlo(
+  risks: SimulationRisk[] | undefined,
+  { portfolio = false, iterations }: UseMonteCarloOptions = {}
+): UseMonteCarloReturn {
+  const workerRef = useRef<Worker | null>(null);
+  const requestRef = useRef(0);
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(
+    () => () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+    },
+    []
+  );
+
+  const inputKey = risks ? JSON.stringify(risks) : "";
+
+  useEffect(() => {
+    if (!risks || risks.length === 0) {
+      // Drop any reply still in flight for the previous inputs
+      requestRef.current += 1;
+      setResult(null);
+      setIsRunning(false);
+      return;
+    }
+
+    if (!workerRef.current) {
+      workerRef.current = new Worker(
+        new URL("../workers/monteCarlo.worker.ts", import.meta.url),
+        { type: "module" }
+      );
+    }
+    const worker = workerRef.current;
+    const requestId = ++requestRef.current;
+
+    // Only the latest request's answer is kept
+    worker.onmessage = (event: MessageEvent<WorkerReply>) => {
+      if (event.data.requestId !== requestRef.current) return;
+      setIsRunning(false);
+      if (event.data.error) {
+        setError(event.data.error);
+        return;
+      }
+      setError(null);
+      setResult(event.data.result ?? null);
+    };
+    worker.onerror = (event) => {
+      setIsRunning(false);
+      setError(event.message || "Simulation failed");
+    };
+
+    setIsRunning(true);
+    worker.postMessage({ requestId, risks, iterations, portfolio });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [inputKey, iterations, portfolio]);
+
+  return { result, isRunning, error };
+}
+
+export default useMonteCarlo;
@@ -36,6 +36,8 @@ export interface UsePermissionsReturn {
   canViewAudit: boolean;
   /** Can manage users. */
   canManageUsers: boolean;
+  /** Can approve or reject assessments and treatment plans. */
+  canApprove: boolean;
 }
 
 /**
@@ -79,6 +81,7 @@ export function usePermissions(): UsePermissionsReturn {
   const canViewSettings = useMemo(() => can("canViewSettings"), [can]);
   const canViewAudit = useMemo(() => can("canViewAudit"), [can]);
   const canManageUsers = useMemo(() => can("canManageUsers"), [can]);
+  const canApprove = useMemo(() => can("canApprove"), [can]);
 
   return {
     can,
@@ -95,6 +98,7 @@ export function usePermissions(): UsePermissionsReturn {
     canViewSettings,
     canViewAudit,
     canManageUsers,
+    canApprove,
   };
 }
 
@@ -107,6 +107,8 @@ export const ar = {
     reportsStandard: "تقرير قياسي",
     reportsCustom: "تقرير مخصص",
     reportsRegister: "تقرير السجل",
+    reportsScheduled: "التقارير المجدولة",
+    reportsSnapshots: "لقطات السجل",
     settings: "الإعدادات",
     users: "المستخدمون",
     roles: "الأدوار",
@@ -117,15 +119,24 @@ export const ar = {
     committee: "حوكمة اللجنة",
     notifications: "التنبيهات",
     riskAppetite: "شهية المخاطر",
+    kris: "مؤشرات المخاطر",
+    incidents: "الحوادث",
+    controls: "الضوابط",
+    controlLibrary: "مكتبة الضوابط",
+    controlTests: "اختبار الضوابط",
+    controlHealth: "سلامة الضوابط",
     policies: "السياسات والإجراءات",
+    assessmentReview: "مراجعة التقييمات",
   },
   page: {
     dashboard: "لوحة التحكم",
     risksDashboard: "لوحة المخاطر",
     riskRegister: "سجل المخاطر",
     newRisk: "إضافة خطر",
+    importRisks: "استيراد المخاطر",
     assessments: "التقييمات",
     newAssessment: "تقييم جديد",
+    assessmentReview: "مراجعة التقييمات",
     treatmentPlans: "خطط المعالجة",
     followUp: "المتابعة",
     analysisDashboard: "لوحة التحليل",
@@ -141,6 +152,8 @@ export const ar = {
     reportsExecutive: "تقرير تنفيذي",
     reportsStandard: "تقرير قياسي",
     reportsCustom: "تقرير مخصص",
+    reportsScheduled: "التقارير المجدولة",
+    reportsSnapshots: "لقطات السجل",
     users: "المستخدمون",
     roleManagement: "إدارة الأدوار",
     permissions: "الصلاحيات",
@@ -204,6 +217,7 @@ export const ar = {
     legendHigh: "عالي",
     legendMedium: "متوسط",
     legendLow: "منخفض",
+    legendOverride: "لون حدده المسؤول",
     otherLevel: "أخرى",
     matrixHint:
       "يتم حساب المستوى من الدرجة (الاحتمالية × الأثر) حسب عتبات النظام.",
@@ -705,6 +719,7 @@ export const ar = {
       risk_escalation: "تصعيد خطر",
       appetite_exceeded: "تجاوز الشهية",
       treatment_due: "موعد معالجة",
+      control_test_overdue: "اختبار ضابط متأخر",
       assessment_required: "تقييم مطلوب",
       system_alert: "تنبيه نظام",
       committee_decision: "قرار لجنة",
@@ -889,6 +904,542 @@ export const ar = {
     toastUpdateDoneTitle: "تم التحديث",
     toastUpdateDoneDesc: "تم تحديث حدود شهية المخاطر بنجاح",
     toastUpdateFailed: "فشل في تحديث الحدود",
+    tableCategory: "الفئة",
+    categoryTitle: "الرغبة في المخاطر حسب الفئة",
+    categoryDesc:
+      "بيان مجلس الإدارة للرغبة في المخاطر لكل فئة. تُقيَّم المخاطر مقابل حدود فئتها عند تحديدها.",
+    categoryStatement: "بيان الرغبة في المخاطر",
+    categoryStatementPlaceholder:
+      "مثال: لا نتسامح مطلقاً مع المخالفات التنظيمية.",
+    categoryLimits: "الحدود",
+    categoryGlobal: "الحدود العامة",
+    categoryNoStatement: "لا يوجد بيان بعد",
+    categoryWithin: "{within} من {total} ضمن الرغبة",
+    categoryNoRisks: "لا توجد مخاطر نشطة",
+    categoryEdit: "تعديل الرغبة في المخاطر",
+    categoryDialogTitle: "الرغبة في مخاطر {category}",
+    categoryDialogDesc:
+      "صف الرغبة في المخاطر بكلمات مجلس الإدارة وحدد الحدود التي تخضع لها هذه الفئة.",
+    categoryUseGlobal: "استخدام الحدود العامة",
+    categoryUseGlobalHint:
+      "أوقف هذا الخيار لتحديد حدود منخفضة ومتوسطة وعالية وحرجة خاصة بهذه الفئة.",
+    categoryInvalidThresholds:
+      "يجب أن تتزايد الحدود من المنخفض إلى الحرج وأن تكون نسبة التحذير بين 1 و100.",
+    categorySaved: "تم حفظ الرغبة في مخاطر {category}",
+    categorySaveFailed: "فشل في حفظ الرغبة في المخاطر للفئة",
+    trendTitle: "اتجاه الامتثال",
+    trendDesc: "مستويات الرغبة في المخاطر المسجلة في كل تشغيل لـ \"فحص جميع المخاطر\"",
+    trendEmpty: "لا توجد فحوصات مسجلة بعد. شغّل \"فحص جميع المخاطر\" لبدء الاتجاه.",
+    trendImproved: "ارتفع الامتثال {delta} نقطة منذ {from}، وهو الآن {rate}%.",
+    trendWorsened: "انخفض الامتثال {delta} نقطة منذ {from}، وهو الآن {rate}%.",
+    trendClickHint: "انقر على نقطة لمقارنة ذلك التشغيل بالتشغيل الذي قبله.",
+    trendDrillTitle: "ما الذي تغير بين التشغيلين",
+    trendFromRun: "من التشغيل",
+    trendToRun: "إلى التشغيل",
+    trendSelectRun: "اختر تشغيلاً",
+    trendCrossedOut: "تجاوزت الرغبة في المخاطر",
+    trendCrossedIn: "عادت ضمن الرغبة في المخاطر",
+    trendOtherChanges: "تغييرات أخرى في المستوى",
+    trendNoneInGroup: "لا يوجد",
+    trendNotChecked: "لم يُفحص",
+  },
+  krisPage: {
+    title: "مؤشرات المخاطر الرئيسية",
+    subtitle: "تعريف المؤشرات وتسجيل القياسات ومتابعتها مقابل حدودها",
+    searchPlaceholder: "ابحث في المؤشرات...",
+    refresh: "تحديث",
+    filterActive: "نشطة",
+    filterRetired: "متوقفة",
+    filterAll: "الكل",
+    totalActive: "المؤشرات النشطة",
+    statusGreen: "ضمن الحد",
+    statusYellow: "تحذير",
+    statusRed: "متجاوز",
+    overdueCount: "قياسات متأخرة",
+    overdueTitle: "قياسات متأخرة ({count})",
+    overdueDesc: "مؤشرات تجاوز موعد قياسها التالي",
+    daysOverdue: "متأخر {days} يوم",
+    dueToday: "مستحق اليوم",
+    registerTitle: "سجل المؤشرات",
+    colCode: "الرمز",
+    colName: "المؤشر",
+    colRisk: "الخطر",
+    colValue: "القيمة الحالية",
+    colThresholds: "أصفر / أحمر",
+    colStatus: "الحالة",
+    colFrequency: "التكرار",
+    colNextDue: "القياس التالي",
+    colActions: "الإجراءات",
+    noKris: "لا توجد مؤشرات.",
+    retired: "متوقف",
+    historyTitle: "سجل القياسات: {name}",
+    historyDesc: "القيم المسجلة مقابل الحدين الأصفر والأحمر",
+    noHistory: "لم تسجل أي قياسات بعد.",
+    selectHint: "اختر مؤشراً لعرض سجل قياساته.",
+    colRecordedAt: "تاريخ التسجيل",
+    colRecordedBy: "سجل بواسطة",
+    colNotes: "ملاحظات",
+    value: "القيمة",
+    target: "المستهدف",
+    yellowThreshold: "الحد الأصفر",
+    redThreshold: "الحد الأحمر",
+    addTitle: "مؤشر جديد",
+    editTitle: "تعديل المؤشر",
+    formDesc: "تحدد الحدود متى يصبح القياس أصفر أو أحمر.",
+    nameLabel: "اسم المؤشر",
+    descriptionLabel: "الوصف",
+    riskLabel: "الخطر المرتبط",
+    noRisk: "غير مرتبط",
+    ownerLabel: "المالك",
+    noOwner: "غير محدد",
+    targetLabel: "القيمة المستهدفة",
+    directionLabel: "الاتجاه",
+    higherBetter: "الأعلى أفضل",
+    lowerBetter: "الأقل أفضل",
+    frequencyLabel: "تكرار القياس",
+    nextDateLabel: "تاريخ القياس التالي",
+    unitLabel: "الوحدة",
+    formatLabel: "التنسيق",
+    formatNumber: "رقم",
+    formatPercentage: "نسبة مئوية",
+    formatCurrency: "عملة",
+    notesLabel: "ملاحظات",
+    frequencyDaily: "يومي",
+    frequencyWeekly: "أسبوعي",
+    frequencyMonthly: "شهري",
+    frequencyQuarterly: "ربع سنوي",
+    frequencyAnnually: "سنوي",
+    missingName: "اسم المؤشر مطلوب.",
+    thresholdOrderHigher: "عندما يكون الأعلى أفضل يجب أن يكون الحد الأحمر أقل من الحد الأصفر.",
+    thresholdOrderLower: "عندما يكون الأقل أفضل يجب أن يكون الحد الأحمر أعلى من الحد الأصفر.",
+    recordTitle: "تسجيل قياس",
+    recordDesc: "سجل قيمة جديدة للمؤشر {name}.",
+    record: "تسجيل",
+    invalidValue: "أدخل قيمة رقمية.",
+    history: "السجل",
+    retire: "إيقاف",
+    reactivate: "إعادة تفعيل",
+    retireTitle: "إيقاف هذا المؤشر؟",
+    retireDesc: "لن يتم قياس {name} بعد الآن، مع الاحتفاظ بسجله.",
+    created: "تم إنشاء المؤشر",
+    updated: "تم تحديث المؤشر",
+    recorded: "تم تسجيل القياس",
+    breached: "تم تجاوز الحد الأحمر",
+    retiredToast: "تم إيقاف المؤشر",
+    reactivatedToast: "تمت إعادة تفعيل المؤشر",
+    loadFailed: "فشل تحميل المؤشرات",
+    saveFailed: "تعذر حفظ المؤشر",
+    recordFailed: "تعذر تسجيل القياس",
+    noPermissionCreate: "ليس لديك صلاحية إنشاء المؤشرات.",
+    noPermissionEdit: "ليس لديك صلاحية تعديل المؤشرات.",
+    noPermissionRetire: "ليس لديك صلاحية إيقاف المؤشرات.",
+  },
+  controlsPage: {
+    title: "مكتبة الضوابط",
+    subtitle: "الضوابط الوقائية والكشفية والتصحيحية، والمخاطر التي تعالجها.",
+    searchPlaceholder: "ابحث في الضوابط...",
+    filterAllTypes: "كل الأنواع",
+    filterActive: "نشطة",
+    filterRetired: "متوقفة",
+    filterAll: "الكل",
+    refresh: "تحديث",
+    totalActive: "الضوابط النشطة",
+    unlinkedCount: "غير مرتبطة بأي خطر",
+    libraryTitle: "مكتبة الضوابط",
+    noControls: "لا توجد ضوابط مطابقة لعوامل التصفية.",
+    colCode: "الرمز",
+    colName: "الضابط",
+    colType: "النوع",
+    colAutomation: "الأتمتة",
+    colFrequency: "التكرار",
+    colRisks: "المخاطر",
+    colActions: "الإجراءات",
+    colDesign: "التصميم",
+    colOperating: "التشغيل",
+    colOverall: "الإجمالي",
+    retired: "متوقف",
+    addTitle: "ضابط جديد",
+    editTitle: "تعديل الضابط",
+    formDesc: "يمكن ربط الضابط بأي عدد من المخاطر.",
+    nameLabel: "الاسم",
+    descriptionLabel: "الوصف",
+    typeLabel: "النوع",
+    automationLabel: "الأتمتة",
+    frequencyLabel: "التكرار",
+    ownerLabel: "المالك",
+    noOwner: "بدون مالك",
+    missingName: "اسم الضابط مطلوب",
+    created: "تم إنشاء الضابط",
+    updated: "تم تحديث الضابط",
+    saveFailed: "تعذر حفظ الضابط",
+    loadFailed: "تعذر تحميل الضوابط",
+    retire: "إيقاف",
+    reactivate: "إعادة تفعيل",
+    retireTitle: "إيقاف الضابط؟",
+    retireDesc: "سيبقى {name} على المخاطر المرتبط بها لكن لا يمكن ربطه بمخاطر جديدة.",
+    retiredToast: "تم إيقاف الضابط",
+    reactivatedToast: "تمت إعادة تفعيل الضابط",
+    noPermissionCreate: "ليست لديك صلاحية إنشاء الضوابط.",
+    noPermissionEdit: "ليست لديك صلاحية تعديل الضوابط.",
+    noPermissionRetire: "ليست لديك صلاحية إيقاف الضوابط.",
+    linkedRisksTitle: "المخاطر التي يعالجها {name}",
+    linkedRisksEmpty: "غير مرتبط بأي خطر بعد.",
+    selectControlHint: "اختر ضابطًا لعرض المخاطر التي يعالجها.",
+    types: {
+      preventive: "وقائي",
+      detective: "كشفي",
+      corrective: "تصحيحي",
+    },
+    automations: {
+      manual: "يدوي",
+      automated: "آلي",
+    },
+    frequencies: {
+      continuous: "مستمر",
+      daily: "يومي",
+      weekly: "أسبوعي",
+      monthly: "شهري",
+      quarterly: "ربع سنوي",
+      annually: "سنوي",
+      ad_hoc: "عند الحاجة",
+    },
+    effectiveness: {
+      effective: "فعّال",
+      partially_effective: "فعّال جزئيًا",
+      ineffective: "غير فعّال",
+      not_assessed: "لم يُقيَّم",
+    },
+    riskControlsTitle: "الضوابط",
+    riskControlsDesc: "الضوابط المطبقة على هذا الخطر، مقيّمة من حيث جودة التصميم وفعالية التشغيل.",
+    noRiskControls: "لا توجد ضوابط مرتبطة بهذا الخطر بعد.",
+    effectiveSummary: "{effective} من {total} ضوابط فعّالة بالكامل",
+    linkControl: "ربط ضابط",
+    linkTitle: "ربط ضابط",
+    linkDesc: "اختر ضابطًا من المكتبة وقيّمه لهذا الخطر.",
+    rateTitle: "تقييم الضابط",
+    rateDesc: "حدّث فعالية تصميم وتشغيل {name} لهذا الخطر.",
+    controlLabel: "الضابط",
+    selectControl: "اختر ضابطًا",
+    noAvailableControls: "كل الضوابط النشطة مرتبطة بهذا الخطر بالفعل.",
+    designLabel: "فعالية التصميم",
+    operatingLabel: "فعالية التشغيل",
+    notesLabel: "ملاحظات",
+    linked: "تم ربط الضابط",
+    rated: "تم تحديث التقييم",
+    unlink: "فك الربط",
+    unlinkTitle: "فك ربط الضابط؟",
+    unlinkDesc: "ستتم إزالة {name} من هذا الخطر ومن التقييمات المتبقية التي اعتمدت عليه. سيبقى في المكتبة.",
+    unlinked: "تم فك ربط الضابط",
+    openLibrary: "فتح مكتبة الضوابط",
+    testPlanTitle: "خطة الاختبار",
+    testPlanHint: "تُختبر الضوابط المجدولة دورياً، وكل اختبار مسجل يؤجل موعد الاختبار التالي بمقدار دورية الاختبار.",
+    testFrequencyLabel: "دورية الاختبار",
+    notScheduled: "غير مجدول",
+    testerLabel: "المختبِر",
+    nextTestDueLabel: "موعد الاختبار التالي",
+    nextTestDueHint: "اتركه فارغاً لجدولة أول اختبار بعد دورة واحدة من اليوم.",
+    testFrequencies: {
+      monthly: "شهري",
+      quarterly: "ربع سنوي",
+      semi_annually: "نصف سنوي",
+      annually: "سنوي",
+    },
+  },
+  controlTestsPage: {
+    title: "اختبار الضوابط",
+    subtitle: "جدول اختبار ضوابط المكتبة ونتائج كل اختبار.",
+    refresh: "تحديث",
+    filterAllStatuses: "كل الجداول",
+    scheduleTitle: "جدول الاختبارات",
+    scheduleDesc: "الضوابط النشطة وموعد الاختبار التالي لكل منها.",
+    noScheduled: "لا توجد ضوابط مطابقة لهذا الفلتر.",
+    historyTitle: "نتائج الاختبارات",
+    historyDesc: "الاختبارات المسجلة، الأحدث أولاً.",
+    allControls: "كل الضوابط",
+    noTests: "لم تُسجل أي اختبارات بعد.",
+    statuses: {
+      overdue: "متأخر",
+      due_soon: "مستحق قريباً",
+      scheduled: "مجدول",
+      unscheduled: "غير مجدول",
+    },
+    daysOverdue: "متأخر {days} يوماً",
+    colControl: "الضابط",
+    colFrequency: "الدورية",
+    colTester: "المختبِر",
+    colNextDue: "الموعد التالي",
+    colLastResult: "آخر نتيجة",
+    colTestedAt: "تاريخ الاختبار",
+    colResult: "النتيجة",
+    colSample: "العينة",
+    colExceptions: "الاستثناءات",
+    colEvidence: "الأدلة",
+    colActions: "الإجراءات",
+    notTested: "لم يُختبر",
+    recordResult: "تسجيل نتيجة",
+    recordTitle: "تسجيل نتيجة اختبار",
+    recordDesc: "سجّل نتيجة اختبار {name}. تصبح النتيجة الفعالية التشغيلية للضابط في كل خطر مرتبط به.",
+    testedAtLabel: "تاريخ الاختبار",
+    resultLabel: "النتيجة",
+    sampleSizeLabel: "حجم العينة",
+    exceptionsLabel: "الاستثناءات",
+    evidenceLabel: "الأدلة",
+    evidencePlaceholder: "مكان حفظ أوراق العمل أو الأدلة",
+    notesLabel: "ملاحظات",
+    invalidSample: "يجب أن يكون حجم العينة 1 على الأقل وألا تتجاوزه الاستثناءات.",
+    invalidDate: "لا يمكن أن يكون تاريخ الاختبار في المستقبل.",
+    recorded: "تم تسجيل نتيجة الاختبار",
+    saveFailed: "فشل تسجيل نتيجة الاختبار",
+    noPermission: "ليست لديك صلاحية تسجيل نتائج الاختبارات.",
+  },
+  quantification: {
+    tab: "التحليل الكمي",
+    title: "التحليل الكمي",
+    description: "تقدير بأسلوب FAIR لما قد يكلّفه هذا الخطر: عدد مرات وقوع حدث الخسارة سنوياً وتكلفة كل حدث، بمحاكاة سنوات عديدة.",
+    add: "تحليل الخطر كمياً",
+    edit: "تعديل المدخلات",
+    remove: "إزالة التحليل",
+    removeTitle: "إزالة التحليل الكمي؟",
+    removeDesc: "سيحتفظ {code} بتقييمه النوعي فقط. يمكن إدخال المدخلات مجدداً لاحقاً.",
+    saved: "تم حفظ التحليل الكمي",
+    removed: "تمت إزالة التحليل الكمي",
+    saveFailed: "تعذّر حفظ التحليل الكمي",
+    invalidRanges: "يحتاج كل نطاق إلى حد أدنى أقل من الحد الأعلى، وقيمة مرجّحة بينهما (PERT) أو تقدير منخفض أكبر من الصفر (لوغاريتمي طبيعي)، ورمز عملة من ثلاثة أحرف.",
+    empty: "لم يُحلَّل هذا الخطر كمياً بعد. قدّر تكرار أحداث الخسارة وحجمها لعرض التعرض السنوي للخسارة.",
+    lastUpdated: "آخر تحديث {date} بواسطة {name}",
+    qualitativeScore: "الدرجة النوعية",
+    ale: "التعرض السنوي للخسارة",
+    p50: "السنة الوسيطة (P50)",
+    p90: "خسارة P90",
+    p95: "خسارة P95",
+    p99: "خسارة P99",
+    lossProbability: "احتمال وقوع أي خسارة في السنة",
+    frequencyTitle: "تكرار أحداث الخسارة",
+    frequencyHint: "عدد أحداث الخسارة في السنة، مثلاً 0.5 تعني مرة كل سنتين.",
+    magnitudeTitle: "حجم الخسارة",
+    magnitudeHint: "تكلفة حدث خسارة واحد.",
+    distributionLabel: "التوزيع",
+    distributions: {
+      pert: "PERT (أدنى، مرجّح، أعلى)",
+      lognormal: "لوغاريتمي طبيعي (نطاق 90%)",
+    },
+    distributionHints: {
+      pert: "نطاق محدود يتمركز حول القيمة المرجّحة.",
+      lognormal: "تقع 90% من القيم بين التقديرين المنخفض والمرتفع؛ يسمح بذيل طويل من الخسائر الكبيرة النادرة.",
+    },
+    min: "الأدنى",
+    max: "الأعلى",
+    low: "منخفض (5%)",
+    high: "مرتفع (95%)",
+    mostLikely: "الأكثر ترجيحاً",
+    pertSummary: "من {min} إلى {max}، الأرجح {mostLikely} (PERT)",
+    lognormalSummary: "من {min} إلى {max}، نطاق 90% (لوغاريتمي طبيعي)",
+    currencyLabel: "العملة",
+    notesLabel: "ملاحظات",
+    notesPlaceholder: "المصادر والافتراضات وراء التقديرات",
+    curveTitle: "منحنى تجاوز الخسارة",
+    curveHint: "احتمال أن تتجاوز خسائر السنة كل مبلغ، من {count} سنة محاكاة.",
+    simulating: "جارٍ تشغيل المحاكاة...",
+    simulationFailed: "فشلت المحاكاة",
+    exceedsLabel: "خسائر تتجاوز {amount}",
+    probabilityLabel: "الاحتمال",
+    scoreCardLine: "ALE {ale} • P90 {p90}",
+    portfolioTitle: "منحنى تجاوز خسارة المحفظة",
+    portfolioDesc: "المخاطر المحللة كمياً مجمّعة في توزيع خسارة سنوي واحد، مع التعرض السنوي للخسارة وقيمة P90 لكل خطر.",
+    portfolioEmpty: "لم يُحلَّل أي خطر كمياً بعد. أضف التحليل الكمي من تفاصيل خطر مالي أو تقني.",
+    otherCurrency: "مسجّل بعملة {currency}؛ غير مشمول في التجميع",
+  },
+  bowTie: {
+    tab: "ربطة العنق",
+    title: "تحليل ربطة العنق",
+    description: "الأسباب التي قد تؤدي إلى الحدث الرئيسي مع حواجزها الوقائية، والعواقب التي قد تتبعه مع حواجزها التخفيفية.",
+    edit: "تعديل المخطط",
+    exportSvg: "تصدير SVG",
+    exportPng: "تصدير PNG",
+    exportFailed: "تعذر تصدير المخطط",
+    topEvent: "الحدث الرئيسي",
+    topEventPlaceholder: "ماذا يحدث عند فقدان السيطرة؟",
+    causes: "الأسباب",
+    consequences: "العواقب",
+    preventiveBarriers: "حواجز وقائية",
+    mitigatingBarriers: "حواجز تخفيفية",
+    addCause: "إضافة سبب",
+    addConsequence: "إضافة عاقبة",
+    addBarrier: "إضافة حاجز",
+    causePlaceholder: "السبب",
+    consequencePlaceholder: "العاقبة",
+    barrierPlaceholder: "الحاجز",
+    noAction: "بدون إجراء مرتبط",
+    noActionsHint: "أضف إجراءات معالجة لهذا الخطر لربطها بالحواجز.",
+    remove: "إزالة",
+    saved: "تم حفظ المخطط",
+    saveFailed: "تعذر حفظ المخطط",
+    incomplete: "أدخل الحدث الرئيسي وكل سبب وعاقبة وحاجز قبل الحفظ.",
+    empty: "لا يوجد مخطط بعد. أضف أسباب هذا الخطر وعواقبه لبنائه.",
+    lastUpdated: "آخر تحديث {date} بواسطة {name}",
+    legendCompleted: "إجراء مكتمل",
+    legendOpen: "إجراء قيد التنفيذ",
+    legendUnlinked: "بدون إجراء مرتبط",
+    diagramLabel: "مخطط ربطة العنق لـ {code}",
+  },
+  riskRelationships: {
+    tab: "العلاقات",
+    title: "العلاقات",
+    description: "المخاطر التي يسببها هذا الخطر أو تتسبب فيه، وخدمات الأعمال التي يؤثر عليها، والسياسات التي تحكمه، ومؤشرات المخاطر التي تراقبه.",
+    add: "إضافة علاقة",
+    addTitle: "إضافة علاقة",
+    addDesc: "ربط {code} بخطر آخر أو بخدمة أعمال أو بسياسة.",
+    typeLabel: "العلاقة",
+    targetLabels: {
+      causes: "الخطر الناتج",
+      affects: "خدمة الأعمال",
+      governed_by: "السياسة أو الإجراء",
+    },
+    selectTarget: "اختر...",
+    noTargets: "لا يوجد ما يمكن ربطه لهذه العلاقة.",
+    notesLabel: "ملاحظات",
+    created: "تمت إضافة العلاقة",
+    removed: "تمت إزالة العلاقة",
+    saveFailed: "تعذر تحديث العلاقات",
+    remove: "إزالة",
+    removeTitle: "إزالة العلاقة؟",
+    removeDesc: "ستتم إزالة الربط مع {name}. لن يتم حذف أي من السجلين.",
+    derivedHint: "تتم إدارتها من المؤشر",
+    colRelation: "العلاقة",
+    colEntity: "مرتبط بـ",
+    colStatus: "المستوى / الحالة",
+    colActions: "الإجراءات",
+    relations: {
+      causes: "يسبب",
+      causedBy: "ناتج عن",
+      affects: "يؤثر على",
+      governed_by: "تحكمه",
+      monitors: "يراقبه",
+    },
+    filters: {
+      causes: "العلاقات السببية",
+      affects: "الخدمات",
+      governed_by: "السياسات",
+      monitors: "المؤشرات",
+    },
+    nodeKinds: {
+      risk: "خطر",
+      service: "خدمة أعمال",
+      policy: "سياسة",
+      kri: "مؤشر مخاطر",
+    },
+    graphLabel: "مخطط علاقات {code}",
+    derivedLegend: "مستمدة من المؤشر",
+    clickHint: "اختر عنصرًا لفتحه",
+    noRelationships: "لا توجد علاقات بعد",
+    impactedRisks: "المخاطر المؤثرة",
+    impactedTitle: "المخاطر المرتبطة بـ {name}",
+    impactedDesc: "المخاطر التي تؤثر على هذه الخدمة مباشرة، والمخاطر التي تؤدي إليها عبر سلسلة من الأسباب.",
+    directRisks: "مباشرة ({count})",
+    indirectRisks: "غير مباشرة ({count})",
+    via: "عبر",
+    noImpactedRisks: "لا توجد مخاطر مرتبطة بهذه الخدمة.",
+  },
+  controlHealth: {
+    title: "سلامة الضوابط",
+    subtitle: "مدى اختبار مكتبة الضوابط وأداء الضوابط.",
+    activeControls: "الضوابط النشطة",
+    testCoverage: "تغطية الاختبار",
+    testCoverageHint: "{scheduled} من {total} ضابطاً نشطاً لها خطة اختبار",
+    onSchedule: "مختبرة في موعدها",
+    onScheduleHint: "{overdue} متأخرة",
+    failingControls: "ضوابط غير فعالة",
+    failingControlsHint: "آخر اختبار غير فعال",
+    latestResultsTitle: "أحدث نتائج الاختبار",
+    latestResultsDesc: "كل ضابط نشط حسب نتيجة آخر اختبار له.",
+    testsByMonthTitle: "الاختبارات حسب الشهر",
+    testsByMonthDesc: "الاختبارات المنفذة خلال آخر 12 شهراً حسب النتيجة.",
+    overdueTitle: "اختبارات متأخرة",
+    overdueDesc: "اختبارات مجدولة تجاوزت موعدها.",
+    noOverdue: "لا توجد اختبارات متأخرة.",
+    attentionTitle: "ضوابط تحتاج إلى متابعة",
+    attentionDesc: "ضوابط لم يكن آخر اختبار لها فعالاً بالكامل.",
+    noAttention: "كانت كل الضوابط المختبرة فعالة في آخر اختبار.",
+    openTesting: "فتح جدول الاختبارات",
+    noData: "لا توجد اختبارات ضوابط بعد.",
+  },
+  incidentsPage: {
+    title: "سجل الحوادث",
+    subtitle: "تسجيل الحوادث ومتابعتها من الاكتشاف حتى الإغلاق",
+    searchPlaceholder: "ابحث في الحوادث...",
+    allStatuses: "جميع الحالات",
+    riskFilter: "الخطر: {risk}",
+    clearRiskFilter: "عرض جميع المخاطر",
+    colCode: "الرمز",
+    colTitle: "الحادثة",
+    colRisk: "الخطر",
+    colCategory: "الفئة",
+    colSeverity: "الخطورة",
+    colStatus: "الحالة",
+    colOccurred: "تاريخ الوقوع",
+    colActions: "الإجراءات",
+    noIncidents: "لا توجد حوادث.",
+    statusOpen: "مفتوحة",
+    statusInvestigating: "قيد التحقيق",
+    statusContained: "تم احتواؤها",
+    statusResolved: "تم حلها",
+    statusClosed: "مغلقة",
+    categorySecurity: "أمنية",
+    categoryOperational: "تشغيلية",
+    categoryFinancial: "مالية",
+    categoryCompliance: "امتثال",
+    categoryTechnology: "تقنية",
+    categoryEnvironmental: "بيئية",
+    categoryHumanError: "خطأ بشري",
+    categoryExternal: "خارجية",
+    categoryOther: "أخرى",
+    addTitle: "تسجيل حادثة",
+    editTitle: "تعديل الحادثة",
+    formDesc: "تبدأ الحوادث الجديدة بحالة مفتوحة.",
+    titleLabel: "العنوان",
+    descriptionLabel: "الوصف",
+    categoryLabel: "الفئة",
+    severityLabel: "الخطورة",
+    riskLabel: "الخطر المرتبط",
+    noRisk: "غير مرتبطة",
+    occurredLabel: "تاريخ الوقوع",
+    assigneeLabel: "مسندة إلى",
+    unassigned: "غير مسندة",
+    financialImpactLabel: "الأثر المالي",
+    affectedSystemsLabel: "الأنظمة المتأثرة (مفصولة بفواصل)",
+    impactLabel: "وصف الأثر",
+    lifecycleTitle: "دورة الحياة",
+    notReached: "لم تصل بعد",
+    moveTo: "نقل إلى {status}",
+    closedFinal: "هذه الحادثة مغلقة.",
+    rootCauseRequired: "سجل السبب الجذري قبل الحل.",
+    lessonsRequired: "سجل الدروس المستفادة قبل الإغلاق.",
+    reviewTitle: "مراجعة ما بعد الحادثة",
+    rootCauseLabel: "السبب الجذري",
+    correctiveActionsLabel: "الإجراءات التصحيحية (إجراء في كل سطر)",
+    lessonsLabel: "الدروس المستفادة",
+    saveReview: "حفظ المراجعة",
+    detailsTitle: "التفاصيل",
+    reporter: "أبلغ عنها",
+    affectedSystems: "الأنظمة المتأثرة",
+    financialImpact: "الأثر المالي",
+    impact: "الأثر",
+    deleteTitle: "حذف الحادثة؟",
+    deleteDesc: "سيتم حذف {code} ومراجعتها نهائياً.",
+    viewInRegister: "فتح سجل الحوادث",
+    missingTitle: "العنوان مطلوب.",
+    created: "تم تسجيل الحادثة",
+    updated: "تم تحديث الحادثة",
+    reviewSaved: "تم حفظ المراجعة",
+    statusChanged: "تم نقل الحادثة إلى {status}",
+    deleted: "تم حذف الحادثة",
+    loadFailed: "فشل تحميل الحوادث",
+    saveFailed: "تعذر حفظ الحادثة",
+    transitionFailed: "تعذر تغيير حالة الحادثة",
+    deleteFailed: "تعذر حذف الحادثة",
+    noPermissionCreate: "ليس لديك صلاحية تسجيل الحوادث.",
+    noPermissionEdit: "ليس لديك صلاحية تعديل الحوادث.",
+    noPermissionDelete: "ليس لديك صلاحية حذف الحوادث.",
   },
   audit: {
     title: "سجل التدقيق",
@@ -1075,6 +1626,64 @@ export const ar = {
 
     deleteActionTitle: "حذف الإجراء؟",
     deleteActionDesc: "سيؤدي ذلك إلى إزالة الإجراء من خطة المعالجة.",
+
+    planStatus: "حالة الخطة",
+    planStatuses: {
+      draft: "مسودة",
+      pending: "بانتظار الاعتماد",
+      approved: "معتمدة",
+      in_progress: "قيد التنفيذ",
+      completed: "مكتملة",
+      cancelled: "ملغاة",
+    },
+    planHeader: "تفاصيل الخطة",
+    planName: "عنوان الخطة",
+    planDescription: "الوصف",
+    targetDate: "التاريخ المستهدف",
+    budget: "الميزانية التقديرية",
+    actualCost: "التكلفة الفعلية",
+    placeholderPlanName: "أدخل عنوان الخطة",
+    placeholderPlanDescription: "ما الذي ستحققه هذه الخطة؟",
+    invalidBudget: "يجب أن تكون الميزانية والتكلفة صفراً أو أكثر.",
+    detailsLocked:
+      "بعد إرسال الخطة لا يمكن تعديل تفاصيلها إلا من قبل المعتمِد.",
+    detailsClosed: "هذه الخطة مغلقة ولا يمكن تعديلها.",
+    workflow: "مسار الاعتماد",
+    transitions: {
+      draft: "إعادة إلى المسودة",
+      pending: "إرسال للاعتماد",
+      approved: "اعتماد",
+      in_progress: "بدء التنفيذ",
+      completed: "تحديد كمكتملة",
+      cancelled: "إلغاء الخطة",
+    },
+    blockers: {
+      missingDetails: "احفظ عنواناً وتاريخاً مستهدفاً قبل الإرسال.",
+      noActions: "أضف إجراءً واحداً على الأقل قبل الإرسال.",
+      openActions: "يجب إنجاز جميع الإجراءات قبل إكمال الخطة.",
+    },
+    statusChanged: "تم نقل الخطة إلى {status}",
+    statusChangeFailed: "تعذر تغيير حالة الخطة",
+    saveDetailsFirst: "احفظ التغييرات قبل نقل الخطة إلى المرحلة التالية.",
+
+    tabByRisk: "الخطط حسب الخطر",
+    tabPortfolio: "المحفظة",
+    portfolioTitle: "محفظة المعالجة",
+    portfolioSubtitle: "الميزانية الملتزم بها للخطط المعتمدة مقابل العمل المنجز حتى الآن.",
+    budgetCommitted: "الميزانية الملتزم بها",
+    budgetDelivered: "القيمة المنجزة",
+    actionsCompleted: "الإجراءات المكتملة",
+    plansInFlight: "الخطط الجارية",
+    budgetVsDelivered: "الميزانية مقابل المنجز لكل خطة",
+    committedNote: "تشمل الميزانية الملتزم بها الخطط المعتمدة وقيد التنفيذ والمكتملة.",
+    noPlansYet: "لا توجد خطط معالجة بعد.",
+    colPlan: "الخطة",
+    colRisk: "الخطر",
+    colStatus: "الحالة",
+    colBudget: "الميزانية",
+    colDelivered: "المنجز",
+    colActions: "الإجراءات",
+    colTarget: "المستهدف",
   },
   table: {
     id: "المعرّف",
@@ -1102,6 +1711,8 @@ export const ar = {
     email: "البريد الإلكتروني",
     password: "كلمة المرور",
     anyPassword: "أدخل أي كلمة مرور",
+    demoHint:
+      'الوضع التجريبي: سجّل الدخول بـ admin@company.com أو analyst@company.com أو viewer@company.com وكلمة المرور "demo".',
     demoUsers:
       "حسابات تجريبية: admin@company.com, analyst@company.com, viewer@company.com",
     fullName: "الاسم الكامل",
@@ -1173,6 +1784,125 @@ export const ar = {
     allLevels: "كل المستويات",
     status: "الحالة",
     allStatuses: "كل الحالات",
+    owner: "المالك",
+    allOwners: "كل المالكين",
+    scoreRange: "الدرجة",
+    scoreMin: "الحد الأدنى",
+    scoreMax: "الحد الأعلى",
+    createdBetween: "تاريخ الإنشاء",
+    dateFrom: "من",
+    dateTo: "إلى",
+    sortHint: "اضغط Shift مع النقر على عمود لإضافته كترتيب ثانوي.",
+    pagination: {
+      summary: "عرض {from}–{to} من {total}",
+      pageOf: "صفحة {page} من {pages}",
+      perPage: "لكل صفحة",
+      previous: "السابق",
+      next: "التالي",
+    },
+    selectAll: "تحديد كل المخاطر في هذه الصفحة",
+    selectRow: "تحديد {code}",
+    bulk: {
+      selectedCount: "{count} محدد",
+      changeStatus: "تغيير الحالة",
+      reassignOwner: "إعادة تعيين المالك",
+      changeCategory: "تغيير التصنيف",
+      escalate: "تصعيد إلى اللجنة",
+      export: "تصدير",
+      delete: "حذف",
+      clearSelection: "إلغاء التحديد",
+      titles: {
+        status: "تغيير حالة المخاطر المحددة",
+        owner: "إعادة تعيين المخاطر المحددة",
+        category: "تغيير تصنيف المخاطر المحددة",
+        escalate: "تصعيد المخاطر المحددة إلى اللجنة",
+        delete: "حذف المخاطر المحددة",
+      },
+      appliesTo: "ينطبق هذا على {count} من المخاطر، واحدًا تلو الآخر.",
+      deleteWarning:
+        "سيؤدي هذا إلى حذف {count} من المخاطر نهائيًا مع تقييماتها ومعالجاتها وحوادثها.",
+      pickStatus: "اختر الحالة الجديدة",
+      pickOwner: "اختر المالك الجديد",
+      pickCategory: "اختر التصنيف الجديد",
+      escalateNotePlaceholder: "الإجراء المطلوب أو السياق للجنة (اختياري)",
+      invalidTransition: "لا يمكن الانتقال من {from} إلى {to}",
+      progress: "تمت معالجة {done} من {total}",
+      succeeded: "نجح {count}",
+      failed: "فشل {count}",
+      failedKept: "تبقى المخاطر التي فشلت محددة لتتمكن من إعادة المحاولة.",
+      run: "تطبيق",
+      running: "جارٍ التنفيذ…",
+      done: "تم",
+      exportedTitle: "التصدير جاهز",
+      exportedDesc: "تم تصدير {count} من المخاطر إلى CSV.",
+    },
+    import: {
+      button: "استيراد",
+      title: "استيراد المخاطر",
+      subtitle:
+        "أدخل المخاطر من جدول CSV أو Excel، مثلًا عند ضم وحدة أعمال جديدة.",
+      steps: {
+        upload: "الرفع",
+        map: "ربط الأعمدة",
+        preview: "المراجعة",
+        import: "الاستيراد",
+      },
+      uploadTitle: "اختر جدول بيانات",
+      uploadDesc:
+        "يجب أن يحتوي الصف الأول على عناوين الأعمدة؛ تتم قراءة الورقة الأولى فقط من المصنف.",
+      chooseFile: "انقر لاختيار ملف",
+      reading: "جارٍ قراءة الملف…",
+      supportedFormats: "CSV أو XLSX",
+      readFailed: "تعذرت قراءة الملف",
+      noDataRows: "يحتوي الملف على عناوين فقط دون صفوف بيانات.",
+      mapTitle: "اربط الأعمدة بحقول الخطر",
+      mapDesc: "{file} - {rows} صف بيانات",
+      notMapped: "غير مربوط",
+      columnN: "العمود {n}",
+      sample: "مثال: {value}",
+      ownerHint:
+        "تتم مطابقة المالكين حسب اسم المستخدم أو بريده. الصفوف دون مالك تُسند إليك.",
+      missingRequired: "اربط الحقول المطلوبة: {fields}",
+      fields: {
+        title: "العنوان",
+        description: "الوصف",
+        category: "التصنيف",
+        owner: "المالك",
+        likelihood: "الاحتمالية",
+        impact: "الأثر",
+      },
+      previewTitle: "معاينة التحقق",
+      previewSummary:
+        "{valid} صف جاهز ({warnings} مع تحذيرات)، {errors} صف به أخطاء",
+      problemsOnly: "عرض الصفوف التي بها أخطاء أو تحذيرات فقط",
+      row: "الصف",
+      rowN: "الصف {n}:",
+      issuesColumn: "الملاحظات",
+      issues: {
+        required: "{field} مطلوب",
+        unknownCategory: "تصنيف غير معروف \"{value}\"",
+        unknownOwner: "لا يوجد مستخدم يطابق \"{value}\"",
+        ownerDefaulted: "لم يُحدد مالك؛ تم الإسناد إلى {value}",
+        notANumber: "{field} \"{value}\" ليس رقمًا",
+        outOfRange: "يجب أن تكون قيمة {field} عددًا صحيحًا من {min} إلى {max}",
+        incompleteScore: "{field} مفقود؛ الاحتمالية والأثر مطلوبان معًا",
+        duplicateInFile: "العنوان نفسه في الصف {value}",
+        alreadyExists: "يوجد خطر بهذا العنوان مسبقًا",
+      },
+      errorRowsSkipped: "يتم تخطي الصفوف التي بها أخطاء. صحّحها في الملف ثم أعد الاستيراد.",
+      importRows: "استيراد {count} صف",
+      back: "رجوع",
+      next: "التالي",
+      importingTitle: "جارٍ الاستيراد…",
+      resultsTitle: "اكتمل الاستيراد",
+      progress: "تمت معالجة {done} من {total} صف",
+      assessmentNote: "تقييم أولي مستورد من {file}",
+      createdWithoutAssessment: "تم إنشاء الخطر دون تقييمه الأولي ({error}). أضف التقييم من صفحة الخطر؛ إعادة استيراد الصف ستنشئ خطراً مكرراً.",
+      doneTitle: "اكتمل الاستيراد",
+      doneDesc: "تم إنشاء {created} خطر، وفشل {failed}.",
+      importAnother: "استيراد ملف آخر",
+      viewRegister: "عرض السجل",
+    },
     noRisksFound: "لا توجد مخاطر",
     noRisksMatchFilters:
       "لا توجد مخاطر تطابق الفلاتر الحالية. جرّب تعديل معايير البحث.",
@@ -1201,6 +1931,16 @@ export const ar = {
       Closed: "مغلق",
       Monitoring: "قيد المراقبة",
     },
+    lifecycleStatuses: {
+      identified: "تم تحديده",
+      analyzing: "قيد التحليل",
+      analyzed: "تم تحليله",
+      treating: "قيد المعالجة",
+      treated: "تمت معالجته",
+      monitoring: "تحت المراقبة",
+      accepted: "مقبول",
+      closed: "مغلق",
+    },
     levels: {
       Low: "منخفض",
       Medium: "متوسط",
@@ -1248,6 +1988,8 @@ export const ar = {
       toastSaveFailed: "فشل حفظ الخطر.",
       stageCreatedNote: "تم إنشاء الخطر",
       stageUpdatedBy: "المستخدم الحالي",
+      statusManagedHint:
+        "يتم تغيير الحالة من صفحة الخطر لتطبيق ضوابط دورة الحياة.",
     },
     details: {
       loadingDetails: "جارٍ تحميل تفاصيل الخطر…",
@@ -1262,8 +2004,8 @@ export const ar = {
       incidents: "الحوادث",
       auditTrail: "سجل التدقيق",
       riskAssessment: "تقييم الخطر",
-      likelihoodScale: "الاحتمالية (1-5)",
-      impactScale: "الأثر (1-5)",
+      likelihoodScale: "الاحتمالية (1-{max})",
+      impactScale: "الأثر (1-{max})",
       scoreScale: "الدرجة (الاحتمالية×الأثر)",
       treatmentProgress: "تقدم المعالجة",
       approachLabel: "النهج:",
@@ -1290,6 +2032,58 @@ export const ar = {
       openEvidence: "فتح رابط الإثبات",
       noRelatedIncidents: "لا توجد حوادث مرتبطة.",
       noAuditEntries: "لا توجد سجلات تدقيق.",
+      stageRiskCreated: "تم إنشاء الخطر",
+      stageIdentified: "تم تسجيله في سجل المخاطر",
+      stageAssessment: "تقييم {type} بدرجة {score} ({level})",
+      stageInherent: "متأصل",
+      stageResidual: "متبقٍ",
+      stageTreatmentPlan: "تم إنشاء خطة المعالجة: {title}",
+      appetite: {
+        title: "الرغبة في المخاطر",
+        score: "الدرجة الحالية",
+        threshold: "حد الرغبة",
+        categoryThreshold: "حد الرغبة لفئة {category}",
+        exceededBy: "التجاوز عن الحد",
+        headroom: "الهامش المتبقي",
+        usage: "{percent}% من حد الرغبة في المخاطر",
+        requiredAction: "الإجراء المطلوب:",
+        actionTypes: {
+          monitor: "مراقبة عن كثب",
+          notify: "إشعار مالك الخطر",
+          escalate: "التصعيد إلى لجنة المخاطر",
+        },
+        notify: "إشعار المالك",
+        autoEscalate: "التصعيد إذا كان حرجاً",
+        checkNow: "تحقق الآن",
+        checkedTitle: "تم التحقق من الرغبة في المخاطر",
+        checkFailed: "تعذر التحقق من الرغبة في المخاطر",
+        loadFailed: "تعذر تقييم هذا الخطر مقابل الرغبة في المخاطر.",
+        actionsTaken: "الإجراءات المتخذة",
+        actionLabels: {
+          notification_sent: "تم إشعار المالك (إشعار رقم {id})",
+          escalated: "تم التصعيد إلى اللجنة (تصعيد رقم {id})",
+        },
+        noActionsTaken:
+          "الخطر خارج الرغبة، لكن لم يُطلب أو يلزم إرسال إشعار أو تصعيد.",
+        noActionNeeded: "ضمن الرغبة في المخاطر - لا حاجة لأي إجراء.",
+        manageThresholds: "حدود الرغبة في المخاطر",
+      },
+    },
+    lifecycle: {
+      changeStatus: "تغيير الحالة",
+      currentStage: "المرحلة الحالية",
+      moveTo: "نقل إلى {status}",
+      noTransitions: "لا توجد انتقالات متاحة.",
+      toastChangedTitle: "تم تحديث الحالة",
+      toastChangedDesc: "أصبح {code} الآن {status}.",
+      toastFailed: "تعذر تغيير الحالة",
+      blockers: {
+        noAssessment: "لا يوجد تقييم مسجل بعد",
+        noApprovedResidual: "لا يوجد تقييم متبقٍ معتمد بعد",
+        noTreatmentPlan: "لا توجد خطة معالجة بعد",
+        treatmentIncomplete: "لم تكتمل جميع إجراءات المعالجة",
+        openTreatmentActions: "لا تزال هناك إجراءات معالجة مفتوحة",
+      },
     },
   },
   assessments: {
@@ -1327,6 +2121,77 @@ export const ar = {
     createdTitle: "تم إنشاء التقييم",
     saveAssessment: "حفظ التقييم",
     failedToCreateTitle: "فشل إنشاء التقييم",
+    submittedForReview: "أُرسل للمراجعة.",
+    approvalStatuses: {
+      draft: "مسودة",
+      pending: "بانتظار المراجعة",
+      approved: "معتمد",
+      rejected: "مرفوض",
+    },
+    typeInherent: "متأصل",
+    typeResidual: "متبقٍ",
+    reviewerFeedback: "ملاحظات المراجع",
+    resubmitHint: "عدّل التقييم لمعالجة الملاحظات؛ عند الحفظ يُعاد إرساله للمراجعة.",
+    approvedByOn: "اعتمده {name} في {date}",
+    assessmentType: "نوع التقييم",
+    inherentHint: "الخطر قبل أي ضوابط",
+    residualHint: "الخطر مع وجود الضوابط المرتبطة",
+    supportingControls: "الضوابط الداعمة",
+    supportingControlsHint: "اختر الضوابط التي تبرر انخفاض الدرجة المتبقية.",
+    noLinkedControls: "لا توجد ضوابط مرتبطة بهذا الخطر بعد. اربطها من تبويب الضوابط في صفحة الخطر.",
+    supportedBy: "مدعوم بـ",
+    residualWithoutControls: "لم تُسجَّل ضوابط داعمة.",
+    scoreByDimension: "تقييم الأثر حسب البُعد",
+    scoreByDimensionHint: "قيّم كل مجال أثر على حدة؛ ويُحسب الأثر الإجمالي وفق القاعدة المعتمدة.",
+    overallImpact: "الأثر الإجمالي",
+    impactBreakdownTitle: "الأثر حسب البُعد",
+    breakdownKept: "يطابق الأثر الإجمالي المحسوب من درجات الأبعاد.",
+    breakdownOverridden: "يختلف عن درجات الأبعاد؛ سيؤدي الحفظ إلى حذف التفصيل.",
+    impactDimensions: {
+      financial: "مالي",
+      reputational: "السمعة",
+      regulatory: "تنظيمي",
+      operational: "تشغيلي",
+      health_safety: "الصحة والسلامة",
+    },
+    impactRules: {
+      max: "أعلى بُعد",
+      weighted_average: "متوسط مرجّح",
+      top_two_average: "متوسط أعلى بُعدين",
+    },
+    impactRuleHints: {
+      max: "الأثر الإجمالي هو أسوأ بُعد منفرد.",
+      weighted_average: "تُحسب درجات الأبعاد كمتوسط مرجّح بأوزانها مع تقريب النصف للأعلى.",
+      top_two_average: "يُحسب متوسط أسوأ بُعدين مع تقريب النصف للأعلى.",
+    },
+    review: {
+      title: "مراجعة التقييمات",
+      subtitle: "اعتماد التقييمات المقدمة من المقيّمين أو إعادتها.",
+      pendingCount: "{count} بانتظار المراجعة",
+      emptyTitle: "لا توجد تقييمات للمراجعة",
+      emptyDesc: "ستظهر التقييمات الجديدة هنا بمجرد تقديمها.",
+      submittedBy: "قدّمه {name} في {date}",
+      underReview: "قيد المراجعة",
+      current: "الحالي",
+      notAssessed: "لم يُقيَّم بعد",
+      reduction: "الانخفاض",
+      reductionValue: "{points} نقاط ({percent}%)",
+      residualAboveInherent: "درجة الخطر المتبقي أعلى من درجة الخطر المتأصل.",
+      assessorNotes: "ملاحظات المقيّم",
+      openRisk: "فتح الخطر",
+      ownAssessment: "مقدَّم منك؛ يجب أن يعتمده مراجع آخر.",
+      approve: "اعتماد",
+      reject: "رفض",
+      rejectTitle: "رفض التقييم",
+      rejectDesc: "سيطّلع المقيّم على السبب ويمكنه تعديل التقييم.",
+      reasonLabel: "السبب",
+      reasonPlaceholder: "وضّح ما يجب تغييره",
+      reasonRequired: "يجب إدخال سبب لرفض التقييم.",
+      approvedTitle: "تم اعتماد التقييم",
+      rejectedTitle: "أُعيد التقييم إلى المقيّم",
+      actionFailedTitle: "تعذّرت المراجعة",
+      loadFailedTitle: "فشل تحميل التقييمات",
+    },
   },
   notFound: {
     message: "الصفحة غير موجودة",
@@ -1411,6 +2276,193 @@ export const ar = {
     all: "الكل",
     exportCsv: "تصدير CSV",
     exportHtml: "تصدير HTML (طباعة)",
+    downloadPdf: "تنزيل PDF",
+    generatingPdf: "جارٍ إنشاء ملف PDF...",
+    pdfFailedTitle: "فشل تصدير PDF",
+    pdfGeneratedOn: "أُنشئ في {date}",
+    pdfPageOf: "صفحة {page} من {pages}",
+    pdfPreparedBy: "أعدّه",
+    pdfRiskCount: "المخاطر المشمولة",
+    heatMapTitle: "الخريطة الحرارية للمخاطر",
+    byLevel: "حسب المستوى",
+    schedules: {
+      title: "التقارير المجدولة",
+      subtitle: "أرسل التقارير إلى أصحاب المصلحة تلقائياً وفق جدول ثابت.",
+      newSchedule: "جدول جديد",
+      empty: "لا توجد تقارير مجدولة بعد.",
+      emptyHint:
+        "أنشئ جدولاً لإرسال تقرير تلقائياً، مثل إرسال السجل إلى لجنة المخاطر كل يوم اثنين.",
+      dialogTitle: "جدولة تقرير",
+      dialogDesc: "اختر ما سيتم إرساله وعدد مرات الإرسال والمستلمين.",
+      name: "الاسم",
+      namePlaceholder: "مثال: حزمة سجل المخاطر للجنة",
+      reportType: "التقرير",
+      frequency: "التكرار",
+      frequencies: {
+        daily: "يومي",
+        weekly: "أسبوعي",
+        monthly: "شهري",
+      },
+      dayOfWeek: "يوم الأسبوع",
+      dayOfMonth: "يوم الشهر",
+      time: "الوقت",
+      format: "الصيغة",
+      formats: {
+        csv: "CSV",
+        excel: "Excel",
+        pdf: "PDF",
+      },
+      recipients: "المستلمون",
+      recipientsPlaceholder: "name@company.com, team@company.com",
+      recipientsHint: "افصل بين العناوين بفواصل أو أسطر جديدة.",
+      invalidRecipients: "عنوان بريد إلكتروني غير صالح: {emails}",
+      filters: "عوامل التصفية",
+      allCategories: "جميع الفئات",
+      allStatuses: "جميع الحالات",
+      firstRun: "أول تشغيل: {date}",
+      everyDay: "يومياً الساعة {time}",
+      everyWeek: "كل {day} الساعة {time}",
+      everyMonth: "شهرياً في اليوم {day} الساعة {time}",
+      nextRun: "التشغيل التالي",
+      lastRun: "آخر تشغيل",
+      notRunYet: "لم يعمل بعد",
+      pastRuns: "التشغيلات السابقة",
+      hideRuns: "إخفاء التشغيلات",
+      noRuns: "لم يتم تشغيل هذا الجدول بعد.",
+      sentTo: "أُرسل إلى {count} مستلم",
+      download: "تنزيل",
+      downloadFailed: "تعذر تنزيل التقرير",
+      created: "تم إنشاء الجدول",
+      createFailed: "تعذر إنشاء الجدول",
+      missingFields: "أدخل اسماً واختر تقريراً وأضف مستلماً واحداً على الأقل.",
+      deleteTitle: "حذف الجدول؟",
+      deleteDesc: "لن يتم إرسال \"{name}\" بعد الآن. تبقى تشغيلاته السابقة في سجل التقارير.",
+      deleted: "تم حذف الجدول",
+      deleteFailed: "تعذر حذف الجدول",
+      loadFailed: "تعذر تحميل التقارير المجدولة",
+      manage: "إدارة الجداول",
+      manageDesc: "تقارير تُرسل تلقائياً إلى مستلميها.",
+    },
+    snapshots: {
+      title: "لقطات السجل",
+      subtitle:
+        "احفظ السجل بالكامل باسم محدد، ثم قارن بين أي لقطتين لمعرفة كيف تغيّر.",
+      takeSnapshot: "أخذ لقطة",
+      takeTitle: "أخذ لقطة من سجل المخاطر",
+      takeDesc:
+        "تُحفظ الدرجات والمالكون والحالات وخطط المعالجة وقيم مؤشرات المخاطر لكل خطر كما هي الآن.",
+      name: "الاسم",
+      namePlaceholder: "مثال: مجلس الإدارة الربع الثالث 2026",
+      description: "الوصف",
+      descriptionPlaceholder: "الغرض من اللقطة (اختياري)",
+      nameRequired: "أدخل اسماً للقطة.",
+      taken: "تم أخذ اللقطة \"{name}\"",
+      takeFailed: "تعذر أخذ اللقطة",
+      listTitle: "اللقطات",
+      colName: "الاسم",
+      colTakenAt: "تاريخ الأخذ",
+      colTakenBy: "أُخذت بواسطة",
+      colRisks: "المخاطر",
+      empty: "لا توجد لقطات بعد.",
+      emptyHint:
+        "خذ لقطة قبل كل اجتماع للجنة أو لمجلس الإدارة لمتابعة التغيّر الربعي.",
+      loadFailed: "تعذر تحميل اللقطات",
+      deleteTitle: "حذف اللقطة؟",
+      deleteDesc: "سيتم حذف \"{name}\" ولن يمكن مقارنتها بعد ذلك.",
+      deleted: "تم حذف اللقطة",
+      deleteFailed: "تعذر حذف اللقطة",
+      compareTitle: "التغيّر بين اللقطات",
+      baseline: "خط الأساس",
+      comparison: "مقارنة مع",
+      selectSnapshot: "اختر لقطة",
+      needTwo: "خذ لقطتين على الأقل لمقارنة التغيّر.",
+      sameSnapshot: "اختر لقطتين مختلفتين.",
+      compareLoading: "جاري تحميل اللقطات...",
+      compareFailed: "تعذر تحميل اللقطات",
+      movementTitle: "التغيّرات",
+      noMovement: "لم يتغير شيء بين هاتين اللقطتين.",
+      added: "مضافة",
+      removed: "محذوفة",
+      scoreUp: "ارتفاع الدرجة",
+      scoreDown: "انخفاض الدرجة",
+      ownerChanges: "تغيير المالك",
+      statusChanges: "تغيير الحالة",
+      unchanged: "دون تغيير",
+      addedTitle: "المخاطر المضافة",
+      removedTitle: "المخاطر المحذوفة",
+      scoreTitle: "تغيّر الدرجات",
+      ownerTitle: "تغييرات المالك",
+      statusTitle: "تغييرات الحالة",
+      colCode: "المعرف",
+      colRisk: "الخطر",
+      colOwner: "المالك",
+      colStatus: "الحالة",
+      colInherent: "الكامنة",
+      colResidual: "المتبقية",
+      colChange: "التغيير",
+      colBefore: "قبل",
+      colAfter: "بعد",
+      movementTypes: {
+        added: "مضاف",
+        removed: "محذوف",
+        inherentScore: "الدرجة الكامنة",
+        residualScore: "الدرجة المتبقية",
+        owner: "المالك",
+        status: "الحالة",
+      },
+      exportCsv: "تصدير CSV",
+      exportPdf: "تصدير PDF",
+      exportFailed: "تعذر تصدير المقارنة",
+      pdfTitle: "تغيّر سجل المخاطر",
+      pdfSubtitle: "{from} مقارنة مع {to}",
+    },
+    tabOverview: "نظرة عامة",
+    history: {
+      title: "التقارير المُنشأة",
+      subtitle:
+        "كل تقرير تم إنشاؤه أو تصديره مع عوامل التصفية المستخدمة. نزّل الملف المحفوظ مجدداً أو قارن بين تشغيلين.",
+      allTypes: "جميع أنواع التقارير",
+      colType: "التقرير",
+      colFilters: "عوامل التصفية",
+      colGeneratedBy: "أنشأه",
+      colGeneratedAt: "وقت الإنشاء",
+      colFormat: "الصيغة",
+      noFilters: "بدون تصفية",
+      scheduled: "مجدول",
+      empty: "لم يتم إنشاء أي تقارير بعد.",
+      loadFailed: "تعذر تحميل سجل التقارير",
+      download: "تنزيل",
+      downloadFailed: "تعذر تنزيل التقرير",
+      selectForCompare: "تحديد للمقارنة",
+      compare: "مقارنة",
+      compareHint: "حدد تقريرين من النوع نفسه لمقارنتهما.",
+      selectedCount: "تم تحديد {count} من 2",
+      clearSelection: "مسح",
+      compareTitle: "مقارنة التقارير",
+      compareDesc: "تتم مطابقة الصفوف حسب \"{key}\". يُعرض التقرير الأقدم أولاً.",
+      compareLoading: "جارٍ تحميل التقريرين...",
+      compareFailed: "تعذرت مقارنة هذين التقريرين",
+      differentTypes: "لا يمكن مقارنة إلا التقارير من النوع نفسه.",
+      added: "مضاف",
+      removed: "محذوف",
+      changed: "متغير",
+      unchanged: "دون تغيير",
+      noDifferences: "يحتوي التقريران على الصفوف نفسها.",
+      rowCount: "{count} صف",
+      field: "الحقل",
+      before: "قبل",
+      after: "بعد",
+      deleteTitle: "حذف هذا التقرير؟",
+      deleteDesc: "سيتم حذف تقرير {type} المحفوظ بتاريخ {date} نهائياً.",
+      deleted: "تم حذف التقرير",
+      deleteFailed: "تعذر حذف التقرير",
+      filterLabels: {
+        start_date: "من",
+        end_date: "إلى",
+        category: "الفئة",
+        status: "الحالة",
+      },
+    },
   },
   system: {
     title: "إعدادات النظام",
@@ -1431,6 +2483,39 @@ export const ar = {
     lowMax: "الحد الأعلى (منخفض)",
     mediumMax: "الحد الأعلى (متوسط)",
     highMax: "الحد الأعلى (عالي)",
+    thresholdAboveMatrix:
+      "يجب أن يكون الحد الأعلى (عالي) أقل من {max}، وهي أعلى درجة في مصفوفة {size} × {size}.",
+    matrixTitle: "مصفوفة المخاطر",
+    matrixHelp:
+      "حدد حجم مصفوفة الاحتمالية × الأثر ومعنى كل مستوى. يرى المقيّمون التسمية والمعايير عند تقييم الخطر.",
+    matrixSize: "حجم المصفوفة",
+    matrixSizeHint:
+      "تغيير الحجم يعيد ضبط العتبات أعلاه بالتناسب. راجعها قبل الحفظ.",
+    matrixSizeInUse:
+      "توجد تقييمات حتى المستوى {max}، لذا لا يمكن أن تكون المصفوفة أصغر من {max} × {max}.",
+    matrixLikelihoodLevels: "مستويات الاحتمالية",
+    matrixImpactLevels: "مستويات الأثر",
+    matrixLevelLabel: "التسمية",
+    matrixLevelCriteria: "المعايير",
+    matrixCriteriaPlaceholder: "مثال: خسارة تتجاوز مليون دولار",
+    matrixCellColors: "ألوان الخلايا",
+    matrixCellColorsHelp:
+      "انقر على خلية لتحديد مستواها. الخلايا المتقطعة تتبع عتبات الدرجة.",
+    matrixCellAuto: "من العتبات",
+    matrixCellLegend: "{count} خلية ملونة يدويًا.",
+    matrixResetColors: "إعادة تعيين الألوان",
+    invalidMatrixTitle: "مصفوفة مخاطر غير صالحة",
+    invalidMatrixLabels: "يجب أن يكون لكل مستوى احتمالية وأثر تسمية.",
+    impactTitle: "تقييم الأثر",
+    impactHelp:
+      "يمكن تقييم الأثر لكل بُعد على حدة. حدّد معايير كل مستوى وكيفية دمج درجات الأبعاد في الأثر الإجمالي.",
+    impactRule: "قاعدة الدمج",
+    impactWeight: "الوزن",
+    impactWeightShare: "{share}% من المتوسط المرجّح.",
+    impactWeightUnused: "يُستخدم فقط مع قاعدة المتوسط المرجّح.",
+    impactCriteria: "المعايير لكل مستوى أثر",
+    invalidImpactTitle: "إعدادات تقييم الأثر غير صالحة",
+    invalidImpactWeights: "يتطلب المتوسط المرجّح بُعدًا واحدًا على الأقل بوزن أكبر من صفر.",
     notificationsTitle: "الإشعارات",
     enableNotifications: "تفعيل الإشعارات",
     notificationsHelp: "يتحكم في التذكيرات والتنبيهات داخل النظام.",
@@ -107,6 +107,8 @@ export const en = {
     reportsStandard: "Standard Report",
     reportsCustom: "Custom Report",
     reportsRegister: "Register Report",
+    reportsScheduled: "Scheduled Reports",
+    reportsSnapshots: "Register Snapshots",
     settings: "Settings",
     users: "Users",
     roles: "Roles",
@@ -117,15 +119,24 @@ export const en = {
     committee: "Committee Governance",
     notifications: "Notifications",
     riskAppetite: "Risk Appetite",
+    kris: "Key Risk Indicators",
+    incidents: "Incidents",
+    controls: "Controls",
+    controlLibrary: "Control Library",
+    controlTests: "Control Testing",
+    controlHealth: "Control Health",
     policies: "Policies & Procedures",
+    assessmentReview: "Assessment Review",
   },
   page: {
     dashboard: "Dashboard",
     risksDashboard: "Risks Dashboard",
     riskRegister: "Risk Register",
     newRisk: "New Risk",
+    importRisks: "Import Risks",
     assessments: "Assessments",
     newAssessment: "New Assessment",
+    assessmentReview: "Assessment Review",
     treatmentPlans: "Treatment Plans",
     followUp: "Follow-up",
     analysisDashboard: "Analysis Dashboard",
@@ -141,6 +152,8 @@ export const en = {
     reportsExecutive: "Executive Report",
     reportsStandard: "Standard Report",
     reportsCustom: "Custom Report",
+    reportsScheduled: "Scheduled Reports",
+    reportsSnapshots: "Register Snapshots",
     users: "Users",
     roleManagement: "Role Management",
     permissions: "Permissions",
@@ -205,6 +218,7 @@ export const en = {
     legendHigh: "High",
     legendMedium: "Medium",
     legendLow: "Low",
+    legendOverride: "Colour set by an administrator",
     otherLevel: "Other",
     matrixHint:
       "Levels are computed from score (Likelihood x Impact) using your system thresholds.",
@@ -716,6 +730,7 @@ export const en = {
       risk_escalation: "Risk escalation",
       appetite_exceeded: "Appetite exceeded",
       treatment_due: "Treatment due",
+      control_test_overdue: "Control test overdue",
       assessment_required: "Assessment required",
       system_alert: "System alert",
       committee_decision: "Committee decision",
@@ -899,6 +914,546 @@ export const en = {
     toastUpdateDoneTitle: "Updated",
     toastUpdateDoneDesc: "Appetite thresholds updated successfully",
     toastUpdateFailed: "Failed to update thresholds",
+    tableCategory: "Category",
+    categoryTitle: "Appetite by category",
+    categoryDesc:
+      "The board's appetite statement for each risk category. Risks are evaluated against their category's own limits where set.",
+    categoryStatement: "Appetite statement",
+    categoryStatementPlaceholder:
+      "e.g. We have zero tolerance for regulatory breaches.",
+    categoryLimits: "Limits",
+    categoryGlobal: "Global limits",
+    categoryNoStatement: "No statement yet",
+    categoryWithin: "{within} of {total} within",
+    categoryNoRisks: "No active risks",
+    categoryEdit: "Edit appetite",
+    categoryDialogTitle: "{category} risk appetite",
+    categoryDialogDesc:
+      "Describe the appetite in the board's words and set the limits this category is held to.",
+    categoryUseGlobal: "Use the global thresholds",
+    categoryUseGlobalHint:
+      "Turn off to give this category its own low, medium, high and critical limits.",
+    categoryInvalidThresholds:
+      "Limits must increase from low to critical and the warning percentage must be between 1 and 100.",
+    categorySaved: "{category} appetite saved",
+    categorySaveFailed: "Failed to save the category appetite",
+    trendTitle: "Compliance Trend",
+    trendDesc: "Appetite levels recorded by each \"Check all risks\" run",
+    trendEmpty: "No checks recorded yet. Run \"Check all risks\" to start the trend.",
+    trendImproved: "Compliance is up {delta} points since {from}, now {rate}%.",
+    trendWorsened: "Compliance is down {delta} points since {from}, now {rate}%.",
+    trendClickHint: "Click a point to compare that run with the one before it.",
+    trendDrillTitle: "What changed between runs",
+    trendFromRun: "From run",
+    trendToRun: "To run",
+    trendSelectRun: "Select a run",
+    trendCrossedOut: "Crossed out of appetite",
+    trendCrossedIn: "Back within appetite",
+    trendOtherChanges: "Other level changes",
+    trendNoneInGroup: "None",
+    trendNotChecked: "Not checked",
+  },
+  krisPage: {
+    title: "Key Risk Indicators",
+    subtitle: "Define KRIs, record measurements and track them against their thresholds.",
+    searchPlaceholder: "Search KRIs...",
+    refresh: "Refresh",
+    filterActive: "Active",
+    filterRetired: "Retired",
+    filterAll: "All",
+    totalActive: "Active KRIs",
+    statusGreen: "Within threshold",
+    statusYellow: "Warning",
+    statusRed: "Breached",
+    overdueCount: "Overdue measurements",
+    overdueTitle: "Overdue measurements ({count})",
+    overdueDesc: "KRIs whose next measurement date has passed.",
+    daysOverdue: "{days} days overdue",
+    dueToday: "Due today",
+    registerTitle: "KRI register",
+    colCode: "Code",
+    colName: "Indicator",
+    colRisk: "Risk",
+    colValue: "Current value",
+    colThresholds: "Yellow / Red",
+    colStatus: "Status",
+    colFrequency: "Frequency",
+    colNextDue: "Next measurement",
+    colActions: "Actions",
+    noKris: "No KRIs found.",
+    retired: "Retired",
+    historyTitle: "Measurement history: {name}",
+    historyDesc: "Recorded values against the yellow and red thresholds.",
+    noHistory: "No measurements recorded yet.",
+    selectHint: "Select a KRI to view its measurement history.",
+    colRecordedAt: "Recorded at",
+    colRecordedBy: "Recorded by",
+    colNotes: "Notes",
+    value: "Value",
+    target: "Target",
+    yellowThreshold: "Yellow threshold",
+    redThreshold: "Red threshold",
+    addTitle: "New KRI",
+    editTitle: "Edit KRI",
+    formDesc: "Thresholds decide when a measurement turns yellow or red.",
+    nameLabel: "Indicator name",
+    descriptionLabel: "Description",
+    riskLabel: "Linked risk",
+    noRisk: "Not linked",
+    ownerLabel: "Owner",
+    noOwner: "Unassigned",
+    targetLabel: "Target value",
+    directionLabel: "Direction",
+    higherBetter: "Higher is better",
+    lowerBetter: "Lower is better",
+    frequencyLabel: "Measurement frequency",
+    nextDateLabel: "Next measurement date",
+    unitLabel: "Unit",
+    formatLabel: "Format",
+    formatNumber: "Number",
+    formatPercentage: "Percentage",
+    formatCurrency: "Currency",
+    notesLabel: "Notes",
+    frequencyDaily: "Daily",
+    frequencyWeekly: "Weekly",
+    frequencyMonthly: "Monthly",
+    frequencyQuarterly: "Quarterly",
+    frequencyAnnually: "Annually",
+    missingName: "Indicator name is required.",
+    thresholdOrderHigher: "When higher is better, the red threshold must be below the yellow threshold.",
+    thresholdOrderLower: "When lower is better, the red threshold must be above the yellow threshold.",
+    recordTitle: "Record measurement",
+    recordDesc: "Log a new value for {name}.",
+    record: "Record",
+    invalidValue: "Enter a numeric value.",
+    history: "History",
+    retire: "Retire",
+    reactivate: "Reactivate",
+    retireTitle: "Retire this KRI?",
+    retireDesc: "{name} will no longer be measured. Its history is kept.",
+    created: "KRI created",
+    updated: "KRI updated",
+    recorded: "Measurement recorded",
+    breached: "Red threshold breached",
+    retiredToast: "KRI retired",
+    reactivatedToast: "KRI reactivated",
+    loadFailed: "Failed to load KRIs",
+    saveFailed: "Could not save the KRI",
+    recordFailed: "Could not record the measurement",
+    noPermissionCreate: "You do not have permission to create KRIs.",
+    noPermissionEdit: "You do not have permission to edit KRIs.",
+    noPermissionRetire: "You do not have permission to retire KRIs.",
+  },
+  controlsPage: {
+    title: "Controls Library",
+    subtitle:
+      "Preventive, detective and corrective controls, and the risks they mitigate.",
+    searchPlaceholder: "Search controls...",
+    filterAllTypes: "All types",
+    filterActive: "Active",
+    filterRetired: "Retired",
+    filterAll: "All",
+    refresh: "Refresh",
+    totalActive: "Active controls",
+    unlinkedCount: "Not linked to a risk",
+    libraryTitle: "Control library",
+    noControls: "No controls match the filters.",
+    colCode: "Code",
+    colName: "Control",
+    colType: "Type",
+    colAutomation: "Automation",
+    colFrequency: "Frequency",
+    colRisks: "Risks",
+    colActions: "Actions",
+    colDesign: "Design",
+    colOperating: "Operating",
+    colOverall: "Overall",
+    retired: "Retired",
+    addTitle: "New control",
+    editTitle: "Edit control",
+    formDesc: "A control can be linked to any number of risks.",
+    nameLabel: "Name",
+    descriptionLabel: "Description",
+    typeLabel: "Type",
+    automationLabel: "Automation",
+    frequencyLabel: "Frequency",
+    ownerLabel: "Owner",
+    noOwner: "No owner",
+    missingName: "Control name is required",
+    created: "Control created",
+    updated: "Control updated",
+    saveFailed: "Failed to save control",
+    loadFailed: "Failed to load controls",
+    retire: "Retire",
+    reactivate: "Reactivate",
+    retireTitle: "Retire control?",
+    retireDesc:
+      "{name} stays on the risks it is linked to but cannot be linked to new risks.",
+    retiredToast: "Control retired",
+    reactivatedToast: "Control reactivated",
+    noPermissionCreate: "You do not have permission to create controls.",
+    noPermissionEdit: "You do not have permission to edit controls.",
+    noPermissionRetire: "You do not have permission to retire controls.",
+    linkedRisksTitle: "Risks mitigated by {name}",
+    linkedRisksEmpty: "Not linked to any risk yet.",
+    selectControlHint: "Select a control to see the risks it mitigates.",
+    types: {
+      preventive: "Preventive",
+      detective: "Detective",
+      corrective: "Corrective",
+    },
+    automations: {
+      manual: "Manual",
+      automated: "Automated",
+    },
+    frequencies: {
+      continuous: "Continuous",
+      daily: "Daily",
+      weekly: "Weekly",
+      monthly: "Monthly",
+      quarterly: "Quarterly",
+      annually: "Annually",
+      ad_hoc: "Ad hoc",
+    },
+    effectiveness: {
+      effective: "Effective",
+      partially_effective: "Partially effective",
+      ineffective: "Ineffective",
+      not_assessed: "Not assessed",
+    },
+    riskControlsTitle: "Controls",
+    riskControlsDesc:
+      "Controls applied to this risk, rated on how well they are designed and how well they operate.",
+    noRiskControls: "No controls are linked to this risk yet.",
+    effectiveSummary: "{effective} of {total} controls fully effective",
+    linkControl: "Link control",
+    linkTitle: "Link a control",
+    linkDesc: "Pick a control from the library and rate it for this risk.",
+    rateTitle: "Rate control",
+    rateDesc: "Update the design and operating effectiveness of {name} for this risk.",
+    controlLabel: "Control",
+    selectControl: "Select a control",
+    noAvailableControls: "Every active control is already linked to this risk.",
+    designLabel: "Design effectiveness",
+    operatingLabel: "Operating effectiveness",
+    notesLabel: "Notes",
+    linked: "Control linked",
+    rated: "Ratings updated",
+    unlink: "Unlink",
+    unlinkTitle: "Unlink control?",
+    unlinkDesc:
+      "{name} will be removed from this risk and from residual assessments that relied on it. It stays in the library.",
+    unlinked: "Control unlinked",
+    openLibrary: "Open controls library",
+    testPlanTitle: "Test plan",
+    testPlanHint: "Scheduled controls are tested periodically; each recorded test moves the next due date on by the test frequency.",
+    testFrequencyLabel: "Test frequency",
+    notScheduled: "Not scheduled",
+    testerLabel: "Tester",
+    nextTestDueLabel: "Next test due",
+    nextTestDueHint: "Leave empty to schedule the first test one period from today.",
+    testFrequencies: {
+      monthly: "Monthly",
+      quarterly: "Quarterly",
+      semi_annually: "Semi-annually",
+      annually: "Annually",
+    },
+  },
+  controlTestsPage: {
+    title: "Control Testing",
+    subtitle: "Test schedule for the control library and the results of every test.",
+    refresh: "Refresh",
+    filterAllStatuses: "All schedules",
+    scheduleTitle: "Test schedule",
+    scheduleDesc: "Active controls and when each is next due for testing.",
+    noScheduled: "No controls match this filter.",
+    historyTitle: "Test results",
+    historyDesc: "Recorded tests, newest first.",
+    allControls: "All controls",
+    noTests: "No tests recorded yet.",
+    statuses: {
+      overdue: "Overdue",
+      due_soon: "Due soon",
+      scheduled: "Scheduled",
+      unscheduled: "Not scheduled",
+    },
+    daysOverdue: "{days} days overdue",
+    colControl: "Control",
+    colFrequency: "Frequency",
+    colTester: "Tester",
+    colNextDue: "Next due",
+    colLastResult: "Last result",
+    colTestedAt: "Tested",
+    colResult: "Result",
+    colSample: "Sample",
+    colExceptions: "Exceptions",
+    colEvidence: "Evidence",
+    colActions: "Actions",
+    notTested: "Not tested",
+    recordResult: "Record result",
+    recordTitle: "Record test result",
+    recordDesc: "Record the outcome of testing {name}. The result becomes the control's operating effectiveness on every linked risk.",
+    testedAtLabel: "Test date",
+    resultLabel: "Result",
+    sampleSizeLabel: "Sample size",
+    exceptionsLabel: "Exceptions",
+    evidenceLabel: "Evidence",
+    evidencePlaceholder: "Where the working papers or evidence are kept",
+    notesLabel: "Notes",
+    invalidSample: "Sample size must be at least 1 and exceptions cannot exceed it.",
+    invalidDate: "The test date cannot be in the future.",
+    recorded: "Test result recorded",
+    saveFailed: "Failed to record test result",
+    noPermission: "You do not have permission to record test results.",
+  },
+  quantification: {
+    tab: "Quantification",
+    title: "Quantitative analysis",
+    description: "FAIR-style estimate of the money this risk can cost: how often a loss event happens each year and how much each one costs, simulated over many years.",
+    add: "Quantify risk",
+    edit: "Edit inputs",
+    remove: "Remove analysis",
+    removeTitle: "Remove quantitative analysis?",
+    removeDesc: "{code} will keep its qualitative score only. The inputs can be entered again later.",
+    saved: "Quantitative analysis saved",
+    removed: "Quantitative analysis removed",
+    saveFailed: "Could not save the quantitative analysis",
+    invalidRanges: "Each range needs a min below its max, a most likely value between them (PERT) or a low estimate above zero (lognormal), and a three-letter currency code.",
+    empty: "This risk has not been quantified yet. Estimate its loss event frequency and loss magnitude to see its annualised loss exposure.",
+    lastUpdated: "Last updated {date} by {name}",
+    qualitativeScore: "Qualitative score",
+    ale: "Annualised loss exposure",
+    p50: "Median year (P50)",
+    p90: "P90 loss",
+    p95: "P95 loss",
+    p99: "P99 loss",
+    lossProbability: "Chance of any loss in a year",
+    frequencyTitle: "Loss event frequency",
+    frequencyHint: "Loss events per year, e.g. 0.5 means once every two years.",
+    magnitudeTitle: "Loss magnitude",
+    magnitudeHint: "Cost of a single loss event.",
+    distributionLabel: "Distribution",
+    distributions: {
+      pert: "PERT (min, most likely, max)",
+      lognormal: "Lognormal (90% range)",
+    },
+    distributionHints: {
+      pert: "Bounded range shaped around the most likely value.",
+      lognormal: "90% of values fall between the low and high estimates; allows a long tail of rare large losses.",
+    },
+    min: "Min",
+    max: "Max",
+    low: "Low (5%)",
+    high: "High (95%)",
+    mostLikely: "Most likely",
+    pertSummary: "{min} to {max}, most likely {mostLikely} (PERT)",
+    lognormalSummary: "{min} to {max}, 90% range (lognormal)",
+    currencyLabel: "Currency",
+    notesLabel: "Notes",
+    notesPlaceholder: "Sources and assumptions behind the estimates",
+    curveTitle: "Loss exceedance curve",
+    curveHint: "Chance that losses in a year exceed each amount, from {count} simulated years.",
+    simulating: "Running simulation...",
+    simulationFailed: "Simulation failed",
+    exceedsLabel: "Losses above {amount}",
+    probabilityLabel: "Probability",
+    scoreCardLine: "ALE {ale} • P90 {p90}",
+    portfolioTitle: "Portfolio loss exceedance",
+    portfolioDesc: "Quantified risks combined into one annual loss distribution, with each risk's annualised loss exposure and P90.",
+    portfolioEmpty: "No risks have been quantified yet. Add quantitative analysis from a financial or technology risk's details.",
+    otherCurrency: "Recorded in {currency}; not included in the roll-up",
+  },
+  bowTie: {
+    tab: "Bow-tie",
+    title: "Bow-tie analysis",
+    description: "Causes that can lead to the top event with their preventive barriers, and the consequences that can follow it with their mitigating barriers.",
+    edit: "Edit bow-tie",
+    exportSvg: "Export SVG",
+    exportPng: "Export PNG",
+    exportFailed: "Could not export the diagram",
+    topEvent: "Top event",
+    topEventPlaceholder: "What happens when control is lost?",
+    causes: "Causes",
+    consequences: "Consequences",
+    preventiveBarriers: "Preventive barriers",
+    mitigatingBarriers: "Mitigating barriers",
+    addCause: "Add cause",
+    addConsequence: "Add consequence",
+    addBarrier: "Add barrier",
+    causePlaceholder: "Cause",
+    consequencePlaceholder: "Consequence",
+    barrierPlaceholder: "Barrier",
+    noAction: "No linked action",
+    noActionsHint: "Add treatment actions to this risk to link them to barriers.",
+    remove: "Remove",
+    saved: "Bow-tie saved",
+    saveFailed: "Could not save the bow-tie",
+    incomplete: "Fill in the top event and every cause, consequence and barrier before saving.",
+    empty: "No bow-tie yet. Add the causes and consequences of this risk to build one.",
+    lastUpdated: "Last updated {date} by {name}",
+    legendCompleted: "Action completed",
+    legendOpen: "Action in progress",
+    legendUnlinked: "No linked action",
+    diagramLabel: "Bow-tie diagram for {code}",
+  },
+  riskRelationships: {
+    tab: "Relationships",
+    title: "Relationships",
+    description: "Risks this risk causes or is caused by, the business services it affects, the policies governing it and the KRIs monitoring it.",
+    add: "Add relationship",
+    addTitle: "Add relationship",
+    addDesc: "Link {code} to another risk, a business service or a policy.",
+    typeLabel: "Relationship",
+    targetLabels: {
+      causes: "Risk it causes",
+      affects: "Business service",
+      governed_by: "Policy or procedure",
+    },
+    selectTarget: "Select...",
+    noTargets: "Nothing left to link for this relationship.",
+    notesLabel: "Notes",
+    created: "Relationship added",
+    removed: "Relationship removed",
+    saveFailed: "Could not update relationships",
+    remove: "Remove",
+    removeTitle: "Remove relationship?",
+    removeDesc: "The link to {name} will be removed. Neither record is deleted.",
+    derivedHint: "Managed from the KRI",
+    colRelation: "Relationship",
+    colEntity: "Linked to",
+    colStatus: "Level / status",
+    colActions: "Actions",
+    relations: {
+      causes: "Causes",
+      causedBy: "Caused by",
+      affects: "Affects",
+      governed_by: "Governed by",
+      monitors: "Monitored by",
+    },
+    filters: {
+      causes: "Causal links",
+      affects: "Services",
+      governed_by: "Policies",
+      monitors: "KRIs",
+    },
+    nodeKinds: {
+      risk: "Risk",
+      service: "Business service",
+      policy: "Policy",
+      kri: "KRI",
+    },
+    graphLabel: "Relationship graph for {code}",
+    derivedLegend: "Derived from the KRI",
+    clickHint: "Select a node to open it",
+    noRelationships: "No relationships yet",
+    impactedRisks: "Impacted risks",
+    impactedTitle: "Risks touching {name}",
+    impactedDesc: "Risks that affect this service directly, and risks that lead to them through a chain of causes.",
+    directRisks: "Direct ({count})",
+    indirectRisks: "Indirect ({count})",
+    via: "Via",
+    noImpactedRisks: "No risks are linked to this service.",
+  },
+  controlHealth: {
+    title: "Control Health",
+    subtitle: "How well the control library is tested and how controls are performing.",
+    activeControls: "Active controls",
+    testCoverage: "Test coverage",
+    testCoverageHint: "{scheduled} of {total} active controls have a test plan",
+    onSchedule: "Tested on schedule",
+    onScheduleHint: "{overdue} overdue",
+    failingControls: "Failing controls",
+    failingControlsHint: "Last test ineffective",
+    latestResultsTitle: "Latest test results",
+    latestResultsDesc: "Each active control by the result of its most recent test.",
+    testsByMonthTitle: "Tests by month",
+    testsByMonthDesc: "Tests performed over the last 12 months by result.",
+    overdueTitle: "Overdue tests",
+    overdueDesc: "Scheduled tests past their due date.",
+    noOverdue: "No overdue tests.",
+    attentionTitle: "Controls needing attention",
+    attentionDesc: "Controls whose last test was not fully effective.",
+    noAttention: "All tested controls were effective on their last test.",
+    openTesting: "Open testing schedule",
+    noData: "No control tests yet.",
+  },
+  incidentsPage: {
+    title: "Incident Register",
+    subtitle: "Log incidents and follow them from detection to closure.",
+    searchPlaceholder: "Search incidents...",
+    allStatuses: "All statuses",
+    riskFilter: "Risk: {risk}",
+    clearRiskFilter: "Show all risks",
+    colCode: "Code",
+    colTitle: "Incident",
+    colRisk: "Risk",
+    colCategory: "Category",
+    colSeverity: "Severity",
+    colStatus: "Status",
+    colOccurred: "Occurred",
+    colActions: "Actions",
+    noIncidents: "No incidents found.",
+    statusOpen: "Open",
+    statusInvestigating: "Investigating",
+    statusContained: "Contained",
+    statusResolved: "Resolved",
+    statusClosed: "Closed",
+    categorySecurity: "Security",
+    categoryOperational: "Operational",
+    categoryFinancial: "Financial",
+    categoryCompliance: "Compliance",
+    categoryTechnology: "Technology",
+    categoryEnvironmental: "Environmental",
+    categoryHumanError: "Human error",
+    categoryExternal: "External",
+    categoryOther: "Other",
+    addTitle: "Log incident",
+    editTitle: "Edit incident",
+    formDesc: "New incidents start in the Open status.",
+    titleLabel: "Title",
+    descriptionLabel: "Description",
+    categoryLabel: "Category",
+    severityLabel: "Severity",
+    riskLabel: "Linked risk",
+    noRisk: "Not linked",
+    occurredLabel: "Occurred on",
+    assigneeLabel: "Assigned to",
+    unassigned: "Unassigned",
+    financialImpactLabel: "Financial impact",
+    affectedSystemsLabel: "Affected systems (comma separated)",
+    impactLabel: "Impact description",
+    lifecycleTitle: "Lifecycle",
+    notReached: "Not reached",
+    moveTo: "Move to {status}",
+    closedFinal: "This incident is closed.",
+    rootCauseRequired: "Record the root cause before resolving.",
+    lessonsRequired: "Record the lessons learned before closing.",
+    reviewTitle: "Post-incident review",
+    rootCauseLabel: "Root cause",
+    correctiveActionsLabel: "Corrective actions (one per line)",
+    lessonsLabel: "Lessons learned",
+    saveReview: "Save review",
+    detailsTitle: "Details",
+    reporter: "Reported by",
+    affectedSystems: "Affected systems",
+    financialImpact: "Financial impact",
+    impact: "Impact",
+    deleteTitle: "Delete incident?",
+    deleteDesc: "{code} and its review will be permanently removed.",
+    viewInRegister: "Open incident register",
+    missingTitle: "Title is required.",
+    created: "Incident logged",
+    updated: "Incident updated",
+    reviewSaved: "Review saved",
+    statusChanged: "Incident moved to {status}",
+    deleted: "Incident deleted",
+    loadFailed: "Failed to load incidents",
+    saveFailed: "Could not save the incident",
+    transitionFailed: "Could not change the incident status",
+    deleteFailed: "Could not delete the incident",
+    noPermissionCreate: "You do not have permission to log incidents.",
+    noPermissionEdit: "You do not have permission to edit incidents.",
+    noPermissionDelete: "You do not have permission to delete incidents.",
   },
   audit: {
     title: "Audit Log",
@@ -1090,6 +1645,65 @@ export const en = {
 
     deleteActionTitle: "Delete action'",
     deleteActionDesc: "This will remove the action from the treatment plan.",
+
+    planStatus: "Plan status",
+    planStatuses: {
+      draft: "Draft",
+      pending: "Pending Approval",
+      approved: "Approved",
+      in_progress: "In Progress",
+      completed: "Completed",
+      cancelled: "Cancelled",
+    },
+    planHeader: "Plan Details",
+    planName: "Plan title",
+    planDescription: "Description",
+    targetDate: "Target date",
+    budget: "Estimated budget",
+    actualCost: "Actual cost",
+    placeholderPlanName: "Enter plan title",
+    placeholderPlanDescription: "What will this plan achieve?",
+    invalidBudget: "Budget and cost must be zero or more.",
+    detailsLocked:
+      "Plan details can only be changed by an approver once the plan has been submitted.",
+    detailsClosed: "This plan is closed and can no longer be changed.",
+    workflow: "Approval workflow",
+    transitions: {
+      draft: "Return to Draft",
+      pending: "Submit for Approval",
+      approved: "Approve",
+      in_progress: "Start Work",
+      completed: "Mark Completed",
+      cancelled: "Cancel Plan",
+    },
+    blockers: {
+      missingDetails: "Save a title and target date before submitting.",
+      noActions: "Add at least one action before submitting.",
+      openActions: "Every action must be done before the plan can be completed.",
+    },
+    statusChanged: "Plan moved to {status}",
+    statusChangeFailed: "Could not change plan status",
+    saveDetailsFirst: "Save your changes before moving the plan on.",
+
+    tabByRisk: "Plans by Risk",
+    tabPortfolio: "Portfolio",
+    portfolioTitle: "Treatment Portfolio",
+    portfolioSubtitle:
+      "Budget committed to approved plans against the work delivered so far.",
+    budgetCommitted: "Budget committed",
+    budgetDelivered: "Value delivered",
+    actionsCompleted: "Actions completed",
+    plansInFlight: "Plans in flight",
+    budgetVsDelivered: "Budget vs. delivered by plan",
+    committedNote: "Committed budget counts approved, in-progress and completed plans.",
+    noPlansYet: "No treatment plans yet.",
+    colPlan: "Plan",
+    colRisk: "Risk",
+    colStatus: "Status",
+    colBudget: "Budget",
+    colDelivered: "Delivered",
+    colActions: "Actions",
+    colTarget: "Target",
   },
   table: {
     id: "ID",
@@ -1118,6 +1732,8 @@ export const en = {
     emailPlaceholder: "name@example.com",
     password: "Password",
     anyPassword: "Enter any password",
+    demoHint:
+      'Demo mode: sign in as admin@company.com, analyst@company.com or viewer@company.com with the password "demo".',
     forgotPasswordLink: "Forgot password?",
     forgotPasswordTitle: "Forgot password",
     forgotPasswordDesc: "Enter your email and we'll send you a reset link.",
@@ -1214,6 +1830,125 @@ export const en = {
     allLevels: "All Levels",
     status: "Status",
     allStatuses: "All Statuses",
+    owner: "Owner",
+    allOwners: "All Owners",
+    scoreRange: "Score",
+    scoreMin: "Min",
+    scoreMax: "Max",
+    createdBetween: "Created",
+    dateFrom: "From",
+    dateTo: "To",
+    sortHint: "Shift+click a column to add it as a secondary sort.",
+    pagination: {
+      summary: "Showing {from}–{to} of {total}",
+      pageOf: "Page {page} of {pages}",
+      perPage: "Per page",
+      previous: "Previous",
+      next: "Next",
+    },
+    selectAll: "Select all risks on this page",
+    selectRow: "Select {code}",
+    bulk: {
+      selectedCount: "{count} selected",
+      changeStatus: "Change status",
+      reassignOwner: "Reassign owner",
+      changeCategory: "Change category",
+      escalate: "Escalate to committee",
+      export: "Export",
+      delete: "Delete",
+      clearSelection: "Clear selection",
+      titles: {
+        status: "Change status of selected risks",
+        owner: "Reassign selected risks",
+        category: "Change category of selected risks",
+        escalate: "Escalate selected risks to the committee",
+        delete: "Delete selected risks",
+      },
+      appliesTo: "This applies to {count} risks, one at a time.",
+      deleteWarning:
+        "This permanently deletes {count} risks with their assessments, treatments and incidents.",
+      pickStatus: "Select the new status",
+      pickOwner: "Select the new owner",
+      pickCategory: "Select the new category",
+      escalateNotePlaceholder: "Requested action or context for the committee (optional)",
+      invalidTransition: "Cannot move from {from} to {to}",
+      progress: "{done} of {total} processed",
+      succeeded: "{count} succeeded",
+      failed: "{count} failed",
+      failedKept: "Failed risks stay selected so you can retry them.",
+      run: "Apply",
+      running: "Working...",
+      done: "Done",
+      exportedTitle: "Export ready",
+      exportedDesc: "{count} risks exported to CSV.",
+    },
+    import: {
+      button: "Import",
+      title: "Import Risks",
+      subtitle:
+        "Bring risks in from a CSV or Excel spreadsheet, for example when onboarding a business unit.",
+      steps: {
+        upload: "Upload",
+        map: "Map columns",
+        preview: "Review",
+        import: "Import",
+      },
+      uploadTitle: "Choose a spreadsheet",
+      uploadDesc:
+        "The first row must contain column headers; only the first sheet of a workbook is read.",
+      chooseFile: "Click to choose a file",
+      reading: "Reading file...",
+      supportedFormats: "CSV or XLSX",
+      readFailed: "Could not read the file",
+      noDataRows: "The file has headers but no data rows.",
+      mapTitle: "Map columns to risk fields",
+      mapDesc: "{file} - {rows} data rows",
+      notMapped: "Not mapped",
+      columnN: "Column {n}",
+      sample: "e.g. {value}",
+      ownerHint:
+        "Owners are matched by user name or email. Rows without an owner are assigned to you.",
+      missingRequired: "Map the required fields: {fields}",
+      fields: {
+        title: "Title",
+        description: "Description",
+        category: "Category",
+        owner: "Owner",
+        likelihood: "Likelihood",
+        impact: "Impact",
+      },
+      previewTitle: "Validation preview",
+      previewSummary:
+        "{valid} rows ready ({warnings} with warnings), {errors} rows with errors",
+      problemsOnly: "Only show rows with errors or warnings",
+      row: "Row",
+      rowN: "Row {n}:",
+      issuesColumn: "Issues",
+      issues: {
+        required: "{field} is required",
+        unknownCategory: "Unknown category \"{value}\"",
+        unknownOwner: "No user matches \"{value}\"",
+        ownerDefaulted: "No owner given; assigned to {value}",
+        notANumber: "{field} \"{value}\" is not a number",
+        outOfRange: "{field} must be a whole number from {min} to {max}",
+        incompleteScore: "{field} is missing; likelihood and impact go together",
+        duplicateInFile: "Same title as row {value}",
+        alreadyExists: "A risk with this title already exists",
+      },
+      errorRowsSkipped: "Rows with errors are skipped. Fix them in the file and import again.",
+      importRows: "Import {count} rows",
+      back: "Back",
+      next: "Next",
+      importingTitle: "Importing...",
+      resultsTitle: "Import finished",
+      progress: "{done} of {total} rows processed",
+      assessmentNote: "Initial assessment imported from {file}",
+      createdWithoutAssessment: "Risk created without its initial assessment ({error}). Add the assessment from the risk page; importing the row again would duplicate the risk.",
+      doneTitle: "Import finished",
+      doneDesc: "{created} risks created, {failed} failed.",
+      importAnother: "Import another file",
+      viewRegister: "View register",
+    },
     noRisksFound: "No risks found",
     noRisksMatchFilters:
       "No risks match your current filters. Try adjusting your search criteria.",
@@ -1242,6 +1977,16 @@ export const en = {
       Closed: "Closed",
       Monitoring: "Monitoring",
     },
+    lifecycleStatuses: {
+      identified: "Identified",
+      analyzing: "Analyzing",
+      analyzed: "Analyzed",
+      treating: "Treating",
+      treated: "Treated",
+      monitoring: "Monitoring",
+      accepted: "Accepted",
+      closed: "Closed",
+    },
     levels: {
       Low: "Low",
       Medium: "Medium",
@@ -1289,6 +2034,8 @@ export const en = {
       toastSaveFailed: "Failed to save risk.",
       stageCreatedNote: "Risk created",
       stageUpdatedBy: "Current User",
+      statusManagedHint:
+        "Status changes are made from the risk page so lifecycle checks apply.",
     },
     details: {
       loadingDetails: "Loading risk details...",
@@ -1303,8 +2050,8 @@ export const en = {
       incidents: "Incidents",
       auditTrail: "Audit Trail",
       riskAssessment: "Risk Assessment",
-      likelihoodScale: "Likelihood (1-5)",
-      impactScale: "Impact (1-5)",
+      likelihoodScale: "Likelihood (1-{max})",
+      impactScale: "Impact (1-{max})",
       scoreScale: "Score (LxI)",
       treatmentProgress: "Treatment Progress",
       approachLabel: "Approach:",
@@ -1331,6 +2078,58 @@ export const en = {
       openEvidence: "Open evidence link",
       noRelatedIncidents: "No related incidents.",
       noAuditEntries: "No audit entries.",
+      stageRiskCreated: "Risk created",
+      stageIdentified: "Registered in the risk register",
+      stageAssessment: "{type} assessment scored {score} ({level})",
+      stageInherent: "Inherent",
+      stageResidual: "Residual",
+      stageTreatmentPlan: "Treatment plan created: {title}",
+      appetite: {
+        title: "Risk appetite",
+        score: "Current score",
+        threshold: "Appetite limit",
+        categoryThreshold: "{category} appetite limit",
+        exceededBy: "Over the limit",
+        headroom: "Headroom",
+        usage: "{percent}% of the appetite limit",
+        requiredAction: "Required action:",
+        actionTypes: {
+          monitor: "Monitor closely",
+          notify: "Notify the risk owner",
+          escalate: "Escalate to the risk committee",
+        },
+        notify: "Notify owner",
+        autoEscalate: "Escalate if critical",
+        checkNow: "Check now",
+        checkedTitle: "Appetite checked",
+        checkFailed: "Could not check the risk appetite",
+        loadFailed: "Could not evaluate this risk against the appetite.",
+        actionsTaken: "Actions taken",
+        actionLabels: {
+          notification_sent: "Owner notified (notification #{id})",
+          escalated: "Escalated to the committee (escalation #{id})",
+        },
+        noActionsTaken:
+          "Outside appetite, but no notification or escalation was requested or needed.",
+        noActionNeeded: "Within appetite - no action needed.",
+        manageThresholds: "Appetite thresholds",
+      },
+    },
+    lifecycle: {
+      changeStatus: "Change Status",
+      currentStage: "Current stage",
+      moveTo: "Move to {status}",
+      noTransitions: "No further transitions are available.",
+      toastChangedTitle: "Status updated",
+      toastChangedDesc: "{code} is now {status}.",
+      toastFailed: "Failed to change status",
+      blockers: {
+        noAssessment: "No assessment recorded yet",
+        noApprovedResidual: "No approved residual assessment yet",
+        noTreatmentPlan: "No treatment plan yet",
+        treatmentIncomplete: "Not all treatment actions are done",
+        openTreatmentActions: "Treatment actions are still open",
+      },
     },
   },
   assessments: {
@@ -1369,6 +2168,77 @@ export const en = {
     createdTitle: "Assessment created",
     saveAssessment: "Save Assessment",
     failedToCreateTitle: "Failed to create assessment",
+    submittedForReview: "Submitted for review.",
+    approvalStatuses: {
+      draft: "Draft",
+      pending: "Pending review",
+      approved: "Approved",
+      rejected: "Rejected",
+    },
+    typeInherent: "Inherent",
+    typeResidual: "Residual",
+    reviewerFeedback: "Reviewer feedback",
+    resubmitHint: "Edit the assessment to address the feedback; saving sends it back for review.",
+    approvedByOn: "Approved by {name} on {date}",
+    assessmentType: "Assessment type",
+    inherentHint: "Risk before any controls",
+    residualHint: "Risk with the linked controls in place",
+    supportingControls: "Supporting controls",
+    supportingControlsHint: "Select the controls that justify the lower residual score.",
+    noLinkedControls: "No controls are linked to this risk yet. Link them on the risk's Controls tab.",
+    supportedBy: "Supported by",
+    residualWithoutControls: "No supporting controls recorded.",
+    scoreByDimension: "Score impact by dimension",
+    scoreByDimensionHint: "Rate each impact area separately; the overall impact follows the configured rule.",
+    overallImpact: "Overall impact",
+    impactBreakdownTitle: "Impact by dimension",
+    breakdownKept: "Matches the overall impact from the dimension scores.",
+    breakdownOverridden: "Differs from the dimension scores; saving drops the breakdown.",
+    impactDimensions: {
+      financial: "Financial",
+      reputational: "Reputational",
+      regulatory: "Regulatory",
+      operational: "Operational",
+      health_safety: "Health & safety",
+    },
+    impactRules: {
+      max: "Highest dimension",
+      weighted_average: "Weighted average",
+      top_two_average: "Average of the highest two",
+    },
+    impactRuleHints: {
+      max: "The overall impact is the worst single dimension.",
+      weighted_average: "Dimension scores are averaged by their weights, rounding halves up.",
+      top_two_average: "The two worst dimensions are averaged, rounding halves up.",
+    },
+    review: {
+      title: "Assessment Review",
+      subtitle: "Approve or return assessments submitted by assessors.",
+      pendingCount: "{count} awaiting review",
+      emptyTitle: "Nothing to review",
+      emptyDesc: "New assessments will appear here once they are submitted.",
+      submittedBy: "Submitted by {name} on {date}",
+      underReview: "Under review",
+      current: "Current",
+      notAssessed: "Not assessed yet",
+      reduction: "Reduction",
+      reductionValue: "{points} points ({percent}%)",
+      residualAboveInherent: "Residual score is higher than the inherent score.",
+      assessorNotes: "Assessor notes",
+      openRisk: "Open risk",
+      ownAssessment: "Submitted by you; another reviewer must approve it.",
+      approve: "Approve",
+      reject: "Reject",
+      rejectTitle: "Reject assessment",
+      rejectDesc: "The assessor will see your reason and can revise the assessment.",
+      reasonLabel: "Reason",
+      reasonPlaceholder: "Explain what needs to change",
+      reasonRequired: "A reason is required to reject an assessment.",
+      approvedTitle: "Assessment approved",
+      rejectedTitle: "Assessment returned to the assessor",
+      actionFailedTitle: "Review failed",
+      loadFailedTitle: "Failed to load assessments",
+    },
   },
   notFound: {
     message: "Page not found",
@@ -1454,6 +2324,196 @@ export const en = {
     all: "All",
     exportCsv: "Export CSV",
     exportHtml: "Export HTML (Print)",
+    downloadPdf: "Download PDF",
+    generatingPdf: "Generating PDF...",
+    pdfFailedTitle: "PDF export failed",
+    pdfGeneratedOn: "Generated {date}",
+    pdfPageOf: "Page {page} of {pages}",
+    pdfPreparedBy: "Prepared by",
+    pdfRiskCount: "Risks in scope",
+    heatMapTitle: "Risk heat map",
+    byLevel: "By Level",
+    schedules: {
+      title: "Scheduled Reports",
+      subtitle:
+        "Send reports to stakeholders automatically on a fixed schedule.",
+      newSchedule: "New Schedule",
+      empty: "No scheduled reports yet.",
+      emptyHint:
+        "Create a schedule to send a report automatically, for example the register to the risk committee every Monday.",
+      dialogTitle: "Schedule a report",
+      dialogDesc: "Choose what to send, how often and to whom.",
+      name: "Name",
+      namePlaceholder: "e.g. Risk committee register pack",
+      reportType: "Report",
+      frequency: "Frequency",
+      frequencies: {
+        daily: "Daily",
+        weekly: "Weekly",
+        monthly: "Monthly",
+      },
+      dayOfWeek: "Day of week",
+      dayOfMonth: "Day of month",
+      time: "Time",
+      format: "Format",
+      formats: {
+        csv: "CSV",
+        excel: "Excel",
+        pdf: "PDF",
+      },
+      recipients: "Recipients",
+      recipientsPlaceholder: "name@company.com, team@company.com",
+      recipientsHint: "Separate addresses with commas or new lines.",
+      invalidRecipients: "Not a valid email address: {emails}",
+      filters: "Filters",
+      allCategories: "All categories",
+      allStatuses: "All statuses",
+      firstRun: "First run: {date}",
+      everyDay: "Every day at {time}",
+      everyWeek: "Every {day} at {time}",
+      everyMonth: "Monthly on day {day} at {time}",
+      nextRun: "Next run",
+      lastRun: "Last run",
+      notRunYet: "Not run yet",
+      pastRuns: "Past runs",
+      hideRuns: "Hide runs",
+      noRuns: "This schedule has not run yet.",
+      sentTo: "Sent to {count} recipient(s)",
+      download: "Download",
+      downloadFailed: "Could not download the report",
+      created: "Schedule created",
+      createFailed: "Could not create the schedule",
+      missingFields: "Enter a name, choose a report and add at least one recipient.",
+      deleteTitle: "Delete schedule?",
+      deleteDesc:
+        "\"{name}\" will no longer be sent. Its past runs stay in the report history.",
+      deleted: "Schedule deleted",
+      deleteFailed: "Could not delete the schedule",
+      loadFailed: "Could not load scheduled reports",
+      manage: "Manage schedules",
+      manageDesc: "Reports sent automatically to their recipients.",
+    },
+    snapshots: {
+      title: "Register Snapshots",
+      subtitle:
+        "Freeze the whole register under a name, then compare any two snapshots to see how it moved.",
+      takeSnapshot: "Take snapshot",
+      takeTitle: "Take a register snapshot",
+      takeDesc:
+        "Scores, owners, statuses, treatment plans and KRI values of every risk are frozen as they are now.",
+      name: "Name",
+      namePlaceholder: "e.g. Q3 2026 board",
+      description: "Description",
+      descriptionPlaceholder: "What the snapshot was taken for (optional)",
+      nameRequired: "Enter a name for the snapshot.",
+      taken: "Snapshot \"{name}\" taken",
+      takeFailed: "Could not take the snapshot",
+      listTitle: "Snapshots",
+      colName: "Name",
+      colTakenAt: "Taken at",
+      colTakenBy: "Taken by",
+      colRisks: "Risks",
+      empty: "No snapshots yet.",
+      emptyHint:
+        "Take a snapshot before each committee or board meeting to track quarterly movement.",
+      loadFailed: "Could not load snapshots",
+      deleteTitle: "Delete snapshot?",
+      deleteDesc: "\"{name}\" will be removed and can no longer be compared.",
+      deleted: "Snapshot deleted",
+      deleteFailed: "Could not delete the snapshot",
+      compareTitle: "Movement between snapshots",
+      baseline: "Baseline",
+      comparison: "Compared with",
+      selectSnapshot: "Select a snapshot",
+      needTwo: "Take at least two snapshots to compare movement.",
+      sameSnapshot: "Choose two different snapshots.",
+      compareLoading: "Loading snapshots...",
+      compareFailed: "Could not load the snapshots",
+      movementTitle: "Movement",
+      noMovement: "Nothing moved between these snapshots.",
+      added: "Added",
+      removed: "Removed",
+      scoreUp: "Score up",
+      scoreDown: "Score down",
+      ownerChanges: "Owner changes",
+      statusChanges: "Status changes",
+      unchanged: "Unchanged",
+      addedTitle: "Risks added",
+      removedTitle: "Risks removed",
+      scoreTitle: "Score movements",
+      ownerTitle: "Owner changes",
+      statusTitle: "Status changes",
+      colCode: "ID",
+      colRisk: "Risk",
+      colOwner: "Owner",
+      colStatus: "Status",
+      colInherent: "Inherent",
+      colResidual: "Residual",
+      colChange: "Change",
+      colBefore: "Before",
+      colAfter: "After",
+      movementTypes: {
+        added: "Added",
+        removed: "Removed",
+        inherentScore: "Inherent score",
+        residualScore: "Residual score",
+        owner: "Owner",
+        status: "Status",
+      },
+      exportCsv: "Export CSV",
+      exportPdf: "Export PDF",
+      exportFailed: "Could not export the comparison",
+      pdfTitle: "Risk register movement",
+      pdfSubtitle: "{from} compared with {to}",
+    },
+    tabOverview: "Overview",
+    history: {
+      title: "Generated Reports",
+      subtitle:
+        "Every report generated or exported, with the filters it used. Download the stored file again or compare two runs.",
+      allTypes: "All report types",
+      colType: "Report",
+      colFilters: "Filters",
+      colGeneratedBy: "Generated by",
+      colGeneratedAt: "Generated at",
+      colFormat: "Format",
+      noFilters: "No filters",
+      scheduled: "Scheduled",
+      empty: "No reports have been generated yet.",
+      loadFailed: "Could not load report history",
+      download: "Download",
+      downloadFailed: "Could not download the report",
+      selectForCompare: "Select for comparison",
+      compare: "Compare",
+      compareHint: "Select two reports of the same type to compare them.",
+      selectedCount: "{count} of 2 selected",
+      clearSelection: "Clear",
+      compareTitle: "Compare reports",
+      compareDesc: "Rows are matched on \"{key}\". The older report is shown first.",
+      compareLoading: "Loading both reports...",
+      compareFailed: "Could not compare these reports",
+      differentTypes: "Only reports of the same type can be compared.",
+      added: "Added",
+      removed: "Removed",
+      changed: "Changed",
+      unchanged: "Unchanged",
+      noDifferences: "Both reports contain the same rows.",
+      rowCount: "{count} rows",
+      field: "Field",
+      before: "Before",
+      after: "After",
+      deleteTitle: "Delete this report?",
+      deleteDesc:
+        "The stored {type} report from {date} will be removed permanently.",
+      deleted: "Report deleted",
+      deleteFailed: "Could not delete the report",
+      filterLabels: {
+        start_date: "From",
+        end_date: "To",
+        category: "Category",
+        status: "Status",
+      },
+    },
   },
   system: {
     title: "System Settings",
@@ -1474,6 +2534,39 @@ export const en = {
     lowMax: "Low max",
     mediumMax: "Medium max",
     highMax: "High max",
+    thresholdAboveMatrix:
+      "High max must be below {max}, the top score of a {size} × {size} matrix.",
+    matrixTitle: "Risk Matrix",
+    matrixHelp:
+      "Set the size of the likelihood × impact matrix and what each level means. Assessors see the label and criteria when they score a risk.",
+    matrixSize: "Matrix size",
+    matrixSizeHint:
+      "Changing the size rescales the thresholds above. Review them before saving.",
+    matrixSizeInUse:
+      "Ratings up to {max} are already in use, so the matrix cannot be smaller than {max} × {max}.",
+    matrixLikelihoodLevels: "Likelihood levels",
+    matrixImpactLevels: "Impact levels",
+    matrixLevelLabel: "Label",
+    matrixLevelCriteria: "Criteria",
+    matrixCriteriaPlaceholder: "e.g. > $1M loss",
+    matrixCellColors: "Cell colours",
+    matrixCellColorsHelp:
+      "Click a cell to set its level. Dashed cells follow the score thresholds.",
+    matrixCellAuto: "from thresholds",
+    matrixCellLegend: "{count} cell(s) coloured by hand.",
+    matrixResetColors: "Reset colours",
+    invalidMatrixTitle: "Invalid risk matrix",
+    invalidMatrixLabels: "Every likelihood and impact level needs a label.",
+    impactTitle: "Impact scoring",
+    impactHelp:
+      "Impact can be scored per dimension. Set the criteria for each level and how the dimension scores combine into the overall impact.",
+    impactRule: "Aggregation rule",
+    impactWeight: "Weight",
+    impactWeightShare: "{share}% of the weighted average.",
+    impactWeightUnused: "Only used by the weighted average rule.",
+    impactCriteria: "Criteria per impact level",
+    invalidImpactTitle: "Invalid impact scoring",
+    invalidImpactWeights: "The weighted average needs at least one dimension with a weight above zero.",
     notificationsTitle: "Notifications",
     enableNotifications: "Enable notifications",
     notificationsHelp: "Controls in-app reminders and alerts.",
@@ -5,8 +5,8 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { PageLoader } from '@/components/common/Loader';
 import { StatusBadge } from '@/components/common/StatusBadge';
-import { riskApi, assessmentApi } from '@/api';
-import type { Risk, Assessment } from '@/types';
+import { PortfolioLossCard } from '@/components/risks';
+import { useAssessments, useRisks } from '@/hooks/queries';
 import { useI18n } from '@/i18n';
 import { cn } from '@/lib/utils';
 import { ArrowRight, BarChart3, Grid3X3, TrendingUp } from 'lucide-react';
@@ -46,24 +46,12 @@ const levelToBarColor = (level: LevelKey) => {
 
 const AnalysisDashboard: React.FC = () => {
   const { strings, isRTL } = useI18n();
-  const [loading, setLoading] = React.useState(true);
-  const [risks, setRisks] = React.useState<Risk[]>([]);
-  const [assessments, setAssessments] = React.useState<Assessment[]>([]);
+  const risksQuery = useRisks();
+  const assessmentsQuery = useAssessments();
+  const risks = risksQuery.data ?? [];
+  const assessments = assessmentsQuery.data ?? [];
 
-  React.useEffect(() => {
-    const load = async () => {
-      try {
-        const [r, a] = await Promise.all([riskApi.getAll(), assessmentApi.getAll()]);
-        setRisks(r);
-        setAssessments(a);
-      } finally {
-        setLoading(false);
-      }
-    };
-    load();
-  }, []);
-
-  if (loading) return <PageLoader text={strings.common.loading} />;
+  if (risksQuery.isLoading || assessmentsQuery.isLoading) return <PageLoader text={strings.common.loading} />;
 
   const levelLabels = (strings.risks.levels as Record<string, string> | undefined) ?? {};
   const categoryLabels = (strings.risks.categories as Record<string, string> | undefined) ?? {};
@@ -193,6 +181,8 @@ const AnalysisDashboard: React.FC = () => {
         </Card>
       </div>
 
+      <PortfolioLossCard />
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <Card className="glass-card">
           <CardHeader>
@@ -2,19 +2,17 @@ import React from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { PageLoader } from '@/components/common/Loader';
-import { riskApi } from '@/api';
 import type { Risk } from '@/types';
 import { useI18n } from '@/i18n';
 import { cn } from '@/lib/utils';
 import { getRiskLevel } from '@/utils/constants';
-import { userApi } from '@/api';
+import { useRisks, useSystemSettings } from '@/hooks/queries';
+import { matrixCellKey, normalizeRiskMatrix } from '@/utils/riskMatrix';
 
-const cellClassForScore = (score: number, thresholds: { low: number; medium: number; high: number }) => {
-  let level = 'Low';
-  if (score > thresholds.high) level = 'Critical';
-  else if (score > thresholds.medium) level = 'High';
-  else if (score > thresholds.low) level = 'Medium';
-  // else remains Low
+const DEFAULT_THRESHOLDS = { low: 5, medium: 12, high: 20 };
+
+// Cell colours follow getRiskLevel so an administrator's per-cell overrides apply here too
+const cellClassForLevel = (level: string) => {
   if (level === 'Critical') return 'bg-status-critical/15 border-status-critical/40 hover:bg-status-critical/25';
   if (level === 'High') return 'bg-status-high/15 border-status-high/40 hover:bg-status-high/25';
   if (level === 'Medium') return 'bg-status-medium/15 border-status-medium/40 hover:bg-status-medium/25';
@@ -24,9 +22,13 @@ const cellClassForScore = (score: number, thresholds: { low: number; medium: num
 const RiskMatrixPage: React.FC = () => {
   const navigate = useNavigate();
   const { strings, isRTL } = useI18n();
-  const [loading, setLoading] = React.useState(true);
-  const [risks, setRisks] = React.useState<Risk[]>([]);
-  const [thresholds, setThresholds] = React.useState<{ low: number; medium: number; high: number }>({ low: 5, medium: 12, high: 20 });
+  const risksQuery = useRisks();
+  const settingsQuery = useSystemSettings();
+  const risks = React.useMemo(() => risksQuery.data ?? [], [risksQuery.data]);
+  const thresholds =
+    (settingsQuery.data?.riskMatrixThresholds as { low: number; medium: number; high: number } | undefined) ??
+    DEFAULT_THRESHOLDS;
+  const matrix = normalizeRiskMatrix(settingsQuery.data?.riskMatrix);
 
   // Group risks by likelihood-impact
   const matrixData = React.useMemo(() => {
@@ -39,22 +41,7 @@ const RiskMatrixPage: React.FC = () => {
     return map;
   }, [risks]);
 
-  React.useEffect(() => {
-    const load = async () => {
-      try {
-        setRisks(await riskApi.getAll());
-        const settings = await userApi.getSystemSettings();
-        if (settings && settings.riskMatrixThresholds) {
-          setThresholds(settings.riskMatrixThresholds as { low: number; medium: number; high: number });
-        }
-      } finally {
-        setLoading(false);
-      }
-    };
-    load();
-  }, []);
-
-  if (loading) return <PageLoader text={strings.common.loading} />;
+  if (risksQuery.isLoading || settingsQuery.isLoading) return <PageLoader text={strings.common.loading} />;
 
   const hasAnyRisks = risks.length > 0;
 
@@ -87,13 +74,25 @@ const RiskMatrixPage: React.FC = () => {
               <div className={cn('flex items-center gap-4 mb-4', isRTL ? 'flex-row-reverse' : '')}>
                 <div className="w-20 text-sm font-semibold text-muted-foreground text-center">{strings.analysis.likelihoodAxis}</div>
                 <div className="flex-1">
-                  <div className="grid grid-cols-5 gap-1">
-                    {Array.from({ length: 5 }, (_, i) => 5 - i).map(likelihood => (
+                  <div
+                    className="grid gap-1"
+                    style={{ gridTemplateColumns: `minmax(96px, auto) repeat(${matrix.size}, minmax(56px, 1fr))` }}
+                  >
+                    {Array.from({ length: matrix.size }, (_, i) => matrix.size - i).map(likelihood => (
                       <div key={likelihood} className="contents">
-                        {Array.from({ length: 5 }, (_, j) => j + 1).map(impact => {
-                          const key = `${likelihood}-${impact}`;
+                        <div
+                          className="flex flex-col justify-center px-2 text-xs"
+                          title={matrix.likelihood[likelihood - 1]?.criteria || undefined}
+                        >
+                          <span className="font-semibold">{likelihood}</span>
+                          <span className="text-muted-foreground line-clamp-2">{matrix.likelihood[likelihood - 1]?.label}</span>
+                        </div>
+                        {Array.from({ length: matrix.size }, (_, j) => j + 1).map(impact => {
+                          const key = matrixCellKey(likelihood, impact);
                           const cellRisks = matrixData[key] ?? [];
                           const score = likelihood * impact;
+                          const cellLevel = getRiskLevel(score, { likelihood, impact }).label;
+                          const overridden = !!matrix.cellColors[key];
                           const riskCountLabel = cellRisks.length === 1 ? strings.analysis.riskLabel : strings.analysis.risksLabel;
                           const ariaLabel = `${strings.analysis.likelihoodAxis}: ${likelihood}. ${strings.analysis.impactAxis}: ${impact}. ${cellRisks.length} ${riskCountLabel}.`;
                           return (
@@ -102,13 +101,19 @@ const RiskMatrixPage: React.FC = () => {
                               className={cn(
                                 'relative aspect-square min-w-[64px] border-2 rounded-lg p-2 transition-all focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 focus-visible:ring-offset-background',
                                 cellRisks.length > 0 ? 'cursor-pointer' : 'opacity-70 cursor-default',
-                                cellClassForScore(score, thresholds)
+                                cellClassForLevel(cellLevel)
                               )}
                               onClick={() => onCellClick(likelihood, impact)}
                               disabled={cellRisks.length === 0}
                               type="button"
                               aria-label={ariaLabel}
                             >
+                              {overridden && (
+                                <span
+                                  className="absolute top-1 end-1 h-1.5 w-1.5 rounded-full bg-foreground/60"
+                                  aria-hidden="true"
+                                />
+                              )}
                               {cellRisks.length > 0 && (
                                 <div className="absolute inset-0 flex items-center justify-center">
                                   <div className="text-center">
@@ -129,6 +134,17 @@ const RiskMatrixPage: React.FC = () => {
                         })}
                       </div>
                     ))}
+                    <div />
+                    {matrix.impact.map((level, index) => (
+                      <div
+                        key={index}
+                        className="px-1 pt-1 text-center text-xs"
+                        title={level.criteria || undefined}
+                      >
+                        <div className="font-semibold">{index + 1}</div>
+                        <div className="text-muted-foreground line-clamp-2">{level.label}</div>
+                      </div>
+                    ))}
                   </div>
                 </div>
               </div>
@@ -159,6 +175,12 @@ const RiskMatrixPage: React.FC = () => {
                   <div className="w-4 h-4 rounded bg-status-low/20 border-2 border-status-low" />
                   <span className="text-sm">{strings.analysis.legendLow} (≤{thresholds.low})</span>
                 </div>
+                {Object.keys(matrix.cellColors).length > 0 && (
+                  <div className="flex items-center gap-2">
+                    <span className="h-1.5 w-1.5 rounded-full bg-foreground/60" />
+                    <span className="text-sm">{strings.analysis.legendOverride}</span>
+                  </div>
+                )}
               </div>
 
               <div className={cn('mt-4 text-xs text-muted-foreground', isRTL ? 'text-right' : 'text-left')}>
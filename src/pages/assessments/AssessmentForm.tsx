@@ -4,14 +4,30 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Textarea } from '@/components/ui/textarea';
 import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { ArrowLeft, Loader2, Save } from 'lucide-react';
 import { assessmentApi, riskApi } from '@/api';
+import {
+  useCreateAssessment,
+  useImpactScoring,
+  useRiskControls,
+  useRiskMatrix,
+} from '@/hooks/queries';
 import { useToast } from '@/hooks/use-toast';
-import { getRiskLevel } from '@/utils/constants';
+import { getControlEffectiveness, getRiskLevel } from '@/utils/constants';
+import { formatScaleLevel, type RiskMatrixScaleLevel } from '@/utils/riskMatrix';
+import {
+  IMPACT_DIMENSIONS,
+  buildImpactBreakdown,
+  type ImpactDimensionKey,
+} from '@/utils/impactScoring';
 import { useAuth } from '@/auth/authContext';
 import { StatusBadge } from '@/components/common/StatusBadge';
+import { AssessmentApprovalBadge } from '@/components/risks';
+import { ControlEffectivenessBadge } from '@/components/controls';
 import {
   Select,
   SelectContent,
@@ -40,13 +56,22 @@ const AssessmentForm: React.FC = () => {
     (strings.risks.statuses as Record<string, string> | undefined)?.[status] ?? status;
 
   const today = useMemo(() => new Date().toISOString().slice(0, 10), []);
+  const matrix = useRiskMatrix();
+  const impactScoring = useImpactScoring();
 
   const [likelihood, setLikelihood] = useState<number>(3);
   const [impact, setImpact] = useState<number>(3);
+  const [scoreByDimension, setScoreByDimension] = useState(false);
+  const [dimensionScores, setDimensionScores] = useState<Record<ImpactDimensionKey, number>>(
+    () => Object.fromEntries(IMPACT_DIMENSIONS.map(key => [key, 3])) as Record<ImpactDimensionKey, number>
+  );
   const [assessor, setAssessor] = useState<string>(user?.name || user?.email || '');
   const [date, setDate] = useState<string>(new Date().toISOString().slice(0, 10));
   const [notes, setNotes] = useState<string>('');
+  const [assessmentType, setAssessmentType] = useState<'inherent' | 'residual'>('inherent');
+  const [controlIds, setControlIds] = useState<number[]>([]);
   const [isSaving, setIsSaving] = useState(false);
+  const createAssessment = useCreateAssessment();
 
   const [risks, setRisks] = useState<Risk[]>([]);
   const [isLoadingRisks, setIsLoadingRisks] = useState(false);
@@ -54,6 +79,8 @@ const AssessmentForm: React.FC = () => {
   const [selectedRisk, setSelectedRisk] = useState<Risk | null>(null);
   const [isLoadingSelectedRisk, setIsLoadingSelectedRisk] = useState(false);
 
+  const { data: riskControls = [] } = useRiskControls(riskId ?? undefined);
+
   const [recentAssessments, setRecentAssessments] = useState<Assessment[]>([]);
   const [isLoadingAssessments, setIsLoadingAssessments] = useState(false);
 
@@ -137,8 +164,37 @@ const AssessmentForm: React.FC = () => {
     void loadRecentAssessments();
   }, [riskId]);
 
-  const score = useMemo(() => likelihood * impact, [likelihood, impact]);
-  const level = useMemo(() => getRiskLevel(score).label, [score]);
+  const breakdown = useMemo(
+    () => (scoreByDimension ? buildImpactBreakdown(impactScoring, dimensionScores) : null),
+    [scoreByDimension, impactScoring, dimensionScores]
+  );
+  const overallImpact = breakdown?.overall ?? impact;
+
+  const score = useMemo(() => likelihood * overallImpact, [likelihood, overallImpact]);
+  const level = useMemo(
+    () => getRiskLevel(score, { likelihood, impact: overallImpact }).label,
+    [score, likelihood, overallImpact]
+  );
+
+  // Keep the sliders on the scale if the matrix was made smaller
+  useEffect(() => {
+    setLikelihood((value) => Math.min(value, matrix.size));
+    setImpact((value) => Math.min(value, matrix.size));
+    setDimensionScores((scores) =>
+      Object.fromEntries(
+        Object.entries(scores).map(([key, value]) => [key, Math.min(value, matrix.size)])
+      ) as Record<ImpactDimensionKey, number>
+    );
+  }, [matrix.size]);
+
+  const scaleHint = (levels: RiskMatrixScaleLevel[], value: number) => (
+    <div className="rounded-md bg-muted/50 px-3 py-2">
+      <p className="text-sm font-medium">{formatScaleLevel(levels, value)}</p>
+      {levels[value - 1]?.criteria && (
+        <p className="text-xs text-muted-foreground">{levels[value - 1].criteria}</p>
+      )}
+    </div>
+  );
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -172,18 +228,21 @@ const AssessmentForm: React.FC = () => {
 
     setIsSaving(true);
     try {
-      await assessmentApi.create({
+      await createAssessment.mutateAsync({
         riskId,
         likelihood,
-        impact,
+        impact: overallImpact,
         assessor: assessor.trim(),
         date,
         notes,
+        impactBreakdown: breakdown,
+        type: assessmentType,
+        controlIds: assessmentType === 'residual' ? controlIds : undefined,
       });
 
       toast({
         title: strings.assessments.createdTitle,
-        description: `${strings.table.score}: ${score} (${getLevelLabel(level)})`,
+        description: `${strings.table.score}: ${score} (${getLevelLabel(level)}). ${strings.assessments.submittedForReview}`,
       });
 
       navigate(`/risks/${riskId}`);
@@ -316,8 +375,17 @@ const AssessmentForm: React.FC = () => {
                                 {strings.risks.details.likelihoodLabel} {a.likelihood} • {strings.risks.details.impactLabel} {a.impact} • {strings.risks.details.scoreLabel} {a.score}
                               </p>
                             </div>
-                            <StatusBadge status={a.level}>{getLevelLabel(a.level)}</StatusBadge>
+                            <div className="flex items-center gap-2 shrink-0">
+                              <AssessmentApprovalBadge assessment={a} />
+                              <StatusBadge status={a.level}>{getLevelLabel(a.level)}</StatusBadge>
+                            </div>
                           </div>
+                          {a.approvalStatus === 'rejected' && a.rejectionReason && (
+                            <p className="text-xs mt-2">
+                              <span className="font-medium text-status-critical">{strings.assessments.reviewerFeedback}:</span>{' '}
+                              {a.rejectionReason}
+                            </p>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -348,6 +416,72 @@ const AssessmentForm: React.FC = () => {
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <Label>{strings.assessments.assessmentType}</Label>
+                <Select
+                  value={assessmentType}
+                  onValueChange={val => setAssessmentType(val as 'inherent' | 'residual')}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="inherent">{strings.assessments.typeInherent}</SelectItem>
+                    <SelectItem value="residual">{strings.assessments.typeResidual}</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  {assessmentType === 'residual'
+                    ? strings.assessments.residualHint
+                    : strings.assessments.inherentHint}
+                </p>
+              </div>
+
+              {assessmentType === 'residual' && (
+                <div className="space-y-2">
+                  <Label>{strings.assessments.supportingControls}</Label>
+                  {riskControls.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">{strings.assessments.noLinkedControls}</p>
+                  ) : (
+                    <>
+                      <p className="text-xs text-muted-foreground">
+                        {strings.assessments.supportingControlsHint}
+                      </p>
+                      <div className="space-y-2 rounded-md border border-border p-3">
+                        {riskControls.map(link => {
+                          const controlId = link.control._backendId;
+                          return (
+                            <div key={link.id} className="flex items-center justify-between gap-3">
+                              <div className="flex items-center gap-2">
+                                <Checkbox
+                                  id={`control-${controlId}`}
+                                  checked={controlIds.includes(controlId)}
+                                  onCheckedChange={checked =>
+                                    setControlIds(ids =>
+                                      checked ? [...ids, controlId] : ids.filter(id => id !== controlId)
+                                    )
+                                  }
+                                />
+                                <Label htmlFor={`control-${controlId}`} className="font-normal">
+                                  <span className="font-mono text-xs text-muted-foreground">{link.control.code}</span>{' '}
+                                  {link.control.name}
+                                </Label>
+                              </div>
+                              <ControlEffectivenessBadge
+                                rating={getControlEffectiveness(
+                                  link.designEffectiveness,
+                                  link.operatingEffectiveness
+                                )}
+                              />
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </>
+                  )}
+                </div>
+              )}
+
               <div className="space-y-6">
                 <div className="space-y-4">
                   <div className="flex items-center justify-between">
@@ -358,7 +492,7 @@ const AssessmentForm: React.FC = () => {
                     value={[likelihood]}
                     onValueChange={([val]) => setLikelihood(val)}
                     min={1}
-                    max={5}
+                    max={matrix.size}
                     step={1}
                   />
                   <div
@@ -368,33 +502,89 @@ const AssessmentForm: React.FC = () => {
                         : 'flex justify-between text-xs text-muted-foreground'
                     }
                   >
-                    <span>{strings.assessments.rare}</span>
-                    <span>{strings.assessments.almostCertain}</span>
+                    <span>{matrix.likelihood[0]?.label || strings.assessments.rare}</span>
+                    <span>
+                      {matrix.likelihood[matrix.size - 1]?.label || strings.assessments.almostCertain}
+                    </span>
                   </div>
+                  {scaleHint(matrix.likelihood, likelihood)}
                 </div>
 
                 <div className="space-y-4">
                   <div className="flex items-center justify-between">
                     <Label>{strings.assessments.impact}</Label>
-                    <span className="text-2xl font-bold text-primary">{impact}</span>
+                    <span className="text-2xl font-bold text-primary">{overallImpact}</span>
                   </div>
-                  <Slider
-                    value={[impact]}
-                    onValueChange={([val]) => setImpact(val)}
-                    min={1}
-                    max={5}
-                    step={1}
-                  />
-                  <div
-                    className={
-                      isRTL
-                        ? 'flex justify-between text-xs text-muted-foreground flex-row-reverse'
-                        : 'flex justify-between text-xs text-muted-foreground'
-                    }
-                  >
-                    <span>{strings.assessments.insignificant}</span>
-                    <span>{strings.assessments.catastrophic}</span>
+                  <div className="flex items-center justify-between gap-3 rounded-md border border-border px-3 py-2">
+                    <div>
+                      <Label htmlFor="score-by-dimension">{strings.assessments.scoreByDimension}</Label>
+                      <p className="text-xs text-muted-foreground">{strings.assessments.scoreByDimensionHint}</p>
+                    </div>
+                    <Switch
+                      id="score-by-dimension"
+                      checked={scoreByDimension}
+                      onCheckedChange={setScoreByDimension}
+                    />
                   </div>
+                  {scoreByDimension ? (
+                    <div className="space-y-4">
+                      {impactScoring.dimensions.map(dimension => {
+                        const value = dimensionScores[dimension.key];
+                        return (
+                          <div key={dimension.key} className="space-y-2">
+                            <div className="flex items-center justify-between">
+                              <Label>{strings.assessments.impactDimensions[dimension.key]}</Label>
+                              <span className="text-lg font-semibold">{value}</span>
+                            </div>
+                            <Slider
+                              value={[value]}
+                              onValueChange={([val]) =>
+                                setDimensionScores(scores => ({ ...scores, [dimension.key]: val }))
+                              }
+                              min={1}
+                              max={matrix.size}
+                              step={1}
+                            />
+                            {dimension.criteria[value - 1] && (
+                              <p className="text-xs text-muted-foreground">{dimension.criteria[value - 1]}</p>
+                            )}
+                          </div>
+                        );
+                      })}
+                      <div className="rounded-md bg-muted/50 px-3 py-2">
+                        <p className="text-sm font-medium">
+                          {strings.assessments.overallImpact}: {formatScaleLevel(matrix.impact, overallImpact)}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {strings.assessments.impactRules[impactScoring.rule]} —{' '}
+                          {strings.assessments.impactRuleHints[impactScoring.rule]}
+                        </p>
+                      </div>
+                    </div>
+                  ) : (
+                    <>
+                      <Slider
+                        value={[impact]}
+                        onValueChange={([val]) => setImpact(val)}
+                        min={1}
+                        max={matrix.size}
+                        step={1}
+                      />
+                      <div
+                        className={
+                          isRTL
+                            ? 'flex justify-between text-xs text-muted-foreground flex-row-reverse'
+                            : 'flex justify-between text-xs text-muted-foreground'
+                        }
+                      >
+                        <span>{matrix.impact[0]?.label || strings.assessments.insignificant}</span>
+                        <span>
+                          {matrix.impact[matrix.size - 1]?.label || strings.assessments.catastrophic}
+                        </span>
+                      </div>
+                      {scaleHint(matrix.impact, impact)}
+                    </>
+                  )}
                 </div>
               </div>
 
@@ -404,7 +594,7 @@ const AssessmentForm: React.FC = () => {
                   <p className="text-xs text-muted-foreground">{strings.assessments.likelihood}</p>
                 </div>
                 <div className="p-4 rounded-lg bg-muted/50 text-center">
-                  <p className="text-2xl font-bold">{impact}</p>
+                  <p className="text-2xl font-bold">{overallImpact}</p>
                   <p className="text-xs text-muted-foreground">{strings.assessments.impact}</p>
                 </div>
                 <div className="p-4 rounded-lg bg-primary/10 text-center">
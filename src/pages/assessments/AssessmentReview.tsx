@@ -0,0 +1,420 @@
+/**
+ * AssessmentReview - Reviewer queue for submitted assessments.
+ *
+ * Each pending assessment is shown next to the risk's other assessment
+ * type, so the reviewer can judge an inherent or residual score against
+ * its counterpart before approving or returning it.
+ */
+import React, { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { PageLoader } from "@/components/common/Loader";
+import { EmptyState } from "@/components/common/EmptyState";
+import { StatusBadge } from "@/components/common/StatusBadge";
+import { AssessmentApprovalBadge } from "@/components/risks";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/auth/authContext";
+import { extractNumericId } from "@/api";
+import {
+  useApproveAssessment,
+  useAssessments,
+  useRejectAssessment,
+} from "@/hooks/queries";
+import type { Assessment } from "@/types";
+import { useI18n } from "@/i18n";
+import { cn } from "@/lib/utils";
+import {
+  AlertTriangle,
+  ArrowRight,
+  Check,
+  ClipboardCheck,
+  ExternalLink,
+  Loader2,
+  X,
+} from "lucide-react";
+
+type AssessmentType = "inherent" | "residual";
+
+const typeOf = (assessment: Assessment): AssessmentType =>
+  assessment._type === "residual" ? "residual" : "inherent";
+
+/**
+ * The assessment a pending one is compared against: the latest approved
+ * assessment of the other type, or the latest of any state if none is
+ * approved yet.
+ */
+const findCounterpart = (
+  pending: Assessment,
+  all: Assessment[]
+): Assessment | null => {
+  const wanted: AssessmentType =
+    typeOf(pending) === "inherent" ? "residual" : "inherent";
+  const candidates = all
+    .filter(
+      (a) =>
+        a.riskId === pending.riskId && a.id !== pending.id && typeOf(a) === wanted
+    )
+    .sort((a, b) => b.date.localeCompare(a.date));
+  return (
+    candidates.find((a) => a.approvalStatus === "approved") ??
+    candidates[0] ??
+    null
+  );
+};
+
+const AssessmentReview: React.FC = () => {
+  const { toast } = useToast();
+  const { strings, isRTL } = useI18n();
+  const t = strings.assessments.review;
+  const { user } = useAuth();
+  const userId = user ? (user._backendId ?? extractNumericId(user.id)) : null;
+
+  const pendingQuery = useAssessments({ status: "pending" });
+  const allQuery = useAssessments();
+  const approveAssessment = useApproveAssessment();
+  const rejectAssessment = useRejectAssessment();
+
+  const [rejecting, setRejecting] = useState<Assessment | null>(null);
+  const [reason, setReason] = useState("");
+  const [reasonTouched, setReasonTouched] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const pending = useMemo(
+    () =>
+      [...(pendingQuery.data ?? [])].sort((a, b) =>
+        a.date.localeCompare(b.date)
+      ),
+    [pendingQuery.data]
+  );
+  const all = allQuery.data ?? [];
+
+  const getLevelLabel = (level: string) =>
+    (strings.risks.levels as Record<string, string> | undefined)?.[level] ??
+    level;
+  const typeLabel = (type: AssessmentType) =>
+    type === "residual"
+      ? strings.assessments.typeResidual
+      : strings.assessments.typeInherent;
+  const formatDate = (date: string) =>
+    new Date(date).toLocaleDateString(isRTL ? "ar-SA" : "en-US");
+
+  const approve = async (assessment: Assessment) => {
+    setBusyId(assessment.id);
+    try {
+      await approveAssessment.mutateAsync(assessment);
+      toast({
+        title: t.approvedTitle,
+        description: `${assessment.riskId} • ${typeLabel(typeOf(assessment))}`,
+      });
+    } catch (error) {
+      toast({
+        title: t.actionFailedTitle,
+        description:
+          error instanceof Error ? error.message : strings.common.pleaseTryAgain,
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const openReject = (assessment: Assessment) => {
+    setRejecting(assessment);
+    setReason("");
+    setReasonTouched(false);
+  };
+
+  const confirmReject = async () => {
+    if (!rejecting) return;
+    setReasonTouched(true);
+    if (!reason.trim()) return;
+    setBusyId(rejecting.id);
+    try {
+      await rejectAssessment.mutateAsync({
+        assessment: rejecting,
+        reason: reason.trim(),
+      });
+      toast({
+        title: t.rejectedTitle,
+        description: `${rejecting.riskId} • ${typeLabel(typeOf(rejecting))}`,
+      });
+      setRejecting(null);
+    } catch (error) {
+      toast({
+        title: t.actionFailedTitle,
+        description:
+          error instanceof Error ? error.message : strings.common.pleaseTryAgain,
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (pendingQuery.isLoading) {
+    return <PageLoader text={strings.common.loading} />;
+  }
+
+  const renderScore = (
+    assessment: Assessment | null,
+    type: AssessmentType,
+    isPending: boolean
+  ) => (
+    <div
+      className={cn(
+        "p-4 rounded-lg border",
+        isPending
+          ? "border-status-warning/40 bg-status-warning/5"
+          : "border-border bg-muted/30"
+      )}
+    >
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <span className="text-sm font-medium">{typeLabel(type)}</span>
+        {assessment &&
+          (isPending ? (
+            <Badge variant="outline">{t.underReview}</Badge>
+          ) : (
+            <AssessmentApprovalBadge assessment={assessment} />
+          ))}
+      </div>
+      {assessment ? (
+        <>
+          <div className="flex items-end gap-3">
+            <span className="text-3xl font-bold">{assessment.score}</span>
+            <StatusBadge status={assessment.level}>
+              {getLevelLabel(assessment.level)}
+            </StatusBadge>
+          </div>
+          <p className="text-xs text-muted-foreground mt-2">
+            {strings.risks.details.likelihoodLabel} {assessment.likelihood} •{" "}
+            {strings.risks.details.impactLabel} {assessment.impact}
+          </p>
+          {!isPending && (
+            <p className="text-xs text-muted-foreground mt-1">
+              {t.current} • {formatDate(assessment.date)}
+            </p>
+          )}
+        </>
+      ) : (
+        <p className="text-sm text-muted-foreground">{t.notAssessed}</p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6 animate-in">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">{t.title}</h1>
+          <p className="text-muted-foreground">{t.subtitle}</p>
+        </div>
+        <Badge variant="secondary" className="self-start sm:self-auto">
+          {t.pendingCount.replace("{count}", String(pending.length))}
+        </Badge>
+      </div>
+
+      {pendingQuery.isError ? (
+        <EmptyState
+          icon={AlertTriangle}
+          title={t.loadFailedTitle}
+          description={strings.common.pleaseTryAgain}
+        />
+      ) : pending.length === 0 ? (
+        <EmptyState
+          icon={ClipboardCheck}
+          title={t.emptyTitle}
+          description={t.emptyDesc}
+        />
+      ) : (
+        <div className="space-y-4">
+          {pending.map((assessment) => {
+            const type = typeOf(assessment);
+            const counterpart = findCounterpart(assessment, all);
+            const inherent = type === "inherent" ? assessment : counterpart;
+            const residual = type === "residual" ? assessment : counterpart;
+            const reduction =
+              inherent && residual ? inherent.score - residual.score : null;
+            const busy = busyId === assessment.id;
+
+            return (
+              <Card key={assessment.id} className="glass-card">
+                <CardHeader className="pb-3">
+                  <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="font-mono text-sm text-muted-foreground">
+                          {assessment.riskId}
+                        </span>
+                        <span className="font-semibold truncate">
+                          {assessment.riskTitle ?? assessment.riskId}
+                        </span>
+                        <Badge variant="outline">{typeLabel(type)}</Badge>
+                      </div>
+                      <p className="text-sm text-muted-foreground mt-1">
+                        {t.submittedBy
+                          .replace("{name}", assessment.assessor)
+                          .replace("{date}", formatDate(assessment.date))}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Button variant="ghost" size="sm" asChild>
+                        <Link to={`/risks/${assessment.riskId}`}>
+                          <ExternalLink className="h-4 w-4 me-2" />
+                          {t.openRisk}
+                        </Link>
+                      </Button>
+                      {assessment._assessorId === userId ? (
+                        <span className="text-xs text-muted-foreground">
+                          {t.ownAssessment}
+                        </span>
+                      ) : (
+                        <>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={busy}
+                            onClick={() => openReject(assessment)}
+                          >
+                            <X className="h-4 w-4 me-2" />
+                            {t.reject}
+                          </Button>
+                          <Button
+                            size="sm"
+                            disabled={busy}
+                            onClick={() => void approve(assessment)}
+                          >
+                            {busy && approveAssessment.isPending ? (
+                              <Loader2 className="h-4 w-4 me-2 animate-spin" />
+                            ) : (
+                              <Check className="h-4 w-4 me-2" />
+                            )}
+                            {t.approve}
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_1fr] items-center gap-3">
+                    {renderScore(inherent, "inherent", type === "inherent")}
+                    <ArrowRight
+                      className={cn(
+                        "h-5 w-5 text-muted-foreground mx-auto hidden md:block",
+                        isRTL && "rotate-180"
+                      )}
+                    />
+                    {renderScore(residual, "residual", type === "residual")}
+                  </div>
+
+                  {reduction !== null && (
+                    <div
+                      className={cn(
+                        "flex items-center gap-2 text-sm",
+                        reduction < 0 ? "text-status-critical" : "text-muted-foreground"
+                      )}
+                    >
+                      {reduction < 0 ? (
+                        <>
+                          <AlertTriangle className="h-4 w-4" />
+                          {t.residualAboveInherent}
+                        </>
+                      ) : (
+                        <>
+                          <span>{t.reduction}:</span>
+                          <span className="font-medium text-foreground">
+                            {t.reductionValue
+                              .replace("{points}", String(reduction))
+                              .replace(
+                                "{percent}",
+                                String(
+                                  inherent.score > 0
+                                    ? Math.round((reduction / inherent.score) * 100)
+                                    : 0
+                                )
+                              )}
+                          </span>
+                        </>
+                      )}
+                    </div>
+                  )}
+
+                  {assessment.notes && (
+                    <div className="text-sm">
+                      <p className="text-muted-foreground mb-1">
+                        {t.assessorNotes}
+                      </p>
+                      <p className="whitespace-pre-wrap">{assessment.notes}</p>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog
+        open={!!rejecting}
+        onOpenChange={(open) => {
+          if (!open && !rejectAssessment.isPending) setRejecting(null);
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t.rejectTitle}</DialogTitle>
+            <DialogDescription>{t.rejectDesc}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="rejection-reason">{t.reasonLabel}</Label>
+            <Textarea
+              id="rejection-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              onBlur={() => setReasonTouched(true)}
+              placeholder={t.reasonPlaceholder}
+              rows={4}
+              aria-invalid={reasonTouched && !reason.trim()}
+            />
+            {reasonTouched && !reason.trim() && (
+              <p className="text-sm text-destructive">{t.reasonRequired}</p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setRejecting(null)}
+              disabled={rejectAssessment.isPending}
+            >
+              {strings.actions.cancel}
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => void confirmReject()}
+              disabled={rejectAssessment.isPending || !reason.trim()}
+            >
+              {rejectAssessment.isPending && (
+                <Loader2 className="h-4 w-4 me-2 animate-spin" />
+              )}
+              {t.reject}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AssessmentReview;
@@ -1,4 +1,5 @@
 import React, { useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -30,11 +31,12 @@ import {
 } from '@/components/ui/dialog';
 import { StatusBadge } from '@/components/common/StatusBadge';
 import { PageLoader } from '@/components/common/Loader';
+import { ServiceRisksDialog } from '@/components/bcp';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/auth/authContext';
 import { bcpApi } from '@/api';
 import type { BCPService } from '@/types';
-import { Plus, Pencil, Trash2, Loader2, Clock, User, Boxes } from 'lucide-react';
+import { Plus, Pencil, Trash2, Loader2, Clock, User, Boxes, Network } from 'lucide-react';
 import { useI18n } from '@/i18n';
 import { cn } from '@/lib/utils';
 
@@ -67,6 +69,17 @@ const BCPServices: React.FC = () => {
 
   const [toDelete, setToDelete] = useState<BCPService | null>(null);
 
+  // ?service=SVC-001 opens that service's impacted risks (from the risk graph)
+  const [searchParams, setSearchParams] = useSearchParams();
+  const impactedService = services.find(s => s.id === searchParams.get('service')) ?? null;
+
+  const openImpactedRisks = (svc: BCPService | null) => {
+    const next = new URLSearchParams(searchParams);
+    if (svc) next.set('service', svc.id);
+    else next.delete('service');
+    setSearchParams(next, { replace: true });
+  };
+
   const refresh = async () => {
     const data = await bcpApi.getServices();
     setServices(data);
@@ -309,9 +322,15 @@ const BCPServices: React.FC = () => {
                   </div>
                 </div>
 
-                <Button variant="secondary" className="w-full mt-6" onClick={() => openView(svc)}>
-                  {strings.bcp.viewDetails}
-                </Button>
+                <div className="mt-6 grid grid-cols-2 gap-2">
+                  <Button variant="secondary" onClick={() => openView(svc)}>
+                    {strings.bcp.viewDetails}
+                  </Button>
+                  <Button variant="outline" onClick={() => openImpactedRisks(svc)}>
+                    <Network className={isRTL ? 'ml-2 h-4 w-4' : 'mr-2 h-4 w-4'} />
+                    {strings.riskRelationships.impactedRisks}
+                  </Button>
+                </div>
               </CardContent>
             </Card>
           ))}
@@ -424,6 +443,11 @@ const BCPServices: React.FC = () => {
         </DialogContent>
       </Dialog>
 
+      <ServiceRisksDialog
+        service={impactedService}
+        onOpenChange={open => (!open ? openImpactedRisks(null) : undefined)}
+      />
+
       <AlertDialog open={!!toDelete} onOpenChange={(open) => (!open ? setToDelete(null) : undefined)}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -37,8 +37,15 @@ import { Badge } from "@/components/ui/badge";
 import { PageLoader } from "@/components/common/Loader";
 import { useToast } from "@/hooks/use-toast";
 import { useI18n } from "@/i18n";
-import { riskApi, committeeApi } from "@/api";
-import type { Risk, CommitteeMeeting, CommitteeEscalation } from "@/types";
+import {
+  useRisks,
+  useCommitteeMeetings,
+  useCommitteeEscalations,
+  useCreateMeeting,
+  useDeleteMeeting,
+  useCreateEscalation,
+  useDeleteEscalation,
+} from "@/hooks/queries";
 import { useAuth } from "@/auth/authContext";
 import { Plus, Trash2, Calendar, Users, AlertTriangle, FileText } from "lucide-react";
 
@@ -73,12 +80,28 @@ const CommitteeGovernance: React.FC = () => {
   const canManage = user?.role === "Admin" || user?.role === "Data Entry";
 
   // Data state
-  const [loading, setLoading] = React.useState(true);
-  const [criticalRisks, setCriticalRisks] = React.useState<Risk[]>([]);
-  const [meetings, setMeetings] = React.useState<CommitteeMeeting[]>([]);
-  const [escalations, setEscalations] = React.useState<CommitteeEscalation[]>(
-    []
+  const risksQuery = useRisks();
+  const meetingsQuery = useCommitteeMeetings();
+  const escalationsQuery = useCommitteeEscalations();
+  const createMeeting = useCreateMeeting();
+  const deleteMeeting = useDeleteMeeting();
+  const createEscalation = useCreateEscalation();
+  const deleteEscalation = useDeleteEscalation();
+
+  const loading =
+    risksQuery.isLoading ||
+    meetingsQuery.isLoading ||
+    escalationsQuery.isLoading;
+  const loadError =
+    risksQuery.error || meetingsQuery.error || escalationsQuery.error;
+  // All risks for escalation select
+  const allRisks = React.useMemo(() => risksQuery.data ?? [], [risksQuery.data]);
+  const criticalRisks = React.useMemo(
+    () => allRisks.filter((r) => r.level === "Critical" || r.level === "High"),
+    [allRisks]
   );
+  const meetings = meetingsQuery.data ?? [];
+  const escalations = escalationsQuery.data ?? [];
 
   // Meeting Dialog state
   const [meetingDialogOpen, setMeetingDialogOpen] = React.useState(false);
@@ -101,44 +124,18 @@ const CommitteeGovernance: React.FC = () => {
   });
   const [escalationSubmitting, setEscalationSubmitting] = React.useState(false);
 
-  // All risks for escalation select
-  const [allRisks, setAllRisks] = React.useState<Risk[]>([]);
-
   /* =======================
-     Load Data
+     Load Errors
   ======================= */
-  const loadData = React.useCallback(async () => {
-    setLoading(true);
-    try {
-      const [risksData, meetingsData, escalationsData] = await Promise.all([
-        riskApi.getAll(),
-        committeeApi.getMeetings(),
-        committeeApi.getEscalations(),
-      ]);
-      console.log("Loaded risks:", risksData);
-      setAllRisks(risksData || []);
-      setCriticalRisks(
-        (risksData || []).filter(
-          (r) => r.level === "Critical" || r.level === "High"
-        )
-      );
-      setMeetings(meetingsData || []);
-      setEscalations(escalationsData || []);
-    } catch (error) {
-      console.error("Error loading data:", error);
-      toast({
-        title: strings.committee.loadErrorTitle,
-        description: strings.common.pleaseTryAgain,
-        variant: "destructive",
-      });
-    } finally {
-      setLoading(false);
-    }
-  }, [strings, toast]);
-
   React.useEffect(() => {
-    loadData();
-  }, [loadData]);
+    if (!loadError) return;
+    console.error("Error loading data:", loadError);
+    toast({
+      title: strings.committee.loadErrorTitle,
+      description: strings.common.pleaseTryAgain,
+      variant: "destructive",
+    });
+  }, [loadError, strings, toast]);
 
   /* =======================
      Meeting Handlers
@@ -164,7 +161,7 @@ const CommitteeGovernance: React.FC = () => {
 
     setMeetingSubmitting(true);
     try {
-      await committeeApi.createMeeting({
+      await createMeeting.mutateAsync({
         date: new Date(meetingForm.date).toISOString(),
         topic: meetingForm.topic.trim(),
         notes: meetingForm.notes.trim(),
@@ -176,7 +173,6 @@ const CommitteeGovernance: React.FC = () => {
       });
       setMeetingDialogOpen(false);
       resetMeetingForm();
-      await loadData();
     } catch (error) {
       const err = error as Error;
       toast({
@@ -192,12 +188,11 @@ const CommitteeGovernance: React.FC = () => {
   const handleDeleteMeeting = async (id: number) => {
     if (!window.confirm(strings.committee.deleteMeetingConfirm)) return;
     try {
-      await committeeApi.deleteMeeting(id);
+      await deleteMeeting.mutateAsync(id);
       toast({
         title: strings.committee.deletedTitle,
         description: strings.committee.deletedMeetingDesc,
       });
-      await loadData();
     } catch (error) {
       toast({
         title: strings.committee.deleteFailedTitle,
@@ -259,7 +254,7 @@ const CommitteeGovernance: React.FC = () => {
       };
       console.log("Creating escalation with data:", escalationData);
 
-      const result = await committeeApi.createEscalation(escalationData);
+      const result = await createEscalation.mutateAsync(escalationData);
       console.log("Escalation created:", result);
 
       toast({
@@ -268,7 +263,6 @@ const CommitteeGovernance: React.FC = () => {
       });
       setEscalationDialogOpen(false);
       resetEscalationForm();
-      await loadData();
     } catch (error) {
       console.error("Error creating escalation:", error);
       const err = error as Error;
@@ -285,12 +279,11 @@ const CommitteeGovernance: React.FC = () => {
   const handleDeleteEscalation = async (id: number) => {
     if (!window.confirm(strings.committee.deleteEscalationConfirm)) return;
     try {
-      await committeeApi.deleteEscalation(id);
+      await deleteEscalation.mutateAsync(id);
       toast({
         title: strings.committee.deletedTitle,
         description: strings.committee.deletedEscalationDesc,
       });
-      await loadData();
     } catch (error) {
       toast({
         title: strings.committee.deleteFailedTitle,
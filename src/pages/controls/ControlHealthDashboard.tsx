@@ -0,0 +1,384 @@
+/**
+ * ControlHealthDashboard - Test coverage and performance of the control library.
+ *
+ * Built from the control library and the recorded control tests: how many
+ * controls are on a test plan, how many tests are overdue, and how the
+ * latest results are trending.
+ */
+import React, { useMemo } from "react";
+import { Link } from "react-router-dom";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { PageLoader } from "@/components/common/Loader";
+import { ControlEffectivenessBadge } from "@/components/controls";
+import { useControls, useControlTests } from "@/hooks/queries";
+import {
+  BACKEND_CONTROL_TEST_RESULTS,
+  getControlTestStatus,
+} from "@/utils/constants";
+import { useI18n } from "@/i18n";
+import { cn } from "@/lib/utils";
+import {
+  AlertTriangle,
+  ArrowRight,
+  CalendarClock,
+  ShieldCheck,
+  ShieldX,
+} from "lucide-react";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+  PieChart,
+  Pie,
+  Cell,
+} from "recharts";
+
+type ResultKey = (typeof BACKEND_CONTROL_TEST_RESULTS)[number] | "not_assessed";
+
+const RESULT_COLORS: Record<ResultKey, string> = {
+  effective: "hsl(var(--status-success))",
+  partially_effective: "hsl(var(--status-warning))",
+  ineffective: "hsl(var(--status-critical))",
+  not_assessed: "hsl(var(--muted-foreground))",
+};
+
+const tooltipStyle = {
+  backgroundColor: "hsl(var(--card))",
+  border: "1px solid hsl(var(--border))",
+  borderRadius: "8px",
+};
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000));
+
+const ControlHealthDashboard: React.FC = () => {
+  const { strings, isRTL, language } = useI18n();
+  const t = strings.controlHealth;
+  const tc = strings.controlsPage;
+  const tt = strings.controlTestsPage;
+
+  const controlsQuery = useControls();
+  const testsQuery = useControlTests();
+  const today = useMemo(() => new Date().toISOString().slice(0, 10), []);
+
+  const active = useMemo(
+    () => (controlsQuery.data ?? []).filter((c) => c.isActive !== false),
+    [controlsQuery.data]
+  );
+  const tests = useMemo(() => testsQuery.data ?? [], [testsQuery.data]);
+
+  const scheduled = active.filter((c) => c.testFrequency);
+  const overdue = scheduled
+    .filter((c) => getControlTestStatus(c.nextTestDue, today) === "overdue")
+    .sort((a, b) => (a.nextTestDue ?? "").localeCompare(b.nextTestDue ?? ""));
+  const attention = active
+    .filter(
+      (c) =>
+        c.lastTestResult === "ineffective" ||
+        c.lastTestResult === "partially_effective"
+    )
+    .sort(
+      (a, b) =>
+        BACKEND_CONTROL_TEST_RESULTS.indexOf(b.lastTestResult) -
+        BACKEND_CONTROL_TEST_RESULTS.indexOf(a.lastTestResult)
+    );
+  const failing = attention.filter((c) => c.lastTestResult === "ineffective");
+
+  const latestResults = (
+    [...BACKEND_CONTROL_TEST_RESULTS, "not_assessed"] as ResultKey[]
+  )
+    .map((key) => ({
+      key,
+      label: key === "not_assessed" ? tt.notTested : tc.effectiveness[key],
+      count: active.filter((c) => (c.lastTestResult ?? "not_assessed") === key)
+        .length,
+    }))
+    .filter((d) => d.count > 0);
+
+  const testsByMonth = useMemo(() => {
+    const locale = language === "ar" ? "ar" : "en";
+    const start = new Date();
+    start.setDate(1);
+    return Array.from({ length: 12 }, (_, i) => {
+      const month = new Date(start.getFullYear(), start.getMonth() - 11 + i, 1);
+      const key = `${month.getFullYear()}-${String(month.getMonth() + 1).padStart(2, "0")}`;
+      const inMonth = tests.filter((test) => test.testedAt.startsWith(key));
+      return {
+        label: month.toLocaleDateString(locale, { month: "short" }),
+        ...Object.fromEntries(
+          BACKEND_CONTROL_TEST_RESULTS.map((result) => [
+            result,
+            inMonth.filter((test) => test.result === result).length,
+          ])
+        ),
+      };
+    });
+  }, [tests, language]);
+
+  if (controlsQuery.isLoading || testsQuery.isLoading) {
+    return <PageLoader text={strings.common.loading} />;
+  }
+
+  const coverage = active.length
+    ? Math.round((scheduled.length / active.length) * 100)
+    : 0;
+  const onSchedule = scheduled.length
+    ? Math.round(((scheduled.length - overdue.length) / scheduled.length) * 100)
+    : 0;
+
+  const arrowClass = cn("h-4 w-4", isRTL ? "mr-2 rotate-180" : "ml-2");
+
+  return (
+    <div className="space-y-6 animate-in">
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">{t.title}</h1>
+          <p className="text-sm text-muted-foreground">{t.subtitle}</p>
+        </div>
+        <Button asChild variant="outline">
+          <Link to="/controls/tests">
+            {t.openTesting}
+            <ArrowRight className={arrowClass} />
+          </Link>
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        <Card className="glass-card">
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-muted-foreground">{t.activeControls}</p>
+                <p className="text-3xl font-bold mt-1">{active.length}</p>
+              </div>
+              <div className="w-12 h-12 rounded-xl bg-primary/10 flex items-center justify-center">
+                <ShieldCheck className="h-6 w-6 text-primary" />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="glass-card">
+          <CardContent className="p-6">
+            <p className="text-sm text-muted-foreground">{t.testCoverage}</p>
+            <p className="text-3xl font-bold mt-1">{coverage}%</p>
+            <p className="mt-4 text-sm text-muted-foreground">
+              {t.testCoverageHint
+                .replace("{scheduled}", String(scheduled.length))
+                .replace("{total}", String(active.length))}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card
+          className={cn(
+            "glass-card",
+            overdue.length > 0 && "border-status-warning/30"
+          )}
+        >
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-muted-foreground">{t.onSchedule}</p>
+                <p className="text-3xl font-bold mt-1">{onSchedule}%</p>
+              </div>
+              <div className="w-12 h-12 rounded-xl bg-status-warning/10 flex items-center justify-center">
+                <CalendarClock className="h-6 w-6 text-status-warning" />
+              </div>
+            </div>
+            <p
+              className={cn(
+                "mt-4 text-sm",
+                overdue.length > 0 ? "text-status-warning" : "text-muted-foreground"
+              )}
+            >
+              {t.onScheduleHint.replace("{overdue}", String(overdue.length))}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card
+          className={cn(
+            "glass-card",
+            failing.length > 0 && "border-status-critical/30"
+          )}
+        >
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-muted-foreground">{t.failingControls}</p>
+                <p
+                  className={cn(
+                    "text-3xl font-bold mt-1",
+                    failing.length > 0 && "text-status-critical"
+                  )}
+                >
+                  {failing.length}
+                </p>
+              </div>
+              <div className="w-12 h-12 rounded-xl bg-status-critical/10 flex items-center justify-center">
+                <ShieldX className="h-6 w-6 text-status-critical" />
+              </div>
+            </div>
+            <p className="mt-4 text-sm text-muted-foreground">
+              {t.failingControlsHint}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card className="glass-card">
+          <CardHeader>
+            <CardTitle className="text-base">{t.latestResultsTitle}</CardTitle>
+            <CardDescription>{t.latestResultsDesc}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {latestResults.length === 0 ? (
+              <p className="text-sm text-muted-foreground">{t.noData}</p>
+            ) : (
+              <div className="h-[300px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <PieChart>
+                    <Pie
+                      data={latestResults}
+                      dataKey="count"
+                      nameKey="label"
+                      innerRadius={60}
+                      outerRadius={100}
+                      paddingAngle={2}
+                    >
+                      {latestResults.map((d) => (
+                        <Cell key={d.key} fill={RESULT_COLORS[d.key]} />
+                      ))}
+                    </Pie>
+                    <Tooltip contentStyle={tooltipStyle} />
+                    <Legend />
+                  </PieChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="glass-card">
+          <CardHeader>
+            <CardTitle className="text-base">{t.testsByMonthTitle}</CardTitle>
+            <CardDescription>{t.testsByMonthDesc}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {tests.length === 0 ? (
+              <p className="text-sm text-muted-foreground">{t.noData}</p>
+            ) : (
+              <div className="h-[300px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={testsByMonth}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                    <XAxis dataKey="label" stroke="hsl(var(--muted-foreground))" fontSize={12} />
+                    <YAxis
+                      stroke="hsl(var(--muted-foreground))"
+                      fontSize={12}
+                      allowDecimals={false}
+                    />
+                    <Tooltip contentStyle={tooltipStyle} />
+                    <Legend />
+                    {BACKEND_CONTROL_TEST_RESULTS.map((result) => (
+                      <Bar
+                        key={result}
+                        dataKey={result}
+                        name={tc.effectiveness[result]}
+                        stackId="results"
+                        fill={RESULT_COLORS[result]}
+                      />
+                    ))}
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card className="glass-card">
+          <CardHeader>
+            <CardTitle className="text-base">{t.overdueTitle}</CardTitle>
+            <CardDescription>{t.overdueDesc}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {overdue.length === 0 ? (
+              <p className="text-sm text-muted-foreground">{t.noOverdue}</p>
+            ) : (
+              overdue.map((control) => (
+                <div
+                  key={control.id}
+                  className="flex items-center justify-between gap-3 p-3 rounded-lg border border-border bg-muted/20"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {control.code} {control.name}
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {control.nextTestDue}
+                      {control.tester && ` • ${control.tester}`}
+                    </p>
+                  </div>
+                  <span className="flex items-center gap-1 text-xs font-medium text-status-warning whitespace-nowrap">
+                    <AlertTriangle className="h-3.5 w-3.5" />
+                    {tt.daysOverdue.replace(
+                      "{days}",
+                      String(daysBetween(control.nextTestDue, today))
+                    )}
+                  </span>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="glass-card">
+          <CardHeader>
+            <CardTitle className="text-base">{t.attentionTitle}</CardTitle>
+            <CardDescription>{t.attentionDesc}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {attention.length === 0 ? (
+              <p className="text-sm text-muted-foreground">{t.noAttention}</p>
+            ) : (
+              attention.map((control) => (
+                <div
+                  key={control.id}
+                  className="flex items-center justify-between gap-3 p-3 rounded-lg border border-border bg-muted/20"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {control.code} {control.name}
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {control.lastTestedAt} • {tc.types[control.type]}
+                    </p>
+                  </div>
+                  <ControlEffectivenessBadge rating={control.lastTestResult} />
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default ControlHealthDashboard;
@@ -0,0 +1,840 @@
+/**
+ * ControlLibrary - Control library management page.
+ *
+ * Create, edit and retire controls, and see which risks each control is
+ * linked to together with its effectiveness rating on every risk.
+ */
+import React, { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { PageLoader } from "@/components/common/Loader";
+import { ControlEffectivenessBadge } from "@/components/controls";
+import { useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { queryKeys } from "@/hooks/queries";
+import { useAuth } from "@/auth/authContext";
+import { controlApi, userApi, extractNumericId } from "@/api";
+import type { ControlInput } from "@/api/controlApi";
+import type { Control, RiskControl, User } from "@/types";
+import type {
+  BackendControlAutomation,
+  BackendControlFrequency,
+  BackendControlTestFrequency,
+  BackendControlType,
+} from "@/types/backend";
+import {
+  BACKEND_CONTROL_AUTOMATIONS,
+  BACKEND_CONTROL_FREQUENCIES,
+  BACKEND_CONTROL_TEST_FREQUENCIES,
+  BACKEND_CONTROL_TYPES,
+  getControlEffectiveness,
+} from "@/utils/constants";
+import { useI18n } from "@/i18n";
+import { cn } from "@/lib/utils";
+import {
+  Plus,
+  Pencil,
+  Archive,
+  ArchiveRestore,
+  RefreshCw,
+  Link2,
+  Loader2,
+} from "lucide-react";
+
+// ===========================================
+// Helper Functions
+// ===========================================
+
+type ActiveFilter = "active" | "retired" | "all";
+
+const emptyDraft = (): ControlInput => ({
+  name: "",
+  description: "",
+  type: "preventive",
+  automation: "manual",
+  frequency: "monthly",
+  ownerId: undefined,
+  testFrequency: null,
+  testerId: undefined,
+  nextTestDue: "",
+});
+
+const backendId = (control: Control) =>
+  control._backendId ?? extractNumericId(control.id);
+
+// ===========================================
+// Main Component
+// ===========================================
+
+const ControlLibrary: React.FC = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { can } = useAuth();
+  const { strings, isRTL } = useI18n();
+  const t = strings.controlsPage;
+
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [controls, setControls] = useState<Control[]>([]);
+  const [owners, setOwners] = useState<User[]>([]);
+  const [search, setSearch] = useState("");
+  const [typeFilter, setTypeFilter] = useState<BackendControlType | "all">(
+    "all"
+  );
+  const [activeFilter, setActiveFilter] = useState<ActiveFilter>("active");
+
+  const [selected, setSelected] = useState<Control | null>(null);
+  const [links, setLinks] = useState<RiskControl[]>([]);
+  const [linksLoading, setLinksLoading] = useState(false);
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editing, setEditing] = useState<Control | null>(null);
+  const [draft, setDraft] = useState<ControlInput>(emptyDraft());
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [toRetire, setToRetire] = useState<Control | null>(null);
+
+  const refresh = async () => {
+    const data = await controlApi.getAll();
+    setControls(data);
+    queryClient.setQueryData(queryKeys.controls.list(), data);
+    return data;
+  };
+
+  const loadLinks = async (control: Control) => {
+    setLinksLoading(true);
+    try {
+      setLinks(await controlApi.getRisks(backendId(control)));
+    } finally {
+      setLinksLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    const run = async () => {
+      setLoading(true);
+      try {
+        await refresh();
+      } catch {
+        toast({
+          title: t.loadFailed,
+          description: strings.common.pleaseTryAgain,
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+    void run();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    const loadOwners = async () => {
+      if (!can("canEdit") && !can("canCreate")) return;
+      try {
+        setOwners(await userApi.getUsers({ perPage: 100 }));
+      } catch {
+        setOwners([]);
+      }
+    };
+    void loadOwners();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    try {
+      const data = await refresh();
+      if (selected) {
+        const next = data.find((c) => c.id === selected.id) ?? null;
+        setSelected(next);
+        if (next) await loadLinks(next);
+      }
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const filtered = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    return controls
+      .filter((c) =>
+        activeFilter === "all"
+          ? true
+          : activeFilter === "active"
+            ? c.isActive !== false
+            : c.isActive === false
+      )
+      .filter((c) => typeFilter === "all" || c.type === typeFilter)
+      .filter(
+        (c) =>
+          !q ||
+          c.name.toLowerCase().includes(q) ||
+          c.code.toLowerCase().includes(q) ||
+          (c.owner ?? "").toLowerCase().includes(q)
+      );
+  }, [controls, search, typeFilter, activeFilter]);
+
+  const activeControls = useMemo(
+    () => controls.filter((c) => c.isActive !== false),
+    [controls]
+  );
+
+  // ===========================================
+  // Handlers
+  // ===========================================
+
+  const selectControl = (control: Control) => {
+    setSelected(control);
+    void loadLinks(control);
+  };
+
+  const openAdd = () => {
+    setEditing(null);
+    setDraft(emptyDraft());
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (control: Control) => {
+    setEditing(control);
+    setDraft({
+      name: control.name,
+      description: control.description ?? "",
+      type: control.type,
+      automation: control.automation,
+      frequency: control.frequency,
+      ownerId: control._ownerId,
+      testFrequency: control.testFrequency ?? null,
+      testerId: control._testerId,
+      nextTestDue: control.nextTestDue ?? "",
+    });
+    setIsFormOpen(true);
+  };
+
+  const save = async () => {
+    if (!draft.name.trim()) {
+      toast({ title: t.missingName, variant: "destructive" });
+      return;
+    }
+
+    if (editing) {
+      if (!can("canEdit")) {
+        toast({
+          title: strings.common.notAllowed,
+          description: t.noPermissionEdit,
+          variant: "destructive",
+        });
+        return;
+      }
+    } else if (!can("canCreate")) {
+      toast({
+        title: strings.common.notAllowed,
+        description: t.noPermissionCreate,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const input: ControlInput = { ...draft, name: draft.name.trim() };
+
+    setIsSaving(true);
+    try {
+      if (editing) {
+        const updated = await controlApi.update(backendId(editing), input);
+        if (selected?.id === updated.id) setSelected(updated);
+        toast({ title: t.updated });
+      } else {
+        await controlApi.create(input);
+        toast({ title: t.created });
+      }
+      setIsFormOpen(false);
+      await refresh();
+    } catch (error) {
+      toast({
+        title: t.saveFailed,
+        description:
+          error instanceof Error ? error.message : strings.common.pleaseTryAgain,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const setActive = async (control: Control, isActive: boolean) => {
+    if (!can(isActive ? "canEdit" : "canDelete")) {
+      toast({
+        title: strings.common.notAllowed,
+        description: isActive ? t.noPermissionEdit : t.noPermissionRetire,
+        variant: "destructive",
+      });
+      return;
+    }
+    try {
+      const updated = await controlApi.setActive(backendId(control), isActive);
+      if (selected?.id === updated.id) setSelected(updated);
+      toast({ title: isActive ? t.reactivatedToast : t.retiredToast });
+      setToRetire(null);
+      await refresh();
+    } catch (error) {
+      toast({
+        title: t.saveFailed,
+        description:
+          error instanceof Error ? error.message : strings.common.pleaseTryAgain,
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) return <PageLoader />;
+
+  const iconClass = isRTL ? "ml-2 h-4 w-4" : "mr-2 h-4 w-4";
+
+  return (
+    <div className="space-y-6 animate-in">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">{t.title}</h1>
+          <p className="text-sm text-muted-foreground">{t.subtitle}</p>
+        </div>
+
+        <div className={cn("flex flex-wrap gap-2", isRTL ? "sm:flex-row-reverse" : "")}>
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t.searchPlaceholder}
+            className="sm:w-[220px]"
+          />
+          <Select
+            value={typeFilter}
+            onValueChange={(v) => setTypeFilter(v as BackendControlType | "all")}
+          >
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">{t.filterAllTypes}</SelectItem>
+              {BACKEND_CONTROL_TYPES.map((type) => (
+                <SelectItem key={type} value={type}>
+                  {t.types[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={activeFilter}
+            onValueChange={(v) => setActiveFilter(v as ActiveFilter)}
+          >
+            <SelectTrigger className="w-[130px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="active">{t.filterActive}</SelectItem>
+              <SelectItem value="retired">{t.filterRetired}</SelectItem>
+              <SelectItem value="all">{t.filterAll}</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={handleRefresh} disabled={refreshing}>
+            <RefreshCw className={cn(iconClass, refreshing && "animate-spin")} />
+            {t.refresh}
+          </Button>
+          {can("canCreate") && (
+            <Button onClick={openAdd}>
+              <Plus className={iconClass} />
+              {strings.actions.add}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        <Card className="glass-card">
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">{t.totalActive}</p>
+            <p className="text-2xl font-bold">{activeControls.length}</p>
+          </CardContent>
+        </Card>
+        {BACKEND_CONTROL_TYPES.map((type) => (
+          <Card key={type} className="glass-card">
+            <CardContent className="p-4">
+              <p className="text-sm text-muted-foreground">{t.types[type]}</p>
+              <p className="text-2xl font-bold">
+                {activeControls.filter((c) => c.type === type).length}
+              </p>
+            </CardContent>
+          </Card>
+        ))}
+        <Card className="glass-card">
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">{t.unlinkedCount}</p>
+            <p className="text-2xl font-bold">
+              {activeControls.filter((c) => !c.riskCount).length}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Library */}
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle>{t.libraryTitle}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {filtered.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t.noControls}</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t.colCode}</TableHead>
+                    <TableHead>{t.colName}</TableHead>
+                    <TableHead>{t.colType}</TableHead>
+                    <TableHead>{t.colAutomation}</TableHead>
+                    <TableHead>{t.colFrequency}</TableHead>
+                    <TableHead>{t.colRisks}</TableHead>
+                    <TableHead className="text-end">{t.colActions}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filtered.map((control) => (
+                    <TableRow
+                      key={control.id}
+                      className={cn(
+                        "cursor-pointer",
+                        selected?.id === control.id && "bg-muted/50",
+                        control.isActive === false && "opacity-60"
+                      )}
+                      onClick={() => selectControl(control)}
+                    >
+                      <TableCell className="font-mono text-xs">
+                        {control.code}
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium flex items-center gap-2">
+                          {control.name}
+                          {control.isActive === false && (
+                            <Badge variant="outline">{t.retired}</Badge>
+                          )}
+                        </div>
+                        {control.owner && (
+                          <div className="text-xs text-muted-foreground">
+                            {control.owner}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {t.types[control.type]}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {t.automations[control.automation]}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {t.frequencies[control.frequency]}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {control.riskCount ?? 0}
+                      </TableCell>
+                      <TableCell>
+                        <div
+                          className="flex items-center justify-end gap-1"
+                          onClick={(e) => e.stopPropagation()}
+                        >
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            title={t.colRisks}
+                            onClick={() => selectControl(control)}
+                          >
+                            <Link2 className="h-4 w-4" />
+                          </Button>
+                          {can("canEdit") && (
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              title={strings.actions.edit}
+                              onClick={() => openEdit(control)}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {control.isActive === false
+                            ? can("canEdit") && (
+                                <Button
+                                  size="icon"
+                                  variant="ghost"
+                                  title={t.reactivate}
+                                  onClick={() => void setActive(control, true)}
+                                >
+                                  <ArchiveRestore className="h-4 w-4" />
+                                </Button>
+                              )
+                            : can("canDelete") && (
+                                <Button
+                                  size="icon"
+                                  variant="ghost"
+                                  title={t.retire}
+                                  onClick={() => setToRetire(control)}
+                                >
+                                  <Archive className="h-4 w-4" />
+                                </Button>
+                              )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Linked risks */}
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle>
+            {selected
+              ? t.linkedRisksTitle.replace("{name}", selected.name)
+              : t.colRisks}
+          </CardTitle>
+          {selected?.description && (
+            <CardDescription>{selected.description}</CardDescription>
+          )}
+        </CardHeader>
+        <CardContent>
+          {!selected ? (
+            <p className="text-sm text-muted-foreground">{t.selectControlHint}</p>
+          ) : linksLoading ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              {strings.common.loading}
+            </div>
+          ) : links.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t.linkedRisksEmpty}</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{strings.table.id}</TableHead>
+                    <TableHead>{strings.table.title}</TableHead>
+                    <TableHead>{t.colDesign}</TableHead>
+                    <TableHead>{t.colOperating}</TableHead>
+                    <TableHead>{t.colOverall}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {links.map((link) => (
+                    <TableRow key={link.id}>
+                      <TableCell className="font-mono text-xs">
+                        <Link
+                          to={`/risks/${link.riskId}`}
+                          className="text-primary hover:underline"
+                        >
+                          {link.riskId}
+                        </Link>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {link.riskTitle ?? "-"}
+                      </TableCell>
+                      <TableCell>
+                        <ControlEffectivenessBadge
+                          rating={link.designEffectiveness}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <ControlEffectivenessBadge
+                          rating={link.operatingEffectiveness}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <ControlEffectivenessBadge
+                          rating={getControlEffectiveness(
+                            link.designEffectiveness,
+                            link.operatingEffectiveness
+                          )}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create / edit dialog */}
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? t.editTitle : t.addTitle}</DialogTitle>
+            <DialogDescription>{t.formDesc}</DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2 md:col-span-2">
+              <Label>{t.nameLabel}</Label>
+              <Input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label>{t.descriptionLabel}</Label>
+              <Textarea
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                rows={2}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>{t.typeLabel}</Label>
+              <Select
+                value={draft.type}
+                onValueChange={(v) =>
+                  setDraft({ ...draft, type: v as BackendControlType })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BACKEND_CONTROL_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {t.types[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{t.automationLabel}</Label>
+              <Select
+                value={draft.automation}
+                onValueChange={(v) =>
+                  setDraft({ ...draft, automation: v as BackendControlAutomation })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BACKEND_CONTROL_AUTOMATIONS.map((automation) => (
+                    <SelectItem key={automation} value={automation}>
+                      {t.automations[automation]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{t.frequencyLabel}</Label>
+              <Select
+                value={draft.frequency}
+                onValueChange={(v) =>
+                  setDraft({ ...draft, frequency: v as BackendControlFrequency })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BACKEND_CONTROL_FREQUENCIES.map((frequency) => (
+                    <SelectItem key={frequency} value={frequency}>
+                      {t.frequencies[frequency]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{t.ownerLabel}</Label>
+              <Select
+                value={draft.ownerId ? String(draft.ownerId) : "none"}
+                onValueChange={(v) =>
+                  setDraft({ ...draft, ownerId: v === "none" ? 0 : Number(v) })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">{t.noOwner}</SelectItem>
+                  {owners.map((user) => (
+                    <SelectItem
+                      key={user.id}
+                      value={String(user._backendId ?? extractNumericId(user.id))}
+                    >
+                      {user.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-3 border-t border-border pt-4">
+            <div>
+              <h4 className="text-sm font-medium">{t.testPlanTitle}</h4>
+              <p className="text-xs text-muted-foreground">{t.testPlanHint}</p>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>{t.testFrequencyLabel}</Label>
+                <Select
+                  value={draft.testFrequency ?? "none"}
+                  onValueChange={(v) =>
+                    setDraft({
+                      ...draft,
+                      testFrequency:
+                        v === "none" ? null : (v as BackendControlTestFrequency),
+                    })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">{t.notScheduled}</SelectItem>
+                    {BACKEND_CONTROL_TEST_FREQUENCIES.map((frequency) => (
+                      <SelectItem key={frequency} value={frequency}>
+                        {t.testFrequencies[frequency]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>{t.testerLabel}</Label>
+                <Select
+                  value={draft.testerId ? String(draft.testerId) : "none"}
+                  onValueChange={(v) =>
+                    setDraft({ ...draft, testerId: v === "none" ? 0 : Number(v) })
+                  }
+                  disabled={!draft.testFrequency}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">{t.noOwner}</SelectItem>
+                    {owners.map((user) => (
+                      <SelectItem
+                        key={user.id}
+                        value={String(user._backendId ?? extractNumericId(user.id))}
+                      >
+                        {user.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>{t.nextTestDueLabel}</Label>
+                <Input
+                  type="date"
+                  value={draft.nextTestDue ?? ""}
+                  onChange={(e) =>
+                    setDraft({ ...draft, nextTestDue: e.target.value })
+                  }
+                  disabled={!draft.testFrequency}
+                />
+              </div>
+            </div>
+            {draft.testFrequency && !draft.nextTestDue && (
+              <p className="text-xs text-muted-foreground">{t.nextTestDueHint}</p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setIsFormOpen(false)}
+              disabled={isSaving}
+            >
+              {strings.actions.cancel}
+            </Button>
+            <Button onClick={save} disabled={isSaving}>
+              {isSaving && <Loader2 className={cn(iconClass, "animate-spin")} />}
+              {strings.actions.save}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Retire confirmation */}
+      <AlertDialog
+        open={!!toRetire}
+        onOpenChange={(open) => !open && setToRetire(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t.retireTitle}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t.retireDesc.replace("{name}", toRetire?.name ?? "")}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{strings.actions.cancel}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => toRetire && void setActive(toRetire, false)}
+            >
+              {t.retire}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default ControlLibrary;
@@ -0,0 +1,622 @@
+/**
+ * ControlTests - Control test schedule and recorded results.
+ *
+ * Shows when each active control is next due for testing, lets testers
+ * record results, and lists the history of tests with their evidence.
+ */
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { PageLoader } from "@/components/common/Loader";
+import { StatusBadge } from "@/components/common/StatusBadge";
+import { ControlEffectivenessBadge } from "@/components/controls";
+import {
+  useControls,
+  useControlTests,
+  useRecordControlTest,
+} from "@/hooks/queries";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/auth/authContext";
+import { userApi, extractNumericId } from "@/api";
+import type { Control, User } from "@/types";
+import type { BackendControlTestResult } from "@/types/backend";
+import {
+  BACKEND_CONTROL_TEST_RESULTS,
+  getControlTestStatus,
+  type ControlTestScheduleStatus,
+} from "@/utils/constants";
+import { useI18n } from "@/i18n";
+import { cn } from "@/lib/utils";
+import { ClipboardCheck, Loader2, RefreshCw } from "lucide-react";
+
+// ===========================================
+// Helper Functions
+// ===========================================
+
+const SCHEDULE_ORDER: ControlTestScheduleStatus[] = [
+  "overdue",
+  "due_soon",
+  "scheduled",
+  "unscheduled",
+];
+
+const STATUS_BADGE: Record<ControlTestScheduleStatus, string> = {
+  overdue: "red",
+  due_soon: "yellow",
+  scheduled: "green",
+  unscheduled: "closed",
+};
+
+interface TestDraft {
+  testedAt: string;
+  result: BackendControlTestResult;
+  sampleSize: string;
+  exceptions: string;
+  evidence: string;
+  notes: string;
+  testerId: number;
+}
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000));
+
+const backendId = (control: Control) =>
+  control._backendId ?? extractNumericId(control.id);
+
+// ===========================================
+// Main Component
+// ===========================================
+
+const ControlTests: React.FC = () => {
+  const { toast } = useToast();
+  const { can, user } = useAuth();
+  const { strings, isRTL } = useI18n();
+  const t = strings.controlTestsPage;
+  const tc = strings.controlsPage;
+
+  const today = useMemo(() => new Date().toISOString().slice(0, 10), []);
+  const [statusFilter, setStatusFilter] = useState<
+    ControlTestScheduleStatus | "all"
+  >("all");
+  const [historyControl, setHistoryControl] = useState<string>("all");
+  const [owners, setOwners] = useState<User[]>([]);
+
+  const controlsQuery = useControls();
+  const testsQuery = useControlTests(
+    historyControl === "all" ? undefined : Number(historyControl)
+  );
+  const recordTest = useRecordControlTest();
+
+  const [testing, setTesting] = useState<Control | null>(null);
+  const [draft, setDraft] = useState<TestDraft | null>(null);
+
+  useEffect(() => {
+    const loadOwners = async () => {
+      if (!can("canEdit")) return;
+      try {
+        setOwners(await userApi.getUsers({ perPage: 100 }));
+      } catch {
+        setOwners([]);
+      }
+    };
+    void loadOwners();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const schedule = useMemo(
+    () =>
+      (controlsQuery.data ?? [])
+        .filter((c) => c.isActive !== false)
+        .map((control) => ({
+          control,
+          status: getControlTestStatus(control.nextTestDue, today),
+        }))
+        .sort(
+          (a, b) =>
+            SCHEDULE_ORDER.indexOf(a.status) - SCHEDULE_ORDER.indexOf(b.status) ||
+            (a.control.nextTestDue ?? "").localeCompare(b.control.nextTestDue ?? "")
+        ),
+    [controlsQuery.data, today]
+  );
+
+  const filtered = schedule.filter(
+    (row) => statusFilter === "all" || row.status === statusFilter
+  );
+
+  const countByStatus = (status: ControlTestScheduleStatus) =>
+    schedule.filter((row) => row.status === status).length;
+
+  // ===========================================
+  // Handlers
+  // ===========================================
+
+  const openRecord = (control: Control) => {
+    setTesting(control);
+    setDraft({
+      testedAt: today,
+      result: "effective",
+      sampleSize: "",
+      exceptions: "0",
+      evidence: "",
+      notes: "",
+      testerId: control._testerId ?? user?._backendId ?? 0,
+    });
+  };
+
+  const save = async () => {
+    if (!testing || !draft) return;
+    if (!can("canEdit")) {
+      toast({
+        title: strings.common.notAllowed,
+        description: t.noPermission,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const sampleSize = Number(draft.sampleSize);
+    const exceptions = Number(draft.exceptions || 0);
+    if (
+      !Number.isInteger(sampleSize) ||
+      sampleSize < 1 ||
+      !Number.isInteger(exceptions) ||
+      exceptions < 0 ||
+      exceptions > sampleSize
+    ) {
+      toast({ title: t.invalidSample, variant: "destructive" });
+      return;
+    }
+    if (!draft.testedAt || draft.testedAt > today) {
+      toast({ title: t.invalidDate, variant: "destructive" });
+      return;
+    }
+
+    try {
+      await recordTest.mutateAsync({
+        controlId: backendId(testing),
+        data: {
+          testedAt: draft.testedAt,
+          result: draft.result,
+          sampleSize,
+          exceptions,
+          evidence: draft.evidence.trim() || undefined,
+          notes: draft.notes.trim() || undefined,
+          testerId: draft.testerId || undefined,
+        },
+      });
+      toast({ title: t.recorded });
+      setTesting(null);
+    } catch (error) {
+      toast({
+        title: t.saveFailed,
+        description:
+          error instanceof Error ? error.message : strings.common.pleaseTryAgain,
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (controlsQuery.isLoading) return <PageLoader />;
+
+  const iconClass = isRTL ? "ml-2 h-4 w-4" : "mr-2 h-4 w-4";
+  const refreshing = controlsQuery.isFetching || testsQuery.isFetching;
+  const tests = testsQuery.data ?? [];
+
+  return (
+    <div className="space-y-6 animate-in">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">{t.title}</h1>
+          <p className="text-sm text-muted-foreground">{t.subtitle}</p>
+        </div>
+
+        <div className={cn("flex flex-wrap gap-2", isRTL ? "sm:flex-row-reverse" : "")}>
+          <Select
+            value={statusFilter}
+            onValueChange={(v) =>
+              setStatusFilter(v as ControlTestScheduleStatus | "all")
+            }
+          >
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">{t.filterAllStatuses}</SelectItem>
+              {SCHEDULE_ORDER.map((status) => (
+                <SelectItem key={status} value={status}>
+                  {t.statuses[status]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            onClick={() => {
+              void controlsQuery.refetch();
+              void testsQuery.refetch();
+            }}
+            disabled={refreshing}
+          >
+            <RefreshCw className={cn(iconClass, refreshing && "animate-spin")} />
+            {t.refresh}
+          </Button>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {SCHEDULE_ORDER.map((status) => (
+          <Card
+            key={status}
+            className={cn(
+              "glass-card cursor-pointer",
+              statusFilter === status && "ring-2 ring-primary"
+            )}
+            onClick={() =>
+              setStatusFilter(statusFilter === status ? "all" : status)
+            }
+          >
+            <CardContent className="p-4">
+              <p className="text-sm text-muted-foreground">
+                {t.statuses[status]}
+              </p>
+              <p
+                className={cn(
+                  "text-2xl font-bold",
+                  status === "overdue" &&
+                    countByStatus(status) > 0 &&
+                    "text-status-critical"
+                )}
+              >
+                {countByStatus(status)}
+              </p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Schedule */}
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle>{t.scheduleTitle}</CardTitle>
+          <CardDescription>{t.scheduleDesc}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {filtered.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t.noScheduled}</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t.colControl}</TableHead>
+                    <TableHead>{t.colFrequency}</TableHead>
+                    <TableHead>{t.colTester}</TableHead>
+                    <TableHead>{t.colNextDue}</TableHead>
+                    <TableHead>{t.colLastResult}</TableHead>
+                    {can("canEdit") && (
+                      <TableHead className="text-end">{t.colActions}</TableHead>
+                    )}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filtered.map(({ control, status }) => (
+                    <TableRow key={control.id}>
+                      <TableCell>
+                        <div className="font-medium">
+                          <span className="font-mono text-xs text-muted-foreground">
+                            {control.code}
+                          </span>{" "}
+                          {control.name}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {control.testFrequency
+                          ? tc.testFrequencies[control.testFrequency]
+                          : tc.notScheduled}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {control.tester ?? "-"}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-col items-start gap-1">
+                          <StatusBadge status={STATUS_BADGE[status]}>
+                            {t.statuses[status]}
+                          </StatusBadge>
+                          {control.nextTestDue && (
+                            <span className="text-xs text-muted-foreground">
+                              {status === "overdue"
+                                ? `${control.nextTestDue} · ${t.daysOverdue.replace(
+                                    "{days}",
+                                    String(daysBetween(control.nextTestDue, today))
+                                  )}`
+                                : control.nextTestDue}
+                            </span>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {control.lastTestResult ? (
+                          <div className="flex flex-col items-start gap-1">
+                            <ControlEffectivenessBadge
+                              rating={control.lastTestResult}
+                            />
+                            <span className="text-xs text-muted-foreground">
+                              {control.lastTestedAt}
+                            </span>
+                          </div>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">
+                            {t.notTested}
+                          </span>
+                        )}
+                      </TableCell>
+                      {can("canEdit") && (
+                        <TableCell className="text-end">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => openRecord(control)}
+                          >
+                            <ClipboardCheck className={iconClass} />
+                            {t.recordResult}
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* History */}
+      <Card className="glass-card">
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>{t.historyTitle}</CardTitle>
+            <CardDescription>{t.historyDesc}</CardDescription>
+          </div>
+          <Select value={historyControl} onValueChange={setHistoryControl}>
+            <SelectTrigger className="w-[220px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">{t.allControls}</SelectItem>
+              {(controlsQuery.data ?? []).map((control) => (
+                <SelectItem key={control.id} value={String(backendId(control))}>
+                  {control.code} - {control.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {testsQuery.isLoading ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              {strings.common.loading}
+            </div>
+          ) : tests.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t.noTests}</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t.colTestedAt}</TableHead>
+                    <TableHead>{t.colControl}</TableHead>
+                    <TableHead>{t.colTester}</TableHead>
+                    <TableHead>{t.colResult}</TableHead>
+                    <TableHead>{t.colSample}</TableHead>
+                    <TableHead>{t.colExceptions}</TableHead>
+                    <TableHead>{t.colEvidence}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {tests.map((test) => (
+                    <TableRow key={test.id}>
+                      <TableCell className="text-sm whitespace-nowrap">
+                        {test.testedAt}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <span className="font-mono text-xs text-muted-foreground">
+                          {test.controlCode}
+                        </span>{" "}
+                        {test.controlName}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {test.tester ?? "-"}
+                      </TableCell>
+                      <TableCell>
+                        <ControlEffectivenessBadge rating={test.result} />
+                      </TableCell>
+                      <TableCell className="text-sm">{test.sampleSize}</TableCell>
+                      <TableCell className="text-sm">
+                        {test.exceptions}
+                        {test.sampleSize > 0 && (
+                          <span className="text-xs text-muted-foreground">
+                            {" "}
+                            ({Math.round((test.exceptions / test.sampleSize) * 100)}%)
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {test.evidence ?? "-"}
+                        {test.notes && (
+                          <div className="text-xs text-muted-foreground">
+                            {test.notes}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Record result dialog */}
+      <Dialog open={!!testing} onOpenChange={(open) => !open && setTesting(null)}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>{t.recordTitle}</DialogTitle>
+            <DialogDescription>
+              {t.recordDesc.replace(
+                "{name}",
+                testing ? `${testing.code} ${testing.name}` : ""
+              )}
+            </DialogDescription>
+          </DialogHeader>
+
+          {draft && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>{t.testedAtLabel}</Label>
+                <Input
+                  type="date"
+                  value={draft.testedAt}
+                  max={today}
+                  onChange={(e) => setDraft({ ...draft, testedAt: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>{t.resultLabel}</Label>
+                <Select
+                  value={draft.result}
+                  onValueChange={(v) =>
+                    setDraft({ ...draft, result: v as BackendControlTestResult })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BACKEND_CONTROL_TEST_RESULTS.map((result) => (
+                      <SelectItem key={result} value={result}>
+                        {tc.effectiveness[result]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>{t.sampleSizeLabel}</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={draft.sampleSize}
+                  onChange={(e) => setDraft({ ...draft, sampleSize: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>{t.exceptionsLabel}</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={draft.exceptions}
+                  onChange={(e) => setDraft({ ...draft, exceptions: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2 sm:col-span-2">
+                <Label>{tc.testerLabel}</Label>
+                <Select
+                  value={draft.testerId ? String(draft.testerId) : "none"}
+                  onValueChange={(v) =>
+                    setDraft({ ...draft, testerId: v === "none" ? 0 : Number(v) })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">{tc.noOwner}</SelectItem>
+                    {owners.map((owner) => (
+                      <SelectItem
+                        key={owner.id}
+                        value={String(owner._backendId ?? extractNumericId(owner.id))}
+                      >
+                        {owner.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2 sm:col-span-2">
+                <Label>{t.evidenceLabel}</Label>
+                <Input
+                  value={draft.evidence}
+                  placeholder={t.evidencePlaceholder}
+                  onChange={(e) => setDraft({ ...draft, evidence: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2 sm:col-span-2">
+                <Label>{t.notesLabel}</Label>
+                <Textarea
+                  value={draft.notes}
+                  rows={2}
+                  onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setTesting(null)}
+              disabled={recordTest.isPending}
+            >
+              {strings.actions.cancel}
+            </Button>
+            <Button onClick={save} disabled={recordTest.isPending}>
+              {recordTest.isPending && (
+                <Loader2 className={cn(iconClass, "animate-spin")} />
+              )}
+              {strings.actions.save}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ControlTests;
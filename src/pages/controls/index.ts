@@ -0,0 +1,6 @@
+/**
+ * Control Pages Export
+ */
+export { default as ControlLibrary } from "./ControlLibrary";
+export { default as ControlTests } from "./ControlTests";
+export { default as ControlHealthDashboard } from "./ControlHealthDashboard";
@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from "react";
+import React from "react";
 import { Link } from "react-router-dom";
 import {
   Card,
@@ -12,9 +12,7 @@ import { Badge } from "@/components/ui/badge";
 import { PageLoader } from "@/components/common/Loader";
 import { StatusBadge } from "@/components/common/StatusBadge";
 import { useAuth } from "@/auth/authContext";
-import { riskApi, kriApi } from "@/api";
-import type { Risk, KRI } from "@/types";
-import type { BackendRiskStats } from "@/types/backend";
+import { useRisks, useKRIs, useRiskStats } from "@/hooks/queries";
 import {
   AlertTriangle,
   TrendingUp,
@@ -77,6 +75,8 @@ const CHART_COLORS = [
   "hsl(var(--chart-5))",
 ];
 
+const DASHBOARD_REFRESH_MS = 5 * 60 * 1000;
+
 // ===========================================
 // Component
 // ===========================================
@@ -84,32 +84,18 @@ const CHART_COLORS = [
 const Dashboard: React.FC = () => {
   const { can } = useAuth();
   const { strings, language } = useI18n();
-  const [risks, setRisks] = useState<Risk[]>([]);
-  const [kris, setKris] = useState<KRI[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [stats, setStats] = useState<BackendRiskStats | null>(null);
+  // Keep the landing page current while it stays open.
+  const refresh = { refetchInterval: DASHBOARD_REFRESH_MS };
+  const risksQuery = useRisks({}, refresh);
+  const krisQuery = useKRIs(refresh);
+  const statsQuery = useRiskStats(refresh);
 
-  useEffect(() => {
-    const loadData = async () => {
-      try {
-        const [risksData, krisData, statsData] = await Promise.all([
-          riskApi.getAll(),
-          kriApi.getAll(),
-          riskApi.getStats(),
-        ]);
-        setRisks(risksData);
-        setKris(krisData);
-        setStats(statsData as BackendRiskStats);
-      } catch (error) {
-        console.error("Failed to load dashboard data", error);
-      } finally {
-        setLoading(false);
-      }
-    };
-    loadData();
-  }, []);
+  if (risksQuery.isLoading || krisQuery.isLoading || statsQuery.isLoading)
+    return <PageLoader text={strings.dashboard.loading} />;
 
-  if (loading) return <PageLoader text={strings.dashboard.loading} />;
+  const risks = risksQuery.data ?? [];
+  const kris = (krisQuery.data ?? []).filter((k) => k.isActive !== false);
+  const stats = statsQuery.data ?? null;
 
   // Calculated statistics
   const criticalRisks = risks.filter(
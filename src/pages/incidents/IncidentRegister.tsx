@@ -0,0 +1,1039 @@
+/**
+ * IncidentRegister - Incident management page.
+ *
+ * Log incidents, move them through the open → investigating → contained →
+ * resolved → closed lifecycle and record the post-incident review.
+ */
+import React, { useEffect, useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { StatusBadge } from "@/components/common/StatusBadge";
+import { PageLoader } from "@/components/common/Loader";
+import { useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { queryKeys } from "@/hooks/queries";
+import { useAuth } from "@/auth/authContext";
+import { incidentApi, riskApi, userApi, extractNumericId } from "@/api";
+import type { IncidentInput } from "@/api/incidentApi";
+import type { Incident, Risk, User } from "@/types";
+import type { BackendIncidentCategory } from "@/types/backend";
+import { useI18n } from "@/i18n";
+import { cn } from "@/lib/utils";
+import {
+  Plus,
+  Pencil,
+  Trash2,
+  Eye,
+  ArrowRight,
+  ArrowLeft,
+  CheckCircle2,
+  Circle,
+  Loader2,
+  X,
+} from "lucide-react";
+
+// ===========================================
+// Helper Functions
+// ===========================================
+
+const LIFECYCLE: Incident["status"][] = [
+  "Open",
+  "Investigating",
+  "Contained",
+  "Resolved",
+  "Closed",
+];
+
+const CATEGORIES: BackendIncidentCategory[] = [
+  "security",
+  "operational",
+  "financial",
+  "compliance",
+  "technology",
+  "environmental",
+  "human_error",
+  "external",
+  "other",
+];
+
+const SEVERITIES: Incident["severity"][] = ["Low", "Medium", "High", "Critical"];
+
+const STATUS_BADGE: Record<Incident["status"], string> = {
+  Open: "red",
+  Investigating: "yellow",
+  Contained: "yellow",
+  Resolved: "green",
+  Closed: "Closed",
+};
+
+const stageTimestamp = (incident: Incident, status: Incident["status"]) => {
+  switch (status) {
+    case "Open":
+      return incident.reportedAt;
+    case "Investigating":
+      return incident.investigatingAt;
+    case "Contained":
+      return incident.containedAt;
+    case "Resolved":
+      return incident.resolvedAt;
+    case "Closed":
+      return incident.closedAt;
+  }
+};
+
+const nextStatus = (status: Incident["status"]) =>
+  LIFECYCLE[LIFECYCLE.indexOf(status) + 1];
+
+type IncidentDraft = Omit<IncidentInput, "financialImpact" | "affectedSystems"> & {
+  financialImpact: string;
+  affectedSystems: string;
+};
+
+const emptyDraft = (): IncidentDraft => ({
+  title: "",
+  description: "",
+  category: "operational",
+  severity: "Medium",
+  riskId: undefined,
+  occurredAt: new Date().toISOString().split("T")[0],
+  assigneeId: undefined,
+  financialImpact: "",
+  affectedSystems: "",
+  impactDescription: "",
+});
+
+const splitList = (text: string, separator: string | RegExp) =>
+  text
+    .split(separator)
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+// ===========================================
+// Main Component
+// ===========================================
+
+const IncidentRegister: React.FC = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { can } = useAuth();
+  const { strings, isRTL, language } = useI18n();
+  const t = strings.incidentsPage;
+  const [searchParams, setSearchParams] = useSearchParams();
+  const riskFilter = searchParams.get("risk");
+
+  const [loading, setLoading] = useState(true);
+  const [incidents, setIncidents] = useState<Incident[]>([]);
+  const [risks, setRisks] = useState<Risk[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [search, setSearch] = useState("");
+  const [statusFilter, setStatusFilter] = useState<Incident["status"] | "all">(
+    "all"
+  );
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editing, setEditing] = useState<Incident | null>(null);
+  const [draft, setDraft] = useState<IncidentDraft>(emptyDraft());
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [viewing, setViewing] = useState<Incident | null>(null);
+  const [rootCause, setRootCause] = useState("");
+  const [correctiveActions, setCorrectiveActions] = useState("");
+  const [lessonsLearned, setLessonsLearned] = useState("");
+  const [isSavingReview, setIsSavingReview] = useState(false);
+  const [isTransitioning, setIsTransitioning] = useState(false);
+
+  const [toDelete, setToDelete] = useState<Incident | null>(null);
+
+  const statusLabels: Record<Incident["status"], string> = {
+    Open: t.statusOpen,
+    Investigating: t.statusInvestigating,
+    Contained: t.statusContained,
+    Resolved: t.statusResolved,
+    Closed: t.statusClosed,
+  };
+
+  const categoryLabels: Record<BackendIncidentCategory, string> = {
+    security: t.categorySecurity,
+    operational: t.categoryOperational,
+    financial: t.categoryFinancial,
+    compliance: t.categoryCompliance,
+    technology: t.categoryTechnology,
+    environmental: t.categoryEnvironmental,
+    human_error: t.categoryHumanError,
+    external: t.categoryExternal,
+    other: t.categoryOther,
+  };
+
+  const formatDateTime = (value?: string) =>
+    value
+      ? new Date(value).toLocaleString(language === "ar" ? "ar-SA" : "en-US", {
+          dateStyle: "medium",
+          timeStyle: "short",
+        })
+      : t.notReached;
+
+  const refresh = async () => {
+    const data = await incidentApi.getAll({ per_page: 500 });
+    setIncidents(data);
+    // Incidents shown on RiskDetails come from the shared cache
+    queryClient.invalidateQueries({ queryKey: queryKeys.incidents.all });
+    return data;
+  };
+
+  useEffect(() => {
+    const run = async () => {
+      setLoading(true);
+      try {
+        const [, riskList] = await Promise.all([refresh(), riskApi.getAll()]);
+        setRisks(riskList);
+      } catch {
+        toast({
+          title: t.loadFailed,
+          description: strings.common.pleaseTryAgain,
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+    void run();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    const loadUsers = async () => {
+      if (!can("canEdit") && !can("canCreate")) return;
+      try {
+        setUsers(await userApi.getUsers({ perPage: 100 }));
+      } catch {
+        setUsers([]);
+      }
+    };
+    void loadUsers();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const riskTitle = (riskId: string) =>
+    risks.find((r) => r.id === riskId)?.title ?? riskId;
+
+  const filtered = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    return incidents
+      .filter((i) => !riskFilter || i.riskId === riskFilter)
+      .filter((i) => statusFilter === "all" || i.status === statusFilter)
+      .filter(
+        (i) =>
+          !q ||
+          i.title.toLowerCase().includes(q) ||
+          (i.code ?? i.id).toLowerCase().includes(q) ||
+          (i.description ?? "").toLowerCase().includes(q)
+      );
+  }, [incidents, search, statusFilter, riskFilter]);
+
+  const statusCounts = useMemo(() => {
+    const scoped = incidents.filter((i) => !riskFilter || i.riskId === riskFilter);
+    return LIFECYCLE.reduce(
+      (acc, status) => ({
+        ...acc,
+        [status]: scoped.filter((i) => i.status === status).length,
+      }),
+      {} as Record<Incident["status"], number>
+    );
+  }, [incidents, riskFilter]);
+
+  // ===========================================
+  // Handlers
+  // ===========================================
+
+  const openAdd = () => {
+    setEditing(null);
+    setDraft({
+      ...emptyDraft(),
+      riskId: riskFilter ? extractNumericId(riskFilter) : undefined,
+    });
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (incident: Incident) => {
+    setEditing(incident);
+    setDraft({
+      title: incident.title,
+      description: incident.description ?? "",
+      category: incident.category ?? "other",
+      severity: incident.severity,
+      riskId: incident._backendRiskId,
+      occurredAt: incident.date,
+      assigneeId: incident._assigneeId,
+      financialImpact:
+        incident.financialImpact !== undefined && incident.financialImpact !== null
+          ? String(incident.financialImpact)
+          : "",
+      affectedSystems: (incident.affectedSystems ?? []).join(", "),
+      impactDescription: incident.impactDescription ?? "",
+    });
+    setIsFormOpen(true);
+  };
+
+  const openView = (incident: Incident) => {
+    setViewing(incident);
+    setRootCause(incident.rootCause ?? "");
+    setCorrectiveActions((incident.correctiveActions ?? []).join("\n"));
+    setLessonsLearned(incident.lessonsLearned ?? "");
+  };
+
+  const syncViewing = (updated: Incident) => {
+    setViewing(updated);
+    setIncidents((prev) => prev.map((i) => (i.id === updated.id ? updated : i)));
+    queryClient.invalidateQueries({ queryKey: queryKeys.incidents.all });
+  };
+
+  const save = async () => {
+    if (!draft.title.trim()) {
+      toast({ title: t.missingTitle, variant: "destructive" });
+      return;
+    }
+    if (editing) {
+      if (!can("canEdit")) {
+        toast({
+          title: strings.common.notAllowed,
+          description: t.noPermissionEdit,
+          variant: "destructive",
+        });
+        return;
+      }
+    } else if (!can("canCreate")) {
+      toast({
+        title: strings.common.notAllowed,
+        description: t.noPermissionCreate,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const financialImpact = Number(draft.financialImpact);
+    const input: IncidentInput = {
+      ...draft,
+      title: draft.title.trim(),
+      financialImpact:
+        draft.financialImpact.trim() && Number.isFinite(financialImpact)
+          ? financialImpact
+          : undefined,
+      affectedSystems: splitList(draft.affectedSystems, ","),
+    };
+
+    setIsSaving(true);
+    try {
+      if (editing) {
+        await incidentApi.update(
+          editing._backendId ?? extractNumericId(editing.id),
+          input
+        );
+        toast({ title: t.updated });
+      } else {
+        await incidentApi.create(input);
+        toast({ title: t.created });
+      }
+      setIsFormOpen(false);
+      await refresh();
+    } catch (error) {
+      toast({
+        title: t.saveFailed,
+        description:
+          error instanceof Error ? error.message : strings.common.pleaseTryAgain,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const saveReview = async () => {
+    if (!viewing) return;
+    if (!can("canEdit")) {
+      toast({
+        title: strings.common.notAllowed,
+        description: t.noPermissionEdit,
+        variant: "destructive",
+      });
+      return;
+    }
+    setIsSavingReview(true);
+    try {
+      const updated = await incidentApi.update(
+        viewing._backendId ?? extractNumericId(viewing.id),
+        {
+          rootCause: rootCause.trim(),
+          correctiveActions: splitList(correctiveActions, /\n/),
+          lessonsLearned: lessonsLearned.trim(),
+        }
+      );
+      syncViewing(updated);
+      toast({ title: t.reviewSaved });
+    } catch (error) {
+      toast({
+        title: t.saveFailed,
+        description:
+          error instanceof Error ? error.message : strings.common.pleaseTryAgain,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSavingReview(false);
+    }
+  };
+
+  const advance = async () => {
+    if (!viewing) return;
+    const next = nextStatus(viewing.status);
+    if (!next) return;
+    if (!can("canEdit")) {
+      toast({
+        title: strings.common.notAllowed,
+        description: t.noPermissionEdit,
+        variant: "destructive",
+      });
+      return;
+    }
+    setIsTransitioning(true);
+    try {
+      const updated = await incidentApi.changeStatus(
+        viewing._backendId ?? extractNumericId(viewing.id),
+        next
+      );
+      syncViewing(updated);
+      toast({ title: t.statusChanged.replace("{status}", statusLabels[next]) });
+    } catch (error) {
+      toast({
+        title: t.transitionFailed,
+        description:
+          error instanceof Error ? error.message : strings.common.pleaseTryAgain,
+        variant: "destructive",
+      });
+    } finally {
+      setIsTransitioning(false);
+    }
+  };
+
+  const remove = async () => {
+    if (!toDelete) return;
+    if (!can("canDelete")) {
+      toast({
+        title: strings.common.notAllowed,
+        description: t.noPermissionDelete,
+        variant: "destructive",
+      });
+      return;
+    }
+    try {
+      await incidentApi.delete(toDelete._backendId ?? extractNumericId(toDelete.id));
+      toast({ title: t.deleted });
+      setToDelete(null);
+      await refresh();
+    } catch (error) {
+      toast({
+        title: t.deleteFailed,
+        description:
+          error instanceof Error ? error.message : strings.common.pleaseTryAgain,
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) return <PageLoader />;
+
+  const iconClass = isRTL ? "ml-2 h-4 w-4" : "mr-2 h-4 w-4";
+  const ArrowIcon = isRTL ? ArrowLeft : ArrowRight;
+
+  // The review must be saved before the transition that depends on it.
+  const viewingNext = viewing ? nextStatus(viewing.status) : undefined;
+  const transitionBlocker =
+    viewingNext === "Resolved" && !viewing?.rootCause?.trim()
+      ? t.rootCauseRequired
+      : viewingNext === "Closed" && !viewing?.lessonsLearned?.trim()
+        ? t.lessonsRequired
+        : null;
+
+  return (
+    <div className="space-y-6 animate-in">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">{t.title}</h1>
+          <p className="text-sm text-muted-foreground">{t.subtitle}</p>
+        </div>
+
+        <div className={cn("flex flex-wrap gap-2", isRTL ? "sm:flex-row-reverse" : "")}>
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t.searchPlaceholder}
+            className="sm:w-[220px]"
+          />
+          <Select
+            value={statusFilter}
+            onValueChange={(v) => setStatusFilter(v as Incident["status"] | "all")}
+          >
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">{t.allStatuses}</SelectItem>
+              {LIFECYCLE.map((status) => (
+                <SelectItem key={status} value={status}>
+                  {statusLabels[status]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {can("canCreate") && (
+            <Button onClick={openAdd}>
+              <Plus className={iconClass} />
+              {strings.actions.add}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {riskFilter && (
+        <Badge variant="secondary" className="gap-2 py-1">
+          {t.riskFilter.replace("{risk}", `${riskFilter} - ${riskTitle(riskFilter)}`)}
+          <button
+            type="button"
+            aria-label={t.clearRiskFilter}
+            title={t.clearRiskFilter}
+            onClick={() => setSearchParams({})}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      )}
+
+      {/* Lifecycle summary */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {LIFECYCLE.map((status) => (
+          <Card
+            key={status}
+            className={cn(
+              "glass-card cursor-pointer transition-colors",
+              statusFilter === status && "border-primary"
+            )}
+            onClick={() => setStatusFilter(statusFilter === status ? "all" : status)}
+          >
+            <CardContent className="p-4">
+              <p className="text-sm text-muted-foreground">{statusLabels[status]}</p>
+              <p className="text-2xl font-bold">{statusCounts[status]}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Register */}
+      <Card className="glass-card">
+        <CardContent className="p-0">
+          {filtered.length === 0 ? (
+            <p className="p-6 text-sm text-muted-foreground">{t.noIncidents}</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t.colCode}</TableHead>
+                    <TableHead>{t.colTitle}</TableHead>
+                    <TableHead>{t.colRisk}</TableHead>
+                    <TableHead>{t.colCategory}</TableHead>
+                    <TableHead>{t.colSeverity}</TableHead>
+                    <TableHead>{t.colStatus}</TableHead>
+                    <TableHead>{t.colOccurred}</TableHead>
+                    <TableHead className="text-end">{t.colActions}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filtered.map((incident) => (
+                    <TableRow key={incident.id}>
+                      <TableCell className="font-mono text-xs">
+                        {incident.code ?? incident.id}
+                      </TableCell>
+                      <TableCell className="font-medium">{incident.title}</TableCell>
+                      <TableCell className="text-sm">
+                        {incident.riskId ? (
+                          <Link
+                            to={`/risks/${incident.riskId}`}
+                            className="text-primary hover:underline"
+                          >
+                            {riskTitle(incident.riskId)}
+                          </Link>
+                        ) : (
+                          "-"
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {incident.category ? categoryLabels[incident.category] : "-"}
+                      </TableCell>
+                      <TableCell>
+                        <StatusBadge status={incident.severity}>
+                          {strings.risks.levels?.[
+                            incident.severity as keyof typeof strings.risks.levels
+                          ] ?? incident.severity}
+                        </StatusBadge>
+                      </TableCell>
+                      <TableCell>
+                        <StatusBadge status={STATUS_BADGE[incident.status]}>
+                          {statusLabels[incident.status]}
+                        </StatusBadge>
+                      </TableCell>
+                      <TableCell className="text-sm">{incident.date}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center justify-end gap-1">
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            title={t.lifecycleTitle}
+                            onClick={() => openView(incident)}
+                          >
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                          {can("canEdit") && (
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              title={strings.actions.edit}
+                              onClick={() => openEdit(incident)}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {can("canDelete") && (
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              title={strings.actions.delete}
+                              onClick={() => setToDelete(incident)}
+                            >
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Lifecycle & review dialog */}
+      <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          {viewing && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex flex-wrap items-center gap-2">
+                  <span className="font-mono text-sm text-muted-foreground">
+                    {viewing.code ?? viewing.id}
+                  </span>
+                  {viewing.title}
+                </DialogTitle>
+                <DialogDescription className="flex flex-wrap items-center gap-2">
+                  <StatusBadge status={viewing.severity}>
+                    {strings.risks.levels?.[
+                      viewing.severity as keyof typeof strings.risks.levels
+                    ] ?? viewing.severity}
+                  </StatusBadge>
+                  <StatusBadge status={STATUS_BADGE[viewing.status]}>
+                    {statusLabels[viewing.status]}
+                  </StatusBadge>
+                  {viewing.category && <span>{categoryLabels[viewing.category]}</span>}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-6">
+                {/* Lifecycle */}
+                <div className="space-y-3">
+                  <h3 className="text-sm font-semibold">{t.lifecycleTitle}</h3>
+                  <ol className="grid grid-cols-1 sm:grid-cols-5 gap-2">
+                    {LIFECYCLE.map((status, index) => {
+                      const reached = index <= LIFECYCLE.indexOf(viewing.status);
+                      return (
+                        <li
+                          key={status}
+                          className={cn(
+                            "rounded-lg border p-3 text-sm",
+                            reached
+                              ? "border-primary/40 bg-primary/5"
+                              : "border-border text-muted-foreground"
+                          )}
+                        >
+                          <div className="flex items-center gap-2 font-medium">
+                            {reached ? (
+                              <CheckCircle2 className="h-4 w-4 text-primary" />
+                            ) : (
+                              <Circle className="h-4 w-4" />
+                            )}
+                            {statusLabels[status]}
+                          </div>
+                          <p className="mt-1 text-xs text-muted-foreground">
+                            {reached
+                              ? formatDateTime(stageTimestamp(viewing, status))
+                              : t.notReached}
+                          </p>
+                        </li>
+                      );
+                    })}
+                  </ol>
+                  {viewingNext ? (
+                    can("canEdit") && (
+                      <div className="flex flex-wrap items-center gap-3">
+                        <Button
+                          onClick={advance}
+                          disabled={isTransitioning || !!transitionBlocker}
+                        >
+                          {isTransitioning ? (
+                            <Loader2 className={cn(iconClass, "animate-spin")} />
+                          ) : (
+                            <ArrowIcon className={iconClass} />
+                          )}
+                          {t.moveTo.replace("{status}", statusLabels[viewingNext])}
+                        </Button>
+                        {transitionBlocker && (
+                          <p className="text-xs text-muted-foreground">
+                            {transitionBlocker}
+                          </p>
+                        )}
+                      </div>
+                    )
+                  ) : (
+                    <p className="text-sm text-muted-foreground">{t.closedFinal}</p>
+                  )}
+                </div>
+
+                {/* Details */}
+                <div className="space-y-2">
+                  <h3 className="text-sm font-semibold">{t.detailsTitle}</h3>
+                  {viewing.description && (
+                    <p className="text-sm whitespace-pre-wrap">{viewing.description}</p>
+                  )}
+                  <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2 text-sm">
+                    <div>
+                      <dt className="text-muted-foreground">{t.colRisk}</dt>
+                      <dd>
+                        {viewing.riskId ? (
+                          <Link
+                            to={`/risks/${viewing.riskId}`}
+                            className="text-primary hover:underline"
+                          >
+                            {viewing.riskId} - {riskTitle(viewing.riskId)}
+                          </Link>
+                        ) : (
+                          "-"
+                        )}
+                      </dd>
+                    </div>
+                    <div>
+                      <dt className="text-muted-foreground">{t.colOccurred}</dt>
+                      <dd>{viewing.date}</dd>
+                    </div>
+                    <div>
+                      <dt className="text-muted-foreground">{t.reporter}</dt>
+                      <dd>{viewing.reporter ?? "-"}</dd>
+                    </div>
+                    <div>
+                      <dt className="text-muted-foreground">{t.assigneeLabel}</dt>
+                      <dd>{viewing.assignee ?? t.unassigned}</dd>
+                    </div>
+                    <div>
+                      <dt className="text-muted-foreground">{t.financialImpact}</dt>
+                      <dd>
+                        {viewing.financialImpact !== undefined &&
+                        viewing.financialImpact !== null
+                          ? viewing.financialImpact.toLocaleString()
+                          : "-"}
+                      </dd>
+                    </div>
+                    <div>
+                      <dt className="text-muted-foreground">{t.affectedSystems}</dt>
+                      <dd>
+                        {viewing.affectedSystems?.length
+                          ? viewing.affectedSystems.join(", ")
+                          : "-"}
+                      </dd>
+                    </div>
+                  </dl>
+                  {viewing.impactDescription && (
+                    <div className="text-sm">
+                      <span className="text-muted-foreground">{t.impact}: </span>
+                      {viewing.impactDescription}
+                    </div>
+                  )}
+                </div>
+
+                {/* Post-incident review */}
+                <div className="space-y-3">
+                  <h3 className="text-sm font-semibold">{t.reviewTitle}</h3>
+                  <div className="space-y-2">
+                    <Label>{t.rootCauseLabel}</Label>
+                    <Textarea
+                      value={rootCause}
+                      onChange={(e) => setRootCause(e.target.value)}
+                      disabled={!can("canEdit")}
+                      rows={3}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>{t.correctiveActionsLabel}</Label>
+                    <Textarea
+                      value={correctiveActions}
+                      onChange={(e) => setCorrectiveActions(e.target.value)}
+                      disabled={!can("canEdit")}
+                      rows={3}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>{t.lessonsLabel}</Label>
+                    <Textarea
+                      value={lessonsLearned}
+                      onChange={(e) => setLessonsLearned(e.target.value)}
+                      disabled={!can("canEdit")}
+                      rows={3}
+                    />
+                  </div>
+                  {can("canEdit") && (
+                    <Button variant="outline" onClick={saveReview} disabled={isSavingReview}>
+                      {isSavingReview && (
+                        <Loader2 className={cn(iconClass, "animate-spin")} />
+                      )}
+                      {t.saveReview}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Create / edit dialog */}
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? t.editTitle : t.addTitle}</DialogTitle>
+            {!editing && <DialogDescription>{t.formDesc}</DialogDescription>}
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2 md:col-span-2">
+              <Label>{t.titleLabel}</Label>
+              <Input
+                value={draft.title}
+                onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label>{t.descriptionLabel}</Label>
+              <Textarea
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                rows={3}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>{t.categoryLabel}</Label>
+              <Select
+                value={draft.category}
+                onValueChange={(v) =>
+                  setDraft({ ...draft, category: v as BackendIncidentCategory })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CATEGORIES.map((category) => (
+                    <SelectItem key={category} value={category}>
+                      {categoryLabels[category]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{t.severityLabel}</Label>
+              <Select
+                value={draft.severity}
+                onValueChange={(v) =>
+                  setDraft({ ...draft, severity: v as Incident["severity"] })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SEVERITIES.map((severity) => (
+                    <SelectItem key={severity} value={severity}>
+                      {strings.risks.levels?.[
+                        severity as keyof typeof strings.risks.levels
+                      ] ?? severity}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{t.riskLabel}</Label>
+              <Select
+                value={draft.riskId ? String(draft.riskId) : "none"}
+                onValueChange={(v) =>
+                  setDraft({ ...draft, riskId: v === "none" ? 0 : Number(v) })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">{t.noRisk}</SelectItem>
+                  {risks.map((risk) => (
+                    <SelectItem
+                      key={risk.id}
+                      value={String(risk._backendId ?? extractNumericId(risk.id))}
+                    >
+                      {risk.id} - {risk.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{t.occurredLabel}</Label>
+              <Input
+                type="date"
+                value={draft.occurredAt}
+                onChange={(e) => setDraft({ ...draft, occurredAt: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>{t.assigneeLabel}</Label>
+              <Select
+                value={draft.assigneeId ? String(draft.assigneeId) : "none"}
+                onValueChange={(v) =>
+                  setDraft({ ...draft, assigneeId: v === "none" ? 0 : Number(v) })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">{t.unassigned}</SelectItem>
+                  {users.map((user) => (
+                    <SelectItem
+                      key={user.id}
+                      value={String(user._backendId ?? extractNumericId(user.id))}
+                    >
+                      {user.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{t.financialImpactLabel}</Label>
+              <Input
+                type="number"
+                value={draft.financialImpact}
+                onChange={(e) =>
+                  setDraft({ ...draft, financialImpact: e.target.value })
+                }
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label>{t.affectedSystemsLabel}</Label>
+              <Input
+                value={draft.affectedSystems}
+                onChange={(e) =>
+                  setDraft({ ...draft, affectedSystems: e.target.value })
+                }
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label>{t.impactLabel}</Label>
+              <Textarea
+                value={draft.impactDescription}
+                onChange={(e) =>
+                  setDraft({ ...draft, impactDescription: e.target.value })
+                }
+                rows={2}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsFormOpen(false)}>
+              {strings.actions.cancel}
+            </Button>
+            <Button onClick={save} disabled={isSaving}>
+              {isSaving && <Loader2 className={cn(iconClass, "animate-spin")} />}
+              {strings.actions.save}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete confirmation */}
+      <AlertDialog open={!!toDelete} onOpenChange={(open) => !open && setToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t.deleteTitle}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {toDelete
+                ? t.deleteDesc.replace("{code}", toDelete.code ?? toDelete.id)
+                : ""}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{strings.actions.cancel}</AlertDialogCancel>
+            <AlertDialogAction onClick={remove}>{strings.actions.delete}</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default IncidentRegister;
@@ -0,0 +1,4 @@
+/**
+ * Incident Pages Export
+ */
+export { default as IncidentRegister } from "./IncidentRegister";
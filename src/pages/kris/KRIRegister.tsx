@@ -0,0 +1,1168 @@
+/**
+ * KRIRegister - Key Risk Indicator management page.
+ *
+ * Create, edit and retire KRIs, record measurements and follow each
+ * indicator's history against its yellow/red thresholds.
+ */
+import React, { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { StatusBadge } from "@/components/common/StatusBadge";
+import { PageLoader } from "@/components/common/Loader";
+import { useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { queryKeys, useKRIs, useRisks, useUsers } from "@/hooks/queries";
+import { useAuth } from "@/auth/authContext";
+import { kriApi, extractNumericId } from "@/api";
+import type { KRIInput } from "@/api/kriApi";
+import type { KRI, KRIMeasurement } from "@/types";
+import type { BackendKRIFrequency } from "@/types/backend";
+import { BACKEND_KRI_FREQUENCIES } from "@/utils/constants";
+import { useI18n } from "@/i18n";
+import { cn } from "@/lib/utils";
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+} from "recharts";
+import {
+  Plus,
+  Pencil,
+  Archive,
+  ArchiveRestore,
+  RefreshCw,
+  LineChart as LineChartIcon,
+  ClipboardPlus,
+  Clock,
+  Loader2,
+} from "lucide-react";
+
+// ===========================================
+// Helper Functions
+// ===========================================
+
+type ActiveFilter = "active" | "retired" | "all";
+
+type KRIDraft = Omit<KRIInput, "targetValue" | "thresholdYellow" | "thresholdRed"> & {
+  targetValue: string;
+  thresholdYellow: string;
+  thresholdRed: string;
+};
+
+const emptyDraft = (): KRIDraft => ({
+  metricName: "",
+  description: "",
+  riskId: undefined,
+  ownerId: undefined,
+  targetValue: "",
+  thresholdYellow: "",
+  thresholdRed: "",
+  isHigherBetter: false,
+  measurementFrequency: "monthly",
+  nextMeasurementDate: "",
+  unit: "",
+  formatType: "number",
+  notes: "",
+});
+
+const toNumber = (value: string): number | undefined => {
+  if (value.trim() === "") return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+};
+
+const todayISO = () => new Date().toISOString().split("T")[0];
+
+/** Whole days between the next measurement date and today (0 = due today). */
+const daysOverdue = (kri: KRI): number | null => {
+  if (kri.isActive === false || !kri.nextMeasurementDate) return null;
+  const due = new Date(`${kri.nextMeasurementDate}T00:00:00Z`).getTime();
+  const today = new Date(`${todayISO()}T00:00:00Z`).getTime();
+  const days = Math.round((today - due) / 86_400_000);
+  return days >= 0 ? days : null;
+};
+
+const formatValue = (kri: KRI, value?: number) => {
+  if (value === undefined || value === null) return "-";
+  if (kri.formatType === "percentage") return `${value}%`;
+  const formatted =
+    kri.formatType === "currency" ? value.toLocaleString() : String(value);
+  return kri.unit ? `${formatted} ${kri.unit}` : formatted;
+};
+
+// ===========================================
+// Main Component
+// ===========================================
+
+const KRIRegister: React.FC = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { can } = useAuth();
+  const { strings, isRTL, language } = useI18n();
+  const t = strings.krisPage;
+
+  const krisQuery = useKRIs();
+  const risksQuery = useRisks();
+  const { data: owners = [] } = useUsers(
+    { perPage: 100 },
+    { enabled: can("canEdit") || can("canCreate") }
+  );
+  const kris = useMemo(() => krisQuery.data ?? [], [krisQuery.data]);
+  const risks = risksQuery.data ?? [];
+
+  const [refreshing, setRefreshing] = useState(false);
+  const [search, setSearch] = useState("");
+  const [activeFilter, setActiveFilter] = useState<ActiveFilter>("active");
+
+  const [selected, setSelected] = useState<KRI | null>(null);
+  const [history, setHistory] = useState<KRIMeasurement[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editing, setEditing] = useState<KRI | null>(null);
+  const [draft, setDraft] = useState<KRIDraft>(emptyDraft());
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [recording, setRecording] = useState<KRI | null>(null);
+  const [recordValue, setRecordValue] = useState("");
+  const [recordNotes, setRecordNotes] = useState("");
+  const [isRecording, setIsRecording] = useState(false);
+
+  const [toRetire, setToRetire] = useState<KRI | null>(null);
+
+  const frequencyLabels: Record<BackendKRIFrequency, string> = {
+    daily: t.frequencyDaily,
+    weekly: t.frequencyWeekly,
+    monthly: t.frequencyMonthly,
+    quarterly: t.frequencyQuarterly,
+    annually: t.frequencyAnnually,
+  };
+
+  const statusLabels: Record<KRI["status"], string> = {
+    green: t.statusGreen,
+    yellow: t.statusYellow,
+    red: t.statusRed,
+  };
+
+  // Refetch the shared register so the dashboard's copy updates as well.
+  const refresh = async () => {
+    await queryClient.invalidateQueries({ queryKey: queryKeys.kris.all });
+    return queryClient.getQueryData<KRI[]>(queryKeys.kris.list()) ?? [];
+  };
+
+  const loadHistory = async (kri: KRI) => {
+    setHistoryLoading(true);
+    try {
+      setHistory(await kriApi.getValues(kri._backendId ?? extractNumericId(kri.id)));
+    } finally {
+      setHistoryLoading(false);
+    }
+  };
+
+  const loadFailed = krisQuery.isError || risksQuery.isError;
+  useEffect(() => {
+    if (!loadFailed) return;
+    toast({
+      title: t.loadFailed,
+      description: strings.common.pleaseTryAgain,
+      variant: "destructive",
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loadFailed]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    try {
+      const data = await refresh();
+      if (selected) {
+        const next = data.find((k) => k.id === selected.id) ?? null;
+        setSelected(next);
+        if (next) await loadHistory(next);
+      }
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const riskTitle = (kri: KRI) =>
+    risks.find((r) => r.id === kri.riskId)?.title ?? kri.riskId ?? "-";
+
+  const filtered = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    return kris
+      .filter((k) =>
+        activeFilter === "all"
+          ? true
+          : activeFilter === "active"
+            ? k.isActive !== false
+            : k.isActive === false
+      )
+      .filter(
+        (k) =>
+          !q ||
+          k.metricName.toLowerCase().includes(q) ||
+          (k.code ?? k.id).toLowerCase().includes(q) ||
+          (k.owner ?? "").toLowerCase().includes(q)
+      );
+  }, [kris, search, activeFilter]);
+
+  const activeKris = useMemo(
+    () => kris.filter((k) => k.isActive !== false),
+    [kris]
+  );
+
+  const overdue = useMemo(
+    () =>
+      activeKris
+        .map((kri) => ({ kri, days: daysOverdue(kri) }))
+        .filter((o) => o.days !== null)
+        .sort((a, b) => b.days - a.days),
+    [activeKris]
+  );
+
+  const chartData = useMemo(
+    () =>
+      history.map((m) => ({
+        date: new Date(m.recordedAt).toLocaleDateString(
+          language === "ar" ? "ar-SA" : "en-US",
+          { month: "short", day: "numeric", year: "2-digit" }
+        ),
+        value: m.value,
+      })),
+    [history, language]
+  );
+
+  // ===========================================
+  // Handlers
+  // ===========================================
+
+  const selectKri = (kri: KRI) => {
+    setSelected(kri);
+    void loadHistory(kri);
+  };
+
+  const openAdd = () => {
+    setEditing(null);
+    setDraft(emptyDraft());
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (kri: KRI) => {
+    setEditing(kri);
+    setDraft({
+      metricName: kri.metricName,
+      description: kri.description ?? "",
+      riskId: kri._backendRiskId,
+      ownerId: kri._ownerId,
+      targetValue: kri.targetValue !== undefined ? String(kri.targetValue) : "",
+      thresholdYellow:
+        kri.thresholdYellow !== undefined && kri.thresholdYellow !== null
+          ? String(kri.thresholdYellow)
+          : "",
+      thresholdRed:
+        kri.thresholdRed !== undefined && kri.thresholdRed !== null
+          ? String(kri.thresholdRed)
+          : "",
+      isHigherBetter: kri.isHigherBetter ?? false,
+      measurementFrequency: kri.measurementFrequency ?? "monthly",
+      nextMeasurementDate: kri.nextMeasurementDate ?? "",
+      unit: kri.unit ?? "",
+      formatType: kri.formatType ?? "number",
+      notes: kri.notes ?? "",
+    });
+    setIsFormOpen(true);
+  };
+
+  const save = async () => {
+    if (!draft.metricName.trim()) {
+      toast({ title: t.missingName, variant: "destructive" });
+      return;
+    }
+
+    const thresholdYellow = toNumber(draft.thresholdYellow);
+    const thresholdRed = toNumber(draft.thresholdRed);
+    if (thresholdYellow !== undefined && thresholdRed !== undefined) {
+      const ordered = draft.isHigherBetter
+        ? thresholdRed < thresholdYellow
+        : thresholdRed > thresholdYellow;
+      if (!ordered) {
+        toast({
+          title: draft.isHigherBetter
+            ? t.thresholdOrderHigher
+            : t.thresholdOrderLower,
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    if (editing) {
+      if (!can("canEdit")) {
+        toast({
+          title: strings.common.notAllowed,
+          description: t.noPermissionEdit,
+          variant: "destructive",
+        });
+        return;
+      }
+    } else if (!can("canCreate")) {
+      toast({
+        title: strings.common.notAllowed,
+        description: t.noPermissionCreate,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const input: KRIInput = {
+      ...draft,
+      metricName: draft.metricName.trim(),
+      targetValue: toNumber(draft.targetValue),
+      thresholdYellow,
+      thresholdRed,
+    };
+
+    setIsSaving(true);
+    try {
+      if (editing) {
+        const updated = await kriApi.update(
+          editing._backendId ?? extractNumericId(editing.id),
+          input
+        );
+        if (selected?.id === updated.id) setSelected(updated);
+        toast({ title: t.updated });
+      } else {
+        await kriApi.create(input);
+        toast({ title: t.created });
+      }
+      setIsFormOpen(false);
+      await refresh();
+    } catch (error) {
+      toast({
+        title: t.saveFailed,
+        description:
+          error instanceof Error ? error.message : strings.common.pleaseTryAgain,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const openRecord = (kri: KRI) => {
+    setRecording(kri);
+    setRecordValue("");
+    setRecordNotes("");
+  };
+
+  const submitRecord = async () => {
+    if (!recording) return;
+    if (!can("canEdit")) {
+      toast({
+        title: strings.common.notAllowed,
+        description: t.noPermissionEdit,
+        variant: "destructive",
+      });
+      return;
+    }
+    const value = toNumber(recordValue);
+    if (value === undefined) {
+      toast({ title: t.invalidValue, variant: "destructive" });
+      return;
+    }
+
+    setIsRecording(true);
+    try {
+      const updated = await kriApi.updateValue(
+        recording._backendId ?? extractNumericId(recording.id),
+        value,
+        recordNotes.trim() || undefined
+      );
+      if (!updated) {
+        toast({
+          title: t.recordFailed,
+          description: strings.common.pleaseTryAgain,
+          variant: "destructive",
+        });
+        return;
+      }
+      toast({
+        title: updated.status === "red" ? t.breached : t.recorded,
+        variant: updated.status === "red" ? "destructive" : undefined,
+      });
+      setRecording(null);
+      await refresh();
+      setSelected(updated);
+      await loadHistory(updated);
+    } finally {
+      setIsRecording(false);
+    }
+  };
+
+  const retire = async () => {
+    if (!toRetire) return;
+    if (!can("canDelete")) {
+      toast({
+        title: strings.common.notAllowed,
+        description: t.noPermissionRetire,
+        variant: "destructive",
+      });
+      return;
+    }
+    try {
+      await kriApi.retire(toRetire._backendId ?? extractNumericId(toRetire.id));
+      toast({ title: t.retiredToast });
+      setToRetire(null);
+      await refresh();
+    } catch (error) {
+      toast({
+        title: t.saveFailed,
+        description:
+          error instanceof Error ? error.message : strings.common.pleaseTryAgain,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const reactivate = async (kri: KRI) => {
+    if (!can("canEdit")) {
+      toast({
+        title: strings.common.notAllowed,
+        description: t.noPermissionEdit,
+        variant: "destructive",
+      });
+      return;
+    }
+    try {
+      await kriApi.reactivate(kri._backendId ?? extractNumericId(kri.id));
+      toast({ title: t.reactivatedToast });
+      await refresh();
+    } catch (error) {
+      toast({
+        title: t.saveFailed,
+        description:
+          error instanceof Error ? error.message : strings.common.pleaseTryAgain,
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (krisQuery.isLoading || risksQuery.isLoading) return <PageLoader />;
+
+  const iconClass = isRTL ? "ml-2 h-4 w-4" : "mr-2 h-4 w-4";
+
+  return (
+    <div className="space-y-6 animate-in">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">{t.title}</h1>
+          <p className="text-sm text-muted-foreground">{t.subtitle}</p>
+        </div>
+
+        <div className={cn("flex flex-wrap gap-2", isRTL ? "sm:flex-row-reverse" : "")}>
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t.searchPlaceholder}
+            className="sm:w-[220px]"
+          />
+          <Select
+            value={activeFilter}
+            onValueChange={(v) => setActiveFilter(v as ActiveFilter)}
+          >
+            <SelectTrigger className="w-[130px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="active">{t.filterActive}</SelectItem>
+              <SelectItem value="retired">{t.filterRetired}</SelectItem>
+              <SelectItem value="all">{t.filterAll}</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={handleRefresh} disabled={refreshing}>
+            <RefreshCw className={cn(iconClass, refreshing && "animate-spin")} />
+            {t.refresh}
+          </Button>
+          {can("canCreate") && (
+            <Button onClick={openAdd}>
+              <Plus className={iconClass} />
+              {strings.actions.add}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        <Card className="glass-card">
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">{t.totalActive}</p>
+            <p className="text-2xl font-bold">{activeKris.length}</p>
+          </CardContent>
+        </Card>
+        {(["green", "yellow", "red"] as const).map((status) => (
+          <Card key={status} className={cn("glass-card border", `kri-${status}`)}>
+            <CardContent className="p-4">
+              <p className="text-sm">{statusLabels[status]}</p>
+              <p className="text-2xl font-bold">
+                {activeKris.filter((k) => k.status === status).length}
+              </p>
+            </CardContent>
+          </Card>
+        ))}
+        <Card className="glass-card">
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">{t.overdueCount}</p>
+            <p
+              className={cn(
+                "text-2xl font-bold",
+                overdue.length > 0 && "text-status-danger"
+              )}
+            >
+              {overdue.length}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Overdue measurements */}
+      {overdue.length > 0 && (
+        <Card className="glass-card border-status-danger/30">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Clock className="h-5 w-5 text-status-danger" />
+              {t.overdueTitle.replace("{count}", String(overdue.length))}
+            </CardTitle>
+            <CardDescription>{t.overdueDesc}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {overdue.map(({ kri, days }) => (
+              <div
+                key={kri.id}
+                className="flex items-center justify-between gap-4 rounded-lg border border-border p-3"
+              >
+                <div className="min-w-0">
+                  <p className="font-medium truncate">
+                    <span className="font-mono text-xs text-muted-foreground">
+                      {kri.code ?? kri.id}
+                    </span>{" "}
+                    {kri.metricName}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {kri.nextMeasurementDate} ·{" "}
+                    {days === 0
+                      ? t.dueToday
+                      : t.daysOverdue.replace("{days}", String(days))}
+                    {kri.owner ? ` · ${kri.owner}` : ""}
+                  </p>
+                </div>
+                {can("canEdit") && (
+                  <Button size="sm" variant="outline" onClick={() => openRecord(kri)}>
+                    <ClipboardPlus className={iconClass} />
+                    {t.record}
+                  </Button>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Register */}
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle>{t.registerTitle}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {filtered.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t.noKris}</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t.colCode}</TableHead>
+                    <TableHead>{t.colName}</TableHead>
+                    <TableHead>{t.colRisk}</TableHead>
+                    <TableHead>{t.colValue}</TableHead>
+                    <TableHead>{t.colThresholds}</TableHead>
+                    <TableHead>{t.colStatus}</TableHead>
+                    <TableHead>{t.colFrequency}</TableHead>
+                    <TableHead>{t.colNextDue}</TableHead>
+                    <TableHead className="text-end">{t.colActions}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filtered.map((kri) => {
+                    const late = daysOverdue(kri);
+                    return (
+                      <TableRow
+                        key={kri.id}
+                        className={cn(
+                          "cursor-pointer",
+                          selected?.id === kri.id && "bg-muted/50",
+                          kri.isActive === false && "opacity-60"
+                        )}
+                        onClick={() => selectKri(kri)}
+                      >
+                        <TableCell className="font-mono text-xs">
+                          {kri.code ?? kri.id}
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium">{kri.metricName}</div>
+                          {kri.owner && (
+                            <div className="text-xs text-muted-foreground">
+                              {kri.owner}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {kri.riskId ? (
+                            <Link
+                              to={`/risks/${kri.riskId}`}
+                              className="text-primary hover:underline"
+                              onClick={(e) => e.stopPropagation()}
+                            >
+                              {riskTitle(kri)}
+                            </Link>
+                          ) : (
+                            "-"
+                          )}
+                        </TableCell>
+                        <TableCell>{formatValue(kri, kri.value)}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {formatValue(kri, kri.thresholdYellow)} /{" "}
+                          {formatValue(kri, kri.thresholdRed)}
+                        </TableCell>
+                        <TableCell>
+                          {kri.isActive === false ? (
+                            <Badge variant="outline">{t.retired}</Badge>
+                          ) : (
+                            <StatusBadge status={kri.status}>
+                              {statusLabels[kri.status]}
+                            </StatusBadge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {kri.measurementFrequency
+                            ? frequencyLabels[kri.measurementFrequency]
+                            : "-"}
+                        </TableCell>
+                        <TableCell
+                          className={cn(
+                            "text-sm",
+                            late !== null && "text-status-danger font-medium"
+                          )}
+                        >
+                          {kri.nextMeasurementDate ?? "-"}
+                        </TableCell>
+                        <TableCell>
+                          <div
+                            className="flex items-center justify-end gap-1"
+                            onClick={(e) => e.stopPropagation()}
+                          >
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              title={t.history}
+                              onClick={() => selectKri(kri)}
+                            >
+                              <LineChartIcon className="h-4 w-4" />
+                            </Button>
+                            {can("canEdit") && kri.isActive !== false && (
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                title={t.record}
+                                onClick={() => openRecord(kri)}
+                              >
+                                <ClipboardPlus className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {can("canEdit") && (
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                title={strings.actions.edit}
+                                onClick={() => openEdit(kri)}
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {kri.isActive === false
+                              ? can("canEdit") && (
+                                  <Button
+                                    size="icon"
+                                    variant="ghost"
+                                    title={t.reactivate}
+                                    onClick={() => void reactivate(kri)}
+                                  >
+                                    <ArchiveRestore className="h-4 w-4" />
+                                  </Button>
+                                )
+                              : can("canDelete") && (
+                                  <Button
+                                    size="icon"
+                                    variant="ghost"
+                                    title={t.retire}
+                                    onClick={() => setToRetire(kri)}
+                                  >
+                                    <Archive className="h-4 w-4" />
+                                  </Button>
+                                )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Measurement history */}
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle>
+            {selected
+              ? t.historyTitle.replace("{name}", selected.metricName)
+              : t.history}
+          </CardTitle>
+          <CardDescription>{selected ? t.historyDesc : t.selectHint}</CardDescription>
+        </CardHeader>
+        {selected && (
+          <CardContent className="space-y-6">
+            {historyLoading ? (
+              <div className="flex justify-center py-10">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : history.length === 0 ? (
+              <p className="text-sm text-muted-foreground">{t.noHistory}</p>
+            ) : (
+              <>
+                <div className="h-[300px]" dir="ltr">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={chartData}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                      <XAxis dataKey="date" stroke="hsl(var(--muted-foreground))" fontSize={12} />
+                      <YAxis
+                        stroke="hsl(var(--muted-foreground))"
+                        fontSize={12}
+                        domain={["auto", "auto"]}
+                      />
+                      <Tooltip
+                        contentStyle={{
+                          backgroundColor: "hsl(var(--card))",
+                          border: "1px solid hsl(var(--border))",
+                          borderRadius: "8px",
+                        }}
+                      />
+                      {selected.thresholdYellow !== undefined &&
+                        selected.thresholdYellow !== null && (
+                          <ReferenceLine
+                            y={selected.thresholdYellow}
+                            stroke="hsl(var(--status-warning))"
+                            strokeDasharray="6 4"
+                            label={{
+                              value: t.yellowThreshold,
+                              fill: "hsl(var(--status-warning))",
+                              fontSize: 11,
+                              position: "insideTopRight",
+                            }}
+                          />
+                        )}
+                      {selected.thresholdRed !== undefined &&
+                        selected.thresholdRed !== null && (
+                          <ReferenceLine
+                            y={selected.thresholdRed}
+                            stroke="hsl(var(--status-danger))"
+                            strokeDasharray="6 4"
+                            label={{
+                              value: t.redThreshold,
+                              fill: "hsl(var(--status-danger))",
+                              fontSize: 11,
+                              position: "insideTopRight",
+                            }}
+                          />
+                        )}
+                      {selected.targetValue !== undefined && (
+                        <ReferenceLine
+                          y={selected.targetValue}
+                          stroke="hsl(var(--status-success))"
+                          strokeDasharray="2 4"
+                          label={{
+                            value: t.target,
+                            fill: "hsl(var(--status-success))",
+                            fontSize: 11,
+                            position: "insideBottomRight",
+                          }}
+                        />
+                      )}
+                      <Line
+                        type="monotone"
+                        dataKey="value"
+                        name={t.value}
+                        stroke="hsl(var(--primary))"
+                        strokeWidth={2}
+                        dot={{ r: 4 }}
+                      />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{t.colRecordedAt}</TableHead>
+                        <TableHead>{t.value}</TableHead>
+                        <TableHead>{t.colStatus}</TableHead>
+                        <TableHead>{t.colRecordedBy}</TableHead>
+                        <TableHead>{t.colNotes}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {[...history].reverse().map((m) => (
+                        <TableRow key={m.id}>
+                          <TableCell className="text-sm">
+                            {new Date(m.recordedAt).toLocaleString(
+                              language === "ar" ? "ar-SA" : "en-US"
+                            )}
+                          </TableCell>
+                          <TableCell>{formatValue(selected, m.value)}</TableCell>
+                          <TableCell>
+                            <StatusBadge status={m.status}>
+                              {statusLabels[m.status]}
+                            </StatusBadge>
+                          </TableCell>
+                          <TableCell className="text-sm">{m.recordedBy ?? "-"}</TableCell>
+                          <TableCell className="text-sm text-muted-foreground">
+                            {m.notes ?? "-"}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </>
+            )}
+          </CardContent>
+        )}
+      </Card>
+
+      {/* Create / edit dialog */}
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? t.editTitle : t.addTitle}</DialogTitle>
+            <DialogDescription>{t.formDesc}</DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2 md:col-span-2">
+              <Label>{t.nameLabel}</Label>
+              <Input
+                value={draft.metricName}
+                onChange={(e) => setDraft({ ...draft, metricName: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label>{t.descriptionLabel}</Label>
+              <Textarea
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                rows={2}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>{t.riskLabel}</Label>
+              <Select
+                value={draft.riskId ? String(draft.riskId) : "none"}
+                onValueChange={(v) =>
+                  setDraft({ ...draft, riskId: v === "none" ? 0 : Number(v) })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">{t.noRisk}</SelectItem>
+                  {risks.map((risk) => (
+                    <SelectItem
+                      key={risk.id}
+                      value={String(risk._backendId ?? extractNumericId(risk.id))}
+                    >
+                      {risk.id} - {risk.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{t.ownerLabel}</Label>
+              <Select
+                value={draft.ownerId ? String(draft.ownerId) : "none"}
+                onValueChange={(v) =>
+                  setDraft({ ...draft, ownerId: v === "none" ? 0 : Number(v) })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">{t.noOwner}</SelectItem>
+                  {owners.map((user) => (
+                    <SelectItem
+                      key={user.id}
+                      value={String(user._backendId ?? extractNumericId(user.id))}
+                    >
+                      {user.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{t.directionLabel}</Label>
+              <Select
+                value={draft.isHigherBetter ? "higher" : "lower"}
+                onValueChange={(v) =>
+                  setDraft({ ...draft, isHigherBetter: v === "higher" })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="lower">{t.lowerBetter}</SelectItem>
+                  <SelectItem value="higher">{t.higherBetter}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{t.targetLabel}</Label>
+              <Input
+                type="number"
+                value={draft.targetValue}
+                onChange={(e) => setDraft({ ...draft, targetValue: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>{t.yellowThreshold}</Label>
+              <Input
+                type="number"
+                value={draft.thresholdYellow}
+                onChange={(e) =>
+                  setDraft({ ...draft, thresholdYellow: e.target.value })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>{t.redThreshold}</Label>
+              <Input
+                type="number"
+                value={draft.thresholdRed}
+                onChange={(e) => setDraft({ ...draft, thresholdRed: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>{t.frequencyLabel}</Label>
+              <Select
+                value={draft.measurementFrequency}
+                onValueChange={(v) =>
+                  setDraft({
+                    ...draft,
+                    measurementFrequency: v as BackendKRIFrequency,
+                  })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BACKEND_KRI_FREQUENCIES.map((f) => (
+                    <SelectItem key={f} value={f}>
+                      {frequencyLabels[f]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{t.nextDateLabel}</Label>
+              <Input
+                type="date"
+                value={draft.nextMeasurementDate}
+                onChange={(e) =>
+                  setDraft({ ...draft, nextMeasurementDate: e.target.value })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>{t.formatLabel}</Label>
+              <Select
+                value={draft.formatType}
+                onValueChange={(v) =>
+                  setDraft({ ...draft, formatType: v as KRI["formatType"] })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="number">{t.formatNumber}</SelectItem>
+                  <SelectItem value="percentage">{t.formatPercentage}</SelectItem>
+                  <SelectItem value="currency">{t.formatCurrency}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{t.unitLabel}</Label>
+              <Input
+                value={draft.unit}
+                onChange={(e) => setDraft({ ...draft, unit: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label>{t.notesLabel}</Label>
+              <Textarea
+                value={draft.notes}
+                onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                rows={2}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsFormOpen(false)}>
+              {strings.actions.cancel}
+            </Button>
+            <Button onClick={save} disabled={isSaving}>
+              {isSaving && <Loader2 className={cn(iconClass, "animate-spin")} />}
+              {strings.actions.save}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Record measurement dialog */}
+      <Dialog open={!!recording} onOpenChange={(open) => !open && setRecording(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t.recordTitle}</DialogTitle>
+            <DialogDescription>
+              {recording ? t.recordDesc.replace("{name}", recording.metricName) : ""}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>
+                {t.value}
+                {recording?.unit ? ` (${recording.unit})` : ""}
+              </Label>
+              <Input
+                type="number"
+                value={recordValue}
+                onChange={(e) => setRecordValue(e.target.value)}
+                autoFocus
+              />
+              {recording && (
+                <p className="text-xs text-muted-foreground">
+                  {t.yellowThreshold}: {formatValue(recording, recording.thresholdYellow)} ·{" "}
+                  {t.redThreshold}: {formatValue(recording, recording.thresholdRed)}
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>{t.notesLabel}</Label>
+              <Textarea
+                value={recordNotes}
+                onChange={(e) => setRecordNotes(e.target.value)}
+                rows={3}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRecording(null)}>
+              {strings.actions.cancel}
+            </Button>
+            <Button onClick={submitRecord} disabled={isRecording}>
+              {isRecording && <Loader2 className={cn(iconClass, "animate-spin")} />}
+              {t.record}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Retire confirmation */}
+      <AlertDialog open={!!toRetire} onOpenChange={(open) => !open && setToRetire(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t.retireTitle}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {toRetire ? t.retireDesc.replace("{name}", toRetire.metricName) : ""}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{strings.actions.cancel}</AlertDialogCancel>
+            <AlertDialogAction onClick={retire}>{t.retire}</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default KRIRegister;
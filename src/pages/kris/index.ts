@@ -0,0 +1,4 @@
+/**
+ * KRI Pages Export
+ */
+export { default as KRIRegister } from "./KRIRegister";
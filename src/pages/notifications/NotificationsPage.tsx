@@ -80,6 +80,7 @@ const getTypeColor = (type: NotificationType): string => {
     risk_escalation: "bg-red-100 text-red-800",
     appetite_exceeded: "bg-orange-100 text-orange-800",
     treatment_due: "bg-yellow-100 text-yellow-800",
+    control_test_overdue: "bg-amber-100 text-amber-800",
     assessment_required: "bg-purple-100 text-purple-800",
     system_alert: "bg-gray-100 text-gray-800",
     committee_decision: "bg-green-100 text-green-800",
@@ -604,6 +605,9 @@ const NotificationsTable: React.FC<NotificationsTableProps> = ({
               <SelectItem value="treatment_due">
                 {strings.notificationsPage.types.treatment_due}
               </SelectItem>
+              <SelectItem value="control_test_overdue">
+                {strings.notificationsPage.types.control_test_overdue}
+              </SelectItem>
               <SelectItem value="system_alert">
                 {strings.notificationsPage.types.system_alert}
               </SelectItem>
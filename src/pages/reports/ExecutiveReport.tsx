@@ -8,18 +8,26 @@ import { StatusBadge } from "@/components/common/StatusBadge";
 import { riskApi } from "@/api";
 import type { Risk } from "@/types";
 import { useI18n } from "@/i18n";
+import { useAuth } from "@/auth/authContext";
+import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
+import { exportExecutiveReportPdf } from "@/utils/riskReportPdf";
 import {
   AlertTriangle,
   CheckCircle,
   Clock,
+  FileDown,
   FileText,
+  Loader2,
   Shield,
 } from "lucide-react";
 
 const ExecutiveReport: React.FC = () => {
   const { strings, isRTL } = useI18n();
+  const { user, can } = useAuth();
+  const { toast } = useToast();
   const [loading, setLoading] = React.useState(true);
+  const [exportingPdf, setExportingPdf] = React.useState(false);
   const [risks, setRisks] = React.useState<Risk[]>([]);
 
   React.useEffect(() => {
@@ -45,6 +53,27 @@ const ExecutiveReport: React.FC = () => {
     .sort((a, b) => (b.score ?? 0) - (a.score ?? 0))
     .slice(0, 5);
 
+  const downloadPdf = async () => {
+    if (!can("canExport")) return;
+    setExportingPdf(true);
+    try {
+      await exportExecutiveReportPdf(risks, {
+        strings,
+        isRTL,
+        preparedBy: user?.name,
+      });
+    } catch (error) {
+      toast({
+        title: strings.reports.pdfFailedTitle,
+        description:
+          error instanceof Error ? error.message : strings.common.pleaseTryAgain,
+        variant: "destructive",
+      });
+    } finally {
+      setExportingPdf(false);
+    }
+  };
+
   if (loading) return <PageLoader text={strings.common.loading} />;
 
   return (
@@ -63,6 +92,20 @@ const ExecutiveReport: React.FC = () => {
             <FileText className="h-4 w-4 me-2" />
             {strings.reports.print}
           </Button>
+          <Button
+            variant="outline"
+            onClick={downloadPdf}
+            disabled={!can("canExport") || exportingPdf}
+          >
+            {exportingPdf ? (
+              <Loader2 className="h-4 w-4 me-2 animate-spin" />
+            ) : (
+              <FileDown className="h-4 w-4 me-2" />
+            )}
+            {exportingPdf
+              ? strings.reports.generatingPdf
+              : strings.reports.downloadPdf}
+          </Button>
           <Button asChild>
             <Link to="/reports/custom">{strings.reports.customReport}</Link>
           </Button>
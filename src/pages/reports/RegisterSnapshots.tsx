@@ -0,0 +1,706 @@
+/**
+ * RegisterSnapshots - Named point-in-time copies of the risk register.
+ *
+ * Any two snapshots can be compared for risks added or removed, score
+ * movements, owner changes and status changes, and the comparison
+ * exported as CSV or PDF for the committee pack.
+ */
+import React, { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { PageLoader } from "@/components/common/Loader";
+import { EmptyState } from "@/components/common/EmptyState";
+import type { RegisterSnapshot, SnapshotRisk } from "@/api/reportApi";
+import {
+  useCreateRegisterSnapshot,
+  useDeleteRegisterSnapshot,
+  useRegisterSnapshot,
+  useRegisterSnapshots,
+} from "@/hooks/queries";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/auth/authContext";
+import { diffSnapshots } from "@/utils/snapshotDiff";
+import {
+  exportSnapshotDiffCsv,
+  exportSnapshotDiffPdf,
+} from "@/utils/snapshotDiffExport";
+import { useI18n } from "@/i18n";
+import {
+  ArrowDown,
+  ArrowRight,
+  ArrowUp,
+  Camera,
+  FileDown,
+  FileText,
+  Loader2,
+  Trash2,
+} from "lucide-react";
+
+interface MovementSectionProps {
+  title: string;
+  count: number;
+  className?: string;
+  children: React.ReactNode;
+}
+
+const MovementSection: React.FC<MovementSectionProps> = ({
+  title,
+  count,
+  className,
+  children,
+}) =>
+  count === 0 ? null : (
+    <div className="space-y-2">
+      <p className={`text-sm font-medium ${className ?? ""}`}>
+        {title} ({count})
+      </p>
+      <div className="rounded-lg border border-border overflow-x-auto">
+        {children}
+      </div>
+    </div>
+  );
+
+const Delta: React.FC<{ value: number }> = ({ value }) =>
+  value === 0 ? (
+    <span className="text-muted-foreground">—</span>
+  ) : value > 0 ? (
+    <span className="inline-flex items-center gap-1 text-status-critical">
+      <ArrowUp className="h-3 w-3" />+{value}
+    </span>
+  ) : (
+    <span className="inline-flex items-center gap-1 text-status-success">
+      <ArrowDown className="h-3 w-3" />
+      {value}
+    </span>
+  );
+
+const RegisterSnapshots: React.FC = () => {
+  const { strings, isRTL } = useI18n();
+  const t = strings.reports.snapshots;
+  const { can, user } = useAuth();
+  const { toast } = useToast();
+  const locale = isRTL ? "ar-SA" : "en-US";
+
+  const snapshotsQuery = useRegisterSnapshots();
+  const createSnapshot = useCreateRegisterSnapshot();
+  const deleteSnapshot = useDeleteRegisterSnapshot();
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [draft, setDraft] = useState({ name: "", description: "" });
+  const [toDelete, setToDelete] = useState<RegisterSnapshot | null>(null);
+  const [baselineId, setBaselineId] = useState<number>();
+  const [comparisonId, setComparisonId] = useState<number>();
+  const [exporting, setExporting] = useState<"csv" | "pdf" | null>(null);
+
+  const snapshots = useMemo(() => snapshotsQuery.data ?? [], [snapshotsQuery.data]);
+
+  // Default to the latest snapshot against the one before it, and drop
+  // selections that no longer exist after a delete.
+  useEffect(() => {
+    const ids = snapshots.map((s) => s.id);
+    if (!comparisonId || !ids.includes(comparisonId)) {
+      setComparisonId(ids[0]);
+    }
+    if (!baselineId || !ids.includes(baselineId)) {
+      setBaselineId(ids[1]);
+    }
+  }, [snapshots, baselineId, comparisonId]);
+
+  const baselineQuery = useRegisterSnapshot(baselineId);
+  const comparisonQuery = useRegisterSnapshot(comparisonId);
+  const baseline = baselineQuery.data;
+  const comparison = comparisonQuery.data;
+  const isSameSnapshot = !!baselineId && baselineId === comparisonId;
+
+  const diff = useMemo(
+    () =>
+      baseline && comparison && !isSameSnapshot
+        ? diffSnapshots(baseline, comparison)
+        : null,
+    [baseline, comparison, isSameSnapshot]
+  );
+
+  const formatDateTime = (value: string) =>
+    new Date(value).toLocaleString(locale, {
+      dateStyle: "medium",
+      timeStyle: "short",
+    });
+  const statusLabel = (status: string) =>
+    (strings.risks.lifecycleStatuses as Record<string, string>)[status] ??
+    status;
+
+  const openCreate = () => {
+    setDraft({ name: "", description: "" });
+    setIsDialogOpen(true);
+  };
+
+  const handleCreate = async () => {
+    const name = draft.name.trim();
+    if (!name) {
+      toast({ title: t.nameRequired, variant: "destructive" });
+      return;
+    }
+    try {
+      const snapshot = await createSnapshot.mutateAsync({
+        name,
+        description: draft.description.trim() || undefined,
+      });
+      // Compare the new snapshot with the latest one taken before it
+      setBaselineId(snapshots[0]?.id);
+      setComparisonId(snapshot.id);
+      setIsDialogOpen(false);
+      toast({ title: t.taken.replace("{name}", name) });
+    } catch (error) {
+      toast({
+        title: t.takeFailed,
+        description:
+          error instanceof Error ? error.message : strings.common.pleaseTryAgain,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!toDelete) return;
+    try {
+      await deleteSnapshot.mutateAsync(toDelete.id);
+      toast({ title: t.deleted });
+    } catch (error) {
+      toast({
+        title: t.deleteFailed,
+        description:
+          error instanceof Error ? error.message : strings.common.pleaseTryAgain,
+        variant: "destructive",
+      });
+    } finally {
+      setToDelete(null);
+    }
+  };
+
+  const handleExport = async (format: "csv" | "pdf") => {
+    if (!baseline || !comparison || !diff) return;
+    setExporting(format);
+    const context = { strings, isRTL, preparedBy: user?.name };
+    try {
+      if (format === "csv") {
+        exportSnapshotDiffCsv(baseline, comparison, diff, context);
+      } else {
+        await exportSnapshotDiffPdf(baseline, comparison, diff, context);
+      }
+    } catch (error) {
+      toast({
+        title: t.exportFailed,
+        description:
+          error instanceof Error ? error.message : strings.common.pleaseTryAgain,
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  if (snapshotsQuery.isLoading) {
+    return <PageLoader text={strings.common.loading} />;
+  }
+
+  const riskCell = (risk: SnapshotRisk) => (
+    <>
+      <TableCell className="font-mono text-xs whitespace-nowrap">
+        {risk.code}
+      </TableCell>
+      <TableCell className="font-medium">{risk.title}</TableCell>
+    </>
+  );
+
+  const snapshotSelect = (
+    value: number | undefined,
+    onChange: (id: number) => void,
+    label: string
+  ) => (
+    <div className="space-y-2 flex-1">
+      <Label>{label}</Label>
+      <Select
+        value={value ? String(value) : undefined}
+        onValueChange={(id) => onChange(Number(id))}
+      >
+        <SelectTrigger>
+          <SelectValue placeholder={t.selectSnapshot} />
+        </SelectTrigger>
+        <SelectContent>
+          {snapshots.map((snapshot) => (
+            <SelectItem key={snapshot.id} value={String(snapshot.id)}>
+              {snapshot.name} — {formatDateTime(snapshot.takenAt)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  const kpis = diff
+    ? [
+        { label: t.added, value: diff.added.length, className: "text-status-success" },
+        { label: t.removed, value: diff.removed.length, className: "text-status-critical" },
+        {
+          label: t.scoreUp,
+          value: diff.scoreChanges.filter((c) => c.inherentDelta > 0).length,
+          className: "text-status-critical",
+        },
+        {
+          label: t.scoreDown,
+          value: diff.scoreChanges.filter((c) => c.inherentDelta < 0).length,
+          className: "text-status-success",
+        },
+        { label: t.ownerChanges, value: diff.ownerChanges.length },
+        { label: t.statusChanges, value: diff.statusChanges.length },
+        { label: t.unchanged, value: diff.unchanged, className: "text-muted-foreground" },
+      ]
+    : [];
+  const hasMovement =
+    !!diff &&
+    diff.added.length +
+      diff.removed.length +
+      diff.scoreChanges.length +
+      diff.ownerChanges.length +
+      diff.statusChanges.length >
+      0;
+
+  return (
+    <div className="space-y-6 animate-in">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">{t.title}</h1>
+          <p className="text-muted-foreground">{t.subtitle}</p>
+        </div>
+        {can("canCreate") && (
+          <Button onClick={openCreate}>
+            <Camera className="h-4 w-4 me-2" />
+            {t.takeSnapshot}
+          </Button>
+        )}
+      </div>
+
+      {snapshotsQuery.isError ? (
+        <EmptyState
+          title={t.loadFailed}
+          description={strings.common.pleaseTryAgain}
+        />
+      ) : snapshots.length === 0 ? (
+        <EmptyState
+          icon={Camera}
+          title={t.empty}
+          description={t.emptyHint}
+          action={
+            can("canCreate")
+              ? { label: t.takeSnapshot, onClick: openCreate }
+              : undefined
+          }
+        />
+      ) : (
+        <>
+          <Card className="glass-card">
+            <CardHeader>
+              <CardTitle className="text-base">{t.listTitle}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-lg border border-border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t.colName}</TableHead>
+                      <TableHead>{t.colTakenAt}</TableHead>
+                      <TableHead>{t.colTakenBy}</TableHead>
+                      <TableHead className="text-end">{t.colRisks}</TableHead>
+                      {can("canDelete") && (
+                        <TableHead className="text-end">
+                          {strings.table.actions}
+                        </TableHead>
+                      )}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {snapshots.map((snapshot) => (
+                      <TableRow key={snapshot.id}>
+                        <TableCell>
+                          <p className="font-medium">{snapshot.name}</p>
+                          {snapshot.description && (
+                            <p className="text-xs text-muted-foreground">
+                              {snapshot.description}
+                            </p>
+                          )}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {formatDateTime(snapshot.takenAt)}
+                        </TableCell>
+                        <TableCell>{snapshot.takenBy}</TableCell>
+                        <TableCell className="text-end">
+                          {snapshot.riskCount}
+                        </TableCell>
+                        {can("canDelete") && (
+                          <TableCell className="text-end">
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              aria-label={strings.actions.delete}
+                              onClick={() => setToDelete(snapshot)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="glass-card">
+            <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+              <CardTitle className="text-base">{t.compareTitle}</CardTitle>
+              {can("canExport") && diff && (
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={!!exporting}
+                    onClick={() => handleExport("csv")}
+                  >
+                    {exporting === "csv" ? (
+                      <Loader2 className="h-4 w-4 me-2 animate-spin" />
+                    ) : (
+                      <FileDown className="h-4 w-4 me-2" />
+                    )}
+                    {t.exportCsv}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={!!exporting}
+                    onClick={() => handleExport("pdf")}
+                  >
+                    {exporting === "pdf" ? (
+                      <Loader2 className="h-4 w-4 me-2 animate-spin" />
+                    ) : (
+                      <FileText className="h-4 w-4 me-2" />
+                    )}
+                    {t.exportPdf}
+                  </Button>
+                </div>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {snapshots.length < 2 ? (
+                <p className="text-sm text-muted-foreground">{t.needTwo}</p>
+              ) : (
+                <>
+                  <div className="flex flex-col md:flex-row md:items-end gap-4">
+                    {snapshotSelect(baselineId, setBaselineId, t.baseline)}
+                    <ArrowRight className="hidden md:block h-5 w-5 mb-2.5 text-muted-foreground rtl:rotate-180" />
+                    {snapshotSelect(comparisonId, setComparisonId, t.comparison)}
+                  </div>
+
+                  {isSameSnapshot ? (
+                    <p className="text-sm text-muted-foreground">
+                      {t.sameSnapshot}
+                    </p>
+                  ) : baselineQuery.isError || comparisonQuery.isError ? (
+                    <EmptyState
+                      title={t.compareFailed}
+                      description={strings.common.pleaseTryAgain}
+                    />
+                  ) : !diff ? (
+                    <div className="flex items-center justify-center gap-2 py-8 text-sm text-muted-foreground">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      {t.compareLoading}
+                    </div>
+                  ) : (
+                    <>
+                      <div className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-7 gap-3">
+                        {kpis.map((kpi) => (
+                          <div
+                            key={kpi.label}
+                            className="rounded-lg border border-border bg-muted/30 p-3"
+                          >
+                            <p className="text-xs text-muted-foreground">
+                              {kpi.label}
+                            </p>
+                            <p className={`text-2xl font-bold ${kpi.className ?? ""}`}>
+                              {kpi.value}
+                            </p>
+                          </div>
+                        ))}
+                      </div>
+
+                      {!hasMovement && (
+                        <p className="text-sm text-muted-foreground">
+                          {t.noMovement}
+                        </p>
+                      )}
+
+                      <MovementSection
+                        title={t.addedTitle}
+                        count={diff.added.length}
+                        className="text-status-success"
+                      >
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead>{t.colCode}</TableHead>
+                              <TableHead>{t.colRisk}</TableHead>
+                              <TableHead>{t.colOwner}</TableHead>
+                              <TableHead>{t.colStatus}</TableHead>
+                              <TableHead className="text-end">
+                                {t.colInherent}
+                              </TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {diff.added.map((risk) => (
+                              <TableRow key={risk.riskId}>
+                                {riskCell(risk)}
+                                <TableCell>{risk.owner ?? "—"}</TableCell>
+                                <TableCell>{statusLabel(risk.status)}</TableCell>
+                                <TableCell className="text-end">
+                                  {risk.inherentScore ?? "—"}
+                                </TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      </MovementSection>
+
+                      <MovementSection
+                        title={t.removedTitle}
+                        count={diff.removed.length}
+                        className="text-status-critical"
+                      >
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead>{t.colCode}</TableHead>
+                              <TableHead>{t.colRisk}</TableHead>
+                              <TableHead>{t.colOwner}</TableHead>
+                              <TableHead>{t.colStatus}</TableHead>
+                              <TableHead className="text-end">
+                                {t.colInherent}
+                              </TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {diff.removed.map((risk) => (
+                              <TableRow key={risk.riskId}>
+                                {riskCell(risk)}
+                                <TableCell>{risk.owner ?? "—"}</TableCell>
+                                <TableCell>{statusLabel(risk.status)}</TableCell>
+                                <TableCell className="text-end">
+                                  {risk.inherentScore ?? "—"}
+                                </TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      </MovementSection>
+
+                      <MovementSection
+                        title={t.scoreTitle}
+                        count={diff.scoreChanges.length}
+                        className="text-status-warning"
+                      >
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead>{t.colCode}</TableHead>
+                              <TableHead>{t.colRisk}</TableHead>
+                              <TableHead>{t.colInherent}</TableHead>
+                              <TableHead>{t.colResidual}</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {diff.scoreChanges.map((change) => (
+                              <TableRow key={change.after.riskId}>
+                                {riskCell(change.after)}
+                                <TableCell className="whitespace-nowrap">
+                                  {change.before.inherentScore ?? "—"} →{" "}
+                                  {change.after.inherentScore ?? "—"}{" "}
+                                  <Delta value={change.inherentDelta} />
+                                </TableCell>
+                                <TableCell className="whitespace-nowrap">
+                                  {change.before.residualScore ?? "—"} →{" "}
+                                  {change.after.residualScore ?? "—"}{" "}
+                                  <Delta value={change.residualDelta} />
+                                </TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      </MovementSection>
+
+                      <MovementSection
+                        title={t.ownerTitle}
+                        count={diff.ownerChanges.length}
+                      >
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead>{t.colCode}</TableHead>
+                              <TableHead>{t.colRisk}</TableHead>
+                              <TableHead>{t.colBefore}</TableHead>
+                              <TableHead>{t.colAfter}</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {diff.ownerChanges.map((change) => (
+                              <TableRow key={change.after.riskId}>
+                                {riskCell(change.after)}
+                                <TableCell className="text-muted-foreground">
+                                  {change.from || "—"}
+                                </TableCell>
+                                <TableCell>{change.to || "—"}</TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      </MovementSection>
+
+                      <MovementSection
+                        title={t.statusTitle}
+                        count={diff.statusChanges.length}
+                      >
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead>{t.colCode}</TableHead>
+                              <TableHead>{t.colRisk}</TableHead>
+                              <TableHead>{t.colBefore}</TableHead>
+                              <TableHead>{t.colAfter}</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {diff.statusChanges.map((change) => (
+                              <TableRow key={change.after.riskId}>
+                                {riskCell(change.after)}
+                                <TableCell className="text-muted-foreground">
+                                  {statusLabel(change.from)}
+                                </TableCell>
+                                <TableCell>{statusLabel(change.to)}</TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      </MovementSection>
+                    </>
+                  )}
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t.takeTitle}</DialogTitle>
+            <DialogDescription>{t.takeDesc}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="snapshot-name">{t.name}</Label>
+              <Input
+                id="snapshot-name"
+                value={draft.name}
+                placeholder={t.namePlaceholder}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="snapshot-description">{t.description}</Label>
+              <Textarea
+                id="snapshot-description"
+                rows={3}
+                value={draft.description}
+                placeholder={t.descriptionPlaceholder}
+                onChange={(e) =>
+                  setDraft({ ...draft, description: e.target.value })
+                }
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              {strings.actions.cancel}
+            </Button>
+            <Button onClick={handleCreate} disabled={createSnapshot.isPending}>
+              {createSnapshot.isPending ? (
+                <Loader2 className="h-4 w-4 me-2 animate-spin" />
+              ) : (
+                <Camera className="h-4 w-4 me-2" />
+              )}
+              {t.takeSnapshot}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog
+        open={!!toDelete}
+        onOpenChange={(open) => !open && setToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t.deleteTitle}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {toDelete && t.deleteDesc.replace("{name}", toDelete.name)}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{strings.actions.cancel}</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>
+              {strings.actions.delete}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default RegisterSnapshots;
@@ -0,0 +1,685 @@
+/**
+ * ScheduledReports - Reports sent to recipients on a fixed schedule.
+ *
+ * Schedules are kept by the backend as cron expressions; this page builds
+ * them from a daily/weekly/monthly form and lists what each one has sent.
+ */
+import React, { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { PageLoader } from "@/components/common/Loader";
+import { EmptyState } from "@/components/common/EmptyState";
+import { reportApi } from "@/api";
+import type {
+  ReportFileFormat,
+  ReportRun,
+  ScheduledReport,
+} from "@/api/reportApi";
+import {
+  useCreateScheduledReport,
+  useDeleteScheduledReport,
+  useReportHistory,
+  useReportTypes,
+  useRiskCategories,
+  useScheduledReports,
+} from "@/hooks/queries";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/auth/authContext";
+import { BACKEND_RISK_STATUSES } from "@/utils/constants";
+import { downloadBlob, getReportFileName } from "@/utils/reportFiles";
+import {
+  DEFAULT_REPORT_SCHEDULE,
+  REPORT_SCHEDULE_FREQUENCIES,
+  getNextScheduledRun,
+  parseCronExpression,
+  toCronExpression,
+  type ReportScheduleConfig,
+  type ReportScheduleFrequency,
+} from "@/utils/reportSchedule";
+import { useI18n } from "@/i18n";
+import {
+  CalendarClock,
+  ChevronDown,
+  ChevronUp,
+  Download,
+  Loader2,
+  Mail,
+  Plus,
+  Trash2,
+} from "lucide-react";
+
+/** The scheduler writes every run as CSV, so schedules offer no other format. */
+const SCHEDULE_FORMAT: ReportFileFormat = "csv";
+const ALL = "__all__";
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+type ScheduleDraft = ReportScheduleConfig & {
+  name: string;
+  type: string;
+  recipients: string;
+  category: string;
+  status: string;
+};
+
+const emptyDraft = (): ScheduleDraft => ({
+  ...DEFAULT_REPORT_SCHEDULE,
+  name: "",
+  type: "risk",
+  recipients: "",
+  category: ALL,
+  status: ALL,
+});
+
+const splitRecipients = (value: string) =>
+  value
+    .split(/[\s,;]+/)
+    .map((r) => r.trim())
+    .filter(Boolean);
+
+const ScheduledReports: React.FC = () => {
+  const { strings, isRTL } = useI18n();
+  const t = strings.reports.schedules;
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const canManage = can("canExport");
+  const locale = isRTL ? "ar-SA" : "en-US";
+
+  const schedulesQuery = useScheduledReports();
+  const typesQuery = useReportTypes();
+  const categoriesQuery = useRiskCategories();
+  const createSchedule = useCreateScheduledReport();
+  const deleteSchedule = useDeleteScheduledReport();
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [draft, setDraft] = useState<ScheduleDraft>(emptyDraft());
+  const [toDelete, setToDelete] = useState<ScheduledReport | null>(null);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const reportTypes = typesQuery.data ?? [];
+  const typeName = (code: string) =>
+    reportTypes.find((type) => type.code === code)?.name ?? code;
+
+  const weekdayName = (day: number) =>
+    // 7 January 2024 was a Sunday.
+    new Date(2024, 0, 7 + day).toLocaleDateString(locale, { weekday: "long" });
+
+  const formatDateTime = (value: string | Date) =>
+    new Date(value).toLocaleString(locale, {
+      dateStyle: "medium",
+      timeStyle: "short",
+    });
+
+  const describeSchedule = (expression: string) => {
+    const config = parseCronExpression(expression);
+    if (!config) return expression;
+    switch (config.frequency) {
+      case "daily":
+        return t.everyDay.replace("{time}", config.time);
+      case "monthly":
+        return t.everyMonth
+          .replace("{day}", String(config.dayOfMonth))
+          .replace("{time}", config.time);
+      default:
+        return t.everyWeek
+          .replace("{day}", weekdayName(config.dayOfWeek))
+          .replace("{time}", config.time);
+    }
+  };
+
+  const updateDraft = (patch: Partial<ScheduleDraft>) =>
+    setDraft((prev) => ({ ...prev, ...patch }));
+
+  const invalidRecipients = useMemo(
+    () =>
+      splitRecipients(draft.recipients).filter((r) => !EMAIL_PATTERN.test(r)),
+    [draft.recipients]
+  );
+  const firstRun = getNextScheduledRun(toCronExpression(draft));
+
+  const openCreate = () => {
+    setDraft(emptyDraft());
+    setIsDialogOpen(true);
+  };
+
+  const handleCreate = async () => {
+    const recipients = splitRecipients(draft.recipients);
+    if (!draft.name.trim() || !draft.type || recipients.length === 0) {
+      toast({
+        title: t.createFailed,
+        description: t.missingFields,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (invalidRecipients.length > 0) {
+      toast({
+        title: t.createFailed,
+        description: t.invalidRecipients.replace(
+          "{emails}",
+          invalidRecipients.join(", ")
+        ),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await createSchedule.mutateAsync({
+        name: draft.name.trim(),
+        type: draft.type,
+        schedule: toCronExpression(draft),
+        format: SCHEDULE_FORMAT,
+        recipients,
+        filters:
+          draft.type === "risk"
+            ? {
+                category: draft.category === ALL ? undefined : draft.category,
+                status: draft.status === ALL ? undefined : draft.status,
+              }
+            : {},
+      });
+      toast({ title: t.created, description: draft.name.trim() });
+      setIsDialogOpen(false);
+    } catch (error) {
+      toast({
+        title: t.createFailed,
+        description:
+          error instanceof Error ? error.message : strings.common.pleaseTryAgain,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!toDelete) return;
+    try {
+      await deleteSchedule.mutateAsync(toDelete.id);
+      toast({ title: t.deleted, description: toDelete.name });
+      if (expandedId === toDelete.id) setExpandedId(null);
+    } catch (error) {
+      toast({
+        title: t.deleteFailed,
+        description:
+          error instanceof Error ? error.message : strings.common.pleaseTryAgain,
+        variant: "destructive",
+      });
+    } finally {
+      setToDelete(null);
+    }
+  };
+
+  if (schedulesQuery.isLoading) {
+    return <PageLoader text={strings.common.loading} />;
+  }
+
+  const schedules = schedulesQuery.data ?? [];
+
+  return (
+    <div className="space-y-6 animate-in">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">{t.title}</h1>
+          <p className="text-muted-foreground">{t.subtitle}</p>
+        </div>
+        {canManage && (
+          <Button onClick={openCreate}>
+            <Plus className="h-4 w-4 me-2" />
+            {t.newSchedule}
+          </Button>
+        )}
+      </div>
+
+      {schedulesQuery.isError ? (
+        <EmptyState
+          title={t.loadFailed}
+          description={strings.common.pleaseTryAgain}
+        />
+      ) : schedules.length === 0 ? (
+        <EmptyState
+          icon={CalendarClock}
+          title={t.empty}
+          description={t.emptyHint}
+          action={
+            canManage ? { label: t.newSchedule, onClick: openCreate } : undefined
+          }
+        />
+      ) : (
+        <div className="space-y-4">
+          {schedules.map((schedule) => {
+            const isExpanded = expandedId === schedule.id;
+            return (
+              <Card key={schedule.id} className="glass-card">
+                <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                  <div className="space-y-1">
+                    <CardTitle className="text-base">{schedule.name}</CardTitle>
+                    <p className="text-sm text-muted-foreground">
+                      {typeName(schedule.type)} •{" "}
+                      {describeSchedule(schedule.schedule)}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {schedule.format && (
+                      <Badge variant="outline">
+                        {t.formats[schedule.format] ?? schedule.format}
+                      </Badge>
+                    )}
+                    {canManage && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        aria-label={strings.actions.delete}
+                        onClick={() => setToDelete(schedule)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                    <div>
+                      <p className="text-muted-foreground">{t.nextRun}</p>
+                      <p className="font-medium">
+                        {formatDateTime(schedule.nextRun)}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-muted-foreground">{t.lastRun}</p>
+                      <p className="font-medium">
+                        {schedule.lastRun
+                          ? formatDateTime(schedule.lastRun)
+                          : t.notRunYet}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-muted-foreground">{t.recipients}</p>
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {schedule.recipients.map((recipient) => (
+                          <Badge
+                            key={recipient}
+                            variant="secondary"
+                            className="font-normal"
+                          >
+                            <Mail className="h-3 w-3 me-1" />
+                            {recipient}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      setExpandedId(isExpanded ? null : schedule.id)
+                    }
+                  >
+                    {isExpanded ? (
+                      <ChevronUp className="h-4 w-4 me-2" />
+                    ) : (
+                      <ChevronDown className="h-4 w-4 me-2" />
+                    )}
+                    {isExpanded ? t.hideRuns : t.pastRuns}
+                  </Button>
+
+                  {isExpanded && (
+                    <ScheduleRuns
+                      scheduleId={schedule.id}
+                      formatDateTime={formatDateTime}
+                    />
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{t.dialogTitle}</DialogTitle>
+            <DialogDescription>{t.dialogDesc}</DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="schedule-name">{t.name}</Label>
+              <Input
+                id="schedule-name"
+                value={draft.name}
+                placeholder={t.namePlaceholder}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>{t.reportType}</Label>
+                <Select
+                  value={draft.type}
+                  onValueChange={(type) => updateDraft({ type })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {reportTypes.map((type) => (
+                      <SelectItem key={type.code} value={type.code}>
+                        {type.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="schedule-format">{t.format}</Label>
+                <Input
+                  id="schedule-format"
+                  value={t.formats[SCHEDULE_FORMAT]}
+                  disabled
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label>{t.frequency}</Label>
+                <Select
+                  value={draft.frequency}
+                  onValueChange={(frequency) =>
+                    updateDraft({
+                      frequency: frequency as ReportScheduleFrequency,
+                    })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REPORT_SCHEDULE_FREQUENCIES.map((frequency) => (
+                      <SelectItem key={frequency} value={frequency}>
+                        {t.frequencies[frequency]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {draft.frequency === "weekly" && (
+                <div className="space-y-2">
+                  <Label>{t.dayOfWeek}</Label>
+                  <Select
+                    value={String(draft.dayOfWeek)}
+                    onValueChange={(day) =>
+                      updateDraft({ dayOfWeek: Number(day) })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {[1, 2, 3, 4, 5, 6, 0].map((day) => (
+                        <SelectItem key={day} value={String(day)}>
+                          {weekdayName(day)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {draft.frequency === "monthly" && (
+                <div className="space-y-2">
+                  <Label>{t.dayOfMonth}</Label>
+                  <Select
+                    value={String(draft.dayOfMonth)}
+                    onValueChange={(day) =>
+                      updateDraft({ dayOfMonth: Number(day) })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from({ length: 28 }, (_, i) => i + 1).map(
+                        (day) => (
+                          <SelectItem key={day} value={String(day)}>
+                            {day}
+                          </SelectItem>
+                        )
+                      )}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="schedule-time">{t.time}</Label>
+                <Input
+                  id="schedule-time"
+                  type="time"
+                  value={draft.time}
+                  onChange={(e) =>
+                    updateDraft({ time: e.target.value || draft.time })
+                  }
+                />
+              </div>
+            </div>
+
+            {firstRun && (
+              <p className="text-xs text-muted-foreground">
+                {t.firstRun.replace("{date}", formatDateTime(firstRun))}
+              </p>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="schedule-recipients">{t.recipients}</Label>
+              <Textarea
+                id="schedule-recipients"
+                rows={2}
+                value={draft.recipients}
+                placeholder={t.recipientsPlaceholder}
+                onChange={(e) => updateDraft({ recipients: e.target.value })}
+              />
+              {invalidRecipients.length > 0 ? (
+                <p className="text-xs text-status-critical">
+                  {t.invalidRecipients.replace(
+                    "{emails}",
+                    invalidRecipients.join(", ")
+                  )}
+                </p>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  {t.recipientsHint}
+                </p>
+              )}
+            </div>
+
+            {draft.type === "risk" && (
+              <div className="space-y-2">
+                <Label>{t.filters}</Label>
+                <div className="grid grid-cols-2 gap-3">
+                  <Select
+                    value={draft.category}
+                    onValueChange={(category) => updateDraft({ category })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>{t.allCategories}</SelectItem>
+                      {(categoriesQuery.data ?? []).map((category) => (
+                        <SelectItem key={category.id} value={category.code}>
+                          {category.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={draft.status}
+                    onValueChange={(status) => updateDraft({ status })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>{t.allStatuses}</SelectItem>
+                      {BACKEND_RISK_STATUSES.map((status) => (
+                        <SelectItem key={status} value={status}>
+                          {strings.risks.lifecycleStatuses[status] ?? status}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              {strings.actions.cancel}
+            </Button>
+            <Button onClick={handleCreate} disabled={createSchedule.isPending}>
+              {createSchedule.isPending && (
+                <Loader2 className="h-4 w-4 me-2 animate-spin" />
+              )}
+              {t.newSchedule}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog
+        open={!!toDelete}
+        onOpenChange={(open) => !open && setToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t.deleteTitle}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t.deleteDesc.replace("{name}", toDelete?.name ?? "")}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{strings.actions.cancel}</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>
+              {strings.actions.delete}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+interface ScheduleRunsProps {
+  scheduleId: number;
+  formatDateTime: (value: string) => string;
+}
+
+/** Past runs of one schedule, newest first, each downloadable. */
+const ScheduleRuns: React.FC<ScheduleRunsProps> = ({
+  scheduleId,
+  formatDateTime,
+}) => {
+  const { strings } = useI18n();
+  const t = strings.reports.schedules;
+  const { toast } = useToast();
+  const { data: runs = [], isLoading } = useReportHistory({ scheduleId });
+  const [downloadingId, setDownloadingId] = useState<number | null>(null);
+
+  const download = async (run: ReportRun) => {
+    setDownloadingId(run.id);
+    try {
+      const blob = await reportApi.download(run.id);
+      downloadBlob(blob, getReportFileName(run, blob));
+    } catch (error) {
+      toast({
+        title: t.downloadFailed,
+        description:
+          error instanceof Error ? error.message : strings.common.pleaseTryAgain,
+        variant: "destructive",
+      });
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        {strings.common.loading}
+      </div>
+    );
+  }
+
+  if (runs.length === 0) {
+    return <p className="text-sm text-muted-foreground">{t.noRuns}</p>;
+  }
+
+  return (
+    <div className="rounded-lg border border-border divide-y divide-border">
+      {runs.map((run) => (
+        <div
+          key={run.id}
+          className="flex items-center justify-between gap-4 px-4 py-2 text-sm"
+        >
+          <div>
+            <p className="font-medium">{formatDateTime(run.generatedAt)}</p>
+            <p className="text-xs text-muted-foreground">
+              {t.sentTo.replace("{count}", String(run.recipients?.length ?? 0))}
+            </p>
+          </div>
+          <Button
+            size="sm"
+            variant="ghost"
+            disabled={downloadingId === run.id}
+            onClick={() => download(run)}
+          >
+            {downloadingId === run.id ? (
+              <Loader2 className="h-4 w-4 me-2 animate-spin" />
+            ) : (
+              <Download className="h-4 w-4 me-2" />
+            )}
+            {t.download}
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ScheduledReports;
@@ -5,7 +5,7 @@ import { PageLoader } from "@/components/common/Loader";
 import { riskApi } from "@/api";
 import type { Risk } from "@/types";
 import { useI18n } from "@/i18n";
-import { Download, Printer } from "lucide-react";
+import { Download, FileDown, Loader2, Printer } from "lucide-react";
 import { cn } from "@/lib/utils";
 import {
   Table,
@@ -17,6 +17,8 @@ import {
 } from "@/components/ui/table";
 import { StatusBadge } from "@/components/common/StatusBadge";
 import { useAuth } from "@/auth/authContext";
+import { useToast } from "@/hooks/use-toast";
+import { exportStandardReportPdf } from "@/utils/riskReportPdf";
 
 const csvEscape = (value: unknown) => {
   const s = String(value ?? "");
@@ -38,8 +40,10 @@ const downloadTextFile = (filename: string, content: string, mime: string) => {
 
 const StandardReport: React.FC = () => {
   const { strings, isRTL } = useI18n();
-  const { can } = useAuth();
+  const { user, can } = useAuth();
+  const { toast } = useToast();
   const [loading, setLoading] = React.useState(true);
+  const [exportingPdf, setExportingPdf] = React.useState(false);
   const [risks, setRisks] = React.useState<Risk[]>([]);
 
   React.useEffect(() => {
@@ -86,6 +90,27 @@ const StandardReport: React.FC = () => {
     );
   };
 
+  const downloadPdf = async () => {
+    if (!can("canExport")) return;
+    setExportingPdf(true);
+    try {
+      await exportStandardReportPdf(risks, {
+        strings,
+        isRTL,
+        preparedBy: user?.name,
+      });
+    } catch (error) {
+      toast({
+        title: strings.reports.pdfFailedTitle,
+        description:
+          error instanceof Error ? error.message : strings.common.pleaseTryAgain,
+        variant: "destructive",
+      });
+    } finally {
+      setExportingPdf(false);
+    }
+  };
+
   if (loading) return <PageLoader text={strings.common.loading} />;
 
   const criticalCount = risks.filter((r) => r.level === "Critical").length;
@@ -116,6 +141,20 @@ const StandardReport: React.FC = () => {
             <Download className="h-4 w-4 me-2" />
             {strings.reports.exportCsv}
           </Button>
+          <Button
+            variant="outline"
+            onClick={downloadPdf}
+            disabled={!can("canExport") || exportingPdf}
+          >
+            {exportingPdf ? (
+              <Loader2 className="h-4 w-4 me-2 animate-spin" />
+            ) : (
+              <FileDown className="h-4 w-4 me-2" />
+            )}
+            {exportingPdf
+              ? strings.reports.generatingPdf
+              : strings.reports.downloadPdf}
+          </Button>
         </div>
       </div>
 
@@ -35,6 +35,10 @@ import {
 } from "@/components/ui/dialog";
 import { Progress } from "@/components/ui/progress";
 import { PageLoader } from "@/components/common/Loader";
+import {
+  AppetiteTrendChart,
+  CategoryAppetiteStatements,
+} from "@/components/risk-appetite";
 import { useToast } from "@/hooks/use-toast";
 import { riskAppetiteApi } from "@/api";
 import { useI18n } from "@/i18n";
@@ -43,6 +47,8 @@ import type {
   AppetiteSummary,
   ExceededRisk,
   AppetiteLevel,
+  AppetiteCheckRun,
+  CategoryAppetite,
 } from "@/api/riskAppetiteApi";
 import { cn } from "@/lib/utils";
 import {
@@ -140,6 +146,12 @@ const RiskAppetitePage: React.FC = () => {
   const [thresholds, setThresholds] = React.useState<AppetiteThresholds | null>(
     null
   );
+  const [categoryAppetites, setCategoryAppetites] = React.useState<
+    CategoryAppetite[]
+  >([]);
+  const [checkHistory, setCheckHistory] = React.useState<AppetiteCheckRun[]>(
+    []
+  );
   const [editThresholds, setEditThresholds] = React.useState<
     Partial<AppetiteThresholds>
   >({});
@@ -153,14 +165,24 @@ const RiskAppetitePage: React.FC = () => {
   const loadData = React.useCallback(async () => {
     try {
       setLoading(true);
-      const [summaryData, exceededData, thresholdsData] = await Promise.all([
+      const [
+        summaryData,
+        exceededData,
+        thresholdsData,
+        categoriesData,
+        historyData,
+      ] = await Promise.all([
         riskAppetiteApi.getSummary(),
         riskAppetiteApi.getExceededRisks(),
         riskAppetiteApi.getThresholds(),
+        riskAppetiteApi.getCategoryAppetites(),
+        riskAppetiteApi.getHistory(),
       ]);
       setSummary(summaryData);
       setExceededRisks(exceededData.risks || []);
       setThresholds(thresholdsData);
+      setCategoryAppetites(categoriesData || []);
+      setCheckHistory(historyData || []);
       setEditThresholds(thresholdsData);
     } catch (error) {
       console.error("Failed to load risk appetite data:", error);
@@ -426,6 +448,9 @@ const RiskAppetitePage: React.FC = () => {
         </Card>
       </div>
 
+      {/* Compliance Trend */}
+      <AppetiteTrendChart runs={checkHistory} />
+
       {/* Thresholds Display */}
       {thresholds && (
         <Card>
@@ -485,6 +510,15 @@ const RiskAppetitePage: React.FC = () => {
         </Card>
       )}
 
+      {/* Category Appetite Statements */}
+      {categoryAppetites.length > 0 && (
+        <CategoryAppetiteStatements
+          categories={categoryAppetites}
+          compliance={summary?.by_category || []}
+          onSaved={loadData}
+        />
+      )}
+
       {/* Exceeded Risks Table */}
       <Card>
         <CardHeader>
@@ -517,6 +551,9 @@ const RiskAppetitePage: React.FC = () => {
                   <TableRow>
                     <TableHead>{strings.riskAppetitePage.tableCode}</TableHead>
                     <TableHead>{strings.riskAppetitePage.tableTitle}</TableHead>
+                    <TableHead>
+                      {strings.riskAppetitePage.tableCategory}
+                    </TableHead>
                     <TableHead>{strings.riskAppetitePage.tableScore}</TableHead>
                     <TableHead>
                       {strings.riskAppetitePage.tableThreshold}
@@ -543,6 +580,7 @@ const RiskAppetitePage: React.FC = () => {
                       <TableCell className="max-w-[200px] truncate">
                         {risk.title}
                       </TableCell>
+                      <TableCell>{risk.category_name || "-"}</TableCell>
                       <TableCell>
                         <Badge variant="destructive">{risk.score}</Badge>
                       </TableCell>
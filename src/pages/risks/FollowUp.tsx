@@ -5,8 +5,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { PageLoader } from '@/components/common/Loader';
 import { StatusBadge } from '@/components/common/StatusBadge';
-import { riskApi, assessmentApi, userApi } from '@/api';
-import type { Risk, Assessment } from '@/types';
+import { useRisks, useAssessments, useSystemSettings } from '@/hooks/queries';
 import { useI18n } from '@/i18n';
 import { cn } from '@/lib/utils';
 import { CalendarClock, ArrowRight } from 'lucide-react';
@@ -19,28 +18,13 @@ const FollowUp: React.FC = () => {
   const getLevelLabel = (levelLabel: string) =>
     (strings.risks.levels as Record<string, string> | undefined)?.[levelLabel] ?? levelLabel;
 
-  const [loading, setLoading] = React.useState(true);
-  const [risks, setRisks] = React.useState<Risk[]>([]);
-  const [assessments, setAssessments] = React.useState<Assessment[]>([]);
-  const [reminderDays, setReminderDays] = React.useState<number>(90);
-
-  React.useEffect(() => {
-    const load = async () => {
-      try {
-        const [r, a, settings] = await Promise.all([
-          riskApi.getAll(),
-          assessmentApi.getAll(),
-          userApi.getSystemSettings(),
-        ]);
-        setRisks(r);
-        setAssessments(a);
-        setReminderDays(settings.autoAssessmentReminder ?? 90);
-      } finally {
-        setLoading(false);
-      }
-    };
-    load();
-  }, []);
+  const risksQuery = useRisks();
+  const assessmentsQuery = useAssessments();
+  const settingsQuery = useSystemSettings();
+  const loading = risksQuery.isLoading || assessmentsQuery.isLoading || settingsQuery.isLoading;
+  const risks = risksQuery.data ?? [];
+  const assessments = assessmentsQuery.data ?? [];
+  const reminderDays = Number(settingsQuery.data?.autoAssessmentReminder ?? 90);
 
   if (loading) return <PageLoader text={strings.common.loading} />;
 
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo } from "react";
+import React, { useState, useMemo } from "react";
 import { useParams, useNavigate, Link } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -30,17 +30,43 @@ import {
 import { PageLoader } from "@/components/common/Loader";
 import { StatusBadge } from "@/components/common/StatusBadge";
 import { StageTimeline } from "@/components/common/StageTimeline";
+import {
+  AssessmentApprovalBadge,
+  BowTiePanel,
+  ImpactBreakdownView,
+  RiskAppetitePanel,
+  RiskQuantificationPanel,
+  RiskRelationshipsPanel,
+  RiskStatusMenu,
+} from "@/components/risks";
+import {
+  ControlEffectivenessBadge,
+  RiskControlsPanel,
+} from "@/components/controls";
 import { Can } from "@/components/auth";
 import { usePermissions } from "@/hooks/usePermissions";
+import { useMonteCarlo } from "@/hooks/useMonteCarlo";
 import {
-  riskApi,
-  assessmentApi,
-  treatmentApi,
-  userApi,
-  incidentApi,
-} from "@/api";
-import type { Risk, Assessment, Treatment, AuditLog, Incident } from "@/types";
-import { getRiskLevel } from "@/utils/constants";
+  useRisk,
+  useRiskAssessments,
+  useRiskTreatments,
+  useEntityAuditLogs,
+  useRiskIncidents,
+  useRiskControls,
+  useUpdateAssessment,
+  useDeleteAssessment,
+  useRiskMatrix,
+  useRiskQuantification,
+} from "@/hooks/queries";
+import type { Assessment } from "@/types";
+import {
+  getControlEffectiveness,
+  getRiskLevel,
+  QUANTIFIABLE_CATEGORIES,
+} from "@/utils/constants";
+import { formatLoss, toSimulationRisk } from "@/utils/monteCarlo";
+import { formatScaleLevel } from "@/utils/riskMatrix";
+import { buildStageHistory, RISK_STATUS_STAGE } from "@/utils/riskLifecycle";
 import { useI18n } from "@/i18n";
 import {
   ArrowLeft,
@@ -63,14 +89,16 @@ const RiskDetails: React.FC = () => {
   const navigate = useNavigate();
   const { can, canEdit, canCreate, canDelete } = usePermissions();
   const { strings, isRTL } = useI18n();
+  const matrix = useRiskMatrix();
 
   const getCategoryLabel = (category: string) =>
     (strings.risks.categories as Record<string, string> | undefined)?.[
       category
     ] ?? category;
-  const getStatusLabel = (status: string) =>
-    (strings.risks.statuses as Record<string, string> | undefined)?.[status] ??
-    status;
+  const getLifecycleLabel = (status: string) =>
+    (strings.risks.lifecycleStatuses as Record<string, string> | undefined)?.[
+      status
+    ] ?? status;
   const getLevelLabel = (levelLabel: string) =>
     (strings.risks.levels as Record<string, string> | undefined)?.[
       levelLabel
@@ -95,18 +123,38 @@ const RiskDetails: React.FC = () => {
     return map[status] ?? status;
   };
 
-  const [risk, setRisk] = useState<Risk | null>(null);
-  const [assessments, setAssessments] = useState<Assessment[]>([]);
-  const [treatment, setTreatment] = useState<Treatment | null>(null);
-  const [auditLogs, setAuditLogs] = useState<AuditLog[]>([]);
-  const [incidents, setIncidents] = useState<Incident[]>([]);
-  const [loading, setLoading] = useState(true);
+  const riskQuery = useRisk(id);
+  const assessmentsQuery = useRiskAssessments(id);
+  const treatmentsQuery = useRiskTreatments(id);
+  const { data: auditLogs = [] } = useEntityAuditLogs("Risk", id);
+  const { data: incidents = [] } = useRiskIncidents(id);
+  const { data: riskControls = [] } = useRiskControls(id);
+  const quantificationQuery = useRiskQuantification(id);
+  const quantification = quantificationQuery.data ?? null;
+  const simulation = useMonteCarlo(
+    quantification ? [toSimulationRisk(quantification)] : undefined
+  );
+  const lossSummary = quantification
+    ? simulation.result?.risks[quantification.riskId]
+    : undefined;
+  const updateAssessment = useUpdateAssessment();
+  const deleteAssessment = useDeleteAssessment();
+
+  const risk = riskQuery.data ?? null;
+  const assessments = assessmentsQuery.data ?? [];
+  const treatment = treatmentsQuery.data?.[0] ?? null;
+  // The lifecycle guard needs assessments and treatment, so wait for those;
+  // the audit trail and incidents fill in as they arrive.
+  const loading =
+    riskQuery.isLoading ||
+    assessmentsQuery.isLoading ||
+    treatmentsQuery.isLoading;
 
   const [editingAssessment, setEditingAssessment] = useState<Assessment | null>(
     null
   );
   const [isEditAssessmentOpen, setIsEditAssessmentOpen] = useState(false);
-  const [isSavingAssessment, setIsSavingAssessment] = useState(false);
+  const isSavingAssessment = updateAssessment.isPending;
   const [assessmentToDelete, setAssessmentToDelete] =
     useState<Assessment | null>(null);
 
@@ -122,42 +170,14 @@ const RiskDetails: React.FC = () => {
     () => editLikelihood * editImpact,
     [editLikelihood, editImpact]
   );
-  const editLevel = useMemo(() => getRiskLevel(editScore).label, [editScore]);
-
-  const reloadAssessments = async (riskId: string) => {
-    const data = await assessmentApi.getByRiskId(riskId);
-    setAssessments(data);
-  };
-
-  useEffect(() => {
-    const loadData = async () => {
-      if (!id) return;
-      setLoading(true);
-      try {
-        const [
-          riskData,
-          assessmentData,
-          treatmentData,
-          auditData,
-          incidentData,
-        ] = await Promise.all([
-          riskApi.getById(id),
-          assessmentApi.getByRiskId(id),
-          treatmentApi.getByRiskId(id),
-          userApi.getAuditLogsByEntity("Risk", id),
-          incidentApi.getByRiskId(id),
-        ]);
-        setRisk(riskData);
-        setAssessments(assessmentData);
-        setTreatment(treatmentData.length > 0 ? treatmentData[0] : null);
-        setAuditLogs(auditData);
-        setIncidents(incidentData);
-      } finally {
-        setLoading(false);
-      }
-    };
-    loadData();
-  }, [id]);
+  const editLevel = useMemo(
+    () =>
+      getRiskLevel(editScore, {
+        likelihood: editLikelihood,
+        impact: editImpact,
+      }).label,
+    [editScore, editLikelihood, editImpact]
+  );
 
   const openEditAssessment = (assessment: Assessment) => {
     setEditingAssessment(assessment);
@@ -169,32 +189,34 @@ const RiskDetails: React.FC = () => {
     setIsEditAssessmentOpen(true);
   };
 
+  // A hand-edited impact no longer follows from the dimension scores
+  const editBreakdown = editingAssessment?.impactBreakdown;
+  const breakdownOverridden =
+    !!editBreakdown && editImpact !== editBreakdown.overall;
+
   const saveAssessmentEdits = async () => {
     if (!id || !editingAssessment) return;
     if (!can("canEdit")) return;
     if (!editAssessor.trim()) return;
 
-    setIsSavingAssessment(true);
-    try {
-      await assessmentApi.update(editingAssessment.id, {
+    await updateAssessment.mutateAsync({
+      id: editingAssessment.id,
+      data: {
         likelihood: editLikelihood,
         impact: editImpact,
         notes: editNotes,
-      });
-      await reloadAssessments(id);
-      setIsEditAssessmentOpen(false);
-      setEditingAssessment(null);
-    } finally {
-      setIsSavingAssessment(false);
-    }
+        ...(breakdownOverridden ? { impactBreakdown: null } : {}),
+      },
+    });
+    setIsEditAssessmentOpen(false);
+    setEditingAssessment(null);
   };
 
   const confirmDeleteAssessment = async () => {
     if (!id || !assessmentToDelete) return;
     if (!can("canDelete")) return;
     try {
-      await assessmentApi.delete(assessmentToDelete.id);
-      await reloadAssessments(id);
+      await deleteAssessment.mutateAsync(assessmentToDelete);
       setAssessmentToDelete(null);
     } catch {
       // keep dialog open; user can retry
@@ -229,6 +251,18 @@ const RiskDetails: React.FC = () => {
     return Math.round((done / treatment.actions.length) * 100);
   })();
 
+  const stagesHistory = buildStageHistory(
+    { risk, auditLogs, assessments, treatment },
+    {
+      riskCreated: strings.risks.details.stageRiskCreated,
+      identified: strings.risks.details.stageIdentified,
+      assessment: strings.risks.details.stageAssessment,
+      inherent: strings.risks.details.stageInherent,
+      residual: strings.risks.details.stageResidual,
+      treatmentPlan: strings.risks.details.stageTreatmentPlan,
+    }
+  );
+
   return (
     <div className="space-y-6 animate-in">
       {/* Header */}
@@ -251,8 +285,8 @@ const RiskDetails: React.FC = () => {
               <StatusBadge status={risk.level}>
                 {getLevelLabel(risk.level)}
               </StatusBadge>
-              <StatusBadge status={risk.status}>
-                {getStatusLabel(risk.status)}
+              <StatusBadge status={risk.lifecycleStatus}>
+                {getLifecycleLabel(risk.lifecycleStatus)}
               </StatusBadge>
             </div>
             <h1 className="text-2xl font-bold">{risk.title}</h1>
@@ -262,6 +296,11 @@ const RiskDetails: React.FC = () => {
           </div>
 
           <div className="flex gap-2">
+            <RiskStatusMenu
+              risk={risk}
+              assessments={assessments}
+              treatment={treatment}
+            />
             {can("canEdit") && (
               <Button variant="outline" asChild>
                 <Link to={`/risks/${risk.id}/edit`}>
@@ -297,6 +336,27 @@ const RiskDetails: React.FC = () => {
                   {strings.risks.form.scoreTitle}
                 </p>
                 <p className="text-xl font-bold">{risk.score}</p>
+                {lossSummary && (
+                  <p className="text-xs text-muted-foreground">
+                    {strings.quantification.scoreCardLine
+                      .replace(
+                        "{ale}",
+                        formatLoss(
+                          lossSummary.ale,
+                          quantification.currency,
+                          isRTL ? "ar-SA" : "en-US"
+                        )
+                      )
+                      .replace(
+                        "{p90}",
+                        formatLoss(
+                          lossSummary.p90,
+                          quantification.currency,
+                          isRTL ? "ar-SA" : "en-US"
+                        )
+                      )}
+                  </p>
+                )}
               </div>
             </div>
           </CardContent>
@@ -365,7 +425,10 @@ const RiskDetails: React.FC = () => {
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <StageTimeline stagesHistory={risk.stagesHistory} />
+            <StageTimeline
+              stagesHistory={stagesHistory}
+              currentStage={RISK_STATUS_STAGE[risk.lifecycleStatus]}
+            />
           </CardContent>
         </Card>
 
@@ -383,6 +446,21 @@ const RiskDetails: React.FC = () => {
                 <TabsTrigger value="treatment">
                   {strings.risks.details.treatment}
                 </TabsTrigger>
+                <TabsTrigger value="controls">
+                  {strings.controlsPage.riskControlsTitle}
+                </TabsTrigger>
+                {(QUANTIFIABLE_CATEGORIES.includes(risk.category) ||
+                  quantification) && (
+                  <TabsTrigger value="quantification">
+                    {strings.quantification.tab}
+                  </TabsTrigger>
+                )}
+                <TabsTrigger value="bowtie">
+                  {strings.bowTie.tab}
+                </TabsTrigger>
+                <TabsTrigger value="relationships">
+                  {strings.riskRelationships.tab}
+                </TabsTrigger>
                 <TabsTrigger value="incidents">
                   {strings.risks.details.incidents}
                 </TabsTrigger>
@@ -403,13 +481,25 @@ const RiskDetails: React.FC = () => {
                     <div className="p-4 rounded-lg bg-muted/50 text-center">
                       <p className="text-2xl font-bold">{risk.likelihood}</p>
                       <p className="text-xs text-muted-foreground">
-                        {strings.risks.details.likelihoodScale}
+                        {strings.risks.details.likelihoodScale.replace(
+                          "{max}",
+                          String(matrix.size)
+                        )}
+                      </p>
+                      <p className="text-xs font-medium mt-1">
+                        {formatScaleLevel(matrix.likelihood, risk.likelihood)}
                       </p>
                     </div>
                     <div className="p-4 rounded-lg bg-muted/50 text-center">
                       <p className="text-2xl font-bold">{risk.impact}</p>
                       <p className="text-xs text-muted-foreground">
-                        {strings.risks.details.impactScale}
+                        {strings.risks.details.impactScale.replace(
+                          "{max}",
+                          String(matrix.size)
+                        )}
+                      </p>
+                      <p className="text-xs font-medium mt-1">
+                        {formatScaleLevel(matrix.impact, risk.impact)}
                       </p>
                     </div>
                     <div className="p-4 rounded-lg bg-primary/10 text-center">
@@ -423,6 +513,9 @@ const RiskDetails: React.FC = () => {
                   </div>
                 </div>
 
+                {/* Appetite */}
+                <RiskAppetitePanel risk={risk} />
+
                 {/* Treatment Summary */}
                 {treatment && can("canViewTreatments") && (
                   <div>
@@ -483,13 +576,27 @@ const RiskDetails: React.FC = () => {
                         >
                           <div className="flex items-start justify-between mb-2">
                             <div>
-                              <p className="font-medium">{assessment.date}</p>
+                              <p className="font-medium">
+                                {assessment.date}
+                                {assessment._type && (
+                                  <span className="text-sm font-normal text-muted-foreground">
+                                    {" "}
+                                    •{" "}
+                                    {assessment._type === "residual"
+                                      ? strings.assessments.typeResidual
+                                      : strings.assessments.typeInherent}
+                                  </span>
+                                )}
+                              </p>
                               <p className="text-sm text-muted-foreground">
                                 {strings.risks.details.byPrefix}{" "}
                                 {assessment.assessor}
                               </p>
                             </div>
                             <div className="flex items-center gap-2">
+                              <AssessmentApprovalBadge
+                                assessment={assessment}
+                              />
                               <StatusBadge status={assessment.level}>
                                 {getLevelLabel(assessment.level)}
                               </StatusBadge>
@@ -553,11 +660,81 @@ const RiskDetails: React.FC = () => {
                               </span>
                             </div>
                           </div>
+                          {assessment._type === "residual" && (
+                            <div className="mt-3 text-sm">
+                              <span className="text-muted-foreground">
+                                {strings.assessments.supportedBy}
+                              </span>{" "}
+                              {assessment._controlIds?.length ? (
+                                <span className="inline-flex flex-wrap items-center gap-2">
+                                  {riskControls
+                                    .filter((link) =>
+                                      assessment._controlIds.includes(
+                                        link.control._backendId
+                                      )
+                                    )
+                                    .map((link) => (
+                                      <span
+                                        key={link.id}
+                                        className="inline-flex items-center gap-1"
+                                      >
+                                        <span className="font-medium">
+                                          {link.control.code} {link.control.name}
+                                        </span>
+                                        <ControlEffectivenessBadge
+                                          rating={getControlEffectiveness(
+                                            link.designEffectiveness,
+                                            link.operatingEffectiveness
+                                          )}
+                                        />
+                                      </span>
+                                    ))}
+                                </span>
+                              ) : (
+                                <span className="text-muted-foreground">
+                                  {strings.assessments.residualWithoutControls}
+                                </span>
+                              )}
+                            </div>
+                          )}
+                          {assessment.impactBreakdown && (
+                            <ImpactBreakdownView
+                              breakdown={assessment.impactBreakdown}
+                              className="mt-3"
+                            />
+                          )}
                           {assessment.notes && (
                             <p className="text-sm text-muted-foreground mt-2">
                               {assessment.notes}
                             </p>
                           )}
+                          {assessment.approvalStatus === "approved" &&
+                            assessment.approvedBy && (
+                              <p className="text-xs text-muted-foreground mt-2">
+                                {strings.assessments.approvedByOn
+                                  .replace("{name}", assessment.approvedBy)
+                                  .replace(
+                                    "{date}",
+                                    assessment.approvedAt?.slice(0, 10) ?? ""
+                                  )}
+                              </p>
+                            )}
+                          {assessment.approvalStatus === "rejected" &&
+                            assessment.rejectionReason && (
+                              <div className="mt-3 p-3 rounded-md border border-status-critical/30 bg-status-critical/5 text-sm">
+                                <p className="font-medium text-status-critical">
+                                  {strings.assessments.reviewerFeedback}
+                                </p>
+                                <p className="mt-1 whitespace-pre-wrap">
+                                  {assessment.rejectionReason}
+                                </p>
+                                {can("canEdit") && (
+                                  <p className="text-xs text-muted-foreground mt-2">
+                                    {strings.assessments.resubmitHint}
+                                  </p>
+                                )}
+                              </div>
+                            )}
                         </div>
                       ))}
                     </div>
@@ -611,14 +788,14 @@ const RiskDetails: React.FC = () => {
                         <div className="flex items-center justify-between">
                           <Label>{strings.risks.form.likelihood}</Label>
                           <span className="text-sm font-medium">
-                            {editLikelihood}
+                            {formatScaleLevel(matrix.likelihood, editLikelihood)}
                           </span>
                         </div>
                         <Slider
                           value={[editLikelihood]}
                           onValueChange={([v]) => setEditLikelihood(v)}
                           min={1}
-                          max={5}
+                          max={matrix.size}
                           step={1}
                           disabled={!can("canEdit")}
                         />
@@ -628,17 +805,24 @@ const RiskDetails: React.FC = () => {
                         <div className="flex items-center justify-between">
                           <Label>{strings.risks.form.impact}</Label>
                           <span className="text-sm font-medium">
-                            {editImpact}
+                            {formatScaleLevel(matrix.impact, editImpact)}
                           </span>
                         </div>
                         <Slider
                           value={[editImpact]}
                           onValueChange={([v]) => setEditImpact(v)}
                           min={1}
-                          max={5}
+                          max={matrix.size}
                           step={1}
                           disabled={!can("canEdit")}
                         />
+                        {editBreakdown && (
+                          <p className="text-xs text-muted-foreground">
+                            {breakdownOverridden
+                              ? strings.assessments.breakdownOverridden
+                              : strings.assessments.breakdownKept}
+                          </p>
+                        )}
                       </div>
                     </div>
 
@@ -850,6 +1034,27 @@ const RiskDetails: React.FC = () => {
                 )}
               </TabsContent>
 
+              <TabsContent value="controls" className="mt-0">
+                <RiskControlsPanel riskId={risk.id} />
+              </TabsContent>
+
+              <TabsContent value="quantification" className="mt-0">
+                <RiskQuantificationPanel
+                  risk={risk}
+                  quantification={quantification}
+                  isLoading={quantificationQuery.isLoading}
+                  simulation={simulation}
+                />
+              </TabsContent>
+
+              <TabsContent value="bowtie" className="mt-0">
+                <BowTiePanel risk={risk} />
+              </TabsContent>
+
+              <TabsContent value="relationships" className="mt-0">
+                <RiskRelationshipsPanel risk={risk} />
+              </TabsContent>
+
               <TabsContent value="incidents" className="mt-0">
                 {incidents.length === 0 ? (
                   <p className="text-sm text-muted-foreground py-4">
@@ -878,18 +1083,28 @@ const RiskDetails: React.FC = () => {
                           </StatusBadge>
                           <StatusBadge
                             status={
-                              incident.status === "Resolved"
+                              incident.status === "Resolved" ||
+                              incident.status === "Closed"
                                 ? "green"
                                 : "yellow"
                             }
                           >
-                            {incident.status}
+                            {strings.incidentsPage[
+                              `status${incident.status}` as keyof typeof strings.incidentsPage
+                            ] ?? incident.status}
                           </StatusBadge>
                         </div>
                       </div>
                     ))}
                   </div>
                 )}
+                {can("canViewFollowUp") && (
+                  <Button variant="link" className="px-0" asChild>
+                    <Link to={`/incidents?risk=${risk.id}`}>
+                      {strings.incidentsPage.viewInRegister}
+                    </Link>
+                  </Button>
+                )}
               </TabsContent>
 
               <TabsContent value="audit" className="mt-0">
@@ -15,10 +15,12 @@ import {
 import { Slider } from '@/components/ui/slider';
 import { PageLoader } from '@/components/common/Loader';
 import { StatusBadge } from '@/components/common/StatusBadge';
-import { assessmentApi, riskApi, userApi } from '@/api';
-import { RISK_CATEGORIES, RISK_STATUSES, getRiskLevel } from '@/utils/constants';
-import type { RiskCategory, RiskStatus } from '@/utils/constants';
-import type { Risk, User } from '@/types';
+import { riskApi, userApi } from '@/api';
+import { useCreateRisk, useUpdateRisk, useCreateAssessment, useRiskMatrix } from '@/hooks/queries';
+import { RISK_CATEGORIES, getRiskLevel } from '@/utils/constants';
+import { formatScaleLevel } from '@/utils/riskMatrix';
+import type { RiskCategory, BackendRiskStatusType } from '@/utils/constants';
+import type { User } from '@/types';
 import { useToast } from '@/hooks/use-toast';
 import { ArrowLeft, Save, Loader2 } from 'lucide-react';
 import { useI18n } from '@/i18n';
@@ -30,27 +32,32 @@ const RiskForm: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const { toast } = useToast();
   const { strings, isRTL } = useI18n();
+  const matrix = useRiskMatrix();
   const { user, can } = useAuth();
   const isEdit = !!id;
 
   const getCategoryLabel = (category: string) =>
     (strings.risks.categories as Record<string, string> | undefined)?.[category] ?? category;
   const getStatusLabel = (status: string) =>
-    (strings.risks.statuses as Record<string, string> | undefined)?.[status] ?? status;
+    (strings.risks.lifecycleStatuses as Record<string, string> | undefined)?.[status] ?? status;
   const getLevelLabel = (levelLabel: string) =>
     (strings.risks.levels as Record<string, string> | undefined)?.[levelLabel] ?? levelLabel;
 
   const [loading, setLoading] = useState(isEdit);
   const [saving, setSaving] = useState(false);
+  const createRisk = useCreateRisk();
+  const updateRisk = useUpdateRisk();
+  const createAssessment = useCreateAssessment();
   const [categories, setCategories] = useState<string[]>([...RISK_CATEGORIES]);
   const [availableOwners, setAvailableOwners] = useState<User[]>([]);
   const [ownerId, setOwnerId] = useState<number | undefined>(undefined);
+  // Read-only here: lifecycle moves go through the guarded status menu on RiskDetails
+  const [lifecycleStatus, setLifecycleStatus] = useState<BackendRiskStatusType>('identified');
   const [formData, setFormData] = useState({
     title: '',
     description: '',
     category: '' as string,
     owner: '',
-    status: 'Open' as RiskStatus,
     likelihood: 3,
     impact: 3,
   });
@@ -106,12 +113,12 @@ const RiskForm: React.FC = () => {
       const risk = await riskApi.getById(riskId);
       if (risk) {
         if (risk._ownerId) setOwnerId(risk._ownerId);
+        setLifecycleStatus(risk.lifecycleStatus);
         setFormData({
           title: risk.title,
           description: risk.description,
           category: risk.category,
           owner: risk.owner,
-          status: risk.status,
           likelihood: risk.likelihood,
           impact: risk.impact,
         });
@@ -138,19 +145,21 @@ const RiskForm: React.FC = () => {
     setSaving(true);
     try {
       if (isEdit && id) {
-        await riskApi.update(id, formData as Partial<Risk>);
+        await updateRisk.mutateAsync({
+          id,
+          data: { ...formData, category: formData.category as RiskCategory },
+        });
         toast({ title: strings.risks.form.toastUpdatedTitle, description: strings.risks.form.toastUpdatedDesc });
       } else {
-        const newRisk = await riskApi.create({
+        const newRisk = await createRisk.mutateAsync({
           ...formData,
           ownerId,
           category: formData.category as RiskCategory,
-          status: formData.status,
         });
 
         // Create an initial inherent assessment so risk score/level is correct.
         try {
-          await assessmentApi.create({
+          await createAssessment.mutateAsync({
             riskId: newRisk.id,
             likelihood: formData.likelihood,
             impact: formData.impact,
@@ -174,7 +183,7 @@ const RiskForm: React.FC = () => {
   };
 
   const score = formData.likelihood * formData.impact;
-  const level = getRiskLevel(score);
+  const level = getRiskLevel(score, formData);
 
   if (loading) return <PageLoader text={strings.risks.form.loadingRisk} />;
 
@@ -289,24 +298,15 @@ const RiskForm: React.FC = () => {
             </div>
 
             {/* Status */}
-            <div className="space-y-2">
-              <Label htmlFor="status">{strings.table.status}</Label>
-              <Select
-                value={formData.status}
-                onValueChange={val => setFormData(prev => ({ ...prev, status: val }))}
-              >
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  {RISK_STATUSES.map(status => (
-                    <SelectItem key={status} value={status}>
-                      {getStatusLabel(status)}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
+            {isEdit && (
+              <div className="space-y-2">
+                <Label>{strings.table.status}</Label>
+                <div className="flex items-center gap-3">
+                  <StatusBadge status={lifecycleStatus}>{getStatusLabel(lifecycleStatus)}</StatusBadge>
+                  <p className="text-xs text-muted-foreground">{strings.risks.form.statusManagedHint}</p>
+                </div>
+              </div>
+            )}
 
             {/* Risk Assessment */}
             <div className="space-y-4 p-4 rounded-lg bg-muted/30 border border-border">
@@ -322,13 +322,18 @@ const RiskForm: React.FC = () => {
                     value={[formData.likelihood]}
                     onValueChange={([val]) => setFormData(prev => ({ ...prev, likelihood: val }))}
                     min={1}
-                    max={5}
+                    max={matrix.size}
                     step={1}
                   />
                   <div className={isRTL ? 'flex justify-between text-xs text-muted-foreground flex-row-reverse' : 'flex justify-between text-xs text-muted-foreground'}>
-                    <span>{strings.risks.form.rare}</span>
-                    <span>{strings.risks.form.almostCertain}</span>
+                    <span>{matrix.likelihood[0]?.label || strings.risks.form.rare}</span>
+                    <span>{matrix.likelihood[matrix.size - 1]?.label || strings.risks.form.almostCertain}</span>
                   </div>
+                  <p className="text-xs text-muted-foreground">
+                    {formatScaleLevel(matrix.likelihood, formData.likelihood)}
+                    {matrix.likelihood[formData.likelihood - 1]?.criteria &&
+                      ` — ${matrix.likelihood[formData.likelihood - 1].criteria}`}
+                  </p>
                 </div>
 
                 <div className="space-y-4">
@@ -340,13 +345,18 @@ const RiskForm: React.FC = () => {
                     value={[formData.impact]}
                     onValueChange={([val]) => setFormData(prev => ({ ...prev, impact: val }))}
                     min={1}
-                    max={5}
+                    max={matrix.size}
                     step={1}
                   />
                   <div className={isRTL ? 'flex justify-between text-xs text-muted-foreground flex-row-reverse' : 'flex justify-between text-xs text-muted-foreground'}>
-                    <span>{strings.risks.form.insignificant}</span>
-                    <span>{strings.risks.form.catastrophic}</span>
+                    <span>{matrix.impact[0]?.label || strings.risks.form.insignificant}</span>
+                    <span>{matrix.impact[matrix.size - 1]?.label || strings.risks.form.catastrophic}</span>
                   </div>
+                  <p className="text-xs text-muted-foreground">
+                    {formatScaleLevel(matrix.impact, formData.impact)}
+                    {matrix.impact[formData.impact - 1]?.criteria &&
+                      ` — ${matrix.impact[formData.impact - 1].criteria}`}
+                  </p>
                 </div>
               </div>
 
@@ -0,0 +1,534 @@
+/**
+ * RiskImport - Wizard for bringing a legacy spreadsheet into the register.
+ *
+ * Upload a CSV/XLSX file, map its columns to risk fields, review a
+ * row-by-row validation preview and create the valid rows in batches.
+ */
+import React, { useMemo, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+  AlertTriangle,
+  ArrowLeft,
+  CheckCircle2,
+  FileSpreadsheet,
+  Upload,
+  XCircle,
+} from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/auth/authContext";
+import { assessmentApi, riskApi } from "@/api";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import {
+  queryKeys,
+  useRiskCategories,
+  useRiskMatrix,
+  useRisks,
+  useUsers,
+} from "@/hooks/queries";
+import {
+  runBulkOperation,
+  type BulkItemResult,
+  type BulkProgress,
+} from "@/utils/bulkOperations";
+import {
+  readSpreadsheet,
+  SPREADSHEET_ACCEPT,
+  type SpreadsheetData,
+} from "@/utils/spreadsheet";
+import {
+  guessImportMapping,
+  REQUIRED_IMPORT_FIELDS,
+  RISK_IMPORT_FIELDS,
+  validateImportRows,
+  type RiskImportIssue,
+  type RiskImportMapping,
+  type RiskImportRow,
+} from "@/utils/riskImport";
+import { useI18n } from "@/i18n";
+import { cn } from "@/lib/utils";
+
+type Step = "upload" | "map" | "preview" | "import";
+
+const STEPS: Step[] = ["upload", "map", "preview", "import"];
+const IMPORT_BATCH_SIZE = 10;
+const UNMAPPED = "none";
+
+const RiskImport: React.FC = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { canManageUsers } = usePermissions();
+  const { toast } = useToast();
+  const { strings, isRTL } = useI18n();
+  const t = strings.risks.import;
+  const iconClass = isRTL ? "ml-2 h-4 w-4" : "mr-2 h-4 w-4";
+
+  const { data: categories = [] } = useRiskCategories();
+  const { data: users } = useUsers(
+    { perPage: 100 },
+    { enabled: canManageUsers }
+  );
+  const { data: existingRisks = [] } = useRisks({ perPage: 1000 });
+  const matrix = useRiskMatrix();
+  const scale = useMemo(() => ({ min: 1, max: matrix.size }), [matrix.size]);
+
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState("");
+  const [reading, setReading] = useState(false);
+  const [sheet, setSheet] = useState<SpreadsheetData | null>(null);
+  const [mapping, setMapping] = useState<RiskImportMapping | null>(null);
+  const [problemsOnly, setProblemsOnly] = useState(false);
+  const [progress, setProgress] = useState<BulkProgress>({
+    done: 0,
+    total: 0,
+  });
+  const [results, setResults] = useState<BulkItemResult[] | null>(null);
+  // Rows whose risk was created but whose initial assessment failed; they
+  // count as created so a retry does not duplicate the risk.
+  const [missingAssessments, setMissingAssessments] = useState<
+    Record<string, string>
+  >({});
+
+  const fieldLabel = (field: string) =>
+    (t.fields as Record<string, string>)[field] ?? field;
+
+  const describeIssue = (issue: RiskImportIssue) =>
+    t.issues[issue.code]
+      .replace("{field}", issue.field ? fieldLabel(issue.field) : "")
+      .replace("{value}", issue.value ?? "")
+      .replace("{min}", String(scale.min))
+      .replace("{max}", String(scale.max));
+
+  // Without user management rights only the importer can be resolved.
+  const knownUsers = useMemo(() => {
+    if (users && users.length > 0) return users;
+    return user ? [user] : [];
+  }, [users, user]);
+
+  const rows = useMemo<RiskImportRow[]>(() => {
+    if (!sheet || !mapping) return [];
+    return validateImportRows(sheet, mapping, {
+      categories,
+      users: knownUsers,
+      defaultOwner: user,
+      existingTitles: existingRisks.map((risk) => risk.title),
+      scale,
+    });
+  }, [sheet, mapping, categories, knownUsers, user, existingRisks, scale]);
+
+  const validRows = rows.filter((row) => row.errors.length === 0);
+  const errorRows = rows.length - validRows.length;
+  const warningRows = validRows.filter((row) => row.warnings.length > 0).length;
+  const visibleRows = problemsOnly
+    ? rows.filter((row) => row.errors.length > 0 || row.warnings.length > 0)
+    : rows;
+  const missingRequired = mapping
+    ? REQUIRED_IMPORT_FIELDS.filter((field) => mapping[field] === null)
+    : [];
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    setReading(true);
+    try {
+      const data = await readSpreadsheet(file);
+      if (data.rows.length === 0) throw new Error(t.noDataRows);
+      setSheet(data);
+      setMapping(guessImportMapping(data.headers));
+      setFileName(file.name);
+      setStep("map");
+    } catch (error) {
+      toast({
+        title: t.readFailed,
+        description:
+          error instanceof Error ? error.message : strings.common.pleaseTryAgain,
+        variant: "destructive",
+      });
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setStep("import");
+    setResults(null);
+    const missing: Record<string, string> = {};
+    const items = validRows.map((row) => ({
+      id: String(row.rowNumber),
+      label: row.input.title,
+      row,
+    }));
+    const outcome = await runBulkOperation(
+      items,
+      async ({ id, row }) => {
+        const risk = await riskApi.create(row.input);
+        if (!row.likelihood || !row.impact) return;
+        try {
+          await assessmentApi.create({
+            riskId: risk.id,
+            likelihood: row.likelihood,
+            impact: row.impact,
+            notes: t.assessmentNote.replace("{file}", fileName),
+            type: "inherent",
+          });
+        } catch (error) {
+          missing[id] = error instanceof Error ? error.message : String(error);
+        }
+      },
+      setProgress,
+      IMPORT_BATCH_SIZE
+    );
+    setMissingAssessments(missing);
+    setResults(outcome);
+    [queryKeys.risks.all, queryKeys.assessments.all].forEach((queryKey) =>
+      queryClient.invalidateQueries({ queryKey })
+    );
+    const created = outcome.filter((result) => result.ok).length;
+    toast({
+      title: t.doneTitle,
+      description: t.doneDesc
+        .replace("{created}", String(created))
+        .replace("{failed}", String(outcome.length - created)),
+      variant: created === outcome.length ? "default" : "destructive",
+    });
+  };
+
+  const reset = () => {
+    setSheet(null);
+    setMapping(null);
+    setFileName("");
+    setResults(null);
+    setMissingAssessments({});
+    setProblemsOnly(false);
+    setStep("upload");
+  };
+
+  const percent =
+    progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6 animate-in">
+      <Button variant="ghost" className="w-fit" onClick={() => navigate("/risks")}>
+        <ArrowLeft className={iconClass} />
+        {strings.risks.form.backToRiskRegister}
+      </Button>
+
+      <div>
+        <h1 className="text-2xl font-bold">{t.title}</h1>
+        <p className="text-muted-foreground">{t.subtitle}</p>
+      </div>
+
+      {/* Step indicator */}
+      <ol className="flex flex-wrap gap-2 text-sm">
+        {STEPS.map((item, index) => (
+          <li
+            key={item}
+            className={cn(
+              "flex items-center gap-2 rounded-full border px-3 py-1",
+              item === step
+                ? "border-primary bg-primary/10 text-primary"
+                : STEPS.indexOf(step) > index
+                  ? "border-border text-foreground"
+                  : "border-border text-muted-foreground"
+            )}
+          >
+            <span className="font-semibold">{index + 1}</span>
+            {t.steps[item]}
+          </li>
+        ))}
+      </ol>
+
+      {step === "upload" && (
+        <Card className="glass-card">
+          <CardHeader>
+            <CardTitle>{t.uploadTitle}</CardTitle>
+            <CardDescription>{t.uploadDesc}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <label className="flex flex-col items-center justify-center gap-3 rounded-lg border-2 border-dashed border-border p-10 cursor-pointer hover:border-primary/50 transition-colors">
+              <FileSpreadsheet className="h-10 w-10 text-muted-foreground" />
+              <span className="text-sm font-medium">
+                {reading ? t.reading : t.chooseFile}
+              </span>
+              <span className="text-xs text-muted-foreground">
+                {t.supportedFormats}
+              </span>
+              <input
+                type="file"
+                accept={SPREADSHEET_ACCEPT}
+                className="hidden"
+                onChange={handleFile}
+                disabled={reading}
+              />
+            </label>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === "map" && sheet && mapping && (
+        <Card className="glass-card">
+          <CardHeader>
+            <CardTitle>{t.mapTitle}</CardTitle>
+            <CardDescription>
+              {t.mapDesc
+                .replace("{file}", fileName)
+                .replace("{rows}", String(sheet.rows.length))}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {RISK_IMPORT_FIELDS.map((field) => {
+              const column = mapping[field];
+              const sample = column === null ? "" : sheet.rows[0]?.[column];
+              return (
+                <div
+                  key={field}
+                  className="grid grid-cols-1 sm:grid-cols-3 gap-2 sm:items-center"
+                >
+                  <Label>
+                    {fieldLabel(field)}
+                    {REQUIRED_IMPORT_FIELDS.includes(field) && (
+                      <span className="text-destructive"> *</span>
+                    )}
+                  </Label>
+                  <Select
+                    value={column === null ? UNMAPPED : String(column)}
+                    onValueChange={(value) =>
+                      setMapping((prev) => ({
+                        ...prev,
+                        [field]: value === UNMAPPED ? null : Number(value),
+                      }))
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>{t.notMapped}</SelectItem>
+                      {sheet.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || t.columnN.replace("{n}", String(index + 1))}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <span className="text-xs text-muted-foreground truncate">
+                    {sample ? t.sample.replace("{value}", sample) : ""}
+                  </span>
+                </div>
+              );
+            })}
+            <p className="text-xs text-muted-foreground">{t.ownerHint}</p>
+            {missingRequired.length > 0 && (
+              <p className="text-sm text-destructive">
+                {t.missingRequired.replace(
+                  "{fields}",
+                  missingRequired.map(fieldLabel).join(", ")
+                )}
+              </p>
+            )}
+            <div className="flex justify-between pt-2">
+              <Button variant="outline" onClick={reset}>
+                {t.back}
+              </Button>
+              <Button
+                onClick={() => setStep("preview")}
+                disabled={missingRequired.length > 0}
+              >
+                {t.next}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === "preview" && (
+        <Card className="glass-card">
+          <CardHeader>
+            <CardTitle>{t.previewTitle}</CardTitle>
+            <CardDescription>
+              {t.previewSummary
+                .replace("{valid}", String(validRows.length))
+                .replace("{warnings}", String(warningRows))
+                .replace("{errors}", String(errorRows))}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="problems-only"
+                checked={problemsOnly}
+                onCheckedChange={setProblemsOnly}
+              />
+              <Label htmlFor="problems-only">{t.problemsOnly}</Label>
+            </div>
+            <div className="overflow-x-auto max-h-[28rem] rounded-md border border-border">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-muted">
+                  <tr className={isRTL ? "text-right" : "text-left"}>
+                    <th className="py-2 px-3 font-medium">{t.row}</th>
+                    <th className="py-2 px-3 font-medium">{fieldLabel("title")}</th>
+                    <th className="py-2 px-3 font-medium">{fieldLabel("category")}</th>
+                    <th className="py-2 px-3 font-medium">{fieldLabel("owner")}</th>
+                    <th className="py-2 px-3 font-medium text-center">
+                      {strings.table.likelihoodShort}
+                    </th>
+                    <th className="py-2 px-3 font-medium text-center">
+                      {strings.table.impactShort}
+                    </th>
+                    <th className="py-2 px-3 font-medium">{t.issuesColumn}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleRows.map((row) => (
+                    <tr
+                      key={row.rowNumber}
+                      className={cn(
+                        "border-t border-border/50 align-top",
+                        row.errors.length > 0 && "bg-destructive/5"
+                      )}
+                    >
+                      <td className="py-2 px-3 font-mono text-muted-foreground">
+                        {row.rowNumber}
+                      </td>
+                      <td className="py-2 px-3">{row.input.title}</td>
+                      <td className="py-2 px-3">
+                        {row.input.category
+                          ? (strings.risks.categories as Record<string, string>)[
+                              row.input.category
+                            ] ?? row.input.category
+                          : ""}
+                      </td>
+                      <td className="py-2 px-3">{row.input.owner}</td>
+                      <td className="py-2 px-3 text-center">{row.likelihood}</td>
+                      <td className="py-2 px-3 text-center">{row.impact}</td>
+                      <td className="py-2 px-3">
+                        {row.errors.length === 0 && row.warnings.length === 0 ? (
+                          <CheckCircle2 className="h-4 w-4 text-status-success" />
+                        ) : (
+                          <ul className="space-y-1">
+                            {row.errors.map((issue, i) => (
+                              <li
+                                key={`e${i}`}
+                                className="flex items-start gap-1 text-destructive"
+                              >
+                                <XCircle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                                {describeIssue(issue)}
+                              </li>
+                            ))}
+                            {row.warnings.map((issue, i) => (
+                              <li
+                                key={`w${i}`}
+                                className="flex items-start gap-1 text-status-warning"
+                              >
+                                <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                                {describeIssue(issue)}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {errorRows > 0 && (
+              <p className="text-xs text-muted-foreground">{t.errorRowsSkipped}</p>
+            )}
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={() => setStep("map")}>
+                {t.back}
+              </Button>
+              <Button onClick={handleImport} disabled={validRows.length === 0}>
+                <Upload className={iconClass} />
+                {t.importRows.replace("{count}", String(validRows.length))}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === "import" && (
+        <Card className="glass-card">
+          <CardHeader>
+            <CardTitle>{results ? t.resultsTitle : t.importingTitle}</CardTitle>
+            <CardDescription>
+              {t.progress
+                .replace("{done}", String(progress.done))
+                .replace("{total}", String(progress.total))}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Progress value={percent} className="h-2" />
+            {results && (
+              <>
+                <ul className="max-h-80 overflow-y-auto divide-y divide-border rounded-md border border-border text-sm">
+                  {results.map((result) => (
+                    <li key={result.id} className="flex items-start gap-2 p-2">
+                      {result.ok && missingAssessments[result.id] ? (
+                        <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-status-warning" />
+                      ) : result.ok ? (
+                        <CheckCircle2 className="h-4 w-4 mt-0.5 shrink-0 text-status-success" />
+                      ) : (
+                        <XCircle className="h-4 w-4 mt-0.5 shrink-0 text-destructive" />
+                      )}
+                      <div className="min-w-0">
+                        <p className="truncate">
+                          <span className="text-muted-foreground">
+                            {t.rowN.replace("{n}", result.id)}
+                          </span>{" "}
+                          {result.label}
+                        </p>
+                        {result.error && (
+                          <p className="text-xs text-destructive">{result.error}</p>
+                        )}
+                        {result.ok && missingAssessments[result.id] && (
+                          <p className="text-xs text-status-warning">
+                            {t.createdWithoutAssessment.replace(
+                              "{error}",
+                              missingAssessments[result.id]
+                            )}
+                          </p>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex justify-between">
+                  <Button variant="outline" onClick={reset}>
+                    {t.importAnother}
+                  </Button>
+                  <Button asChild>
+                    <Link to="/risks">{t.viewRegister}</Link>
+                  </Button>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default RiskImport;
@@ -1,8 +1,9 @@
-import React, { useState, useEffect } from "react";
-import { Link, useNavigate } from "react-router-dom";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import React, { useState, useMemo, useEffect } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Select,
   SelectContent,
@@ -23,10 +24,22 @@ import {
 import { PageLoader } from "@/components/common/Loader";
 import { EmptyState } from "@/components/common/EmptyState";
 import { StatusBadge } from "@/components/common/StatusBadge";
-import { Can } from "@/components/auth";
+import { RiskBulkActions } from "@/components/risks";
+import { useAuth } from "@/auth/authContext";
 import { usePermissions } from "@/hooks/usePermissions";
-import { riskApi } from "@/api";
-import { RISK_CATEGORIES, RISK_STATUSES } from "@/utils/constants";
+import {
+  useRiskPage,
+  useRiskCategories,
+  useDeleteRisk,
+  useUsers,
+} from "@/hooks/queries";
+import {
+  RISK_CATEGORIES,
+  BACKEND_RISK_STATUSES,
+  type BackendRiskStatusType,
+  type RiskCategory,
+} from "@/utils/constants";
+import type { RiskFilters, RiskSort, RiskSortField } from "@/api/riskApi";
 import type { Risk } from "@/types";
 import { useToast } from "@/hooks/use-toast";
 import {
@@ -40,81 +53,239 @@ import {
   AlertTriangle,
   ChevronUp,
   ChevronDown,
+  Upload,
 } from "lucide-react";
 import { useI18n } from "@/i18n";
 import { cn } from "@/lib/utils";
 import { mapBackendCategoryToFrontend } from "@/api/adapters";
 
-type SortField = "title" | "score" | "updatedAt" | "category";
-type SortOrder = "asc" | "desc";
+const PAGE_SIZES = [10, 25, 50, 100];
+const DEFAULT_PAGE_SIZE = 25;
+const DEFAULT_SORT = "-updatedAt";
+const SORT_FIELDS: RiskSortField[] = [
+  "title",
+  "score",
+  "category",
+  "createdAt",
+  "updatedAt",
+];
+const RISK_LEVELS = ["Critical", "High", "Medium", "Low"] as const;
+
+/** URL params that narrow the register (sort and paging are not filters). */
+const FILTER_PARAMS = [
+  "q",
+  "category",
+  "level",
+  "status",
+  "owner",
+  "minScore",
+  "maxScore",
+  "from",
+  "to",
+];
+
+/** Parse `-score,title` from the URL into sort keys, dropping unknown fields. */
+const parseSort = (value: string): RiskSort[] =>
+  value
+    .split(",")
+    .map((key): RiskSort => ({
+      field: key.replace(/^-/, "") as RiskSortField,
+      order: key.startsWith("-") ? "desc" : "asc",
+    }))
+    .filter(({ field }) => SORT_FIELDS.includes(field));
+
+const serializeSort = (sort: RiskSort[]) =>
+  sort
+    .map(({ field, order }) => `${order === "desc" ? "-" : ""}${field}`)
+    .join(",");
+
+const parseNumber = (value: string | null) => {
+  if (value === null || value.trim() === "") return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
 
 const RiskList: React.FC = () => {
   const navigate = useNavigate();
-  const { can, canCreate, canEdit, canDelete } = usePermissions();
+  const { user } = useAuth();
+  const { can, canCreate, canEdit, canDelete, canManageUsers } =
+    usePermissions();
   const { toast } = useToast();
   const { strings, isRTL } = useI18n();
+  const [searchParams, setSearchParams] = useSearchParams();
 
   const getCategoryLabel = (category: string) =>
     (strings.risks.categories as Record<string, string> | undefined)?.[
       category
     ] ?? category;
   const getStatusLabel = (status: string) =>
-    (strings.risks.statuses as Record<string, string> | undefined)?.[status] ??
-    status;
+    (strings.risks.lifecycleStatuses as Record<string, string> | undefined)?.[
+      status
+    ] ?? status;
   const getLevelLabel = (levelLabel: string) =>
     (strings.risks.levels as Record<string, string> | undefined)?.[
       levelLabel
     ] ?? levelLabel;
 
-  const [risks, setRisks] = useState<Risk[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [categories, setCategories] = useState<string[]>([...RISK_CATEGORIES]);
-  const [searchQuery, setSearchQuery] = useState("");
-  const [categoryFilter, setCategoryFilter] = useState<string>("all");
-  const [levelFilter, setLevelFilter] = useState<string>("all");
-  const [statusFilter, setStatusFilter] = useState<string>("all");
-  const [sortField, setSortField] = useState<SortField>("updatedAt");
-  const [sortOrder, setSortOrder] = useState<SortOrder>("desc");
-  const [showFilters, setShowFilters] = useState(false);
+  // Every filter, the sort order and the page live in the URL so a view
+  // can be bookmarked or shared.
+  const searchQuery = searchParams.get("q") ?? "";
+  const categoryFilter = searchParams.get("category") ?? "all";
+  const levelFilter = searchParams.get("level") ?? "all";
+  const statusFilter = searchParams.get("status") ?? "all";
+  const ownerFilter = searchParams.get("owner") ?? "all";
+  const minScore = searchParams.get("minScore") ?? "";
+  const maxScore = searchParams.get("maxScore") ?? "";
+  const createdFrom = searchParams.get("from") ?? "";
+  const createdTo = searchParams.get("to") ?? "";
+  const sortParam = searchParams.get("sort") || DEFAULT_SORT;
+  const sort = useMemo(() => {
+    const parsed = parseSort(sortParam);
+    return parsed.length > 0 ? parsed : parseSort(DEFAULT_SORT);
+  }, [sortParam]);
+  const page = Math.max(1, parseNumber(searchParams.get("page")) ?? 1);
+  const requestedSize = parseNumber(searchParams.get("perPage"));
+  const perPage = PAGE_SIZES.includes(requestedSize)
+    ? requestedSize
+    : DEFAULT_PAGE_SIZE;
+
+  const [searchInput, setSearchInput] = useState(searchQuery);
+  const [showFilters, setShowFilters] = useState(
+    () => !!FILTER_PARAMS.slice(1).find((key) => searchParams.has(key))
+  );
   const [deleteRisk, setDeleteRisk] = useState<Risk | null>(null);
+  // Keyed by risk ID so the selection survives paging and re-sorting.
+  const [selected, setSelected] = useState<Map<string, Risk>>(new Map());
+  const canSelect = canEdit || canDelete || can("canExport");
+
+  /**
+   * Merge changes into the URL, dropping empty values. Any change other
+   * than paging itself sends the user back to the first page.
+   */
+  const updateParams = (
+    changes: Record<string, string | null>,
+    { keepPage = false, replace = false } = {}
+  ) => {
+    setSearchParams(
+      (prev) => {
+        const next = new URLSearchParams(prev);
+        Object.entries(changes).forEach(([key, value]) => {
+          if (value === null || value === "" || value === "all") {
+            next.delete(key);
+          } else {
+            next.set(key, value);
+          }
+        });
+        if (!keepPage) next.delete("page");
+        return next;
+      },
+      { replace }
+    );
+  };
 
+  // Debounce typing before it reaches the URL and the backend.
   useEffect(() => {
-    loadRisks();
-    loadCategories();
-  }, []);
+    if (searchInput === searchQuery) return;
+    const timer = window.setTimeout(
+      () => updateParams({ q: searchInput.trim() }, { replace: true }),
+      300
+    );
+    return () => window.clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchInput]);
 
-  const loadCategories = async () => {
-    try {
-      const data = await riskApi.getCategories();
-      const mapped = data
-        .slice()
-        .sort((a, b) => (a.sort_order ?? 0) - (b.sort_order ?? 0))
-        .map((c) => mapBackendCategoryToFrontend(c.code || c.name || ""))
-        .filter(
-          (v): v is string => typeof v === "string" && v.trim().length > 0
-        );
-      const unique = Array.from(new Set(mapped));
-      if (unique.length > 0) setCategories(unique);
-    } catch {
-      // Keep fallback categories
-    }
-  };
+  // Follow the URL when it changes underneath (clear, back/forward).
+  useEffect(() => {
+    setSearchInput(searchQuery);
+  }, [searchQuery]);
 
-  const loadRisks = async () => {
-    setLoading(true);
-    try {
-      const data = await riskApi.getAll();
-      setRisks(data);
-    } finally {
-      setLoading(false);
+  const filters = useMemo<RiskFilters>(
+    () => ({
+      search: searchQuery || undefined,
+      category:
+        categoryFilter !== "all"
+          ? (categoryFilter as RiskCategory)
+          : undefined,
+      level:
+        levelFilter !== "all"
+          ? (levelFilter as RiskFilters["level"])
+          : undefined,
+      lifecycleStatus:
+        statusFilter !== "all"
+          ? (statusFilter as BackendRiskStatusType)
+          : undefined,
+      ownerId: ownerFilter !== "all" ? parseNumber(ownerFilter) : undefined,
+      minScore: parseNumber(minScore),
+      maxScore: parseNumber(maxScore),
+      createdFrom: createdFrom || undefined,
+      createdTo: createdTo || undefined,
+      sort,
+      page,
+      perPage,
+    }),
+    [
+      searchQuery,
+      categoryFilter,
+      levelFilter,
+      statusFilter,
+      ownerFilter,
+      minScore,
+      maxScore,
+      createdFrom,
+      createdTo,
+      sort,
+      page,
+      perPage,
+    ]
+  );
+
+  const { data: riskPage, isLoading: loading, isFetching } =
+    useRiskPage(filters);
+  const { data: backendCategories } = useRiskCategories();
+  const { data: users } = useUsers(
+    { perPage: 100 },
+    { enabled: canManageUsers }
+  );
+  const deleteRiskMutation = useDeleteRisk();
+
+  const risks = riskPage?.items ?? [];
+  const total = riskPage?.total ?? 0;
+  const totalPages = riskPage?.totalPages ?? 1;
+
+  // A shared link or a deletion can leave us past the last page.
+  useEffect(() => {
+    if (riskPage && page > riskPage.totalPages) {
+      updateParams(
+        { page: riskPage.totalPages > 1 ? String(riskPage.totalPages) : null },
+        { keepPage: true, replace: true }
+      );
     }
-  };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [riskPage, page]);
+
+  const categories = useMemo(() => {
+    const mapped = (backendCategories ?? [])
+      .slice()
+      .sort((a, b) => (a.sort_order ?? 0) - (b.sort_order ?? 0))
+      .map((c) => mapBackendCategoryToFrontend(c.code || c.name || ""))
+      .filter(
+        (v): v is string => typeof v === "string" && v.trim().length > 0
+      );
+    const unique = Array.from(new Set(mapped));
+    // Keep fallback categories until the backend list arrives
+    return unique.length > 0 ? unique : [...RISK_CATEGORIES];
+  }, [backendCategories]);
+
+  // Without user management rights the only owner we can name is ourselves.
+  const owners = useMemo(() => {
+    if (users && users.length > 0) return users;
+    return user ? [user] : [];
+  }, [users, user]);
 
   const handleDelete = async () => {
     if (!deleteRisk) return;
     try {
-      await riskApi.delete(deleteRisk.id);
-      setRisks((prev) => prev.filter((r) => r.id !== deleteRisk.id));
+      await deleteRiskMutation.mutateAsync(deleteRisk.id);
       toast({
         title: strings.risks.toastRiskDeletedTitle,
         description: `${deleteRisk.title} ${strings.risks.toastRiskDeletedDescSuffix}`,
@@ -130,72 +301,101 @@ const RiskList: React.FC = () => {
     }
   };
 
-  const toggleSort = (field: SortField) => {
-    if (sortField === field) {
-      setSortOrder((prev) => (prev === "asc" ? "desc" : "asc"));
+  /**
+   * Plain click sorts by the column alone (toggling direction if it is
+   * already primary); shift-click adds it as a further key or flips it.
+   */
+  const toggleSort = (field: RiskSortField, event: React.MouseEvent) => {
+    const existing = sort.find((key) => key.field === field);
+    const flipped = existing?.order === "asc" ? "desc" : "asc";
+    let next: RiskSort[];
+    if (event.shiftKey) {
+      next = existing
+        ? sort.map((key) =>
+            key.field === field ? { field, order: flipped } : key
+          )
+        : [...sort, { field, order: "asc" }];
     } else {
-      setSortField(field);
-      setSortOrder("asc");
+      next = [
+        {
+          field,
+          order: existing && sort[0].field === field ? flipped : "asc",
+        },
+      ];
     }
+    const value = serializeSort(next);
+    updateParams({ sort: value === DEFAULT_SORT ? null : value });
+  };
+
+  const toggleSelected = (risk: Risk, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Map(prev);
+      if (checked) next.set(risk.id, risk);
+      else next.delete(risk.id);
+      return next;
+    });
+  };
+
+  const togglePageSelected = (checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Map(prev);
+      risks.forEach((risk) =>
+        checked ? next.set(risk.id, risk) : next.delete(risk.id)
+      );
+      return next;
+    });
   };
 
-  const filteredRisks = risks
-    .filter((risk) => {
-      const matchesSearch =
-        !searchQuery ||
-        risk.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        risk.description.toLowerCase().includes(searchQuery.toLowerCase());
-      const matchesCategory =
-        categoryFilter === "all" || risk.category === categoryFilter;
-      const matchesLevel = levelFilter === "all" || risk.level === levelFilter;
-      const matchesStatus =
-        statusFilter === "all" || risk.status === statusFilter;
-      return matchesSearch && matchesCategory && matchesLevel && matchesStatus;
-    })
-    .sort((a, b) => {
-      let comparison = 0;
-      switch (sortField) {
-        case "title":
-          comparison = a.title.localeCompare(b.title);
-          break;
-        case "score":
-          comparison = a.score - b.score;
-          break;
-        case "category":
-          comparison = a.category.localeCompare(b.category);
-          break;
-        case "updatedAt":
-          comparison =
-            new Date(a.updatedAt).getTime() - new Date(b.updatedAt).getTime();
-          break;
-      }
-      return sortOrder === "asc" ? comparison : -comparison;
+  const keepFailedSelected = (failedIds: string[]) => {
+    setSelected((prev) => {
+      const next = new Map<string, Risk>();
+      failedIds.forEach((id) => {
+        const risk = prev.get(id);
+        if (risk) next.set(id, risk);
+      });
+      return next;
     });
+  };
+
+  const selectedOnPage = risks.filter((risk) => selected.has(risk.id)).length;
+  const pageSelectState =
+    selectedOnPage === 0
+      ? false
+      : selectedOnPage === risks.length
+        ? true
+        : "indeterminate";
 
   const clearFilters = () => {
-    setSearchQuery("");
-    setCategoryFilter("all");
-    setLevelFilter("all");
-    setStatusFilter("all");
+    setSearchInput("");
+    updateParams(
+      Object.fromEntries(FILTER_PARAMS.map((key) => [key, null]))
+    );
   };
 
-  const hasActiveFilters =
-    searchQuery ||
-    categoryFilter !== "all" ||
-    levelFilter !== "all" ||
-    statusFilter !== "all";
+  const hasActiveFilters = FILTER_PARAMS.some((key) => searchParams.has(key));
 
   if (loading) return <PageLoader text={strings.risks.loading} />;
 
-  const SortIcon = ({ field }: { field: SortField }) => {
-    if (sortField !== field) return null;
-    return sortOrder === "asc" ? (
-      <ChevronUp className="h-4 w-4" />
-    ) : (
-      <ChevronDown className="h-4 w-4" />
+  const SortIcon = ({ field }: { field: RiskSortField }) => {
+    const index = sort.findIndex((key) => key.field === field);
+    if (index === -1) return null;
+    return (
+      <span className="inline-flex items-center">
+        {sort[index].order === "asc" ? (
+          <ChevronUp className="h-4 w-4" />
+        ) : (
+          <ChevronDown className="h-4 w-4" />
+        )}
+        {sort.length > 1 && (
+          <span className="text-[10px] font-semibold">{index + 1}</span>
+        )}
+      </span>
     );
   };
 
+  const rangeStart = total === 0 ? 0 : (page - 1) * perPage + 1;
+  const rangeEnd = Math.min(page * perPage, total);
+
   return (
     <div className="space-y-6 animate-in">
       {/* Header */}
@@ -203,16 +403,24 @@ const RiskList: React.FC = () => {
         <div>
           <h1 className="text-2xl font-bold">{strings.risks.riskRegister}</h1>
           <p className="text-muted-foreground">
-            {risks.length} {strings.risks.risksTracked}
+            {total} {strings.risks.risksTracked}
           </p>
         </div>
         {canCreate && (
-          <Button asChild>
-            <Link to="/risks/new">
-              <Plus className={isRTL ? "ml-2 h-4 w-4" : "mr-2 h-4 w-4"} />
-              {strings.actions.newRisk}
-            </Link>
-          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" asChild>
+              <Link to="/risks/import">
+                <Upload className={isRTL ? "ml-2 h-4 w-4" : "mr-2 h-4 w-4"} />
+                {strings.risks.import.button}
+              </Link>
+            </Button>
+            <Button asChild>
+              <Link to="/risks/new">
+                <Plus className={isRTL ? "ml-2 h-4 w-4" : "mr-2 h-4 w-4"} />
+                {strings.actions.newRisk}
+              </Link>
+            </Button>
+          </div>
         )}
       </div>
 
@@ -229,8 +437,8 @@ const RiskList: React.FC = () => {
               />
               <Input
                 placeholder={strings.risks.searchPlaceholder}
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
                 className={isRTL ? "pr-10" : "pl-10"}
               />
             </div>
@@ -257,14 +465,14 @@ const RiskList: React.FC = () => {
           </div>
 
           {showFilters && (
-            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mt-4 pt-4 border-t border-border">
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 mt-4 pt-4 border-t border-border">
               <div>
                 <label className="text-sm font-medium mb-2 block">
                   {strings.risks.category}
                 </label>
                 <Select
                   value={categoryFilter}
-                  onValueChange={setCategoryFilter}
+                  onValueChange={(value) => updateParams({ category: value })}
                 >
                   <SelectTrigger>
                     <SelectValue placeholder={strings.risks.allCategories} />
@@ -285,7 +493,10 @@ const RiskList: React.FC = () => {
                 <label className="text-sm font-medium mb-2 block">
                   {strings.risks.riskLevel}
                 </label>
-                <Select value={levelFilter} onValueChange={setLevelFilter}>
+                <Select
+                  value={levelFilter}
+                  onValueChange={(value) => updateParams({ level: value })}
+                >
                   <SelectTrigger>
                     <SelectValue placeholder={strings.risks.allLevels} />
                   </SelectTrigger>
@@ -293,16 +504,11 @@ const RiskList: React.FC = () => {
                     <SelectItem value="all">
                       {strings.risks.allLevels}
                     </SelectItem>
-                    <SelectItem value="Critical">
-                      {getLevelLabel("Critical")}
-                    </SelectItem>
-                    <SelectItem value="High">
-                      {getLevelLabel("High")}
-                    </SelectItem>
-                    <SelectItem value="Medium">
-                      {getLevelLabel("Medium")}
-                    </SelectItem>
-                    <SelectItem value="Low">{getLevelLabel("Low")}</SelectItem>
+                    {RISK_LEVELS.map((level) => (
+                      <SelectItem key={level} value={level}>
+                        {getLevelLabel(level)}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -310,7 +516,10 @@ const RiskList: React.FC = () => {
                 <label className="text-sm font-medium mb-2 block">
                   {strings.risks.status}
                 </label>
-                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <Select
+                  value={statusFilter}
+                  onValueChange={(value) => updateParams({ status: value })}
+                >
                   <SelectTrigger>
                     <SelectValue placeholder={strings.risks.allStatuses} />
                   </SelectTrigger>
@@ -318,7 +527,7 @@ const RiskList: React.FC = () => {
                     <SelectItem value="all">
                       {strings.risks.allStatuses}
                     </SelectItem>
-                    {RISK_STATUSES.map((status) => (
+                    {BACKEND_RISK_STATUSES.map((status) => (
                       <SelectItem key={status} value={status}>
                         {getStatusLabel(status)}
                       </SelectItem>
@@ -326,13 +535,91 @@ const RiskList: React.FC = () => {
                   </SelectContent>
                 </Select>
               </div>
+              <div>
+                <label className="text-sm font-medium mb-2 block">
+                  {strings.risks.owner}
+                </label>
+                <Select
+                  value={ownerFilter}
+                  onValueChange={(value) => updateParams({ owner: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder={strings.risks.allOwners} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">{strings.risks.allOwners}</SelectItem>
+                    {owners.map((owner) => (
+                      <SelectItem
+                        key={owner.id}
+                        value={String(owner._backendId ?? owner.id)}
+                      >
+                        {owner.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="text-sm font-medium mb-2 block">
+                  {strings.risks.scoreRange}
+                </label>
+                <div className="flex gap-2">
+                  <Input
+                    type="number"
+                    min={1}
+                    max={25}
+                    placeholder={strings.risks.scoreMin}
+                    value={minScore}
+                    onChange={(e) => updateParams({ minScore: e.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    min={1}
+                    max={25}
+                    placeholder={strings.risks.scoreMax}
+                    value={maxScore}
+                    onChange={(e) => updateParams({ maxScore: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="text-sm font-medium mb-2 block">
+                  {strings.risks.createdBetween}
+                </label>
+                <div className="flex gap-2">
+                  <Input
+                    type="date"
+                    aria-label={strings.risks.dateFrom}
+                    value={createdFrom}
+                    max={createdTo || undefined}
+                    onChange={(e) => updateParams({ from: e.target.value })}
+                  />
+                  <Input
+                    type="date"
+                    aria-label={strings.risks.dateTo}
+                    value={createdTo}
+                    min={createdFrom || undefined}
+                    onChange={(e) => updateParams({ to: e.target.value })}
+                  />
+                </div>
+              </div>
             </div>
           )}
         </CardContent>
       </Card>
 
+      {canSelect && (
+        <RiskBulkActions
+          selected={Array.from(selected.values())}
+          owners={owners}
+          categories={categories}
+          onClear={() => setSelected(new Map())}
+          onFinished={keepFailedSelected}
+        />
+      )}
+
       {/* Risk Table */}
-      {filteredRisks.length === 0 ? (
+      {total === 0 ? (
         <EmptyState
           icon={AlertTriangle}
           title={strings.risks.noRisksFound}
@@ -351,11 +638,27 @@ const RiskList: React.FC = () => {
           }
         />
       ) : (
-        <Card className="glass-card overflow-hidden">
+        <Card
+          className={cn(
+            "glass-card overflow-hidden transition-opacity",
+            isFetching && "opacity-70"
+          )}
+        >
           <div className="overflow-x-auto">
             <table className="w-full">
               <thead>
                 <tr className="border-b border-border bg-muted/30">
+                  {canSelect && (
+                    <th className="w-10 py-3 px-4">
+                      <Checkbox
+                        checked={pageSelectState}
+                        onCheckedChange={(checked) =>
+                          togglePageSelected(checked === true)
+                        }
+                        aria-label={strings.risks.selectAll}
+                      />
+                    </th>
+                  )}
                   <th
                     className={cn(
                       isRTL ? "text-right" : "text-left",
@@ -369,7 +672,8 @@ const RiskList: React.FC = () => {
                       isRTL ? "text-right" : "text-left",
                       "py-3 px-4 text-sm font-medium text-muted-foreground cursor-pointer hover:text-foreground transition-colors"
                     )}
-                    onClick={() => toggleSort("title")}
+                    onClick={(e) => toggleSort("title", e)}
+                    title={strings.risks.sortHint}
                   >
                     <div className="flex items-center gap-1">
                       {strings.table.title} <SortIcon field="title" />
@@ -380,7 +684,8 @@ const RiskList: React.FC = () => {
                       isRTL ? "text-right" : "text-left",
                       "py-3 px-4 text-sm font-medium text-muted-foreground cursor-pointer hover:text-foreground transition-colors"
                     )}
-                    onClick={() => toggleSort("category")}
+                    onClick={(e) => toggleSort("category", e)}
+                    title={strings.risks.sortHint}
                   >
                     <div className="flex items-center gap-1">
                       {strings.table.category} <SortIcon field="category" />
@@ -394,7 +699,8 @@ const RiskList: React.FC = () => {
                   </th>
                   <th
                     className="text-center py-3 px-4 text-sm font-medium text-muted-foreground cursor-pointer hover:text-foreground transition-colors"
-                    onClick={() => toggleSort("score")}
+                    onClick={(e) => toggleSort("score", e)}
+                    title={strings.risks.sortHint}
                   >
                     <div className="flex items-center justify-center gap-1">
                       {strings.table.score} <SortIcon field="score" />
@@ -429,7 +735,8 @@ const RiskList: React.FC = () => {
                       isRTL ? "text-right" : "text-left",
                       "py-3 px-4 text-sm font-medium text-muted-foreground cursor-pointer hover:text-foreground transition-colors"
                     )}
-                    onClick={() => toggleSort("updatedAt")}
+                    onClick={(e) => toggleSort("updatedAt", e)}
+                    title={strings.risks.sortHint}
                   >
                     <div className="flex items-center gap-1">
                       {strings.table.updated} <SortIcon field="updatedAt" />
@@ -441,12 +748,29 @@ const RiskList: React.FC = () => {
                 </tr>
               </thead>
               <tbody>
-                {filteredRisks.map((risk) => (
+                {risks.map((risk) => (
                   <tr
                     key={risk.id}
                     className="border-b border-border/50 hover:bg-muted/30 transition-colors cursor-pointer"
                     onClick={() => navigate(`/risks/${risk.id}`)}
                   >
+                    {canSelect && (
+                      <td
+                        className="py-3 px-4"
+                        onClick={(e) => e.stopPropagation()}
+                      >
+                        <Checkbox
+                          checked={selected.has(risk.id)}
+                          onCheckedChange={(checked) =>
+                            toggleSelected(risk, checked === true)
+                          }
+                          aria-label={strings.risks.selectRow.replace(
+                            "{code}",
+                            risk.id
+                          )}
+                        />
+                      </td>
+                    )}
                     <td
                       className={cn(
                         isRTL ? "text-right" : "text-left",
@@ -486,8 +810,8 @@ const RiskList: React.FC = () => {
                       {risk.owner}
                     </td>
                     <td className="py-3 px-4">
-                      <StatusBadge status={risk.status}>
-                        {getStatusLabel(risk.status)}
+                      <StatusBadge status={risk.lifecycleStatus}>
+                        {getStatusLabel(risk.lifecycleStatus)}
                       </StatusBadge>
                     </td>
                     <td className="py-3 px-4 text-sm text-muted-foreground">
@@ -527,6 +851,68 @@ const RiskList: React.FC = () => {
               </tbody>
             </table>
           </div>
+
+          {/* Pagination */}
+          <div className="p-4 border-t border-border flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <span className="text-sm text-muted-foreground">
+              {strings.risks.pagination.summary
+                .replace("{from}", String(rangeStart))
+                .replace("{to}", String(rangeEnd))
+                .replace("{total}", String(total))}
+            </span>
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground">
+                {strings.risks.pagination.perPage}
+              </span>
+              <Select
+                value={String(perPage)}
+                onValueChange={(value) =>
+                  updateParams({
+                    perPage: Number(value) === DEFAULT_PAGE_SIZE ? null : value,
+                  })
+                }
+              >
+                <SelectTrigger className="w-[80px] h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAGE_SIZES.map((size) => (
+                    <SelectItem key={size} value={String(size)}>
+                      {size}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  updateParams(
+                    { page: page > 2 ? String(page - 1) : null },
+                    { keepPage: true }
+                  )
+                }
+                disabled={page <= 1 || isFetching}
+              >
+                {strings.risks.pagination.previous}
+              </Button>
+              <span className="text-sm text-muted-foreground">
+                {strings.risks.pagination.pageOf
+                  .replace("{page}", String(page))
+                  .replace("{pages}", String(totalPages))}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  updateParams({ page: String(page + 1) }, { keepPage: true })
+                }
+                disabled={page >= totalPages || isFetching}
+              >
+                {strings.risks.pagination.next}
+              </Button>
+            </div>
+          </div>
         </Card>
       )}
 
@@ -2,3 +2,4 @@ export { default as RiskList } from './RiskList';
 export { default as RiskDetails } from './RiskDetails';
 export { default as RiskForm } from './RiskForm';
 export { default as RisksDashboard } from './RisksDashboard';
+export { default as RiskImport } from './RiskImport';
@@ -1,4 +1,5 @@
 import React, { useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -16,6 +17,11 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { PageLoader } from "@/components/common/Loader";
+import {
+  ImpactScoringSettings,
+  RiskMatrixSettings,
+} from "@/components/settings";
+import { queryKeys, useAssessments, useRisks } from "@/hooks/queries";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/auth/authContext";
 import { userApi } from "@/api";
@@ -29,17 +35,29 @@ import { useI18n } from "@/i18n";
 import { cn } from "@/lib/utils";
 import type { BackendRiskCategory } from "@/types/backend";
 import { riskApi } from "@/api";
+import {
+  maxMatrixScore,
+  smallestMatrixFor,
+  type RiskMatrixConfig,
+} from "@/utils/riskMatrix";
+import {
+  normalizeImpactScoring,
+  type ImpactScoringConfig,
+} from "@/utils/impactScoring";
 
 type Settings = {
   riskMatrixThresholds: { low: number; medium: number; high: number };
   notifications: boolean;
   autoAssessmentReminder: number;
+  riskMatrix: RiskMatrixConfig;
+  impactScoring: ImpactScoringConfig;
 };
 
 const SystemSettings: React.FC = () => {
   const { toast } = useToast();
   const { can } = useAuth();
   const { strings, isRTL } = useI18n();
+  const queryClient = useQueryClient();
 
   const importInputRef = useRef<HTMLInputElement | null>(null);
 
@@ -65,6 +83,14 @@ const SystemSettings: React.FC = () => {
 
   const canEdit = can("canViewSettings");
 
+  // The matrix cannot shrink below ratings that are already recorded.
+  const { data: risks = [] } = useRisks();
+  const { data: assessments = [] } = useAssessments();
+  const minMatrixSize = smallestMatrixFor([
+    ...risks.flatMap((r) => [r.likelihood, r.impact]),
+    ...assessments.flatMap((a) => [a.likelihood, a.impact]),
+  ]);
+
   const downloadJson = (filename: string, data: unknown) => {
     const json = JSON.stringify(data, null, 2);
     const blob = new Blob([json], { type: "application/json;charset=utf-8" });
@@ -333,6 +359,33 @@ const SystemSettings: React.FC = () => {
     );
   };
 
+  // A new size moves the top score, so scale the thresholds with it
+  const setRiskMatrix = (next: RiskMatrixConfig) => {
+    setSettings((prev) => {
+      if (!prev) return prev;
+      if (next.size === prev.riskMatrix.size) {
+        return { ...prev, riskMatrix: next };
+      }
+      // Impact criteria follow the number of impact levels
+      const impactScoring = normalizeImpactScoring(prev.impactScoring, next.size);
+      const ratio = maxMatrixScore(next) / maxMatrixScore(prev.riskMatrix);
+      const { low, medium, high } = prev.riskMatrixThresholds;
+      const scaledLow = Math.max(1, Math.round(low * ratio));
+      const scaledMedium = Math.max(scaledLow + 1, Math.round(medium * ratio));
+      const scaledHigh = Math.max(scaledMedium + 1, Math.round(high * ratio));
+      return {
+        ...prev,
+        riskMatrix: next,
+        impactScoring,
+        riskMatrixThresholds: {
+          low: scaledLow,
+          medium: scaledMedium,
+          high: scaledHigh,
+        },
+      };
+    });
+  };
+
   const save = async () => {
     if (!settings) return;
     if (!canEdit) {
@@ -362,6 +415,49 @@ const SystemSettings: React.FC = () => {
       });
       return;
     }
+    const maxScore = maxMatrixScore(settings.riskMatrix);
+    if (high >= maxScore) {
+      toast({
+        title: strings.system.invalidOrderTitle,
+        description: strings.system.thresholdAboveMatrix
+          .replace("{max}", String(maxScore))
+          .replace(/\{size\}/g, String(settings.riskMatrix.size)),
+        variant: "destructive",
+      });
+      return;
+    }
+    if (settings.riskMatrix.size < minMatrixSize) {
+      toast({
+        title: strings.system.invalidMatrixTitle,
+        description: strings.system.matrixSizeInUse.replace(
+          /\{max\}/g,
+          String(minMatrixSize)
+        ),
+        variant: "destructive",
+      });
+      return;
+    }
+    const { likelihood, impact } = settings.riskMatrix;
+    if ([...likelihood, ...impact].some((level) => !level.label.trim())) {
+      toast({
+        title: strings.system.invalidMatrixTitle,
+        description: strings.system.invalidMatrixLabels,
+        variant: "destructive",
+      });
+      return;
+    }
+    const { rule, dimensions } = settings.impactScoring;
+    if (
+      rule === "weighted_average" &&
+      dimensions.every((dimension) => dimension.weight === 0)
+    ) {
+      toast({
+        title: strings.system.invalidImpactTitle,
+        description: strings.system.invalidImpactWeights,
+        variant: "destructive",
+      });
+      return;
+    }
     if (
       !Number.isFinite(settings.autoAssessmentReminder) ||
       settings.autoAssessmentReminder < 0
@@ -379,10 +475,12 @@ const SystemSettings: React.FC = () => {
       await userApi.updateSystemSettings(settings);
       toast({ title: strings.system.saved });
       await refresh();
-    } catch {
+      queryClient.invalidateQueries({ queryKey: queryKeys.settings.system });
+    } catch (err) {
       toast({
         title: strings.system.saveFailedTitle,
-        description: strings.common.pleaseTryAgain,
+        description:
+          err instanceof Error ? err.message : strings.common.pleaseTryAgain,
         variant: "destructive",
       });
     } finally {
@@ -479,6 +577,23 @@ const SystemSettings: React.FC = () => {
         </CardContent>
       </Card>
 
+      <RiskMatrixSettings
+        value={settings.riskMatrix}
+        thresholds={settings.riskMatrixThresholds}
+        onChange={setRiskMatrix}
+        minSize={minMatrixSize}
+        disabled={!canEdit}
+      />
+
+      <ImpactScoringSettings
+        value={settings.impactScoring}
+        levels={settings.riskMatrix.impact}
+        onChange={(impactScoring) =>
+          setSettings((prev) => (prev ? { ...prev, impactScoring } : prev))
+        }
+        disabled={!canEdit}
+      />
+
       <Card className="glass-card">
         <CardHeader>
           <CardTitle>{strings.system.notificationsTitle}</CardTitle>
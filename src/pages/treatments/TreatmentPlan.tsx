@@ -4,6 +4,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import {
   Select,
@@ -13,7 +15,9 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Progress } from "@/components/ui/progress";
+import { useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { queryKeys } from "@/hooks/queries";
 import { PageLoader } from "@/components/common/Loader";
 import { StatusBadge } from "@/components/common/StatusBadge";
 import {
@@ -36,10 +40,28 @@ import {
 } from "@/components/ui/dialog";
 import { treatmentApi, riskApi } from "@/api";
 import { userApi } from "@/api";
-import { ACTION_STATUSES, TREATMENT_APPROACHES } from "@/utils/constants";
+import { TreatmentPortfolio } from "@/components/treatments";
+import {
+  ACTION_STATUSES,
+  TREATMENT_APPROACHES,
+  type BackendTreatmentStatusType,
+} from "@/utils/constants";
+import {
+  canEditTreatmentDetails,
+  getTreatmentStatus,
+  getTreatmentTransitions,
+} from "@/utils/treatmentWorkflow";
 import { usePermissions } from "@/hooks/usePermissions";
 import type { Risk, Treatment, TreatmentAction, User } from "@/types";
-import { ArrowLeft, Plus, Save, Pencil, Trash2, Loader2 } from "lucide-react";
+import {
+  ArrowLeft,
+  Plus,
+  Save,
+  Pencil,
+  Trash2,
+  Loader2,
+  Lock,
+} from "lucide-react";
 import { useI18n } from "@/i18n";
 
 type ActionDraft = {
@@ -60,10 +82,40 @@ const emptyDraft = (): ActionDraft => ({
   evidenceLink: "",
 });
 
+type PlanForm = {
+  title: string;
+  description: string;
+  targetDate: string;
+  budget: string;
+  actualCost: string;
+};
+
+const planFormFrom = (plan: Treatment | null): PlanForm => ({
+  title: plan?._title ?? "",
+  description: plan?._description ?? "",
+  targetDate: plan?._targetDate ?? "",
+  budget:
+    plan?._estimatedBudget !== undefined && plan._estimatedBudget !== null
+      ? String(plan._estimatedBudget)
+      : "",
+  actualCost:
+    plan?._actualCost !== undefined && plan._actualCost !== null
+      ? String(plan._actualCost)
+      : "",
+});
+
+/** Blank input means "not set"; anything else must be a non-negative number. */
+const parseAmount = (value: string): number | undefined | null => {
+  if (!value.trim()) return undefined;
+  const amount = Number(value);
+  return Number.isFinite(amount) && amount >= 0 ? amount : null;
+};
+
 const TreatmentPlan: React.FC = () => {
   const { riskId } = useParams();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const { can, canEdit, canCreate, canManageUsers } = usePermissions();
   const { strings, isRTL } = useI18n();
 
@@ -83,10 +135,13 @@ const TreatmentPlan: React.FC = () => {
   const [treatmentsByRiskId, setTreatmentsByRiskId] = useState<
     Record<string, Treatment>
   >({});
+  const [allTreatments, setAllTreatments] = useState<Treatment[]>([]);
   const [treatment, setTreatment] = useState<Treatment | null>(null);
   const [approach, setApproach] =
     useState<(typeof TREATMENT_APPROACHES)[number]>("Mitigate");
+  const [planForm, setPlanForm] = useState<PlanForm>(planFormFrom(null));
   const [isSavingPlan, setIsSavingPlan] = useState(false);
+  const [isChangingStatus, setIsChangingStatus] = useState(false);
 
   const [isActionDialogOpen, setIsActionDialogOpen] = useState(false);
   const [editingAction, setEditingAction] = useState<TreatmentAction | null>(
@@ -118,6 +173,40 @@ const TreatmentPlan: React.FC = () => {
     return Math.round((done / treatment.actions.length) * 100);
   }, [treatment]);
 
+  const planStatus = getTreatmentStatus(treatment);
+  const isPlanClosed =
+    planStatus === "completed" || planStatus === "cancelled";
+  const canEditDetails = treatment
+    ? canEditTreatmentDetails(treatment, can)
+    : can("canCreate");
+  const canEditActions = !!treatment && can("canEdit") && !isPlanClosed;
+  const transitions = treatment
+    ? getTreatmentTransitions(treatment, can).filter((option) =>
+        can(option.permission)
+      )
+    : [];
+
+  // Status changes act on the saved plan, so unsaved edits must go first.
+  const isPlanDirty = useMemo(() => {
+    if (!treatment) return false;
+    const saved = planFormFrom(treatment);
+    return (
+      approach !== treatment.approach ||
+      (Object.keys(saved) as (keyof PlanForm)[]).some(
+        (key) => saved[key].trim() !== planForm[key].trim()
+      )
+    );
+  }, [treatment, approach, planForm]);
+
+  const updatePlanForm = (patch: Partial<PlanForm>) =>
+    setPlanForm((prev) => ({ ...prev, ...patch }));
+
+  const applyPlan = (plan: Treatment | null) => {
+    setTreatment(plan);
+    setApproach(plan?.approach ?? "Mitigate");
+    setPlanForm(planFormFrom(plan));
+  };
+
   const getApproachLabel = (value: (typeof TREATMENT_APPROACHES)[number]) => {
     switch (value) {
       case "Mitigate":
@@ -159,6 +248,7 @@ const TreatmentPlan: React.FC = () => {
             (a, b) => (b.score ?? 0) - (a.score ?? 0)
           );
           setRisks(orderedRisks);
+          setAllTreatments(allTreatments);
 
           const byRisk: Record<string, Treatment> = {};
           for (const t of allTreatments) {
@@ -203,8 +293,7 @@ const TreatmentPlan: React.FC = () => {
             ? foundTreatment[0]
             : null
           : foundTreatment;
-        setTreatment(treatmentPlan);
-        setApproach(treatmentPlan?.approach ?? "Mitigate");
+        applyPlan(treatmentPlan);
       } catch {
         toast({
           title: strings.treatments.failedToLoad,
@@ -233,16 +322,21 @@ const TreatmentPlan: React.FC = () => {
     void loadOwners();
   }, [canManageUsers]);
 
+  // This page keeps its own copy of the plan; keep the shared cache used by
+  // RiskDetails in step after every write.
+  const invalidateTreatmentQueries = () =>
+    queryClient.invalidateQueries({ queryKey: queryKeys.treatments.all });
+
   const refreshTreatment = async () => {
     if (!riskId) return;
+    invalidateTreatmentQueries();
     const latestList = await treatmentApi.getByRiskId(riskId);
     const latest = Array.isArray(latestList)
       ? latestList.length > 0
         ? latestList[0]
         : null
       : latestList;
-    setTreatment(latest);
-    setApproach(latest?.approach ?? approach);
+    applyPlan(latest);
   };
 
   const handleCreateOrUpdatePlan = async () => {
@@ -257,28 +351,51 @@ const TreatmentPlan: React.FC = () => {
         });
         return;
       }
-    } else if (!can("canEdit")) {
+    } else if (!canEditDetails) {
       toast({
         title: strings.common.notAllowed,
-        description: strings.treatments.noEditPlanPermission,
+        description: isPlanClosed
+          ? strings.treatments.detailsClosed
+          : strings.treatments.noEditPlanPermission,
         variant: "destructive",
       });
       return;
     }
 
+    const estimatedBudget = parseAmount(planForm.budget);
+    const actualCost = parseAmount(planForm.actualCost);
+    if (estimatedBudget === null || actualCost === null) {
+      toast({
+        title: strings.treatments.saveFailedTitle,
+        description: strings.treatments.invalidBudget,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const details = {
+      approach,
+      title: planForm.title.trim() || undefined,
+      description: planForm.description.trim(),
+      targetDate: planForm.targetDate || undefined,
+      estimatedBudget,
+    };
+
     setIsSavingPlan(true);
     try {
       if (!treatment) {
-        const created = await treatmentApi.create({
-          riskId,
-          approach,
-          actions: [],
-        });
-        setTreatment(created);
+        const created = await treatmentApi.create({ riskId, ...details });
+        applyPlan(created);
+        invalidateTreatmentQueries();
         toast({ title: strings.treatments.created });
       } else {
-        const updated = await treatmentApi.update(treatment.id, { approach });
-        setTreatment(updated);
+        const updated = await treatmentApi.update(treatment.id, {
+          ...details,
+          actualCost,
+        });
+        // Plan updates do not always echo the actions back.
+        applyPlan({ ...updated, actions: treatment.actions });
+        invalidateTreatmentQueries();
         toast({ title: strings.treatments.updated });
       }
     } catch {
@@ -292,6 +409,40 @@ const TreatmentPlan: React.FC = () => {
     }
   };
 
+  const handleTransition = async (next: BackendTreatmentStatusType) => {
+    if (!treatment) return;
+    if (isPlanDirty) {
+      toast({
+        title: strings.treatments.statusChangeFailed,
+        description: strings.treatments.saveDetailsFirst,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsChangingStatus(true);
+    try {
+      const updated = await treatmentApi.changeStatus(treatment.id, next);
+      applyPlan({ ...updated, actions: treatment.actions });
+      invalidateTreatmentQueries();
+      toast({
+        title: strings.treatments.statusChanged.replace(
+          "{status}",
+          strings.treatments.planStatuses[next]
+        ),
+      });
+    } catch (error) {
+      toast({
+        title: strings.treatments.statusChangeFailed,
+        description:
+          error instanceof Error ? error.message : strings.common.pleaseTryAgain,
+        variant: "destructive",
+      });
+    } finally {
+      setIsChangingStatus(false);
+    }
+  };
+
   const openAddAction = () => {
     setEditingAction(null);
     setActionDraft(emptyDraft());
@@ -403,12 +554,26 @@ const TreatmentPlan: React.FC = () => {
     nextStatus: ActionDraft["status"]
   ) => {
     if (!treatment) return;
-    if (!can("canEdit")) return;
+    if (!canEditActions) return;
     try {
       await treatmentApi.updateAction(treatment.id, action.id, {
         status: nextStatus,
       });
-      await refreshTreatment();
+      // Only the action and the plan's progress change; keep any unsaved
+      // plan details the user is editing.
+      const progress = await treatmentApi.getProgress(treatment.id);
+      setTreatment((prev) =>
+        prev
+          ? {
+              ...prev,
+              _progress: progress,
+              actions: prev.actions.map((a) =>
+                a.id === action.id ? { ...a, status: nextStatus } : a
+              ),
+            }
+          : prev
+      );
+      invalidateTreatmentQueries();
     } catch {
       toast({
         title: strings.treatments.updateFailedTitle,
@@ -435,93 +600,110 @@ const TreatmentPlan: React.FC = () => {
             </div>
           </div>
 
-          {risks.length === 0 ? (
-            <Card className="glass-card">
-              <CardContent className="p-6">
-                <p className="text-sm text-muted-foreground">
-                  {strings.treatments.noRisksFound}
-                </p>
-              </CardContent>
-            </Card>
-          ) : (
-            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
-              {risks.map((r) => {
-                const plan = treatmentsByRiskId[r.id];
-                const today = new Date().toISOString().slice(0, 10);
-                const totalActions = plan?.actions?.length ?? 0;
-                const doneActions = plan
-                  ? plan.actions.filter((a) => a.status === "Done").length
-                  : 0;
-                const overdueActions = plan
-                  ? plan.actions.filter(
-                      (a) => a.status !== "Done" && a.dueDate < today
-                    ).length
-                  : 0;
-                const progress =
-                  plan?._progress !== undefined && plan._progress !== null
-                    ? plan._progress
-                    : totalActions === 0
-                    ? 0
-                    : Math.round((doneActions / totalActions) * 100);
-
-                return (
-                  <Card key={r.id} className="glass-card">
-                    <CardHeader className="pb-2">
-                      <CardTitle className="text-base">{r.title}</CardTitle>
-                      <p className="text-xs text-muted-foreground">{r.id}</p>
-                    </CardHeader>
-                    <CardContent className="space-y-3">
-                      <div className="flex items-center gap-2">
-                        <StatusBadge status={r.level}>
-                          {getLevelLabel(r.level)}
-                        </StatusBadge>
-                        <StatusBadge status={r.status}>
-                          {getStatusLabel(r.status)}
-                        </StatusBadge>
-                      </div>
-
-                      {plan ? (
-                        <div className="space-y-2">
-                          <div className="flex items-center justify-between text-xs">
-                            <span className="text-muted-foreground">
-                              {strings.treatments.progress}
-                            </span>
-                            <span className="font-medium">{progress}%</span>
-                          </div>
-                          <Progress className="h-2" value={progress} />
-                          <div className="flex flex-wrap gap-2">
-                            <Badge variant="secondary" className="text-xs">
-                              {strings.treatments.completed}: {doneActions}/
-                              {totalActions}
-                            </Badge>
-                            {overdueActions > 0 && (
-                              <Badge variant="secondary" className="text-xs">
-                                {strings.followup.overdue}: {overdueActions}
-                              </Badge>
-                            )}
-                            <Badge variant="outline" className="text-xs">
-                              {strings.treatments.approach}:{" "}
-                              {getApproachLabel(plan.approach)}
-                            </Badge>
+          <Tabs defaultValue="risks">
+            <TabsList>
+              <TabsTrigger value="risks">
+                {strings.treatments.tabByRisk}
+              </TabsTrigger>
+              <TabsTrigger value="portfolio">
+                {strings.treatments.tabPortfolio}
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="risks" className="mt-4">
+              {risks.length === 0 ? (
+                <Card className="glass-card">
+                  <CardContent className="p-6">
+                    <p className="text-sm text-muted-foreground">
+                      {strings.treatments.noRisksFound}
+                    </p>
+                  </CardContent>
+                </Card>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+                  {risks.map((r) => {
+                    const plan = treatmentsByRiskId[r.id];
+                    const today = new Date().toISOString().slice(0, 10);
+                    const totalActions = plan?.actions?.length ?? 0;
+                    const doneActions = plan
+                      ? plan.actions.filter((a) => a.status === "Done").length
+                      : 0;
+                    const overdueActions = plan
+                      ? plan.actions.filter(
+                          (a) => a.status !== "Done" && a.dueDate < today
+                        ).length
+                      : 0;
+                    const progress =
+                      plan?._progress !== undefined && plan._progress !== null
+                        ? plan._progress
+                        : totalActions === 0
+                        ? 0
+                        : Math.round((doneActions / totalActions) * 100);
+
+                    return (
+                      <Card key={r.id} className="glass-card">
+                        <CardHeader className="pb-2">
+                          <CardTitle className="text-base">{r.title}</CardTitle>
+                          <p className="text-xs text-muted-foreground">{r.id}</p>
+                        </CardHeader>
+                        <CardContent className="space-y-3">
+                          <div className="flex items-center gap-2">
+                            <StatusBadge status={r.level}>
+                              {getLevelLabel(r.level)}
+                            </StatusBadge>
+                            <StatusBadge status={r.status}>
+                              {getStatusLabel(r.status)}
+                            </StatusBadge>
                           </div>
-                        </div>
-                      ) : (
-                        <p className="text-xs text-muted-foreground">
-                          {strings.risks.details.noTreatmentPlan}
-                        </p>
-                      )}
-
-                      <Button asChild variant="outline" className="w-full">
-                        <Link to={`/treatments/${r.id}`}>
-                          {strings.treatments.managePlan}
-                        </Link>
-                      </Button>
-                    </CardContent>
-                  </Card>
-                );
-              })}
-            </div>
-          )}
+
+                          {plan ? (
+                            <div className="space-y-2">
+                              <div className="flex items-center justify-between text-xs">
+                                <span className="text-muted-foreground">
+                                  {strings.treatments.progress}
+                                </span>
+                                <span className="font-medium">{progress}%</span>
+                              </div>
+                              <Progress className="h-2" value={progress} />
+                              <div className="flex flex-wrap gap-2">
+                                <Badge variant="secondary" className="text-xs">
+                                  {strings.treatments.completed}: {doneActions}/
+                                  {totalActions}
+                                </Badge>
+                                {overdueActions > 0 && (
+                                  <Badge variant="secondary" className="text-xs">
+                                    {strings.followup.overdue}: {overdueActions}
+                                  </Badge>
+                                )}
+                                <Badge variant="outline" className="text-xs">
+                                  {strings.treatments.approach}:{" "}
+                                  {getApproachLabel(plan.approach)}
+                                </Badge>
+                              </div>
+                            </div>
+                          ) : (
+                            <p className="text-xs text-muted-foreground">
+                              {strings.risks.details.noTreatmentPlan}
+                            </p>
+                          )}
+
+                          <Button asChild variant="outline" className="w-full">
+                            <Link to={`/treatments/${r.id}`}>
+                              {strings.treatments.managePlan}
+                            </Link>
+                          </Button>
+                        </CardContent>
+                      </Card>
+                    );
+                  })}
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="portfolio" className="mt-4">
+              <TreatmentPortfolio plans={allTreatments} risks={risks} />
+            </TabsContent>
+          </Tabs>
         </>
       ) : (
         <>
@@ -555,7 +737,7 @@ const TreatmentPlan: React.FC = () => {
                   {strings.treatments.viewRisk}
                 </Link>
               </Button>
-              {(treatment ? can("canEdit") : can("canCreate")) && (
+              {canEditDetails && (
                 <Button
                   onClick={handleCreateOrUpdatePlan}
                   disabled={isSavingPlan}
@@ -581,16 +763,110 @@ const TreatmentPlan: React.FC = () => {
 
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
             <Card className="glass-card lg:col-span-1">
-              <CardHeader>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
                 <CardTitle className="text-base">
-                  {strings.treatments.planSettings}
+                  {strings.treatments.planHeader}
                 </CardTitle>
+                {treatment && (
+                  <StatusBadge status={planStatus}>
+                    {strings.treatments.planStatuses[planStatus]}
+                  </StatusBadge>
+                )}
               </CardHeader>
               <CardContent className="space-y-4">
+                {treatment && !canEditDetails && (
+                  <p className="flex items-start gap-2 text-xs text-muted-foreground">
+                    <Lock className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                    {isPlanClosed
+                      ? strings.treatments.detailsClosed
+                      : strings.treatments.detailsLocked}
+                  </p>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="plan-title">
+                    {strings.treatments.planName}
+                  </Label>
+                  <Input
+                    id="plan-title"
+                    value={planForm.title}
+                    disabled={!canEditDetails}
+                    placeholder={strings.treatments.placeholderPlanName}
+                    onChange={(e) => updatePlanForm({ title: e.target.value })}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="plan-description">
+                    {strings.treatments.planDescription}
+                  </Label>
+                  <Textarea
+                    id="plan-description"
+                    rows={3}
+                    value={planForm.description}
+                    disabled={!canEditDetails}
+                    placeholder={strings.treatments.placeholderPlanDescription}
+                    onChange={(e) =>
+                      updatePlanForm({ description: e.target.value })
+                    }
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="plan-target">
+                      {strings.treatments.targetDate}
+                    </Label>
+                    <Input
+                      id="plan-target"
+                      type="date"
+                      value={planForm.targetDate}
+                      disabled={!canEditDetails}
+                      onChange={(e) =>
+                        updatePlanForm({ targetDate: e.target.value })
+                      }
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="plan-budget">
+                      {strings.treatments.budget}
+                    </Label>
+                    <Input
+                      id="plan-budget"
+                      type="number"
+                      min={0}
+                      value={planForm.budget}
+                      disabled={!canEditDetails}
+                      onChange={(e) =>
+                        updatePlanForm({ budget: e.target.value })
+                      }
+                    />
+                  </div>
+                </div>
+
+                {treatment && planStatus !== "draft" && planStatus !== "pending" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="plan-cost">
+                      {strings.treatments.actualCost}
+                    </Label>
+                    <Input
+                      id="plan-cost"
+                      type="number"
+                      min={0}
+                      value={planForm.actualCost}
+                      disabled={!canEditDetails}
+                      onChange={(e) =>
+                        updatePlanForm({ actualCost: e.target.value })
+                      }
+                    />
+                  </div>
+                )}
+
                 <div className="space-y-2">
                   <Label>{strings.treatments.approach}</Label>
                   <Select
                     value={approach}
+                    disabled={!canEditDetails}
                     onValueChange={(v) =>
                       setApproach(v as (typeof TREATMENT_APPROACHES)[number])
                     }
@@ -623,6 +899,42 @@ const TreatmentPlan: React.FC = () => {
                   <Progress className="h-2" value={treatmentProgress} />
                 </div>
 
+                {transitions.length > 0 && (
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium">
+                      {strings.treatments.workflow}
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      {transitions.map((option) => (
+                        <Button
+                          key={option.status}
+                          size="sm"
+                          variant={
+                            option.status === "cancelled" ||
+                            option.status === "draft"
+                              ? "outline"
+                              : "default"
+                          }
+                          disabled={!option.allowed || isChangingStatus}
+                          onClick={() => handleTransition(option.status)}
+                        >
+                          {strings.treatments.transitions[option.status]}
+                        </Button>
+                      ))}
+                    </div>
+                    {transitions
+                      .filter((option) => option.blocker)
+                      .map((option) => (
+                        <p
+                          key={option.status}
+                          className="text-xs text-status-warning"
+                        >
+                          {strings.treatments.blockers[option.blocker]}
+                        </p>
+                      ))}
+                  </div>
+                )}
+
                 {!treatment && (
                   <p className="text-sm text-muted-foreground">
                     {strings.treatments.noPlanYet}
@@ -642,7 +954,7 @@ const TreatmentPlan: React.FC = () => {
                       {strings.followup.overdue}: {overdueActionsCount}
                     </Badge>
                   )}
-                  {treatment && can("canEdit") && (
+                  {canEditActions && (
                     <Button size="sm" onClick={openAddAction}>
                       <Plus
                         className={isRTL ? "ml-2 h-4 w-4" : "mr-2 h-4 w-4"}
@@ -697,7 +1009,7 @@ const TreatmentPlan: React.FC = () => {
                             </div>
 
                             <div className="flex flex-col items-start sm:items-end gap-2">
-                              {can("canEdit") ? (
+                              {canEditActions ? (
                                 <Select
                                   value={action.status}
                                   onValueChange={(v) =>
@@ -724,7 +1036,7 @@ const TreatmentPlan: React.FC = () => {
                                 </StatusBadge>
                               )}
 
-                              {can("canEdit") && (
+                              {canEditActions && (
                                 <div className="flex gap-2">
                                   <Button
                                     size="sm"
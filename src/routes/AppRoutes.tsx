@@ -6,11 +6,18 @@ import { ForgotPassword } from "@/auth/ForgotPassword";
 import { ResetPassword } from "@/auth/ResetPassword";
 import { MainLayout } from "@/components/layout/MainLayout";
 import { Dashboard } from "@/pages/dashboard";
-import { RiskList, RiskDetails, RiskForm, RisksDashboard } from "@/pages/risks";
+import {
+  RiskList,
+  RiskDetails,
+  RiskForm,
+  RisksDashboard,
+  RiskImport,
+} from "@/pages/risks";
 import FollowUp from "@/pages/risks/FollowUp";
 import AnalysisDashboard from "@/pages/analysis/AnalysisDashboard";
 import RiskMatrixPage from "@/pages/analysis/RiskMatrixPage";
 import AssessmentForm from "@/pages/assessments/AssessmentForm";
+import AssessmentReview from "@/pages/assessments/AssessmentReview";
 import TreatmentPlan from "@/pages/treatments/TreatmentPlan";
 import BCPServices from "@/pages/bcp/BCPServices";
 import BCPPlan from "@/pages/bcp/BCPPlan";
@@ -29,10 +36,19 @@ import AuditLog from "@/pages/audit/AuditLog";
 import ExecutiveReport from "@/pages/reports/ExecutiveReport";
 import StandardReport from "@/pages/reports/StandardReport";
 import CustomReport from "@/pages/reports/CustomReport";
+import ScheduledReports from "@/pages/reports/ScheduledReports";
+import RegisterSnapshots from "@/pages/reports/RegisterSnapshots";
 import CommitteeGovernance from "@/pages/committee/CommitteeGovernance";
 import { NotificationsPage } from "@/pages/notifications";
 import { RiskAppetitePage } from "@/pages/risk-appetite";
 import { PolicyDocumentsPage } from "@/pages/policies";
+import { KRIRegister } from "@/pages/kris";
+import { IncidentRegister } from "@/pages/incidents";
+import {
+  ControlLibrary,
+  ControlTests,
+  ControlHealthDashboard,
+} from "@/pages/controls";
 
 const AppRoutes: React.FC = () => {
   return (
@@ -65,6 +81,14 @@ const AppRoutes: React.FC = () => {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/risks/import"
+          element={
+            <ProtectedRoute requirePermission="canCreate">
+              <RiskImport />
+            </ProtectedRoute>
+          }
+        />
         <Route path="/risks/:id" element={<RiskDetails />} />
         <Route
           path="/risks/:id/edit"
@@ -110,6 +134,14 @@ const AppRoutes: React.FC = () => {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/assessments/review"
+          element={
+            <ProtectedRoute requirePermission="canApprove">
+              <AssessmentReview />
+            </ProtectedRoute>
+          }
+        />
 
         {/* Treatments */}
         <Route
@@ -224,6 +256,22 @@ const AppRoutes: React.FC = () => {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/reports/scheduled"
+          element={
+            <ProtectedRoute requirePermission="canViewReports">
+              <ScheduledReports />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/reports/snapshots"
+          element={
+            <ProtectedRoute requirePermission="canViewReports">
+              <RegisterSnapshots />
+            </ProtectedRoute>
+          }
+        />
 
         {/* Committee Governance */}
         <Route
@@ -255,6 +303,52 @@ const AppRoutes: React.FC = () => {
           }
         />
 
+        {/* Key Risk Indicators */}
+        <Route
+          path="/kris"
+          element={
+            <ProtectedRoute requirePermission="canViewFollowUp">
+              <KRIRegister />
+            </ProtectedRoute>
+          }
+        />
+
+        {/* Incidents */}
+        <Route
+          path="/incidents"
+          element={
+            <ProtectedRoute requirePermission="canViewFollowUp">
+              <IncidentRegister />
+            </ProtectedRoute>
+          }
+        />
+
+        {/* Controls */}
+        <Route
+          path="/controls"
+          element={
+            <ProtectedRoute requirePermission="canViewFollowUp">
+              <ControlLibrary />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/controls/tests"
+          element={
+            <ProtectedRoute requirePermission="canViewFollowUp">
+              <ControlTests />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/controls/dashboard"
+          element={
+            <ProtectedRoute requirePermission="canViewFollowUp">
+              <ControlHealthDashboard />
+            </ProtectedRoute>
+          }
+        />
+
         {/* Settings - Admin only */}
         <Route
           path="/settings/roles"
@@ -232,8 +232,11 @@ export interface BackendAssessment {
   assessor?: BackendUser;
   status: BackendAssessmentStatus;
   approved_by?: number;
+  approver?: BackendUser;
   approved_at?: string;
   rejection_reason?: string;
+  /** Controls the assessor relied on for a residual score */
+  control_ids?: number[];
   created_at: string;
   updated_at: string;
 }
@@ -245,6 +248,7 @@ export interface BackendAssessmentCreateRequest {
   impact: number;
   rationale?: string;
   notes?: string;
+  control_ids?: number[];
 }
 
 // ===========================================
@@ -266,6 +270,7 @@ export interface BackendTreatmentPlan {
   assignee_id?: number;
   assignee?: BackendUser;
   created_by?: number;
+  creator?: BackendUser;
   approved_by?: number;
   expected_residual_likelihood?: number;
   expected_residual_impact?: number;
@@ -578,10 +583,233 @@ export interface BackendKRI {
   owner_id?: number;
   owner?: BackendUser;
   notes?: string;
+  is_active?: boolean;
   created_at: string;
   updated_at: string;
 }
 
+export interface BackendKRIValue {
+  id: number;
+  kri_id: number;
+  value: number;
+  status: BackendKRIStatus;
+  notes?: string;
+  recorded_at: string;
+  recorded_by?: number;
+  recorder?: BackendUser;
+}
+
+// ===========================================
+// Control Model
+// ===========================================
+
+export type BackendControlType = "preventive" | "detective" | "corrective";
+
+export type BackendControlAutomation = "manual" | "automated";
+
+export type BackendControlFrequency =
+  | "continuous"
+  | "daily"
+  | "weekly"
+  | "monthly"
+  | "quarterly"
+  | "annually"
+  | "ad_hoc";
+
+export type BackendControlEffectiveness =
+  | "effective"
+  | "partially_effective"
+  | "ineffective"
+  | "not_assessed";
+
+export type BackendControlTestFrequency =
+  | "monthly"
+  | "quarterly"
+  | "semi_annually"
+  | "annually";
+
+export type BackendControlTestResult =
+  | "effective"
+  | "partially_effective"
+  | "ineffective";
+
+export interface BackendControl {
+  id: number;
+  code: string;
+  name: string;
+  description?: string;
+  control_type: BackendControlType;
+  automation: BackendControlAutomation;
+  frequency: BackendControlFrequency;
+  owner_id?: number;
+  owner?: BackendUser;
+  is_active?: boolean;
+  /** Number of risks the control is linked to */
+  risk_count?: number;
+  /** Test plan; a control without a test frequency is not scheduled */
+  test_frequency?: BackendControlTestFrequency;
+  tester_id?: number;
+  tester?: BackendUser;
+  next_test_due?: string;
+  last_tested_at?: string;
+  last_test_result?: BackendControlTestResult;
+  created_at: string;
+  updated_at: string;
+}
+
+/** One performed test of a control and its outcome. */
+export interface BackendControlTest {
+  id: number;
+  control_id: number;
+  control?: BackendControl;
+  tester_id?: number;
+  tester?: BackendUser;
+  tested_at: string;
+  result: BackendControlTestResult;
+  sample_size: number;
+  exceptions: number;
+  evidence?: string;
+  notes?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/** A control applied to a risk, rated for that risk. */
+export interface BackendRiskControl {
+  id: number;
+  risk_id: number;
+  risk?: BackendRisk;
+  control_id: number;
+  control?: BackendControl;
+  design_effectiveness: BackendControlEffectiveness;
+  operating_effectiveness: BackendControlEffectiveness;
+  notes?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// ===========================================
+// Relationship Model
+// ===========================================
+
+/**
+ * "causes" points at another risk, "affects" at a business service and
+ * "governed_by" at a policy document. "monitors" comes from a KRI's own
+ * risk_id and is read-only.
+ */
+export type BackendRiskRelationType =
+  | "causes"
+  | "affects"
+  | "governed_by"
+  | "monitors";
+
+export type BackendRelationshipNodeType = "risk" | "service" | "policy" | "kri";
+
+export interface BackendRiskRelationship {
+  id: number;
+  risk_id: number;
+  relation_type: Exclude<BackendRiskRelationType, "monitors">;
+  target_id: number;
+  notes?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Summary of the entity at the far end of a relationship. */
+export interface BackendRelationshipNode {
+  type: BackendRelationshipNodeType;
+  id: number;
+  code?: string;
+  name: string;
+  /** Risk level, service criticality, policy status or KRI status */
+  status?: string;
+}
+
+/** A relationship as seen from one risk. */
+export interface BackendRiskRelationEdge {
+  /** Absent for derived relationships (KRI monitoring) */
+  id?: number;
+  relation_type: BackendRiskRelationType;
+  /** Incoming when the other risk causes this one, or a KRI monitors it */
+  direction: "outgoing" | "incoming";
+  node: BackendRelationshipNode;
+  notes?: string;
+}
+
+/** A risk that touches a business service, directly or through a cause chain. */
+export interface BackendServiceRisk {
+  risk: BackendRisk;
+  direct: boolean;
+  /** Codes of the risks between this one and the service, nearest first */
+  via?: string[];
+}
+
+// ===========================================
+// Quantification Model
+// ===========================================
+
+export type BackendLossDistribution = "pert" | "lognormal";
+
+/**
+ * A calibrated estimate. PERT uses min / most likely / max; lognormal
+ * reads min and max as the 90% confidence interval (5th and 95th
+ * percentiles) and ignores most_likely.
+ */
+export interface BackendLossRange {
+  distribution: BackendLossDistribution;
+  min: number;
+  most_likely?: number;
+  max: number;
+}
+
+/** FAIR-style inputs for a risk; the simulation itself runs in the browser. */
+export interface BackendRiskQuantification {
+  risk_id: number;
+  /** Loss events per year */
+  frequency: BackendLossRange;
+  /** Loss per event */
+  magnitude: BackendLossRange;
+  currency: string;
+  notes?: string;
+  risk?: BackendRisk;
+  updated_at?: string;
+  updated_by_id?: number;
+  updated_by?: BackendUser;
+}
+
+// ===========================================
+// Bow-Tie Model
+// ===========================================
+
+/**
+ * A barrier on a cause path (preventive) or a consequence path
+ * (mitigating). Barriers without an id are new and get one on save.
+ */
+export interface BackendBowTieBarrier {
+  id?: number;
+  description: string;
+  /** Treatment action that puts the barrier in place */
+  action_id?: number | null;
+  action?: BackendTreatmentAction;
+}
+
+export interface BackendBowTiePath {
+  id?: number;
+  description: string;
+  barriers: BackendBowTieBarrier[];
+}
+
+/** One bow-tie per risk: causes -> top event -> consequences. */
+export interface BackendBowTie {
+  risk_id: number;
+  top_event: string;
+  causes: BackendBowTiePath[];
+  consequences: BackendBowTiePath[];
+  updated_at?: string;
+  updated_by_id?: number;
+  updated_by?: BackendUser;
+}
+
 // ===========================================
 // Incident Model
 // ===========================================
@@ -619,6 +847,7 @@ export interface BackendIncident {
   occurred_at: string;
   detected_at?: string;
   reported_at?: string;
+  investigating_at?: string;
   contained_at?: string;
   resolved_at?: string;
   closed_at?: string;
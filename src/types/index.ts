@@ -25,6 +25,22 @@ import type {
   RiskStage,
   UserRole,
 } from "@/utils/constants";
+import type {
+  BackendKRIFrequency,
+  BackendIncidentCategory,
+  BackendControlType,
+  BackendControlAutomation,
+  BackendControlFrequency,
+  BackendControlEffectiveness,
+  BackendControlTestFrequency,
+  BackendControlTestResult,
+  BackendRiskRelationType,
+  BackendRelationshipNodeType,
+  BackendLossDistribution,
+  BackendRiskStatus,
+  BackendAssessmentStatus,
+} from "./backend";
+import type { ImpactBreakdown } from "@/utils/impactScoring";
 
 // ===========================================
 // Re-export Backend Types
@@ -60,7 +76,10 @@ export interface Risk {
   description: string;
   category: RiskCategory;
   owner: string;
+  /** Summary status (Open / Monitoring / Closed) used by dashboards and reports */
   status: RiskStatus;
+  /** Full backend lifecycle stage, changed only through legal transitions */
+  lifecycleStatus: BackendRiskStatus;
   likelihood: number;
   impact: number;
   score: number;
@@ -74,19 +93,21 @@ export interface Risk {
   _categoryId?: number;
   /** Backend owner ID - used for API calls */
   _ownerId?: number;
-  /** Backend detailed status */
-  _backendStatus?: string;
 }
 
 export interface Assessment {
   id: string;
   riskId: string;
+  /** Title of the assessed risk, when the backend expands it */
+  riskTitle?: string;
   likelihood: number;
   impact: number;
   score: number;
   level: string;
   assessor: string;
   date: string;
+  /** Full creation timestamp; `date` keeps only the day */
+  createdAt?: string;
   notes: string;
   /** Backend ID (numeric) - used for API calls */
   _backendId?: number;
@@ -94,6 +115,19 @@ export interface Assessment {
   _backendRiskId?: number;
   /** Assessment type: inherent or residual */
   _type?: "inherent" | "residual";
+  /** Approval state of the assessment */
+  approvalStatus?: BackendAssessmentStatus;
+  /** Reviewer who approved the assessment */
+  approvedBy?: string;
+  approvedAt?: string;
+  /** Reviewer feedback when the assessment was rejected */
+  rejectionReason?: string;
+  /** Backend ID of the assessor */
+  _assessorId?: number;
+  /** Per-dimension impact scores, when impact was assessed by dimension */
+  impactBreakdown?: ImpactBreakdown;
+  /** Backend IDs of the controls supporting a residual score */
+  _controlIds?: number[];
 }
 
 export interface TreatmentAction {
@@ -122,10 +156,20 @@ export interface Treatment {
   _backendRiskId?: number;
   /** Backend treatment plan title */
   _title?: string;
+  /** Backend treatment plan description */
+  _description?: string;
   /** Backend treatment plan status */
   _status?: string;
   /** Backend treatment plan progress */
   _progress?: number;
+  /** Name of the user who created the plan */
+  _createdBy?: string;
+  /** Planned completion date (YYYY-MM-DD) */
+  _targetDate?: string;
+  _completionDate?: string;
+  /** Budget committed to the plan */
+  _estimatedBudget?: number;
+  _actualCost?: number;
 }
 
 export interface KRI {
@@ -136,6 +180,35 @@ export interface KRI {
   targetValue: number;
   status: "green" | "yellow" | "red";
   updatedAt: string;
+  code?: string;
+  description?: string;
+  thresholdYellow?: number;
+  thresholdRed?: number;
+  isHigherBetter?: boolean;
+  measurementFrequency?: BackendKRIFrequency;
+  nextMeasurementDate?: string;
+  unit?: string;
+  formatType?: "number" | "percentage" | "currency";
+  owner?: string;
+  notes?: string;
+  /** False once the KRI has been retired */
+  isActive?: boolean;
+  /** Backend ID (numeric) - used for API calls */
+  _backendId?: number;
+  /** Backend risk ID (numeric) */
+  _backendRiskId?: number;
+  /** Backend owner ID */
+  _ownerId?: number;
+}
+
+export interface KRIMeasurement {
+  id: string;
+  kriId: string;
+  value: number;
+  status: "green" | "yellow" | "red";
+  notes?: string;
+  recordedAt: string;
+  recordedBy?: string;
 }
 
 export interface AuditLog {
@@ -146,6 +219,9 @@ export interface AuditLog {
   entityType: string;
   entityId: string;
   details: string;
+  /** Field values before / after the change, when the backend records them */
+  oldValues?: Record<string, unknown>;
+  newValues?: Record<string, unknown>;
   /** Backend ID (numeric) */
   _backendId?: number;
 }
@@ -197,7 +273,168 @@ export interface Incident {
   title: string;
   date: string;
   severity: "Low" | "Medium" | "High" | "Critical";
-  status: "Open" | "Investigating" | "Resolved";
+  status: "Open" | "Investigating" | "Contained" | "Resolved" | "Closed";
+  code?: string;
+  description?: string;
+  category?: BackendIncidentCategory;
+  /** Lifecycle timestamps, one per status reached */
+  reportedAt?: string;
+  investigatingAt?: string;
+  containedAt?: string;
+  resolvedAt?: string;
+  closedAt?: string;
+  impactDescription?: string;
+  financialImpact?: number;
+  affectedSystems?: string[];
+  rootCause?: string;
+  correctiveActions?: string[];
+  lessonsLearned?: string;
+  reporter?: string;
+  assignee?: string;
+  /** Backend ID (numeric) - used for API calls */
+  _backendId?: number;
+  /** Backend risk ID (numeric) */
+  _backendRiskId?: number;
+  /** Backend assignee ID */
+  _assigneeId?: number;
+}
+
+export interface Control {
+  id: string;
+  code: string;
+  name: string;
+  description?: string;
+  type: BackendControlType;
+  automation: BackendControlAutomation;
+  frequency: BackendControlFrequency;
+  owner?: string;
+  /** False once the control has been retired */
+  isActive?: boolean;
+  riskCount?: number;
+  testFrequency?: BackendControlTestFrequency;
+  tester?: string;
+  nextTestDue?: string;
+  lastTestedAt?: string;
+  lastTestResult?: BackendControlTestResult;
+  /** Backend ID (numeric) - used for API calls */
+  _backendId?: number;
+  /** Backend owner ID */
+  _ownerId?: number;
+  /** Backend tester ID */
+  _testerId?: number;
+}
+
+/** A control linked to a risk, with its effectiveness for that risk. */
+export interface RiskControl {
+  id: string;
+  riskId: string;
+  riskTitle?: string;
+  control: Control;
+  designEffectiveness: BackendControlEffectiveness;
+  operatingEffectiveness: BackendControlEffectiveness;
+  notes?: string;
+  updatedAt: string;
+  /** Backend link ID (numeric) - used for API calls */
+  _backendId?: number;
+  /** Backend risk ID (numeric) */
+  _backendRiskId?: number;
+}
+
+/** A recorded test of a control. */
+export interface ControlTest {
+  id: string;
+  controlId: string;
+  controlCode?: string;
+  controlName?: string;
+  tester?: string;
+  testedAt: string;
+  result: BackendControlTestResult;
+  sampleSize: number;
+  exceptions: number;
+  evidence?: string;
+  notes?: string;
+  /** Backend ID (numeric) - used for API calls */
+  _backendId?: number;
+  /** Backend control ID (numeric) */
+  _backendControlId?: number;
+}
+
+/** Entity at the far end of a risk relationship. */
+export interface RelationshipNode {
+  type: BackendRelationshipNodeType;
+  /** Frontend ID, e.g. RISK-003 or SVC-001 */
+  id: string;
+  code?: string;
+  name: string;
+  status?: string;
+  /** Backend ID (numeric) */
+  _backendId: number;
+}
+
+export interface RiskRelationship {
+  id: string;
+  type: BackendRiskRelationType;
+  direction: "outgoing" | "incoming";
+  node: RelationshipNode;
+  notes?: string;
+  /** Derived from another record and cannot be removed here */
+  derived: boolean;
+  /** Backend ID (numeric) - used for API calls */
+  _backendId?: number;
+}
+
+export interface ServiceRisk {
+  risk: Risk;
+  direct: boolean;
+  via: string[];
+}
+
+export interface LossRange {
+  distribution: BackendLossDistribution;
+  min: number;
+  mostLikely?: number;
+  max: number;
+}
+
+export interface RiskQuantification {
+  riskId: string;
+  riskTitle?: string;
+  /** Loss event frequency, events per year */
+  frequency: LossRange;
+  /** Loss magnitude per event */
+  magnitude: LossRange;
+  currency: string;
+  notes?: string;
+  updatedAt?: string;
+  updatedBy?: string;
+  _backendRiskId: number;
+}
+
+export interface BowTieBarrier {
+  id: string;
+  description: string;
+  /** Linked treatment action, if any */
+  action?: TreatmentAction;
+  _backendId?: number;
+  _actionId?: number;
+}
+
+export interface BowTiePath {
+  id: string;
+  description: string;
+  barriers: BowTieBarrier[];
+  _backendId?: number;
+}
+
+export interface BowTie {
+  riskId: string;
+  topEvent: string;
+  /** Left side, each with its preventive barriers */
+  causes: BowTiePath[];
+  /** Right side, each with its mitigating barriers */
+  consequences: BowTiePath[];
+  updatedAt?: string;
+  updatedBy?: string;
 }
 
 // ===========================================
@@ -0,0 +1,89 @@
+/**
+ * Appetite Trend
+ *
+ * Movement between two recorded appetite check runs: which risks crossed
+ * out of appetite, which came back within it, and which moved between
+ * levels without crossing the limit. Risks are matched on their backend ID.
+ */
+
+import type {
+  AppetiteCheckDetail,
+  AppetiteCheckRun,
+  AppetiteLevel,
+} from "@/api/riskAppetiteApi";
+
+export interface AppetiteLevelChange {
+  riskId: number;
+  code: string;
+  title: string;
+  /** Undefined when the risk was not checked in that run */
+  from?: AppetiteLevel;
+  to?: AppetiteLevel;
+  scoreBefore?: number;
+  scoreAfter?: number;
+}
+
+export interface AppetiteRunDiff {
+  /** Within or approaching before, exceeded or critical after */
+  crossedOut: AppetiteLevelChange[];
+  /** Exceeded or critical before, within or approaching after */
+  crossedIn: AppetiteLevelChange[];
+  /** Level changed on the same side of the limit, or the risk came or went */
+  otherChanges: AppetiteLevelChange[];
+}
+
+const isBreach = (level?: AppetiteLevel) =>
+  level === "exceeded" || level === "critical";
+
+const toChange = (
+  before?: AppetiteCheckDetail,
+  after?: AppetiteCheckDetail
+): AppetiteLevelChange => {
+  const current = after ?? before;
+  return {
+    riskId: current.risk_id,
+    code: current.risk_code,
+    title: current.title ?? current.risk_code,
+    from: before?.level,
+    to: after?.level,
+    scoreBefore: before?.score,
+    scoreAfter: after?.score,
+  };
+};
+
+export const diffAppetiteRuns = (
+  before: AppetiteCheckRun,
+  after: AppetiteCheckRun
+): AppetiteRunDiff => {
+  const previous = new Map(before.details.map((d) => [d.risk_id, d]));
+  const current = new Map(after.details.map((d) => [d.risk_id, d]));
+  const diff: AppetiteRunDiff = { crossedOut: [], crossedIn: [], otherChanges: [] };
+
+  after.details.forEach((detail) => {
+    const earlier = previous.get(detail.risk_id);
+    if (!earlier) {
+      const change = toChange(undefined, detail);
+      (isBreach(detail.level) ? diff.crossedOut : diff.otherChanges).push(change);
+      return;
+    }
+    if (earlier.level === detail.level) return;
+    const change = toChange(earlier, detail);
+    if (!isBreach(earlier.level) && isBreach(detail.level)) {
+      diff.crossedOut.push(change);
+    } else if (isBreach(earlier.level) && !isBreach(detail.level)) {
+      diff.crossedIn.push(change);
+    } else {
+      diff.otherChanges.push(change);
+    }
+  });
+
+  // A breaching risk that was closed or removed has left the breach list
+  before.details
+    .filter((detail) => !current.has(detail.risk_id))
+    .forEach((detail) => {
+      const change = toChange(detail, undefined);
+      (isBreach(detail.level) ? diff.crossedIn : diff.otherChanges).push(change);
+    });
+
+  return diff;
+};
@@ -0,0 +1,64 @@
+/**
+ * Bulk Operations
+ *
+ * Runs one operation per item, one batch at a time, so progress can be
+ * reported as it goes and a single failure does not stop the rest.
+ */
+
+export interface BulkItemResult {
+  id: string;
+  label: string;
+  ok: boolean;
+  error?: string;
+}
+
+export interface BulkProgress {
+  done: number;
+  total: number;
+}
+
+export interface BulkItem {
+  id: string;
+  label: string;
+}
+
+const runItem = async <T extends BulkItem>(
+  item: T,
+  operation: (item: T) => Promise<unknown>
+): Promise<BulkItemResult> => {
+  try {
+    await operation(item);
+    return { id: item.id, label: item.label, ok: true };
+  } catch (error) {
+    return {
+      id: item.id,
+      label: item.label,
+      ok: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+};
+
+/**
+ * Apply `operation` to every item. Items within a batch run in parallel;
+ * the default batch size of 1 keeps them strictly sequential.
+ */
+export const runBulkOperation = async <T extends BulkItem>(
+  items: T[],
+  operation: (item: T) => Promise<unknown>,
+  onProgress?: (progress: BulkProgress) => void,
+  batchSize = 1
+): Promise<BulkItemResult[]> => {
+  const results: BulkItemResult[] = [];
+  onProgress?.({ done: 0, total: items.length });
+
+  for (let start = 0; start < items.length; start += batchSize) {
+    const batch = items.slice(start, start + batchSize);
+    results.push(
+      ...(await Promise.all(batch.map((item) => runItem(item, operation))))
+    );
+    onProgress?.({ done: results.length, total: items.length });
+  }
+
+  return results;
+};
@@ -1,3 +1,9 @@
+import {
+  matrixCellKey,
+  normalizeRiskMatrix,
+  type RiskMatrixConfig,
+} from "./riskMatrix";
+
 // Risk Matrix Thresholds
 export const RISK_MATRIX_THRESHOLDS = {
   LOW: { max: 4, label: "Low", color: "status-low" },
@@ -58,6 +64,107 @@ export const BACKEND_ACTION_PRIORITIES = [
 export type BackendActionPriorityType =
   (typeof BACKEND_ACTION_PRIORITIES)[number];
 
+export const BACKEND_KRI_FREQUENCIES = [
+  "daily",
+  "weekly",
+  "monthly",
+  "quarterly",
+  "annually",
+] as const;
+
+export const BACKEND_CONTROL_TYPES = [
+  "preventive",
+  "detective",
+  "corrective",
+] as const;
+
+export const BACKEND_CONTROL_AUTOMATIONS = ["manual", "automated"] as const;
+
+export const BACKEND_CONTROL_FREQUENCIES = [
+  "continuous",
+  "daily",
+  "weekly",
+  "monthly",
+  "quarterly",
+  "annually",
+  "ad_hoc",
+] as const;
+
+/** Effectiveness ratings, best first. */
+export const BACKEND_CONTROL_EFFECTIVENESS = [
+  "effective",
+  "partially_effective",
+  "ineffective",
+  "not_assessed",
+] as const;
+
+export type BackendControlEffectivenessType =
+  (typeof BACKEND_CONTROL_EFFECTIVENESS)[number];
+
+/**
+ * A control is only as good as the weaker of its design and operation;
+ * an unrated side leaves the whole control unrated.
+ */
+export const getControlEffectiveness = (
+  design: BackendControlEffectivenessType,
+  operating: BackendControlEffectivenessType
+): BackendControlEffectivenessType =>
+  BACKEND_CONTROL_EFFECTIVENESS[
+    Math.max(
+      BACKEND_CONTROL_EFFECTIVENESS.indexOf(design),
+      BACKEND_CONTROL_EFFECTIVENESS.indexOf(operating)
+    )
+  ];
+
+export const BACKEND_CONTROL_TEST_FREQUENCIES = [
+  "monthly",
+  "quarterly",
+  "semi_annually",
+  "annually",
+] as const;
+
+/** Test outcomes, best first; they double as operating effectiveness ratings. */
+export const BACKEND_CONTROL_TEST_RESULTS = [
+  "effective",
+  "partially_effective",
+  "ineffective",
+] as const;
+
+/** Days before the due date at which a scheduled test counts as due soon. */
+export const CONTROL_TEST_DUE_SOON_DAYS = 14;
+
+export type ControlTestScheduleStatus =
+  | "overdue"
+  | "due_soon"
+  | "scheduled"
+  | "unscheduled";
+
+/** Where a control's next test stands against today's date (YYYY-MM-DD). */
+export const getControlTestStatus = (
+  nextTestDue: string | undefined,
+  today: string = new Date().toISOString().slice(0, 10)
+): ControlTestScheduleStatus => {
+  if (!nextTestDue) return "unscheduled";
+  if (nextTestDue < today) return "overdue";
+  const soon = new Date(today);
+  soon.setDate(soon.getDate() + CONTROL_TEST_DUE_SOON_DAYS);
+  return nextTestDue <= soon.toISOString().slice(0, 10)
+    ? "due_soon"
+    : "scheduled";
+};
+
+/** Incident lifecycle, in the order an incident moves through it. */
+export const BACKEND_INCIDENT_STATUSES = [
+  "open",
+  "investigating",
+  "contained",
+  "resolved",
+  "closed",
+] as const;
+
+export type BackendIncidentStatusType =
+  (typeof BACKEND_INCIDENT_STATUSES)[number];
+
 export const BACKEND_USER_ROLES = [
   "super_admin",
   "risk_manager",
@@ -81,6 +188,41 @@ export const BACKEND_RISK_STATUS_LABELS: Record<
   closed: { ar: "مغلق", en: "Closed" },
 };
 
+/**
+ * Legal next states for each risk lifecycle stage. The backend rejects any
+ * other transition, so the UI only ever offers these.
+ */
+export const RISK_LIFECYCLE_TRANSITIONS: Record<
+  BackendRiskStatusType,
+  BackendRiskStatusType[]
+> = {
+  identified: ["analyzing", "closed"],
+  analyzing: ["analyzed", "identified"],
+  analyzed: ["treating", "accepted", "analyzing"],
+  treating: ["treated", "analyzed"],
+  treated: ["monitoring", "treating"],
+  monitoring: ["closed", "treating", "analyzing"],
+  accepted: ["monitoring", "treating", "closed"],
+  closed: ["identified"],
+};
+
+/**
+ * Treatment plan approval flow. Submitting, starting and completing need
+ * edit rights; approving, cancelling, returning a submitted plan or
+ * reopening a cancelled one needs `canApprove`.
+ */
+export const TREATMENT_PLAN_TRANSITIONS: Record<
+  BackendTreatmentStatusType,
+  BackendTreatmentStatusType[]
+> = {
+  draft: ["pending", "cancelled"],
+  pending: ["approved", "draft"],
+  approved: ["in_progress", "cancelled"],
+  in_progress: ["completed", "cancelled"],
+  completed: [],
+  cancelled: ["draft"],
+};
+
 export const BACKEND_TREATMENT_STRATEGY_LABELS: Record<
   BackendTreatmentStrategyType,
   { ar: string; en: string }
@@ -133,9 +275,50 @@ export const getStoredRiskMatrixThresholds = (): {
   }
 };
 
+/** The configured matrix, or the default 5x5 until settings have loaded. */
+export const getStoredRiskMatrix = (): RiskMatrixConfig => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    return normalizeRiskMatrix(
+      raw ? (JSON.parse(raw) as { riskMatrix?: unknown }).riskMatrix : null
+    );
+  } catch {
+    return normalizeRiskMatrix(null);
+  }
+};
+
+/**
+ * Keep the last loaded system settings so synchronous helpers such as
+ * getRiskLevel follow the configured thresholds and matrix.
+ */
+export const storeSystemSettings = (settings: Record<string, unknown>) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    // ignore
+  }
+};
+
+/**
+ * Level for a score. When the cell is known, an administrator's colour
+ * override for that cell wins over the score thresholds.
+ */
 export const getRiskLevel = (
-  score: number
+  score: number,
+  cell?: { likelihood: number; impact: number }
 ): { label: string; color: string } => {
+  if (cell) {
+    const override =
+      getStoredRiskMatrix().cellColors[
+        matrixCellKey(cell.likelihood, cell.impact)
+      ];
+    if (override) {
+      return RISK_MATRIX_THRESHOLDS[
+        override.toUpperCase() as keyof typeof RISK_MATRIX_THRESHOLDS
+      ];
+    }
+  }
+
   const stored = getStoredRiskMatrixThresholds();
   const lowMax = stored?.low ?? RISK_MATRIX_THRESHOLDS.LOW.max;
   const mediumMax = stored?.medium ?? RISK_MATRIX_THRESHOLDS.MEDIUM.max;
@@ -158,6 +341,9 @@ export const RISK_CATEGORIES = [
   "Security",
 ] as const;
 
+/** Categories offered quantitative (FAIR) analysis; cyber losses are technology losses */
+export const QUANTIFIABLE_CATEGORIES = ["Financial", "Technology", "Security"];
+
 export const RISK_STATUSES = ["Open", "Closed", "Monitoring"] as const;
 
 export const TREATMENT_APPROACHES = [
@@ -202,6 +388,7 @@ export const PERMISSIONS = {
     canViewSettings: true,
     canViewAudit: true,
     canManageUsers: true,
+    canApprove: true,
   },
   "Data Entry": {
     canCreate: true,
@@ -216,6 +403,7 @@ export const PERMISSIONS = {
     canViewSettings: false,
     canViewAudit: false,
     canManageUsers: false,
+    canApprove: false,
   },
   Viewer: {
     canCreate: false,
@@ -230,6 +418,7 @@ export const PERMISSIONS = {
     canViewSettings: false,
     canViewAudit: false,
     canManageUsers: false,
+    canApprove: false,
   },
 };
 
@@ -0,0 +1,252 @@
+/**
+ * Impact Scoring
+ *
+ * Impact assessed separately per dimension and combined into the overall
+ * impact by a configurable rule. The breakdown travels in the assessment
+ * rationale as a short block with stable keys, so it reads well in the
+ * audit trail and can be parsed back for display.
+ */
+
+export const IMPACT_DIMENSIONS = [
+  "financial",
+  "reputational",
+  "regulatory",
+  "operational",
+  "health_safety",
+] as const;
+
+export type ImpactDimensionKey = (typeof IMPACT_DIMENSIONS)[number];
+
+export const IMPACT_AGGREGATION_RULES = [
+  "max",
+  "weighted_average",
+  "top_two_average",
+] as const;
+
+export type ImpactAggregationRule = (typeof IMPACT_AGGREGATION_RULES)[number];
+
+export interface ImpactDimensionConfig {
+  key: ImpactDimensionKey;
+  /** Relative weight, only used by the weighted average rule */
+  weight: number;
+  /** Criteria per impact level; index 0 is level 1 */
+  criteria: string[];
+}
+
+export interface ImpactScoringConfig {
+  rule: ImpactAggregationRule;
+  dimensions: ImpactDimensionConfig[];
+}
+
+export interface ImpactDimensionScore {
+  dimension: ImpactDimensionKey;
+  score: number;
+  weight: number;
+}
+
+export interface ImpactBreakdown {
+  rule: ImpactAggregationRule;
+  scores: ImpactDimensionScore[];
+  overall: number;
+}
+
+const DEFAULT_CRITERIA: Record<ImpactDimensionKey, string[]> = {
+  financial: [
+    "< $10K",
+    "$10K - $100K",
+    "$100K - $1M",
+    "$1M - $10M",
+    "> $10M",
+  ],
+  reputational: [
+    "No external attention",
+    "Local complaints",
+    "Regional media coverage",
+    "National media coverage",
+    "Sustained international coverage",
+  ],
+  regulatory: [
+    "No breach",
+    "Minor breach, self-reported",
+    "Regulator inquiry",
+    "Formal investigation or fine",
+    "Licence suspension or prosecution",
+  ],
+  operational: [
+    "No noticeable disruption",
+    "Disruption under 4 hours",
+    "Disruption under 1 day",
+    "Critical service down 1 - 3 days",
+    "Critical service down over 3 days",
+  ],
+  health_safety: [
+    "No injury",
+    "First aid case",
+    "Medical treatment or lost time",
+    "Serious injury",
+    "Fatality",
+  ],
+};
+
+const DEFAULT_WEIGHTS: Record<ImpactDimensionKey, number> = {
+  financial: 30,
+  reputational: 20,
+  regulatory: 20,
+  operational: 20,
+  health_safety: 10,
+};
+
+export const DEFAULT_IMPACT_SCORING: ImpactScoringConfig = {
+  rule: "max",
+  dimensions: IMPACT_DIMENSIONS.map((key) => ({
+    key,
+    weight: DEFAULT_WEIGHTS[key],
+    criteria: DEFAULT_CRITERIA[key],
+  })),
+};
+
+const fitCriteria = (criteria: string[], size: number) =>
+  Array.from({ length: size }, (_, i) => criteria[i] ?? "");
+
+/**
+ * Read a stored or server-sent configuration. Criteria are fitted to the
+ * matrix size so every impact level has a slot.
+ */
+export const normalizeImpactScoring = (
+  raw: unknown,
+  size: number
+): ImpactScoringConfig => {
+  const value = (raw && typeof raw === "object" ? raw : {}) as Partial<{
+    rule: unknown;
+    dimensions: unknown;
+  }>;
+  const rule = IMPACT_AGGREGATION_RULES.includes(
+    value.rule as ImpactAggregationRule
+  )
+    ? (value.rule as ImpactAggregationRule)
+    : DEFAULT_IMPACT_SCORING.rule;
+  const stored = Array.isArray(value.dimensions)
+    ? (value.dimensions as Partial<ImpactDimensionConfig>[])
+    : [];
+
+  return {
+    rule,
+    dimensions: DEFAULT_IMPACT_SCORING.dimensions.map((fallback) => {
+      const match = stored.find((d) => d?.key === fallback.key);
+      const weight = Number(match?.weight);
+      return {
+        key: fallback.key,
+        weight: Number.isFinite(weight) && weight >= 0 ? weight : fallback.weight,
+        criteria: fitCriteria(
+          Array.isArray(match?.criteria)
+            ? match.criteria.map((c) => String(c ?? ""))
+            : fallback.criteria,
+          size
+        ),
+      };
+    }),
+  };
+};
+
+/** Overall impact for a set of dimension scores, on the same 1..size scale. */
+export const aggregateImpact = (
+  rule: ImpactAggregationRule,
+  scores: ImpactDimensionScore[]
+): number => {
+  if (scores.length === 0) return 1;
+  const values = scores.map((s) => s.score);
+  let overall: number;
+  if (rule === "weighted_average") {
+    const totalWeight = scores.reduce((sum, s) => sum + s.weight, 0);
+    overall = totalWeight
+      ? scores.reduce((sum, s) => sum + s.score * s.weight, 0) / totalWeight
+      : Math.max(...values);
+  } else if (rule === "top_two_average") {
+    const [first, second = first] = [...values].sort((a, b) => b - a);
+    overall = (first + second) / 2;
+  } else {
+    overall = Math.max(...values);
+  }
+  // Halves round up: an impact between two levels is scored at the worse one
+  return Math.max(1, Math.round(overall));
+};
+
+export const buildImpactBreakdown = (
+  config: ImpactScoringConfig,
+  scores: Partial<Record<ImpactDimensionKey, number>>
+): ImpactBreakdown => {
+  const dimensionScores = config.dimensions.map((d) => ({
+    dimension: d.key,
+    score: scores[d.key] ?? 1,
+    weight: d.weight,
+  }));
+  return {
+    rule: config.rule,
+    scores: dimensionScores,
+    overall: aggregateImpact(config.rule, dimensionScores),
+  };
+};
+
+const BLOCK_HEADER = "Impact by dimension";
+
+/**
+ * Rationale text for an assessment: the breakdown block first, then any
+ * free-text rationale the assessor added.
+ *
+ *   Impact by dimension [rule: weighted_average]
+ *   - financial: 4 (weight 30)
+ *   ...
+ *   Overall impact: 3
+ */
+export const formatImpactRationale = (
+  breakdown: ImpactBreakdown,
+  text?: string
+) =>
+  [
+    `${BLOCK_HEADER} [rule: ${breakdown.rule}]`,
+    ...breakdown.scores.map(
+      (s) => `- ${s.dimension}: ${s.score} (weight ${s.weight})`
+    ),
+    `Overall impact: ${breakdown.overall}`,
+    ...(text?.trim() ? ["", text.trim()] : []),
+  ].join("\n");
+
+/** Split a rationale back into its breakdown and remaining text. */
+export const parseImpactRationale = (
+  rationale?: string
+): { breakdown?: ImpactBreakdown; text: string } => {
+  if (!rationale?.startsWith(BLOCK_HEADER)) return { text: rationale ?? "" };
+  const lines = rationale.split("\n");
+  const rule = /\[rule: (\w+)\]/.exec(lines[0])?.[1] as ImpactAggregationRule;
+  const scores: ImpactDimensionScore[] = [];
+  let overall: number | undefined;
+  let index = 1;
+  for (; index < lines.length; index++) {
+    const score = /^- (\w+): (\d+)(?: \(weight ([\d.]+)\))?$/.exec(lines[index]);
+    if (score && IMPACT_DIMENSIONS.includes(score[1] as ImpactDimensionKey)) {
+      scores.push({
+        dimension: score[1] as ImpactDimensionKey,
+        score: Number(score[2]),
+        weight: Number(score[3] ?? 0),
+      });
+      continue;
+    }
+    const total = /^Overall impact: (\d+)$/.exec(lines[index]);
+    if (total) {
+      overall = Number(total[1]);
+      index += 1;
+    }
+    break;
+  }
+  if (!IMPACT_AGGREGATION_RULES.includes(rule) || scores.length === 0) {
+    return { text: rationale };
+  }
+  return {
+    breakdown: {
+      rule,
+      scores,
+      overall: overall ?? aggregateImpact(rule, scores),
+    },
+    text: lines.slice(index).join("\n").trim(),
+  };
+};
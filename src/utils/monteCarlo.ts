@@ -0,0 +1,253 @@
+/**
+ * Monte Carlo
+ *
+ * FAIR-style annualised loss simulation. Each simulated year draws a loss
+ * event frequency, the number of loss events that year (Poisson) and a
+ * magnitude for every event; the year's loss is their sum. Runs inside
+ * workers/monteCarlo.worker.ts so large runs do not block the page.
+ */
+
+import type { LossRange, RiskQuantification } from "@/types";
+
+export const DEFAULT_ITERATIONS = 10000;
+
+/** Fixed seed so the same inputs always show the same figures */
+export const SIMULATION_SEED = 20240601;
+
+const EXCEEDANCE_POINTS = 60;
+
+/** z-score of the 95th percentile; lognormal ranges are 90% intervals */
+const Z_95 = 1.6448536;
+
+export interface SimulationRisk {
+  riskId: string;
+  frequency: LossRange;
+  magnitude: LossRange;
+}
+
+export interface LossExceedancePoint {
+  loss: number;
+  /** Probability that a year's loss is above `loss` */
+  probability: number;
+}
+
+export interface SimulationSummary {
+  /** Annualised loss exposure (mean simulated annual loss) */
+  ale: number;
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+  max: number;
+  /** Share of simulated years with at least one loss event */
+  lossProbability: number;
+  curve: LossExceedancePoint[];
+}
+
+export interface SimulationResult {
+  iterations: number;
+  risks: Record<string, SimulationSummary>;
+  /** Risks summed year by year, assuming they are independent */
+  portfolio?: SimulationSummary;
+}
+
+// ===========================================
+// Sampling
+// ===========================================
+
+/** mulberry32 - small, fast and good enough for simulation */
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+type Random = () => number;
+
+const sampleNormal = (random: Random) => {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+/** Marsaglia-Tsang; shapes below one are boosted and scaled back */
+const sampleGamma = (random: Random, shape: number): number => {
+  if (shape < 1) {
+    return sampleGamma(random, shape + 1) * Math.pow(random(), 1 / shape);
+  }
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleNormal(random);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = random();
+    if (u < 1 - 0.0331 * x ** 4) return d * v;
+    if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+  }
+};
+
+const sampleBeta = (random: Random, alpha: number, beta: number) => {
+  const x = sampleGamma(random, alpha);
+  const y = sampleGamma(random, beta);
+  return x / (x + y);
+};
+
+const sampleRange = (random: Random, range: LossRange): number => {
+  if (range.distribution === "lognormal") {
+    const mu = (Math.log(range.min) + Math.log(range.max)) / 2;
+    const sigma = (Math.log(range.max) - Math.log(range.min)) / (2 * Z_95);
+    return Math.exp(mu + sigma * sampleNormal(random));
+  }
+  const spread = range.max - range.min;
+  if (spread <= 0) return range.min;
+  const mostLikely = range.mostLikely ?? (range.min + range.max) / 2;
+  const alpha = 1 + (4 * (mostLikely - range.min)) / spread;
+  const beta = 1 + (4 * (range.max - mostLikely)) / spread;
+  return range.min + sampleBeta(random, alpha, beta) * spread;
+};
+
+/** Knuth for small rates, a rounded normal approximation above 30 */
+const samplePoisson = (random: Random, rate: number) => {
+  if (rate <= 0) return 0;
+  if (rate > 30) {
+    return Math.max(0, Math.round(rate + Math.sqrt(rate) * sampleNormal(random)));
+  }
+  const limit = Math.exp(-rate);
+  let count = 0;
+  let product = random();
+  while (product > limit) {
+    count += 1;
+    product *= random();
+  }
+  return count;
+};
+
+// ===========================================
+// Simulation
+// ===========================================
+
+const simulateRisk = (
+  random: Random,
+  risk: SimulationRisk,
+  iterations: number
+): Float64Array => {
+  const losses = new Float64Array(iterations);
+  for (let i = 0; i < iterations; i += 1) {
+    const events = samplePoisson(random, sampleRange(random, risk.frequency));
+    let loss = 0;
+    for (let e = 0; e < events; e += 1) {
+      loss += sampleRange(random, risk.magnitude);
+    }
+    losses[i] = loss;
+  }
+  return losses;
+};
+
+const percentile = (sorted: Float64Array, p: number) =>
+  sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+
+/** Number of values strictly greater than `value` in an ascending array. */
+const countAbove = (sorted: Float64Array, value: number) => {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (sorted[mid] <= value) low = mid + 1;
+    else high = mid;
+  }
+  return sorted.length - low;
+};
+
+export const summarizeLosses = (losses: Float64Array): SimulationSummary => {
+  const sorted = Float64Array.from(losses).sort();
+  const n = sorted.length;
+  if (n === 0) {
+    return { ale: 0, p50: 0, p90: 0, p95: 0, p99: 0, max: 0, lossProbability: 0, curve: [] };
+  }
+  const ale = sorted.reduce((sum, loss) => sum + loss, 0) / n;
+  // Stop the curve at the 99.9th percentile so one extreme year does not
+  // flatten everything else against the axis
+  const top = percentile(sorted, 0.999) || sorted[n - 1];
+  const curve: LossExceedancePoint[] = [];
+  for (let i = 0; i <= EXCEEDANCE_POINTS; i += 1) {
+    const loss = (top * i) / EXCEEDANCE_POINTS;
+    curve.push({ loss, probability: countAbove(sorted, loss) / n });
+  }
+  return {
+    ale,
+    p50: percentile(sorted, 0.5),
+    p90: percentile(sorted, 0.9),
+    p95: percentile(sorted, 0.95),
+    p99: percentile(sorted, 0.99),
+    max: sorted[n - 1],
+    lossProbability: countAbove(sorted, 0) / n,
+    curve,
+  };
+};
+
+export const runSimulation = (
+  risks: SimulationRisk[],
+  {
+    iterations = DEFAULT_ITERATIONS,
+    seed = SIMULATION_SEED,
+    portfolio = false,
+  }: { iterations?: number; seed?: number; portfolio?: boolean } = {}
+): SimulationResult => {
+  const random = createRandom(seed);
+  const totals = new Float64Array(iterations);
+  const summaries: Record<string, SimulationSummary> = {};
+  risks.forEach((risk) => {
+    const losses = simulateRisk(random, risk, iterations);
+    if (portfolio) losses.forEach((loss, i) => (totals[i] += loss));
+    summaries[risk.riskId] = summarizeLosses(losses);
+  });
+  return {
+    iterations,
+    risks: summaries,
+    portfolio: portfolio ? summarizeLosses(totals) : undefined,
+  };
+};
+
+/** Mean of a range's distribution, for sanity-checking inputs. */
+export const rangeMean = (range: LossRange) => {
+  if (range.distribution === "lognormal") {
+    const mu = (Math.log(range.min) + Math.log(range.max)) / 2;
+    const sigma = (Math.log(range.max) - Math.log(range.min)) / (2 * Z_95);
+    return Math.exp(mu + (sigma * sigma) / 2);
+  }
+  const mostLikely = range.mostLikely ?? (range.min + range.max) / 2;
+  return (range.min + 4 * mostLikely + range.max) / 6;
+};
+
+export const toSimulationRisk = (
+  quantification: RiskQuantification
+): SimulationRisk => ({
+  riskId: quantification.riskId,
+  frequency: quantification.frequency,
+  magnitude: quantification.magnitude,
+});
+
+/** Compact money, e.g. "$1.2M", for figures and chart axes. */
+export const formatLoss = (value: number, currency: string, locale: string) => {
+  try {
+    return new Intl.NumberFormat(locale, {
+      style: "currency",
+      currency,
+      notation: "compact",
+      maximumFractionDigits: 1,
+    }).format(value);
+  } catch {
+    // Unknown currency code
+    return `${Math.round(value).toLocaleString(locale)} ${currency}`;
+  }
+};
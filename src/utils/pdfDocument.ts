@@ -0,0 +1,239 @@
+/**
+ * PDF Document Writer
+ *
+ * Minimal PDF 1.4 writer for vector pages. Text is drawn with embedded
+ * TrueType subsets (Identity-H with a ToUnicode map), so it stays
+ * selectable, searchable and readable by assistive technology, and looks
+ * the same in every viewer.
+ */
+
+export interface PdfPage {
+  /** Content stream operators, in PDF user space (origin bottom-left) */
+  content: string;
+}
+
+/** An embedded font subset; glyph ids in the subset are used as CIDs. */
+export interface PdfFontResource {
+  /** Resource name used by Tf in content streams, e.g. "F1" */
+  name: string;
+  postscriptName: string;
+  /** TrueType subset bytes */
+  file: Uint8Array;
+  /** Advance per CID in 1/1000 em */
+  widths: number[];
+  /** Text each CID stands for, used for copy and search */
+  toUnicode: string[];
+  ascent: number;
+  descent: number;
+  capHeight: number;
+  bbox: number[];
+}
+
+export interface PdfDocumentInfo {
+  title: string;
+  author?: string;
+  /** BCP 47 language of the document, e.g. "ar-SA" */
+  lang?: string;
+  createdAt?: Date;
+}
+
+/** A4 portrait in PDF points (1/72 inch). */
+export const A4_POINTS = { width: 595.28, height: 841.89 };
+
+/** Graphics state resource for translucent fills, used as "/Faded gs". */
+export const PDF_FADED_STATE = "Faded";
+const FADED_ALPHA = 0.35;
+
+const encoder = new TextEncoder();
+
+const utf16Hex = (value: string) =>
+  Array.from(value)
+    .flatMap((char) => {
+      const code = char.codePointAt(0) ?? 0;
+      if (code <= 0xffff) return [code];
+      const offset = code - 0x10000;
+      return [0xd800 + (offset >> 10), 0xdc00 + (offset & 0x3ff)];
+    })
+    .map((unit) => unit.toString(16).padStart(4, "0"))
+    .join("");
+
+/** Escape a string for a PDF literal, as UTF-16BE so any script survives. */
+const pdfText = (value: string) => `<FEFF${utf16Hex(value)}>`;
+
+const pdfDate = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(
+    date.getUTCDate()
+  )}${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(
+    date.getUTCSeconds()
+  )}Z`;
+};
+
+const deflate = async (bytes: Uint8Array) => {
+  const stream = new Blob([bytes.slice()])
+    .stream()
+    .pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/** CMap that maps each CID back to the text it was shaped from. */
+const toUnicodeCMap = (toUnicode: string[]) => {
+  const entries = toUnicode
+    .map((text, cid) =>
+      text ? `<${cid.toString(16).padStart(4, "0")}> <${utf16Hex(text)}>` : ""
+    )
+    .filter(Boolean);
+  const blocks: string[] = [];
+  for (let i = 0; i < entries.length; i += 100) {
+    const block = entries.slice(i, i + 100);
+    blocks.push(`${block.length} beginbfchar\n${block.join("\n")}\nendbfchar`);
+  }
+  return [
+    "/CIDInit /ProcSet findresource begin",
+    "12 dict begin",
+    "begincmap",
+    "/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def",
+    "/CMapName /Adobe-Identity-UCS def",
+    "/CMapType 2 def",
+    "1 begincodespacerange\n<0000> <FFFF>\nendcodespacerange",
+    ...blocks,
+    "endcmap",
+    "CMapName currentdict /CMap defineresource pop",
+    "end",
+    "end",
+  ].join("\n");
+};
+
+/** Subset fonts need a unique six-letter tag in front of their name. */
+const subsetTag = (index: number) =>
+  `PDFRP${String.fromCharCode(65 + (index % 26))}`;
+
+/** Assemble the PDF bytes for the given pages and the fonts they use. */
+export const buildPdf = async (
+  pages: PdfPage[],
+  fonts: PdfFontResource[],
+  info: PdfDocumentInfo
+): Promise<Uint8Array> => {
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  let nextId = 1;
+
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === "string" ? encoder.encode(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const object = (id: number, body: string) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${body}\nendobj\n`);
+  };
+  const stream = async (id: number, data: string | Uint8Array, extra = "") => {
+    const bytes = await deflate(typeof data === "string" ? encoder.encode(data) : data);
+    offsets[id] = length;
+    write(
+      `${id} 0 obj\n<< /Length ${bytes.length} /Filter /FlateDecode${extra} >>\nstream\n`
+    );
+    write(bytes);
+    write("\nendstream\nendobj\n");
+  };
+
+  // Fixed objects first, then fonts, then two per page.
+  const catalogId = nextId++;
+  const pagesId = nextId++;
+  const infoId = nextId++;
+  const resourcesId = nextId++;
+  const fontIds = fonts.map(() => ({
+    type0: nextId++,
+    cidFont: nextId++,
+    descriptor: nextId++,
+    file: nextId++,
+    toUnicode: nextId++,
+  }));
+  const pageIds = pages.map(() => ({ page: nextId++, content: nextId++ }));
+
+  write("%PDF-1.4\n%\xE2\xE3\xCF\xD3\n");
+  object(
+    catalogId,
+    `<< /Type /Catalog /Pages ${pagesId} 0 R` +
+      (info.lang ? ` /Lang ${pdfText(info.lang)}` : "") +
+      " /ViewerPreferences << /DisplayDocTitle true >> >>"
+  );
+  object(
+    pagesId,
+    `<< /Type /Pages /Count ${pages.length} /Kids [${pageIds
+      .map(({ page }) => `${page} 0 R`)
+      .join(" ")}] >>`
+  );
+  object(
+    infoId,
+    `<< /Title ${pdfText(info.title)}` +
+      (info.author ? ` /Author ${pdfText(info.author)}` : "") +
+      ` /CreationDate (${pdfDate(info.createdAt ?? new Date())}) >>`
+  );
+  object(
+    resourcesId,
+    `<< /Font << ${fonts
+      .map((font, i) => `/${font.name} ${fontIds[i].type0} 0 R`)
+      .join(" ")} >>` +
+      ` /ExtGState << /${PDF_FADED_STATE} << /Type /ExtGState /ca ${FADED_ALPHA} >> >> >>`
+  );
+
+  for (const [index, font] of fonts.entries()) {
+    const ids = fontIds[index];
+    const baseFont = `${subsetTag(index)}+${font.postscriptName}`;
+    const round = (value: number) => Math.round(value);
+    object(
+      ids.type0,
+      `<< /Type /Font /Subtype /Type0 /BaseFont /${baseFont}` +
+        ` /Encoding /Identity-H /DescendantFonts [${ids.cidFont} 0 R]` +
+        ` /ToUnicode ${ids.toUnicode} 0 R >>`
+    );
+    object(
+      ids.cidFont,
+      `<< /Type /Font /Subtype /CIDFontType2 /BaseFont /${baseFont}` +
+        " /CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >>" +
+        ` /FontDescriptor ${ids.descriptor} 0 R /CIDToGIDMap /Identity` +
+        ` /W [0 [${Array.from(font.widths, (width) => width ?? 0).join(" ")}]] >>`
+    );
+    object(
+      ids.descriptor,
+      `<< /Type /FontDescriptor /FontName /${baseFont} /Flags 4` +
+        ` /FontBBox [${font.bbox.map(round).join(" ")}] /ItalicAngle 0` +
+        ` /Ascent ${round(font.ascent)} /Descent ${round(font.descent)}` +
+        ` /CapHeight ${round(font.capHeight)} /StemV 80 /FontFile2 ${ids.file} 0 R >>`
+    );
+    await stream(ids.file, font.file, ` /Length1 ${font.file.length}`);
+    await stream(ids.toUnicode, toUnicodeCMap(font.toUnicode));
+  }
+
+  for (const [index, page] of pages.entries()) {
+    const ids = pageIds[index];
+    const { width, height } = A4_POINTS;
+    object(
+      ids.page,
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${width} ${height}]` +
+        ` /Resources ${resourcesId} 0 R /Contents ${ids.content} 0 R >>`
+    );
+    await stream(ids.content, page.content);
+  }
+
+  const objectCount = nextId - 1;
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`);
+  for (let id = 1; id <= objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, "0")} 00000 n \n`);
+  }
+  write(
+    `trailer\n<< /Size ${objectCount + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\n` +
+      `startxref\n${xrefOffset}\n%%EOF\n`
+  );
+
+  const pdf = new Uint8Array(length);
+  let position = 0;
+  chunks.forEach((chunk) => {
+    pdf.set(chunk, position);
+    position += chunk.length;
+  });
+  return pdf;
+};
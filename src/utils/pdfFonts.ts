@@ -0,0 +1,259 @@
+/**
+ * PDF Fonts
+ *
+ * Loads the bundled IBM Plex Sans Arabic faces and turns lines of text into
+ * shaped glyph runs for the PDF writer. Only the glyphs a report uses are
+ * embedded, so exported files stay small and render the same in every
+ * viewer regardless of the fonts installed on the machine.
+ */
+
+import type { Font, Glyph, GlyphPosition, Subset } from "fontkit";
+import regularFontUrl from "@expo-google-fonts/ibm-plex-sans-arabic/400Regular/IBMPlexSansArabic_400Regular.ttf?url";
+import boldFontUrl from "@expo-google-fonts/ibm-plex-sans-arabic/700Bold/IBMPlexSansArabic_700Bold.ttf?url";
+import type { PdfFontResource } from "./pdfDocument";
+
+export interface PdfFontFaces {
+  regular: Font;
+  bold: Font;
+}
+
+let facesRequest: Promise<PdfFontFaces> | null = null;
+
+const fetchFace = async (url: string) => {
+  const [{ create }, response] = await Promise.all([
+    import("fontkit"),
+    fetch(url),
+  ]);
+  if (!response.ok) {
+    throw new Error(`Failed to load PDF font (${response.status})`);
+  }
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  return create(bytes as unknown as Buffer) as Font;
+};
+
+/** Fetch and parse both faces once; later calls reuse the same fonts. */
+export const loadPdfFonts = (): Promise<PdfFontFaces> => {
+  if (!facesRequest) {
+    facesRequest = Promise.all([
+      fetchFace(regularFontUrl),
+      fetchFace(boldFontUrl),
+    ]).then(([regular, bold]) => ({ regular, bold }));
+    facesRequest.catch(() => {
+      facesRequest = null;
+    });
+  }
+  return facesRequest;
+};
+
+// ===========================================
+// Bidi
+// ===========================================
+
+type Direction = "L" | "R";
+
+const RTL_CHARS = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+const ARABIC_DIGITS = /[\u0660-\u0669\u06F0-\u06F9]/;
+const LTR_CHARS = /[\p{L}\p{N}]/u;
+const NUMBER_SUFFIX = /[%\u2030\u00B0]/;
+
+/** Bracket pairs, and the glyph each bracket shows in a right-to-left run. */
+const BRACKETS: Record<string, string> = { "(": ")", "[": "]", "{": "}" };
+const MIRRORED: Record<string, string> = {
+  "(": ")",
+  ")": "(",
+  "[": "]",
+  "]": "[",
+  "{": "}",
+  "}": "{",
+  "<": ">",
+  ">": "<",
+  "\u00AB": "\u00BB",
+  "\u00BB": "\u00AB",
+};
+
+const strongDirection = (
+  char: string,
+  previous: string | undefined
+): Direction | null => {
+  if (ARABIC_DIGITS.test(char)) return "L";
+  if (RTL_CHARS.test(char)) return "R";
+  if (LTR_CHARS.test(char)) return "L";
+  // Keep "45%" together as one number.
+  if (NUMBER_SUFFIX.test(char) && previous && /\p{N}/u.test(previous)) return "L";
+  return null;
+};
+
+/**
+ * Split a line into directional runs in logical order. A simplified form
+ * of the Unicode bidi algorithm that covers report text: letters and
+ * digits are strong, a bracket pair takes the direction of its contents
+ * and context, and other neutrals take the direction of their neighbours
+ * when both sides agree, otherwise the paragraph direction.
+ */
+const directionalRuns = (text: string, rtl: boolean) => {
+  const base: Direction = rtl ? "R" : "L";
+  const chars = Array.from(text);
+  const strong = chars.map((char, i) => strongDirection(char, chars[i - 1]));
+
+  const open: number[] = [];
+  chars.forEach((char, close) => {
+    if (BRACKETS[char]) {
+      open.push(close);
+      return;
+    }
+    let start = open.length - 1;
+    while (start >= 0 && BRACKETS[chars[open[start]]] !== char) start--;
+    if (start < 0) return;
+    const opening = open[start];
+    open.length = start;
+    const inside = strong.slice(opening + 1, close);
+    if (!inside.some(Boolean)) return;
+    // Opposite-direction contents keep that direction only when the text
+    // before the pair runs the same way.
+    const direction = inside.includes(base)
+      ? base
+      : (strong.slice(0, opening).filter(Boolean).pop() ?? base);
+    strong[opening] = direction;
+    strong[close] = direction;
+  });
+
+  const resolved: Direction[] = [];
+  for (let i = 0; i < chars.length; i++) {
+    if (strong[i]) {
+      resolved.push(strong[i]);
+      continue;
+    }
+    let end = i;
+    while (end < chars.length && !strong[end]) end++;
+    const before = i > 0 ? strong[i - 1] : base;
+    const after = end < chars.length ? strong[end] : base;
+    const direction = before === after ? before : base;
+    for (; i < end; i++) resolved.push(direction);
+    i--;
+  }
+
+  const runs: { text: string; direction: Direction }[] = [];
+  chars.forEach((char, i) => {
+    const last = runs[runs.length - 1];
+    if (last && last.direction === resolved[i]) last.text += char;
+    else runs.push({ text: char, direction: resolved[i] });
+  });
+  return runs;
+};
+
+// ===========================================
+// Shaping and subsetting
+// ===========================================
+
+export interface PdfTextLine {
+  /** Glyphs in visual (left to right) order */
+  glyphs: Glyph[];
+  positions: GlyphPosition[];
+  /** Advance in font units */
+  advanceWidth: number;
+}
+
+/**
+ * One face as used by a single document: shapes text and records every
+ * glyph drawn so the writer can embed a matching subset.
+ */
+export class PdfFont {
+  readonly name: string;
+  private readonly face: Font;
+  private readonly subset: Subset;
+  private readonly glyphIds = new Map<number, number>();
+  private readonly widths: number[] = [];
+  private readonly toUnicode: string[] = [];
+  private readonly lines = new Map<string, PdfTextLine>();
+
+  constructor(name: string, face: Font) {
+    this.name = name;
+    this.face = face;
+    this.subset = face.createSubset();
+    this.widths[0] = this.scale(face.getGlyph(0).advanceWidth);
+    this.toUnicode[0] = "";
+  }
+
+  private scale(units: number) {
+    return (units * 1000) / this.face.unitsPerEm;
+  }
+
+  /** Shape a single line; runs are laid out in visual order. */
+  layout(text: string, rtl: boolean): PdfTextLine {
+    const key = `${rtl ? "R" : "L"}${text}`;
+    const cached = this.lines.get(key);
+    if (cached) return cached;
+
+    const runs = directionalRuns(text, rtl).map(({ text: value, direction }) =>
+      direction === "R"
+        ? this.face.layout(
+            Array.from(value, (char) => MIRRORED[char] ?? char).join(""),
+            undefined,
+            "arab",
+            undefined,
+            "rtl"
+          )
+        : this.face.layout(value, undefined, "latn", undefined, "ltr")
+    );
+    if (rtl) runs.reverse();
+    const line: PdfTextLine = {
+      glyphs: runs.flatMap((run) => run.glyphs),
+      positions: runs.flatMap((run) => run.positions),
+      advanceWidth: runs.reduce((sum, run) => sum + run.advanceWidth, 0),
+    };
+    this.lines.set(key, line);
+    return line;
+  }
+
+  /** Width in points at the given font size. */
+  measure(text: string, size: number, rtl: boolean) {
+    return (this.layout(text, rtl).advanceWidth * size) / this.face.unitsPerEm;
+  }
+
+  private glyphId(glyph: Glyph) {
+    const known = this.glyphIds.get(glyph.id);
+    if (known !== undefined) return known;
+    // includeGlyph returns the glyph's id inside the subset.
+    const id = this.subset.includeGlyph(glyph) as unknown as number;
+    this.glyphIds.set(glyph.id, id);
+    this.widths[id] = this.scale(glyph.advanceWidth);
+    this.toUnicode[id] = String.fromCodePoint(...glyph.codePoints);
+    return id;
+  }
+
+  /**
+   * Operand for the TJ operator. Kerning and mark placement become
+   * adjustments between glyphs; vertical offsets are not applied.
+   */
+  textArray(line: PdfTextLine) {
+    const parts: string[] = [];
+    line.glyphs.forEach((glyph, i) => {
+      const { xAdvance, xOffset } = line.positions[i];
+      if (xOffset) parts.push(String(+this.scale(-xOffset).toFixed(2)));
+      parts.push(`<${this.glyphId(glyph).toString(16).padStart(4, "0")}>`);
+      const adjust = xAdvance - xOffset - glyph.advanceWidth;
+      if (adjust) parts.push(String(+this.scale(-adjust).toFixed(2)));
+    });
+    return `[${parts.join(" ")}]`;
+  }
+
+  get used() {
+    return this.glyphIds.size > 0;
+  }
+
+  toResource(): PdfFontResource {
+    const { face } = this;
+    const { minX, minY, maxX, maxY } = face.bbox;
+    return {
+      name: this.name,
+      postscriptName: face.postscriptName,
+      file: this.subset.encode(),
+      widths: this.widths.map((width) => +width.toFixed(2)),
+      toUnicode: this.toUnicode,
+      ascent: this.scale(face.ascent),
+      descent: this.scale(face.descent),
+      capHeight: this.scale(face.capHeight),
+      bbox: [minX, minY, maxX, maxY].map((value) => this.scale(value)),
+    };
+  }
+}
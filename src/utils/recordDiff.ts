@@ -0,0 +1,96 @@
+/**
+ * Record Diff
+ *
+ * Compares two lists of flat records matched on a key field, e.g. two runs
+ * of the same report or two snapshots of the register.
+ */
+
+export type FlatRecord = Record<string, string>;
+
+export interface FieldChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+export interface RecordChange {
+  key: string;
+  before: FlatRecord;
+  after: FlatRecord;
+  changes: FieldChange[];
+}
+
+export interface RecordDiff {
+  key: string;
+  fields: string[];
+  added: FlatRecord[];
+  removed: FlatRecord[];
+  changed: RecordChange[];
+  unchanged: number;
+}
+
+export interface RecordDiffOptions {
+  /** Field that identifies a record in both lists */
+  key: string;
+  /** Fields left out of the comparison, e.g. timestamps */
+  ignore?: string[];
+}
+
+export const tableToRecords = ({
+  headers,
+  rows,
+}: {
+  headers: string[];
+  rows: string[][];
+}): FlatRecord[] =>
+  rows.map((row) =>
+    Object.fromEntries(headers.map((header, i) => [header, row[i] ?? ""]))
+  );
+
+/** First of the usual identifier columns present in every record. */
+export const guessRecordKey = (records: FlatRecord[]): string | undefined =>
+  ["code", "id", "ID", "Code"].find((key) =>
+    records.every((record) => key in record)
+  ) ?? Object.keys(records[0] ?? {})[0];
+
+export const diffRecords = (
+  before: FlatRecord[],
+  after: FlatRecord[],
+  { key, ignore = [] }: RecordDiffOptions
+): RecordDiff => {
+  const skipped = new Set([key, ...ignore]);
+  const fields = Array.from(
+    new Set([...before, ...after].flatMap((record) => Object.keys(record)))
+  ).filter((field) => !skipped.has(field));
+
+  const previous = new Map(before.map((record) => [record[key], record]));
+  const current = new Map(after.map((record) => [record[key], record]));
+
+  const changed: RecordChange[] = [];
+  let unchanged = 0;
+  current.forEach((record, id) => {
+    const old = previous.get(id);
+    if (!old) return;
+    const changes = fields
+      .filter((field) => (old[field] ?? "") !== (record[field] ?? ""))
+      .map((field) => ({
+        field,
+        before: old[field] ?? "",
+        after: record[field] ?? "",
+      }));
+    if (changes.length > 0) {
+      changed.push({ key: id, before: old, after: record, changes });
+    } else {
+      unchanged += 1;
+    }
+  });
+
+  return {
+    key,
+    fields,
+    added: after.filter((record) => !previous.has(record[key])),
+    removed: before.filter((record) => !current.has(record[key])),
+    changed,
+    unchanged,
+  };
+};
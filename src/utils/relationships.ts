@@ -0,0 +1,29 @@
+/**
+ * Relationships
+ *
+ * Where each kind of relationship node opens, and the label a relationship
+ * carries when read from the risk's side.
+ */
+
+import type { RelationshipNode, RiskRelationship } from "@/types";
+
+export const relationshipPath = (node: RelationshipNode): string => {
+  switch (node.type) {
+    case "risk":
+      return `/risks/${node.id}`;
+    case "service":
+      return `/bcp/services?service=${node.id}`;
+    case "policy":
+      return "/policies";
+    case "kri":
+      return "/kris";
+  }
+};
+
+/** Key into the relation labels; causal links read differently from the far end */
+export const relationshipLabelKey = (
+  relationship: RiskRelationship
+): RiskRelationship["type"] | "causedBy" =>
+  relationship.type === "causes" && relationship.direction === "incoming"
+    ? "causedBy"
+    : relationship.type;
@@ -0,0 +1,86 @@
+/**
+ * Report Files
+ *
+ * Saving and reading back the files the backend keeps for generated
+ * reports. Tabular formats are read into rows so two runs can be compared.
+ */
+
+import type { ReportRun } from "@/api/reportApi";
+import { readSpreadsheet, type SpreadsheetData } from "./spreadsheet";
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  "text/csv": "csv",
+  "application/json": "json",
+  "application/pdf": "pdf",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": "xlsx",
+};
+
+const FORMAT_EXTENSIONS: Record<string, string> = {
+  csv: "csv",
+  json: "json",
+  pdf: "pdf",
+  excel: "xlsx",
+};
+
+/** Extension of a stored report, from its content type when the server sends one. */
+export const getReportExtension = (run: ReportRun, blob: Blob) =>
+  FILE_EXTENSIONS[blob.type.split(";")[0]] ??
+  FORMAT_EXTENSIONS[run.format] ??
+  "csv";
+
+export const getReportFileName = (run: ReportRun, blob: Blob) =>
+  `${run.type}-report-${run.generatedAt.slice(0, 10)}-${run.id}.${getReportExtension(
+    run,
+    blob
+  )}`;
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+};
+
+const cellText = (value: unknown) =>
+  value === null || value === undefined
+    ? ""
+    : typeof value === "object"
+    ? JSON.stringify(value)
+    : String(value);
+
+/**
+ * Read a stored report as a table. JSON reports are arrays of flat
+ * records; PDFs cannot be read back and throw.
+ */
+export const readReportTable = async (
+  run: ReportRun,
+  blob: Blob
+): Promise<SpreadsheetData> => {
+  const extension = getReportExtension(run, blob);
+  if (extension === "json") {
+    const parsed = JSON.parse(await blob.text()) as unknown;
+    const records = (Array.isArray(parsed) ? parsed : []) as Record<
+      string,
+      unknown
+    >[];
+    const headers = Array.from(
+      new Set(records.flatMap((record) => Object.keys(record ?? {})))
+    );
+    return {
+      headers,
+      rows: records.map((record) =>
+        headers.map((header) => cellText(record?.[header]))
+      ),
+    };
+  }
+  if (extension === "csv" || extension === "xlsx") {
+    return readSpreadsheet(
+      new File([blob], `report-${run.id}.${extension}`, { type: blob.type })
+    );
+  }
+  throw new Error("Only CSV, Excel and JSON reports can be compared");
+};
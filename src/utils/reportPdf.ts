@@ -0,0 +1,638 @@
+/**
+ * Report PDF Builder
+ *
+ * Lays report content out on fixed A4 pages (cover page, sections, KPI
+ * tiles, bar charts, heat map, paginated tables) as vector drawing and
+ * text operators, and hands the pages to the PDF writer. Layout is done in
+ * top-down points from the inline start edge, so it mirrors for Arabic;
+ * text is shaped with the embedded fonts, so measurements match what the
+ * file draws.
+ */
+
+import { A4_POINTS, PDF_FADED_STATE, buildPdf } from "./pdfDocument";
+import {
+  PdfFont,
+  loadPdfFonts,
+  type PdfFontFaces,
+  type PdfTextLine,
+} from "./pdfFonts";
+import { getRiskLevel } from "./constants";
+
+/** Same values as the light theme's --status-* variables. */
+export const PDF_LEVEL_COLORS: Record<string, string> = {
+  Critical: "#ef4343",
+  High: "#f97415",
+  Medium: "#e7b008",
+  Low: "#16a249",
+};
+
+const COLORS = {
+  primary: "#10b5cb",
+  text: "#0f1729",
+  muted: "#65758b",
+  border: "#e1e7ef",
+  headerFill: "#f1f5f9",
+  white: "#ffffff",
+};
+
+const MARGIN = 40;
+const HEADER_HEIGHT = 36;
+const FOOTER_HEIGHT = 30;
+const CONTENT_TOP = MARGIN + HEADER_HEIGHT;
+const CONTENT_BOTTOM = A4_POINTS.height - MARGIN - FOOTER_HEIGHT;
+const CONTENT_WIDTH = A4_POINTS.width - MARGIN * 2;
+
+type Align = "start" | "end" | "center";
+
+/** Control point offset that approximates a quarter circle with a Bézier. */
+const KAPPA = 0.5523;
+
+const num = (value: number) => String(+value.toFixed(2));
+
+/** PDF user space starts at the bottom of the page. */
+const flipY = (y: number) => A4_POINTS.height - y;
+
+const fillColor = (hex: string) => {
+  const value = parseInt(hex.slice(1), 16);
+  return [value >> 16, (value >> 8) & 0xff, value & 0xff]
+    .map((channel) => num(channel / 255))
+    .concat("rg")
+    .join(" ");
+};
+
+export interface ReportPdfOptions {
+  title: string;
+  isRTL: boolean;
+  /** BCP 47 locale used for dates, e.g. "ar-SA" */
+  locale: string;
+  author?: string;
+  generatedAt?: Date;
+  labels: {
+    /** Supports {date} */
+    generatedOn: string;
+    /** Supports {page} and {pages} */
+    pageOf: string;
+  };
+}
+
+export interface PdfKpi {
+  label: string;
+  value: string | number;
+  color?: string;
+}
+
+export interface PdfBarDatum {
+  label: string;
+  value: number;
+  color?: string;
+}
+
+export interface PdfTableColumn<T> {
+  header: string;
+  /** Share of the content width; shares are normalised */
+  width: number;
+  value: (row: T) => string | number;
+  align?: Align;
+  /** Draw the cell as a coloured pill, e.g. for risk levels */
+  badgeColor?: (row: T) => string | undefined;
+}
+
+export interface PdfHeatMapOptions {
+  /** counts[likelihood - 1][impact - 1] */
+  counts: number[][];
+  likelihoodLabel: string;
+  impactLabel: string;
+}
+
+interface TextStyle {
+  size?: number;
+  weight?: number;
+  color?: string;
+  align?: Align;
+}
+
+export class ReportPdfBuilder {
+  private readonly options: ReportPdfOptions;
+  private readonly generatedAt: Date;
+  private readonly fonts: { regular: PdfFont; bold: PdfFont };
+  private readonly pages: string[][] = [];
+  private ops: string[];
+  private y = CONTENT_TOP;
+  private hasCover = false;
+
+  constructor(options: ReportPdfOptions, faces: PdfFontFaces) {
+    this.options = options;
+    this.generatedAt = options.generatedAt ?? new Date();
+    this.fonts = {
+      regular: new PdfFont("F1", faces.regular),
+      bold: new PdfFont("F2", faces.bold),
+    };
+  }
+
+  // ===========================================
+  // Geometry helpers
+  // ===========================================
+
+  /** Absolute x for an offset measured from the inline start edge. */
+  private x(offset: number) {
+    return this.options.isRTL
+      ? A4_POINTS.width - MARGIN - offset
+      : MARGIN + offset;
+  }
+
+  /** Left edge and width of the inline span [from, to]. */
+  private span(from: number, to: number) {
+    const a = this.x(from);
+    const b = this.x(to);
+    return { left: Math.min(a, b), width: Math.abs(b - a) };
+  }
+
+  private font(weight = 400) {
+    return weight >= 600 ? this.fonts.bold : this.fonts.regular;
+  }
+
+  private measure(value: string, size: number, weight = 400) {
+    return this.font(weight).measure(value, size, this.options.isRTL);
+  }
+
+  private formattedDate() {
+    return this.generatedAt.toLocaleDateString(this.options.locale, {
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+    });
+  }
+
+  private newPage() {
+    this.ops = [];
+    this.pages.push(this.ops);
+    this.y = CONTENT_TOP;
+  }
+
+  private ensureSpace(height: number) {
+    if (!this.ops || (this.hasCover && this.pages.length === 1)) {
+      this.newPage();
+    } else if (this.y + height > CONTENT_BOTTOM) {
+      this.newPage();
+    }
+  }
+
+  /**
+   * Draw text anchored in inline coordinates. For "start" the offset is
+   * the start edge, for "end" the end edge and for "center" the middle.
+   */
+  private text(value: string, offset: number, y: number, style: TextStyle = {}) {
+    const { isRTL } = this.options;
+    const size = style.size ?? 10;
+    const font = this.font(style.weight);
+    const line = font.layout(value, isRTL);
+    const width = this.measure(value, size, style.weight);
+    const anchor = this.x(offset);
+    const align = style.align ?? "start";
+    const left =
+      align === "center"
+        ? anchor - width / 2
+        : (align === "start") === isRTL
+          ? anchor - width
+          : anchor;
+    this.drawLine(
+      font,
+      line,
+      size,
+      style.color ?? COLORS.text,
+      `1 0 0 1 ${num(left)} ${num(flipY(y))}`
+    );
+  }
+
+  /** Show a shaped line with the given text matrix (baseline origin last). */
+  private drawLine(
+    font: PdfFont,
+    line: PdfTextLine,
+    size: number,
+    color: string,
+    matrix: string
+  ) {
+    if (line.glyphs.length === 0) return;
+    this.ops.push(
+      `${fillColor(color)} BT /${font.name} ${size} Tf ${matrix} Tm ${font.textArray(line)} TJ ET`
+    );
+  }
+
+  /** Greedy word wrap using the embedded font's metrics. */
+  private wrap(value: string, maxWidth: number, size: number, weight = 400) {
+    const lines: string[] = [];
+    String(value)
+      .split("\n")
+      .forEach((paragraph) => {
+        let line = "";
+        paragraph.split(/\s+/).forEach((word) => {
+          const candidate = line ? `${line} ${word}` : word;
+          if (line && this.measure(candidate, size, weight) > maxWidth) {
+            lines.push(line);
+            line = word;
+          } else {
+            line = candidate;
+          }
+        });
+        lines.push(line);
+      });
+    return lines;
+  }
+
+  private fill(left: number, top: number, width: number, height: number, color: string) {
+    this.ops.push(
+      `${fillColor(color)} ${num(left)} ${num(flipY(top + height))} ${num(width)} ${num(height)} re f`
+    );
+  }
+
+  private roundRect(
+    left: number,
+    top: number,
+    width: number,
+    height: number,
+    radius: number,
+    color: string
+  ) {
+    const r = Math.min(radius, width / 2, height / 2);
+    const k = r * KAPPA;
+    const right = left + width;
+    const bottom = top + height;
+    const point = (px: number, py: number) => `${num(px)} ${num(flipY(py))}`;
+    this.ops.push(
+      [
+        fillColor(color),
+        `${point(left + r, top)} m`,
+        `${point(right - r, top)} l`,
+        `${point(right - r + k, top)} ${point(right, top + r - k)} ${point(right, top + r)} c`,
+        `${point(right, bottom - r)} l`,
+        `${point(right, bottom - r + k)} ${point(right - r + k, bottom)} ${point(right - r, bottom)} c`,
+        `${point(left + r, bottom)} l`,
+        `${point(left + r - k, bottom)} ${point(left, bottom - r + k)} ${point(left, bottom - r)} c`,
+        `${point(left, top + r)} l`,
+        `${point(left, top + r - k)} ${point(left + r - k, top)} ${point(left + r, top)} c`,
+        "h f",
+      ].join(" ")
+    );
+  }
+
+  // ===========================================
+  // Content
+  // ===========================================
+
+  /** Full-page cover; it carries no running header. */
+  addCoverPage(cover: {
+    title: string;
+    subtitle?: string;
+    meta?: { label: string; value: string }[];
+  }) {
+    this.newPage();
+    this.hasCover = true;
+    const { width } = A4_POINTS;
+    this.fill(0, 0, width, 220, COLORS.primary);
+    const titleLines = this.wrap(cover.title, CONTENT_WIDTH, 30, 700);
+    titleLines.forEach((line, i) =>
+      this.text(line, 0, 120 + i * 36, {
+        size: 30,
+        weight: 700,
+        color: COLORS.white,
+      })
+    );
+    if (cover.subtitle) {
+      this.wrap(cover.subtitle, CONTENT_WIDTH, 13).forEach((line, i) =>
+        this.text(line, 0, 128 + titleLines.length * 36 + i * 18, {
+          size: 13,
+          color: COLORS.white,
+        })
+      );
+    }
+
+    let y = 290;
+    this.text(this.formattedDate(), 0, y, { size: 14, weight: 600 });
+    y += 36;
+    (cover.meta ?? []).forEach(({ label, value }) => {
+      this.text(label, 0, y, { size: 10, color: COLORS.muted });
+      this.text(value, 0, y + 16, { size: 12, weight: 600 });
+      y += 42;
+    });
+  }
+
+  addSection(title: string) {
+    this.ensureSpace(40);
+    this.y += 10;
+    this.text(title, 0, this.y + 14, { size: 15, weight: 700 });
+    this.fill(this.span(0, 40).left, this.y + 22, 40, 2, COLORS.primary);
+    this.y += 36;
+  }
+
+  addParagraph(value: string, size = 10) {
+    const lineHeight = size * 1.5;
+    this.wrap(value, CONTENT_WIDTH, size).forEach((line) => {
+      this.ensureSpace(lineHeight);
+      this.text(line, 0, this.y + size, { size, color: COLORS.text });
+      this.y += lineHeight;
+    });
+    this.y += 6;
+  }
+
+  addBulletList(items: string[]) {
+    items.forEach((item) => {
+      const lines = this.wrap(item, CONTENT_WIDTH - 14, 10);
+      this.ensureSpace(lines.length * 15);
+      this.text("•", 0, this.y + 10, { size: 10, color: COLORS.primary });
+      lines.forEach((line, i) =>
+        this.text(line, 14, this.y + 10 + i * 15, { size: 10 })
+      );
+      this.y += lines.length * 15 + 4;
+    });
+    this.y += 4;
+  }
+
+  addKpis(items: PdfKpi[]) {
+    const gap = 10;
+    const height = 62;
+    const tileWidth = (CONTENT_WIDTH - gap * (items.length - 1)) / items.length;
+    this.ensureSpace(height + 10);
+    items.forEach((item, index) => {
+      const from = index * (tileWidth + gap);
+      const { left } = this.span(from, from + tileWidth);
+      const color = item.color ?? COLORS.primary;
+      this.roundRect(left, this.y, tileWidth, height, 6, COLORS.headerFill);
+      this.fill(left, this.y, tileWidth, 3, color);
+      this.text(String(item.value), from + tileWidth / 2, this.y + 32, {
+        size: 20,
+        weight: 700,
+        color,
+        align: "center",
+      });
+      this.text(item.label, from + tileWidth / 2, this.y + 50, {
+        size: 8.5,
+        color: COLORS.muted,
+        align: "center",
+      });
+    });
+    this.y += height + 14;
+  }
+
+  /** Horizontal bar chart; bars grow in the reading direction. */
+  addBarChart(title: string, data: PdfBarDatum[]) {
+    const rowHeight = 20;
+    const labelWidth = CONTENT_WIDTH * 0.3;
+    const valueWidth = 30;
+    const barArea = CONTENT_WIDTH - labelWidth - valueWidth - 8;
+    const max = Math.max(1, ...data.map((d) => d.value));
+    this.ensureSpace(24 + rowHeight * Math.min(data.length, 4));
+    this.text(title, 0, this.y + 11, { size: 11, weight: 600 });
+    this.y += 20;
+
+    data.forEach((datum) => {
+      this.ensureSpace(rowHeight);
+      const mid = this.y + rowHeight / 2;
+      this.text(datum.label, 0, mid + 3.5, { size: 9, color: COLORS.muted });
+      const barLength = (datum.value / max) * barArea;
+      const barStart = labelWidth;
+      const { left, width } = this.span(barStart, barStart + barLength);
+      this.roundRect(
+        left,
+        mid - 6,
+        Math.max(width, 1),
+        12,
+        3,
+        datum.color ?? COLORS.primary
+      );
+      this.text(String(datum.value), barStart + barLength + 6, mid + 3.5, {
+        size: 9,
+        weight: 600,
+      });
+      this.y += rowHeight;
+    });
+    this.y += 10;
+  }
+
+  /**
+   * Likelihood x impact heat map. Likelihood runs bottom to top and impact
+   * along the reading direction, so the grid mirrors in RTL.
+   */
+  addHeatMap(title: string, { counts, likelihoodLabel, impactLabel }: PdfHeatMapOptions) {
+    const size = counts.length;
+    const axis = 28;
+    const cell = Math.min(56, (CONTENT_WIDTH - axis) / size);
+    const height = 24 + cell * size + 34;
+    this.ensureSpace(height);
+    this.text(title, 0, this.y + 11, { size: 11, weight: 600 });
+    const top = this.y + 20;
+
+    for (let row = 0; row < size; row++) {
+      const likelihood = size - row;
+      const y = top + row * cell;
+      this.text(String(likelihood), axis / 2, y + cell / 2 + 4, {
+        size: 9,
+        color: COLORS.muted,
+        align: "center",
+      });
+      for (let col = 0; col < size; col++) {
+        const impact = col + 1;
+        const from = axis + col * cell;
+        const { left } = this.span(from, from + cell);
+        const level = getRiskLevel(likelihood * impact, { likelihood, impact }).label;
+        const count = counts[likelihood - 1]?.[impact - 1] ?? 0;
+        if (count === 0) this.ops.push(`q /${PDF_FADED_STATE} gs`);
+        this.roundRect(left + 1.5, y + 1.5, cell - 3, cell - 3, 4, PDF_LEVEL_COLORS[level]);
+        if (count === 0) this.ops.push("Q");
+        if (count > 0) {
+          this.text(String(count), from + cell / 2, y + cell / 2 + 5, {
+            size: 13,
+            weight: 700,
+            color: COLORS.white,
+            align: "center",
+          });
+        }
+      }
+    }
+
+    const bottom = top + cell * size;
+    for (let col = 0; col < size; col++) {
+      this.text(String(col + 1), axis + col * cell + cell / 2, bottom + 12, {
+        size: 9,
+        color: COLORS.muted,
+        align: "center",
+      });
+    }
+    this.text(impactLabel, axis + (cell * size) / 2, bottom + 26, {
+      size: 9,
+      weight: 600,
+      color: COLORS.muted,
+      align: "center",
+    });
+    // Vertical axis title, reading bottom to top beside the likelihood scale.
+    // Its glyphs sit on the page-left side of the baseline, so in RTL the
+    // baseline moves out by the text height to keep clear of the scale.
+    const font = this.font(600);
+    const labelWidth = this.measure(likelihoodLabel, 9, 600);
+    const middle = flipY(top + (cell * size) / 2);
+    const baseline = this.x(6) + (this.options.isRTL ? 7 : 0);
+    this.drawLine(
+      font,
+      font.layout(likelihoodLabel, this.options.isRTL),
+      9,
+      COLORS.muted,
+      `0 1 -1 0 ${num(baseline)} ${num(middle - labelWidth / 2)}`
+    );
+
+    this.y = bottom + 40;
+  }
+
+  /** Table that breaks across pages, repeating its header row. */
+  addTable<T>(columns: PdfTableColumn<T>[], rows: T[]) {
+    const totalShare = columns.reduce((sum, c) => sum + c.width, 0);
+    const widths = columns.map((c) => (c.width / totalShare) * CONTENT_WIDTH);
+    const starts = widths.map((_, i) =>
+      widths.slice(0, i).reduce((sum, w) => sum + w, 0)
+    );
+    const pad = 5;
+    const size = 8.5;
+    const lineHeight = 11;
+
+    const anchor = (i: number, align: Align = "start") =>
+      align === "end"
+        ? starts[i] + widths[i] - pad
+        : align === "center"
+          ? starts[i] + widths[i] / 2
+          : starts[i] + pad;
+
+    const drawHeader = () => {
+      const height = 20;
+      this.fill(MARGIN, this.y, CONTENT_WIDTH, height, COLORS.headerFill);
+      columns.forEach((column, i) =>
+        this.text(column.header, anchor(i, column.align), this.y + 13.5, {
+          size,
+          weight: 600,
+          color: COLORS.muted,
+          align: column.align,
+        })
+      );
+      this.y += height;
+    };
+
+    this.ensureSpace(44);
+    drawHeader();
+
+    rows.forEach((row) => {
+      const cells = columns.map((column, i) =>
+        column.badgeColor
+          ? [String(column.value(row))]
+          : this.wrap(String(column.value(row) ?? ""), widths[i] - pad * 2, size)
+      );
+      const height = Math.max(...cells.map((lines) => lines.length)) * lineHeight + 9;
+      if (this.y + height > CONTENT_BOTTOM) {
+        this.newPage();
+        drawHeader();
+      }
+      columns.forEach((column, i) => {
+        const badge = column.badgeColor?.(row);
+        if (badge) {
+          const textWidth = this.measure(cells[i][0], size - 0.5, 600) + 12;
+          const from = starts[i] + pad;
+          const { left } = this.span(from, from + textWidth);
+          this.roundRect(left, this.y + 4, textWidth, 14, 7, badge);
+          this.text(cells[i][0], from + textWidth / 2, this.y + 14, {
+            size: size - 0.5,
+            weight: 600,
+            color: COLORS.white,
+            align: "center",
+          });
+          return;
+        }
+        cells[i].forEach((line, l) =>
+          this.text(line, anchor(i, column.align), this.y + 13 + l * lineHeight, {
+            size,
+            align: column.align,
+          })
+        );
+      });
+      this.y += height;
+      this.fill(MARGIN, this.y - 0.5, CONTENT_WIDTH, 0.5, COLORS.border);
+    });
+    this.y += 12;
+  }
+
+  // ===========================================
+  // Output
+  // ===========================================
+
+  /** Running header and footer, drawn once the page count is known. */
+  private decoratePages() {
+    const total = this.pages.length;
+    const date = this.formattedDate();
+    this.pages.forEach((ops, index) => {
+      this.ops = ops;
+      const isCover = this.hasCover && index === 0;
+      if (!isCover) {
+        this.text(this.options.title, 0, MARGIN + 12, {
+          size: 9,
+          weight: 600,
+          color: COLORS.muted,
+        });
+        this.text(date, CONTENT_WIDTH, MARGIN + 12, {
+          size: 9,
+          color: COLORS.muted,
+          align: "end",
+        });
+        this.fill(MARGIN, MARGIN + 20, CONTENT_WIDTH, 0.75, COLORS.border);
+      }
+      const footerY = A4_POINTS.height - MARGIN;
+      this.fill(MARGIN, footerY - 16, CONTENT_WIDTH, 0.75, COLORS.border);
+      this.text(
+        this.options.labels.generatedOn.replace("{date}", date),
+        0,
+        footerY,
+        { size: 8, color: COLORS.muted }
+      );
+      this.text(
+        this.options.labels.pageOf
+          .replace("{page}", String(index + 1))
+          .replace("{pages}", String(total)),
+        CONTENT_WIDTH,
+        footerY,
+        { size: 8, color: COLORS.muted, align: "end" }
+      );
+    });
+  }
+
+  async toBlob(): Promise<Blob> {
+    if (this.pages.length === 0) this.newPage();
+    this.decoratePages();
+    const fonts = [this.fonts.regular, this.fonts.bold]
+      .filter((font) => font.used)
+      .map((font) => font.toResource());
+    const pdf = await buildPdf(
+      this.pages.map((ops) => ({ content: ops.join("\n") })),
+      fonts,
+      {
+        title: this.options.title,
+        author: this.options.author,
+        lang: this.options.locale,
+        createdAt: this.generatedAt,
+      }
+    );
+    return new Blob([pdf.slice()], { type: "application/pdf" });
+  }
+
+  async download(filename: string) {
+    const blob = await this.toBlob();
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Load the bundled fonts before anything is measured, so line breaks and
+ * alignment come from the same faces that get embedded in the file.
+ */
+export const createReportPdf = async (options: ReportPdfOptions) =>
+  new ReportPdfBuilder(options, await loadPdfFonts());
@@ -0,0 +1,109 @@
+/**
+ * Report Schedules
+ *
+ * Scheduled reports are stored as five-field cron expressions. The UI only
+ * builds daily, weekly and monthly schedules, so only that subset is parsed
+ * back; anything else is shown as-is.
+ */
+
+export const REPORT_SCHEDULE_FREQUENCIES = [
+  "daily",
+  "weekly",
+  "monthly",
+] as const;
+
+export type ReportScheduleFrequency =
+  (typeof REPORT_SCHEDULE_FREQUENCIES)[number];
+
+export interface ReportScheduleConfig {
+  frequency: ReportScheduleFrequency;
+  /** Local time of day, HH:MM */
+  time: string;
+  /** 0 = Sunday … 6 = Saturday, used by weekly schedules */
+  dayOfWeek: number;
+  /** 1–28 so every month has the day, used by monthly schedules */
+  dayOfMonth: number;
+}
+
+export const DEFAULT_REPORT_SCHEDULE: ReportScheduleConfig = {
+  frequency: "weekly",
+  time: "08:00",
+  dayOfWeek: 1,
+  dayOfMonth: 1,
+};
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+export const toCronExpression = (config: ReportScheduleConfig): string => {
+  const [hours, minutes] = config.time.split(":").map(Number);
+  const base = `${minutes || 0} ${hours || 0}`;
+  switch (config.frequency) {
+    case "daily":
+      return `${base} * * *`;
+    case "monthly":
+      return `${base} ${config.dayOfMonth} * *`;
+    default:
+      return `${base} * * ${config.dayOfWeek}`;
+  }
+};
+
+/** Read back a cron expression produced by `toCronExpression`. */
+export const parseCronExpression = (
+  expression: string
+): ReportScheduleConfig | null => {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5 || fields[3] !== "*") return null;
+  const [minute, hour, dayOfMonth, , dayOfWeek] = fields;
+  if (!/^\d+$/.test(minute) || !/^\d+$/.test(hour)) return null;
+  const time = `${pad(Number(hour))}:${pad(Number(minute))}`;
+
+  if (dayOfMonth === "*" && dayOfWeek === "*") {
+    return { ...DEFAULT_REPORT_SCHEDULE, frequency: "daily", time };
+  }
+  if (dayOfMonth === "*" && /^[0-6]$/.test(dayOfWeek)) {
+    return {
+      ...DEFAULT_REPORT_SCHEDULE,
+      frequency: "weekly",
+      time,
+      dayOfWeek: Number(dayOfWeek),
+    };
+  }
+  if (dayOfWeek === "*" && /^\d+$/.test(dayOfMonth)) {
+    const day = Number(dayOfMonth);
+    if (day < 1 || day > 28) return null;
+    return {
+      ...DEFAULT_REPORT_SCHEDULE,
+      frequency: "monthly",
+      time,
+      dayOfMonth: day,
+    };
+  }
+  return null;
+};
+
+/** First run strictly after `from`, or null for unsupported expressions. */
+export const getNextScheduledRun = (
+  expression: string,
+  from: Date = new Date()
+): Date | null => {
+  const config = parseCronExpression(expression);
+  if (!config) return null;
+  const [hours, minutes] = config.time.split(":").map(Number);
+
+  // A monthly schedule always fires within 31 days.
+  for (let offset = 0; offset <= 31; offset++) {
+    const candidate = new Date(from);
+    candidate.setDate(from.getDate() + offset);
+    candidate.setHours(hours, minutes, 0, 0);
+    if (candidate <= from) continue;
+    if (config.frequency === "weekly" && candidate.getDay() !== config.dayOfWeek)
+      continue;
+    if (
+      config.frequency === "monthly" &&
+      candidate.getDate() !== config.dayOfMonth
+    )
+      continue;
+    return candidate;
+  }
+  return null;
+};
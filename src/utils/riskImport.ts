@@ -0,0 +1,248 @@
+/**
+ * Risk Import
+ *
+ * Maps spreadsheet columns onto `RiskInput` fields and validates each row
+ * against the register's categories, users and scoring scale. Issues are
+ * returned as codes so the wizard can show them in the current language.
+ */
+
+import { mapBackendCategoryToFrontend } from "@/api/adapters";
+import type { RiskInput } from "@/api/riskApi";
+import type { User } from "@/types";
+import type { BackendRiskCategory } from "@/types/backend";
+import type { RiskCategory } from "./constants";
+import type { SpreadsheetData } from "./spreadsheet";
+
+export const RISK_IMPORT_FIELDS = [
+  "title",
+  "description",
+  "category",
+  "owner",
+  "likelihood",
+  "impact",
+] as const;
+
+export type RiskImportField = (typeof RISK_IMPORT_FIELDS)[number];
+
+export const REQUIRED_IMPORT_FIELDS: RiskImportField[] = [
+  "title",
+  "description",
+  "category",
+];
+
+/** Column index per field; null when the field is not mapped. */
+export type RiskImportMapping = Record<RiskImportField, number | null>;
+
+export type RiskImportIssueCode =
+  | "required"
+  | "unknownCategory"
+  | "unknownOwner"
+  | "ownerDefaulted"
+  | "notANumber"
+  | "outOfRange"
+  | "incompleteScore"
+  | "duplicateInFile"
+  | "alreadyExists";
+
+export interface RiskImportIssue {
+  code: RiskImportIssueCode;
+  field?: RiskImportField;
+  value?: string;
+}
+
+export interface RiskImportRow {
+  /** Spreadsheet row number as the user sees it (header is row 1) */
+  rowNumber: number;
+  input: RiskInput;
+  likelihood?: number;
+  impact?: number;
+  errors: RiskImportIssue[];
+  warnings: RiskImportIssue[];
+}
+
+export interface RiskImportLookups {
+  categories: BackendRiskCategory[];
+  users: User[];
+  /** Owner for rows that leave the owner column blank */
+  defaultOwner?: User | null;
+  existingTitles: string[];
+  scale: { min: number; max: number };
+}
+
+const normalize = (value: string) =>
+  value.trim().toLowerCase().replace(/[\s_-]+/g, " ");
+
+const FIELD_ALIASES: Record<RiskImportField, string[]> = {
+  title: ["title", "risk", "risk title", "risk name", "name", "العنوان"],
+  description: ["description", "details", "risk description", "الوصف"],
+  category: ["category", "risk category", "type", "التصنيف"],
+  owner: ["owner", "risk owner", "responsible", "owner email", "المالك"],
+  likelihood: ["likelihood", "probability", "l", "الاحتمالية"],
+  impact: ["impact", "severity", "consequence", "i", "الأثر"],
+};
+
+/** Pre-fill the mapping from header names the wizard recognises. */
+export const guessImportMapping = (headers: string[]): RiskImportMapping => {
+  const normalized = headers.map(normalize);
+  const used = new Set<number>();
+  const mapping = {} as RiskImportMapping;
+  RISK_IMPORT_FIELDS.forEach((field) => {
+    const index = normalized.findIndex(
+      (header, i) => !used.has(i) && FIELD_ALIASES[field].includes(header)
+    );
+    mapping[field] = index === -1 ? null : index;
+    if (index !== -1) used.add(index);
+  });
+  return mapping;
+};
+
+const resolveCategory = (
+  value: string,
+  categories: BackendRiskCategory[]
+): RiskCategory | null => {
+  const wanted = normalize(value);
+  const match = categories.find((category) =>
+    [
+      mapBackendCategoryToFrontend(category.code || category.name || ""),
+      category.name,
+      category.code,
+    ]
+      .filter(Boolean)
+      .some((candidate) => normalize(candidate) === wanted)
+  );
+  if (!match) return null;
+  return mapBackendCategoryToFrontend(
+    match.code || match.name || ""
+  ) as RiskCategory;
+};
+
+const resolveOwner = (value: string, users: User[]) => {
+  const wanted = normalize(value);
+  return (
+    users.find(
+      (user) =>
+        normalize(user.name) === wanted || normalize(user.email) === wanted
+    ) ?? null
+  );
+};
+
+const parseScore = (
+  raw: string,
+  field: "likelihood" | "impact",
+  scale: RiskImportLookups["scale"],
+  errors: RiskImportIssue[]
+): number | undefined => {
+  if (raw === "") return undefined;
+  const value = Number(raw);
+  if (!Number.isFinite(value)) {
+    errors.push({ code: "notANumber", field, value: raw });
+    return undefined;
+  }
+  if (!Number.isInteger(value) || value < scale.min || value > scale.max) {
+    errors.push({ code: "outOfRange", field, value: raw });
+    return undefined;
+  }
+  return value;
+};
+
+/** Validate every data row of the sheet against the mapping and lookups. */
+export const validateImportRows = (
+  { rows, rowNumbers }: SpreadsheetData,
+  mapping: RiskImportMapping,
+  lookups: RiskImportLookups
+): RiskImportRow[] => {
+  const existing = new Set(lookups.existingTitles.map(normalize));
+  const seen = new Map<string, number>();
+
+  return rows.map((cells, index) => {
+    const cell = (field: RiskImportField) =>
+      mapping[field] === null ? "" : (cells[mapping[field]] ?? "").trim();
+    const errors: RiskImportIssue[] = [];
+    const warnings: RiskImportIssue[] = [];
+    const rowNumber = rowNumbers?.[index] ?? index + 2;
+
+    REQUIRED_IMPORT_FIELDS.forEach((field) => {
+      if (!cell(field)) errors.push({ code: "required", field });
+    });
+
+    const title = cell("title");
+    if (title) {
+      const key = normalize(title);
+      if (seen.has(key)) {
+        warnings.push({
+          code: "duplicateInFile",
+          field: "title",
+          value: String(seen.get(key)),
+        });
+      } else {
+        seen.set(key, rowNumber);
+      }
+      if (existing.has(key)) {
+        warnings.push({ code: "alreadyExists", field: "title" });
+      }
+    }
+
+    let category: RiskCategory | null = null;
+    if (cell("category")) {
+      category = resolveCategory(cell("category"), lookups.categories);
+      if (!category) {
+        errors.push({
+          code: "unknownCategory",
+          field: "category",
+          value: cell("category"),
+        });
+      }
+    }
+
+    let owner: User | null = null;
+    if (cell("owner")) {
+      owner = resolveOwner(cell("owner"), lookups.users);
+      if (!owner) {
+        errors.push({
+          code: "unknownOwner",
+          field: "owner",
+          value: cell("owner"),
+        });
+      }
+    } else if (lookups.defaultOwner) {
+      owner = lookups.defaultOwner;
+      warnings.push({
+        code: "ownerDefaulted",
+        field: "owner",
+        value: owner.name,
+      });
+    } else {
+      errors.push({ code: "required", field: "owner" });
+    }
+
+    const likelihood = parseScore(
+      cell("likelihood"),
+      "likelihood",
+      lookups.scale,
+      errors
+    );
+    const impact = parseScore(cell("impact"), "impact", lookups.scale, errors);
+    // A score needs both halves; one on its own cannot be assessed.
+    if (!!cell("likelihood") !== !!cell("impact")) {
+      errors.push({
+        code: "incompleteScore",
+        field: cell("likelihood") ? "impact" : "likelihood",
+      });
+    }
+
+    return {
+      rowNumber,
+      input: {
+        title,
+        description: cell("description"),
+        category,
+        owner: owner?.name ?? cell("owner"),
+        ownerId: owner?._backendId,
+      },
+      likelihood,
+      impact,
+      errors,
+      warnings,
+    };
+  });
+};
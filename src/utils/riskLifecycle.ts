@@ -0,0 +1,203 @@
+/**
+ * Risk Lifecycle
+ *
+ * Works out which lifecycle stages a risk may move to next and, for the
+ * ones that are structurally legal but not yet ready, why they are blocked.
+ * Also rebuilds the ISO 31000 stage history from audit and related events.
+ */
+
+import {
+  RISK_LIFECYCLE_TRANSITIONS,
+  type BackendRiskStatusType,
+  type RiskStage,
+} from "./constants";
+import type {
+  Assessment,
+  AuditLog,
+  Risk,
+  StageHistory,
+  Treatment,
+} from "@/types";
+
+export type RiskTransitionBlocker =
+  | "noAssessment"
+  | "noApprovedResidual"
+  | "noTreatmentPlan"
+  | "treatmentIncomplete"
+  | "openTreatmentActions";
+
+export interface RiskTransitionOption {
+  status: BackendRiskStatusType;
+  allowed: boolean;
+  blocker?: RiskTransitionBlocker;
+}
+
+export interface RiskLifecycleContext {
+  assessments: Assessment[];
+  treatment: Treatment | null;
+}
+
+const hasOpenActions = (treatment: Treatment | null) =>
+  !!treatment?.actions?.some((action) => action.status !== "Done");
+
+const getBlocker = (
+  from: BackendRiskStatusType,
+  to: BackendRiskStatusType,
+  { assessments, treatment }: RiskLifecycleContext
+): RiskTransitionBlocker | undefined => {
+  switch (to) {
+    case "analyzed":
+    case "accepted":
+      return assessments.length === 0 ? "noAssessment" : undefined;
+    case "treating":
+      return treatment ? undefined : "noTreatmentPlan";
+    case "treated":
+      if (!treatment) return "noTreatmentPlan";
+      return treatment.actions.length === 0 || hasOpenActions(treatment)
+        ? "treatmentIncomplete"
+        : undefined;
+    case "monitoring": {
+      // Accepted risks are monitored as-is; treated ones need evidence that
+      // the treatment actually brought the score down.
+      if (from === "accepted") return undefined;
+      const approvedResidual = assessments.some(
+        (a) => a._type === "residual" && a.approvalStatus === "approved"
+      );
+      return approvedResidual ? undefined : "noApprovedResidual";
+    }
+    case "closed":
+      return hasOpenActions(treatment) ? "openTreatmentActions" : undefined;
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * List the legal next stages for a risk, flagging those whose
+ * preconditions are not met yet.
+ */
+export const getRiskTransitions = (
+  current: BackendRiskStatusType,
+  context: RiskLifecycleContext
+): RiskTransitionOption[] =>
+  (RISK_LIFECYCLE_TRANSITIONS[current] ?? []).map((status) => {
+    const blocker = getBlocker(current, status, context);
+    return { status, allowed: !blocker, blocker };
+  });
+
+// ===========================================
+// Stage History
+// ===========================================
+
+/** ISO 31000 stage each lifecycle status belongs to (closed has none). */
+export const RISK_STATUS_STAGE: Record<BackendRiskStatusType, RiskStage | null> =
+  {
+    identified: "Identification",
+    analyzing: "Analysis",
+    analyzed: "Evaluation",
+    accepted: "Evaluation",
+    treating: "Treatment",
+    treated: "Treatment",
+    monitoring: "Monitoring",
+    closed: null,
+  };
+
+export interface StageHistoryLabels {
+  riskCreated: string;
+  identified: string;
+  /** Supports {type}, {score} and {level} */
+  assessment: string;
+  inherent: string;
+  residual: string;
+  /** Supports {title} */
+  treatmentPlan: string;
+}
+
+export interface StageHistorySources {
+  risk: Risk;
+  auditLogs: AuditLog[];
+  assessments: Assessment[];
+  treatment: Treatment | null;
+}
+
+const isLifecycleStatus = (value: unknown): value is BackendRiskStatusType =>
+  typeof value === "string" && value in RISK_LIFECYCLE_TRANSITIONS;
+
+/**
+ * Rebuild a risk's stage history in chronological order from its audit
+ * trail (creation and status changes), approved assessments and treatment
+ * plan. Pending and rejected assessments have not completed a stage yet.
+ */
+export const buildStageHistory = (
+  { risk, auditLogs, assessments, treatment }: StageHistorySources,
+  labels: StageHistoryLabels
+): StageHistory[] => {
+  const history: StageHistory[] = [];
+
+  const createLog = auditLogs.find((log) => log.action === "CREATE");
+  const createdAt = createLog?.timestamp ?? risk.createdAt;
+  const creator = createLog?.actor ?? risk.owner;
+  history.push(
+    {
+      stage: "Context",
+      date: createdAt,
+      notes: createLog?.details || labels.riskCreated,
+      updatedBy: creator,
+    },
+    {
+      stage: "Identification",
+      date: createdAt,
+      notes: labels.identified,
+      updatedBy: creator,
+    }
+  );
+
+  auditLogs
+    .filter((log) => log.action === "STATUS_CHANGE")
+    .forEach((log) => {
+      const next = log.newValues?.status;
+      const stage = isLifecycleStatus(next) ? RISK_STATUS_STAGE[next] : null;
+      if (!stage) return;
+      history.push({
+        stage,
+        date: log.timestamp,
+        notes: log.details,
+        updatedBy: log.actor,
+      });
+    });
+
+  assessments
+    .filter(
+      (assessment) =>
+        !assessment.approvalStatus || assessment.approvalStatus === "approved"
+    )
+    .forEach((assessment) => {
+      const isResidual = assessment._type === "residual";
+      const summary = labels.assessment
+        .replace("{type}", isResidual ? labels.residual : labels.inherent)
+        .replace("{score}", String(assessment.score))
+        .replace("{level}", assessment.level);
+      history.push({
+        stage: isResidual ? "Monitoring" : "Analysis",
+        date: assessment.createdAt ?? assessment.date,
+        notes: assessment.notes ? `${summary} - ${assessment.notes}` : summary,
+        updatedBy: assessment.assessor,
+      });
+    });
+
+  if (treatment) {
+    history.push({
+      stage: "Treatment",
+      date: treatment.createdAt,
+      notes: labels.treatmentPlan.replace(
+        "{title}",
+        treatment._title || treatment.approach
+      ),
+      updatedBy: treatment._createdBy ?? risk.owner,
+    });
+  }
+
+  return history.sort(
+    (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+  );
+};
@@ -0,0 +1,159 @@
+/**
+ * Risk Matrix Configuration
+ *
+ * Size of the likelihood x impact matrix, the label and criteria behind
+ * each level, and any cells an administrator has painted a different
+ * level than the score thresholds would give them.
+ */
+
+export type RiskMatrixLevelLabel = "Low" | "Medium" | "High" | "Critical";
+
+export const RISK_MATRIX_LEVEL_LABELS: RiskMatrixLevelLabel[] = [
+  "Low",
+  "Medium",
+  "High",
+  "Critical",
+];
+
+export interface RiskMatrixScaleLevel {
+  label: string;
+  /** What has to be true to pick this level, e.g. "> $1M loss" */
+  criteria: string;
+}
+
+export interface RiskMatrixConfig {
+  size: number;
+  /** Index 0 is level 1 */
+  likelihood: RiskMatrixScaleLevel[];
+  impact: RiskMatrixScaleLevel[];
+  /** Keyed by `likelihood-impact`; cells left out follow the thresholds */
+  cellColors: Record<string, RiskMatrixLevelLabel>;
+}
+
+export const MIN_MATRIX_SIZE = 3;
+export const MAX_MATRIX_SIZE = 10;
+
+const DEFAULT_LIKELIHOOD = [
+  "Rare",
+  "Unlikely",
+  "Possible",
+  "Likely",
+  "Almost certain",
+];
+const DEFAULT_IMPACT = [
+  "Insignificant",
+  "Minor",
+  "Moderate",
+  "Major",
+  "Catastrophic",
+];
+
+export const DEFAULT_RISK_MATRIX: RiskMatrixConfig = {
+  size: 5,
+  likelihood: DEFAULT_LIKELIHOOD.map((label) => ({ label, criteria: "" })),
+  impact: DEFAULT_IMPACT.map((label) => ({ label, criteria: "" })),
+  cellColors: {},
+};
+
+export const matrixCellKey = (likelihood: number, impact: number) =>
+  `${likelihood}-${impact}`;
+
+/** Level a score falls in for the given upper bounds of Low, Medium and High. */
+export const scoreLevel = (
+  score: number,
+  thresholds: { low: number; medium: number; high: number }
+): RiskMatrixLevelLabel => {
+  if (score <= thresholds.low) return "Low";
+  if (score <= thresholds.medium) return "Medium";
+  if (score <= thresholds.high) return "High";
+  return "Critical";
+};
+
+/** The highest score the matrix can produce. */
+export const maxMatrixScore = (config: RiskMatrixConfig) =>
+  config.size * config.size;
+
+/**
+ * Smallest matrix that still holds every rating already recorded; a
+ * smaller grid would leave those risks and assessments off the scale.
+ */
+export const smallestMatrixFor = (ratings: Array<number | null | undefined>) =>
+  ratings.reduce<number>(
+    (size, rating) => Math.max(size, Math.round(Number(rating) || 0)),
+    MIN_MATRIX_SIZE
+  );
+
+const clampSize = (size: number) =>
+  Math.min(MAX_MATRIX_SIZE, Math.max(MIN_MATRIX_SIZE, Math.round(size)));
+
+const fitScale = (levels: RiskMatrixScaleLevel[], size: number) =>
+  Array.from({ length: size }, (_, i) => ({
+    label: levels[i]?.label ?? String(i + 1),
+    criteria: levels[i]?.criteria ?? "",
+  }));
+
+/**
+ * Grow or shrink the matrix. Existing levels keep their text, new levels
+ * start as their number, and overrides outside the new grid are dropped.
+ */
+export const resizeRiskMatrix = (
+  config: RiskMatrixConfig,
+  size: number
+): RiskMatrixConfig => {
+  const next = clampSize(size);
+  return {
+    size: next,
+    likelihood: fitScale(config.likelihood, next),
+    impact: fitScale(config.impact, next),
+    cellColors: Object.fromEntries(
+      Object.entries(config.cellColors).filter(([key]) => {
+        const [likelihood, impact] = key.split("-").map(Number);
+        return likelihood <= next && impact <= next;
+      })
+    ),
+  };
+};
+
+const parseScale = (raw: unknown): RiskMatrixScaleLevel[] =>
+  Array.isArray(raw)
+    ? raw.map((level) => ({
+        label: String((level as RiskMatrixScaleLevel)?.label ?? ""),
+        criteria: String((level as RiskMatrixScaleLevel)?.criteria ?? ""),
+      }))
+    : [];
+
+/** Read a stored or server-sent configuration, filling any gaps. */
+export const normalizeRiskMatrix = (raw: unknown): RiskMatrixConfig => {
+  if (!raw || typeof raw !== "object") return DEFAULT_RISK_MATRIX;
+  const value = raw as Partial<Record<keyof RiskMatrixConfig, unknown>>;
+  const size = Number(value.size);
+  if (!Number.isFinite(size)) return DEFAULT_RISK_MATRIX;
+
+  const colors =
+    value.cellColors && typeof value.cellColors === "object"
+      ? (value.cellColors as Record<string, unknown>)
+      : {};
+  return resizeRiskMatrix(
+    {
+      size,
+      likelihood: parseScale(value.likelihood),
+      impact: parseScale(value.impact),
+      cellColors: Object.fromEntries(
+        Object.entries(colors).filter(([, level]) =>
+          RISK_MATRIX_LEVEL_LABELS.includes(level as RiskMatrixLevelLabel)
+        )
+      ) as Record<string, RiskMatrixLevelLabel>,
+    },
+    size
+  );
+};
+
+/** "3 - Possible" when the level has a label, else just the number. */
+export const formatScaleLevel = (
+  levels: RiskMatrixScaleLevel[],
+  value: number
+) => {
+  if (!value) return "";
+  const label = levels[value - 1]?.label?.trim();
+  return label && label !== String(value) ? `${value} - ${label}` : String(value);
+};
@@ -0,0 +1,268 @@
+/**
+ * Risk Report PDFs
+ *
+ * Content of the Executive and Standard report PDFs. Both are built from
+ * the same risk list the pages render, so the downloaded file matches
+ * what is on screen.
+ */
+
+import type { Translations } from "@/i18n";
+import type { Risk } from "@/types";
+import {
+  RISK_CATEGORIES,
+  RISK_STATUSES,
+  getStoredRiskMatrix,
+} from "./constants";
+import {
+  PDF_LEVEL_COLORS,
+  createReportPdf,
+  type PdfBarDatum,
+  type PdfKpi,
+} from "./reportPdf";
+
+const LEVELS = ["Critical", "High", "Medium", "Low"] as const;
+
+const STATUS_COLORS: Record<string, string> = {
+  Open: "#f97415",
+  Monitoring: "#e7b008",
+  Closed: "#16a249",
+};
+
+export interface RiskReportPdfContext {
+  strings: Translations;
+  isRTL: boolean;
+  /** Shown on the cover and in the document properties */
+  preparedBy?: string;
+}
+
+const translate = (
+  group: Record<string, string> | undefined,
+  value: string
+) => group?.[value] ?? value;
+
+const byScore = (risks: Risk[]) =>
+  [...risks].sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+
+const heatMapCounts = (risks: Risk[]) => {
+  const size = getStoredRiskMatrix().size;
+  const counts = Array.from({ length: size }, () =>
+    Array<number>(size).fill(0)
+  );
+  risks.forEach((risk) => {
+    const l = Math.min(Math.max(Math.round(risk.likelihood), 1), size);
+    const i = Math.min(Math.max(Math.round(risk.impact), 1), size);
+    if (risk.likelihood && risk.impact) counts[l - 1][i - 1] += 1;
+  });
+  return counts;
+};
+
+const chartData = (risks: Risk[], { strings }: RiskReportPdfContext) => {
+  const levels: PdfBarDatum[] = LEVELS.map((level) => ({
+    label: translate(strings.risks.levels, level),
+    value: risks.filter((r) => r.level === level).length,
+    color: PDF_LEVEL_COLORS[level],
+  }));
+  const categories: PdfBarDatum[] = RISK_CATEGORIES.map((category) => ({
+    label: translate(strings.risks.categories, category),
+    value: risks.filter((r) => r.category === category).length,
+  })).filter((d) => d.value > 0);
+  const statuses: PdfBarDatum[] = RISK_STATUSES.map((status) => ({
+    label: translate(strings.risks.statuses, status),
+    value: risks.filter((r) => r.status === status).length,
+    color: STATUS_COLORS[status],
+  }));
+  return { levels, categories, statuses };
+};
+
+const startReport = async (
+  title: string,
+  subtitle: string,
+  risks: Risk[],
+  context: RiskReportPdfContext
+) => {
+  const { strings, isRTL, preparedBy } = context;
+  const pdf = await createReportPdf({
+    title,
+    isRTL,
+    locale: isRTL ? "ar-SA" : "en-US",
+    author: preparedBy,
+    labels: {
+      generatedOn: strings.reports.pdfGeneratedOn,
+      pageOf: strings.reports.pdfPageOf,
+    },
+  });
+  pdf.addCoverPage({
+    title,
+    subtitle,
+    meta: [
+      { label: strings.reports.pdfRiskCount, value: String(risks.length) },
+      ...(preparedBy
+        ? [{ label: strings.reports.pdfPreparedBy, value: preparedBy }]
+        : []),
+    ],
+  });
+  return pdf;
+};
+
+const addCharts = (
+  pdf: Awaited<ReturnType<typeof createReportPdf>>,
+  risks: Risk[],
+  context: RiskReportPdfContext
+) => {
+  const { strings } = context;
+  const charts = chartData(risks, context);
+  pdf.addHeatMap(strings.reports.heatMapTitle, {
+    counts: heatMapCounts(risks),
+    likelihoodLabel: strings.reports.fieldLikelihood,
+    impactLabel: strings.reports.fieldImpact,
+  });
+  pdf.addBarChart(strings.reports.byLevel, charts.levels);
+  pdf.addBarChart(strings.reports.byCategory, charts.categories);
+  pdf.addBarChart(strings.reports.byStatus, charts.statuses);
+};
+
+const summaryKpis = (
+  risks: Risk[],
+  { strings }: RiskReportPdfContext
+): PdfKpi[] => [
+  { label: strings.reports.totalRisks, value: risks.length },
+  {
+    label: strings.reports.criticalRisks,
+    value: risks.filter((r) => r.level === "Critical").length,
+    color: PDF_LEVEL_COLORS.Critical,
+  },
+  {
+    label: strings.reports.highRisks,
+    value: risks.filter((r) => r.level === "High").length,
+    color: PDF_LEVEL_COLORS.High,
+  },
+  {
+    label: strings.reports.closedRisks,
+    value: risks.filter((r) => r.status === "Closed").length,
+    color: PDF_LEVEL_COLORS.Low,
+  },
+];
+
+const fileDate = () => new Date().toISOString().slice(0, 10);
+
+export const exportExecutiveReportPdf = async (
+  risks: Risk[],
+  context: RiskReportPdfContext
+) => {
+  const { strings } = context;
+  const pdf = await startReport(
+    strings.reports.executiveTitle,
+    strings.reports.executiveSubtitle,
+    risks,
+    context
+  );
+
+  pdf.addSection(strings.reports.executiveSummaryTitle);
+  pdf.addParagraph(
+    strings.reports.executiveSummaryText
+      .replace("{total}", String(risks.length))
+      .replace(
+        "{critical}",
+        String(risks.filter((r) => r.level === "Critical").length)
+      )
+      .replace(
+        "{closed}",
+        String(risks.filter((r) => r.status === "Closed").length)
+      )
+  );
+  pdf.addKpis(summaryKpis(risks, context));
+  addCharts(pdf, risks, context);
+
+  pdf.addSection(strings.reports.keyRisksTitle);
+  const topPriority = byScore(
+    risks.filter((r) => r.level === "Critical" || r.level === "High")
+  ).slice(0, 5);
+  if (topPriority.length === 0) {
+    pdf.addParagraph(strings.reports.noPriorityRisks);
+  } else {
+    pdf.addTable(
+      [
+        { header: strings.table.id, width: 1.2, value: (r: Risk) => r.id },
+        { header: strings.table.title, width: 3.2, value: (r) => r.title },
+        { header: strings.table.owner, width: 1.8, value: (r) => r.owner },
+        {
+          header: strings.table.score,
+          width: 0.8,
+          value: (r) => r.score,
+          align: "end",
+        },
+        {
+          header: strings.table.level,
+          width: 1.2,
+          value: (r) => translate(strings.risks.levels, r.level),
+          badgeColor: (r) => PDF_LEVEL_COLORS[r.level],
+        },
+      ],
+      topPriority
+    );
+  }
+
+  pdf.addSection(strings.reports.recommendationsTitle);
+  pdf.addBulletList([
+    strings.reports.reco1,
+    strings.reports.reco2,
+    strings.reports.reco3,
+    strings.reports.reco4,
+  ]);
+
+  await pdf.download(`risk-executive-${fileDate()}.pdf`);
+};
+
+export const exportStandardReportPdf = async (
+  risks: Risk[],
+  context: RiskReportPdfContext
+) => {
+  const { strings } = context;
+  const pdf = await startReport(
+    strings.reports.standardTitle,
+    strings.reports.standardSubtitle,
+    risks,
+    context
+  );
+
+  pdf.addSection(strings.reports.summaryTitle);
+  pdf.addKpis(summaryKpis(risks, context));
+  addCharts(pdf, risks, context);
+
+  pdf.addSection(strings.reports.detailedTableTitle);
+  if (risks.length === 0) {
+    pdf.addParagraph(strings.reports.noRisksAvailable);
+  } else {
+    pdf.addTable(
+      [
+        { header: strings.table.id, width: 1.1, value: (r: Risk) => r.id },
+        { header: strings.table.title, width: 3, value: (r) => r.title },
+        {
+          header: strings.table.category,
+          width: 1.5,
+          value: (r) => translate(strings.risks.categories, r.category),
+        },
+        {
+          header: strings.table.status,
+          width: 1.2,
+          value: (r) => translate(strings.risks.statuses, r.status),
+        },
+        {
+          header: strings.table.score,
+          width: 0.8,
+          value: (r) => r.score,
+          align: "end",
+        },
+        {
+          header: strings.table.level,
+          width: 1.2,
+          value: (r) => translate(strings.risks.levels, r.level),
+          badgeColor: (r) => PDF_LEVEL_COLORS[r.level],
+        },
+      ],
+      byScore(risks)
+    );
+  }
+
+  await pdf.download(`risk-standard-${fileDate()}.pdf`);
+};
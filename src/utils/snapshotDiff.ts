@@ -0,0 +1,187 @@
+/**
+ * Snapshot Diff
+ *
+ * Movement of the risk register between two snapshots: risks added or
+ * removed, score movements, owner changes and status changes. Risks are
+ * matched on their backend ID so a renamed code still lines up.
+ */
+
+import type { RegisterSnapshot, SnapshotRisk } from "@/api/reportApi";
+
+export interface ScoreMovement {
+  before: SnapshotRisk;
+  after: SnapshotRisk;
+  /** Positive when the score went up */
+  inherentDelta: number;
+  residualDelta: number;
+}
+
+export interface FieldMovement {
+  before: SnapshotRisk;
+  after: SnapshotRisk;
+  from: string;
+  to: string;
+}
+
+export interface SnapshotDiff {
+  added: SnapshotRisk[];
+  removed: SnapshotRisk[];
+  scoreChanges: ScoreMovement[];
+  ownerChanges: FieldMovement[];
+  statusChanges: FieldMovement[];
+  /** Risks in both snapshots with none of the changes above */
+  unchanged: number;
+}
+
+export type SnapshotMovementType =
+  | "added"
+  | "removed"
+  | "inherentScore"
+  | "residualScore"
+  | "owner"
+  | "status";
+
+/** One line of the movement report, as exported to CSV and PDF. */
+export interface SnapshotMovement {
+  type: SnapshotMovementType;
+  code: string;
+  title: string;
+  before: string;
+  after: string;
+}
+
+const scoreDelta = (before?: number, after?: number) =>
+  (after ?? 0) - (before ?? 0);
+
+export const diffSnapshots = (
+  baseline: RegisterSnapshot,
+  comparison: RegisterSnapshot
+): SnapshotDiff => {
+  const before = new Map(
+    (baseline.risks ?? []).map((risk) => [risk.riskId, risk])
+  );
+  const after = new Map(
+    (comparison.risks ?? []).map((risk) => [risk.riskId, risk])
+  );
+
+  const diff: SnapshotDiff = {
+    added: (comparison.risks ?? []).filter((risk) => !before.has(risk.riskId)),
+    removed: (baseline.risks ?? []).filter((risk) => !after.has(risk.riskId)),
+    scoreChanges: [],
+    ownerChanges: [],
+    statusChanges: [],
+    unchanged: 0,
+  };
+
+  after.forEach((current, id) => {
+    const previous = before.get(id);
+    if (!previous) return;
+    let changed = false;
+
+    const inherentDelta = scoreDelta(
+      previous.inherentScore,
+      current.inherentScore
+    );
+    const residualDelta = scoreDelta(
+      previous.residualScore,
+      current.residualScore
+    );
+    if (inherentDelta !== 0 || residualDelta !== 0) {
+      diff.scoreChanges.push({
+        before: previous,
+        after: current,
+        inherentDelta,
+        residualDelta,
+      });
+      changed = true;
+    }
+    if ((previous.owner ?? "") !== (current.owner ?? "")) {
+      diff.ownerChanges.push({
+        before: previous,
+        after: current,
+        from: previous.owner ?? "",
+        to: current.owner ?? "",
+      });
+      changed = true;
+    }
+    if (previous.status !== current.status) {
+      diff.statusChanges.push({
+        before: previous,
+        after: current,
+        from: previous.status,
+        to: current.status,
+      });
+      changed = true;
+    }
+    if (!changed) diff.unchanged += 1;
+  });
+
+  // Biggest movers first
+  diff.scoreChanges.sort(
+    (a, b) =>
+      Math.abs(b.inherentDelta) - Math.abs(a.inherentDelta) ||
+      Math.abs(b.residualDelta) - Math.abs(a.residualDelta)
+  );
+  return diff;
+};
+
+const scoreText = (value?: number) =>
+  value === undefined || value === null ? "" : String(value);
+
+/** Flatten a diff into one line per change. */
+export const listSnapshotMovements = (
+  diff: SnapshotDiff
+): SnapshotMovement[] => [
+  ...diff.added.map((risk) => ({
+    type: "added" as const,
+    code: risk.code,
+    title: risk.title,
+    before: "",
+    after: scoreText(risk.inherentScore),
+  })),
+  ...diff.removed.map((risk) => ({
+    type: "removed" as const,
+    code: risk.code,
+    title: risk.title,
+    before: scoreText(risk.inherentScore),
+    after: "",
+  })),
+  ...diff.scoreChanges.flatMap(({ before, after, inherentDelta, residualDelta }) => [
+    ...(inherentDelta !== 0
+      ? [
+          {
+            type: "inherentScore" as const,
+            code: after.code,
+            title: after.title,
+            before: scoreText(before.inherentScore),
+            after: scoreText(after.inherentScore),
+          },
+        ]
+      : []),
+    ...(residualDelta !== 0
+      ? [
+          {
+            type: "residualScore" as const,
+            code: after.code,
+            title: after.title,
+            before: scoreText(before.residualScore),
+            after: scoreText(after.residualScore),
+          },
+        ]
+      : []),
+  ]),
+  ...diff.ownerChanges.map(({ after, from, to }) => ({
+    type: "owner" as const,
+    code: after.code,
+    title: after.title,
+    before: from,
+    after: to,
+  })),
+  ...diff.statusChanges.map(({ after, from, to }) => ({
+    type: "status" as const,
+    code: after.code,
+    title: after.title,
+    before: from,
+    after: to,
+  })),
+];
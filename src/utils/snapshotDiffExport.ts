@@ -0,0 +1,159 @@
+/**
+ * Snapshot Diff Export
+ *
+ * CSV and PDF versions of the movement between two register snapshots,
+ * laid out like the diff page so the board pack matches the screen.
+ */
+
+import type { RegisterSnapshot } from "@/api/reportApi";
+import { createReportPdf, PDF_LEVEL_COLORS } from "./reportPdf";
+import { downloadBlob } from "./reportFiles";
+import type { RiskReportPdfContext } from "./riskReportPdf";
+import {
+  listSnapshotMovements,
+  type SnapshotDiff,
+  type SnapshotMovement,
+} from "./snapshotDiff";
+
+const csvEscape = (value: unknown) => {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const fileName = (
+  baseline: RegisterSnapshot,
+  comparison: RegisterSnapshot,
+  extension: string
+) =>
+  `register-movement-${baseline.takenAt.slice(0, 10)}-to-${comparison.takenAt.slice(
+    0,
+    10
+  )}.${extension}`;
+
+/** Status values are stored as backend keys; show them translated. */
+const movementValue = (
+  movement: SnapshotMovement,
+  value: string,
+  { strings }: RiskReportPdfContext
+) =>
+  movement.type === "status"
+    ? (strings.risks.lifecycleStatuses as Record<string, string>)[value] ??
+      value
+    : value;
+
+export const exportSnapshotDiffCsv = (
+  baseline: RegisterSnapshot,
+  comparison: RegisterSnapshot,
+  diff: SnapshotDiff,
+  context: RiskReportPdfContext
+) => {
+  const t = context.strings.reports.snapshots;
+  const header = [t.colChange, t.colCode, t.colRisk, baseline.name, comparison.name];
+  const rows = listSnapshotMovements(diff).map((movement) => [
+    t.movementTypes[movement.type],
+    movement.code,
+    movement.title,
+    movementValue(movement, movement.before, context),
+    movementValue(movement, movement.after, context),
+  ]);
+  const csv = [
+    header.map(csvEscape).join(","),
+    ...rows.map((row) => row.map(csvEscape).join(",")),
+  ].join("\n");
+  downloadBlob(
+    new Blob([csv], { type: "text/csv;charset=utf-8" }),
+    fileName(baseline, comparison, "csv")
+  );
+};
+
+export const exportSnapshotDiffPdf = async (
+  baseline: RegisterSnapshot,
+  comparison: RegisterSnapshot,
+  diff: SnapshotDiff,
+  context: RiskReportPdfContext
+) => {
+  const { strings, isRTL, preparedBy } = context;
+  const t = strings.reports.snapshots;
+  const locale = isRTL ? "ar-SA" : "en-US";
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleDateString(locale, { dateStyle: "medium" });
+
+  const pdf = await createReportPdf({
+    title: t.pdfTitle,
+    isRTL,
+    locale,
+    author: preparedBy,
+    labels: {
+      generatedOn: strings.reports.pdfGeneratedOn,
+      pageOf: strings.reports.pdfPageOf,
+    },
+  });
+  pdf.addCoverPage({
+    title: t.pdfTitle,
+    subtitle: t.pdfSubtitle
+      .replace("{from}", baseline.name)
+      .replace("{to}", comparison.name),
+    meta: [
+      {
+        label: t.baseline,
+        value: `${baseline.name} (${formatDate(baseline.takenAt)})`,
+      },
+      {
+        label: t.comparison,
+        value: `${comparison.name} (${formatDate(comparison.takenAt)})`,
+      },
+      ...(preparedBy
+        ? [{ label: strings.reports.pdfPreparedBy, value: preparedBy }]
+        : []),
+    ],
+  });
+
+  pdf.addSection(strings.reports.summaryTitle);
+  pdf.addKpis([
+    { label: t.added, value: diff.added.length },
+    { label: t.removed, value: diff.removed.length },
+    {
+      label: t.scoreUp,
+      value: diff.scoreChanges.filter((c) => c.inherentDelta > 0).length,
+      color: PDF_LEVEL_COLORS.Critical,
+    },
+    {
+      label: t.scoreDown,
+      value: diff.scoreChanges.filter((c) => c.inherentDelta < 0).length,
+      color: PDF_LEVEL_COLORS.Low,
+    },
+    { label: t.ownerChanges, value: diff.ownerChanges.length },
+    { label: t.statusChanges, value: diff.statusChanges.length },
+  ]);
+
+  const movements = listSnapshotMovements(diff);
+  pdf.addSection(t.movementTitle);
+  if (movements.length === 0) {
+    pdf.addParagraph(t.noMovement);
+  } else {
+    pdf.addTable(
+      [
+        {
+          header: t.colChange,
+          width: 1.4,
+          value: (m: SnapshotMovement) => t.movementTypes[m.type],
+        },
+        { header: t.colCode, width: 1.1, value: (m) => m.code },
+        { header: t.colRisk, width: 3, value: (m) => m.title },
+        {
+          header: t.colBefore,
+          width: 1.5,
+          value: (m) => movementValue(m, m.before, context) || "—",
+        },
+        {
+          header: t.colAfter,
+          width: 1.5,
+          value: (m) => movementValue(m, m.after, context) || "—",
+        },
+      ],
+      movements
+    );
+  }
+
+  await pdf.download(fileName(baseline, comparison, "pdf"));
+};
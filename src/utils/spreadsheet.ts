@@ -0,0 +1,314 @@
+/**
+ * Spreadsheet Reader
+ *
+ * Reads the first sheet of a CSV or XLSX file into a header row plus data
+ * rows of plain strings. XLSX files are unzipped with the browser's
+ * DecompressionStream, so no spreadsheet library is needed for imports.
+ */
+
+export interface SpreadsheetData {
+  headers: string[];
+  rows: string[][];
+  /** 1-based sheet row of each data row, counting the blank rows dropped */
+  rowNumbers?: number[];
+}
+
+// ===========================================
+// CSV
+// ===========================================
+
+/** Comma, semicolon or tab, whichever appears most in the first line. */
+const detectDelimiter = (text: string) => {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const candidates = [",", ";", "\t"];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length
+      ? candidate
+      : best
+  );
+};
+
+/** RFC 4180 parser: quoted fields may contain delimiters, quotes and newlines. */
+export const parseCsv = (input: string): string[][] => {
+  const text = input.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// ===========================================
+// XLSX (zip container)
+// ===========================================
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data.slice()])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/** Read every entry of a zip archive via its central directory. */
+const unzip = async (
+  buffer: ArrayBuffer
+): Promise<Map<string, Uint8Array>> => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  let end = -1;
+  for (let i = buffer.byteLength - 22; i >= 0; i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) throw new Error("Not a valid XLSX file");
+
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const entries = new Map<string, Uint8Array>();
+
+  for (let n = 0; n < entryCount; n++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break;
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(
+      bytes.subarray(offset + 46, offset + 46 + nameLength)
+    );
+
+    const dataStart =
+      localOffset +
+      30 +
+      view.getUint16(localOffset + 26, true) +
+      view.getUint16(localOffset + 28, true);
+    const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) entries.set(name, raw);
+    else if (method === 8) entries.set(name, await inflateRaw(raw));
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+const decodeXml = (value: string) =>
+  value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) =>
+      String.fromCodePoint(parseInt(code, 16))
+    )
+    .replace(/&amp;/g, "&");
+
+const attribute = (attributes: string, name: string) =>
+  attributes.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1];
+
+/** Concatenate the text runs of a shared or inline string. */
+const textRuns = (xml: string) =>
+  Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g))
+    .map((match) => decodeXml(match[1]))
+    .join("");
+
+/** "AB12" -> 27 (zero-based column index) */
+const columnIndex = (reference: string) =>
+  (reference.match(/^[A-Z]+/)?.[0] ?? "A")
+    .split("")
+    .reduce((sum, letter) => sum * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+/** Built-in number formats that display a date (ECMA-376 18.8.30) */
+const BUILTIN_DATE_FORMATS = new Set([
+  14, 15, 16, 17, 22, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36, 50, 51, 52, 53,
+  54, 55, 56, 57, 58,
+]);
+
+/** A custom format shows a date when it has day or year codes outside quotes. */
+const isDateFormatCode = (code: string) =>
+  /[dy]/i.test(code.replace(/"[^"]*"|\\.|\[[^\]]*\]/g, ""));
+
+/**
+ * Indexes into cellXfs (a cell's `s` attribute) whose number format is a
+ * date. Without this, dates come through as serial numbers.
+ */
+const dateStyleIndexes = (stylesXml: string | undefined) => {
+  const dates = new Set<number>();
+  if (!stylesXml) return dates;
+  const customDates = new Set(
+    Array.from(stylesXml.matchAll(/<numFmt\b([^>]*?)\/?>/g))
+      .map((match) => match[1])
+      .filter((attrs) =>
+        isDateFormatCode(decodeXml(attribute(attrs, "formatCode") ?? ""))
+      )
+      .map((attrs) => Number(attribute(attrs, "numFmtId")))
+  );
+  const cellXfs =
+    stylesXml.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/)?.[1] ?? "";
+  Array.from(cellXfs.matchAll(/<xf\b([^>]*?)\/?>/g)).forEach((match, index) => {
+    const formatId = Number(attribute(match[1], "numFmtId") ?? 0);
+    if (BUILTIN_DATE_FORMATS.has(formatId) || customDates.has(formatId)) {
+      dates.add(index);
+    }
+  });
+  return dates;
+};
+
+/** Excel serial day -> "YYYY-MM-DD" (1900 or 1904 date system) */
+const serialToIsoDate = (serial: number, uses1904: boolean) => {
+  // 1899-12-30 absorbs Excel's phantom 1900-02-29 for every real date
+  const epoch = uses1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+  return new Date(epoch + Math.floor(serial) * 86400000)
+    .toISOString()
+    .slice(0, 10);
+};
+
+const firstSheetPath = (entries: Map<string, Uint8Array>) => {
+  const decoder = new TextDecoder();
+  const workbook = entries.get("xl/workbook.xml");
+  const rels = entries.get("xl/_rels/workbook.xml.rels");
+  if (workbook && rels) {
+    const sheet = decoder.decode(workbook).match(/<sheet\b([^>]*)\/?>/);
+    const relId = sheet && attribute(sheet[1], "r:id");
+    const target = Array.from(
+      decoder.decode(rels).matchAll(/<Relationship\b([^>]*)\/?>/g)
+    )
+      .map((match) => match[1])
+      .find((attrs) => attribute(attrs, "Id") === relId);
+    const path = target && attribute(target, "Target");
+    if (path) return path.startsWith("/") ? path.slice(1) : `xl/${path}`;
+  }
+  return "xl/worksheets/sheet1.xml";
+};
+
+export const parseXlsx = async (buffer: ArrayBuffer): Promise<string[][]> => {
+  const entries = await unzip(buffer);
+  const decoder = new TextDecoder();
+  const sheet = entries.get(firstSheetPath(entries));
+  if (!sheet) throw new Error("The workbook has no worksheet");
+
+  const sharedXml = entries.get("xl/sharedStrings.xml");
+  const shared = sharedXml
+    ? Array.from(
+        decoder.decode(sharedXml).matchAll(/<si>([\s\S]*?)<\/si>/g)
+      ).map((match) => textRuns(match[1]))
+    : [];
+
+  const stylesXml = entries.get("xl/styles.xml");
+  const dateStyles = dateStyleIndexes(
+    stylesXml ? decoder.decode(stylesXml) : undefined
+  );
+  const workbookXml = entries.get("xl/workbook.xml");
+  const uses1904 = workbookXml
+    ? /<workbookPr\b[^>]*\bdate1904="(?:1|true)"/.test(
+        decoder.decode(workbookXml)
+      )
+    : false;
+
+  const rows: string[][] = [];
+  const rowMatches = decoder
+    .decode(sheet)
+    .matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g);
+  for (const rowMatch of rowMatches) {
+    // Empty rows are left out of the XML; keep the sheet's numbering
+    const rowNumber = Number(attribute(rowMatch[1], "r"));
+    while (rowNumber && rows.length < rowNumber - 1) rows.push([]);
+    const row: string[] = [];
+    const cells = (rowMatch[2] ?? "").matchAll(
+      /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g
+    );
+    for (const [, attrs, body = ""] of cells) {
+      const reference = attribute(attrs, "r");
+      const index = reference ? columnIndex(reference) : row.length;
+      const type = attribute(attrs, "t");
+      const rawValue = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+      let value = "";
+      if (type === "s") value = shared[Number(rawValue)] ?? "";
+      else if (type === "inlineStr") value = textRuns(body);
+      else if (
+        rawValue !== undefined &&
+        (!type || type === "n") &&
+        dateStyles.has(Number(attribute(attrs, "s"))) &&
+        Number.isFinite(Number(rawValue))
+      ) {
+        value = serialToIsoDate(Number(rawValue), uses1904);
+      } else if (rawValue !== undefined) value = decodeXml(rawValue);
+      while (row.length < index) row.push("");
+      row[index] = value;
+    }
+    rows.push(row);
+  }
+  return rows;
+};
+
+// ===========================================
+// Entry point
+// ===========================================
+
+export const SPREADSHEET_ACCEPT = ".csv,.xlsx";
+
+/**
+ * Read a CSV or XLSX file. Blank rows are dropped and every row is padded
+ * to the header width so callers can index columns safely; `rowNumbers`
+ * keeps each row's place in the file for messages.
+ */
+export const readSpreadsheet = async (file: File): Promise<SpreadsheetData> => {
+  const name = file.name.toLowerCase();
+  let table: string[][];
+  if (name.endsWith(".csv")) {
+    table = parseCsv(await file.text());
+  } else if (name.endsWith(".xlsx")) {
+    table = await parseXlsx(await file.arrayBuffer());
+  } else {
+    throw new Error("Only .csv and .xlsx files are supported");
+  }
+
+  const nonEmpty = table
+    .map((row, index) => ({ row, rowNumber: index + 1 }))
+    .filter(({ row }) => row.some((cell) => (cell ?? "").trim() !== ""));
+  if (nonEmpty.length === 0) throw new Error("The file is empty");
+
+  const headers = nonEmpty[0].row.map((header) => (header ?? "").trim());
+  const body = nonEmpty.slice(1);
+  const rows = body.map(({ row }) =>
+    headers.map((_, index) => (row[index] ?? "").trim())
+  );
+  return { headers, rows, rowNumbers: body.map(({ rowNumber }) => rowNumber) };
+};
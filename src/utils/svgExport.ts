@@ -0,0 +1,60 @@
+/**
+ * SVG Export
+ *
+ * Saves an on-screen SVG diagram as a standalone .svg file or rasterises
+ * it to PNG. Diagrams meant for export use inline colours and fonts, since
+ * stylesheet classes do not travel with the file.
+ */
+
+import { downloadBlob } from "./reportFiles";
+
+const serializeSvg = (svg: SVGSVGElement): string => {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+  const { width, height } = svg.viewBox.baseVal;
+  clone.setAttribute("width", String(width));
+  clone.setAttribute("height", String(height));
+  return new XMLSerializer().serializeToString(clone);
+};
+
+export const exportSvg = (svg: SVGSVGElement, filename: string) => {
+  const blob = new Blob([serializeSvg(svg)], {
+    type: "image/svg+xml;charset=utf-8",
+  });
+  downloadBlob(blob, `${filename}.svg`);
+};
+
+/** Render at `scale` times the viewBox size on a white background. */
+export const exportPng = async (
+  svg: SVGSVGElement,
+  filename: string,
+  scale = 2
+): Promise<void> => {
+  const { width, height } = svg.viewBox.baseVal;
+  const url = URL.createObjectURL(
+    new Blob([serializeSvg(svg)], { type: "image/svg+xml;charset=utf-8" })
+  );
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error("Could not render diagram"));
+      image.src = url;
+    });
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas is not available");
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, "image/png")
+    );
+    if (!blob) throw new Error("Could not render diagram");
+    downloadBlob(blob, `${filename}.png`);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
@@ -0,0 +1,96 @@
+/**
+ * Treatment Workflow
+ *
+ * Works out which approval-flow steps a treatment plan can take next, who
+ * may take them and, for steps that are legal but not ready, why not.
+ */
+
+import {
+  TREATMENT_PLAN_TRANSITIONS,
+  type BackendTreatmentStatusType,
+  type PermissionKey,
+} from "./constants";
+import type { Treatment } from "@/types";
+
+export type TreatmentTransitionBlocker =
+  | "missingDetails"
+  | "noActions"
+  | "openActions";
+
+export interface TreatmentTransitionOption {
+  status: BackendTreatmentStatusType;
+  permission: PermissionKey;
+  allowed: boolean;
+  blocker?: TreatmentTransitionBlocker;
+}
+
+export const getTreatmentStatus = (
+  treatment: Treatment | null
+): BackendTreatmentStatusType =>
+  (treatment?._status as BackendTreatmentStatusType) || "draft";
+
+/** Permission needed to move a plan from one status to another. */
+const requiredPermission = (
+  from: BackendTreatmentStatusType,
+  to: BackendTreatmentStatusType
+): PermissionKey => {
+  if (to === "approved" || to === "cancelled") return "canApprove";
+  // Sending a submitted plan back, or reviving a cancelled one, is the
+  // reviewer's call.
+  if (to === "draft") return "canApprove";
+  return "canEdit";
+};
+
+const getBlocker = (
+  to: BackendTreatmentStatusType,
+  treatment: Treatment
+): TreatmentTransitionBlocker | undefined => {
+  const actions = treatment.actions ?? [];
+  switch (to) {
+    case "pending":
+      if (!treatment._title?.trim() || !treatment._targetDate) {
+        return "missingDetails";
+      }
+      return actions.length === 0 ? "noActions" : undefined;
+    case "completed":
+      return actions.some((a) => a.status !== "Done")
+        ? "openActions"
+        : undefined;
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * List the legal next statuses for a plan, flagging the ones the user may
+ * not take or whose preconditions are not met.
+ */
+export const getTreatmentTransitions = (
+  treatment: Treatment,
+  can: (permission: PermissionKey) => boolean
+): TreatmentTransitionOption[] => {
+  const from = getTreatmentStatus(treatment);
+  return (TREATMENT_PLAN_TRANSITIONS[from] ?? []).map((status) => {
+    const permission = requiredPermission(from, status);
+    const blocker = getBlocker(status, treatment);
+    return {
+      status,
+      permission,
+      allowed: can(permission) && !blocker,
+      blocker,
+    };
+  });
+};
+
+/**
+ * Drafts belong to their authors; once a plan is submitted only approvers
+ * may change its scope, and finished plans are read-only.
+ */
+export const canEditTreatmentDetails = (
+  treatment: Treatment | null,
+  can: (permission: PermissionKey) => boolean
+) => {
+  const status = getTreatmentStatus(treatment);
+  if (status === "completed" || status === "cancelled") return false;
+  return status === "draft" ? can("canEdit") : can("canApprove");
+};
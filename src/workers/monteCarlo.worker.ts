@@ -0,0 +1,28 @@
+/**
+ * Monte Carlo Worker
+ *
+ * Runs utils/monteCarlo.ts off the main thread. Each request carries an id
+ * that is echoed back so a caller can ignore answers to stale requests.
+ */
+
+import { runSimulation, type SimulationRisk } from "@/utils/monteCarlo";
+
+export interface MonteCarloRequest {
+  requestId: number;
+  risks: SimulationRisk[];
+  iterations?: number;
+  portfolio?: boolean;
+}
+
+self.onmessage = (event: MessageEvent<MonteCarloRequest>) => {
+  const { requestId, risks, iterations, portfolio } = event.data;
+  try {
+    const result = runSimulation(risks, { iterations, portfolio });
+    self.postMessage({ requestId, result });
+  } catch (error) {
+    self.postMessage({
+      requestId,
+      error: error instanceof Error ? error.message : "Simulation failed",
+    });
+  }
+};